@@ -193,7 +193,8 @@ export default function AppLayout() {
           if (!cancelled) setMode(d.data.mode);
         }
         const s = await apiRequest("/api/v1/system/health/ready");
-        if (s.ok) {
+        // Not-ready is reported as 503 with the verdict in the body
+        if (s.ok || s.status === 503) {
           const j = await s.json().catch(() => ({}) as any);
           if (!cancelled) {
             const ok =
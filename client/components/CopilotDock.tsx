@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
@@ -14,7 +14,8 @@ import {
 } from "@/components/ui/dialog";
 import { useAuth } from "@/contexts/AuthContext";
 import apiFetch, { getJson, postJson } from "@/lib/apiClient";
-import { Sparkles, Bot, Shield, RefreshCw } from "lucide-react";
+import readEventStream from "@/lib/sse";
+import { Sparkles, Bot, Shield, RefreshCw, Square, Plus } from "lucide-react";
 
 interface Msg {
   role: "user" | "assistant" | "system";
@@ -22,12 +23,23 @@ interface Msg {
   ts: number;
 }
 
+// The dock's questions go to one server-side conversation thread, remembered
+// across sessions so follow-ups keep their context
+const THREAD_STORAGE_KEY = "copilot-thread-id";
+
 export default function CopilotDock() {
   const { user } = useAuth();
   const [open, setOpen] = useState(false);
   const [input, setInput] = useState("");
   const [msgs, setMsgs] = useState<Msg[]>([]);
   const [loading, setLoading] = useState(false);
+  const [threadId, setThreadId] = useState<string | null>(() =>
+    typeof window !== "undefined"
+      ? localStorage.getItem(THREAD_STORAGE_KEY)
+      : null,
+  );
+  const abortRef = useRef<AbortController | null>(null);
+  const [streaming, setStreaming] = useState(false);
   const [confirm, setConfirm] = useState<{
     open: boolean;
     title: string;
@@ -44,6 +56,34 @@ export default function CopilotDock() {
     reason: "",
   });
 
+  useEffect(() => {
+    if (threadId) localStorage.setItem(THREAD_STORAGE_KEY, threadId);
+    else localStorage.removeItem(THREAD_STORAGE_KEY);
+  }, [threadId]);
+
+  // Show the remembered conversation when the dock is first opened
+  useEffect(() => {
+    if (!open || !threadId || msgs.length > 0) return;
+    getJson<any>(`/api/v1/llm/threads/${threadId}`)
+      .then((j) => {
+        const turns = j?.data?.turns || [];
+        setMsgs(
+          turns.flatMap((t: any) => {
+            const ts = Date.parse(t.at);
+            const cites = t.citations?.length
+              ? `\n\nSources: ${t.citations.join(", ")}`
+              : "";
+            return [
+              { role: "user", text: t.question, ts },
+              { role: "assistant", text: `${t.answer}${cites}`, ts },
+            ];
+          }),
+        );
+      })
+      .catch(() => setThreadId(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
   if (!user) return null;
 
   const logCopilot = async (title: string, message: string) => {
@@ -63,35 +103,100 @@ export default function CopilotDock() {
 
   const append = (m: Msg) => setMsgs((prev) => [...prev, m].slice(-50));
 
-  const sendLLM = async (question: string, sources: string[]) => {
+  // Streams the answer into the last message and returns it with its
+  // citation ids; aborting stops the answer server-side too
+  const streamAnswer = async (
+    question: string,
+    thread: string | null,
+    signal: AbortSignal,
+  ): Promise<{ answer: string; sources: string[] }> => {
+    const r = await apiFetch("/api/v1/llm/ask/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ question, threadId: thread || undefined }),
+      signal,
+    });
+    // The remembered thread was deleted; start a new one
+    if (r.status === 404 && thread) {
+      setThreadId(null);
+      return streamAnswer(question, null, signal);
+    }
+    if (!r.ok) {
+      const j = await r.json().catch(() => ({}));
+      throw new Error(j?.message || `HTTP ${r.status}`);
+    }
+    const out = { answer: "", sources: [] as string[] };
+    let failure: string | null = null;
+    append({ role: "assistant", text: "", ts: Date.now() });
+    await readEventStream(r, (event, data) => {
+      if (event === "context") {
+        setThreadId(data.thread?.id || null);
+        out.sources = (data.context?.documents || []).map(
+          (d: [string, string]) => d[1],
+        );
+      } else if (event === "token") {
+        out.answer += data.text;
+        setLast(out.answer);
+      } else if (event === "error") {
+        failure = data.message || "Failed";
+      }
+    });
+    if (failure) throw new Error(failure);
+    return out;
+  };
+
+  const setLast = (text: string) =>
+    setMsgs((prev) => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], text },
+    ]);
+
+  const sendLLM = async (question: string) => {
     setLoading(true);
-    const userMsg: Msg = { role: "user", text: question, ts: Date.now() };
-    append(userMsg);
+    append({ role: "user", text: question, ts: Date.now() });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming(true);
     try {
-      const r = await apiFetch("/api/v1/llm/ask", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question }),
-      });
-      const j = await r.json().catch(() => ({ answer: "No response" }));
-      const answer =
-        typeof j?.answer === "string"
-          ? j.answer
-          : j?.data?.answer || JSON.stringify(j);
+      const { answer, sources } = await streamAnswer(
+        question,
+        threadId,
+        controller.signal,
+      );
       const cites = sources.length ? `\n\nSources: ${sources.join(", ")}` : "";
-      append({ role: "assistant", text: `${answer}${cites}`, ts: Date.now() });
+      setLast(`${answer}${cites}`);
       await logCopilot("Copilot suggestion", `${question} → ${answer}`);
     } catch (e: any) {
-      append({
-        role: "assistant",
-        text: `Error: ${e?.message || "Failed"}`,
-        ts: Date.now(),
-      });
+      if (controller.signal.aborted) {
+        setMsgs((prev) => {
+          const last = prev[prev.length - 1];
+          return last?.role === "assistant"
+            ? [
+                ...prev.slice(0, -1),
+                { ...last, text: `${last.text} (stopped)` },
+              ]
+            : prev;
+        });
+      } else {
+        append({
+          role: "assistant",
+          text: `Error: ${e?.message || "Failed"}`,
+          ts: Date.now(),
+        });
+      }
     } finally {
+      abortRef.current = null;
+      setStreaming(false);
       setLoading(false);
     }
   };
 
+  const newConversation = () => {
+    abortRef.current?.abort();
+    setThreadId(null);
+    setMsgs([]);
+  };
+
   const actWhyLastTrade = async () => {
     setLoading(true);
     try {
@@ -439,7 +544,7 @@ export default function CopilotDock() {
     if (lower.includes("kill") && lower.includes("switch"))
       return actKillSwitch();
     if (lower.includes("rollback")) return actRollback();
-    return sendLLM(q, []);
+    return sendLLM(q);
   };
 
   return (
@@ -460,8 +565,19 @@ export default function CopilotDock() {
               <div className="font-medium">AI Copilot</div>
               <Badge variant="outline">{user.role.toUpperCase()}</Badge>
             </div>
-            <div className="text-[11px] text-muted-foreground">
-              Cites data sources; admin actions require confirmation
+            <div className="flex items-center gap-2">
+              <div className="text-[11px] text-muted-foreground">
+                Cites data sources; admin actions require confirmation
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                title="New conversation"
+                onClick={newConversation}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
             </div>
           </div>
           <div className="p-2 border-b flex flex-wrap gap-2 text-xs">
@@ -538,13 +654,23 @@ export default function CopilotDock() {
                   }
                 }}
               />
-              <Button onClick={onSend} disabled={loading}>
-                {loading ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  "Send"
-                )}
-              </Button>
+              {streaming ? (
+                <Button
+                  variant="outline"
+                  title="Stop"
+                  onClick={() => abortRef.current?.abort()}
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button onClick={onSend} disabled={loading}>
+                  {loading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Send"
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         </SheetContent>
@@ -91,6 +91,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const logout = () => {
+    // Revoke the server-side session (best effort) before dropping tokens
+    const refresh =
+      localStorage.getItem("refresh_token") ||
+      sessionStorage.getItem("refresh_token");
+    if (refresh) {
+      apiFetch("/api/auth/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: refresh }),
+        noAuth: true,
+      }).catch(() => {});
+    }
     localStorage.removeItem("access_token");
     localStorage.removeItem("refresh_token");
     sessionStorage.removeItem("access_token");
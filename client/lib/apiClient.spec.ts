@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { getBaseUrl, apiFetch } from "./apiClient";
+import { getBaseUrl, apiFetch, apiKeyScopeForPath } from "./apiClient";
 
 function setLocal(k: string, v: string | null) {
   if (!globalThis.window) (globalThis as any).window = {} as any;
@@ -75,3 +75,19 @@ describe("apiClient config", () => {
     expect(res).toBeInstanceOf(Response);
   });
 });
+
+describe("apiKeyScopeForPath", () => {
+  it("maps admin-like namespaces to key scopes", () => {
+    expect(apiKeyScopeForPath("/api/v1/models/train")).toBe("models");
+    expect(apiKeyScopeForPath("/api/admin/models/retrain")).toBe("models");
+    expect(apiKeyScopeForPath("/api/v1/admin/data/purge")).toBe("system");
+    expect(apiKeyScopeForPath("/api/system/pause")).toBe("system");
+    expect(apiKeyScopeForPath("/api/governance/plugins")).toBe("governance");
+    expect(apiKeyScopeForPath("/api/automation/social")).toBe("automation");
+  });
+
+  it("returns null for paths that need no key", () => {
+    expect(apiKeyScopeForPath("/api/v1/trades/recent")).toBeNull();
+    expect(apiKeyScopeForPath("/api/modelsx")).toBeNull();
+  });
+});
@@ -1,12 +1,15 @@
 // Centralized API client for backend requests
 // - Reads base URL override from localStorage ('aether-backend-url')
 // - Attaches Authorization: Bearer <access_token> (from localStorage)
-// - Adds X-API-Key for admin/system endpoints or when admin flag is set
+// - Adds a scoped X-API-Key for admin/system endpoints or when admin flag is set
 // - Automatically attempts token refresh via a refresher registered by AuthProvider on 401/419 responses
 // - Retries the original request once after a successful refresh
 
+export type ApiKeyScope = "models" | "system" | "governance" | "automation";
+
 export type ApiFetchInit = RequestInit & {
   admin?: boolean;
+  apiKeyScope?: ApiKeyScope;
   noAuth?: boolean;
   _retried?: boolean;
 };
@@ -34,17 +37,63 @@ export function getWsUrl(path?: string): string {
   return base + (path || "");
 }
 
-function shouldAddAdminKey(url: string, init?: ApiFetchInit): boolean {
-  if (init && init.admin) return true;
+// Access token from the remembered (localStorage) or session login
+export function getAccessToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return (
+    localStorage.getItem("access_token") ||
+    sessionStorage.getItem("access_token")
+  );
+}
+
+// WebSocket subprotocols carrying the access token, since browsers cannot
+// set an Authorization header on the upgrade request
+export function getWsProtocols(): string[] | undefined {
+  const access = getAccessToken();
+  return access ? ["bearer", access] : undefined;
+}
+
+// Maps an API path to the API key scope it requires (null when none)
+export function apiKeyScopeForPath(pathname: string): ApiKeyScope | null {
+  const m = pathname.match(
+    /\/api(?:\/v1)?\/(admin|system|governance|automation|models)\b(?:\/(\w+))?/,
+  );
+  if (!m) return null;
+  const [, ns, sub] = m;
+  if (ns === "admin") return sub === "models" ? "models" : "system";
+  return ns as ApiKeyScope;
+}
+
+function adminKeyScope(url: string, init?: ApiFetchInit): ApiKeyScope | null {
+  if (init && init.apiKeyScope) return init.apiKeyScope;
+  let scope: ApiKeyScope | null = null;
   try {
-    const u = new URL(url);
-    // Admin-like namespaces including models, and handle optional /v1 prefix
-    return /\/api(?:\/v1)?\/(admin|system|governance|automation|models)\b/.test(
-      u.pathname,
-    );
-  } catch {
-    return false;
+    scope = apiKeyScopeForPath(new URL(url).pathname);
+  } catch {}
+  return scope || (init && init.admin ? "system" : null);
+}
+
+// Scoped keys live in localStorage 'aether-api-keys' as { [scope]: key };
+// 'aether-api-key' and VITE_API_KEY remain as catch-all fallbacks.
+function resolveApiKey(scope: ApiKeyScope): string | undefined {
+  if (typeof window !== "undefined") {
+    try {
+      const scoped = JSON.parse(
+        localStorage.getItem("aether-api-keys") || "{}",
+      );
+      if (scoped && typeof scoped[scope] === "string" && scoped[scope])
+        return scoped[scope];
+    } catch {}
   }
+  let envKey: string | undefined = undefined;
+  try {
+    envKey = (import.meta as any)?.env?.VITE_API_KEY;
+  } catch {}
+  const cfgKey =
+    typeof window !== "undefined"
+      ? localStorage.getItem("aether-api-key") || undefined
+      : undefined;
+  return envKey || cfgKey;
 }
 
 export async function apiFetch(
@@ -88,26 +137,15 @@ export async function apiFetch(
   );
 
   // Attach Authorization unless disabled
-  let access =
-    typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
-  if (!access && typeof window !== "undefined") {
-    access = sessionStorage.getItem("access_token");
-  }
+  const access = getAccessToken();
   if (!init?.noAuth && access && !headers.has("Authorization")) {
     headers.set("Authorization", `Bearer ${access}`);
   }
 
-  // Add admin key when needed (from env/config only)
-  if (shouldAddAdminKey(urlStr, init) && !headers.has("X-API-Key")) {
-    let envKey: string | undefined = undefined;
-    try {
-      envKey = (import.meta as any)?.env?.VITE_API_KEY;
-    } catch {}
-    const cfgKey =
-      typeof window !== "undefined"
-        ? localStorage.getItem("aether-api-key") || undefined
-        : undefined;
-    const apiKey = envKey || cfgKey;
+  // Add admin key when needed (scoped key from config, else env/global key)
+  const keyScope = adminKeyScope(urlStr, init);
+  if (keyScope && !headers.has("X-API-Key")) {
+    const apiKey = resolveApiKey(keyScope);
     if (apiKey) headers.set("X-API-Key", apiKey);
   }
 
@@ -214,6 +252,8 @@ export async function apiFetch(
     try {
       return await fetchImpl(urlStr, { ...init, headers });
     } catch (err) {
+      // A caller's abort is final; retrying over XHR would resend the request
+      if ((err as any)?.name === "AbortError") throw err;
       return await xhrFetch(urlStr, init);
     }
   };
@@ -223,6 +263,7 @@ export async function apiFetch(
   try {
     res = await doFetch();
   } catch (err) {
+    if ((err as any)?.name === "AbortError") throw err;
     try {
       res = await xhrFetch(urlStr, init);
     } catch (err2) {
@@ -239,12 +280,7 @@ export async function apiFetch(
         const ok = await tokenRefresher();
         if (ok) {
           // Update Authorization header with the latest token
-          let newAccess =
-            typeof window !== "undefined"
-              ? localStorage.getItem("access_token")
-              : null;
-          if (!newAccess && typeof window !== "undefined")
-            newAccess = sessionStorage.getItem("access_token");
+          const newAccess = getAccessToken();
           if (newAccess) headers.set("Authorization", `Bearer ${newAccess}`);
           res = await apiFetch(urlStr, { ...(init || {}), _retried: true });
         }
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { readEventStream } from "./sse";
+
+describe("readEventStream", () => {
+  it("parses events split across chunks", async () => {
+    const chunks = [
+      'event: context\ndata: {"thread":{"id":"t1"}}\n\nevent: tok',
+      'en\ndata: {"text":"Hel"}\n\nevent: token\ndata: {"text":"lo"}\n\n',
+      "data: plain",
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const c of chunks) controller.enqueue(new TextEncoder().encode(c));
+        controller.close();
+      },
+    });
+    const events: Array<[string, any]> = [];
+    await readEventStream(new Response(body), (e, d) => events.push([e, d]));
+    expect(events).toEqual([
+      ["context", { thread: { id: "t1" } }],
+      ["token", { text: "Hel" }],
+      ["token", { text: "lo" }],
+      ["message", "plain"],
+    ]);
+  });
+});
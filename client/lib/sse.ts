@@ -0,0 +1,41 @@
+// Reads a text/event-stream response body and calls onEvent for every event,
+// with its data parsed as JSON when it is JSON. Used for streams opened with
+// POST, which EventSource cannot do. Resolves when the stream ends and
+// rejects if it is aborted.
+export async function readEventStream(
+  res: Response,
+  onEvent: (event: string, data: any) => void,
+): Promise<void> {
+  if (!res.body) throw new Error("Response has no body to stream");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    if (!data.length) return;
+    const raw = data.join("\n");
+    let parsed: any = raw;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {}
+    onEvent(event, parsed);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || "";
+    blocks.forEach(dispatch);
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
+
+export default readEventStream;
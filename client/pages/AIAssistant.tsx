@@ -7,11 +7,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import apiFetch from "@/lib/apiClient";
+import readEventStream from "@/lib/sse";
 import copy from "@/lib/clipboard";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import HelpTip from "@/components/ui/help-tip";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -34,7 +36,6 @@ import {
   User,
   Send,
   Copy,
-  RefreshCw,
   AlertTriangle,
   Clock,
   ChevronDown,
@@ -48,6 +49,10 @@ import {
   Activity,
   CheckCircle,
   Info,
+  Plus,
+  Pencil,
+  Square,
+  Download,
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 
@@ -74,14 +79,37 @@ interface LLMResponse {
   context: LLMContext;
   warnings?: string[];
   supabase_degraded?: boolean;
+  provider?: { name: string; model: string };
+  thread?: { id: string; title: string };
+  turnId?: string;
 }
 
-interface HistoryItem {
+// Conversation threads are stored server-side (/api/llm/threads)
+interface ThreadTurn {
   id: string;
   question: string;
   answer: string;
-  context?: LLMContext;
-  timestamp: string;
+  citations: string[];
+  at: string;
+  cancelled?: boolean;
+  provider?: { name: string; model: string };
+}
+
+interface ThreadSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+  lastQuestion?: string;
+}
+
+interface Thread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ThreadTurn[];
 }
 
 interface RequestState {
@@ -107,7 +135,12 @@ export default function AIAssistant() {
     question: string;
     include: typeof includeOptions;
   } | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [threads, setThreads] = useState<ThreadSummary[]>([]);
+  const [activeThread, setActiveThread] = useState<Thread | null>(null);
+  const [renaming, setRenaming] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
   const [showContext, setShowContext] = useState(false);
   const [isContextExpanded, setIsContextExpanded] = useState(false);
   const [requestState, setRequestState] = useState<RequestState>({
@@ -119,34 +152,34 @@ export default function AIAssistant() {
   // Refs
   const questionInputRef = useRef<HTMLTextAreaElement>(null);
   const responseRef = useRef<HTMLDivElement>(null);
+  // Aborting cancels the streamed answer on the server too
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Constants
-  const MAX_CHARS = 500;
-  const HISTORY_STORAGE_KEY = "ai-assistant-history";
-
-  // Load history from localStorage on mount
-  useEffect(() => {
+  const loadThreads = useCallback(async () => {
     try {
-      const savedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-      if (savedHistory) {
-        setHistory(JSON.parse(savedHistory));
-      }
+      const r = await apiFetch("/api/llm/threads");
+      const j = await r.json();
+      if (r.ok && Array.isArray(j?.data)) setThreads(j.data);
     } catch (error) {
-      console.error("Failed to load history:", error);
+      console.error("Failed to load conversations:", error);
     }
+  }, []);
 
-    // Focus question input on load
-    questionInputRef.current?.focus();
+  const loadThread = useCallback(async (id: string) => {
+    const r = await apiFetch(`/api/llm/threads/${id}`);
+    const j = await r.json();
+    if (!r.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+    setActiveThread(j.data);
+    return j.data as Thread;
   }, []);
 
-  // Save history to localStorage when it changes
+  // Load conversations on mount
   useEffect(() => {
-    try {
-      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
-    } catch (error) {
-      console.error("Failed to save history:", error);
-    }
-  }, [history]);
+    loadThreads();
+
+    // Focus question input on load
+    questionInputRef.current?.focus();
+  }, [loadThreads]);
 
   // Handle rate limit countdown
   useEffect(() => {
@@ -211,7 +244,7 @@ export default function AIAssistant() {
     }
   };
 
-  // Submit question to LLM
+  // Submit question to LLM; the answer streams in token by token
   const handleSubmit = async () => {
     if (
       !question.trim() ||
@@ -222,14 +255,22 @@ export default function AIAssistant() {
     }
 
     setRequestState((prev) => ({ ...prev, isLoading: true, error: null }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let threadId = activeThread?.id;
 
     try {
-      const payload = { question: question.trim(), include: includeOptions };
+      const payload = {
+        question: question.trim(),
+        include: includeOptions,
+        threadId,
+      };
       lastRequestRef.current = payload;
-      const response = await apiFetch("/api/llm/ask", {
+      const response = await apiFetch("/api/llm/ask/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
+        signal: controller.signal,
       });
 
       if (response.status === 429) {
@@ -260,6 +301,7 @@ export default function AIAssistant() {
           });
           if (refreshResponse.ok) {
             // Retry the original request
+            setRequestState((prev) => ({ ...prev, isLoading: false }));
             return handleSubmit();
           }
         } catch (refreshError) {
@@ -280,19 +322,6 @@ export default function AIAssistant() {
           const errorData = await response.json();
           detail = errorData.message || detail;
         } catch {}
-        if (response.status === 413) {
-          setRequestState((prev) => ({
-            ...prev,
-            isLoading: false,
-            error: detail,
-          }));
-          toast({
-            title: "Too long",
-            description: detail,
-            variant: "destructive",
-          });
-          return;
-        }
         if (response.status === 502 || response.status === 503) {
           setRequestState((prev) => ({
             ...prev,
@@ -322,47 +351,81 @@ export default function AIAssistant() {
         throw new Error(detail);
       }
 
-      const data = await response.json();
-
-      if (data.status === "success") {
-        setResponse(data.data);
-
-        // Add to history
-        const historyItem: HistoryItem = {
-          id: Date.now().toString(),
-          question: question.trim(),
-          answer: data.data.answer,
-          context: data.data.context,
-          timestamp: new Date().toISOString(),
-        };
-
-        setHistory((prev) => [historyItem, ...prev.slice(0, 49)]); // Keep last 50 items
-
-        // Scroll to response
-        setTimeout(() => {
-          responseRef.current?.scrollIntoView({ behavior: "smooth" });
-        }, 100);
+      let streamError: string | null = null;
+      await readEventStream(response, (event, data) => {
+        if (event === "context") {
+          threadId = data.thread?.id;
+          setResponse({
+            answer: "",
+            context: data.context,
+            warnings: data.warnings,
+            supabase_degraded: data.supabase_degraded,
+            thread: data.thread,
+          });
+          setQuestion("");
+          setTimeout(() => {
+            responseRef.current?.scrollIntoView({ behavior: "smooth" });
+          }, 100);
+        } else if (event === "token") {
+          setResponse((prev) =>
+            prev ? { ...prev, answer: prev.answer + data.text } : prev,
+          );
+        } else if (event === "warning") {
+          setResponse((prev) =>
+            prev
+              ? { ...prev, warnings: [...(prev.warnings || []), data.message] }
+              : prev,
+          );
+        } else if (event === "done") {
+          setResponse((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  provider: data.provider,
+                  turnId: data.turn?.id,
+                  warnings: data.warnings,
+                }
+              : prev,
+          );
+        } else if (event === "error") {
+          streamError = data.message || "Failed to get response";
+        }
+      });
+      if (streamError) throw new Error(streamError);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Stopped",
+          description: "The partial answer was kept in the conversation",
+        });
       } else {
-        throw new Error(data.message || "Failed to get response");
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to send question";
+        setRequestState((prev) => ({ ...prev, error: errorMessage }));
+        toast({
+          title: "Request Failed",
+          description: errorMessage,
+          variant: "destructive",
+        });
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to send question";
-      setRequestState((prev) => ({ ...prev, error: errorMessage }));
-      toast({
-        title: "Request Failed",
-        description: errorMessage,
-        variant: "destructive",
-      });
     } finally {
+      abortRef.current = null;
       setRequestState((prev) => ({ ...prev, isLoading: false }));
+      if (threadId) {
+        loadThread(threadId).catch(() => {});
+        loadThreads();
+      }
     }
   };
 
-  // Clear conversation
+  const handleStop = () => abortRef.current?.abort();
+
+  // Start a new conversation
   const handleClear = () => {
+    abortRef.current?.abort();
     setQuestion("");
     setResponse(null);
+    setActiveThread(null);
     setRequestState({
       isLoading: false,
       error: null,
@@ -371,26 +434,66 @@ export default function AIAssistant() {
     questionInputRef.current?.focus();
   };
 
-  // Load question from history
-  const loadFromHistory = (item: HistoryItem) => {
-    setQuestion(item.question);
-    setResponse({ answer: item.answer, context: item.context! });
-    questionInputRef.current?.focus();
+  // Resume a conversation; follow-up questions continue it
+  const openThread = async (id: string) => {
+    if (requestState.isLoading) return;
+    try {
+      await loadThread(id);
+      setResponse(null);
+      questionInputRef.current?.focus();
+    } catch (error) {
+      toast({
+        title: "Failed to open conversation",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
-  // Delete history item
-  const deleteHistoryItem = (id: string) => {
-    setHistory((prev) => prev.filter((item) => item.id !== id));
+  const renameThread = async (id: string, title: string) => {
+    setRenaming(null);
+    if (!title.trim()) return;
+    const r = await apiFetch(`/api/llm/threads/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: title.trim() }),
+    });
+    if (!r.ok) {
+      toast({ title: "Rename failed", variant: "destructive" });
+      return;
+    }
+    if (activeThread?.id === id) {
+      setActiveThread((t) => (t ? { ...t, title: title.trim() } : t));
+    }
+    loadThreads();
   };
 
-  // Clear all history
-  const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem(HISTORY_STORAGE_KEY);
-    toast({
-      title: "History cleared",
-      description: "All conversation history has been cleared",
-    });
+  const deleteThread = async (id: string) => {
+    const r = await apiFetch(`/api/llm/threads/${id}`, { method: "DELETE" });
+    if (!r.ok) {
+      toast({ title: "Delete failed", variant: "destructive" });
+      return;
+    }
+    if (activeThread?.id === id) handleClear();
+    setThreads((prev) => prev.filter((t) => t.id !== id));
+    toast({ title: "Conversation deleted" });
+  };
+
+  const exportThread = async (format: "markdown" | "json") => {
+    if (!activeThread) return;
+    const r = await apiFetch(
+      `/api/llm/threads/${activeThread.id}/export?format=${format}`,
+    );
+    if (!r.ok) {
+      toast({ title: "Export failed", variant: "destructive" });
+      return;
+    }
+    const url = URL.createObjectURL(await r.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${activeThread.id}.${format === "json" ? "json" : "md"}`;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   // Get rate limit countdown
@@ -406,8 +509,10 @@ export default function AIAssistant() {
   };
 
   const characterCount = question.length;
-  const isNearLimit = characterCount > MAX_CHARS * 0.8;
-  const isOverLimit = characterCount > MAX_CHARS;
+  // Earlier turns of the open conversation; the latest answer has its own card
+  const earlierTurns = (activeThread?.turns || [])
+    .filter((t) => t.id !== response?.turnId)
+    .reverse();
 
   return (
     <div className="space-y-6">
@@ -422,46 +527,18 @@ export default function AIAssistant() {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          {history.length > 0 && (
+          {activeThread && (
             <>
               <Button
                 variant="outline"
-                onClick={() => {
-                  const blob = new Blob([JSON.stringify(history, null, 2)], {
-                    type: "application/json",
-                  });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement("a");
-                  a.href = url;
-                  a.download = "ask-aether-history.json";
-                  a.click();
-                  URL.revokeObjectURL(url);
-                }}
+                onClick={() => exportThread("markdown")}
               >
-                Export JSON
+                <Download className="h-4 w-4 mr-2" />
+                Export Markdown
               </Button>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  const headers = ["timestamp", "question", "answer"];
-                  const rows = history.map((h) => [
-                    h.timestamp,
-                    '"' + h.question.replace(/"/g, '""') + '"',
-                    '"' + h.answer.replace(/"/g, '""') + '"',
-                  ]);
-                  const csv = [headers.join(",")]
-                    .concat(rows.map((r) => r.join(",")))
-                    .join("\n");
-                  const blob = new Blob([csv], { type: "text/csv" });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement("a");
-                  a.href = url;
-                  a.download = "ask-aether-history.csv";
-                  a.click();
-                  URL.revokeObjectURL(url);
-                }}
-              >
-                Export CSV
+              <Button variant="outline" onClick={() => exportThread("json")}>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
               </Button>
             </>
           )}
@@ -470,8 +547,8 @@ export default function AIAssistant() {
             onClick={handleClear}
             disabled={requestState.isLoading}
           >
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Clear
+            <Plus className="h-4 w-4 mr-2" />
+            New Conversation
           </Button>
         </div>
       </div>
@@ -488,8 +565,9 @@ export default function AIAssistant() {
                   Ask a Question
                 </CardTitle>
                 <CardDescription>
-                  Ask about your trades, portfolio, market conditions, or
-                  strategies (max {MAX_CHARS} characters)
+                  {activeThread
+                    ? `Follow up in "${activeThread.title}"; earlier answers are taken into account`
+                    : "Ask about your trades, portfolio, market conditions, or strategies"}
                 </CardDescription>
               </div>
               <HelpTip content="Type your question to the AI. Supports Enter to send, Shift+Enter for a new line." />
@@ -601,15 +679,9 @@ export default function AIAssistant() {
                 <div className="flex items-center justify-between">
                   <div
                     id="char-count"
-                    className={`text-sm ${
-                      isOverLimit
-                        ? "text-red-600"
-                        : isNearLimit
-                          ? "text-yellow-600"
-                          : "text-muted-foreground"
-                    }`}
+                    className="text-sm text-muted-foreground"
                   >
-                    {characterCount}/{MAX_CHARS} characters
+                    {characterCount} characters
                   </div>
                   <div className="text-xs text-muted-foreground">
                     Press Enter to send, Shift+Enter for new line
@@ -618,20 +690,19 @@ export default function AIAssistant() {
               </div>
 
               <Button
-                onClick={handleSubmit}
+                onClick={requestState.isLoading ? handleStop : handleSubmit}
                 disabled={
-                  !question.trim() ||
-                  isOverLimit ||
-                  requestState.isLoading ||
-                  requestState.rateLimit.isLimited
+                  !requestState.isLoading &&
+                  (!question.trim() || requestState.rateLimit.isLimited)
                 }
+                variant={requestState.isLoading ? "outline" : "default"}
                 className="w-full"
                 size="lg"
               >
                 {requestState.isLoading ? (
                   <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Thinking...
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop generating
                   </>
                 ) : (
                   <>
@@ -669,6 +740,13 @@ export default function AIAssistant() {
                 <div className="prose prose-sm max-w-none">
                   <p className="whitespace-pre-wrap">{response.answer}</p>
                 </div>
+                {response.provider && (
+                  <div className="mt-2 text-xs text-muted-foreground">
+                    Answered by {response.provider.model} (
+                    {response.provider.name}) from{" "}
+                    {response.context?.documents.length || 0} cited records
+                  </div>
+                )}
 
                 {/* Context Toggle */}
                 <div className="mt-6 pt-4 border-t">
@@ -757,7 +835,7 @@ export default function AIAssistant() {
                             <div className="p-3 border rounded-lg">
                               <div className="text-sm font-medium mb-3 flex items-center">
                                 <TrendingUp className="h-4 w-4 mr-1" />
-                                Recent Trades
+                                Trades in Context
                               </div>
                               <div className="space-y-2">
                                 {response.context.trades
@@ -868,23 +946,31 @@ export default function AIAssistant() {
             </Card>
           )}
 
-          {/* Conversation Stream (previous messages) */}
-          {history.length > 1 && (
+          {/* Earlier turns of the open conversation */}
+          {earlierTurns.length > 0 && (
             <div className="space-y-3">
-              {history.slice(1).map((item) => (
-                <Card key={item.id}>
+              {earlierTurns.map((turn) => (
+                <Card key={turn.id}>
                   <CardHeader>
-                    <CardTitle className="text-sm">
-                      {new Date(item.timestamp).toLocaleString()}
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      {new Date(turn.at).toLocaleString()}
+                      {turn.cancelled && (
+                        <Badge variant="secondary">Stopped</Badge>
+                      )}
                     </CardTitle>
                     <CardDescription className="text-xs">
-                      Q: {item.question}
+                      Q: {turn.question}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="prose prose-sm max-w-none whitespace-pre-wrap">
-                      {item.answer}
+                      {turn.answer}
                     </div>
+                    {turn.citations.length > 0 && (
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        Sources: {turn.citations.join(", ")}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -892,57 +978,68 @@ export default function AIAssistant() {
           )}
         </div>
 
-        {/* Question History Sidebar */}
+        {/* Conversations Sidebar */}
         <div className="space-y-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle className="text-lg">Question History</CardTitle>
+              <CardTitle className="text-lg">Conversations</CardTitle>
               <div className="flex items-center gap-2">
-                <HelpTip content="Click an entry to reload its question and answer. Use the bin to clear history." />
-                {history.length > 0 && (
-                  <Dialog>
-                    <DialogTrigger asChild>
-                      <Button variant="outline" size="sm">
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Clear History</DialogTitle>
-                        <DialogDescription>
-                          Are you sure you want to clear all conversation
-                          history? This action cannot be undone.
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="flex justify-end space-x-2">
-                        <Button variant="outline" onClick={() => {}}>
-                          Cancel
-                        </Button>
-                        <Button variant="destructive" onClick={clearHistory}>
-                          Clear All
-                        </Button>
-                      </div>
-                    </DialogContent>
-                  </Dialog>
-                )}
+                <HelpTip content="Conversations are saved so you can pick an investigation up later. Click one to continue it." />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleClear}
+                  disabled={requestState.isLoading}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
               </div>
             </CardHeader>
             <CardContent>
-              {history.length > 0 ? (
+              {threads.length > 0 ? (
                 <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {history.map((item) => (
+                  {threads.map((thread) => (
                     <div
-                      key={item.id}
-                      className="p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors"
-                      onClick={() => loadFromHistory(item)}
+                      key={thread.id}
+                      className={`p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors ${
+                        activeThread?.id === thread.id ? "border-primary" : ""
+                      }`}
+                      onClick={() => openThread(thread.id)}
                     >
                       <div className="flex items-start justify-between">
                         <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium truncate">
-                            {item.question}
-                          </p>
+                          {renaming?.id === thread.id ? (
+                            <Input
+                              autoFocus
+                              value={renaming.title}
+                              className="h-7 text-sm"
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={(e) =>
+                                setRenaming({
+                                  id: thread.id,
+                                  title: e.target.value,
+                                })
+                              }
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                  renameThread(thread.id, renaming.title);
+                                } else if (e.key === "Escape") {
+                                  setRenaming(null);
+                                }
+                              }}
+                              onBlur={() =>
+                                renameThread(thread.id, renaming.title)
+                              }
+                            />
+                          ) : (
+                            <p className="text-sm font-medium truncate">
+                              {thread.title}
+                            </p>
+                          )}
                           <p className="text-xs text-muted-foreground mt-1">
-                            {new Date(item.timestamp).toLocaleString()}
+                            {new Date(thread.updatedAt).toLocaleString()} ·{" "}
+                            {thread.turnCount} question
+                            {thread.turnCount === 1 ? "" : "s"}
                           </p>
                         </div>
                         <Button
@@ -951,11 +1048,40 @@ export default function AIAssistant() {
                           className="h-6 w-6 p-0 ml-2"
                           onClick={(e) => {
                             e.stopPropagation();
-                            deleteHistoryItem(item.id);
+                            setRenaming({ id: thread.id, title: thread.title });
                           }}
                         >
-                          <Trash2 className="h-3 w-3" />
+                          <Pencil className="h-3 w-3" />
                         </Button>
+                        <Dialog>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent onClick={(e) => e.stopPropagation()}>
+                            <DialogHeader>
+                              <DialogTitle>Delete Conversation</DialogTitle>
+                              <DialogDescription>
+                                Delete "{thread.title}" and all of its answers?
+                                This action cannot be undone.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                variant="destructive"
+                                onClick={() => deleteThread(thread.id)}
+                              >
+                                Delete
+                              </Button>
+                            </div>
+                          </DialogContent>
+                        </Dialog>
                       </div>
                     </div>
                   ))}
@@ -963,9 +1089,9 @@ export default function AIAssistant() {
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <Activity className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No questions asked yet</p>
+                  <p className="text-sm">No conversations yet</p>
                   <p className="text-xs mt-1">
-                    Your conversation history will appear here
+                    Questions you ask are saved here
                   </p>
                 </div>
               )}
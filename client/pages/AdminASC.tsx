@@ -120,12 +120,9 @@ export default function AdminASC() {
       });
       const j = await r.json();
       if (!r.ok) throw new Error(j.message || "Failed to save");
-      setPersistenceSkipped(!!j.persistence_skipped);
       toast({
-        title: "Weights saved",
-        description: j.persistence_skipped
-          ? "Persistence skipped (degraded), in-memory active"
-          : "Persisted",
+        title: "Reweight proposed",
+        description: `Proposal ${j?.data?.proposal?.id} awaits founder approval`,
       });
       await load();
     } catch (e: any) {
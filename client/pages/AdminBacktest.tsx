@@ -143,9 +143,11 @@ export default function AdminBacktest() {
 
     // Build equity curve with date strings
     const equity_curve = curve.map((pt: any, i: number) => {
-      const date = new Date(Date.now() - (curve.length - 1 - i) * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
+      const date = pt.date
+        ? String(pt.date).split("T")[0]
+        : new Date(Date.now() - (curve.length - 1 - i) * 24 * 60 * 60 * 1000)
+            .toISOString()
+            .split("T")[0];
       return { date, balance: Number(pt.equity) || 0, trade_number: i + 1 };
     });
 
@@ -169,7 +171,7 @@ export default function AdminBacktest() {
             String(f.factor || "unknown"),
             {
               average_confidence: 0,
-              win_rate: 0,
+              win_rate: Number(payload?.winRate) || 0,
               return_contribution: Number(f.contribution) || 0,
             },
           ]),
@@ -185,10 +187,24 @@ export default function AdminBacktest() {
         }
       : undefined;
 
-    const startDate = equity_curve.length
-      ? new Date(Date.now() - (equity_curve.length - 1) * 86400000).toISOString()
-      : new Date(Date.now() - 30 * 86400000).toISOString();
-    const endDate = new Date().toISOString();
+    const startDate =
+      payload?.period?.start ??
+      (equity_curve.length
+        ? new Date(Date.now() - (equity_curve.length - 1) * 86400000).toISOString()
+        : new Date(Date.now() - 30 * 86400000).toISOString());
+    const endDate = payload?.period?.end ?? new Date().toISOString();
+    const trade_history: BacktestReport["trade_history"] = Array.isArray(
+      payload?.trades,
+    )
+      ? payload.trades.map((t: any) => ({
+          action: t.side === "SELL" ? "SELL" : "BUY",
+          symbol: String(t.symbol || ""),
+          amount: Number(t.qty) || 0,
+          price: Number(t.price) || 0,
+          timestamp: String(t.date || ""),
+          pnl: t.closing ? Number(t.pnl) : undefined,
+        }))
+      : [];
 
     const fees = Number(payload?.totals?.fees) || 0;
     const slippage = Number(payload?.totals?.slippage) || 0;
@@ -212,7 +228,7 @@ export default function AdminBacktest() {
         slippage_bps: lastEq > 0 ? (slippage / lastEq) * 10000 : 0,
       },
       equity_curve,
-      trade_history: [],
+      trade_history,
       factor_performance: factorPerf,
       hypothetical_trades,
       generated_at: new Date().toISOString(),
@@ -367,7 +383,8 @@ export default function AdminBacktest() {
         setLaunchError(j.error || "Failed to start backtest");
         return;
       }
-      toast({ title: "Backtest launched", description: `Job ${j.jobId}` });
+      toast({ title: "Backtest completed", description: `Job ${j.jobId}` });
+      fetchReport();
       if (j.report_path) {
         setHistory((prev) => {
           const next = [
@@ -815,13 +815,22 @@ export default function AdminMarkets() {
                       headers: { "Content-Type": "application/json" },
                       body: JSON.stringify({ symbol, action, reason }),
                     });
-                    if (r.status === 201) {
+                    if (r.status === 202) {
                       const j = await r.json();
                       toast({
-                        title: "Override applied",
-                        description: `${j.data.symbol} → ${j.data.override}`,
+                        title: "Override proposed",
+                        description: `${j.data.symbol} → ${j.data.override} applies once founders approve proposal ${j.data.proposal_id} (${j.data.required_votes} votes)`,
                       });
                       fetchMarkets(filters);
+                    } else if (r.status === 409) {
+                      const j = await r.json().catch(() => ({
+                        detail: "An override proposal is already open",
+                      }));
+                      toast({
+                        title: "Proposal already open",
+                        description: j.detail,
+                        variant: "destructive",
+                      });
                     } else if (r.status === 403) {
                       const j = await r.json().catch(() => ({
                         detail: "Founder approvals required",
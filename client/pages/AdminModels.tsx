@@ -854,8 +854,8 @@ export default function AdminModels() {
   const deployModel = async (modelId: string) => {
     if (!founderApproval) {
       toast({
-        title: "Approval Required",
-        description: "Founder approval is required for model deployment",
+        title: "Acknowledgement Required",
+        description: "Confirm that deployment goes to a founder vote",
         variant: "destructive",
       });
       return;
@@ -870,12 +870,17 @@ export default function AdminModels() {
       const response = await apiFetch(`/api/models/deploy/${modelId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ founderApproval }),
+        body: JSON.stringify({}),
         admin: true,
       });
       const data = await response.json();
       if (data.status === "success") {
-        toast({ title: "Model Deployed", description: "Model deployed" });
+        // 202: a model_rollout proposal was opened for founders to vote on
+        toast(
+          response.status === 202
+            ? { title: "Deployment Proposed", description: data.message }
+            : { title: "Model Deployed", description: "Model deployed" },
+        );
         fetchModels();
         setFounderApproval(false);
       } else {
@@ -895,8 +900,8 @@ export default function AdminModels() {
     if (!window.confirm(`Promote model ${modelId} to production?`)) return;
     if (!founderApproval) {
       toast({
-        title: "Approval Required",
-        description: "Founder approval required for promotion",
+        title: "Acknowledgement Required",
+        description: "Confirm that promotion goes to a founder vote",
         variant: "destructive",
       });
       return;
@@ -905,12 +910,16 @@ export default function AdminModels() {
       const r = await apiFetch("/api/models/promote", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ modelId, founderApproval: true }),
+        body: JSON.stringify({ modelId }),
         admin: true,
       });
       const j = await r.json();
       if (!r.ok) throw new Error(j.message || "Failed");
-      toast({ title: "Promoted", description: `Model ${modelId} promoted` });
+      toast(
+        r.status === 202
+          ? { title: "Promotion Proposed", description: j.message }
+          : { title: "Promoted", description: `Model ${modelId} promoted` },
+      );
       setFounderApproval(false);
       fetchModels();
       fetchAudit();
@@ -2509,8 +2518,8 @@ export default function AdminModels() {
                                           onCheckedChange={setFounderApproval}
                                         />
                                         <Label htmlFor="approval">
-                                          I have founder approval for this
-                                          deployment
+                                          I understand deployment runs only
+                                          after founders approve the proposal
                                         </Label>
                                       </div>
                                     </div>
@@ -2716,7 +2725,8 @@ export default function AdminModels() {
                                     onCheckedChange={setFounderApproval}
                                   />
                                   <Label htmlFor={`prom_${model.modelId}`}>
-                                    I have founder approval
+                                    I understand promotion runs only after
+                                    founders approve the proposal
                                   </Label>
                                 </div>
                                 <DialogFooter>
@@ -50,8 +50,70 @@ interface PluginItem {
   description: string;
   status: "pending" | "activated" | string;
   votes?: { for: number; against: number; abstain: number };
+  /** Activation proposal on the shared governance engine */
+  governance?: {
+    id: string;
+    status: string;
+    requiredVotes: number;
+    threshold: number;
+    expiresAt: string;
+    error: string | null;
+  };
+  dry_run?: DryRunReport;
+  code_sha256?: string;
+  activated_at?: string;
+  activation_error?: string;
+  telemetry?: PluginTelemetry | null;
+}
+
+interface DryRunReport {
+  passed: boolean;
+  sha256: string;
+  symbol: string;
+  interval: string;
+  started_at: string;
+  duration_ms: number;
+  bars: number;
+  signals: number;
+  actions: number;
+  invalid_actions: number;
+  errors: number;
+  timeouts: number;
+  avg_call_ms: number;
+  max_call_ms: number;
+  heap_peak_bytes: number;
+  failure: string | null;
+  logs: string[];
+}
+
+interface PluginTelemetry {
+  state: "loading" | "running" | "stopped" | "crashed";
+  sha256: string;
+  startedAt: string;
+  calls: Record<"init" | "onBar" | "onSignal" | "teardown", number>;
+  errors: number;
+  timeouts: number;
+  restarts: number;
+  avgCallMs: number;
+  maxCallMs: number;
+  actionsEmitted: number;
+  heapUsedBytes: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  recentLogs: Array<{ ts: string; message: string }>;
+  recentActions: Array<{
+    ts: string;
+    kind: "target" | "order";
+    symbol: string;
+    exposure?: number;
+    side?: "buy" | "sell";
+    qty?: number;
+    reason?: string;
+  }>;
 }
 
+const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 export default function AdminPlugins() {
   const { user } = useAuth();
   const isFounder = user?.role === "admin";
@@ -86,6 +148,9 @@ export default function AdminPlugins() {
   const [ack, setAck] = useState(false);
   const [activating, setActivating] = useState(false);
   const [voting, setVoting] = useState<string | null>(null);
+  const [dryRunning, setDryRunning] = useState<string | null>(null);
+  const [deactivating, setDeactivating] = useState(false);
+  const [telemetry, setTelemetry] = useState<PluginTelemetry | null>(null);
 
   const filtered = useMemo(() => {
     const q = search.toLowerCase();
@@ -231,6 +296,101 @@ export default function AdminPlugins() {
     }
   };
 
+  const dryRun = async (p: PluginItem) => {
+    setDryRunning(p.name);
+    try {
+      const r = await apiFetch(
+        `/api/governance/plugins/${encodeURIComponent(p.name)}/dry-run`,
+        { method: "POST", headers: { "Content-Type": "application/json" } },
+      );
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) {
+        toast({
+          title: "Dry run failed",
+          description: j.detail || `HTTP ${r.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const report: DryRunReport = j.data;
+      toast({
+        title: report.passed ? "Dry run passed" : "Dry run failed",
+        description: report.passed
+          ? `${report.bars} bars, ${report.actions} actions, max ${report.max_call_ms}ms/call`
+          : report.failure || "Plugin failed the dry run",
+        variant: report.passed ? undefined : "destructive",
+      });
+      setPlugins((prev) =>
+        prev.map((x) => (x.name === p.name ? { ...x, dry_run: report } : x)),
+      );
+      setDetail((d) => (d?.name === p.name ? { ...d, dry_run: report } : d));
+    } catch (e: any) {
+      toast({
+        title: "Dry run error",
+        description: e?.message || "Failed",
+        variant: "destructive",
+      });
+    } finally {
+      setDryRunning(null);
+    }
+  };
+
+  const deactivate = async (p: PluginItem) => {
+    setDeactivating(true);
+    try {
+      const r = await apiFetch(
+        `/api/governance/plugins/${encodeURIComponent(p.name)}/deactivate`,
+        { method: "POST" },
+      );
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) {
+        toast({
+          title: "Deactivation failed",
+          description: j.detail || `HTTP ${r.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Deactivated", description: `${p.name} stopped` });
+      setDetail(null);
+      await fetchPlugins();
+    } catch (e: any) {
+      toast({
+        title: "Deactivation error",
+        description: e?.message || "Failed",
+        variant: "destructive",
+      });
+    } finally {
+      setDeactivating(false);
+    }
+  };
+
+  // Live telemetry for the plugin open in the details drawer
+  const detailName = detail?.name;
+  useEffect(() => {
+    setTelemetry(null);
+    if (!detailName) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const r = await apiFetch(
+          `/api/governance/plugins/${encodeURIComponent(detailName)}/telemetry`,
+        );
+        if (!r.ok) return;
+        const j = await r.json();
+        if (!cancelled) setTelemetry(j?.data?.telemetry || null);
+      } catch {
+        /* keep last sample */
+      }
+    };
+    load();
+    const id = setInterval(load, 5_000);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [detailName]);
+
   const openActivate = (p: PluginItem) => {
     setActTarget(p);
     setAck(false);
@@ -252,10 +412,10 @@ export default function AdminPlugins() {
         { method: "POST" },
       );
       const j = await r.json().catch(() => ({}));
-      if (r.status === 403) {
+      if (r.status === 409 && actTarget.governance?.status !== "approved") {
         toast({
           title: "Insufficient votes",
-          description: "Supermajority not reached",
+          description: j.detail || "Activation proposal has not passed",
           variant: "destructive",
         });
         return;
@@ -270,8 +430,8 @@ export default function AdminPlugins() {
       }
       toast({
         title: "Activated",
-        description: j.audit_entry_id
-          ? `Audit ${j.audit_entry_id}`
+        description: j.proposal_id
+          ? `Proposal ${j.proposal_id} executed`
           : "Plugin approved & activated",
       });
       setActTarget(null);
@@ -428,7 +588,7 @@ export default function AdminPlugins() {
                   const forVotes = p.votes?.for || 0;
                   const againstVotes = p.votes?.against || 0;
                   const abstainVotes = p.votes?.abstain || 0;
-                  const supermajority = forVotes >= 2; // mock threshold
+                  const supermajority = p.governance?.status === "approved";
                   return (
                     <tr key={p.name} className="border-t">
                       <td className="p-2">
@@ -461,6 +621,21 @@ export default function AdminPlugins() {
                             String(p.status).toLowerCase() !== "activated" && (
                               <Badge>Supermajority</Badge>
                             )}
+                          {p.dry_run && (
+                            <Badge
+                              variant={
+                                p.dry_run.passed ? "outline" : "destructive"
+                              }
+                              title={p.dry_run.failure || undefined}
+                            >
+                              {p.dry_run.passed
+                                ? "Dry run passed"
+                                : "Dry run failed"}
+                            </Badge>
+                          )}
+                          {p.telemetry?.state === "crashed" && (
+                            <Badge variant="destructive">Crashed</Badge>
+                          )}
                         </div>
                       </td>
                       <td className="p-2">
@@ -526,6 +701,14 @@ export default function AdminPlugins() {
                             Withdraw route not implemented
                           </TooltipContent>
                         </Tooltip>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!isFounder || dryRunning != null}
+                          onClick={() => dryRun(p)}
+                        >
+                          {dryRunning === p.name ? "Running…" : "Dry run"}
+                        </Button>
                         <Tooltip>
                           <TooltipTrigger asChild>
                             <span>
@@ -535,6 +718,7 @@ export default function AdminPlugins() {
                                 disabled={
                                   !isFounder ||
                                   !supermajority ||
+                                  !p.dry_run?.passed ||
                                   String(p.status).toLowerCase() === "activated"
                                 }
                               >
@@ -542,10 +726,16 @@ export default function AdminPlugins() {
                               </Button>
                             </span>
                           </TooltipTrigger>
-                          {!isFounder && (
+                          {!isFounder ? (
                             <TooltipContent>
                               Founder permission required
                             </TooltipContent>
+                          ) : (
+                            !p.dry_run?.passed && (
+                              <TooltipContent>
+                                A passing dry run is required first
+                              </TooltipContent>
+                            )
                           )}
                         </Tooltip>
                       </td>
@@ -601,9 +791,15 @@ export default function AdminPlugins() {
             </DialogDescription>
           </DialogHeader>
           <div className="text-sm text-muted-foreground">
-            Runtime executes only approved plugin hashes with restricted
-            builtins. Rehash after any change.
+            Runtime executes only approved plugin hashes in an isolated worker
+            with no host access. Any change to the module requires a new dry
+            run.
           </div>
+          {actTarget?.dry_run && (
+            <div className="text-xs font-mono break-all">
+              sha256 {actTarget.dry_run.sha256}
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <input
               id="ack"
@@ -666,6 +862,125 @@ export default function AdminPlugins() {
                 </span>
               </div>
             )}
+            {detail?.activation_error && (
+              <Alert variant="destructive">
+                <AlertTitle>Activation failed</AlertTitle>
+                <AlertDescription>{detail.activation_error}</AlertDescription>
+              </Alert>
+            )}
+            {detail?.dry_run && (
+              <div className="rounded border p-3 space-y-1 text-sm">
+                <div className="flex items-center gap-2 font-medium">
+                  Dry run
+                  <Badge
+                    variant={detail.dry_run.passed ? "outline" : "destructive"}
+                  >
+                    {detail.dry_run.passed ? "passed" : "failed"}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(detail.dry_run.started_at).toLocaleString()}
+                  </span>
+                </div>
+                {detail.dry_run.failure && (
+                  <div className="text-red-600">{detail.dry_run.failure}</div>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                  <span>
+                    Bars {detail.dry_run.bars} ({detail.dry_run.symbol}{" "}
+                    {detail.dry_run.interval})
+                  </span>
+                  <span>Signals {detail.dry_run.signals}</span>
+                  <span>
+                    Actions {detail.dry_run.actions}
+                    {detail.dry_run.invalid_actions
+                      ? ` (+${detail.dry_run.invalid_actions} invalid)`
+                      : ""}
+                  </span>
+                  <span>
+                    Errors {detail.dry_run.errors} / timeouts{" "}
+                    {detail.dry_run.timeouts}
+                  </span>
+                  <span>Avg {detail.dry_run.avg_call_ms}ms</span>
+                  <span>Max {detail.dry_run.max_call_ms}ms</span>
+                  <span>Heap peak {mb(detail.dry_run.heap_peak_bytes)}</span>
+                  <span>{detail.dry_run.duration_ms}ms total</span>
+                </div>
+                <div className="text-xs font-mono break-all text-muted-foreground">
+                  sha256 {detail.dry_run.sha256}
+                </div>
+              </div>
+            )}
+            {telemetry && (
+              <div className="rounded border p-3 space-y-2 text-sm">
+                <div className="flex items-center gap-2 font-medium">
+                  Runtime telemetry
+                  <Badge
+                    variant={
+                      telemetry.state === "running"
+                        ? "default"
+                        : telemetry.state === "crashed"
+                          ? "destructive"
+                          : "secondary"
+                    }
+                  >
+                    {telemetry.state}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    since {new Date(telemetry.startedAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                  <span>Bars {telemetry.calls.onBar}</span>
+                  <span>Signals {telemetry.calls.onSignal}</span>
+                  <span>Actions {telemetry.actionsEmitted}</span>
+                  <span>Restarts {telemetry.restarts}</span>
+                  <span>Errors {telemetry.errors}</span>
+                  <span>Timeouts {telemetry.timeouts}</span>
+                  <span>
+                    Avg/max {telemetry.avgCallMs}/{telemetry.maxCallMs}ms
+                  </span>
+                  <span>Heap {mb(telemetry.heapUsedBytes)}</span>
+                </div>
+                {telemetry.lastError && (
+                  <div className="text-xs text-red-600">
+                    {telemetry.lastErrorAt
+                      ? `${new Date(telemetry.lastErrorAt).toLocaleTimeString()} `
+                      : ""}
+                    {telemetry.lastError}
+                  </div>
+                )}
+                {telemetry.recentActions.length > 0 && (
+                  <div className="text-xs space-y-0.5">
+                    <div className="font-medium">Recent actions</div>
+                    {telemetry.recentActions
+                      .slice(-5)
+                      .reverse()
+                      .map((a, i) => (
+                        <div key={i} className="font-mono">
+                          {new Date(a.ts).toLocaleTimeString()} {a.symbol}{" "}
+                          {a.kind === "target"
+                            ? `target ${a.exposure}`
+                            : `${a.side} ${a.qty}`}
+                          {a.reason ? ` — ${a.reason}` : ""}
+                        </div>
+                      ))}
+                  </div>
+                )}
+                {telemetry.recentLogs.length > 0 && (
+                  <div className="text-xs space-y-0.5">
+                    <div className="font-medium">Logs</div>
+                    {telemetry.recentLogs
+                      .slice(-5)
+                      .reverse()
+                      .map((l, i) => (
+                        <div key={i} className="font-mono">
+                          {new Date(l.ts).toLocaleTimeString()} {l.message}
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </div>
+            )}
             <a
               className="text-primary hover:underline inline-flex items-center gap-1 text-sm"
               href={
@@ -679,6 +994,16 @@ export default function AdminPlugins() {
           </div>
           <DrawerFooter>
             <div className="flex items-center justify-end gap-2">
+              {detail &&
+                String(detail.status).toLowerCase() === "activated" && (
+                  <Button
+                    variant="destructive"
+                    disabled={!isFounder || deactivating}
+                    onClick={() => deactivate(detail)}
+                  >
+                    {deactivating ? "Deactivating…" : "Deactivate"}
+                  </Button>
+                )}
               <Button variant="outline" onClick={() => setDetail(null)}>
                 Close
               </Button>
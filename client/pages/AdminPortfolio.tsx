@@ -94,6 +94,36 @@ interface PortfolioStats {
   lastGlobalRebalance: string | null;
 }
 
+interface RebalanceOrder {
+  symbol: string;
+  side: "buy" | "sell";
+  quantity: number;
+  price: number;
+  notional: number;
+  est_fee: number;
+  est_slippage: number;
+}
+
+interface PortfolioPlan {
+  portfolio_id: string;
+  user_id: string;
+  mode: string;
+  risk_tier: string;
+  status: "planned" | "skipped" | "executed" | "failed";
+  reason?: string;
+  value: number;
+  cash_before: number;
+  current_weights: Record<string, number>;
+  target_weights: Record<string, number>;
+  orders: RebalanceOrder[];
+  est_fees: number;
+  est_slippage: number;
+  turnover: number;
+  warnings: string[];
+  fees?: number;
+  slippage?: number;
+}
+
 interface RebalanceEvent {
   id: string;
   timestamp: string;
@@ -101,8 +131,23 @@ interface RebalanceEvent {
   reason: string;
   portfoliosAffected: number;
   totalValueRebalanced: number;
-  status: "completed" | "failed" | "in_progress";
+  status:
+    | "preview"
+    | "pending_approval"
+    | "in_progress"
+    | "completed"
+    | "partially_completed"
+    | "failed"
+    | "rejected";
   duration: number;
+  dry_run?: boolean;
+  plans?: PortfolioPlan[];
+  ordersCount?: number;
+  estimatedFees?: number;
+  estimatedSlippage?: number;
+  decidedBy?: string;
+  decidedAt?: string;
+  rejectionReason?: string;
 }
 
 const DEFAULT_PAGE_LIMIT = 20;
@@ -160,6 +205,14 @@ export default function AdminPortfolio() {
   const [rowError, setRowError] = useState<string | null>(null);
   const [rowIsSubmitting, setRowIsSubmitting] = useState(false);
 
+  // Rebalance plan detail & approval
+  const [rebalanceDetail, setRebalanceDetail] = useState<RebalanceEvent | null>(
+    null,
+  );
+  const [rebalanceDetailOpen, setRebalanceDetailOpen] = useState(false);
+  const [expandedPlan, setExpandedPlan] = useState<string | null>(null);
+  const [isDeciding, setIsDeciding] = useState(false);
+
   // Update URL query parameters
   const updateUrl = useCallback(() => {
     const params = new URLSearchParams();
@@ -259,9 +312,90 @@ export default function AdminPortfolio() {
     });
   }, []);
 
-  // Historical rebalance stream may not be exposed; keep empty with messaging
+  // Rebalance history (newest first); left empty if the backend has none
   const fetchRebalanceHistory = async () => {
-    setRebalanceHistory([]);
+    try {
+      const response = await apiFetch("/api/admin/portfolio/rebalance-history");
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const result = await response.json();
+      setRebalanceHistory(Array.isArray(result.data) ? result.data : []);
+    } catch (error) {
+      console.error("Failed to fetch rebalance history:", error);
+      setRebalanceHistory([]);
+    }
+  };
+
+  const showRebalanceDetail = (event: RebalanceEvent) => {
+    setRebalanceDetail(event);
+    setExpandedPlan(null);
+    setRebalanceDetailOpen(true);
+  };
+
+  // Refetch so the detail reflects the latest per-portfolio status
+  const openRebalanceDetail = async (id: string) => {
+    try {
+      const response = await apiFetch(
+        `/api/admin/portfolio/rebalance/${encodeURIComponent(id)}`,
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok)
+        throw new Error(result.message || `HTTP ${response.status}`);
+      showRebalanceDetail(result.data);
+    } catch (error) {
+      toast({
+        title: "Failed to load rebalance",
+        description:
+          error instanceof Error ? error.message : "Failed to load rebalance",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Approve executes the plan portfolio by portfolio; reject discards it
+  const decideRebalance = async (action: "approve" | "reject") => {
+    if (!rebalanceDetail) return;
+    setIsDeciding(true);
+    try {
+      const response = await apiFetch(
+        `/api/admin/portfolio/rebalance/${encodeURIComponent(rebalanceDetail.id)}/${action}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ actor: user?.email || "admin@example.com" }),
+        },
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok)
+        throw new Error(result.message || `HTTP ${response.status}`);
+      const event: RebalanceEvent = result.data;
+      setRebalanceDetail(event);
+      const failed = (event.plans || []).filter(
+        (p) => p.status === "failed",
+      ).length;
+      toast({
+        title:
+          action === "reject"
+            ? "Rebalance Rejected"
+            : event.status === "completed"
+              ? "Rebalance Complete"
+              : "Rebalance Finished with Failures",
+        description:
+          action === "reject"
+            ? "No orders were executed"
+            : `Executed ${event.portfoliosAffected} portfolios${failed ? `, ${failed} failed` : ""}`,
+        variant: action === "approve" && failed ? "destructive" : undefined,
+      });
+      await Promise.all([fetchPortfolios(), fetchRebalanceHistory()]);
+    } catch (error) {
+      toast({
+        title: `Failed to ${action} rebalance`,
+        description:
+          error instanceof Error ? error.message : `Failed to ${action}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeciding(false);
+    }
   };
 
   // Initial data load
@@ -357,8 +491,8 @@ export default function AdminPortfolio() {
     }
   };
 
-  // Handle rebalance
-  const handleRebalance = async () => {
+  // Plan a rebalance; a dry run only previews, otherwise it awaits approval
+  const handleRebalance = async (dryRun = false) => {
     // Validate both JSON inputs
     const pricesValid = validateJson(pricesJson, "prices");
     const returnsValid = validateJson(returnsJson, "returns");
@@ -383,7 +517,8 @@ export default function AdminPortfolio() {
         body: JSON.stringify({
           prices: JSON.parse(pricesJson),
           returns: JSON.parse(returnsJson),
-          actor: "admin@example.com",
+          actor: user?.email || "admin@example.com",
+          dry_run: dryRun,
         }),
       });
 
@@ -397,23 +532,14 @@ export default function AdminPortfolio() {
       const result = await response.json();
 
       toast({
-        title: "Rebalance Started",
-        description: `Rebalancing ${result.rebalanced} portfolios`,
+        title: dryRun ? "Rebalance Preview" : "Rebalance Planned",
+        description: dryRun
+          ? `${result.rebalanced} portfolios would trade`
+          : `Review and approve orders for ${result.rebalanced} portfolios`,
       });
-
-      // Refresh data after a delay
-      setTimeout(async () => {
-        await Promise.all([
-          fetchPortfolios(),
-          fetchStats(),
-          fetchRebalanceHistory(),
-        ]);
-
-        toast({
-          title: "Rebalance Complete",
-          description: `Successfully rebalanced ${result.rebalanced} portfolios`,
-        });
-      }, 3000);
+      setAckGlobal(false);
+      if (result.data) showRebalanceDetail(result.data);
+      await fetchRebalanceHistory();
     } catch (error) {
       toast({
         title: "Rebalance Failed",
@@ -471,11 +597,46 @@ export default function AdminPortfolio() {
         icon: CheckCircle,
         color: "text-green-600",
       },
+      partially_completed: {
+        variant: "outline" as const,
+        icon: AlertTriangle,
+        color: "text-yellow-600",
+      },
       failed: {
         variant: "destructive" as const,
         icon: AlertTriangle,
         color: "text-red-600",
       },
+      rejected: {
+        variant: "secondary" as const,
+        icon: AlertTriangle,
+        color: "text-gray-600",
+      },
+      pending_approval: {
+        variant: "outline" as const,
+        icon: Clock,
+        color: "text-orange-600",
+      },
+      preview: {
+        variant: "secondary" as const,
+        icon: Target,
+        color: "text-blue-600",
+      },
+      executed: {
+        variant: "default" as const,
+        icon: CheckCircle,
+        color: "text-green-600",
+      },
+      planned: {
+        variant: "outline" as const,
+        icon: Clock,
+        color: "text-blue-600",
+      },
+      skipped: {
+        variant: "secondary" as const,
+        icon: Clock,
+        color: "text-gray-600",
+      },
       in_progress: {
         variant: "outline" as const,
         icon: Activity,
@@ -490,7 +651,7 @@ export default function AdminPortfolio() {
     return (
       <Badge variant={config.variant} className="flex items-center space-x-1">
         <Icon className={`h-3 w-3 ${config.color}`} />
-        <span className="capitalize">{status.replace("_", " ")}</span>
+        <span className="capitalize">{status.replace(/_/g, " ")}</span>
       </Badge>
     );
   };
@@ -899,7 +1060,7 @@ export default function AdminPortfolio() {
                   data
                 </CardDescription>
               </div>
-              <HelpTip content="Start a global rebalance using provided prices and returns JSON. Applies to active portfolios." />
+              <HelpTip content="Plan a global rebalance using provided prices and returns JSON. Applies to active portfolios; orders only execute once the plan is approved." />
             </CardHeader>
             <CardContent className="space-y-4">
               {isRebalancing && (
@@ -907,7 +1068,7 @@ export default function AdminPortfolio() {
                   <Activity className="h-4 w-4" />
                   <AlertDescription>
                     <div className="space-y-2">
-                      <div>Rebalancing in progress...</div>
+                      <div>Planning rebalance...</div>
                       <Progress value={75} className="w-full" />
                     </div>
                   </AlertDescription>
@@ -966,6 +1127,18 @@ export default function AdminPortfolio() {
                 </p>
               </div>
 
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => handleRebalance(true)}
+                disabled={
+                  isRebalancing || !!jsonErrors.prices || !!jsonErrors.returns
+                }
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Preview Orders (Dry Run)
+              </Button>
+
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button
@@ -979,12 +1152,12 @@ export default function AdminPortfolio() {
                     {isRebalancing ? (
                       <>
                         <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                        Rebalancing...
+                        Planning...
                       </>
                     ) : (
                       <>
                         <Target className="h-4 w-4 mr-2" />
-                        Rebalance Portfolios
+                        Plan Rebalance
                       </>
                     )}
                   </Button>
@@ -995,9 +1168,9 @@ export default function AdminPortfolio() {
                       Confirm System-Wide Rebalance
                     </AlertDialogTitle>
                     <AlertDialogDescription>
-                      This will trigger a rebalance across all active portfolios
-                      using the provided prices and returns data. This action
-                      cannot be undone.
+                      This will plan a rebalance across all active portfolios
+                      using the provided prices and returns data. Orders are
+                      executed only after the plan is approved.
                     </AlertDialogDescription>
                     {stats && (
                       <div className="mt-4 p-3 bg-muted rounded-lg">
@@ -1035,10 +1208,10 @@ export default function AdminPortfolio() {
                       Cancel
                     </AlertDialogCancel>
                     <AlertDialogAction
-                      onClick={handleRebalance}
+                      onClick={() => handleRebalance(false)}
                       disabled={!ackGlobal || isRebalancing}
                     >
-                      Confirm Rebalance
+                      Create Plan
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
@@ -1055,17 +1228,22 @@ export default function AdminPortfolio() {
                   <span>Recent Rebalances</span>
                 </CardTitle>
                 <CardDescription>
-                  History of recent rebalancing operations. If empty, backend
-                  does not expose historical data.
+                  History of recent rebalancing operations. Select one to see
+                  its orders.
                 </CardDescription>
               </div>
-              <HelpTip content="Timeline of rebalance runs with who triggered them, scope, value moved, and status." />
+              <HelpTip content="Timeline of rebalance runs with who triggered them, scope, value traded, and status. Pending plans are approved or rejected from their detail view." />
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
                 {rebalanceHistory.length > 0 ? (
                   rebalanceHistory.slice(0, 5).map((event) => (
-                    <div key={event.id} className="border rounded-lg p-3">
+                    <button
+                      key={event.id}
+                      type="button"
+                      onClick={() => openRebalanceDetail(event.id)}
+                      className="w-full text-left border rounded-lg p-3 hover:bg-muted/50"
+                    >
                       <div className="flex items-center justify-between mb-2">
                         <div className="font-medium text-sm">
                           {event.reason}
@@ -1088,7 +1266,7 @@ export default function AdminPortfolio() {
                       <div className="text-xs text-muted-foreground mt-2">
                         {new Date(event.timestamp).toLocaleString()}
                       </div>
-                    </div>
+                    </button>
                   ))
                 ) : (
                   <div className="text-center py-4 text-muted-foreground">
@@ -1183,8 +1361,8 @@ export default function AdminPortfolio() {
                 onChange={(e) => setRowAck(e.target.checked)}
               />
               <Label htmlFor="ack" className="text-xs">
-                I understand this will rebalance active portfolios. Include this
-                user in audit search.
+                I understand this will plan a rebalance for this user's active
+                portfolios. Include this user in audit search.
               </Label>
               <HelpTip content="Required confirmation before submitting a per-user rebalance." />
             </div>
@@ -1219,7 +1397,7 @@ export default function AdminPortfolio() {
                     body: JSON.stringify({
                       prices: JSON.parse(rowPricesJson),
                       returns: JSON.parse(rowReturnsJson),
-                      actor: "admin@example.com",
+                      actor: user?.email || "admin@example.com",
                       target_user_ids: selected
                         ? [selected.user_id]
                         : undefined,
@@ -1230,16 +1408,12 @@ export default function AdminPortfolio() {
                     throw new Error(j.message || j.error || "Rebalance failed");
                   }
                   toast({
-                    title: "Rebalance Started",
-                    description: `Queued across ${j.rebalanced} portfolios`,
+                    title: "Rebalance Planned",
+                    description: `Review and approve orders for ${j.rebalanced} portfolios`,
                   });
-                  setTimeout(async () => {
-                    await Promise.all([
-                      fetchPortfolios(),
-                      fetchStats(),
-                      fetchRebalanceHistory(),
-                    ]);
-                  }, 2000);
+                  setDetailOpen(false);
+                  if (j.data) showRebalanceDetail(j.data);
+                  await fetchRebalanceHistory();
                 } catch (e: any) {
                   setRowError(e.message || "Failed");
                 } finally {
@@ -1254,9 +1428,247 @@ export default function AdminPortfolio() {
                   Submitting...
                 </>
               ) : (
-                "Rebalance"
+                "Plan Rebalance"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rebalance Plan Detail */}
+      <Dialog open={rebalanceDetailOpen} onOpenChange={setRebalanceDetailOpen}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Rebalance {rebalanceDetail?.id}
+              {rebalanceDetail && getStatusBadge(rebalanceDetail.status)}
+            </DialogTitle>
+            <DialogDescription>
+              {rebalanceDetail
+                ? `${rebalanceDetail.reason} • by ${rebalanceDetail.triggeredBy} • ${new Date(rebalanceDetail.timestamp).toLocaleString()}`
+                : "Loading..."}
+            </DialogDescription>
+          </DialogHeader>
+          {rebalanceDetail && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="p-2 border rounded-md">
+                  <div className="text-xs text-muted-foreground">
+                    Portfolios
+                  </div>
+                  <div className="font-medium">
+                    {rebalanceDetail.portfoliosAffected}
+                    {rebalanceDetail.plans
+                      ? ` / ${rebalanceDetail.plans.length}`
+                      : ""}
+                  </div>
+                </div>
+                <div className="p-2 border rounded-md">
+                  <div className="text-xs text-muted-foreground">
+                    Value traded
+                  </div>
+                  <div className="font-medium">
+                    {formatCurrency(rebalanceDetail.totalValueRebalanced)}
+                  </div>
+                </div>
+                <div className="p-2 border rounded-md">
+                  <div className="text-xs text-muted-foreground">Est. fees</div>
+                  <div className="font-medium">
+                    {rebalanceDetail.estimatedFees !== undefined
+                      ? formatCurrency(rebalanceDetail.estimatedFees)
+                      : "N/A"}
+                  </div>
+                </div>
+                <div className="p-2 border rounded-md">
+                  <div className="text-xs text-muted-foreground">
+                    Est. slippage
+                  </div>
+                  <div className="font-medium">
+                    {rebalanceDetail.estimatedSlippage !== undefined
+                      ? formatCurrency(rebalanceDetail.estimatedSlippage)
+                      : "N/A"}
+                  </div>
+                </div>
+              </div>
+
+              {rebalanceDetail.decidedBy && (
+                <div className="text-xs text-muted-foreground">
+                  {rebalanceDetail.status === "rejected"
+                    ? "Rejected"
+                    : "Approved"}{" "}
+                  by {rebalanceDetail.decidedBy}
+                  {rebalanceDetail.decidedAt
+                    ? ` at ${new Date(rebalanceDetail.decidedAt).toLocaleString()}`
+                    : ""}
+                  {rebalanceDetail.rejectionReason
+                    ? ` • ${rebalanceDetail.rejectionReason}`
+                    : ""}
+                </div>
+              )}
+
+              {rebalanceDetail.plans && rebalanceDetail.plans.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Portfolio</TableHead>
+                      <TableHead>Tier</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Orders</TableHead>
+                      <TableHead className="text-right">Turnover</TableHead>
+                      <TableHead className="text-right">Fees</TableHead>
+                      <TableHead className="text-right">Slippage</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rebalanceDetail.plans.flatMap((plan) => {
+                      const expanded = expandedPlan === plan.portfolio_id;
+                      const rows = [
+                        <TableRow
+                          key={plan.portfolio_id}
+                          className="cursor-pointer"
+                          onClick={() =>
+                            setExpandedPlan(expanded ? null : plan.portfolio_id)
+                          }
+                        >
+                          <TableCell>
+                            <div className="font-mono text-xs">
+                              {plan.portfolio_id}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {plan.user_id} • {formatCurrency(plan.value)}
+                            </div>
+                          </TableCell>
+                          <TableCell className="capitalize text-xs">
+                            {plan.risk_tier}
+                          </TableCell>
+                          <TableCell>
+                            {getStatusBadge(plan.status)}
+                            {plan.reason && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {plan.reason}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {plan.orders.length}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(plan.turnover * 100).toFixed(1)}%
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(plan.fees ?? plan.est_fees)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(plan.slippage ?? plan.est_slippage)}
+                          </TableCell>
+                        </TableRow>,
+                      ];
+                      if (expanded) {
+                        rows.push(
+                          <TableRow key={`${plan.portfolio_id}-orders`}>
+                            <TableCell colSpan={7} className="bg-muted/30">
+                              {plan.orders.length > 0 ? (
+                                <div className="space-y-1 text-xs font-mono">
+                                  {plan.orders.map((o) => (
+                                    <div
+                                      key={`${o.side}-${o.symbol}`}
+                                      className="grid grid-cols-6 gap-2"
+                                    >
+                                      <span
+                                        className={
+                                          o.side === "buy"
+                                            ? "text-green-600"
+                                            : "text-red-600"
+                                        }
+                                      >
+                                        {o.side.toUpperCase()}
+                                      </span>
+                                      <span>{o.symbol}</span>
+                                      <span className="text-right">
+                                        {o.quantity}
+                                      </span>
+                                      <span className="text-right">
+                                        @ {o.price}
+                                      </span>
+                                      <span className="text-right">
+                                        {formatCurrency(o.notional)}
+                                      </span>
+                                      <span className="text-right text-muted-foreground">
+                                        fee {o.est_fee.toFixed(2)} • slip{" "}
+                                        {o.est_slippage.toFixed(2)}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              ) : (
+                                <div className="text-xs text-muted-foreground">
+                                  No orders
+                                </div>
+                              )}
+                              <div className="mt-2 text-xs text-muted-foreground">
+                                Target:{" "}
+                                {Object.entries(plan.target_weights)
+                                  .filter(([, w]) => w > 0)
+                                  .map(
+                                    ([sym, w]) =>
+                                      `${sym} ${(w * 100).toFixed(1)}%`,
+                                  )
+                                  .join(", ") || "all cash"}
+                              </div>
+                              {plan.warnings.map((w) => (
+                                <div
+                                  key={w}
+                                  className="text-xs text-yellow-700"
+                                >
+                                  {w}
+                                </div>
+                              ))}
+                            </TableCell>
+                          </TableRow>,
+                        );
+                      }
+                      return rows;
+                    })}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  No per-portfolio plan recorded for this rebalance.
+                </div>
               )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRebalanceDetailOpen(false)}
+            >
+              Close
             </Button>
+            {rebalanceDetail?.status === "pending_approval" && (
+              <>
+                <Button
+                  variant="destructive"
+                  onClick={() => decideRebalance("reject")}
+                  disabled={isDeciding}
+                >
+                  Reject
+                </Button>
+                <Button
+                  onClick={() => decideRebalance("approve")}
+                  disabled={isDeciding}
+                >
+                  {isDeciding ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      Executing...
+                    </>
+                  ) : (
+                    "Approve & Execute"
+                  )}
+                </Button>
+              </>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -55,6 +55,7 @@ import {
 import { toast } from '@/hooks/use-toast';
 import apiFetch from "@/lib/apiClient";
 import DataRetentionPanel from "./components/DataRetentionPanel";
+import ApiKeysPanel from "./components/ApiKeysPanel";
 
 // Types
 interface RuntimeConfig {
@@ -241,12 +242,12 @@ export default function AdminSystemConfig() {
         toast({ title: 'Error', description: 'Unknown setting', variant: 'destructive' });
         return;
       }
-      if (data.status === 'success') {
-        setRuntimeConfig(data.data);
-        setOriginalRuntimeConfig(data.data);
+      if (response.status === 202) {
+        // Applied once founders approve the proposal; until then the live values stand
+        setRuntimeConfig(originalRuntimeConfig);
         setRuntimeErrors([]);
         setConfirmRuntimeOpen(false);
-        toast({ title: 'Success', description: 'Runtime configuration updated successfully' });
+        toast({ title: 'Change proposed', description: `Proposal ${data.data?.proposal?.id} awaits founder approval` });
       } else {
         throw new Error(data.message);
       }
@@ -268,12 +269,17 @@ export default function AdminSystemConfig() {
 
       const data = await response.json();
       
-      if (data.status === 'success') {
+      if (response.status === 202) {
+        toast({
+          title: "Reload proposed",
+          description: `Proposal ${data.data?.proposal?.id} restores the defaults once founders approve`
+        });
+      } else if (data.status === 'success') {
         setRuntimeConfig(data.data);
         setOriginalRuntimeConfig(data.data);
         toast({
           title: "Success",
-          description: "Configuration reloaded successfully"
+          description: data.message || "Configuration reloaded successfully"
         });
       } else {
         throw new Error(data.message);
@@ -528,10 +534,11 @@ export default function AdminSystemConfig() {
       </div>
 
       <Tabs defaultValue="runtime" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="runtime">Runtime Configuration</TabsTrigger>
           <TabsTrigger value="system">System Settings</TabsTrigger>
           <TabsTrigger value="utility">Utility Controls</TabsTrigger>
+          <TabsTrigger value="api-keys">API Keys</TabsTrigger>
         </TabsList>
 
         {/* Runtime Configuration Tab */}
@@ -786,6 +793,11 @@ export default function AdminSystemConfig() {
             </Card>
           </div>
         </TabsContent>
+
+        {/* API Keys Tab */}
+        <TabsContent value="api-keys" className="space-y-4">
+          <ApiKeysPanel />
+        </TabsContent>
       </Tabs>
 
       {/* Runtime Save Confirmation */}
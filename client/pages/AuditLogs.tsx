@@ -14,6 +14,8 @@ import {
   Download,
   Copy,
   Link as LinkIcon,
+  ShieldCheck,
+  ShieldAlert,
 } from "lucide-react";
 
 interface TradeEvent {
@@ -48,6 +50,30 @@ interface BalanceEvent {
   hmac_verified?: boolean;
 }
 
+// Admin actions from the hash-chained audit ledger (/api/audit/*)
+interface LedgerEntry {
+  seq: number;
+  id: string;
+  at: string;
+  actor: string;
+  action: string;
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+  details?: string;
+  success: boolean;
+  requestId?: string;
+  prevHash: string;
+  hash: string;
+}
+
+interface LedgerVerification {
+  valid: boolean;
+  count: number;
+  headHash: string;
+  firstBroken?: { seq: number; id: string; reason: string };
+}
+
 type EventsPayload<T> = { total: number; items: T[]; next?: string | number };
 interface EventsResponse<T> {
   status?: string;
@@ -80,6 +106,10 @@ export default function AuditLogs() {
   const [tNext, setTNext] = useState<string | number | undefined>();
   const [bNext, setBNext] = useState<string | number | undefined>();
   const [error, setError] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [verification, setVerification] =
+    useState<LedgerVerification | null>(null);
+  const [openEntry, setOpenEntry] = useState<string | null>(null);
 
   // Caching headers
   const tradesETag = useRef<string | null>(null);
@@ -147,17 +177,37 @@ export default function AuditLogs() {
     [symbol, action, since, limit],
   );
 
+  const fetchLedger = useCallback(async () => {
+    const p = new URLSearchParams();
+    if (user) p.set("actor", user);
+    if (since) p.set("since", new Date(since).toISOString());
+    p.set("limit", String(limit));
+    try {
+      const [list, check] = await Promise.all([
+        getJson<{ data?: LedgerEntry[] }>(`/api/audit/logs?${p.toString()}`),
+        getJson<{ data?: LedgerVerification }>("/api/audit/verify"),
+      ]);
+      setLedger(list?.data || []);
+      setVerification(check?.data || null);
+    } catch {
+      // The ledger is admin-only; trade and balance events still load
+      setLedger([]);
+      setVerification(null);
+    }
+  }, [user, since, limit]);
+
   const load = useCallback(async () => {
     setError(null);
     try {
       await Promise.all([
         fetchTrades(undefined, false),
         fetchBalances(undefined, false),
+        fetchLedger(),
       ]);
     } catch (e: any) {
       setError(e.message || "Failed to load");
     }
-  }, [fetchTrades, fetchBalances]);
+  }, [fetchTrades, fetchBalances, fetchLedger]);
 
   // Initial load & polling
   useEffect(() => {
@@ -180,8 +230,9 @@ export default function AuditLogs() {
         wt.onmessage = (ev) => {
           try {
             const msg = JSON.parse(ev.data);
-            if (msg && msg.id)
-              setTrades((prev) => [msg as TradeEvent, ...prev].slice(0, 500));
+            const item = msg?.type === "trade" ? msg.payload : msg;
+            if (item && item.id)
+              setTrades((prev) => [item as TradeEvent, ...prev].slice(0, 500));
           } catch {}
         };
       }
@@ -193,8 +244,11 @@ export default function AuditLogs() {
         wb.onmessage = (ev) => {
           try {
             const msg = JSON.parse(ev.data);
-            if (msg && msg.id)
-              setBalances((prev) => [msg as BalanceEvent, ...prev].slice(0, 500));
+            const item = msg?.type === "balance" ? msg.payload : msg;
+            if (item && item.id)
+              setBalances((prev) =>
+                [item as BalanceEvent, ...prev].slice(0, 500),
+              );
           } catch {}
         };
       }
@@ -230,6 +284,20 @@ export default function AuditLogs() {
     a.click();
   };
 
+  // The server export is the full chain, so it can be re-verified offline
+  const exportLedger = async () => {
+    try {
+      const r = await apiFetch("/api/audit/export");
+      if (!r.ok) throw new Error(`Export failed (${r.status})`);
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(await r.blob());
+      a.download = "audit_ledger.jsonl";
+      a.click();
+    } catch (e: any) {
+      setError(e.message || "Export failed");
+    }
+  };
+
   const exportCSV = async () => {
     const rows: any[] = trades
       .map((t) => ({ type: "trade", ...t }))
@@ -282,6 +350,10 @@ export default function AuditLogs() {
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
+          <Button variant="outline" onClick={exportLedger}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Ledger (JSONL)
+          </Button>
           <Button variant="outline" onClick={load}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
@@ -381,6 +453,112 @@ export default function AuditLogs() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <CardTitle>Admin Actions</CardTitle>
+            {verification &&
+              (verification.valid ? (
+                <Badge className="bg-green-100 text-green-800 border-green-200 inline-flex items-center gap-1">
+                  <ShieldCheck className="h-3 w-3" /> Chain verified (
+                  {verification.count} entries)
+                </Badge>
+              ) : (
+                <Badge
+                  variant="destructive"
+                  className="inline-flex items-center gap-1"
+                >
+                  <ShieldAlert className="h-3 w-3" /> Chain broken at #
+                  {verification.firstBroken?.seq} (
+                  {verification.firstBroken?.reason.replace(/_/g, " ")})
+                </Badge>
+              ))}
+          </div>
+          <HelpTip content="Every admin action is appended to a hash-chained ledger: each entry stores the hash of the one before it, so any edit or deletion breaks verification from that entry on. Filtered by User and Since." />
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Timestamp</th>
+                  <th className="text-left p-2">Actor</th>
+                  <th className="text-left p-2">Action</th>
+                  <th className="text-left p-2">Target</th>
+                  <th className="text-left p-2">Request ID</th>
+                  <th className="text-left p-2">Hash</th>
+                  <th className="text-left p-2">Expand</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.map((e) => (
+                  <tr key={e.id} className="border-t align-top">
+                    <td className="p-2">{e.seq}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      {new Date(e.at).toLocaleString()}
+                    </td>
+                    <td className="p-2">{e.actor}</td>
+                    <td className="p-2">
+                      <Badge variant={e.success ? "outline" : "destructive"}>
+                        {e.action}
+                      </Badge>
+                    </td>
+                    <td className="p-2">{e.target || "—"}</td>
+                    <td className="p-2 font-mono text-xs">
+                      {e.requestId || "—"}
+                    </td>
+                    <td className="p-2 font-mono text-xs" title={e.hash}>
+                      {e.hash.slice(0, 12)}…
+                    </td>
+                    <td className="p-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setOpenEntry(openEntry === e.id ? null : e.id)
+                        }
+                      >
+                        {openEntry === e.id ? (
+                          <ChevronUp className="h-4 w-4" />
+                        ) : (
+                          <ChevronDown className="h-4 w-4" />
+                        )}
+                      </Button>
+                      {openEntry === e.id && (
+                        <div className="mt-2 p-2 border rounded bg-muted/30 space-y-1 text-xs">
+                          {e.details && <div>{e.details}</div>}
+                          <div>
+                            before:{" "}
+                            <code>{JSON.stringify(e.before ?? null)}</code>
+                          </div>
+                          <div>
+                            after: <code>{JSON.stringify(e.after ?? null)}</code>
+                          </div>
+                          <div className="font-mono break-all">
+                            prev: {e.prevHash}
+                          </div>
+                          <div className="font-mono break-all">
+                            hash: {e.hash}
+                          </div>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {ledger.length === 0 && (
+                  <tr>
+                    <td className="p-2 text-muted-foreground" colSpan={8}>
+                      No admin actions recorded
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader className="flex items-start justify-between">
           <CardTitle>Recent Trades</CardTitle>
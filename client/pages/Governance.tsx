@@ -19,7 +19,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -69,21 +68,56 @@ import OnChainGovernanceViewer from "./components/OnChainGovernanceViewer";
 // Types
 interface Proposal {
   id: string;
+  kind: string;
   description: string;
-  status: "pending" | "voting" | "approved" | "rejected" | "deployed";
+  status:
+    | "pending"
+    | "voting"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "deployed"
+    | "failed"
+    | "rolled_back";
+  payload?: unknown;
+  diff?: ChangeDiff[];
   votes: Vote[];
   requiredVotes: number;
+  threshold: number;
   createdAt: string;
   createdBy: string;
+  expiresAt: string;
+  error?: string;
   deployedAt?: string;
   deploymentStatus?: "success" | "failed" | "in_progress";
   voteCount?: number;
   approvalCount?: number;
   canDeploy?: boolean;
+  canRollback?: boolean;
 }
 
+interface ChangeDiff {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Example payload for each executable proposal kind
+const PAYLOAD_TEMPLATES: Record<string, unknown> = {
+  config_change: { changes: { "trading.price_band_percent": 4 } },
+  asc_reweight: {
+    weights: { momentum: 0.5, mean_reversion: 0.3, breakout: 0.2 },
+  },
+  risk_tier_change: { tiers: { moderate: { maxDrawdown: 0.1 } } },
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "—" : JSON.stringify(value);
+
 interface Vote {
   founderId: string;
+  founderEmail?: string;
+  choice: "approve" | "reject" | "abstain";
   approve: boolean;
   votedAt: string;
 }
@@ -110,12 +144,17 @@ export default function Governance() {
   const [isLoading, setIsLoading] = useState(true);
 
   // Proposal creation state
-  const [newProposal, setNewProposal] = useState({ id: "", description: "" });
+  const [newProposal, setNewProposal] = useState({
+    id: "",
+    description: "",
+    kind: "config_change",
+    payload: JSON.stringify(PAYLOAD_TEMPLATES.config_change, null, 2),
+  });
   const [isCreatingProposal, setIsCreatingProposal] = useState(false);
 
   // Voting state
   const [selectedProposal, setSelectedProposal] = useState("");
-  const [voteData, setVoteData] = useState({ founderId: "", approve: false });
+  const [voteChoice, setVoteChoice] = useState<Vote["choice"]>("approve");
   const [isCastingVote, setIsCastingVote] = useState(false);
 
   // Deployment state
@@ -129,9 +168,6 @@ export default function Governance() {
   const [feedback, setFeedback] = useState("");
   const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
 
-  // Available founders (in production, this would come from an API)
-  const founders = ["founder1", "founder2", "founder3", "founder4", "founder5"];
-
   // Fetch proposals
   const fetchProposals = async () => {
     try {
@@ -184,6 +220,18 @@ export default function Governance() {
       return;
     }
 
+    let payload: unknown;
+    try {
+      payload = JSON.parse(newProposal.payload);
+    } catch {
+      toast({
+        title: "Validation Error",
+        description: "Payload must be valid JSON.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsCreatingProposal(true);
     try {
       const response = await apiFetch(
@@ -196,6 +244,8 @@ export default function Governance() {
           body: JSON.stringify({
             proposalId: newProposal.id,
             description: newProposal.description,
+            kind: newProposal.kind,
+            payload,
           }),
         },
       );
@@ -209,7 +259,7 @@ export default function Governance() {
         });
 
         // Reset form and refresh proposals
-        setNewProposal({ id: "", description: "" });
+        setNewProposal((prev) => ({ ...prev, id: "", description: "" }));
         await fetchProposals();
       } else {
         throw new Error(data.error || "Failed to create proposal");
@@ -228,10 +278,10 @@ export default function Governance() {
 
   // Cast vote
   const handleCastVote = async () => {
-    if (!selectedProposal || !voteData.founderId) {
+    if (!selectedProposal) {
       toast({
         title: "Validation Error",
-        description: "Please select a proposal and enter founder ID.",
+        description: "Please select a proposal.",
         variant: "destructive",
       });
       return;
@@ -246,7 +296,8 @@ export default function Governance() {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify(voteData),
+          // The vote is recorded for the signed-in founder
+          body: JSON.stringify({ choice: voteChoice }),
         },
       );
 
@@ -255,12 +306,12 @@ export default function Governance() {
       if (data.status === "success") {
         toast({
           title: "Vote Cast",
-          description: `Vote ${voteData.approve ? "approved" : "rejected"} for proposal ${selectedProposal}.`,
+          description: `Voted ${voteChoice} on proposal ${selectedProposal}; it is now ${data.data.newStatus}.`,
         });
 
         // Reset form and refresh proposals
         setSelectedProposal("");
-        setVoteData({ founderId: "", approve: false });
+        setVoteChoice("approve");
         await fetchProposals();
       } else {
         throw new Error(data.error || "Failed to cast vote");
@@ -399,11 +450,26 @@ export default function Governance() {
         color: "bg-red-100 text-red-800 border-red-200",
         icon: AlertCircle,
       },
+      expired: {
+        variant: "secondary" as const,
+        color: "bg-gray-100 text-gray-800 border-gray-200",
+        icon: Clock,
+      },
+      failed: {
+        variant: "destructive" as const,
+        color: "bg-red-100 text-red-800 border-red-200",
+        icon: AlertCircle,
+      },
       deployed: {
         variant: "default" as const,
         color: "bg-purple-100 text-purple-800 border-purple-200",
         icon: Rocket,
       },
+      rolled_back: {
+        variant: "secondary" as const,
+        color: "bg-orange-100 text-orange-800 border-orange-200",
+        icon: RefreshCw,
+      },
     };
 
     const config =
@@ -416,7 +482,7 @@ export default function Governance() {
         className={`flex items-center space-x-1 ${config.color}`}
       >
         <Icon className="h-3 w-3" />
-        <span className="capitalize">{status}</span>
+        <span className="capitalize">{status.replace(/_/g, " ")}</span>
       </Badge>
     );
   };
@@ -575,6 +641,38 @@ export default function Governance() {
                     }
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Kind</Label>
+                  <Select
+                    value={newProposal.kind}
+                    onValueChange={(kind) =>
+                      setNewProposal((prev) => ({
+                        ...prev,
+                        kind,
+                        payload: JSON.stringify(
+                          PAYLOAD_TEMPLATES[kind],
+                          null,
+                          2,
+                        ),
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="config_change">
+                        Runtime config change
+                      </SelectItem>
+                      <SelectItem value="asc_reweight">
+                        Strategy controller reweight
+                      </SelectItem>
+                      <SelectItem value="risk_tier_change">
+                        Risk tier change
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
                   <Textarea
@@ -590,6 +688,25 @@ export default function Governance() {
                     rows={4}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payload">Payload (JSON)</Label>
+                  <Textarea
+                    id="payload"
+                    className="font-mono text-xs"
+                    value={newProposal.payload}
+                    onChange={(e) =>
+                      setNewProposal((prev) => ({
+                        ...prev,
+                        payload: e.target.value,
+                      }))
+                    }
+                    rows={6}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The change is validated now and applied as-is when the
+                    approved proposal is deployed.
+                  </p>
+                </div>
                 <Button
                   className="w-full"
                   onClick={handleCreateProposal}
@@ -631,12 +748,27 @@ export default function Governance() {
                         className="p-4 border rounded-lg space-y-3"
                       >
                         <div className="flex items-center justify-between">
-                          <div className="font-medium">{proposal.id}</div>
+                          <div className="flex items-center space-x-2">
+                            <span className="font-medium">{proposal.id}</span>
+                            <Badge variant="outline" className="text-xs">
+                              {proposal.kind.replace(/_/g, " ")}
+                            </Badge>
+                          </div>
                           {getStatusBadge(proposal.status)}
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {proposal.description}
                         </p>
+                        {proposal.diff && proposal.diff.length > 0 && (
+                          <div className="rounded bg-muted p-2 font-mono text-xs space-y-1">
+                            {proposal.diff.map((d) => (
+                              <div key={d.path}>
+                                {d.path}: {formatValue(d.before)} →{" "}
+                                {formatValue(d.after)}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         <div className="flex items-center justify-between text-xs text-muted-foreground">
                           <span>
                             {proposal.votes.length}/{proposal.requiredVotes}{" "}
@@ -657,7 +789,15 @@ export default function Governance() {
                           Created:{" "}
                           {new Date(proposal.createdAt).toLocaleDateString()} by{" "}
                           {proposal.createdBy}
+                          {(proposal.status === "pending" ||
+                            proposal.status === "voting") &&
+                            ` · voting closes ${new Date(proposal.expiresAt).toLocaleString()}`}
                         </div>
+                        {proposal.error && (
+                          <div className="text-xs text-red-600">
+                            {proposal.error}
+                          </div>
+                        )}
                       </div>
                     ))
                   ) : (
@@ -707,34 +847,26 @@ export default function Governance() {
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="founderId">Founder ID</Label>
+                <Label>Your vote</Label>
                 <Select
-                  value={voteData.founderId}
+                  value={voteChoice}
                   onValueChange={(value) =>
-                    setVoteData((prev) => ({ ...prev, founderId: value }))
+                    setVoteChoice(value as Vote["choice"])
                   }
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select founder ID" />
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {founders.map((founder) => (
-                      <SelectItem key={founder} value={founder}>
-                        {founder}
-                      </SelectItem>
-                    ))}
+                    <SelectItem value="approve">Approve</SelectItem>
+                    <SelectItem value="reject">Reject</SelectItem>
+                    <SelectItem value="abstain">Abstain</SelectItem>
                   </SelectContent>
                 </Select>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="approve"
-                  checked={voteData.approve}
-                  onCheckedChange={(checked) =>
-                    setVoteData((prev) => ({ ...prev, approve: !!checked }))
-                  }
-                />
-                <Label htmlFor="approve">Approve this proposal</Label>
+                <p className="text-xs text-muted-foreground">
+                  Each founder has one vote per proposal; voting again replaces
+                  your earlier vote while the proposal is open.
+                </p>
               </div>
 
               {getVotingProposals().length === 0 && (
@@ -749,9 +881,7 @@ export default function Governance() {
               <Button
                 className="w-full"
                 onClick={handleCastVote}
-                disabled={
-                  !selectedProposal || !voteData.founderId || isCastingVote
-                }
+                disabled={!selectedProposal || isCastingVote}
               >
                 {isCastingVote ? (
                   <>
@@ -1021,6 +1151,11 @@ export default function Governance() {
                   {deployingProposal?.votes.filter((v) => v.approve).length}/
                   {deployingProposal?.requiredVotes}
                 </div>
+                {deployingProposal?.diff?.map((d) => (
+                  <div key={d.path} className="font-mono text-xs">
+                    {d.path}: {formatValue(d.before)} → {formatValue(d.after)}
+                  </div>
+                ))}
                 <div>
                   <strong>Deployment Time:</strong>{" "}
                   {new Date().toLocaleString()}
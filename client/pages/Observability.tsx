@@ -29,6 +29,19 @@ interface DependencyRow {
   timeout?: number;
   skipped?: boolean;
   request_id?: string;
+  required?: boolean;
+  latency_ms?: number;
+  uptime?: number | null;
+  transitions?: number;
+  flapping?: boolean;
+}
+
+interface DependencyHistoryEntry {
+  checked_at: string;
+  ok: boolean;
+  code: number;
+  latency_ms: number;
+  error: string | null;
 }
 
 export default function Observability() {
@@ -44,6 +57,7 @@ export default function Observability() {
   const [deps, setDeps] = useState<DependencyRow[]>([]);
   const [depsErr, setDepsErr] = useState<string | null>(null);
   const [selectedDep, setSelectedDep] = useState<DependencyRow | null>(null);
+  const [depHistory, setDepHistory] = useState<DependencyHistoryEntry[]>([]);
 
   // Liveness diagnostics (admin-only)
   const [liveDetails, setLiveDetails] = useState<any | null>(null);
@@ -73,7 +87,8 @@ export default function Observability() {
     return list.map((d: any) => ({
       name: d.name,
       ok: !!d.ok,
-      required: required.has(d.name),
+      required:
+        typeof d.required === "boolean" ? d.required : required.has(d.name),
       code: d.code,
       checked_at: d.checked_at,
       timeout: d.timeout,
@@ -87,7 +102,9 @@ export default function Observability() {
       const r = await apiFetch("/api/v1/system/health/ready", {
         cache: "no-cache",
       });
-      if (!r.ok) throw new Error(`${r.status} ${r.statusText}`);
+      // 503 still carries the verdict and per-dependency results
+      if (!r.ok && r.status !== 503)
+        throw new Error(`${r.status} ${r.statusText}`);
       const j = await r.json().catch(() => ({}) as any);
       const ok = j?.ok === true || j?.data?.ok === true;
       setReady(!!ok);
@@ -120,6 +137,30 @@ export default function Observability() {
     }
   }, [isPrivileged]);
 
+  useEffect(() => {
+    if (!selectedDep) {
+      setDepHistory([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const r = await apiFetch(
+          `/api/v1/system/health/dependencies/history?id=${encodeURIComponent(selectedDep.id)}&limit=60`,
+          { cache: "no-cache" },
+        );
+        const j = await r.json().catch(() => ({}) as any);
+        const entries = j?.data?.probes?.[0]?.entries;
+        if (!cancelled) setDepHistory(Array.isArray(entries) ? entries : []);
+      } catch {
+        if (!cancelled) setDepHistory([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDep]);
+
   const pollLiveness = useCallback(async () => {
     if (!isPrivileged) return;
     try {
@@ -333,6 +374,7 @@ export default function Observability() {
                     <th className="text-left p-2">Code</th>
                     <th className="text-left p-2">Checked</th>
                     <th className="text-left p-2">Timeout</th>
+                    <th className="text-left p-2">Uptime</th>
                     <th className="text-left p-2">Req ID</th>
                     <th className="text-left p-2">Actions</th>
                   </tr>
@@ -372,6 +414,16 @@ export default function Observability() {
                         )}
                       </td>
                       <td className="p-2">{d.timeout ?? ""}</td>
+                      <td className="p-2 whitespace-nowrap">
+                        {typeof d.uptime === "number"
+                          ? `${(d.uptime * 100).toFixed(1)}%`
+                          : "-"}
+                        {d.flapping && (
+                          <Badge variant="destructive" className="ml-2">
+                            flapping
+                          </Badge>
+                        )}
+                      </td>
                       <td className="p-2">
                         <div className="flex items-center gap-2">
                           <code className="text-xs">{d.request_id}</code>
@@ -404,7 +456,7 @@ export default function Observability() {
                   ))}
                   {deps.length === 0 && (
                     <tr>
-                      <td className="p-2 text-muted-foreground" colSpan={7}>
+                      <td className="p-2 text-muted-foreground" colSpan={8}>
                         No dependency data yet
                       </td>
                     </tr>
@@ -435,6 +487,8 @@ export default function Observability() {
                   </div>
                   <div>Timeout: {selectedDep.timeout ?? "-"}</div>
                   <div>Skipped: {String(!!selectedDep.skipped)}</div>
+                  <div>Latency: {selectedDep.latency_ms ?? "-"} ms</div>
+                  <div>State changes: {selectedDep.transitions ?? 0}</div>
                   <div>
                     Request ID: <code>{selectedDep.request_id}</code>
                   </div>
@@ -442,6 +496,22 @@ export default function Observability() {
                 {selectedDep.error && (
                   <div className="mt-2 text-xs">Error: {selectedDep.error}</div>
                 )}
+                {depHistory.length > 0 && (
+                  <div className="mt-3">
+                    <div className="text-xs text-muted-foreground mb-1">
+                      Recent checks (oldest → newest)
+                    </div>
+                    <div className="flex flex-wrap gap-0.5">
+                      {depHistory.map((h, i) => (
+                        <span
+                          key={`${h.checked_at}-${i}`}
+                          title={`${new Date(h.checked_at).toLocaleString()} • ${h.ok ? "ok" : h.error || "error"} • ${h.latency_ms} ms`}
+                          className={`inline-block h-3 w-2 rounded-sm ${h.ok ? "bg-green-500" : "bg-red-500"}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div className="mt-2">
                   <Button
                     size="sm"
@@ -302,12 +302,12 @@ export default function StrategiesSignals() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ weights }),
       });
-      if (!r.ok) {
-        const j = await r.json().catch(() => ({ detail: "Failed" }));
-        throw new Error(j.detail || "Failed");
-      }
-      toast({ title: "Reweighted", description: "Strategy weights updated" });
-      await loadRegistry();
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j.message || j.detail || "Failed");
+      toast({
+        title: "Reweight proposed",
+        description: `Proposal ${j?.data?.proposal?.id} awaits founder approval`,
+      });
     } catch (e: any) {
       toast({
         title: "Error",
@@ -421,12 +421,12 @@ export default function StrategiesSignals() {
         body: JSON.stringify({ weights: next }),
       });
       const j = await r.json().catch(() => ({}));
-      if (!r.ok) throw new Error(j?.detail || "Failed to apply weights");
+      if (!r.ok)
+        throw new Error(j?.message || j?.detail || "Failed to propose weights");
       toast({
-        title: "Weights applied",
-        description: "Strategy allocations updated",
+        title: "Reweight proposed",
+        description: `Proposal ${j?.data?.proposal?.id} awaits founder approval`,
       });
-      await loadRegistry();
     } catch (e: any) {
       toast({
         title: "Error",
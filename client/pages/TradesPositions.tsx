@@ -44,7 +44,7 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
-import apiFetch, { getWsUrl } from "@/lib/apiClient";
+import apiFetch, { getWsProtocols, getWsUrl } from "@/lib/apiClient";
 import copy from "@/lib/clipboard";
 import {
   CandlestickChart,
@@ -96,6 +96,42 @@ interface Trade {
   trade_id: string;
 }
 
+// Trade events from the live feed use the events API shape
+interface TradeEvent {
+  id: string;
+  timestamp: string;
+  symbol: string;
+  side: string;
+  size: number;
+  price: number;
+  pnl_usd: number;
+  status: string;
+}
+
+const EVENT_STATUS: Record<string, Trade["status"]> = {
+  filled: "executed",
+  pending: "pending",
+  cancelled: "failed",
+};
+
+function tradeFromEvent(e: TradeEvent): Trade {
+  const pnl = Number(e.pnl_usd) || 0;
+  return {
+    id: e.id,
+    trade_id: e.id,
+    symbol: e.symbol,
+    action: String(e.side).toLowerCase() === "sell" ? "sell" : "buy",
+    amount: Number(e.size) || 0,
+    price: Number(e.price) || 0,
+    fee_cost: 0,
+    slippage_cost: 0,
+    pnl,
+    net_pnl: pnl,
+    timestamp: e.timestamp,
+    status: EVENT_STATUS[e.status] || "pending",
+  };
+}
+
 // Explainability state for trade-level explanation
 interface TradeExplainState {
   loading: boolean;
@@ -478,7 +514,7 @@ export default function TradesPositions() {
         startPolling();
         return;
       }
-      const ws = new WebSocket(url);
+      const ws = new WebSocket(url, getWsProtocols());
       wsRef.current = ws;
       ws.onopen = () => {
         setWsStatus("connected");
@@ -495,19 +531,17 @@ export default function TradesPositions() {
       ws.onmessage = (evt) => {
         try {
           const msg = JSON.parse(evt.data);
-          const trade =
-            msg?.type === "trade" ? (msg.payload as Trade) : (msg as Trade);
-          if (trade && trade.id) {
-            setTrades((prev) => {
-              const mapped = new Map(prev.map((t) => [t.id, t]));
-              mapped.set(trade.id, trade);
-              return Array.from(mapped.values()).sort(
-                (a, b) =>
-                  new Date(b.timestamp).getTime() -
-                  new Date(a.timestamp).getTime(),
-              );
-            });
-          }
+          if (msg?.type !== "trade" || !msg.payload?.id) return;
+          const trade = tradeFromEvent(msg.payload);
+          setTrades((prev) => {
+            const mapped = new Map(prev.map((t) => [t.id, t]));
+            mapped.set(trade.id, trade);
+            return Array.from(mapped.values()).sort(
+              (a, b) =>
+                new Date(b.timestamp).getTime() -
+                new Date(a.timestamp).getTime(),
+            );
+          });
         } catch {}
       };
     } catch {
@@ -931,9 +965,10 @@ export default function TradesPositions() {
                           throw new Error(j.detail || `HTTP ${res.status}`);
                         }
                         const j = await res.json();
-                        setDecision(j);
+                        const d = j.data ?? j;
+                        setDecision(d);
                         setExecSide(
-                          (j.action || j.recommended || "buy") as any,
+                          (d.action || d.recommended || "buy") as any,
                         );
                         setExecSize(size);
                       } catch (e: any) {
@@ -975,6 +1010,37 @@ export default function TradesPositions() {
                         {decision.indicators?.macd}, ATR{" "}
                         {decision.indicators?.atr}
                       </div>
+                      {decision.risk && (
+                        <div className="space-y-1 pt-2 border-t">
+                          <div className="flex items-center gap-2 text-sm">
+                            Pre-trade checks:{" "}
+                            <Badge
+                              variant={
+                                decision.risk.approved
+                                  ? "outline"
+                                  : "destructive"
+                              }
+                            >
+                              {decision.risk.approved ? "PASSED" : "REJECTED"}
+                            </Badge>
+                          </div>
+                          {(decision.risk.rejections || []).map(
+                            (r: { code: string; message: string }) => (
+                              <div
+                                key={r.code}
+                                className="text-xs text-red-600"
+                              >
+                                {r.code}: {r.message}
+                              </div>
+                            ),
+                          )}
+                          {(decision.risk.warnings || []).map((w: string) => (
+                            <div key={w} className="text-xs text-yellow-700">
+                              {w}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                   <div className="pt-4">
@@ -1097,9 +1163,10 @@ export default function TradesPositions() {
                                     "Content-Type": "application/json",
                                   },
                                   body: JSON.stringify({
+                                    decision_id: decision?.decision_id,
                                     symbol: decision?.symbol || symbol,
-                                    action: execSide,
-                                    amount: execSize,
+                                    side: execSide,
+                                    size: execSize,
                                   }),
                                 },
                               );
@@ -1112,10 +1179,11 @@ export default function TradesPositions() {
                                 );
                               }
                               const j = await res.json();
+                              const exec = j.data ?? j;
                               toast({
                                 title: "Order accepted",
-                                description: j.id
-                                  ? `Execution ${j.id}`
+                                description: exec.execution_id
+                                  ? `Execution ${exec.execution_id}`
                                   : "Execution submitted",
                               });
                               fetchTrades(1);
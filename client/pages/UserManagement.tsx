@@ -95,7 +95,6 @@ export default function UserManagement() {
   const [inviteForm, setInviteForm] = useState({
     email: "",
     role: "user" as "user" | "admin",
-    founderApprovals: [] as string[],
     expiryDays: 7,
   });
   const [isInviting, setIsInviting] = useState(false);
@@ -215,14 +214,10 @@ export default function UserManagement() {
   // Invite User
   const handleInviteSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const requiredApprovals = inviteForm.role === "admin" ? 5 : 3;
-    if (
-      !inviteForm.email ||
-      inviteForm.founderApprovals.length < requiredApprovals
-    ) {
+    if (!inviteForm.email) {
       toast({
         title: "Validation Error",
-        description: `Email is required and ${requiredApprovals} founder approvals needed for ${inviteForm.role} role.`,
+        description: "Email is required.",
         variant: "destructive",
       });
       return;
@@ -266,15 +261,14 @@ export default function UserManagement() {
         throw new Error(data.error || "Failed to send invitation");
 
       toast({
-        title: "Invitation Sent",
-        description: data?.data?.id
-          ? `Invite ID: ${data.data.id}`
-          : `Invitation sent to ${inviteForm.email}.`,
+        title: "Invitation Proposed",
+        description: data?.data?.proposal?.id
+          ? `Proposal ${data.data.proposal.id} needs ${data.data.proposal.requiredVotes} founder votes on the Governance page.`
+          : `Invitation to ${inviteForm.email} awaits founder votes.`,
       });
       setInviteForm({
         email: "",
         role: "user",
-        founderApprovals: [],
         expiryDays: 7,
       });
       setOffset(0);
@@ -293,15 +287,6 @@ export default function UserManagement() {
     }
   };
 
-  const handleFounderToggle = (founderId: string) => {
-    setInviteForm((prev) => ({
-      ...prev,
-      founderApprovals: prev.founderApprovals.includes(founderId)
-        ? prev.founderApprovals.filter((id) => id !== founderId)
-        : [...prev.founderApprovals, founderId],
-    }));
-  };
-
   // Approvals
   const handleApproveSelected = async () => {
     if (!selectedUser) return;
@@ -637,7 +622,7 @@ export default function UserManagement() {
                 <UserPlus className="h-5 w-5" />
                 <span className="inline-flex items-center gap-2">
                   Invite New User{" "}
-                  <HelpTip content="Send invites that require founder approvals. Admin invites require all 5 founders." />
+                  <HelpTip content="Invites are voted on by founders through governance before they are sent." />
                 </span>
               </CardTitle>
               <CardDescription>
@@ -719,81 +704,28 @@ export default function UserManagement() {
                   </div>
                 </div>
 
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <Label className="inline-flex items-center gap-2">
-                      Founder Approvals ({inviteForm.founderApprovals.length}/5
-                      selected){" "}
-                      <HelpTip content="Select founders to authorize this invite. Admins require all 5; users require at least 3." />
-                    </Label>
-                    <Badge
-                      variant={
-                        inviteForm.founderApprovals.length >= 3
-                          ? "default"
-                          : "destructive"
-                      }
-                    >
-                      {inviteForm.founderApprovals.length >= 3
-                        ? "Valid Quorum"
-                        : "Need 3 minimum"}
-                    </Badge>
-                  </div>
-                  {inviteForm.role === "admin" &&
-                    (inviteForm.founderApprovals.length < 5 ||
-                      adminCapReached) && (
-                      <Alert>
-                        <AlertTriangle className="h-4 w-4" />
-                        <AlertDescription>
-                          {adminCapReached
-                            ? "Admin cap reached (3). Adjust roles before adding another admin."
-                            : `Admin role requires all 5 founder approvals. Currently selected: ${inviteForm.founderApprovals.length}/5`}
-                        </AlertDescription>
-                      </Alert>
-                    )}
-                  <div className="grid gap-3 md:grid-cols-2">
-                    {founders.map((founder) => (
-                      <div
-                        key={founder.id}
-                        className="flex items-center space-x-3 p-3 border rounded-lg"
-                      >
-                        <input
-                          type="checkbox"
-                          id={founder.id}
-                          checked={inviteForm.founderApprovals.includes(
-                            founder.id,
-                          )}
-                          onChange={() => handleFounderToggle(founder.id)}
-                          className="rounded border-gray-300"
-                        />
-                        <Label
-                          htmlFor={founder.id}
-                          className="flex-1 cursor-pointer"
-                        >
-                          {founder.name || founder.email}
-                        </Label>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {inviteForm.role === "admin" && adminCapReached
+                      ? "Admin cap reached (3). Adjust roles before adding another admin."
+                      : "Submitting opens a governance proposal; the invitation is sent once founders approve it on the Governance page."}
+                  </AlertDescription>
+                </Alert>
 
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={
-                    isInviting ||
-                    !inviteForm.email ||
-                    inviteForm.founderApprovals.length <
-                      (inviteForm.role === "admin" ? 5 : 3)
-                  }
+                  disabled={isInviting || !inviteForm.email}
                 >
                   {isInviting ? (
                     <>
-                      <Clock className="h-4 w-4 mr-2 animate-spin" /> Sending
+                      <Clock className="h-4 w-4 mr-2 animate-spin" /> Proposing
                       Invitation...
                     </>
                   ) : (
                     <>
-                      <Mail className="h-4 w-4 mr-2" /> Send Invitation
+                      <Mail className="h-4 w-4 mr-2" /> Propose Invitation
                     </>
                   )}
                 </Button>
@@ -81,10 +81,49 @@ interface HedgeRecord {
   amount: number;
   timestamp: string;
   type: "profit_hedge" | "manual_hedge" | "auto_hedge";
+  symbol?: string;
   triggerPrice: number;
   status: "active" | "closed" | "expired";
   pnl: number;
   fees: number;
+  closePrice?: number;
+  closedAt?: string;
+}
+
+interface HedgeAdjustmentLog {
+  id: string;
+  timestamp: string;
+  action: "open" | "trim" | "close";
+  source: "auto" | "manual";
+  amount: number;
+  target: number | null;
+  current: number | null;
+  price: number;
+  pnl: number;
+  reason: string;
+  hedgeIds: string[];
+}
+
+interface HedgeEffectiveness {
+  exposure: number;
+  percent: number;
+  target: number;
+  hedged: number;
+  hedgeRatio: number;
+  coverage: number;
+  realized: {
+    count: number;
+    pnl: number;
+    fees: number;
+    net: number;
+    wins: number;
+    hitRate: number | null;
+  };
+  unrealized: { count: number; pnl: number };
+  dollarOffset: number | null;
+  autoAdjust: boolean;
+  lastAutoAdjustment: HedgeAdjustmentLog | null;
+  config: { cooldownMs: number; minTradeUsd: number; bandPct: number };
 }
 
 interface Balance {
@@ -182,6 +221,10 @@ export default function WalletHedge() {
   const [withdrawable, setWithdrawable] =
     useState<WithdrawableCalculation | null>(null);
   const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [adjustments, setAdjustments] = useState<HedgeAdjustmentLog[]>([]);
+  const [effectiveness, setEffectiveness] = useState<HedgeEffectiveness | null>(
+    null,
+  );
   const [hedgeSettings, setHedgeSettings] = useState<HedgeSettings | null>(
     null,
   );
@@ -229,6 +272,7 @@ export default function WalletHedge() {
     profile: true,
     overrides: false,
     tradeDiag: false,
+    autoHedge: false,
   });
 
   // Error states
@@ -364,6 +408,66 @@ export default function WalletHedge() {
     [itemsPerPage],
   );
 
+  // Auto-hedge engine: adjustment history and effectiveness report
+  const fetchAutoHedge = useCallback(async () => {
+    try {
+      const [h, e] = await Promise.all([
+        apiFetch("/api/hedge/history?limit=20"),
+        apiFetch("/api/hedge/effectiveness"),
+      ]);
+      const hj = await h.json().catch(() => null as any);
+      const ej = await e.json().catch(() => null as any);
+      if (h.ok && hj?.data) setAdjustments(hj.data.items || []);
+      if (e.ok && ej?.data) setEffectiveness(ej.data);
+    } catch (error) {
+      setErrors((prev) => ({
+        ...prev,
+        autoHedge:
+          error instanceof Error ? error.message : "Failed to load auto-hedge",
+      }));
+    }
+  }, []);
+
+  const runAutoHedge = useCallback(
+    async (dryRun: boolean) => {
+      setLoading((prev) => ({ ...prev, autoHedge: true }));
+      try {
+        const response = await apiFetch("/api/hedge/auto/run", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dryRun }),
+        });
+        const data = await response.json().catch(() => null as any);
+        if (!response.ok || data?.status !== "success") {
+          throw new Error(data?.message || `HTTP ${response.status}`);
+        }
+        const plan = data.data;
+        toast({
+          title:
+            plan.action === "hold"
+              ? "No adjustment needed"
+              : `${dryRun ? "Would " : ""}${plan.action} ${formatUSDT(plan.amount)}`,
+          description: plan.reason,
+        });
+        if (!dryRun) {
+          fetchHedgeHistory(currentPage);
+          fetchWithdrawableFunds();
+        }
+        fetchAutoHedge();
+      } catch (error) {
+        toast({
+          title: "Auto-Hedge Failed",
+          description:
+            error instanceof Error ? error.message : "Auto-hedge run failed",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading((prev) => ({ ...prev, autoHedge: false }));
+      }
+    },
+    [currentPage, fetchAutoHedge],
+  );
+
   // 2. Fetch wallet balances
   const fetchWalletBalances = useCallback(async () => {
     setLoading((prev) => ({ ...prev, balances: true }));
@@ -625,6 +729,7 @@ export default function WalletHedge() {
     fetchWithdrawableFunds();
     fetchHedgeSettings();
     fetchLiveSnapshot();
+    fetchAutoHedge();
     (async () => {
       try {
         const r = await apiFetch("/api/wallet/api-keys/status");
@@ -666,6 +771,7 @@ export default function WalletHedge() {
     fetchWithdrawableFunds,
     fetchHedgeSettings,
     fetchLiveSnapshot,
+    fetchAutoHedge,
   ]);
 
   // Refresh data when page changes
@@ -679,6 +785,7 @@ export default function WalletHedge() {
     fetchWalletBalances();
     fetchWithdrawableFunds();
     fetchHedgeSettings();
+    fetchAutoHedge();
     (async () => {
       try {
         const r = await apiFetch("/api/wallet/api-keys/status");
@@ -1517,6 +1624,166 @@ export default function WalletHedge() {
         </CardContent>
       </Card>
 
+      {/* Auto-Hedge Engine */}
+      <Card>
+        <CardHeader className="flex items-start justify-between">
+          <div>
+            <CardTitle>Auto-Hedge Engine</CardTitle>
+            <CardDescription>
+              Keeps hedged value at the effective hedge percent of your crypto
+              exposure
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <HelpTip content="The engine runs every minute. It opens an auto hedge when coverage falls below target and trims auto hedges when above, outside a tolerance band and with a cooldown between adjustments. Manual and profit hedges are never trimmed." />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runAutoHedge(true)}
+              disabled={loading.autoHedge}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => runAutoHedge(false)}
+              disabled={loading.autoHedge}
+            >
+              {loading.autoHedge ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Shield className="h-4 w-4 mr-2" />
+              )}
+              Run Now
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {errors.autoHedge && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{errors.autoHedge}</AlertDescription>
+            </Alert>
+          )}
+          {effectiveness && (
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground">Coverage</div>
+                <div className="text-lg font-semibold">
+                  {(effectiveness.coverage * 100).toFixed(1)}%
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatUSDT(effectiveness.hedged)} of{" "}
+                  {formatUSDT(effectiveness.target)} target (
+                  {(effectiveness.percent * 100).toFixed(1)}% of exposure)
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground">
+                  Realized Hedge P&L
+                </div>
+                <div
+                  className={`text-lg font-semibold ${effectiveness.realized.net >= 0 ? "text-accent" : "text-destructive"}`}
+                >
+                  {formatCurrency(effectiveness.realized.net)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {effectiveness.realized.count} closed
+                  {effectiveness.realized.hitRate !== null
+                    ? ` • ${(effectiveness.realized.hitRate * 100).toFixed(0)}% profitable`
+                    : ""}{" "}
+                  • fees {formatCurrency(effectiveness.realized.fees)}
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground">
+                  Unrealized Hedge P&L
+                </div>
+                <div
+                  className={`text-lg font-semibold ${effectiveness.unrealized.pnl >= 0 ? "text-accent" : "text-destructive"}`}
+                >
+                  {formatCurrency(effectiveness.unrealized.pnl)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {effectiveness.unrealized.count} active
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground inline-flex items-center gap-1">
+                  Dollar Offset{" "}
+                  <HelpTip content="Realized hedge P&L net of fees over the move it offset on the hedged notional. 100% is a perfect offset." />
+                </div>
+                <div className="text-lg font-semibold">
+                  {effectiveness.dollarOffset === null
+                    ? "N/A"
+                    : `${(effectiveness.dollarOffset * 100).toFixed(1)}%`}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Band {(effectiveness.config.bandPct * 100).toFixed(0)}% • min{" "}
+                  {formatUSDT(effectiveness.config.minTradeUsd)} • cooldown{" "}
+                  {Math.round(effectiveness.config.cooldownMs / 60000)}m
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-sm font-medium mb-2">Hedge History</div>
+            {adjustments.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                No hedge adjustments yet.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Realized P&L</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adjustments.map((a) => (
+                    <TableRow key={a.id}>
+                      <TableCell className="text-xs">
+                        {new Date(a.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            a.source === "auto" ? "secondary" : "outline"
+                          }
+                        >
+                          {a.source} {a.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUSDT(a.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {a.price ? a.price.toFixed(2) : "–"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${a.pnl > 0 ? "text-accent" : a.pnl < 0 ? "text-destructive" : ""}`}
+                      >
+                        {a.action === "open" ? "–" : formatCurrency(a.pnl)}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {a.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* 6. Exchange API Status (managed in Profile) */}
       <Card>
         <CardHeader className="flex items-start justify-between">
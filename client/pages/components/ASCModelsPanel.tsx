@@ -27,7 +27,6 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import apiFetch from "@/lib/apiClient";
-import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "@/hooks/use-toast";
 import {
   RefreshCw,
@@ -64,7 +63,16 @@ interface ProposalVote {
 interface ProposalItem {
   id: string;
   description: string;
-  status: "pending" | "voting" | "approved" | "rejected" | "deployed";
+  status:
+    | "pending"
+    | "voting"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "deployed"
+    | "failed";
+  /** Model id the model_rollout proposal targets */
+  subject?: string;
   votes: ProposalVote[];
   requiredVotes: number;
   createdAt: string;
@@ -79,13 +87,7 @@ function formatPct(v?: number) {
   return `${pct.toFixed(2)}%`;
 }
 
-const MODEL_PROPOSAL_PREFIX = "MODEL-DEPLOY-";
-function modelProposalId(modelId: string) {
-  return `${MODEL_PROPOSAL_PREFIX}${modelId}`;
-}
-
 export default function ASCModelsPanel() {
-  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [models, setModels] = useState<ModelItem[]>([]);
   const [proposals, setProposals] = useState<ProposalItem[]>([]);
@@ -158,17 +160,20 @@ export default function ASCModelsPanel() {
   };
   const fetchProposals = async () => {
     try {
-      const res = await apiFetch(`/api/v1/governance/proposals`);
+      const res = await apiFetch(
+        `/api/v1/governance/proposals?kind=model_rollout`,
+      );
       const j = await res.json().catch(() => ({}));
-      const items: any[] = Array.isArray(j?.items)
-        ? j.items
-        : Array.isArray(j?.data?.items)
-          ? j.data.items
+      const items: any[] = Array.isArray(j?.data)
+        ? j.data
+        : Array.isArray(j?.items)
+          ? j.items
           : [];
       const mapped: ProposalItem[] = items.map((p: any) => ({
         id: p.id,
         description: p.description || p.summary || "",
         status: (p.status || "pending").toLowerCase(),
+        subject: p.subject,
         votes: Array.isArray(p.votes)
           ? p.votes.map((v: any) => ({
               founderId: v.founderId || v.user || "",
@@ -176,7 +181,7 @@ export default function ASCModelsPanel() {
               votedAt: v.votedAt || v.timestamp || "",
             }))
           : [],
-        requiredVotes: Number(p.requiredVotes || p.quorum || 3),
+        requiredVotes: Number(p.requiredVotes || p.quorum || 2),
         createdAt: p.createdAt || p.timestamp || "",
         createdBy: p.createdBy || p.author || "",
       }));
@@ -186,32 +191,31 @@ export default function ASCModelsPanel() {
     }
   };
 
+  // Promotion requests open a model_rollout proposal (202) that founders vote on
   const ensureProposalExists = async (model: ModelItem) => {
-    const pid = modelProposalId(model.modelId);
-    const exists = proposals.some((p) => p.id === pid);
-    if (exists) return pid;
-    const resp = await apiFetch(`/api/v1/governance/proposals`, {
+    const open = getProposalForModel(model);
+    if (open && ["pending", "voting", "approved"].includes(open.status))
+      return open.id;
+    const resp = await apiFetch(`/api/v1/models/promote`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        id: pid,
-        description: `Deploy model ${model.name} (${model.modelId})`,
-      }),
+      body: JSON.stringify({ modelId: model.modelId }),
     });
     const j = await resp.json().catch(() => ({}));
-    if (!resp.ok) throw new Error(j.error || "Failed to create proposal");
+    if (resp.status !== 202)
+      throw new Error(j.message || j.error || "Failed to create proposal");
     await fetchProposals();
-    return pid;
+    return j.data.proposal.id as string;
   };
 
+  // Recorded for the signed-in founder; one vote each
   const castVote = async (proposalId: string, approve: boolean) => {
-    const founderId = user?.email || user?.id || "admin";
     const resp = await apiFetch(
-      `/api/v1/governance/votes/${encodeURIComponent(proposalId)}`,
+      `/api/v1/governance/proposals/${encodeURIComponent(proposalId)}/vote`,
       {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ founderId, approve }),
+        body: JSON.stringify({ choice: approve ? "approve" : "reject" }),
       },
     );
     const j = await resp.json().catch(() => ({}));
@@ -260,17 +264,25 @@ export default function ASCModelsPanel() {
     }
   };
 
+  // Approved proposals normally execute on the deciding vote; this runs one
+  // that was held back (e.g. a failed precheck) or opens a new proposal
   const onPromoteIfApproved = async (model: ModelItem) => {
     try {
       setLoading(true);
-      const pid = modelProposalId(model.modelId);
-      const prop = proposals.find((p) => p.id === pid);
-      const approvals = prop ? prop.votes.filter((v) => v.approve).length : 0;
-      const need = prop?.requiredVotes ?? 3;
-      if (approvals < need) {
+      const prop = getProposalForModel(model);
+      if (!prop || !["pending", "voting", "approved"].includes(prop.status)) {
+        const pid = await ensureProposalExists(model);
+        toast({
+          title: "Proposal opened",
+          description: `Promotion of ${model.name} awaits founder votes (${pid}).`,
+        });
+        return;
+      }
+      if (prop.status !== "approved") {
+        const approvals = prop.votes.filter((v) => v.approve).length;
         toast({
           title: "Quorum not met",
-          description: `${approvals} of ${need} approvals.`,
+          description: `${approvals} of ${prop.requiredVotes} approvals.`,
           variant: "destructive",
         });
         return;
@@ -278,12 +290,12 @@ export default function ASCModelsPanel() {
       const r = await apiFetch(`/api/v1/models/promote`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ modelId: model.modelId, founderApproval: true }),
+        body: JSON.stringify({ modelId: model.modelId, proposalId: prop.id }),
       });
       const j = await r.json();
       if (!r.ok || j.status !== "success")
-        throw new Error(j.error || "Promote failed");
-      await fetchModels();
+        throw new Error(j.message || j.error || "Promote failed");
+      await Promise.all([fetchModels(), fetchProposals()]);
       toast({
         title: "Model promoted",
         description: `${model.name} is now production.`,
@@ -340,7 +352,7 @@ export default function ASCModelsPanel() {
   };
 
   const getProposalForModel = (m: ModelItem) =>
-    proposals.find((p) => p.id === modelProposalId(m.modelId));
+    proposals.filter((p) => p.subject === m.modelId).pop();
   const getProgressPct = (p?: ProposalItem) => {
     if (!p) return 0;
     const approvals = p.votes.filter((v) => v.approve).length;
@@ -399,7 +411,7 @@ export default function ASCModelsPanel() {
                   const approvals = p
                     ? p.votes.filter((v) => v.approve).length
                     : 0;
-                  const need = p?.requiredVotes ?? 3;
+                  const need = p?.requiredVotes ?? 2;
                   return (
                     <div
                       key={m.modelId}
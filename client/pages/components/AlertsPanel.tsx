@@ -10,7 +10,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { getBaseUrl, apiFetch } from "@/lib/apiClient";
+import { apiFetch } from "@/lib/apiClient";
+import { readEventStream } from "@/lib/sse";
 
 interface AlertItem {
   id: string;
@@ -51,7 +52,6 @@ function rowClass(sev: AlertItem["severity"]) {
 export default function AlertsPanel() {
   const [items, setItems] = useState<AlertItem[]>([]);
   const [live, setLive] = useState(false);
-  const esRef = useRef<EventSource | null>(null);
   const lastTsRef = useRef<string | null>(null);
   const stopRef = useRef(false);
   const [severity, setSeverity] = useState<
@@ -59,62 +59,44 @@ export default function AlertsPanel() {
   >("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
 
+  // Streamed with fetch rather than EventSource so the request carries the
+  // Authorization header; polling takes over when the stream drops
   useEffect(() => {
-    const base = getBaseUrl();
-    const url = `${base}/api/v1/events/alerts/stream`;
-    try {
-      const es = new EventSource(url);
-      esRef.current = es;
-      setLive(true);
-      es.addEventListener("init", (ev: MessageEvent) => {
-        try {
-          const data = JSON.parse(ev.data || "[]") as AlertItem[];
-          setItems((prev) => {
-            const merged = [...data, ...prev];
-            merged.sort(
-              (a, b) =>
-                new Date(b.timestamp).getTime() -
-                new Date(a.timestamp).getTime(),
-            );
-            return merged.slice(0, 200);
-          });
-          if (data[0]?.timestamp) lastTsRef.current = data[0].timestamp;
-        } catch {}
-      });
-      es.addEventListener("alert", (ev: MessageEvent) => {
-        try {
-          const data = JSON.parse(ev.data || "{}") as AlertItem;
-          setItems((prev) => {
-            const merged = [data, ...prev];
-            merged.sort(
-              (a, b) =>
-                new Date(b.timestamp).getTime() -
-                new Date(a.timestamp).getTime(),
-            );
-            return merged.slice(0, 200);
-          });
-          lastTsRef.current = data.timestamp;
-        } catch {}
+    const controller = new AbortController();
+    const merge = (incoming: AlertItem[]) => {
+      setItems((prev) => {
+        const merged = [...incoming, ...prev];
+        merged.sort(
+          (a, b) =>
+            new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+        );
+        return merged.slice(0, 200);
       });
-      es.onerror = () => {
-        setLive(false);
-        try {
-          es.close();
-        } catch {}
-        esRef.current = null;
-      };
-    } catch {
-      setLive(false);
-    }
+    };
+    (async () => {
+      try {
+        const res = await apiFetch("/api/v1/events/alerts/stream", {
+          headers: { Accept: "text/event-stream" },
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        setLive(true);
+        await readEventStream(res, (event, data) => {
+          if (event === "init" && Array.isArray(data)) {
+            merge(data as AlertItem[]);
+            if (data[0]?.timestamp) lastTsRef.current = data[0].timestamp;
+          } else if (event === "alert" && data?.id) {
+            merge([data as AlertItem]);
+            lastTsRef.current = data.timestamp;
+          }
+        });
+      } catch {}
+      if (!controller.signal.aborted) setLive(false);
+    })();
 
     return () => {
       stopRef.current = true;
-      if (esRef.current) {
-        try {
-          esRef.current.close();
-        } catch {}
-        esRef.current = null;
-      }
+      controller.abort();
     };
   }, []);
 
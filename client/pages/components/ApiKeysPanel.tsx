@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import HelpTip from "@/components/ui/help-tip";
+import apiFetch, { type ApiKeyScope } from "@/lib/apiClient";
+import { copy } from "@/lib/clipboard";
+import { toast } from "@/hooks/use-toast";
+import {
+  Copy,
+  KeyRound,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+
+const SCOPES: ApiKeyScope[] = ["models", "system", "governance", "automation"];
+
+interface ApiKeyView {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  createdBy: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  useCount: number;
+  status: "active" | "revoked" | "expired";
+}
+
+function fmt(ts?: string) {
+  return ts ? new Date(ts).toLocaleString() : "—";
+}
+
+// Stores a freshly issued key as this browser's key for each of its scopes
+function saveKeyLocally(key: string, scopes: ApiKeyScope[]) {
+  let current: Record<string, string> = {};
+  try {
+    current = JSON.parse(localStorage.getItem("aether-api-keys") || "{}");
+  } catch {}
+  for (const s of scopes) current[s] = key;
+  localStorage.setItem("aether-api-keys", JSON.stringify(current));
+}
+
+export default function ApiKeysPanel() {
+  const [keys, setKeys] = useState<ApiKeyView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["models"]);
+  const [expiresInDays, setExpiresInDays] = useState<string>("90");
+  const [issued, setIssued] = useState<{
+    key: string;
+    scopes: ApiKeyScope[];
+  } | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const r = await apiFetch("/api/admin/api-keys");
+      const j = await r.json();
+      if (r.ok) setKeys(j.data || []);
+      else throw new Error(j.message || j.detail || "Failed to load keys");
+    } catch (e: any) {
+      toast({
+        title: "API keys",
+        description: e.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const create = async () => {
+    try {
+      const body: any = { name, scopes };
+      if (expiresInDays.trim()) body.expiresInDays = Number(expiresInDays);
+      const r = await apiFetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.message || "Failed to create key");
+      setIssued({ key: j.data.key, scopes: j.data.scopes });
+      setName("");
+      load();
+    } catch (e: any) {
+      toast({
+        title: "Create key",
+        description: e.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rotate = async (k: ApiKeyView) => {
+    try {
+      const r = await apiFetch(`/api/admin/api-keys/${k.id}/rotate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.message || "Failed to rotate key");
+      setIssued({ key: j.data.key, scopes: j.data.scopes });
+      load();
+    } catch (e: any) {
+      toast({
+        title: "Rotate key",
+        description: e.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revoke = async (k: ApiKeyView) => {
+    if (!confirm(`Revoke API key ${k.prefix} (${k.name})?`)) return;
+    try {
+      const r = await apiFetch(`/api/admin/api-keys/${k.id}`, {
+        method: "DELETE",
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.message || "Failed to revoke key");
+      toast({ title: "Key revoked", description: k.prefix });
+      load();
+    } catch (e: any) {
+      toast({
+        title: "Revoke key",
+        description: e.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleScope = (s: ApiKeyScope, on: boolean) =>
+    setScopes((prev) => (on ? [...prev, s] : prev.filter((x) => x !== s)));
+
+  return (
+    <Card>
+      <CardHeader className="flex items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>API Keys</span>
+          </CardTitle>
+          <CardDescription>
+            Scoped keys for models, system, governance and automation endpoints.
+            Keys are stored hashed; every use is audited.
+          </CardDescription>
+        </div>
+        <HelpTip content="A key is shown once when created or rotated. Use it locally to send it as X-API-Key for its scopes from this browser." />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-4 items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. training-pipeline"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="api-key-expiry">Expires in (days)</Label>
+            <Input
+              id="api-key-expiry"
+              type="number"
+              min={1}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              placeholder="never"
+            />
+          </div>
+          <Button
+            onClick={create}
+            disabled={!name.trim() || scopes.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Key
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {SCOPES.map((s) => (
+            <label key={s} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={scopes.includes(s)}
+                onCheckedChange={(v) => toggleScope(s, v === true)}
+              />
+              {s}
+            </label>
+          ))}
+        </div>
+
+        {issued && (
+          <div className="p-3 border rounded-md space-y-2 bg-muted/40">
+            <div className="text-sm font-medium">
+              Copy this key now; it will not be shown again.
+            </div>
+            <code className="block text-xs break-all">{issued.key}</code>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => copy(issued.key)}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  saveKeyLocally(issued.key, issued.scopes);
+                  toast({
+                    title: "Key saved",
+                    description: `Used for ${issued.scopes.join(", ")} requests from this browser`,
+                  });
+                }}
+              >
+                Use in this browser
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setIssued(null)}>
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead className="text-right">Uses</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center text-muted-foreground"
+                >
+                  No API keys
+                </TableCell>
+              </TableRow>
+            )}
+            {keys.map((k) => (
+              <TableRow key={k.id}>
+                <TableCell>
+                  <div className="font-medium">{k.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono">
+                    {k.prefix}…
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {k.scopes.map((s) => (
+                      <Badge key={s} variant="outline">
+                        {s}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={k.status === "active" ? "default" : "secondary"}
+                  >
+                    {k.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-xs">{fmt(k.expiresAt)}</TableCell>
+                <TableCell className="text-xs">{fmt(k.lastUsedAt)}</TableCell>
+                <TableCell className="text-right">{k.useCount}</TableCell>
+                <TableCell className="text-right space-x-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rotate(k)}
+                    disabled={k.status === "revoked"}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => revoke(k)}
+                    disabled={k.status === "revoked"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,7 +18,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import HelpTip from "@/components/ui/help-tip";
-import apiFetch, { getJson } from "@/lib/apiClient";
+import apiFetch, { getJson, getWsProtocols, getWsUrl } from "@/lib/apiClient";
 import { RefreshCw, AlertTriangle, Shield, Filter } from "lucide-react";
 
 interface ComplianceLog {
@@ -88,10 +88,10 @@ export default function ComplianceAuditTab() {
     }
   };
 
-  // Stream audit activity from events with SSE, fallback to polling
+  // Stream audit activity from the events feed sockets, fallback to polling
   useEffect(() => {
-    let es1: EventSource | null = null;
-    let es2: EventSource | null = null;
+    let es1: WebSocket | null = null;
+    let es2: WebSocket | null = null;
     let pollTimer: any;
     const normalize = (e: any): AuditLog | null => {
       const d = e?.data || e || {};
@@ -100,7 +100,7 @@ export default function ComplianceAuditTab() {
       const actor = String(d.user || d.actor || d.account || "-");
       const action = String(d.action || d.type || "event");
       const details = d.symbol
-        ? `${d.symbol} ${d.side || ""} ${d.qty || d.amount || ""}`.trim()
+        ? `${d.symbol} ${d.side || ""} ${d.qty || d.amount || d.size || ""}`.trim()
         : d.details || "";
       const success = d.success !== false;
       return { id, timestamp: ts, action, actor, details, success };
@@ -110,23 +110,30 @@ export default function ComplianceAuditTab() {
       if (!n) return;
       setAudit((prev) => [n, ...prev].slice(0, 200));
     };
-    try {
-      es1 = new EventSource("/api/v1/events/trades");
-      es1.onmessage = (ev) => {
+    // Feed envelopes are { type: "trade" | "balance", payload }; other
+    // message types (subscribed, heartbeat, ...) are control messages
+    const open = (path: string) => {
+      const ws = new WebSocket(getWsUrl(path), getWsProtocols());
+      ws.onmessage = (ev) => {
         try {
-          add(JSON.parse(ev.data || "{}"));
+          const msg = JSON.parse(ev.data || "{}");
+          if (msg?.type === "trade" || msg?.type === "balance")
+            add({ ...msg.payload, type: msg.type });
         } catch {}
       };
+      ws.onclose = () => {
+        if (es1 === ws) es1 = null;
+        if (es2 === ws) es2 = null;
+      };
+      return ws;
+    };
+    try {
+      es1 = open("/api/v1/events/trades");
     } catch {}
     try {
-      es2 = new EventSource("/api/v1/events/balances");
-      es2.onmessage = (ev) => {
-        try {
-          add(JSON.parse(ev.data || "{}"));
-        } catch {}
-      };
+      es2 = open("/api/v1/events/balances");
     } catch {}
-    // Polling fallback if SSE fails to connect
+    // Polling fallback if the sockets fail to connect
     pollTimer = setInterval(async () => {
       if (!es1 && !es2) {
         try {
@@ -52,15 +52,40 @@ function parseCsv(
   return rows;
 }
 
+type Method = "TWAP" | "VWAP" | "MARKET" | "POV" | "IS" | "ICEBERG";
+// Either a price row or a depth snapshot ({ t, bids, asks, volume })
+type BookRow = {
+  t: string;
+  price?: number;
+  volume: number;
+  bids?: any[];
+  asks?: any[];
+};
+
+const COST_LABELS: Array<[string, string]> = [
+  ["spread", "Spread"],
+  ["depth", "Depth"],
+  ["temporaryImpact", "Temp impact"],
+  ["permanentImpact", "Perm impact"],
+  ["marketDrift", "Drift"],
+  ["fees", "Fees"],
+];
+
 export default function ExecutionSimulatorPanel() {
   const fileRef = useRef<HTMLInputElement | null>(null);
-  const [method, setMethod] = useState<"TWAP" | "VWAP" | "MARKET">("TWAP");
+  const [method, setMethod] = useState<Method>("TWAP");
   const [side, setSide] = useState<"buy" | "sell">("buy");
   const [quantity, setQuantity] = useState<string>("100");
   const [slices, setSlices] = useState<string>("10");
-  const [orderBook, setOrderBook] = useState<
-    Array<{ t: string; price: number; volume: number }>
-  >([]);
+  const [povRate, setPovRate] = useState<string>("0.1");
+  const [urgency, setUrgency] = useState<string>("1");
+  const [displayQty, setDisplayQty] = useState<string>("");
+  const [limitPrice, setLimitPrice] = useState<string>("");
+  const [feeBps, setFeeBps] = useState<string>("0");
+  const [impactModel, setImpactModel] = useState<
+    "sqrt" | "almgren_chriss" | "none"
+  >("sqrt");
+  const [orderBook, setOrderBook] = useState<BookRow[]>([]);
   const [result, setResult] = useState<any | null>(null);
   const [running, setRunning] = useState(false);
 
@@ -74,15 +99,21 @@ export default function ExecutionSimulatorPanel() {
       } else {
         data = parseCsv(text);
       }
-      const parsed = data
+      const parsed: BookRow[] = data
         .map((r: any) => ({
           t: String(
             r.t || r.time || r.ts || r.date || new Date().toISOString(),
           ),
           price: Number(r.price || r.p),
           volume: Number(r.volume || r.v || r.size || 1),
+          ...(Array.isArray(r.bids) || Array.isArray(r.asks)
+            ? { bids: r.bids || [], asks: r.asks || [] }
+            : {}),
         }))
-        .filter((r: any) => Number.isFinite(r.price) && r.price > 0)
+        .filter(
+          (r: any) =>
+            r.bids || r.asks || (Number.isFinite(r.price) && r.price > 0),
+        )
         .map((r: any) => ({
           ...r,
           volume: Number.isFinite(r.volume) && r.volume > 0 ? r.volume : 1,
@@ -104,7 +135,9 @@ export default function ExecutionSimulatorPanel() {
     }
   };
 
-  const simulate = async () => {
+  const depthRows = orderBook.filter((r) => r.bids || r.asks).length;
+
+  const simulate = async (compare = false) => {
     if (orderBook.length === 0) {
       toast({
         title: "Missing data",
@@ -120,6 +153,13 @@ export default function ExecutionSimulatorPanel() {
         side,
         quantity: Number(quantity),
         slices: Number(slices),
+        pov_rate: Number(povRate),
+        urgency: Number(urgency),
+        display_qty: displayQty ? Number(displayQty) : undefined,
+        limit_price: limitPrice ? Number(limitPrice) : undefined,
+        fee_bps: Number(feeBps) || 0,
+        impact: { model: impactModel },
+        compare,
         orderBook,
       };
       const r = await apiFetch("/api/v1/execution/simulate", {
@@ -186,7 +226,7 @@ export default function ExecutionSimulatorPanel() {
           <div>
             <div className="flex items-center gap-2">
               <Label>Method</Label>
-              <HelpTip content="TWAP, VWAP, or market order." />
+              <HelpTip content="TWAP/VWAP schedule slices over time; POV follows a share of traded volume; IS front-loads per Almgren-Chriss urgency; Iceberg rests a displayed clip at the touch; Market walks the first book." />
             </div>
             <Select value={method} onValueChange={(v) => setMethod(v as any)}>
               <SelectTrigger>
@@ -195,6 +235,9 @@ export default function ExecutionSimulatorPanel() {
               <SelectContent>
                 <SelectItem value="TWAP">TWAP</SelectItem>
                 <SelectItem value="VWAP">VWAP</SelectItem>
+                <SelectItem value="POV">POV</SelectItem>
+                <SelectItem value="IS">Implementation Shortfall</SelectItem>
+                <SelectItem value="ICEBERG">Iceberg</SelectItem>
                 <SelectItem value="MARKET">Market</SelectItem>
               </SelectContent>
             </Select>
@@ -240,9 +283,105 @@ export default function ExecutionSimulatorPanel() {
           </div>
         </div>
 
+        <div className="grid md:grid-cols-4 gap-3 items-end">
+          {method === "POV" && (
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Participation</Label>
+                <HelpTip content="Share of each interval's traded volume (0.1 = 10%)." />
+              </div>
+              <Input
+                value={povRate}
+                onChange={(e) => setPovRate(e.target.value)}
+                type="number"
+                min="0.001"
+                max="1"
+                step="0.01"
+              />
+            </div>
+          )}
+          {method === "IS" && (
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Urgency</Label>
+                <HelpTip content="Almgren-Chriss kappa·T. 0 trades like TWAP; higher values front-load to cut timing risk." />
+              </div>
+              <Input
+                value={urgency}
+                onChange={(e) => setUrgency(e.target.value)}
+                type="number"
+                min="0"
+                step="0.5"
+              />
+            </div>
+          )}
+          {method === "ICEBERG" && (
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Display qty</Label>
+                <HelpTip content="Visible clip size; defaults to 10% of the order. Each refill joins the back of the queue." />
+              </div>
+              <Input
+                value={displayQty}
+                onChange={(e) => setDisplayQty(e.target.value)}
+                type="number"
+                min="0"
+                step="0.0001"
+                placeholder="auto"
+              />
+            </div>
+          )}
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Limit price</Label>
+              <HelpTip content="Aggressive children never trade through this price; the shortfall rolls into the next slice (partial fills)." />
+            </div>
+            <Input
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+              type="number"
+              min="0"
+              step="0.0001"
+              placeholder="none"
+            />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Impact model</Label>
+              <HelpTip content="Temporary and permanent impact on top of walking the book. Square-root: k·σ·√(Q/V); Almgren-Chriss: linear in participation." />
+            </div>
+            <Select
+              value={impactModel}
+              onValueChange={(v) => setImpactModel(v as any)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sqrt">Square-root</SelectItem>
+                <SelectItem value="almgren_chriss">Almgren-Chriss</SelectItem>
+                <SelectItem value="none">None (book only)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Fee (bps)</Label>
+            </div>
+            <Input
+              value={feeBps}
+              onChange={(e) => setFeeBps(e.target.value)}
+              type="number"
+              min="0"
+              step="0.5"
+            />
+          </div>
+        </div>
+
         <div>
           <div className="flex items-center gap-2">
             <Label>Order book data (CSV/JSON)</Label>
+            <HelpTip content="Price rows (t, price, volume) get a synthetic book; JSON snapshots with bids/asks ([[price, size], ...]) and optional buy_volume/sell_volume use real depth." />
           </div>
           <Input
             ref={fileRef}
@@ -256,17 +395,27 @@ export default function ExecutionSimulatorPanel() {
           {orderBook.length > 0 && (
             <div className="text-xs text-muted-foreground mt-1">
               Loaded {orderBook.length} rows
+              {depthRows > 0
+                ? ` (${depthRows} depth snapshots)`
+                : " (synthetic depth)"}
             </div>
           )}
         </div>
 
         <div className="flex items-center gap-2">
           <Button
-            onClick={simulate}
+            onClick={() => simulate(false)}
             disabled={running || orderBook.length === 0}
           >
             {running ? "Simulating…" : "Run Simulation"}
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => simulate(true)}
+            disabled={running || orderBook.length === 0}
+          >
+            Compare methods
+          </Button>
           {result?.summary && (
             <div className="flex items-center gap-2 flex-wrap">
               <Badge variant="outline">
@@ -284,10 +433,117 @@ export default function ExecutionSimulatorPanel() {
               >
                 Slippage: {Number(result.summary.slippageBps).toFixed(2)} bps
               </Badge>
+              {result.summary.fillRate !== undefined && (
+                <Badge
+                  variant={
+                    result.summary.fillRate < 1 ? "destructive" : "outline"
+                  }
+                >
+                  Filled: {(result.summary.fillRate * 100).toFixed(1)}%
+                </Badge>
+              )}
+              {result.summary.vwapSlippageBps !== undefined && (
+                <Badge variant="outline">
+                  vs VWAP: {Number(result.summary.vwapSlippageBps).toFixed(2)}{" "}
+                  bps
+                </Badge>
+              )}
             </div>
           )}
         </div>
 
+        {result?.summary?.costBreakdown && (
+          <div className="text-xs flex flex-wrap gap-x-4 gap-y-1">
+            {COST_LABELS.map(([key, label]) => (
+              <span key={key}>
+                {label}:{" "}
+                <span className="font-mono">
+                  {Number(result.summary.costBreakdown[key]).toFixed(2)}
+                </span>
+              </span>
+            ))}
+            <span className="font-medium">
+              Total:{" "}
+              <span className="font-mono">
+                {Number(result.summary.costBreakdown.total).toFixed(2)} (
+                {Number(result.summary.costBps).toFixed(2)} bps)
+              </span>
+            </span>
+            <span className="text-muted-foreground">
+              Pre-trade estimate{" "}
+              {Number(result.summary.expectedImpactBps).toFixed(2)} bps ·{" "}
+              {result.summary.childOrders} child orders
+              {result.summary.reposts
+                ? ` · ${result.summary.reposts} reposts`
+                : ""}
+            </span>
+          </div>
+        )}
+
+        {Array.isArray(result?.comparison) && (
+          <div>
+            <div className="font-medium mb-2">Method comparison</div>
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left p-2">Method</th>
+                    <th className="text-left p-2">Filled</th>
+                    <th className="text-left p-2">Avg Px</th>
+                    <th className="text-left p-2">Slippage (bps)</th>
+                    <th className="text-left p-2">vs VWAP (bps)</th>
+                    <th className="text-left p-2">Impact (bps)</th>
+                    <th className="text-left p-2">Children</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.comparison.map((c: any) => {
+                    const best = Math.min(
+                      ...result.comparison
+                        .filter((x: any) => x.fillRate >= 0.999)
+                        .map((x: any) => x.slippageBps),
+                    );
+                    const impact =
+                      c.filledQty > 0 && c.arrivalPrice > 0
+                        ? ((c.costBreakdown.temporaryImpact +
+                            c.costBreakdown.permanentImpact) /
+                            (c.filledQty * c.arrivalPrice)) *
+                          10000
+                        : 0;
+                    return (
+                      <tr
+                        key={c.method}
+                        className={`border-t ${c.method === method ? "bg-muted/50" : ""}`}
+                      >
+                        <td className="p-2">
+                          {c.method}
+                          {c.fillRate >= 0.999 && c.slippageBps === best && (
+                            <Badge className="ml-2" variant="outline">
+                              best
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-2">
+                          {(c.fillRate * 100).toFixed(1)}%
+                        </td>
+                        <td className="p-2">{Number(c.avgPrice).toFixed(4)}</td>
+                        <td className="p-2">
+                          {Number(c.slippageBps).toFixed(2)}
+                        </td>
+                        <td className="p-2">
+                          {Number(c.vwapSlippageBps).toFixed(2)}
+                        </td>
+                        <td className="p-2">{impact.toFixed(2)}</td>
+                        <td className="p-2">{c.childOrders}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {chartData.length > 0 && (
           <div>
             <div className="font-medium mb-1">Cumulative Cost</div>
@@ -364,10 +620,12 @@ export default function ExecutionSimulatorPanel() {
                 <thead>
                   <tr>
                     <th className="text-left p-2">Time</th>
+                    <th className="text-left p-2">Requested</th>
                     <th className="text-left p-2">Qty</th>
                     <th className="text-left p-2">Price</th>
                     <th className="text-left p-2">Cost</th>
                     <th className="text-left p-2">Cum Cost</th>
+                    <th className="text-left p-2">Levels</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -376,10 +634,25 @@ export default function ExecutionSimulatorPanel() {
                       <td className="p-2 whitespace-nowrap">
                         {new Date(r.t).toLocaleTimeString()}
                       </td>
-                      <td className="p-2">{Number(r.qty).toFixed(4)}</td>
+                      <td className="p-2">
+                        {Number(r.requested ?? r.qty).toFixed(4)}
+                      </td>
+                      <td className="p-2">
+                        {Number(r.qty).toFixed(4)}
+                        {r.passive && (
+                          <Badge className="ml-1" variant="outline">
+                            passive
+                          </Badge>
+                        )}
+                      </td>
                       <td className="p-2">{Number(r.price).toFixed(4)}</td>
                       <td className="p-2">{Number(r.cost).toFixed(2)}</td>
                       <td className="p-2">{Number(r.cumCost).toFixed(2)}</td>
+                      <td className="p-2">
+                        {r.queueAhead != null
+                          ? `queue ${Number(r.queueAhead).toFixed(2)}`
+                          : (r.levels ?? "")}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -13,7 +13,6 @@ import { Input } from "@/components/ui/input";
 import HelpTip from "@/components/ui/help-tip";
 import apiFetch, { getJson } from "@/lib/apiClient";
 import { RefreshCw, BarChart3, Rocket } from "lucide-react";
-import { useAuth } from "@/contexts/AuthContext";
 import {
   ResponsiveContainer,
   BarChart as RechartsBarChart,
@@ -42,7 +41,15 @@ interface ProposalVote {
 interface ProposalItem {
   id: string;
   description: string;
-  status: "pending" | "voting" | "approved" | "rejected" | "deployed";
+  status:
+    | "pending"
+    | "voting"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "deployed"
+    | "failed";
+  subject?: string;
   votes: ProposalVote[];
   requiredVotes: number;
   createdAt: string;
@@ -65,12 +72,7 @@ interface Metrics {
   regimes?: Array<{ name: string; return?: number; sharpe?: number }>; // regime-wise perf
 }
 
-const MODEL_PROPOSAL_PREFIX = "MODEL-DEPLOY-";
-const modelProposalId = (modelId: string) =>
-  `${MODEL_PROPOSAL_PREFIX}${modelId}`;
-
 export default function ModelComparisonTab() {
-  const { user } = useAuth();
   const [models, setModels] = useState<ModelItem[]>([]);
   const [selected, setSelected] = useState<Record<string, boolean>>({});
   const [metrics, setMetrics] = useState<Record<string, Metrics>>({});
@@ -82,6 +84,9 @@ export default function ModelComparisonTab() {
     ts: number;
     modelId: string;
     cap: number;
+    rolloutId?: string;
+    stages?: number[];
+    proposalId?: string;
   } | null>(null);
   const [sourceMode, setSourceMode] = useState<"backtest" | "live">("backtest");
   const [backtestMode, setBacktestMode] = useState<"oos" | "ins">("oos");
@@ -112,37 +117,19 @@ export default function ModelComparisonTab() {
   };
   const fetchProposals = async () => {
     try {
-      const r = await apiFetch(`/api/admin/proposals`);
+      const r = await apiFetch(`/api/governance/proposals?kind=model_rollout`);
       const j = await r.json();
       if (j?.status === "success") setProposals(j.data || []);
     } catch {}
   };
 
-  const ensureProposalExists = async (model: ModelItem) => {
-    const pid = modelProposalId(model.modelId);
-    const exists = proposals.some((p) => p.id === pid);
-    if (exists) return pid;
-    const resp = await apiFetch(`/api/admin/proposals/${pid}`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        proposalId: pid,
-        description: `Deploy model ${model.name} (${model.modelId})`,
-      }),
-    });
-    const j = await resp.json().catch(() => ({}));
-    if (!resp.ok || j.status !== "success")
-      throw new Error(j.error || "Failed to create proposal");
-    await fetchProposals();
-    return pid;
-  };
-
+  // Latest model_rollout proposal for the model (proposals list oldest first)
   const quorumFor = (modelId: string) => {
-    const p = proposals.find((pp) => pp.id === modelProposalId(modelId));
+    const p = proposals.filter((pp) => pp.subject === modelId).pop();
     const approvals = p ? p.votes.filter((v) => v.approve).length : 0;
-    const need = p?.requiredVotes ?? 3;
+    const need = p?.requiredVotes ?? 2;
     const pct = Math.min(100, Math.round((approvals / need) * 100));
-    return { approvals, need, pct };
+    return { approvals, need, pct, status: p?.status };
   };
 
   const fetchLineage = async (id: string) => {
@@ -318,48 +305,32 @@ export default function ModelComparisonTab() {
     // Removed backend notification side-effect; UI now surfaces comparison locally only
   }, [selectedIds.join(","), sourceMode, backtestMode]);
 
+  // Opens a model_rollout proposal; the rollout starts once founders approve
   const promoteWithCanary = async (modelId: string) => {
     const m = models.find((mm) => mm.modelId === modelId);
     if (!m) return;
     try {
       setPromotingId(modelId);
-      const pid = await ensureProposalExists(m);
-      const founderId = user?.email || user?.id || "admin";
-      try {
-        await apiFetch(`/api/admin/proposals/${pid}/vote`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ founderId, approve: true }),
-        });
-      } catch {}
-      await fetchProposals();
       const body = {
         modelId,
         mode: "canary",
         cap: Math.max(1, Math.min(100, Math.round(canaryCap))) / 100,
-        founderApproval: true,
       };
-      let r = await apiFetch("/api/models/rollout", {
+      const r = await apiFetch("/api/models/rollout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
       });
-      if (r.status === 404)
-        r = await apiFetch("/api/models/promote", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            modelId,
-            canaryCap: body.cap,
-            founderApproval: true,
-          }),
-        });
       const j = await r.json().catch(() => ({}));
-      if (!r.ok) throw new Error(j.error || j.detail || "Promotion failed");
+      if (!r.ok)
+        throw new Error(j.message || j.error || j.detail || "Promotion failed");
       setAuditBanner({
         ts: Date.now(),
         modelId,
         cap: Math.round(body.cap * 100),
+        rolloutId: j.data?.rolloutId,
+        stages: j.data?.stages,
+        proposalId: r.status === 202 ? j.data?.proposal?.id : undefined,
       });
       await fetchProposals();
     } catch (e) {
@@ -407,10 +378,26 @@ export default function ModelComparisonTab() {
                 <Badge variant="outline" className="mr-2">
                   Audit
                 </Badge>
-                Canary rollout initiated for{" "}
+                Canary rollout{" "}
+                {auditBanner.proposalId ? "proposed" : "initiated"} for{" "}
                 <span className="font-medium">{auditBanner.modelId}</span> with
                 cap <span className="font-semibold">{auditBanner.cap}%</span> at{" "}
                 {new Date(auditBanner.ts).toLocaleString()}.
+                {auditBanner.stages && auditBanner.stages.length > 0 && (
+                  <span className="ml-1 text-muted-foreground">
+                    Stages:{" "}
+                    {auditBanner.stages
+                      .map((t) => `${Math.round(t * 100)}%`)
+                      .join(" → ")}
+                    {auditBanner.rolloutId ? ` (${auditBanner.rolloutId})` : ""}
+                  </span>
+                )}
+                {auditBanner.proposalId && (
+                  <span className="ml-1 text-muted-foreground">
+                    Starts once founders approve proposal{" "}
+                    {auditBanner.proposalId} on the Governance page.
+                  </span>
+                )}
               </div>
               <Badge variant="secondary">canary</Badge>
             </div>
@@ -543,6 +530,7 @@ export default function ModelComparisonTab() {
                           </div>
                           <div className="text-[11px] text-muted-foreground mt-1">
                             Quorum: {q.approvals}/{q.need}
+                            {q.status ? ` · ${q.status}` : ""}
                           </div>
                         </div>
                         <div className="mt-2 flex items-center justify-between">
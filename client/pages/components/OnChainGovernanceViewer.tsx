@@ -19,12 +19,32 @@ import {
   AlertTriangle,
   Vote,
   History,
+  Undo2,
 } from "lucide-react";
 
+interface ChangeDiff {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
 interface Proposal {
   id: string;
+  kind?: string;
   description: string;
-  status: "pending" | "voting" | "approved" | "rejected" | "deployed";
+  status:
+    | "pending"
+    | "voting"
+    | "approved"
+    | "rejected"
+    | "expired"
+    | "deployed"
+    | "failed"
+    | "rolled_back";
+  /** The change as voted; fixed when the proposal was created */
+  diff?: ChangeDiff[];
+  /** State the deploy overwrote, put back by a rollback */
+  snapshot?: unknown;
   votes: { founderId: string; approve: boolean; votedAt: string }[];
   requiredVotes: number;
   createdAt: string;
@@ -34,19 +54,32 @@ interface Proposal {
   voteCount?: number;
   approvalCount?: number;
   canDeploy?: boolean;
+  canRollback?: boolean;
+  rolledBackAt?: string;
+  rolledBackBy?: string;
+  error?: string;
   tx_hash?: string; // optional, if backend provides on-chain tx
 }
 
+// Entry of the hash-chained audit ledger (/api/audit/logs)
 interface AuditEntry {
-  id?: string;
-  at?: string;
-  timestamp?: string;
-  type: string;
-  modelId?: string;
-  from?: string;
-  to?: string;
-  actor?: string;
-  tx_hash?: string;
+  id: string;
+  seq: number;
+  at: string;
+  action: string;
+  actor: string;
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+  success: boolean;
+  hash: string;
+  meta?: { modelId?: string; kind?: string; tx_hash?: string };
+}
+
+interface LedgerVerification {
+  valid: boolean;
+  count: number;
+  firstBroken?: { seq: number; reason: string };
 }
 
 function shortHash(h: string) {
@@ -54,6 +87,10 @@ function shortHash(h: string) {
   return h.length > 16 ? `${h.slice(0, 10)}…${h.slice(-6)}` : h;
 }
 
+function formatValue(value: unknown) {
+  return value === undefined ? "—" : JSON.stringify(value);
+}
+
 function explorerUrl(tx: string): string | null {
   if (!tx) return null;
   if (/^0x[0-9a-fA-F]{64}$/.test(tx)) return `https://etherscan.io/tx/${tx}`;
@@ -67,22 +104,30 @@ export default function OnChainGovernanceViewer() {
   const [error, setError] = React.useState<string | null>(null);
   const [proposals, setProposals] = React.useState<Proposal[]>([]);
   const [audit, setAudit] = React.useState<AuditEntry[]>([]);
+  const [verification, setVerification] =
+    React.useState<LedgerVerification | null>(null);
+  const [rollingBack, setRollingBack] = React.useState<string | null>(null);
 
   const fetchAll = async () => {
     setLoading(true);
     setError(null);
     try {
-      const [pRes, aRes] = await Promise.all([
+      const [pRes, aRes, vRes] = await Promise.all([
         apiFetch("/api/admin/proposals", { admin: true }),
-        apiFetch("/api/models/audit", { admin: true }),
+        apiFetch("/api/audit/logs?limit=500", { admin: true }),
+        apiFetch("/api/audit/verify", { admin: true }),
       ]);
       const pData = await pRes.json().catch(() => ({}));
       const aData = await aRes.json().catch(() => ({}));
+      const vData = await vRes.json().catch(() => ({}));
       if (pRes.ok && pData?.status === "success")
         setProposals(pData.data || []);
       else setProposals([]);
       if (aRes.ok && aData?.status === "success") setAudit(aData.data || []);
       else setAudit([]);
+      setVerification(
+        vRes.ok && vData?.status === "success" ? vData.data : null,
+      );
     } catch (e) {
       setError(
         e instanceof Error ? e.message : "Failed to load governance data",
@@ -92,6 +137,26 @@ export default function OnChainGovernanceViewer() {
     }
   };
 
+  const rollback = async (id: string) => {
+    setRollingBack(id);
+    setError(null);
+    try {
+      const res = await apiFetch(
+        `/api/governance/proposals/${encodeURIComponent(id)}/rollback`,
+        { method: "POST", admin: true },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || data?.status !== "success") {
+        throw new Error(data?.error || `Rollback failed (${res.status})`);
+      }
+      await fetchAll();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Rollback failed");
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
   React.useEffect(() => {
     fetchAll().catch(() => {});
     // no auto-refresh by default to avoid spam; manual refresh button provided
@@ -100,9 +165,11 @@ export default function OnChainGovernanceViewer() {
   const rollbackEvents = React.useMemo(() => {
     return (audit || []).filter(
       (e) =>
-        e.type?.includes("rolled_back") ||
-        e.type?.includes("promoted") ||
-        e.type?.includes("deployed"),
+        (e.action.startsWith("proposal:") || e.action.startsWith("model:")) &&
+        (e.action.includes("rolled_back") ||
+          e.action.includes("promoted") ||
+          e.action.includes("deployed") ||
+          e.action.includes("failed")),
     );
   }, [audit]);
 
@@ -114,11 +181,11 @@ export default function OnChainGovernanceViewer() {
             On-Chain Governance
           </CardTitle>
           <CardDescription>
-            View ASC votes and model rollbacks with blockchain transaction
-            hashes and quorum status.
+            View ASC votes, the exact change each proposal applies, and model
+            rollbacks with blockchain transaction hashes and quorum status.
           </CardDescription>
         </div>
-        <HelpTip content="Lists proposals with quorum progress and shows model governance events from the audit log. If tx hashes are present, links to chain explorers are provided." />
+        <HelpTip content="Lists proposals with quorum progress and the diff that was voted on. Deployed proposals can be rolled back to the state recorded before the deploy. Deploys and rollbacks come from the hash-chained audit ledger; if tx hashes are present, links to chain explorers are provided." />
       </CardHeader>
       <CardContent className="space-y-6">
         {error && (
@@ -159,7 +226,7 @@ export default function OnChainGovernanceViewer() {
               <thead className="bg-muted">
                 <tr>
                   <th className="text-left p-2">Proposal</th>
-                  <th className="text-left p-2">Description</th>
+                  <th className="text-left p-2">Change</th>
                   <th className="text-left p-2">Status</th>
                   <th className="text-left p-2">Quorum</th>
                   <th className="text-left p-2">TX</th>
@@ -183,6 +250,11 @@ export default function OnChainGovernanceViewer() {
                     <tr key={p.id} className="border-t align-top">
                       <td className="p-2 whitespace-nowrap">
                         <div className="font-mono text-xs">{p.id}</div>
+                        {p.kind && (
+                          <div className="text-xs text-muted-foreground">
+                            {p.kind.replace(/_/g, " ")}
+                          </div>
+                        )}
                         {onChain && (
                           <div className="mt-1">
                             <Badge className="bg-green-100 text-green-800 border-green-200 inline-flex items-center gap-1">
@@ -193,25 +265,77 @@ export default function OnChainGovernanceViewer() {
                       </td>
                       <td className="p-2 max-w-md">
                         <div className="line-clamp-3">{p.description}</div>
+                        {p.diff && p.diff.length > 0 && (
+                          <div className="mt-1 font-mono text-xs space-y-0.5">
+                            {p.diff.map((d) => (
+                              <div key={d.path}>
+                                {d.path}:{" "}
+                                <span className="text-red-600">
+                                  {formatValue(d.before)}
+                                </span>{" "}
+                                →{" "}
+                                <span className="text-green-700">
+                                  {formatValue(d.after)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {p.snapshot !== undefined && (
+                          <details className="mt-1 text-xs">
+                            <summary className="cursor-pointer text-muted-foreground">
+                              Pre-deploy snapshot
+                            </summary>
+                            <pre className="mt-1 bg-muted rounded p-2 overflow-x-auto">
+                              {JSON.stringify(p.snapshot, null, 2)}
+                            </pre>
+                          </details>
+                        )}
+                        {p.error && (
+                          <div className="mt-1 text-xs text-red-600">
+                            {p.error}
+                          </div>
+                        )}
                       </td>
                       <td className="p-2">
                         <Badge
                           variant={
                             p.status === "approved" || p.status === "deployed"
                               ? "secondary"
-                              : p.status === "rejected"
+                              : p.status === "rejected" || p.status === "failed"
                                 ? "destructive"
                                 : "outline"
                           }
                           className="capitalize"
                         >
-                          {p.status}
+                          {p.status.replace(/_/g, " ")}
                         </Badge>
                         {p.deploymentStatus && (
                           <div className="text-xs text-muted-foreground mt-1">
                             {p.deploymentStatus}
                           </div>
                         )}
+                        {p.rolledBackAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            rolled back{" "}
+                            {new Date(p.rolledBackAt).toLocaleString()}
+                            {p.rolledBackBy && ` by ${p.rolledBackBy}`}
+                          </div>
+                        )}
+                        {p.canRollback && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-2"
+                            disabled={rollingBack === p.id}
+                            onClick={() => rollback(p.id)}
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            {rollingBack === p.id
+                              ? "Rolling back…"
+                              : "Rollback"}
+                          </Button>
+                        )}
                       </td>
                       <td className="p-2 w-56">
                         <div className="text-xs mb-1">
@@ -268,6 +392,16 @@ export default function OnChainGovernanceViewer() {
           <div className="flex items-center gap-2">
             <History className="h-4 w-4" />
             <h3 className="font-medium">Rollbacks & On-chain Events</h3>
+            {verification && (
+              <Badge
+                variant={verification.valid ? "secondary" : "destructive"}
+                className="ml-2"
+              >
+                {verification.valid
+                  ? `Ledger verified (${verification.count} entries)`
+                  : `Ledger broken at #${verification.firstBroken?.seq}`}
+              </Badge>
+            )}
           </div>
           <div className="overflow-x-auto border rounded">
             <table className="w-full text-sm">
@@ -276,49 +410,60 @@ export default function OnChainGovernanceViewer() {
                   <th className="text-left p-2">Time</th>
                   <th className="text-left p-2">Event</th>
                   <th className="text-left p-2">Details</th>
+                  <th className="text-left p-2">Ledger hash</th>
                   <th className="text-left p-2">TX</th>
                   <th className="text-left p-2">Explorer</th>
                 </tr>
               </thead>
               <tbody>
-                {(rollbackEvents || []).map((e, idx) => {
-                  const ts = e.at || e.timestamp || "";
-                  const tx = e.tx_hash || "";
+                {(rollbackEvents || []).map((e) => {
+                  const tx = e.meta?.tx_hash || "";
                   const link = explorerUrl(tx);
-                  const human = ts ? new Date(ts).toLocaleString() : "";
+                  const human = new Date(e.at).toLocaleString();
                   return (
-                    <tr
-                      key={`${idx}:${e.type}:${ts}`}
-                      className="border-t align-top"
-                    >
+                    <tr key={e.id} className="border-t align-top">
                       <td className="p-2 whitespace-nowrap">{human}</td>
                       <td className="p-2">
-                        <Badge variant="outline" className="capitalize">
-                          {e.type.replace(/[:_]/g, " ")}
+                        <Badge
+                          variant={e.success ? "outline" : "destructive"}
+                          className="capitalize"
+                        >
+                          {e.action.replace(/[:_]/g, " ")}
                         </Badge>
                       </td>
                       <td className="p-2 text-xs">
-                        {e.modelId && (
-                          <div>
-                            model:{" "}
-                            <code className="font-mono">{e.modelId}</code>
-                          </div>
-                        )}
-                        {e.from && (
+                        {e.target && (
                           <div>
-                            from: <code className="font-mono">{e.from}</code>
+                            {e.action.startsWith("proposal:")
+                              ? "proposal"
+                              : "model"}
+                            : <code className="font-mono">{e.target}</code>
                           </div>
                         )}
-                        {e.to && (
+                        {e.before !== undefined && (
                           <div>
-                            to: <code className="font-mono">{e.to}</code>
+                            from:{" "}
+                            <code className="font-mono">
+                              {formatValue(e.before)}
+                            </code>
                           </div>
                         )}
-                        {e.actor && (
+                        {e.after !== undefined && (
                           <div>
-                            actor: <code className="font-mono">{e.actor}</code>
+                            to:{" "}
+                            <code className="font-mono">
+                              {formatValue(e.after)}
+                            </code>
                           </div>
                         )}
+                        <div>
+                          actor: <code className="font-mono">{e.actor}</code>
+                        </div>
+                      </td>
+                      <td className="p-2">
+                        <code className="font-mono text-xs" title={e.hash}>
+                          {shortHash(e.hash)}
+                        </code>
                       </td>
                       <td className="p-2">
                         {tx ? (
@@ -354,7 +499,7 @@ export default function OnChainGovernanceViewer() {
                   <tr>
                     <td
                       className="p-4 text-center text-muted-foreground"
-                      colSpan={5}
+                      colSpan={6}
                     >
                       No on-chain events or rollbacks recorded
                     </td>
@@ -15,6 +15,11 @@ import {
   Legend,
   Tooltip as RechartsTooltip,
   ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
 } from "recharts";
 
 function parseCsvMatrix(text: string): {
@@ -53,6 +58,54 @@ function parseCsvMatrix(text: string): {
   return { symbols, matrix };
 }
 
+// A header row of symbols followed by one row of returns per period
+function parseCsvReturns(text: string): {
+  symbols: string[];
+  returns: number[][];
+} {
+  const rows = text
+    .split(/\r?\n/)
+    .map((r) => r.trim())
+    .filter(Boolean)
+    .map((r) => r.split(/,|\t/).map((c) => c.trim()));
+  const symbols = rows[0].map((s) => s.toUpperCase());
+  const returns = rows.slice(1).map((r) => {
+    if (r.length !== symbols.length)
+      throw new Error("Row length does not match symbols length");
+    return r.map((v) => {
+      const n = Number(v);
+      if (!Number.isFinite(n)) throw new Error("Invalid number in CSV");
+      return n;
+    });
+  });
+  if (returns.length < 2) throw new Error("At least 2 return rows required");
+  return { symbols, returns };
+}
+
+// One group per line: "Alts: SOL, ADA, DOT <= 0.4"
+function parseGroups(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => {
+      const m = l.match(/^([^:]+):\s*([^<>]+?)\s*(<=|>=)\s*([0-9.]+)$/);
+      if (!m) throw new Error(`Invalid group line: ${l}`);
+      const symbols = m[2].split(/[,\s]+/).filter(Boolean);
+      const bound = Number(m[4]);
+      return m[3] === "<="
+        ? { name: m[1].trim(), symbols, max: bound }
+        : { name: m[1].trim(), symbols, min: bound };
+    });
+}
+
+type Allocation = {
+  symbol: string;
+  weight: number;
+  riskContribution?: number;
+  trade?: number;
+};
+
 const COLORS = [
   "#3b82f6",
   "#22c55e",
@@ -72,14 +125,25 @@ export default function PortfolioOptimizerPanel() {
   const [symbols, setSymbols] = useState<string[]>([]);
   const [matrix, setMatrix] = useState<number[][] | null>(null);
   const [expected, setExpected] = useState<Record<string, number>>({});
-  const [method, setMethod] = useState<"kelly" | "markowitz" | "risk-parity">(
-    "markowitz",
-  );
+  const [returns, setReturns] = useState<number[][] | null>(null);
+  const [method, setMethod] = useState<
+    "kelly" | "markowitz" | "min-variance" | "risk-parity"
+  >("markowitz");
   const [riskAversion, setRiskAversion] = useState<number>(1);
   const [maxWeight, setMaxWeight] = useState<number>(0.5);
+  const [minWeight, setMinWeight] = useState<number>(0);
+  const [targetVol, setTargetVol] = useState<string>("");
+  const [groupsText, setGroupsText] = useState<string>("");
+  const [current, setCurrent] = useState<Record<string, number>>({});
+  const [costBps, setCostBps] = useState<number>(0);
+  const [turnoverPenalty, setTurnoverPenalty] = useState<number>(0);
+  const [maxTurnover, setMaxTurnover] = useState<string>("");
   const [running, setRunning] = useState(false);
-  const [allocations, setAllocations] = useState<
-    Array<{ symbol: string; weight: number }>
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [stats, setStats] = useState<any>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [frontier, setFrontier] = useState<
+    Array<{ expectedReturn: number; volatility: number }>
   >([]);
   const fileRef = useRef<HTMLInputElement | null>(null);
 
@@ -88,18 +152,32 @@ export default function PortfolioOptimizerPanel() {
   const handleFile = async (file: File) => {
     try {
       const text = await file.text();
-      let payload: { symbols: string[]; matrix: number[][] };
+      let payload: {
+        symbols: string[];
+        matrix?: number[][];
+        returns?: number[][];
+      };
       if (/^\s*\{/.test(text)) {
         const j = JSON.parse(text);
-        if (!Array.isArray(j.symbols) || !Array.isArray(j.matrix))
+        if (
+          !Array.isArray(j.symbols) ||
+          (!Array.isArray(j.matrix) && !Array.isArray(j.returns))
+        )
           throw new Error("Invalid JSON format");
-        payload = { symbols: j.symbols, matrix: j.matrix };
+        payload = { symbols: j.symbols, matrix: j.matrix, returns: j.returns };
       } else {
-        payload = parseCsvMatrix(text);
+        try {
+          payload = parseCsvMatrix(text);
+        } catch {
+          // Not a square matrix: read it as a return series
+          payload = parseCsvReturns(text);
+        }
       }
       setCovarianceId(null);
       setSymbols(payload.symbols);
-      setMatrix(payload.matrix);
+      setMatrix(payload.matrix || null);
+      setReturns(payload.matrix ? null : payload.returns || null);
+      setFrontier([]);
       setExpected(
         Object.fromEntries(payload.symbols.map((s: string) => [s, 0.01])),
       );
@@ -118,30 +196,51 @@ export default function PortfolioOptimizerPanel() {
     }
   };
 
+  const hasCurrent = Object.values(current).some((v) => v !== 0);
+
+  const requestBody = () => ({
+    method,
+    expectedReturns: expected,
+    riskAversion,
+    targetVolatility: targetVol.trim() === "" ? undefined : Number(targetVol),
+    riskLimits: { maxWeight, minWeight },
+    constraints: {
+      groups: parseGroups(groupsText),
+      maxTurnover:
+        hasCurrent && maxTurnover.trim() !== ""
+          ? Number(maxTurnover)
+          : undefined,
+    },
+    currentWeights: hasCurrent ? current : undefined,
+    transactionCostBps: costBps,
+    turnoverPenalty,
+    symbols,
+    ...(matrix ? { matrix } : { returns }),
+  });
+
   const run = async () => {
-    if (!matrix || symbols.length === 0) {
+    if ((!matrix && !returns) || symbols.length === 0) {
       toast({
         title: "Missing covariance",
-        description: "Upload a covariance matrix first",
+        description: "Upload a covariance matrix or return series first",
         variant: "destructive",
       });
       return;
     }
     setRunning(true);
     try {
-      const body: any = {
-        method,
-        expectedReturns: expected,
-        riskAversion,
-        riskLimits: { maxWeight },
-        symbols,
-        matrix,
-      };
-      const r = await postJson<any>("/api/v1/portfolio/optimize", body);
+      const r = await postJson<any>(
+        "/api/v1/portfolio/optimize",
+        requestBody(),
+      );
       if (r?.allocations) setAllocations(r.allocations);
+      setStats(
+        r?.stats ? { ...r.stats, shrinkage: r.covariance?.shrinkage } : null,
+      );
+      setWarnings(Array.isArray(r?.warnings) ? r.warnings : []);
       toast({
         title: "Optimization complete",
-        description: `${method === "kelly" ? "Kelly" : method === "risk-parity" ? "Risk Parity" : "Markowitz"} allocations ready`,
+        description: `${method === "kelly" ? "Kelly" : method === "risk-parity" ? "Risk Parity" : method === "min-variance" ? "Minimum Variance" : "Markowitz"} allocations ready`,
       });
     } catch (e: any) {
       toast({
@@ -154,6 +253,26 @@ export default function PortfolioOptimizerPanel() {
     }
   };
 
+  const runFrontier = async () => {
+    if ((!matrix && !returns) || symbols.length === 0) return;
+    setRunning(true);
+    try {
+      const r = await postJson<any>("/api/v1/portfolio/frontier", {
+        ...requestBody(),
+        points: 20,
+      });
+      setFrontier(r?.data?.points || []);
+    } catch (e: any) {
+      toast({
+        title: "Frontier failed",
+        description: e?.message || "Error",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
   const chartData = useMemo(() => {
     return allocations.map((a) => ({
       name: a.symbol,
@@ -165,14 +284,14 @@ export default function PortfolioOptimizerPanel() {
     <Card className="lg:col-span-2">
       <CardHeader className="flex items-start justify-between">
         <CardTitle>Portfolio Optimizer</CardTitle>
-        <HelpTip content="Upload covariance, set expected returns, choose optimization (Kelly/Markowitz/Risk-Parity), set risk limits, and compute allocations." />
+        <HelpTip content="Upload a covariance matrix or return series, set expected returns and constraints, choose a method and compute allocations or the efficient frontier." />
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="grid md:grid-cols-3 gap-3 items-end">
           <div className="md:col-span-2">
             <div className="flex items-center gap-2">
-              <Label>Covariance matrix (CSV or JSON)</Label>
-              <HelpTip content="CSV with header row/col of symbols, or JSON { symbols, matrix }" />
+              <Label>Covariance or returns (CSV or JSON)</Label>
+              <HelpTip content="Covariance CSV with header row/col of symbols or JSON { symbols, matrix }; or returns CSV (header of symbols, one row per period) or JSON { symbols, returns }, shrunk with Ledoit-Wolf." />
             </div>
             <Input
               ref={fileRef}
@@ -186,13 +305,14 @@ export default function PortfolioOptimizerPanel() {
             {symbols.length > 0 && (
               <div className="text-xs text-muted-foreground mt-1">
                 Loaded: {symbols.join(", ")}
+                {returns ? ` (${returns.length} return periods)` : ""}
               </div>
             )}
           </div>
           <div>
             <div className="flex items-center gap-2">
               <Label>Method</Label>
-              <HelpTip content="Kelly uses w=Σ⁻¹μ clipped to >=0. Markowitz uses mean-variance with risk aversion. Risk-Parity targets equal risk contribution (proxied by inverse-variance)." />
+              <HelpTip content="Markowitz maximises μᵀw − λ/2·wᵀΣw under the constraints; Kelly is the λ=1 case. Minimum variance ignores returns. Risk-Parity equalises each asset's risk contribution." />
             </div>
             <RadioGroup
               value={method}
@@ -206,6 +326,10 @@ export default function PortfolioOptimizerPanel() {
                 <RadioGroupItem id="m-kelly" value="kelly" />
                 <Label htmlFor="m-kelly">Kelly</Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem id="m-mv" value="min-variance" />
+                <Label htmlFor="m-mv">Min Variance</Label>
+              </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem id="m-rp" value="risk-parity" />
                 <Label htmlFor="m-rp">Risk-Parity</Label>
@@ -235,7 +359,7 @@ export default function PortfolioOptimizerPanel() {
           <div>
             <div className="flex items-center gap-2">
               <Label>Max weight</Label>
-              <HelpTip content="Cap any single asset weight; post-cap weights are renormalized." />
+              <HelpTip content="Upper bound on every asset's weight, enforced by the solver." />
             </div>
             <Input
               type="number"
@@ -250,6 +374,94 @@ export default function PortfolioOptimizerPanel() {
               }
             />
           </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Min weight</Label>
+              <HelpTip content="Lower bound on every asset's weight; negative allows shorts." />
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              min="-1"
+              max="1"
+              value={minWeight}
+              onChange={(e) => setMinWeight(Number(e.target.value) || 0)}
+            />
+          </div>
+          {(method === "markowitz" || method === "kelly") && (
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Target volatility</Label>
+                <HelpTip content="Per-period volatility to aim for; the risk aversion is searched to reach it. Leave empty to use λ." />
+              </div>
+              <Input
+                type="number"
+                step="0.001"
+                min="0"
+                value={targetVol}
+                onChange={(e) => setTargetVol(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Group caps</Label>
+              <HelpTip content='One per line, e.g. "Alts: SOL, ADA <= 0.4" or "Majors: BTC, ETH >= 0.3".' />
+            </div>
+            <textarea
+              className="w-full min-h-[72px] rounded-md border bg-background p-2 text-sm font-mono"
+              value={groupsText}
+              onChange={(e) => setGroupsText(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2 content-start">
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Cost (bps)</Label>
+                <HelpTip content="Proportional transaction cost charged on every unit traded away from current holdings." />
+              </div>
+              <Input
+                type="number"
+                step="1"
+                min="0"
+                value={costBps}
+                onChange={(e) =>
+                  setCostBps(Math.max(0, Number(e.target.value) || 0))
+                }
+              />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Turnover penalty</Label>
+                <HelpTip content="τ in τ‖w − w₀‖²; larger values keep the portfolio closer to current holdings." />
+              </div>
+              <Input
+                type="number"
+                step="0.001"
+                min="0"
+                value={turnoverPenalty}
+                onChange={(e) =>
+                  setTurnoverPenalty(Math.max(0, Number(e.target.value) || 0))
+                }
+              />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Max turnover</Label>
+                <HelpTip content="Cap on Σ|w − w₀|; needs current weights." />
+              </div>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={maxTurnover}
+                onChange={(e) => setMaxTurnover(e.target.value)}
+              />
+            </div>
+          </div>
         </div>
 
         {symbols.length > 0 && (
@@ -297,6 +509,27 @@ export default function PortfolioOptimizerPanel() {
                 </div>
               ))}
             </div>
+            <div className="font-medium mt-3 mb-2">
+              Current weights (optional)
+            </div>
+            <div className="grid md:grid-cols-3 gap-2">
+              {symbols.map((s) => (
+                <div key={s} className="flex items-center gap-2">
+                  <Label className="min-w-[64px]">{s}</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={current[s] ?? 0}
+                    onChange={(e) =>
+                      setCurrent((prev) => ({
+                        ...prev,
+                        [s]: Number(e.target.value),
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
           </div>
         )}
 
@@ -304,6 +537,13 @@ export default function PortfolioOptimizerPanel() {
           <Button disabled={running || symbols.length === 0} onClick={run}>
             {running ? "Optimizing…" : "Run Optimization"}
           </Button>
+          <Button
+            variant="outline"
+            disabled={running || symbols.length === 0}
+            onClick={runFrontier}
+          >
+            Efficient Frontier
+          </Button>
           {allocations.length > 0 && (
             <Badge variant="outline">{allocations.length} assets</Badge>
           )}
@@ -342,6 +582,8 @@ export default function PortfolioOptimizerPanel() {
                     <tr>
                       <th className="text-left p-2">Asset</th>
                       <th className="text-left p-2">Weight</th>
+                      <th className="text-left p-2">Risk share</th>
+                      {hasCurrent && <th className="text-left p-2">Trade</th>}
                     </tr>
                   </thead>
                   <tbody>
@@ -354,14 +596,106 @@ export default function PortfolioOptimizerPanel() {
                           <td className="p-2">
                             {(a.weight * 100).toFixed(2)}%
                           </td>
+                          <td className="p-2">
+                            {a.riskContribution !== undefined
+                              ? `${(a.riskContribution * 100).toFixed(1)}%`
+                              : "—"}
+                          </td>
+                          {hasCurrent && (
+                            <td className="p-2">
+                              {a.trade !== undefined
+                                ? `${a.trade >= 0 ? "+" : ""}${(a.trade * 100).toFixed(2)}%`
+                                : "—"}
+                            </td>
+                          )}
                         </tr>
                       ))}
                   </tbody>
                 </table>
               </div>
+              {stats && (
+                <div className="grid grid-cols-2 gap-1 text-sm mt-2">
+                  <div>
+                    Expected return:{" "}
+                    <span className="font-semibold">
+                      {(stats.expectedReturn * 100).toFixed(3)}%
+                    </span>
+                  </div>
+                  <div>
+                    Volatility:{" "}
+                    <span className="font-semibold">
+                      {(stats.volatility * 100).toFixed(3)}%
+                    </span>
+                  </div>
+                  {hasCurrent && (
+                    <>
+                      <div>
+                        Turnover:{" "}
+                        <span className="font-semibold">
+                          {(stats.turnover * 100).toFixed(2)}%
+                        </span>
+                      </div>
+                      <div>
+                        Costs:{" "}
+                        <span className="font-semibold">
+                          {(stats.transactionCost * 1e4).toFixed(2)} bps
+                        </span>
+                      </div>
+                    </>
+                  )}
+                  {typeof stats.shrinkage === "number" && (
+                    <div>
+                      Shrinkage:{" "}
+                      <span className="font-semibold">
+                        {stats.shrinkage.toFixed(3)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+              {warnings.map((w) => (
+                <div key={w} className="text-xs text-amber-600 mt-1">
+                  {w}
+                </div>
+              ))}
             </div>
           </div>
         )}
+
+        {frontier.length > 0 && (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="volatility"
+                  name="Volatility"
+                  tickFormatter={(v) => `${(v * 100).toFixed(2)}%`}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="expectedReturn"
+                  name="Return"
+                  tickFormatter={(v) => `${(v * 100).toFixed(2)}%`}
+                />
+                <RechartsTooltip
+                  formatter={(v: number) => `${(v * 100).toFixed(3)}%`}
+                />
+                <Scatter
+                  name="Efficient frontier"
+                  data={frontier}
+                  fill="#3b82f6"
+                  line
+                />
+                {stats && (
+                  <Scatter name="Selected" data={[stats]} fill="#ef4444" />
+                )}
+                <Legend />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
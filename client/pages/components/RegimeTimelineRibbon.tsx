@@ -54,64 +54,48 @@ export default function RegimeTimelineRibbon({
     setLoading(true);
     setError(null);
     try {
-      const key = "regime_history_buffer";
       let hist: RegimeSegment[] = [];
-      try {
-        const raw = localStorage.getItem(key);
-        const parsed = raw ? JSON.parse(raw) : [];
-        if (Array.isArray(parsed)) hist = parsed;
-      } catch {}
-
-      let current: any = null;
       const endpoints = [
-        "/api/strategies/regime/current",
-        "/api/v1/strategies/regime/current",
+        "/api/strategies/regime/history",
+        "/api/v1/strategies/regime/history",
       ];
       for (const ep of endpoints) {
         try {
           const r = await apiFetch(ep);
           if (r.ok) {
             const j = await r.json();
-            current = j?.data || j;
+            const data = j?.data || j;
+            const raw = Array.isArray(data?.segments)
+              ? data.segments
+              : Array.isArray(data)
+                ? data
+                : [];
+            hist = raw.map((s: any) => ({
+              id: String(s.id || s.start),
+              label: String(s.label || s.regime || "Regime"),
+              start: String(s.start),
+              end: String(s.end),
+              confidence:
+                typeof s.confidence === "number" ? s.confidence : undefined,
+              events: Array.isArray(s.events)
+                ? s.events.map((e: any) => ({
+                    ts: String(e.ts),
+                    label: String(e.label || "event"),
+                  }))
+                : [],
+              color: s.color,
+            }));
             break;
           }
         } catch {}
       }
+      if (!hist.length) throw new Error("Regime history unavailable");
 
-      if (current) {
-        const nowIso = new Date().toISOString();
-        const seg: RegimeSegment = {
-          id: String(current.id || current.label || nowIso),
-          label: String(current.label || current.regime || "Regime"),
-          start: String(current.start || current.since || nowIso),
-          end: nowIso,
-          confidence:
-            typeof current.confidence === "number"
-              ? current.confidence
-              : typeof current.conf === "number"
-                ? current.conf
-                : undefined,
-          events: Array.isArray(current.events)
-            ? current.events.map((e: any) => ({
-                ts: String(e.ts || e.time || e.t || nowIso),
-                label: String(e.label || e.name || "event"),
-              }))
-            : [],
-          color: current.color,
-        };
-        if (hist.length && hist[0].label === seg.label) {
-          hist[0].end = seg.end;
-          hist[0].confidence = seg.confidence ?? hist[0].confidence;
-        } else {
-          hist.unshift(seg);
-        }
-        hist = hist.slice(0, 50);
-        try { localStorage.setItem(key, JSON.stringify(hist)); } catch {}
-      }
-
-      // Assign colors if missing
-      for (let i = 0; i < hist.length; i++) {
-        if (!hist[i].color) hist[i].color = palette[i % palette.length];
+      // Same regime, same color across the ribbon
+      const labels = Array.from(new Set(hist.map((s) => s.label)));
+      for (const seg of hist) {
+        if (!seg.color)
+          seg.color = palette[labels.indexOf(seg.label) % palette.length];
       }
       setSegments(hist);
       if (hist.length) {
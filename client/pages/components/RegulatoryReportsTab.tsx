@@ -36,6 +36,7 @@ interface ReportHistoryItem {
   filters?: { trades?: boolean; compliance?: boolean; governance?: boolean };
   format?: "csv" | "json";
   status?: string;
+  sha256?: string;
 }
 
 export default function RegulatoryReportsTab() {
@@ -83,6 +84,7 @@ export default function RegulatoryReportsTab() {
                 ? it.format
                 : undefined,
             status: it.status || it.result || undefined,
+            sha256: it.sha256 || undefined,
           })),
         );
         setDegradedAudit(false);
@@ -175,6 +177,18 @@ export default function RegulatoryReportsTab() {
     }
   };
 
+  const redownload = async (h: ReportHistoryItem) => {
+    try {
+      const resp = await apiFetch(
+        `/api/v1/reports/${encodeURIComponent(h.id)}/download`,
+      );
+      if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+      await downloadResponse(resp, h.format || "csv");
+    } catch (e) {
+      console.error("report download failed", e);
+    }
+  };
+
   const downloadResponse = async (resp: Response, fmt: "csv" | "json") => {
     const blob = await resp.blob();
     const url = URL.createObjectURL(blob);
@@ -336,6 +350,23 @@ export default function RegulatoryReportsTab() {
                       : ""}
                     {h.status ? ` • Status: ${h.status}` : ""}
                   </div>
+                  {h.sha256 && (
+                    <div className="flex items-center justify-between mt-1">
+                      <span
+                        className="text-xs font-mono text-muted-foreground"
+                        title={h.sha256}
+                      >
+                        SHA-256 {h.sha256.slice(0, 16)}…
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => redownload(h)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -32,6 +32,52 @@ interface BreachItem {
   threshold?: number;
 }
 
+interface RiskMetrics {
+  asOf: string;
+  equity: number;
+  volatility: { annualized: number };
+  horizonMinutes: number;
+  var: Record<"historical" | "parametric", Record<"95" | "99", number>>;
+  cvar: Record<"historical" | "parametric", Record<"95" | "99", number>>;
+  exposures: Array<{
+    symbol: string;
+    notional: number;
+    weight: number;
+    unrealizedPnl: number;
+    beta: number;
+  }>;
+  grossExposure: number;
+  netExposure: number;
+  beta: number;
+}
+
+function toBreach(a: any): BreachItem {
+  return {
+    id: a.id,
+    message: a.message || a.details?.message || "Breach detected",
+    timestamp: a.timestamp,
+    severity: a.severity,
+    metric: a.details?.metric ?? a.metric,
+    value: a.details?.value ?? a.value,
+    threshold: a.details?.threshold ?? a.threshold,
+  };
+}
+
+function mergeBreaches(prev: BreachItem[], incoming: BreachItem[]) {
+  const byId = new Map<string, BreachItem>();
+  for (const b of [...incoming, ...prev]) {
+    const key = b.id || `${b.metric}:${b.timestamp}`;
+    if (!byId.has(key)) byId.set(key, b);
+  }
+  return Array.from(byId.values())
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp as any).getTime() -
+        new Date(a.timestamp as any).getTime(),
+    )
+    .slice(0, 200);
+}
+
 function parsePrometheus(text: string): Record<string, number> {
   const metrics: Record<string, number> = {};
   const lines = text.split(/\r?\n/);
@@ -71,6 +117,7 @@ export default function RiskMonitoringPanel({
     [],
   );
   const [metricsDegraded, setMetricsDegraded] = useState(false);
+  const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
   const [live, setLive] = useState(false);
   const esRef = useRef<EventSource | null>(null);
   const lastTsRef = useRef<string | null>(null);
@@ -101,6 +148,22 @@ export default function RiskMonitoringPanel({
         setPromText(metricsText);
       }
 
+      // VaR, exposure and beta from the live risk service
+      try {
+        const r = await apiFetch("/api/risk/metrics");
+        const j = await r.json().catch(() => ({}) as any);
+        if (r.ok && j?.data) setRiskMetrics(j.data as RiskMetrics);
+      } catch {}
+
+      // Breaches recorded by the risk service, including ones older than the stream snapshot
+      try {
+        const r = await apiFetch("/api/risk/breaches");
+        const j = await r.json().catch(() => ({}) as any);
+        const items: any[] = Array.isArray(j?.breaches) ? j.breaches : [];
+        if (items.length)
+          setBreaches((prev) => mergeBreaches(prev, items.map(toBreach)));
+      } catch {}
+
       // Mini performance chart (recent returns)
       try {
         const r = await apiFetch("/api/reports/daily");
@@ -137,24 +200,8 @@ export default function RiskMonitoringPanel({
           const data = JSON.parse(ev.data || "[]") as any[];
           const breachesInit = data
             .filter((a: any) => a?.event === "live_metrics_breach")
-            .map((a: any) => ({
-              id: a.id,
-              message: a.message || a.details?.message || "Breach detected",
-              timestamp: a.timestamp,
-              severity: a.severity,
-              metric: a.details?.metric,
-              value: a.details?.value,
-              threshold: a.details?.threshold,
-            })) as BreachItem[];
-          setBreaches((prev) => {
-            const merged = [...breachesInit, ...prev];
-            merged.sort(
-              (a, b) =>
-                new Date(b.timestamp as any).getTime() -
-                new Date(a.timestamp as any).getTime(),
-            );
-            return merged.slice(0, 200);
-          });
+            .map(toBreach);
+          setBreaches((prev) => mergeBreaches(prev, breachesInit));
           if (data[0]?.timestamp) lastTsRef.current = data[0].timestamp;
         } catch {}
       });
@@ -162,24 +209,7 @@ export default function RiskMonitoringPanel({
         try {
           const a = JSON.parse(ev.data || "{}");
           if (a?.event !== "live_metrics_breach") return;
-          const breach: BreachItem = {
-            id: a.id,
-            message: a.message || a.details?.message || "Breach detected",
-            timestamp: a.timestamp,
-            severity: a.severity,
-            metric: a.details?.metric,
-            value: a.details?.value,
-            threshold: a.details?.threshold,
-          };
-          setBreaches((prev) => {
-            const merged = [breach, ...prev];
-            merged.sort(
-              (x, y) =>
-                new Date(y.timestamp as any).getTime() -
-                new Date(x.timestamp as any).getTime(),
-            );
-            return merged.slice(0, 200);
-          });
+          setBreaches((prev) => mergeBreaches(prev, [toBreach(a)]));
           lastTsRef.current = a.timestamp;
         } catch {}
       });
@@ -223,25 +253,9 @@ export default function RiskMonitoringPanel({
         if (Array.isArray(incoming) && incoming.length) {
           const breachesIncoming = incoming
             .filter((a) => a?.event === "live_metrics_breach")
-            .map((a) => ({
-              id: a.id,
-              message: a.message || a.details?.message || "Breach detected",
-              timestamp: a.timestamp,
-              severity: a.severity,
-              metric: a.details?.metric,
-              value: a.details?.value,
-              threshold: a.details?.threshold,
-            })) as BreachItem[];
+            .map(toBreach);
           if (breachesIncoming.length) {
-            setBreaches((prev) => {
-              const merged = [...breachesIncoming, ...prev];
-              merged.sort(
-                (x, y) =>
-                  new Date(y.timestamp as any).getTime() -
-                  new Date(x.timestamp as any).getTime(),
-              );
-              return merged.slice(0, 200);
-            });
+            setBreaches((prev) => mergeBreaches(prev, breachesIncoming));
             if (incoming[0]?.timestamp)
               lastTsRef.current = incoming[0].timestamp;
           }
@@ -265,6 +279,7 @@ export default function RiskMonitoringPanel({
 
   const drawdown = useMemo(() => {
     return pickMetric(prom, [
+      "aether_portfolio_drawdown",
       "max_drawdown",
       "portfolio_max_drawdown",
       "aether_drawdown",
@@ -281,7 +296,13 @@ export default function RiskMonitoringPanel({
     [prom],
   );
   const pnl = useMemo(
-    () => pickMetric(prom, ["portfolio_pnl", "pnl_total", "pnl"]),
+    () =>
+      pickMetric(prom, [
+        "aether_portfolio_pnl_usd",
+        "portfolio_pnl",
+        "pnl_total",
+        "pnl",
+      ]),
     [prom],
   );
 
@@ -322,7 +343,7 @@ export default function RiskMonitoringPanel({
           </CardDescription>
         </div>
         <div className="flex items-center gap-2">
-          <HelpTip content="Pulls Prometheus metrics (Sharpe, P&L, drawdown, hedge) and shows any current risk breaches." />
+          <HelpTip content="Pulls Prometheus metrics (Sharpe, P&L, drawdown, hedge), VaR and exposure from the risk service, and shows tier breaches as they happen." />
           <Button variant="outline" size="sm" onClick={load} disabled={loading}>
             {loading ? (
               <RefreshCw className="h-4 w-4 animate-spin" />
@@ -413,6 +434,80 @@ export default function RiskMonitoringPanel({
           </div>
         </div>
 
+        {riskMetrics && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">
+                Value at Risk & Exposure
+              </div>
+              <HelpTip content="VaR/CVaR of the current open positions over the stated horizon. Historical revalues today's exposures over past price moves; parametric assumes normal returns. Beta is measured against BTC." />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {(["historical", "parametric"] as const).map((method) => (
+                <div key={method} className="p-3 border rounded-lg">
+                  <div className="text-sm text-muted-foreground capitalize">
+                    {method} VaR ({riskMetrics.horizonMinutes}m)
+                  </div>
+                  <div className="text-lg font-semibold">
+                    {fmtCur(riskMetrics.var[method]["95"])}
+                    <span className="text-xs text-muted-foreground"> @95%</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    99%: {fmtCur(riskMetrics.var[method]["99"])} • CVaR 95%:{" "}
+                    {fmtCur(riskMetrics.cvar[method]["95"])}
+                  </div>
+                </div>
+              ))}
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground">
+                  Volatility (ann.)
+                </div>
+                <div className="text-lg font-semibold">
+                  {fmtPct(riskMetrics.volatility.annualized)}
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-sm text-muted-foreground">Beta to BTC</div>
+                <div className="text-lg font-semibold">
+                  {fmtNum(riskMetrics.beta)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Gross {fmtCur(riskMetrics.grossExposure)} • Net{" "}
+                  {fmtCur(riskMetrics.netExposure)}
+                </div>
+              </div>
+            </div>
+            {riskMetrics.exposures.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1">Asset</th>
+                    <th className="py-1 text-right">Notional</th>
+                    <th className="py-1 text-right">Weight</th>
+                    <th className="py-1 text-right">Unrealized</th>
+                    <th className="py-1 text-right">Beta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {riskMetrics.exposures.map((e) => (
+                    <tr key={e.symbol} className="border-t">
+                      <td className="py-1 font-medium">{e.symbol}</td>
+                      <td className="py-1 text-right">{fmtCur(e.notional)}</td>
+                      <td className="py-1 text-right">{fmtPct(e.weight)}</td>
+                      <td
+                        className={`py-1 text-right ${e.unrealizedPnl >= 0 ? "text-accent" : "text-destructive"}`}
+                      >
+                        {fmtCur(e.unrealizedPnl)}
+                      </td>
+                      <td className="py-1 text-right">{fmtNum(e.beta)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <div className="text-sm font-medium">Breach Alerts</div>
@@ -85,10 +85,9 @@ export default function RiskTierPanel() {
   const save = async () => {
     try {
       const body: RiskConfig = { tiers, defaultTier: selectedTier } as any;
+      // Tier changes go to a governance proposal and apply once founders approve
       const j = await patchJson<any>("/api/config/risk", body);
-      const data = j?.data || j;
-      setConfig(data);
-      toast({ title: "Risk config saved", description: `Default: ${selectedTier}` });
+      toast({ title: "Risk change proposed", description: `Proposal ${j?.data?.proposal?.id} awaits founder approval` });
     } catch (e:any) {
       toast({ title: "Save failed", description: e?.message || "Error", variant: "destructive" });
     }
@@ -34,29 +34,20 @@ export default function RiskVisualizationPanel() {
     })();
   }, []);
 
+  // Equity curve marked against open positions; refreshed every minute with the feed
   useEffect(() => {
-    (async () => {
+    const load = async () => {
       try {
-        const j = await getJson<any>("/api/reports/daily");
-        const data = j?.data || j || {};
-        const dr = Array.isArray(data.dailyReturnsData) ? data.dailyReturnsData : [];
-        // Build cumulative PnL and drawdown from daily returns (% points)
-        let equity = 1;
-        let peak = 1;
-        const s = dr.map((d: any) => {
-          const ret = Number(d.returns) / 100 || 0;
-          equity *= 1 + ret;
-          if (equity > peak) peak = equity;
-          const pnl = equity - 1;
-          const dd = equity / peak - 1;
-          const t = new Date(d.date || new Date()).toISOString();
-          return { t, pnl, dd };
-        });
-        setSeries(s);
+        const j = await getJson<any>("/api/metrics/live?points=360");
+        const rows = Array.isArray(j?.data) ? j.data : [];
+        setSeries(rows.map((p: any) => ({ t: p.t, pnl: Number(p.pnl) || 0, dd: Number(p.dd) || 0 })));
       } catch {
         setSeries([]);
       }
-    })();
+    };
+    load();
+    const timer = window.setInterval(load, 60_000);
+    return () => window.clearInterval(timer);
   }, []);
 
   const tierCfg = useMemo(() => riskCfg?.tiers.find((t) => t.id === tier) || null, [riskCfg, tier]);
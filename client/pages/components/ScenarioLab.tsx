@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -33,6 +33,7 @@ import {
 } from "recharts";
 
 interface ScenarioConfig {
+  id?: string; // set when loaded from the library
   name: string;
   priceJumpPct: number; // +/- percent
   volSpikePct: number; // percent
@@ -45,6 +46,7 @@ interface RunMetrics {
   maxDrawdownPct?: number;
   finalPnl?: number;
   fillQuality?: number; // 0-1
+  volatility?: number; // per step
 }
 
 interface RunResult {
@@ -68,16 +70,92 @@ type AgentProfile = {
 type AgentsRunResult = {
   id: string;
   pnl: Array<{ agent: string; pnl: number }>;
-  spread_over_time: Array<{ t: number; spread_bps: number }>;
+  agents?: Array<{
+    id: string;
+    type: AgentProfile["type"];
+    pnl: number;
+    inventory: number;
+    fills: number;
+    volume: number;
+    orders: number;
+    cancels: number;
+  }>;
+  spread_over_time: Array<{
+    t: number;
+    spread_bps: number;
+    mid?: number;
+    depth?: number;
+  }>;
   metrics: {
     stability_index: number;
     avg_spread_bps: number;
     spread_vol_bps: number;
     midprice_drift_bps: number;
+    mid_vol_bps?: number;
+    trades?: number;
+    volume?: number;
+    cancel_ratio?: number;
+    one_sided_pct?: number;
   };
   cfg: { profiles: AgentProfile[]; seed?: number; steps?: number };
 };
 
+type SavedScenario = {
+  id: string;
+  name: string;
+  price_jump_pct: number;
+  vol_spike_pct: number;
+  spread_widen_bps: number;
+  liquidity_drain_pct: number;
+  duration_min: number;
+};
+
+type MonteCarloResult = {
+  scenario: { name: string };
+  seed: number;
+  paths: number;
+  bands: Array<{
+    t: number;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+  }>;
+  final_pnl: { mean: number; p5: number; p50: number; p95: number };
+  var: { "95": number; "99": number };
+  cvar: { "95": number; "99": number };
+  max_drawdown: { p50: number; p95: number };
+  tier_breach: Array<{
+    tier: string;
+    label: string;
+    max_drawdown: number;
+    breach_prob: number;
+    warning_prob: number;
+  }>;
+};
+
+const toScenario = (c: ScenarioConfig) => ({
+  name: c.name,
+  price_jump_pct: c.priceJumpPct,
+  vol_spike_pct: c.volSpikePct,
+  spread_widen_bps: c.spreadWidenBps,
+  liquidity_drain_pct: c.liquidityDrainPct,
+  duration_min: c.durationMin,
+});
+
+const fromScenario = (s: SavedScenario): ScenarioConfig => ({
+  id: s.id,
+  name: s.name,
+  priceJumpPct: s.price_jump_pct,
+  volSpikePct: s.vol_spike_pct,
+  spreadWidenBps: s.spread_widen_bps,
+  liquidityDrainPct: s.liquidity_drain_pct,
+  durationMin: s.duration_min,
+});
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
 const COLORS = [
   "#2563eb",
   "#16a34a",
@@ -139,7 +217,15 @@ function mapResult(raw: any): {
     action: String(a.action || a.type || "event"),
     detail: a.detail || a.note,
   }));
-  return { curve, metrics: { maxDrawdownPct, finalPnl, fillQuality }, actions };
+  const volatility =
+    typeof d.metrics?.volatility === "number"
+      ? d.metrics.volatility
+      : undefined;
+  return {
+    curve,
+    metrics: { maxDrawdownPct, finalPnl, fillQuality, volatility },
+    actions,
+  };
 }
 
 export default function ScenarioLab() {
@@ -155,6 +241,13 @@ export default function ScenarioLab() {
   const [runs, setRuns] = useState<RunResult[]>([]);
   const [selected, setSelected] = useState<Record<string, boolean>>({});
   const [running, setRunning] = useState(false);
+  const [seed, setSeed] = useState<string>("42");
+  const [paths, setPaths] = useState(500);
+  const [library, setLibrary] = useState<SavedScenario[]>([]);
+  const [batchSel, setBatchSel] = useState<Record<string, boolean>>({});
+  const [mc, setMc] = useState<MonteCarloResult | null>(null);
+  const [batch, setBatch] = useState<MonteCarloResult[]>([]);
+  const [mcRunning, setMcRunning] = useState(false);
   const [agentsCfg, setAgentsCfg] = useState<{
     profiles: AgentProfile[];
     seed?: number;
@@ -177,8 +270,8 @@ export default function ScenarioLab() {
     }
   });
   const [selAgentRuns, setSelAgentRuns] = useState<Record<string, boolean>>({});
-  const progressTimers = useRef<Record<string, any>>({});
 
+  // Shown until the scenario library has loaded
   const presets: ScenarioConfig[] = [
     {
       name: "Flash Crash",
@@ -211,67 +304,19 @@ export default function ScenarioLab() {
     [runs, selected],
   );
 
-  const startProgress = (id: string) => {
-    // Fallback local progress if server doesn't report
-    const tick = () =>
-      setRuns((prev) =>
-        prev.map((r) =>
-          r.id === id
-            ? {
-                ...r,
-                progress: Math.min(
-                  99,
-                  r.progress + Math.max(1, Math.round((100 - r.progress) / 20)),
-                ),
-              }
-            : r,
-        ),
-      );
-    progressTimers.current[id] = window.setInterval(tick, 800);
-  };
-  const stopProgress = (id: string) => {
-    const t = progressTimers.current[id];
-    if (t) window.clearInterval(t);
-    delete progressTimers.current[id];
-  };
-
-  const buildOrderBook = (c: ScenarioConfig) => {
-    const points: Array<{ t: string; price: number; volume: number }> = [];
-    const N = Math.max(10, Math.min(600, Math.round(c.durationMin * 2)));
-    const base = 100;
-    const jump = base * (c.priceJumpPct / 100);
-    const spreadInfl = Math.max(0, c.spreadWidenBps) / 1e4;
-    const volBase = 10;
-    for (let i = 0; i < N; i++) {
-      const t = new Date(Date.now() + i * 60000).toISOString();
-      const shockPhase =
-        i < Math.min(N, 5) ? 1 : Math.max(0, 1 - (i - 5) / (N - 5));
-      const noise = (Math.random() - 0.5) * (c.volSpikePct / 100) * 0.5;
-      const px = base + jump * shockPhase + base * noise;
-      const vol = Math.max(
-        1,
-        volBase * (1 - c.liquidityDrainPct / 100) * (1 + spreadInfl),
-      );
-      points.push({ t, price: +px.toFixed(4), volume: +vol.toFixed(4) });
-    }
-    return points;
+  const seedValue = () => {
+    const n = Number(seed);
+    return seed.trim() !== "" && Number.isFinite(n) ? n : undefined;
   };
 
   const runScenario = async () => {
     setRunning(true);
     try {
-      const orderBook = buildOrderBook(cfg);
-      const payload = {
-        method: "TWAP",
-        side: "buy",
-        quantity: Math.max(1, Math.round((cfg.durationMin / 10) * 10)) / 10,
-        slices: Math.max(5, Math.min(100, Math.round(cfg.durationMin))),
-        orderBook,
-      } as any;
-      const j = await postJson<any>("/api/v1/execution/simulate", payload);
-
-      const id: string =
-        j?.data?.request_id || `${Date.now()}_${Math.random()}`;
+      const j = await postJson<any>("/api/sim/run", {
+        scenario: toScenario(cfg),
+        seed: seedValue(),
+      });
+      const id: string = j?.id || `${Date.now()}_${Math.random()}`;
       const mapped = mapResult(j);
       const res: RunResult = {
         id,
@@ -285,70 +330,10 @@ export default function ScenarioLab() {
       };
       setRuns((prev) => [...prev, res]);
       setSelected((prev) => ({ ...prev, [res.id]: true }));
-      toast({ title: "Scenario complete", description: `${cfg.name}` });
-
-      // No polling needed; endpoint returns synchronously
-      if (false) {
-        let tries = 0;
-        let done = false;
-        while (!done && tries < 30) {
-          await new Promise((res) =>
-            setTimeout(res, Math.min(1500 + tries * 200, 4000)),
-          );
-          tries++;
-          const st = await pollStatus(id);
-          if (st && (st.status === "completed" || st.completed || st.data)) {
-            finalize(st);
-            done = true;
-            break;
-          }
-          // If API returns progress only
-          const prog = st?.progress;
-          if (typeof prog === "number")
-            setRuns((prev) =>
-              prev.map((rr) =>
-                rr.id === id
-                  ? {
-                      ...rr,
-                      progress: Math.max(
-                        rr.progress,
-                        Math.min(99, Math.round(prog)),
-                      ),
-                    }
-                  : rr,
-              ),
-            );
-        }
-        if (!done) {
-          // Try to fetch result endpoint variations
-          const endpoints = [
-            `/api/sim/result/${encodeURIComponent(id)}`,
-            `/api/sim/run/${encodeURIComponent(id)}/result`,
-            `/sim/result/${encodeURIComponent(id)}`,
-            `/api/sim/results/${encodeURIComponent(id)}`,
-            `/sim/results/${encodeURIComponent(id)}`,
-            `/api/sim/results?id=${encodeURIComponent(id)}`,
-            `/sim/results?id=${encodeURIComponent(id)}`,
-          ];
-          for (const ep of endpoints) {
-            try {
-              const rr2 = await apiFetch(ep);
-              if (rr2.ok) {
-                const jj = await rr2.json().catch(() => ({}));
-                finalize(jj);
-                return;
-              }
-            } catch {}
-          }
-          // Give up gracefully; mark finished without data
-          setRuns((prev) =>
-            prev.map((rr) =>
-              rr.id === id ? { ...rr, status: "completed", progress: 100 } : rr,
-            ),
-          );
-          stopProgress(id);
-        }
-      }
+      toast({
+        title: "Scenario complete",
+        description: `${cfg.name} (seed ${j?.data?.seed ?? "-"})`,
+      });
     } catch (e: any) {
       toast({
         title: "Scenario failed",
@@ -360,6 +345,92 @@ export default function ScenarioLab() {
     }
   };
 
+  const loadLibrary = async () => {
+    try {
+      const r = await apiFetch("/api/sim/scenarios");
+      if (!r.ok) return;
+      const j = await r.json().catch(() => ({}));
+      if (Array.isArray(j?.data)) setLibrary(j.data);
+    } catch {}
+  };
+
+  const saveScenario = async () => {
+    try {
+      const existing = library.find((s) => s.id === cfg.id);
+      const url = existing
+        ? `/api/sim/scenarios/${encodeURIComponent(existing.id)}`
+        : "/api/sim/scenarios";
+      const r = await apiFetch(url, {
+        method: existing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toScenario(cfg)),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.message || `HTTP ${r.status}`);
+      setCfg(fromScenario(j.data));
+      await loadLibrary();
+      toast({ title: "Scenario saved", description: cfg.name });
+    } catch (e: any) {
+      toast({
+        title: "Save failed",
+        description: e?.message || "Error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteScenario = async (id: string) => {
+    try {
+      await apiFetch(`/api/sim/scenarios/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (cfg.id === id) setCfg((c) => ({ ...c, id: undefined }));
+      await loadLibrary();
+    } catch {}
+  };
+
+  const runMonteCarlo = async () => {
+    setMcRunning(true);
+    try {
+      const j = await postJson<any>("/api/sim/montecarlo", {
+        scenario: toScenario(cfg),
+        paths,
+        seed: seedValue(),
+      });
+      setMc(j?.data || null);
+    } catch (e: any) {
+      toast({
+        title: "Monte Carlo failed",
+        description: e?.message || "Error",
+        variant: "destructive",
+      });
+    } finally {
+      setMcRunning(false);
+    }
+  };
+
+  const runBatch = async () => {
+    const ids = library.filter((s) => batchSel[s.id]).map((s) => s.id);
+    if (ids.length === 0) return;
+    setMcRunning(true);
+    try {
+      const j = await postJson<any>("/api/sim/batch", {
+        scenarios: ids,
+        paths,
+        seed: seedValue(),
+      });
+      setBatch(j?.data?.results || []);
+    } catch (e: any) {
+      toast({
+        title: "Batch failed",
+        description: e?.message || "Error",
+        variant: "destructive",
+      });
+    } finally {
+      setMcRunning(false);
+    }
+  };
+
   const exportSelectedCsv = () => {
     const sels = selectedRuns;
     if (sels.length === 0) return;
@@ -392,6 +463,10 @@ export default function ScenarioLab() {
     });
   }, [runs]);
 
+  useEffect(() => {
+    loadLibrary();
+  }, []);
+
   useEffect(() => {
     (async () => {
       try {
@@ -453,8 +528,8 @@ export default function ScenarioLab() {
         <div>
           <CardTitle>Scenario Lab</CardTitle>
           <CardDescription>
-            Configure shocks and simulate execution via
-            /api/v1/execution/simulate
+            Configure shocks, save them to the scenario library and run seeded
+            paths or Monte Carlo batches
           </CardDescription>
         </div>
         <div className="flex items-center gap-2">
@@ -683,23 +758,18 @@ export default function ScenarioLab() {
                   </div>
                   <div className="h-48">
                     <ResponsiveContainer width="100%" height="100%">
-                      <RechartsLineChart
-                        data={agentRuns[0].spread_over_time.map((p) => ({
-                          t: p.t,
-                          depth_index: 1 / (1 + p.spread_bps / 100),
-                        }))}
-                      >
+                      <RechartsLineChart data={agentRuns[0].spread_over_time}>
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="t" />
-                        <YAxis domain={[0, 1]} />
+                        <YAxis />
                         <RechartsTooltip />
                         <Line
                           type="monotone"
-                          dataKey="depth_index"
+                          dataKey="depth"
                           stroke="#3b82f6"
                           strokeWidth={2}
                           dot={false}
-                          name="Liquidity depth (proxy)"
+                          name="Resting depth (5 levels)"
                         />
                       </RechartsLineChart>
                     </ResponsiveContainer>
@@ -730,7 +800,48 @@ export default function ScenarioLab() {
                         {agentRuns[0].metrics.midprice_drift_bps.toFixed(1)} bps
                       </span>
                     </div>
+                    <div>
+                      Trades:{" "}
+                      <span className="font-semibold">
+                        {agentRuns[0].metrics.trades ?? "-"} (
+                        {agentRuns[0].metrics.volume ?? "-"} units)
+                      </span>
+                    </div>
+                    <div>
+                      Cancel Ratio:{" "}
+                      <span className="font-semibold">
+                        {typeof agentRuns[0].metrics.cancel_ratio === "number"
+                          ? `${Math.round(agentRuns[0].metrics.cancel_ratio * 100)}%`
+                          : "-"}
+                      </span>
+                    </div>
                   </div>
+                  {agentRuns[0].agents && agentRuns[0].agents.length > 0 && (
+                    <ScrollArea className="h-40">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-muted-foreground">
+                            <th>Agent</th>
+                            <th className="text-right">Inventory</th>
+                            <th className="text-right">Fills</th>
+                            <th className="text-right">Cancels</th>
+                            <th className="text-right">PnL</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {agentRuns[0].agents.map((a) => (
+                            <tr key={a.id}>
+                              <td>{a.id}</td>
+                              <td className="text-right">{a.inventory}</td>
+                              <td className="text-right">{a.fills}</td>
+                              <td className="text-right">{a.cancels}</td>
+                              <td className="text-right">{a.pnl.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </ScrollArea>
+                  )}
                 </div>
               ) : (
                 <div className="text-xs text-muted-foreground">
@@ -860,18 +971,214 @@ export default function ScenarioLab() {
             />
           </div>
         </div>
-        <div className="flex flex-wrap gap-2">
-          {presets.map((p) => (
+        <div className="grid md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label>Name</Label>
+            <Input
+              value={cfg.name}
+              onChange={(e) => setCfg((c) => ({ ...c, name: e.target.value }))}
+            />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Seed</Label>
+              <HelpTip content="Same seed, same paths. Leave empty for a random seed." />
+            </div>
+            <Input value={seed} onChange={(e) => setSeed(e.target.value)} />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <Label>Paths</Label>
+              <HelpTip content="Number of Monte Carlo paths (1-5000)." />
+            </div>
+            <Input
+              type="number"
+              min="1"
+              max="5000"
+              value={paths}
+              onChange={(e) => setPaths(Number(e.target.value))}
+            />
+          </div>
+          <div className="md:col-span-2 flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={saveScenario}>
+              {cfg.id ? "Update" : "Save"} Scenario
+            </Button>
             <Button
-              key={p.name}
               variant="outline"
               size="sm"
-              onClick={() => setCfg({ ...p })}
+              onClick={runMonteCarlo}
+              disabled={mcRunning}
             >
-              {p.name}
+              Monte Carlo
             </Button>
-          ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={runBatch}
+              disabled={mcRunning || !library.some((s) => batchSel[s.id])}
+            >
+              Compare Selected
+            </Button>
+          </div>
         </div>
+        <div className="flex flex-wrap gap-2">
+          {library.length > 0
+            ? library.map((s) => (
+                <div
+                  key={s.id}
+                  className={`flex items-center gap-1 border rounded-md px-2 py-1 text-sm ${cfg.id === s.id ? "border-primary" : ""}`}
+                >
+                  <input
+                    type="checkbox"
+                    title="Include in batch comparison"
+                    checked={!!batchSel[s.id]}
+                    onChange={(e) =>
+                      setBatchSel((prev) => ({
+                        ...prev,
+                        [s.id]: e.target.checked,
+                      }))
+                    }
+                  />
+                  <button onClick={() => setCfg(fromScenario(s))}>
+                    {s.name}
+                  </button>
+                  <button
+                    className="text-muted-foreground hover:text-destructive"
+                    title="Delete"
+                    onClick={() => deleteScenario(s.id)}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))
+            : presets.map((p) => (
+                <Button
+                  key={p.name}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCfg({ ...p })}
+                >
+                  {p.name}
+                </Button>
+              ))}
+        </div>
+
+        {mc && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              Monte Carlo: {mc.scenario.name} ({mc.paths} paths, seed {mc.seed})
+            </div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <RechartsLineChart data={mc.bands}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="t" />
+                  <YAxis />
+                  <RechartsTooltip />
+                  <Legend />
+                  <Line
+                    dataKey="p5"
+                    name="P5"
+                    stroke="#ef4444"
+                    strokeDasharray="4 2"
+                    dot={false}
+                  />
+                  <Line dataKey="p25" name="P25" stroke="#f59e0b" dot={false} />
+                  <Line
+                    dataKey="p50"
+                    name="Median"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line dataKey="p75" name="P75" stroke="#16a34a" dot={false} />
+                  <Line
+                    dataKey="p95"
+                    name="P95"
+                    stroke="#16a34a"
+                    strokeDasharray="4 2"
+                    dot={false}
+                  />
+                </RechartsLineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="grid md:grid-cols-4 gap-2 text-sm">
+              <div>
+                VaR 95 / 99:{" "}
+                <span className="font-semibold">
+                  {mc.var["95"].toFixed(2)} / {mc.var["99"].toFixed(2)}
+                </span>
+              </div>
+              <div>
+                CVaR 95 / 99:{" "}
+                <span className="font-semibold">
+                  {mc.cvar["95"].toFixed(2)} / {mc.cvar["99"].toFixed(2)}
+                </span>
+              </div>
+              <div>
+                Median final PnL:{" "}
+                <span className="font-semibold">
+                  {mc.final_pnl.p50.toFixed(2)}
+                </span>
+              </div>
+              <div>
+                Max DD (median / P95):{" "}
+                <span className="font-semibold">
+                  {pct(mc.max_drawdown.p50)} / {pct(mc.max_drawdown.p95)}
+                </span>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {mc.tier_breach.map((b) => (
+                <Badge
+                  key={b.tier}
+                  variant={b.breach_prob > 0.05 ? "destructive" : "outline"}
+                >
+                  {b.label} ({pct(b.max_drawdown)} DD): {pct(b.breach_prob)}{" "}
+                  breach
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {batch.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Batch Comparison</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th>Scenario</th>
+                  <th className="text-right">Median PnL</th>
+                  <th className="text-right">VaR 95</th>
+                  <th className="text-right">CVaR 95</th>
+                  <th className="text-right">P95 DD</th>
+                  {batch[0].tier_breach.map((b) => (
+                    <th key={b.tier} className="text-right">
+                      {b.label} breach
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {batch.map((r, i) => (
+                  <tr key={i}>
+                    <td>{r.scenario.name}</td>
+                    <td className="text-right">{r.final_pnl.p50.toFixed(2)}</td>
+                    <td className="text-right">{r.var["95"].toFixed(2)}</td>
+                    <td className="text-right">{r.cvar["95"].toFixed(2)}</td>
+                    <td className="text-right">{pct(r.max_drawdown.p95)}</td>
+                    {r.tier_breach.map((b) => (
+                      <td key={b.tier} className="text-right">
+                        {pct(b.breach_prob)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
 
         <div className="space-y-3">
           <div className="h-64">
@@ -938,7 +1245,7 @@ export default function ScenarioLab() {
                 </ReBarChart>
               </ResponsiveContainer>
             </div>
-            {/* Fill quality comparison */}
+            {/* Volatility comparison */}
             <div className="h-48">
               <ResponsiveContainer width="100%" height="100%">
                 <ReBarChart
@@ -946,7 +1253,7 @@ export default function ScenarioLab() {
                     .filter((r) => selected[r.id])
                     .map((r) => ({
                       name: r.name,
-                      value: (r.metrics.fillQuality ?? 0) * 100,
+                      value: (r.metrics.volatility ?? 0) * 100,
                     }))}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
@@ -954,7 +1261,7 @@ export default function ScenarioLab() {
                   <YAxis />
                   <ReTooltip />
                   <ReLegend />
-                  <ReBar dataKey="value" name="Fill %" fill="#3b82f6" />
+                  <ReBar dataKey="value" name="Vol % / step" fill="#3b82f6" />
                 </ReBarChart>
               </ResponsiveContainer>
             </div>
@@ -1020,10 +1327,10 @@ export default function ScenarioLab() {
                       </div>
                     </div>
                     <div>
-                      <div className="text-muted-foreground">Fill quality</div>
+                      <div className="text-muted-foreground">Volatility</div>
                       <div className="font-semibold">
-                        {r.metrics.fillQuality !== undefined
-                          ? `${Math.round(r.metrics.fillQuality * 100)}%`
+                        {r.metrics.volatility !== undefined
+                          ? `${(r.metrics.volatility * 100).toFixed(2)}%`
                           : "—"}
                       </div>
                     </div>
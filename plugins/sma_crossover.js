@@ -0,0 +1,59 @@
+// Moving-average crossover strategy plugin.
+//
+// Propose with module path "sma_crossover" (or "strategies.plugins.sma_crossover").
+// Runs inside the plugin sandbox: no require, process or network access.
+// Config: { fast: 12, slow: 48, exposure: 1 }
+
+module.exports = {
+  init(ctx, config) {
+    ctx.state.fast = Math.max(2, Number(config.fast) || 12);
+    ctx.state.slow = Math.max(ctx.state.fast + 1, Number(config.slow) || 48);
+    ctx.state.exposure = Math.min(1, Math.abs(Number(config.exposure) || 1));
+    ctx.state.closes = [];
+    ctx.state.side = 0;
+  },
+
+  onBar(ctx, bar) {
+    const s = ctx.state;
+    s.closes.push(bar.c);
+    if (s.closes.length > s.slow) s.closes.shift();
+    if (s.closes.length < s.slow) return;
+
+    const mean = (xs) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    const fast = mean(s.closes.slice(-s.fast));
+    const slow = mean(s.closes);
+    const side = fast > slow ? 1 : 0;
+    if (side === s.side) return;
+    s.side = side;
+    return {
+      kind: "target",
+      symbol: bar.symbol,
+      exposure: side * s.exposure,
+      reason: side
+        ? "fast SMA crossed above slow"
+        : "fast SMA crossed below slow",
+    };
+  },
+
+  onSignal(ctx, signal) {
+    // Stand aside while the regime detector reports a crisis
+    if (
+      signal.type === "regime_change" &&
+      signal.payload &&
+      signal.payload.to === "Crisis"
+    ) {
+      ctx.state.side = 0;
+      ctx.log("flat on crisis regime", signal.ts);
+      return {
+        kind: "target",
+        symbol: signal.symbol || "BTC",
+        exposure: 0,
+        reason: "crisis regime",
+      };
+    }
+  },
+
+  teardown(ctx) {
+    ctx.state.closes = [];
+  },
+};
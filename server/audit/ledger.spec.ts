@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JournalRepository } from "../storage/journal";
+import { MemoryRepository } from "../storage/repository";
+import { AuditLedger, GENESIS_HASH, type AuditEntry } from "./ledger";
+
+function setup() {
+  const entries = new MemoryRepository<AuditEntry>();
+  let now = Date.parse("2026-01-01T00:00:00Z");
+  const ledger = new AuditLedger({ entries, now: () => (now += 1000) });
+  ledger.append({ actor: "admin", action: "SYSTEM_PAUSE", details: "drill" });
+  ledger.append({
+    actor: "admin",
+    action: "proposal:deployed",
+    target: "PROP-1",
+    before: { band: 5 },
+    after: { band: 3 },
+    requestId: "req-1",
+  });
+  ledger.append({ actor: "ops", action: "SYSTEM_RESUME" });
+  return { entries, ledger };
+}
+
+describe("audit ledger", () => {
+  it("chains each entry to the previous hash and verifies", () => {
+    const { ledger } = setup();
+    const [third, second, first] = ledger.list();
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.prevHash).toBe(first.hash);
+    expect(third.prevHash).toBe(second.hash);
+    expect(ledger.verify()).toEqual({
+      valid: true,
+      count: 3,
+      headHash: third.hash,
+    });
+    expect(ledger.list({ action: "proposal:" })).toHaveLength(1);
+    expect(
+      ledger
+        .toJSONL()
+        .split("\n")
+        .map((l) => JSON.parse(l).seq),
+    ).toEqual([1, 2, 3]);
+  });
+
+  it("reports the first broken link after tampering", () => {
+    const { entries, ledger } = setup();
+    const second = ledger.list({ target: "PROP-1" })[0];
+    entries.upsert({ ...second, after: { band: 1 } });
+    expect(ledger.verify()).toMatchObject({
+      valid: false,
+      headHash: ledger.list({ action: "SYSTEM_PAUSE" })[0].hash,
+      firstBroken: { seq: 2, reason: "hash_mismatch" },
+    });
+
+    entries.upsert(second);
+    entries.remove(second.id);
+    expect(ledger.verify().firstBroken).toMatchObject({
+      seq: 3,
+      reason: "sequence_gap",
+    });
+  });
+
+  it("chains appends from processes sharing a journal", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "aether-ledger-"));
+    try {
+      const file = path.join(dir, "audit.jsonl");
+      const open = () =>
+        new AuditLedger({
+          entries: new JournalRepository<AuditEntry>(file, "audit"),
+        });
+      const a = open();
+      const b = open();
+      a.append({ actor: "admin", action: "SYSTEM_PAUSE" });
+      expect(a.head()?.seq).toBe(1);
+      b.append({ actor: "ops", action: "SYSTEM_RESUME" });
+      a.append({ actor: "admin", action: "SYSTEM_PAUSE" });
+      expect(a.list().map((e) => e.seq)).toEqual([3, 2, 1]);
+      expect(b.verify()).toMatchObject({ valid: true, count: 3 });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,201 @@
+import { createHash } from "crypto";
+import { clone, type Repository } from "../storage/repository";
+
+// Append-only, hash-chained audit ledger shared by every admin action.
+//
+// Each entry carries the hash of the entry before it and its own hash over
+// its canonical JSON (keys sorted, hash field left out), so editing, removing
+// or reordering any stored entry breaks the chain from that point on. The
+// ledger only appends; verify() walks the chain from the first entry and
+// reports the first link that no longer holds. Appends link to the stored
+// head inside the repository's write step, so processes sharing a journal
+// never chain two entries to the same predecessor.
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface AuditEntry {
+  /** Position in the chain, starting at 1 */
+  seq: number;
+  id: string;
+  at: string;
+  actor: string;
+  action: string;
+  /** What the action was applied to, e.g. a proposal, model or API key id */
+  target?: string;
+  before?: unknown;
+  after?: unknown;
+  details?: string;
+  /** Event-specific fields that do not fit the columns above */
+  meta?: Record<string, unknown>;
+  success: boolean;
+  requestId?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditInput = Omit<
+  AuditEntry,
+  "seq" | "id" | "at" | "prevHash" | "hash" | "success"
+> & { success?: boolean };
+
+export type ChainBreak =
+  | "sequence_gap"
+  | "prev_hash_mismatch"
+  | "hash_mismatch";
+
+export interface LedgerVerification {
+  valid: boolean;
+  count: number;
+  /** Hash of the last entry that verified */
+  headHash: string;
+  firstBroken?: { seq: number; id: string; reason: ChainBreak };
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  target?: string;
+  success?: boolean;
+  since?: string;
+  limit?: number;
+}
+
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value).filter(
+      (k) => (value as any)[k] !== undefined,
+    );
+    return `{${keys
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical((value as any)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashEntry(entry: Omit<AuditEntry, "hash">): string {
+  const { hash: _ignored, ...rest } = entry as AuditEntry;
+  return createHash("sha256").update(canonical(rest)).digest("hex");
+}
+
+// Links inputs into a chain after `prev`; also used to build seed entries
+export function chainEntries(
+  inputs: Array<AuditInput & { at: string }>,
+  prev?: Pick<AuditEntry, "seq" | "hash">,
+): AuditEntry[] {
+  let seq = prev?.seq ?? 0;
+  let prevHash = prev?.hash ?? GENESIS_HASH;
+  return inputs.map(({ at, success = true, ...input }) => {
+    seq += 1;
+    const entry = {
+      ...input,
+      seq,
+      id: `audit_${String(seq).padStart(8, "0")}`,
+      at,
+      success,
+      prevHash,
+    };
+    const hash = hashEntry(entry);
+    prevHash = hash;
+    return { ...entry, hash };
+  });
+}
+
+function bySeq(a: AuditEntry, b: AuditEntry) {
+  return a.seq - b.seq;
+}
+
+export class AuditLedger {
+  private readonly now: () => number;
+  // The stored chain by seq; reloaded when the store holds more entries,
+  // i.e. another process appended
+  private cached: AuditEntry[] = [];
+
+  constructor(
+    private readonly options: {
+      entries: Repository<AuditEntry>;
+      now?: () => number;
+    },
+  ) {
+    this.now = options.now || Date.now;
+  }
+
+  private stored(): AuditEntry[] {
+    return this.options.entries.list().sort(bySeq);
+  }
+
+  private chain(): AuditEntry[] {
+    if (this.options.entries.count() !== this.cached.length) {
+      this.cached = this.stored();
+    }
+    return this.cached;
+  }
+
+  head(): AuditEntry | undefined {
+    const chain = this.chain();
+    return clone(chain[chain.length - 1]);
+  }
+
+  append(input: AuditInput): AuditEntry {
+    const at = new Date(this.now()).toISOString();
+    const entry = this.options.entries.insert(
+      (last) => chainEntries([{ ...input, at }], last)[0],
+    );
+    if (this.cached.length === entry.seq - 1) this.cached.push(clone(entry));
+    return entry;
+  }
+
+  /** Newest first */
+  list(query: AuditQuery = {}): AuditEntry[] {
+    const since = query.since ? Date.parse(query.since) : NaN;
+    const matches = [...this.chain()]
+      .reverse()
+      .filter(
+        (e) =>
+          (!query.action || e.action.startsWith(query.action)) &&
+          (!query.actor || e.actor === query.actor) &&
+          (!query.target || e.target === query.target) &&
+          (query.success === undefined || e.success === query.success) &&
+          (Number.isNaN(since) || Date.parse(e.at) >= since),
+      );
+    return (query.limit ? matches.slice(0, query.limit) : matches).map(clone);
+  }
+
+  // Reads the store itself, so entries edited in place are caught
+  verify(): LedgerVerification {
+    const chain = this.stored();
+    let prev: AuditEntry | undefined;
+    for (const entry of chain) {
+      const reason: ChainBreak | undefined =
+        entry.seq !== (prev?.seq ?? 0) + 1
+          ? "sequence_gap"
+          : entry.prevHash !== (prev?.hash ?? GENESIS_HASH)
+            ? "prev_hash_mismatch"
+            : hashEntry(entry) !== entry.hash
+              ? "hash_mismatch"
+              : undefined;
+      if (reason) {
+        return {
+          valid: false,
+          count: chain.length,
+          headHash: prev?.hash ?? GENESIS_HASH,
+          firstBroken: { seq: entry.seq, id: entry.id, reason },
+        };
+      }
+      prev = entry;
+    }
+    return {
+      valid: true,
+      count: chain.length,
+      headHash: prev?.hash ?? GENESIS_HASH,
+    };
+  }
+
+  /** One entry per line, oldest first, as stored */
+  toJSONL(): string {
+    return this.stored()
+      .map((e) => JSON.stringify(e))
+      .join("\n");
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  BacktestValidationError,
+  normalizeBacktestConfig,
+  runBacktest,
+} from "./engine";
+
+const prices = [100, 102, 101, 105, 110, 108, 112, 115, 111, 118];
+const actions = [0, 1, 1, 1, 0.5, 0.5, 1, 0, 0, 1];
+
+describe("runBacktest", () => {
+  it("is reproducible for the same seed", () => {
+    const cfg = normalizeBacktestConfig({ prices, actions, seed: 3 });
+    expect(JSON.stringify(runBacktest(cfg))).toBe(
+      JSON.stringify(runBacktest(cfg)),
+    );
+    const other = normalizeBacktestConfig({ prices, actions, seed: 4 });
+    expect(runBacktest(other).finalEquity).not.toBe(
+      runBacktest(cfg).finalEquity,
+    );
+  });
+
+  it("matches buy-and-hold exactly when trading is free", () => {
+    const cfg = normalizeBacktestConfig({
+      prices,
+      actions: prices.map(() => 1),
+      fee: 0,
+      slippage_bps: 0,
+      slippage_jitter_bps: 0,
+      starting_balance: 1000,
+    });
+    const r = runBacktest(cfg);
+    expect(r.totals.trades).toBe(1);
+    expect(r.finalEquity).toBeCloseTo(1000 * (118 / 100), 6);
+  });
+
+  it("charges fees and slippage and keeps long-only cash non-negative", () => {
+    const cfg = normalizeBacktestConfig({ prices, actions, fee: 0.01 });
+    const r = runBacktest(cfg);
+    expect(r.totals.fees).toBeGreaterThan(0);
+    expect(r.totals.slippage).toBeGreaterThan(0);
+    expect(r.equityCurve.every((p) => p.cash >= -1e-6)).toBe(true);
+    expect(r.equityCurve.every((p) => p.position >= 0)).toBe(true);
+  });
+
+  it("caps fills at the bar volume participation", () => {
+    const cfg = normalizeBacktestConfig({
+      prices,
+      actions: prices.map(() => 1),
+      volumes: prices.map(() => 10),
+      max_participation: 0.5,
+    });
+    const r = runBacktest(cfg);
+    expect(r.trades.every((t) => t.qty <= 5 + 1e-9)).toBe(true);
+  });
+
+  it("rejects mismatched series", () => {
+    expect(() =>
+      normalizeBacktestConfig({ prices: [1, 2], actions: [1] }),
+    ).toThrow(BacktestValidationError);
+  });
+});
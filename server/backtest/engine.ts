@@ -0,0 +1,489 @@
+import crypto from "crypto";
+import { INTERVAL_MS } from "../routes/tasks";
+
+// Deterministic, event-driven backtest engine.
+//
+// Replays a price series bar by bar. Each bar's action is the target exposure
+// (fraction of equity held in the asset: 1 = fully long, 0 = flat, -1 = fully
+// short when shorting is allowed); the engine trades the difference at that
+// bar's price, paying a fee and slippage, optionally capped by the bar volume.
+// The only randomness is the slippage jitter, drawn from a PRNG seeded by the
+// config, and bar timestamps derive from start_date rather than the wall
+// clock, so the same config always yields byte-identical results.
+
+export interface BacktestConfig {
+  prices: number[];
+  /** Target exposure per bar, clamped to [-1, 1] (or [0, 1] long-only) */
+  actions: number[];
+  /** Units traded per bar; enables participation caps and market impact */
+  volumes?: number[];
+  seed: number;
+  starting_balance: number;
+  /** Proportional fee on traded notional, e.g. 0.001 = 10 bps */
+  fee: number;
+  slippage_bps: number;
+  /** Extra seeded slippage, uniform in [0, slippage_jitter_bps] */
+  slippage_jitter_bps: number;
+  /** Square-root impact coefficient applied to bar participation */
+  impact_coef: number;
+  /** Largest share of a bar's volume a single rebalance may take */
+  max_participation: number;
+  allow_short: boolean;
+  symbol: string;
+  start_date: string;
+  interval: string;
+}
+
+export interface BacktestTrade {
+  id: string;
+  bar: number;
+  date: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  qty: number;
+  price: number;
+  notional: number;
+  fees: number;
+  slippage: number;
+  /** Realized P&L of the closed portion, net of this trade's fee */
+  pnl: number;
+  closing: boolean;
+}
+
+export interface EquityPoint {
+  t: number;
+  date: string;
+  price: number;
+  equity: number;
+  cash: number;
+  position: number;
+  exposure: number;
+}
+
+export interface BacktestResult {
+  engine: string;
+  inputsSha256: string;
+  params: Omit<BacktestConfig, "prices" | "actions" | "volumes">;
+  symbol: string;
+  bars: number;
+  period: { start: string; end: string };
+  startingBalance: number;
+  finalEquity: number;
+  netPnl: number;
+  returnPct: number;
+  sharpe: number;
+  sortino: number;
+  maxDrawdown: number;
+  profitFactor: number | null;
+  expectancy: number;
+  winRate: number;
+  exposure: { average: number; max: number };
+  totals: {
+    fees: number;
+    slippage: number;
+    turnover: number;
+    trades: number;
+    closingTrades: number;
+  };
+  factorAttribution: Array<{ factor: string; contribution: number }>;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+export const BACKTEST_DEFAULTS = {
+  seed: 42,
+  starting_balance: 100_000,
+  fee: 0.001,
+  slippage_bps: 5,
+  slippage_jitter_bps: 2,
+  impact_coef: 0.01,
+  max_participation: 0.1,
+  allow_short: false,
+  symbol: "BTC/USDT",
+  start_date: "2024-01-01T00:00:00.000Z",
+  interval: "1d",
+};
+
+export const MAX_BARS = 50_000;
+
+export class BacktestValidationError extends Error {}
+export class BacktestTimeoutError extends Error {}
+
+// mulberry32: small, fast and stable across platforms
+export function seededRandom(seed: number) {
+  let a = Math.floor(seed) >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function finiteArray(v: unknown, name: string, positive = false) {
+  if (!Array.isArray(v))
+    throw new BacktestValidationError(`${name} must be an array`);
+  const out = v.map(Number);
+  if (out.some((x) => !Number.isFinite(x) || (positive ? x <= 0 : false))) {
+    throw new BacktestValidationError(
+      `${name} must contain only finite${positive ? " positive" : ""} numbers`,
+    );
+  }
+  return out;
+}
+
+function numberIn(
+  v: unknown,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+) {
+  if (v === undefined || v === null || v === "") return fallback;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new BacktestValidationError(
+      `${name} must be a number in [${min}, ${max}]`,
+    );
+  }
+  return n;
+}
+
+/** Validates a client payload and fills in defaults; throws BacktestValidationError */
+export function normalizeBacktestConfig(raw: any): BacktestConfig {
+  if (!raw || typeof raw !== "object") {
+    throw new BacktestValidationError("config is required");
+  }
+  const prices = finiteArray(raw.prices, "prices", true);
+  const actions = finiteArray(raw.actions, "actions");
+  if (!prices.length || !actions.length) {
+    throw new BacktestValidationError("prices and actions are required");
+  }
+  if (prices.length !== actions.length) {
+    throw new BacktestValidationError(
+      "prices and actions must have matching lengths",
+    );
+  }
+  if (prices.length > MAX_BARS) {
+    throw new BacktestValidationError(`at most ${MAX_BARS} bars are supported`);
+  }
+  let volumes: number[] | undefined;
+  if (raw.volumes !== undefined && raw.volumes !== null) {
+    volumes = finiteArray(raw.volumes, "volumes");
+    if (volumes.length !== prices.length) {
+      throw new BacktestValidationError("volumes length must match prices");
+    }
+    if (volumes.some((v) => v < 0)) {
+      throw new BacktestValidationError("volumes must be non-negative");
+    }
+  }
+  const interval = String(raw.interval ?? BACKTEST_DEFAULTS.interval);
+  if (!INTERVAL_MS[interval]) {
+    throw new BacktestValidationError(
+      `interval must be one of ${Object.keys(INTERVAL_MS).join(", ")}`,
+    );
+  }
+  const startDate = String(raw.start_date ?? BACKTEST_DEFAULTS.start_date);
+  if (!Number.isFinite(Date.parse(startDate))) {
+    throw new BacktestValidationError("start_date must be an ISO date");
+  }
+  const D = BACKTEST_DEFAULTS;
+  return {
+    prices,
+    actions,
+    volumes,
+    seed: numberIn(raw.seed, "seed", D.seed, -(2 ** 53), 2 ** 53),
+    starting_balance: numberIn(
+      raw.starting_balance,
+      "starting_balance",
+      D.starting_balance,
+      1e-6,
+      1e15,
+    ),
+    fee: numberIn(raw.fee, "fee", D.fee, 0, 1),
+    slippage_bps: numberIn(
+      raw.slippage_bps,
+      "slippage_bps",
+      D.slippage_bps,
+      0,
+      10_000,
+    ),
+    slippage_jitter_bps: numberIn(
+      raw.slippage_jitter_bps,
+      "slippage_jitter_bps",
+      D.slippage_jitter_bps,
+      0,
+      10_000,
+    ),
+    impact_coef: numberIn(raw.impact_coef, "impact_coef", D.impact_coef, 0, 10),
+    max_participation: numberIn(
+      raw.max_participation,
+      "max_participation",
+      D.max_participation,
+      0,
+      1,
+    ),
+    allow_short: raw.allow_short === true,
+    symbol: String(raw.symbol || D.symbol),
+    start_date: new Date(startDate).toISOString(),
+    interval,
+  };
+}
+
+function round(x: number, dp = 8) {
+  return +x.toFixed(dp);
+}
+
+function inputsHash(c: BacktestConfig) {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([c.prices, c.actions, c.volumes ?? null]))
+    .digest("hex");
+}
+
+export function runBacktest(
+  config: BacktestConfig,
+  opts: { deadline?: number } = {},
+): BacktestResult {
+  const { prices, actions, volumes } = config;
+  const rand = seededRandom(config.seed);
+  const stepMs = INTERVAL_MS[config.interval];
+  const t0 = Date.parse(config.start_date);
+  const minExposure = config.allow_short ? -1 : 0;
+
+  let cash = config.starting_balance;
+  let position = 0;
+  let avgCost = 0;
+  let fees = 0;
+  let slippage = 0;
+  let turnover = 0;
+  const trades: BacktestTrade[] = [];
+  const curve: EquityPoint[] = [];
+
+  for (let i = 0; i < prices.length; i++) {
+    if (opts.deadline && (i & 1023) === 0 && Date.now() > opts.deadline) {
+      throw new BacktestTimeoutError(
+        `backtest exceeded its time budget at bar ${i}`,
+      );
+    }
+    const price = prices[i];
+    const date = new Date(t0 + i * stepMs).toISOString();
+    const equity = cash + position * price;
+    const target = Math.max(minExposure, Math.min(1, actions[i]));
+    let delta = equity > 0 ? (target * equity) / price - position : -position;
+
+    if (volumes) {
+      const cap = volumes[i] * config.max_participation;
+      delta = Math.sign(delta) * Math.min(Math.abs(delta), cap);
+    }
+
+    // Ignore dust rebalances (below a hundredth of a basis point of equity)
+    if (Math.abs(delta * price) > Math.max(1e-9, Math.abs(equity) * 1e-6)) {
+      const side = delta > 0 ? "BUY" : "SELL";
+      const participation =
+        volumes && volumes[i] > 0 ? Math.abs(delta) / volumes[i] : 0;
+      const slipFrac =
+        (config.slippage_bps + config.slippage_jitter_bps * rand()) / 10_000 +
+        config.impact_coef * Math.sqrt(participation);
+      const execPrice = price * (side === "BUY" ? 1 + slipFrac : 1 - slipFrac);
+
+      // Long-only buys are limited by cash, fees included
+      if (side === "BUY" && !config.allow_short) {
+        const affordable = Math.max(0, cash / (execPrice * (1 + config.fee)));
+        delta = Math.min(delta, affordable);
+      }
+      if (delta !== 0) {
+        const qty = Math.abs(delta);
+        const notional = qty * execPrice;
+        const fee = notional * config.fee;
+        const slip = qty * Math.abs(execPrice - price);
+
+        // Average-cost accounting: realize P&L on the part that reduces the position
+        let realized = 0;
+        let closing = false;
+        if (position !== 0 && Math.sign(delta) !== Math.sign(position)) {
+          const closed = Math.min(qty, Math.abs(position));
+          realized = closed * (execPrice - avgCost) * Math.sign(position);
+          closing = true;
+          const remainder = qty - closed;
+          position += delta;
+          if (Math.abs(position) < 1e-12) position = 0;
+          if (remainder > 0) avgCost = execPrice;
+        } else {
+          avgCost =
+            (position * avgCost + delta * execPrice) / (position + delta);
+          position += delta;
+        }
+
+        cash -= delta * execPrice + fee;
+        fees += fee;
+        slippage += slip;
+        turnover += notional;
+        trades.push({
+          id: `t${trades.length + 1}`,
+          bar: i,
+          date,
+          symbol: config.symbol,
+          side,
+          qty: round(qty),
+          price: round(execPrice),
+          notional: round(notional, 6),
+          fees: round(fee, 6),
+          slippage: round(slip, 6),
+          pnl: round(closing ? realized - fee : -fee, 6),
+          closing,
+        });
+      }
+    }
+
+    const marked = cash + position * price;
+    curve.push({
+      t: i,
+      date,
+      price,
+      equity: round(marked, 6),
+      cash: round(cash, 6),
+      position: round(position),
+      exposure: round(marked !== 0 ? (position * price) / marked : 0, 6),
+    });
+  }
+
+  return summarize(config, curve, trades, { fees, slippage, turnover });
+}
+
+function summarize(
+  config: BacktestConfig,
+  curve: EquityPoint[],
+  trades: BacktestTrade[],
+  costs: { fees: number; slippage: number; turnover: number },
+): BacktestResult {
+  const start = config.starting_balance;
+  const final = curve.length ? curve[curve.length - 1].equity : start;
+  const periodsPerYear = (365 * 86_400_000) / INTERVAL_MS[config.interval];
+
+  const rets: number[] = [];
+  let prev = start;
+  for (const p of curve) {
+    rets.push(prev > 0 ? p.equity / prev - 1 : 0);
+    prev = p.equity;
+  }
+  const mean = rets.reduce((s, r) => s + r, 0) / Math.max(1, rets.length);
+  const sd = Math.sqrt(
+    rets.reduce((s, r) => s + (r - mean) ** 2, 0) /
+      Math.max(1, rets.length - 1),
+  );
+  const downside = Math.sqrt(
+    rets.reduce((s, r) => s + Math.min(0, r) ** 2, 0) /
+      Math.max(1, rets.length),
+  );
+  const annual = Math.sqrt(periodsPerYear);
+
+  let peak = start;
+  let maxDd = 0;
+  for (const p of curve) {
+    peak = Math.max(peak, p.equity);
+    if (peak > 0) maxDd = Math.min(maxDd, p.equity / peak - 1);
+  }
+
+  const closing = trades.filter((t) => t.closing);
+  const wins = closing.filter((t) => t.pnl > 0);
+  const grossProfit = wins.reduce((s, t) => s + t.pnl, 0);
+  const grossLoss = -closing
+    .filter((t) => t.pnl < 0)
+    .reduce((s, t) => s + t.pnl, 0);
+
+  // Return split: the asset move at the average exposure held, the costs paid,
+  // and what remains, which is down to when exposure was taken
+  const exposures = curve.map((p) => p.exposure);
+  const avgExposure =
+    exposures.reduce((s, e) => s + e, 0) / Math.max(1, exposures.length);
+  const assetReturn = curve.length
+    ? curve[curve.length - 1].price / curve[0].price - 1
+    : 0;
+  const totalReturn = start > 0 ? final / start - 1 : 0;
+  const market = avgExposure * assetReturn;
+  const costDrag = -(costs.fees + costs.slippage) / start;
+
+  return {
+    engine: "aether-backtest/1",
+    inputsSha256: inputsHash(config),
+    params: {
+      seed: config.seed,
+      starting_balance: config.starting_balance,
+      fee: config.fee,
+      slippage_bps: config.slippage_bps,
+      slippage_jitter_bps: config.slippage_jitter_bps,
+      impact_coef: config.impact_coef,
+      max_participation: config.max_participation,
+      allow_short: config.allow_short,
+      symbol: config.symbol,
+      start_date: config.start_date,
+      interval: config.interval,
+    },
+    symbol: config.symbol,
+    bars: curve.length,
+    period: {
+      start: curve[0]?.date ?? config.start_date,
+      end: curve[curve.length - 1]?.date ?? config.start_date,
+    },
+    startingBalance: start,
+    finalEquity: round(final, 6),
+    netPnl: round(final - start, 6),
+    returnPct: round(totalReturn),
+    sharpe: round(sd > 0 ? (mean / sd) * annual : 0, 4),
+    sortino: round(downside > 0 ? (mean / downside) * annual : 0, 4),
+    maxDrawdown: round(maxDd, 6),
+    profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss, 4) : null,
+    expectancy: round(
+      closing.length
+        ? closing.reduce((s, t) => s + t.pnl, 0) / closing.length
+        : 0,
+      6,
+    ),
+    winRate: round(closing.length ? wins.length / closing.length : 0, 6),
+    exposure: {
+      average: round(avgExposure, 6),
+      max: round(
+        exposures.reduce((m, e) => Math.max(m, Math.abs(e)), 0),
+        6,
+      ),
+    },
+    totals: {
+      fees: round(costs.fees, 6),
+      slippage: round(costs.slippage, 6),
+      turnover: round(costs.turnover, 6),
+      trades: trades.length,
+      closingTrades: closing.length,
+    },
+    factorAttribution: [
+      { factor: "market", contribution: round(market, 6) },
+      {
+        factor: "timing",
+        contribution: round(totalReturn - market - costDrag, 6),
+      },
+      { factor: "costs", contribution: round(costDrag, 6) },
+    ],
+    equityCurve: curve,
+    trades,
+  };
+}
+
+/** One row per calendar day: closing equity, daily return and drawdown */
+export function dailyRows(result: BacktestResult) {
+  const byDay = new Map<string, EquityPoint>();
+  for (const p of result.equityCurve) byDay.set(p.date.slice(0, 10), p);
+  let prev = result.startingBalance;
+  let peak = result.startingBalance;
+  return Array.from(byDay.entries()).map(([date, p]) => {
+    peak = Math.max(peak, p.equity);
+    const row = {
+      date,
+      equity: p.equity,
+      return: round(prev > 0 ? p.equity / prev - 1 : 0),
+      drawdown: round(peak > 0 ? p.equity / peak - 1 : 0),
+    };
+    prev = p.equity;
+    return row;
+  });
+}
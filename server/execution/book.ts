@@ -0,0 +1,198 @@
+// Limit order book snapshots for the execution simulator.
+//
+// A snapshot is the visible depth at one instant plus the volume that traded
+// until the next snapshot. Callers may upload real depth ({ t, bids, asks }) or
+// the older price series ({ t, price, volume }); for the latter a book is
+// synthesised around each price with a fixed spread and depth that scales
+// with the row's volume, so both inputs go through the same matching code.
+
+export interface Level {
+  price: number;
+  size: number;
+}
+
+export interface BookSnapshot {
+  t: string;
+  bids: Level[]; // best (highest) first
+  asks: Level[]; // best (lowest) first
+  /** Units traded between this snapshot and the next */
+  volume: number;
+  /** Seller-initiated volume (hits bids); defaults to half of volume */
+  sellVolume: number;
+  /** Buyer-initiated volume (lifts asks); defaults to half of volume */
+  buyVolume: number;
+  /** True when depth was synthesised from a price row */
+  synthetic: boolean;
+}
+
+export interface SynthesisOptions {
+  /** Quoted spread for synthesised books */
+  spread_bps: number;
+  /** Price step between synthesised levels */
+  level_step_bps: number;
+  levels: number;
+  /** Visible depth per side as a multiple of the row's volume */
+  depth_multiple: number;
+}
+
+export const SYNTHESIS_DEFAULTS: SynthesisOptions = {
+  spread_bps: 2,
+  level_step_bps: 1,
+  levels: 10,
+  depth_multiple: 1,
+};
+
+export class OrderBookError extends Error {}
+
+function num(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function parseLevels(raw: unknown): Level[] {
+  if (!Array.isArray(raw)) return [];
+  const out: Level[] = [];
+  for (const l of raw) {
+    const price = num(
+      Array.isArray(l) ? l[0] : ((l as any)?.price ?? (l as any)?.p),
+    );
+    const size = num(
+      Array.isArray(l)
+        ? l[1]
+        : ((l as any)?.size ?? (l as any)?.qty ?? (l as any)?.volume),
+    );
+    if (price > 0 && size > 0) out.push({ price, size });
+  }
+  return out;
+}
+
+function synthesiseLevels(
+  mid: number,
+  volume: number,
+  side: 1 | -1,
+  o: SynthesisOptions,
+): Level[] {
+  const perSide = Math.max(volume, 1e-9) * o.depth_multiple;
+  // Thinner at the touch, thicker further out: weights 0.6, 0.7, ... normalised
+  const weights = Array.from({ length: o.levels }, (_, i) => 0.6 + 0.1 * i);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return weights.map((w, i) => ({
+    price: mid * (1 + (side * (o.spread_bps / 2 + i * o.level_step_bps)) / 1e4),
+    size: (perSide * w) / total,
+  }));
+}
+
+export function mid(book: Pick<BookSnapshot, "bids" | "asks">) {
+  const bid = book.bids[0]?.price;
+  const ask = book.asks[0]?.price;
+  if (bid && ask) return (bid + ask) / 2;
+  return bid || ask || 0;
+}
+
+/** Accepts depth snapshots, a price series, or a mix, in time order */
+export function parseSnapshots(
+  rows: unknown,
+  synthesis: Partial<SynthesisOptions> = {},
+): BookSnapshot[] {
+  if (!Array.isArray(rows))
+    throw new OrderBookError("orderBook array required");
+  const o = { ...SYNTHESIS_DEFAULTS, ...synthesis };
+  const out: BookSnapshot[] = [];
+  rows.forEach((r: any, i) => {
+    if (!r || typeof r !== "object") return;
+    const t = String(r.t || r.time || r.ts || new Date(i * 1000).toISOString());
+    let bids = parseLevels(r.bids).sort((a, b) => b.price - a.price);
+    let asks = parseLevels(r.asks).sort((a, b) => a.price - b.price);
+    let volume = num(r.volume ?? r.size ?? r.v);
+    const synthetic = !bids.length && !asks.length;
+    if (synthetic) {
+      const price = num(r.price ?? r.p);
+      if (!(price > 0)) return;
+      if (!(volume > 0)) volume = 1;
+      bids = synthesiseLevels(price, volume, -1, o);
+      asks = synthesiseLevels(price, volume, 1, o);
+    } else if (!(volume > 0)) {
+      // No tape supplied: assume a tenth of the visible touch trades per step
+      volume = ((bids[0]?.size || 0) + (asks[0]?.size || 0)) * 0.1;
+    }
+    if (bids.length && asks.length && bids[0].price >= asks[0].price) {
+      throw new OrderBookError(`crossed book at row ${i}`);
+    }
+    const sellVolume = num(r.sell_volume);
+    const buyVolume = num(r.buy_volume);
+    out.push({
+      t,
+      bids,
+      asks,
+      volume,
+      sellVolume: sellVolume >= 0 ? sellVolume : volume / 2,
+      buyVolume: buyVolume >= 0 ? buyVolume : volume / 2,
+      synthetic,
+    });
+  });
+  return out;
+}
+
+export interface WalkResult {
+  filled: number;
+  notional: number;
+  levels: number;
+  /** Worst price touched */
+  lastPrice: number;
+}
+
+/**
+ * Takes liquidity from the opposite side, best level first, stopping at the
+ * limit price if one is given. Mutates the levels it consumes.
+ */
+export function walkBook(
+  levels: Level[],
+  qty: number,
+  isBuy: boolean,
+  limitPrice?: number,
+): WalkResult {
+  let remaining = qty;
+  let notional = 0;
+  let touched = 0;
+  let lastPrice = 0;
+  for (const level of levels) {
+    if (remaining <= 1e-12) break;
+    if (
+      limitPrice !== undefined &&
+      (isBuy ? level.price > limitPrice : level.price < limitPrice)
+    ) {
+      break;
+    }
+    const take = Math.min(remaining, level.size);
+    if (take <= 0) continue;
+    level.size -= take;
+    remaining -= take;
+    notional += take * level.price;
+    lastPrice = level.price;
+    touched++;
+  }
+  return { filled: qty - remaining, notional, levels: touched, lastPrice };
+}
+
+/** Removes `qty` of depth from the top of a side (liquidity not yet refilled) */
+export function deplete(levels: Level[], qty: number) {
+  let left = qty;
+  for (const level of levels) {
+    if (left <= 0) break;
+    const take = Math.min(left, level.size);
+    level.size -= take;
+    left -= take;
+  }
+}
+
+/** Moves every level by `shift` (a fraction of price, signed) */
+export function shiftBook(book: BookSnapshot, shift: number): BookSnapshot {
+  const move = (l: Level) => ({ price: l.price * (1 + shift), size: l.size });
+  return { ...book, bids: book.bids.map(move), asks: book.asks.map(move) };
+}
+
+/** Size resting at exactly `price` on one side */
+export function sizeAt(levels: Level[], price: number) {
+  const eps = price * 1e-9;
+  return levels.find((l) => Math.abs(l.price - price) <= eps)?.size || 0;
+}
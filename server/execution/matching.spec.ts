@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { MatchingEngine } from "./matching";
+import { simulateAgents } from "../routes/sim_agents";
+
+describe("MatchingEngine", () => {
+  it("fills by price, then time, and rests the remainder", () => {
+    const book = new MatchingEngine();
+    book.submit({ owner: "a", side: "sell", qty: 2, price: 101 });
+    book.submit({ owner: "b", side: "sell", qty: 3, price: 100 });
+    book.submit({ owner: "c", side: "sell", qty: 3, price: 100 });
+
+    const r = book.submit({ owner: "x", side: "buy", qty: 7, price: 101 });
+    expect(r.trades.map((t) => [t.maker, t.price, t.qty])).toEqual([
+      ["b", 100, 3],
+      ["c", 100, 3],
+      ["a", 101, 1],
+    ]);
+    expect(r.resting).toBe(0);
+    expect(book.bestAsk()).toBe(101);
+    expect(book.depth().ask).toBe(1);
+
+    const rest = book.submit({ owner: "x", side: "buy", qty: 4, price: 99 });
+    expect(rest.resting).toBe(4);
+    expect(book.bestBid()).toBe(99);
+  });
+
+  it("drops the unfilled part of IOC and market orders", () => {
+    const book = new MatchingEngine();
+    book.submit({ owner: "a", side: "buy", qty: 2, price: 99 });
+    const ioc = book.submit({
+      owner: "x",
+      side: "sell",
+      qty: 5,
+      price: 99,
+      ioc: true,
+    });
+    expect(ioc.filled).toBe(2);
+    expect(ioc.resting).toBe(0);
+    const mkt = book.submit({ owner: "x", side: "sell", qty: 1 });
+    expect(mkt.filled).toBe(0);
+    expect(book.bestBid()).toBeUndefined();
+  });
+
+  it("cancels resting orders instead of trading with the same owner", () => {
+    const book = new MatchingEngine();
+    book.submit({ owner: "a", side: "sell", qty: 1, price: 100 });
+    book.submit({ owner: "b", side: "sell", qty: 1, price: 100 });
+    const r = book.submit({ owner: "a", side: "buy", qty: 2, price: 100 });
+    expect(r.trades.map((t) => t.maker)).toEqual(["b"]);
+    expect(r.resting).toBe(1);
+    expect(book.ordersOf("a")).toEqual([
+      expect.objectContaining({ side: "buy", qty: 1, price: 100 }),
+    ]);
+    expect(book.cancelAll("a")).toBe(1);
+    expect(book.bestBid()).toBeUndefined();
+  });
+});
+
+describe("simulateAgents", () => {
+  it("is reproducible for a seed", () => {
+    const cfg = {
+      profiles: [
+        {
+          type: "market_maker" as const,
+          count: 2,
+          aggression: 0.5,
+          capital: 1,
+        },
+        {
+          type: "momentum_trader" as const,
+          count: 2,
+          aggression: 0.7,
+          capital: 0.5,
+        },
+      ],
+      seed: 7,
+      steps: 100,
+    };
+    const a = simulateAgents(cfg);
+    const b = simulateAgents(cfg);
+    expect(a.metrics).toEqual(b.metrics);
+    expect(a.agents).toEqual(b.agents);
+    // Every trade has a buyer and a seller, so inventories net to zero
+    expect(a.agents.reduce((s, x) => s + x.inventory, 0)).toBe(0);
+  });
+});
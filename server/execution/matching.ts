@@ -0,0 +1,209 @@
+// Price-time priority limit order book with a matching engine.
+//
+// Prices are integer ticks so levels compare exactly. Each level is a FIFO
+// queue; an incoming order trades against the best opposite level first and,
+// within a level, against the oldest resting order first. Limit orders rest
+// whatever does not cross; market orders (and immediate-or-cancel limits)
+// drop their remainder.
+
+export type Side = "buy" | "sell";
+
+export interface RestingOrder {
+  id: number;
+  owner: string;
+  side: Side;
+  price: number; // ticks
+  qty: number; // remaining
+  seq: number;
+}
+
+export interface Trade {
+  seq: number;
+  price: number; // ticks
+  qty: number;
+  maker: string;
+  taker: string;
+  makerOrderId: number;
+  /** Side of the incoming (aggressing) order */
+  aggressor: Side;
+}
+
+export interface OrderRequest {
+  owner: string;
+  side: Side;
+  qty: number;
+  /** Limit price in ticks; omitted for a market order */
+  price?: number;
+  /** Cancel any part that does not trade immediately */
+  ioc?: boolean;
+}
+
+export interface SubmitResult {
+  orderId: number;
+  filled: number;
+  /** Quantity left resting on the book (0 for market/IOC) */
+  resting: number;
+  trades: Trade[];
+}
+
+interface Level {
+  price: number;
+  orders: RestingOrder[];
+  /** Total resting quantity, kept in step with `orders` */
+  size: number;
+}
+
+export class MatchingEngine {
+  private bids: Level[] = []; // best (highest) first
+  private asks: Level[] = []; // best (lowest) first
+  private orders = new Map<number, RestingOrder>();
+  private byOwner = new Map<string, Set<number>>();
+  private nextId = 1;
+  private seq = 0;
+  readonly trades: Trade[] = [];
+  /** Called for every trade, after the book has been updated */
+  onTrade?: (t: Trade) => void;
+
+  bestBid(): number | undefined {
+    return this.bids[0]?.price;
+  }
+
+  bestAsk(): number | undefined {
+    return this.asks[0]?.price;
+  }
+
+  /** Total resting quantity on each side within `levels` of the touch */
+  depth(levels = 5) {
+    const sum = (side: Level[]) =>
+      side.slice(0, levels).reduce((a, l) => a + l.size, 0);
+    return { bid: sum(this.bids), ask: sum(this.asks) };
+  }
+
+  get(orderId: number): RestingOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  ordersOf(owner: string): RestingOrder[] {
+    return [...(this.byOwner.get(owner) || [])].map(
+      (id) => this.orders.get(id)!,
+    );
+  }
+
+  submit(req: OrderRequest): SubmitResult {
+    const id = this.nextId++;
+    const isBuy = req.side === "buy";
+    const book = isBuy ? this.asks : this.bids;
+    const trades: Trade[] = [];
+    let remaining = req.qty;
+
+    while (remaining > 0 && book.length) {
+      const level = book[0];
+      if (
+        req.price !== undefined &&
+        (isBuy ? level.price > req.price : level.price < req.price)
+      ) {
+        break;
+      }
+      while (remaining > 0 && level.orders.length) {
+        const maker = level.orders[0];
+        // Self-trades are prevented by cancelling the resting order
+        if (maker.owner === req.owner) {
+          level.orders.shift();
+          level.size -= maker.qty;
+          this.forget(maker);
+          continue;
+        }
+        const qty = Math.min(remaining, maker.qty);
+        maker.qty -= qty;
+        level.size -= qty;
+        remaining -= qty;
+        const trade: Trade = {
+          seq: ++this.seq,
+          price: level.price,
+          qty,
+          maker: maker.owner,
+          taker: req.owner,
+          makerOrderId: maker.id,
+          aggressor: req.side,
+        };
+        if (maker.qty <= 0) {
+          level.orders.shift();
+          this.forget(maker);
+        }
+        trades.push(trade);
+        this.trades.push(trade);
+        this.onTrade?.(trade);
+      }
+      if (!level.orders.length) book.shift();
+    }
+
+    let resting = 0;
+    if (remaining > 0 && req.price !== undefined && !req.ioc) {
+      const order: RestingOrder = {
+        id,
+        owner: req.owner,
+        side: req.side,
+        price: req.price,
+        qty: remaining,
+        seq: ++this.seq,
+      };
+      this.rest(order);
+      resting = remaining;
+    }
+    return { orderId: id, filled: req.qty - remaining, resting, trades };
+  }
+
+  cancel(orderId: number): boolean {
+    const order = this.orders.get(orderId);
+    if (!order) return false;
+    const side = order.side === "buy" ? this.bids : this.asks;
+    const i = side.findIndex((l) => l.price === order.price);
+    if (i >= 0) {
+      const level = side[i];
+      level.orders = level.orders.filter((o) => o.id !== orderId);
+      level.size -= order.qty;
+      if (!level.orders.length) side.splice(i, 1);
+    }
+    this.forget(order);
+    return true;
+  }
+
+  cancelAll(owner: string) {
+    let n = 0;
+    for (const o of this.ordersOf(owner)) if (this.cancel(o.id)) n++;
+    return n;
+  }
+
+  private rest(order: RestingOrder) {
+    const side = order.side === "buy" ? this.bids : this.asks;
+    const better = (a: number, b: number) =>
+      order.side === "buy" ? a > b : a < b;
+    // Binary search for the level, keeping best-first order
+    let lo = 0;
+    let hi = side.length;
+    while (lo < hi) {
+      const m = (lo + hi) >> 1;
+      if (better(side[m].price, order.price)) lo = m + 1;
+      else hi = m;
+    }
+    if (side[lo]?.price === order.price) {
+      side[lo].orders.push(order);
+      side[lo].size += order.qty;
+    } else {
+      side.splice(lo, 0, {
+        price: order.price,
+        orders: [order],
+        size: order.qty,
+      });
+    }
+    this.orders.set(order.id, order);
+    const owned = this.byOwner.get(order.owner) || new Set<number>();
+    owned.add(order.id);
+    this.byOwner.set(order.owner, owned);
+  }
+
+  private forget(order: RestingOrder) {
+    this.orders.delete(order.id);
+    this.byOwner.get(order.owner)?.delete(order.id);
+  }
+}
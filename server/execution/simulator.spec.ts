@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { parseSnapshots } from "./book";
+import {
+  ExecutionValidationError,
+  normalizeExecutionParams,
+  simulateExecution,
+} from "./simulator";
+
+const book = (t: string, extra: Record<string, unknown> = {}) => ({
+  t,
+  bids: [
+    [99.9, 5],
+    [99.8, 10],
+  ],
+  asks: [
+    [100.1, 5],
+    [100.2, 10],
+  ],
+  volume: 20,
+  ...extra,
+});
+
+const run = (body: Record<string, unknown>, rows: unknown[]) =>
+  simulateExecution(normalizeExecutionParams(body), parseSnapshots(rows));
+
+describe("simulateExecution", () => {
+  it("walks the book and leaves what the depth cannot fill", () => {
+    const r = run(
+      { method: "MARKET", quantity: 20, impact: { model: "none" } },
+      [book("a"), book("b")],
+    );
+    expect(r.summary.filledQty).toBe(15);
+    expect(r.summary.unfilledQty).toBe(5);
+    expect(r.summary.avgPrice).toBeCloseTo((5 * 100.1 + 10 * 100.2) / 15, 9);
+    expect(r.summary.maxLevelsWalked).toBe(2);
+    expect(r.summary.costBreakdown.spread).toBeCloseTo(15 * 0.1, 9);
+  });
+
+  it("splits the shortfall into components that add up", () => {
+    const rows = Array.from({ length: 30 }, (_, i) => ({
+      t: String(i),
+      price: 100 + i * 0.05,
+      volume: 40,
+    }));
+    for (const method of ["TWAP", "VWAP", "POV", "IS", "ICEBERG"]) {
+      const r = run({ method, quantity: 120, fee_bps: 5 }, rows);
+      const s = r.summary;
+      const shortfall = (s.avgPrice - s.arrivalPrice) * s.filledQty;
+      expect(s.costBreakdown.total).toBeCloseTo(
+        shortfall + s.costBreakdown.fees,
+        6,
+      );
+    }
+  });
+
+  it("rolls limit-capped remainders into the next child", () => {
+    const r = run(
+      {
+        method: "TWAP",
+        quantity: 12,
+        slices: 2,
+        limit_price: 100.1,
+        impact: { model: "none", resilience: 1 },
+      },
+      [book("a"), book("b")],
+    );
+    expect(r.perSlice.map((x) => x.requested)).toEqual([6, 7]);
+    expect(r.perSlice.map((x) => x.qty)).toEqual([5, 5]);
+    expect(r.summary.unfilledQty).toBe(2);
+  });
+
+  it("fills a resting iceberg only after the queue ahead has traded", () => {
+    const r = run(
+      {
+        method: "ICEBERG",
+        quantity: 4,
+        display_qty: 2,
+        finish_aggressive: false,
+        impact: { model: "none" },
+      },
+      [
+        book("a", { sell_volume: 3 }),
+        book("b", { sell_volume: 3 }),
+        book("c", { sell_volume: 9 }),
+      ],
+    );
+    // 5 ahead at the bid: 3 trade, then 2 more before the first clip fills;
+    // the refilled clip joins the back of the 5 resting at the next snapshot
+    expect(r.perSlice.map((x) => x.qty)).toEqual([0, 1, 3]);
+    expect(r.summary.passiveQty).toBe(4);
+    expect(r.summary.avgPrice).toBe(99.9);
+  });
+
+  it("rejects unknown methods", () => {
+    expect(() =>
+      normalizeExecutionParams({ method: "SNIPE", quantity: 1 }),
+    ).toThrow(ExecutionValidationError);
+  });
+});
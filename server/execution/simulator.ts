@@ -0,0 +1,570 @@
+import {
+  deplete,
+  mid,
+  shiftBook,
+  sizeAt,
+  walkBook,
+  type BookSnapshot,
+  type Level,
+} from "./book";
+
+// Order book-aware execution simulator.
+//
+// A parent order is worked across the uploaded snapshots by one of the
+// execution algorithms. Aggressive child orders walk the opposite side of the
+// book (optionally capped by a limit price, which leaves partial fills that
+// roll into the next child); the ICEBERG algorithm instead rests a displayed
+// clip at the touch and is filled by opposite-side flow once the queue ahead
+// of it has traded.
+//
+// The impact model adds what a static snapshot cannot show:
+//   - temporary impact: an extra price concession on each aggressive child
+//   - permanent impact: the whole book drifts in the trade direction as the
+//     parent fills, so later children trade at worse levels
+//   - resilience: depth consumed at one snapshot only partially refills by the
+//     next
+// Every fill's shortfall against the arrival mid is split into spread, depth,
+// temporary impact, permanent impact, market drift and fees, which add up to
+// the total.
+
+export type ExecutionMethod =
+  | "MARKET"
+  | "TWAP"
+  | "VWAP"
+  | "POV"
+  | "IS"
+  | "ICEBERG";
+
+export const EXECUTION_METHODS: ExecutionMethod[] = [
+  "MARKET",
+  "TWAP",
+  "VWAP",
+  "POV",
+  "IS",
+  "ICEBERG",
+];
+
+export interface ImpactConfig {
+  model: "sqrt" | "almgren_chriss" | "none";
+  /** Square-root model: impact = coefficient * sigma * sqrt(Q / volume) */
+  coefficient: number;
+  /** Share of the square-root impact that is permanent */
+  permanent_share: number;
+  /** Almgren-Chriss temporary coefficient, per unit of step participation */
+  eta: number;
+  /** Almgren-Chriss permanent coefficient, per unit of horizon participation */
+  gamma: number;
+  /** Fraction of consumed depth that refills before the next snapshot */
+  resilience: number;
+  /** Volatility over the horizon; estimated from the mids when omitted */
+  sigma?: number;
+  /** Volume over the horizon; the sum of snapshot volumes when omitted */
+  adv?: number;
+}
+
+export interface ExecutionParams {
+  method: ExecutionMethod;
+  side: "buy" | "sell";
+  quantity: number;
+  slices: number;
+  /** POV: share of each step's traded volume */
+  pov_rate: number;
+  /** IS: Almgren-Chriss urgency (kappa * T); 0 is TWAP, higher front-loads */
+  urgency: number;
+  /** ICEBERG: displayed clip size; defaults to a tenth of the order */
+  display_qty?: number;
+  /** Aggressive children never trade through this price */
+  limit_price?: number;
+  /** ICEBERG: cross the spread for whatever is left at the last snapshot */
+  finish_aggressive: boolean;
+  fee_bps: number;
+  impact: ImpactConfig;
+}
+
+export const IMPACT_DEFAULTS: ImpactConfig = {
+  model: "sqrt",
+  coefficient: 0.5,
+  permanent_share: 0.25,
+  eta: 0.05,
+  gamma: 0.1,
+  resilience: 0.5,
+};
+
+export class ExecutionValidationError extends Error {}
+
+export interface SliceRow {
+  t: string;
+  step: number;
+  requested: number;
+  qty: number;
+  unfilled: number;
+  price: number;
+  cost: number;
+  cumCost: number;
+  mid: number;
+  levels: number;
+  passive: boolean;
+  queueAhead: number | null;
+  impactBps: number;
+}
+
+export interface CostBreakdown {
+  spread: number;
+  depth: number;
+  temporaryImpact: number;
+  permanentImpact: number;
+  marketDrift: number;
+  fees: number;
+  total: number;
+}
+
+export interface ExecutionResult {
+  method: ExecutionMethod;
+  side: "buy" | "sell";
+  quantity: number;
+  summary: {
+    requestedQty: number;
+    filledQty: number;
+    unfilledQty: number;
+    fillRate: number;
+    totalQty: number;
+    totalCost: number;
+    avgPrice: number;
+    arrivalPrice: number;
+    benchmarkPrice: number;
+    vwapPrice: number;
+    slippageBps: number;
+    vwapSlippageBps: number;
+    costBps: number;
+    expectedImpactBps: number;
+    costBreakdown: CostBreakdown;
+    childOrders: number;
+    passiveQty: number;
+    reposts: number;
+    maxLevelsWalked: number;
+    steps: number;
+  };
+  model: {
+    impact: ImpactConfig & { sigma: number; adv: number };
+    syntheticDepth: boolean;
+  };
+  perSlice: SliceRow[];
+  chart: Array<{ t: string; cumCost: number; cumFilled: number; mid: number }>;
+}
+
+function finite(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function clamp(x: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, x));
+}
+
+export function normalizeExecutionParams(raw: any): ExecutionParams {
+  const b = raw || {};
+  const method = String(b.method || "TWAP").toUpperCase() as ExecutionMethod;
+  if (!EXECUTION_METHODS.includes(method)) {
+    throw new ExecutionValidationError(
+      `method must be one of ${EXECUTION_METHODS.join(", ")}`,
+    );
+  }
+  const quantity = Number(b.quantity);
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new ExecutionValidationError("quantity must be > 0");
+  }
+  const imp = b.impact || {};
+  const model = String(imp.model || IMPACT_DEFAULTS.model).toLowerCase();
+  if (!["sqrt", "almgren_chriss", "none"].includes(model)) {
+    throw new ExecutionValidationError(
+      "impact.model must be sqrt, almgren_chriss or none",
+    );
+  }
+  const limit = Number(b.limit_price);
+  const display = Number(b.display_qty);
+  return {
+    method,
+    side: String(b.side || "buy").toLowerCase() === "sell" ? "sell" : "buy",
+    quantity,
+    slices: clamp(Math.floor(finite(b.slices, 10)) || 10, 1, 1000),
+    pov_rate: clamp(finite(b.pov_rate, 0.1), 0.001, 1),
+    urgency: clamp(finite(b.urgency, 1), 0, 20),
+    display_qty: display > 0 ? display : undefined,
+    limit_price: limit > 0 ? limit : undefined,
+    finish_aggressive: b.finish_aggressive !== false,
+    fee_bps: clamp(finite(b.fee_bps, 0), 0, 1000),
+    impact: {
+      model: model as ImpactConfig["model"],
+      coefficient: clamp(
+        finite(imp.coefficient, IMPACT_DEFAULTS.coefficient),
+        0,
+        10,
+      ),
+      permanent_share: clamp(
+        finite(imp.permanent_share, IMPACT_DEFAULTS.permanent_share),
+        0,
+        1,
+      ),
+      eta: clamp(finite(imp.eta, IMPACT_DEFAULTS.eta), 0, 10),
+      gamma: clamp(finite(imp.gamma, IMPACT_DEFAULTS.gamma), 0, 10),
+      resilience: clamp(
+        finite(imp.resilience, IMPACT_DEFAULTS.resilience),
+        0,
+        1,
+      ),
+      sigma: Number(imp.sigma) > 0 ? Number(imp.sigma) : undefined,
+      adv: Number(imp.adv) > 0 ? Number(imp.adv) : undefined,
+    },
+  };
+}
+
+/** Horizon volatility from log mid returns (per-step std * sqrt(steps)) */
+function horizonSigma(snaps: BookSnapshot[]) {
+  const mids = snaps.map(mid).filter((m) => m > 0);
+  if (mids.length < 3) return 0.01;
+  const r = mids.slice(1).map((m, i) => Math.log(m / mids[i]));
+  const mean = r.reduce((a, b) => a + b, 0) / r.length;
+  const sd = Math.sqrt(
+    r.reduce((a, b) => a + (b - mean) ** 2, 0) / (r.length - 1),
+  );
+  return sd > 0 ? sd * Math.sqrt(r.length) : 0.01;
+}
+
+// Child order quantities per step for the scheduled algorithms
+function schedule(p: ExecutionParams, snaps: BookSnapshot[]): number[] {
+  const n = snaps.length;
+  const out = new Array<number>(n).fill(0);
+  if (p.method === "MARKET") {
+    out[0] = p.quantity;
+    return out;
+  }
+  const k = Math.min(p.slices, n);
+  const start = (j: number) => Math.floor((j * n) / k);
+  let weights: number[];
+  if (p.method === "VWAP") {
+    weights = Array.from({ length: k }, (_, j) => {
+      let v = 0;
+      for (let i = start(j); i < start(j + 1); i++) v += snaps[i].volume;
+      return v;
+    });
+  } else if (p.method === "IS" && p.urgency > 1e-6) {
+    // Almgren-Chriss optimal holdings x(t) = X sinh(kappa (T - t)) / sinh(kappa T)
+    const kT = p.urgency;
+    const hold = (j: number) => Math.sinh(kT * (1 - j / k)) / Math.sinh(kT);
+    weights = Array.from({ length: k }, (_, j) => hold(j) - hold(j + 1));
+  } else {
+    weights = new Array(k).fill(1);
+  }
+  const total = weights.reduce((a, b) => a + b, 0) || 1;
+  weights.forEach((w, j) => {
+    out[start(j)] += (p.quantity * w) / total;
+  });
+  return out;
+}
+
+function cloneBook(b: BookSnapshot): BookSnapshot {
+  const copy = (ls: Level[]) => ls.map((l) => ({ ...l }));
+  return { ...b, bids: copy(b.bids), asks: copy(b.asks) };
+}
+
+export function simulateExecution(
+  rawParams: ExecutionParams,
+  snapshots: BookSnapshot[],
+): ExecutionResult {
+  if (!snapshots.length) {
+    throw new ExecutionValidationError(
+      "orderBook array required (price, volume, t)",
+    );
+  }
+  const p = rawParams;
+  const isBuy = p.side === "buy";
+  const s = isBuy ? 1 : -1;
+  const sigma = p.impact.sigma ?? horizonSigma(snapshots);
+  const adv =
+    p.impact.adv ??
+    Math.max(
+      snapshots.reduce((a, x) => a + x.volume, 0),
+      1e-9,
+    );
+  const arrival = mid(snapshots[0]);
+  const plan =
+    p.method === "POV" || p.method === "ICEBERG"
+      ? null
+      : schedule(p, snapshots);
+  const fee = p.fee_bps / 1e4;
+
+  const costs: CostBreakdown = {
+    spread: 0,
+    depth: 0,
+    temporaryImpact: 0,
+    permanentImpact: 0,
+    marketDrift: 0,
+    fees: 0,
+    total: 0,
+  };
+  const rows: SliceRow[] = [];
+  let remaining = p.quantity;
+  let carry = 0;
+  let filledQty = 0;
+  let notional = 0;
+  let signedCost = 0;
+  let permShift = 0; // fraction of price, in the trade direction
+  let depleted = 0; // consumed opposite-side depth not yet refilled
+  let passiveQty = 0;
+  let reposts = 0;
+  let childOrders = 0;
+  let maxLevels = 0;
+  let mktVolume = 0;
+  let mktNotional = 0;
+  // ICEBERG resting order
+  let resting: { price: number; queueAhead: number; clipLeft: number } | null =
+    null;
+
+  const tempImpact = (q: number, stepVolume: number) => {
+    if (p.impact.model === "sqrt") {
+      return (
+        p.impact.coefficient *
+        sigma *
+        Math.sqrt(q / adv) *
+        (1 - p.impact.permanent_share)
+      );
+    }
+    if (p.impact.model === "almgren_chriss") {
+      return p.impact.eta * (q / Math.max(stepVolume, 1e-9));
+    }
+    return 0;
+  };
+  const permanentAfter = (cumQ: number) => {
+    if (p.impact.model === "sqrt") {
+      return (
+        p.impact.coefficient *
+        sigma *
+        Math.sqrt(cumQ / adv) *
+        p.impact.permanent_share
+      );
+    }
+    if (p.impact.model === "almgren_chriss")
+      return p.impact.gamma * (cumQ / adv);
+    return 0;
+  };
+
+  // Books the fill and splits its shortfall against the arrival mid
+  const record = (
+    q: number,
+    px: number,
+    touch: number,
+    walkVwap: number,
+    rawMid: number,
+  ) => {
+    const shiftedMid = rawMid * (1 + s * permShift);
+    costs.marketDrift += s * (rawMid - arrival) * q;
+    costs.permanentImpact += s * (shiftedMid - rawMid) * q;
+    costs.spread += s * (touch - shiftedMid) * q;
+    costs.depth += s * (walkVwap - touch) * q;
+    costs.temporaryImpact += s * (px - walkVwap) * q;
+    costs.fees += px * q * fee;
+    filledQty += q;
+    notional += px * q;
+    signedCost += s * px * q;
+    remaining = Math.max(0, remaining - q);
+  };
+
+  for (let k = 0; k < snapshots.length && remaining > 1e-12; k++) {
+    const snap = snapshots[k];
+    const rawMid = mid(snap);
+    mktVolume += snap.volume;
+    mktNotional += snap.volume * rawMid;
+    const book = cloneBook(shiftBook(snap, s * permShift));
+    const far = isBuy ? book.asks : book.bids;
+    const near = isBuy ? book.bids : book.asks;
+    deplete(far, depleted);
+    const last = k === snapshots.length - 1;
+
+    let requested = 0;
+    let stepFilled = 0;
+    let stepNotional = 0;
+    let levels = 0;
+    let passive = false;
+    let impactFrac = 0;
+    let consumed = 0;
+
+    if (p.method === "ICEBERG") {
+      passive = true;
+      const display = Math.min(p.display_qty ?? p.quantity / 10, remaining);
+      const touch = near[0]?.price;
+      if (resting && touch !== undefined) {
+        const crossed =
+          far[0] &&
+          (isBuy
+            ? far[0].price <= resting.price
+            : far[0].price >= resting.price);
+        const leftBehind = isBuy
+          ? resting.price < touch
+          : resting.price > touch;
+        if (leftBehind && !crossed) {
+          resting = null; // repost at the new touch, back of the queue
+          reposts++;
+        } else if (crossed) {
+          // The market came through our price: the whole clip trades
+          const q = Math.min(resting.clipLeft, remaining);
+          record(q, resting.price, resting.price, resting.price, rawMid);
+          stepFilled += q;
+          stepNotional += q * resting.price;
+          resting = null;
+        }
+      }
+      if (!resting && touch !== undefined && remaining > 1e-12) {
+        resting = {
+          price: touch,
+          queueAhead: sizeAt(near, touch),
+          clipLeft: Math.min(display, remaining),
+        };
+        childOrders++;
+      }
+      if (resting) {
+        requested = resting.clipLeft;
+        // Opposite-side flow trades the queue ahead first, then our clip;
+        // each refilled clip joins the back of whatever is left at the level
+        let flow = isBuy ? snap.sellVolume : snap.buyVolume;
+        let levelRest = sizeAt(near, resting.price);
+        while (flow > 1e-12 && remaining > 1e-12) {
+          if (resting.queueAhead > 1e-12) {
+            const q = Math.min(flow, resting.queueAhead);
+            resting.queueAhead -= q;
+            levelRest = Math.max(0, levelRest - q);
+            flow -= q;
+            continue;
+          }
+          const q = Math.min(flow, resting.clipLeft, remaining);
+          record(q, resting.price, resting.price, resting.price, rawMid);
+          stepFilled += q;
+          stepNotional += q * resting.price;
+          passiveQty += q;
+          flow -= q;
+          resting.clipLeft -= q;
+          if (resting.clipLeft <= 1e-12 && remaining > 1e-12) {
+            resting.clipLeft = Math.min(display, remaining);
+            resting.queueAhead = levelRest;
+            childOrders++;
+          }
+        }
+      }
+      if (last && remaining > 1e-12 && p.finish_aggressive) {
+        passive = false;
+        requested += remaining;
+      }
+    } else if (p.method === "POV") {
+      requested = Math.min(remaining, p.pov_rate * snap.volume);
+    } else {
+      requested = Math.min(remaining, (plan as number[])[k] + carry);
+    }
+
+    // Aggressive part of the step
+    const aggressiveQty =
+      p.method === "ICEBERG" ? (passive ? 0 : remaining) : requested;
+    if (aggressiveQty > 1e-12) {
+      childOrders++;
+      const touch = far[0]?.price ?? rawMid;
+      const walk = walkBook(far, aggressiveQty, isBuy, p.limit_price);
+      if (walk.filled > 1e-12) {
+        const walkVwap = walk.notional / walk.filled;
+        impactFrac = tempImpact(walk.filled, snap.volume);
+        const px = walkVwap * (1 + s * impactFrac);
+        record(walk.filled, px, touch, walkVwap, rawMid);
+        stepFilled += walk.filled;
+        stepNotional += walk.filled * px;
+        consumed = walk.filled;
+        levels = walk.levels;
+        maxLevels = Math.max(maxLevels, levels);
+      }
+      if (p.method !== "ICEBERG" && p.method !== "POV") {
+        carry = Math.max(0, requested - walk.filled);
+      }
+    } else if (p.method !== "ICEBERG" && p.method !== "POV") {
+      carry = 0;
+    }
+
+    depleted = (depleted + consumed) * (1 - p.impact.resilience);
+    permShift = permanentAfter(filledQty);
+    if (requested > 0 || stepFilled > 0) {
+      const cost = s * stepNotional;
+      rows.push({
+        t: snap.t,
+        step: k,
+        requested,
+        qty: stepFilled,
+        unfilled: Math.max(0, requested - stepFilled),
+        price: stepFilled > 0 ? stepNotional / stepFilled : 0,
+        cost,
+        cumCost: signedCost,
+        mid: rawMid,
+        levels,
+        passive: passive && stepFilled > 0,
+        queueAhead:
+          p.method === "ICEBERG" && resting ? resting.queueAhead : null,
+        impactBps: impactFrac * 1e4,
+      });
+    }
+    // A market order takes what the first book offers; the rest is unfilled
+    if (p.method === "MARKET") break;
+  }
+
+  costs.total =
+    costs.spread +
+    costs.depth +
+    costs.temporaryImpact +
+    costs.permanentImpact +
+    costs.marketDrift +
+    costs.fees;
+  const avgPrice = filledQty > 0 ? notional / filledQty : 0;
+  const vwapPrice = mktVolume > 0 ? mktNotional / mktVolume : arrival;
+  const bps = (px: number, ref: number) =>
+    ref > 0 && px > 0 ? ((s * (px - ref)) / ref) * 1e4 : 0;
+  const expectedImpact =
+    p.impact.model === "sqrt"
+      ? p.impact.coefficient * sigma * Math.sqrt(p.quantity / adv)
+      : p.impact.model === "almgren_chriss"
+        ? (p.impact.gamma + p.impact.eta) * (p.quantity / adv)
+        : 0;
+  let cumFilled = 0;
+
+  return {
+    method: p.method,
+    side: p.side,
+    quantity: p.quantity,
+    summary: {
+      requestedQty: p.quantity,
+      filledQty,
+      unfilledQty: Math.max(0, p.quantity - filledQty),
+      fillRate: filledQty / p.quantity,
+      totalQty: s * filledQty,
+      totalCost: signedCost,
+      avgPrice,
+      arrivalPrice: arrival,
+      benchmarkPrice: arrival,
+      vwapPrice,
+      slippageBps: bps(avgPrice, arrival),
+      vwapSlippageBps: bps(avgPrice, vwapPrice),
+      costBps:
+        filledQty > 0 && arrival > 0
+          ? (costs.total / (filledQty * arrival)) * 1e4
+          : 0,
+      expectedImpactBps: expectedImpact * 1e4,
+      costBreakdown: costs,
+      childOrders,
+      passiveQty,
+      reposts,
+      maxLevelsWalked: maxLevels,
+      steps: rows.length,
+    },
+    model: {
+      impact: { ...p.impact, sigma, adv },
+      syntheticDepth: snapshots.some((x) => x.synthetic),
+    },
+    perSlice: rows,
+    chart: rows.map((r) => {
+      cumFilled += r.qty;
+      return { t: r.t, cumCost: r.cumCost, cumFilled, mid: r.mid };
+    }),
+  };
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { MemoryRepository } from "../storage/repository";
+import {
+  DEFAULT_GOVERNANCE_RULES,
+  GovernanceConflictError,
+  GovernanceEngine,
+  VoterNotEligibleError,
+  type GovernanceProposal,
+} from "./engine";
+
+const founders = [{ id: "1" }, { id: "3" }, { id: "4" }];
+
+function setup() {
+  let now = Date.parse("2026-01-01T00:00:00Z");
+  const applied: unknown[] = [];
+  const engine = new GovernanceEngine({
+    proposals: new MemoryRepository<GovernanceProposal>(),
+    voters: () => founders,
+    rules: () => DEFAULT_GOVERNANCE_RULES,
+    now: () => now,
+  });
+  engine.register<{ symbol: string }>("market_override", {
+    subject: (p) => p.symbol,
+    apply: (p) => applied.push(p),
+  });
+  engine.register("config_change", {
+    apply: () => {
+      throw new Error("config store offline");
+    },
+  });
+  return { engine, applied, advance: (ms: number) => (now += ms) };
+}
+
+describe("governance engine", () => {
+  it("executes an auto-executed kind once it passes, one vote per founder", async () => {
+    const { engine, applied } = setup();
+    const p = engine.propose({
+      kind: "market_override",
+      description: "Block SOL",
+      payload: { symbol: "SOL/USDT" },
+      createdBy: "1",
+    });
+    expect(() =>
+      engine.propose({
+        kind: "market_override",
+        description: "Allow SOL",
+        payload: { symbol: "SOL/USDT" },
+        createdBy: "3",
+      }),
+    ).toThrow(GovernanceConflictError);
+
+    await engine.vote(p.id, { id: "1" }, "approve");
+    const again = await engine.vote(p.id, { id: "1" }, "approve");
+    expect(again.status).toBe("voting");
+    expect(again.votes).toHaveLength(1);
+    await expect(engine.vote(p.id, { id: "9" }, "approve")).rejects.toThrow(
+      VoterNotEligibleError,
+    );
+
+    const done = await engine.vote(p.id, { id: "3" }, "approve");
+    expect(done.status).toBe("deployed");
+    expect(applied).toEqual([{ symbol: "SOL/USDT" }]);
+  });
+
+  it("rejects early once the threshold is out of reach and expires late votes", async () => {
+    const { engine, advance } = setup();
+    const a = engine.propose({
+      kind: "config_change",
+      description: "Raise limits",
+      payload: {},
+      createdBy: "1",
+    });
+    await engine.vote(a.id, { id: "1" }, "reject");
+    const r = await engine.vote(a.id, { id: "3" }, "reject");
+    expect(r.status).toBe("rejected");
+
+    const b = engine.propose({
+      kind: "config_change",
+      description: "Lower limits",
+      payload: {},
+      createdBy: "1",
+    });
+    await engine.vote(b.id, { id: "1" }, "approve");
+    advance(DEFAULT_GOVERNANCE_RULES.config_change.windowMs);
+    expect(engine.get(b.id).status).toBe("expired");
+    await expect(engine.vote(b.id, { id: "3" }, "approve")).rejects.toThrow(
+      GovernanceConflictError,
+    );
+  });
+
+  it("only executes approved proposals and records failures", async () => {
+    const { engine } = setup();
+    const p = engine.propose({
+      kind: "config_change",
+      description: "Enable maintenance",
+      payload: {},
+      createdBy: "1",
+    });
+    await expect(engine.execute(p.id, "1")).rejects.toThrow(
+      GovernanceConflictError,
+    );
+    await engine.vote(p.id, { id: "1" }, "approve");
+    const approved = await engine.vote(p.id, { id: "3" }, "approve");
+    expect(approved.status).toBe("approved");
+
+    await expect(engine.execute(p.id, "1")).rejects.toThrow(
+      "config store offline",
+    );
+    const failed = engine.get(p.id);
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toBe("config store offline");
+  });
+
+  it("restores the snapshot when apply fails midway and on rollback", async () => {
+    const { engine } = setup();
+    const state: Record<string, number> = { a: 1, b: 2 };
+    engine.register<{ changes: Record<string, number> }>("risk_tier_change", {
+      diff: ({ changes }) =>
+        Object.entries(changes).map(([path, after]) => ({
+          path,
+          before: state[path],
+          after,
+        })),
+      snapshot: ({ changes }) =>
+        Object.fromEntries(Object.keys(changes).map((k) => [k, state[k]])),
+      restore: (snap) => Object.assign(state, snap),
+      apply: ({ changes }) => {
+        for (const [k, v] of Object.entries(changes)) {
+          if (v < 0) throw new Error(`${k} must be positive`);
+          state[k] = v;
+        }
+      },
+    });
+    const pass = async (changes: Record<string, number>) => {
+      const p = engine.propose({
+        kind: "risk_tier_change",
+        description: "Change limits",
+        payload: { changes },
+        createdBy: "1",
+      });
+      await engine.vote(p.id, { id: "1" }, "approve");
+      await engine.vote(p.id, { id: "3" }, "approve");
+      return p;
+    };
+
+    const bad = await pass({ a: 5, b: -1 });
+    expect(bad.diff).toEqual([
+      { path: "a", before: 1, after: 5 },
+      { path: "b", before: 2, after: -1 },
+    ]);
+    await expect(engine.execute(bad.id, "1")).rejects.toThrow("b must be");
+    expect(state).toEqual({ a: 1, b: 2 });
+
+    const good = await pass({ a: 5 });
+    await engine.execute(good.id, "1");
+    expect(state.a).toBe(5);
+
+    // A later change to the same state blocks rolling back the earlier one
+    const later = await pass({ a: 7 });
+    await engine.execute(later.id, "1");
+    expect(engine.canRollback(engine.get(good.id))).toBe(false);
+    await expect(engine.rollback(good.id, "1")).rejects.toThrow(
+      GovernanceConflictError,
+    );
+    expect(state.a).toBe(7);
+    await engine.rollback(later.id, "1");
+    expect(state.a).toBe(5);
+
+    const rolled = await engine.rollback(good.id, "1");
+    expect(rolled.status).toBe("rolled_back");
+    expect(state).toEqual({ a: 1, b: 2 });
+    await expect(engine.rollback(good.id, "1")).rejects.toThrow(
+      GovernanceConflictError,
+    );
+  });
+
+  it("applies once when two executes overlap", async () => {
+    const { engine } = setup();
+    const activations: string[] = [];
+    let finish = () => {};
+    engine.register<{ name: string }>("plugin_activation", {
+      snapshot: () => ({ active: activations.length }),
+      restore: () => {},
+      apply: async ({ name }) => {
+        activations.push(name);
+        await new Promise<void>((resolve) => (finish = resolve));
+      },
+    });
+    const p = engine.propose({
+      kind: "plugin_activation",
+      description: "Enable momentum",
+      payload: { name: "momentum" },
+      createdBy: "1",
+    });
+    await engine.vote(p.id, { id: "1" }, "approve");
+    await engine.vote(p.id, { id: "3" }, "approve");
+
+    const first = engine.execute(p.id, "1");
+    const second = engine.execute(p.id, "3");
+    await expect(second).rejects.toThrow(GovernanceConflictError);
+    finish();
+    const deployed = await first;
+    expect(deployed.status).toBe("deployed");
+    expect(deployed.snapshot).toEqual({ active: 0 });
+    expect(activations).toEqual(["momentum"]);
+    await expect(engine.execute(p.id, "3")).rejects.toThrow(
+      GovernanceConflictError,
+    );
+  });
+});
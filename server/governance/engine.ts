@@ -0,0 +1,583 @@
+// Governance engine shared by proposals, plugins, market overrides, model
+// rollouts and user invites.
+//
+// Every governed change is a typed proposal. Each kind has its own rule: how
+// many votes must be cast (quorum), the share of approvals among approve and
+// reject votes needed to pass (threshold, ties fail) and how long voting stays
+// open. Eligible voters get one vote each; voting again replaces the earlier
+// vote while the proposal is open. A proposal is rejected as soon as it can no
+// longer pass and expires when its window closes. Passing only marks it
+// approved: the change itself is made by the executor the owning module
+// registers for the kind, either right away (autoExecute) or on an explicit
+// execute call. Rule values are copied onto the proposal when it is created,
+// so editing a rule never changes the outcome of a vote in progress.
+//
+// Executors that can describe and undo their change also provide a diff, shown
+// to voters and fixed when the proposal is created, plus a snapshot/restore
+// pair. Execution stores the snapshot before applying; if apply fails midway
+// the snapshot is restored so the change lands whole or not at all, and a
+// deployed proposal can later be rolled back to it. The state right after the
+// deploy is snapshotted too: a rollback is refused once that state has been
+// changed again (e.g. by a later proposal), since restoring would silently
+// undo the later change.
+
+import type { Repository } from "../storage/repository";
+
+export type ProposalKind =
+  | "config_change"
+  | "market_override"
+  | "plugin_activation"
+  | "model_rollout"
+  | "user_invite"
+  | "asc_reweight"
+  | "risk_tier_change";
+
+export const PROPOSAL_KINDS: ProposalKind[] = [
+  "config_change",
+  "market_override",
+  "plugin_activation",
+  "model_rollout",
+  "user_invite",
+  "asc_reweight",
+  "risk_tier_change",
+];
+
+export type ProposalStatus =
+  | "pending"
+  | "voting"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "deployed"
+  | "failed"
+  | "rolled_back";
+
+export type VoteChoice = "approve" | "reject" | "abstain";
+
+export interface Vote {
+  /** User id of the voter */
+  founderId: string;
+  founderEmail?: string;
+  choice: VoteChoice;
+  /** True for approve; kept for clients that predate abstentions */
+  approve: boolean;
+  votedAt: string;
+}
+
+export interface GovernanceRule {
+  /** Votes that must be cast, abstentions included, before a decision */
+  quorum: number;
+  /** Share of approvals among approve and reject votes needed to pass */
+  threshold: number;
+  /** How long a proposal stays open for votes */
+  windowMs: number;
+  /** Run the executor as soon as the proposal passes */
+  autoExecute: boolean;
+}
+
+const HOUR = 3_600_000;
+
+export const DEFAULT_GOVERNANCE_RULES: Record<ProposalKind, GovernanceRule> = {
+  config_change: {
+    quorum: 2,
+    threshold: 2 / 3,
+    windowMs: 72 * HOUR,
+    autoExecute: false,
+  },
+  market_override: {
+    quorum: 2,
+    threshold: 0.5,
+    windowMs: 24 * HOUR,
+    autoExecute: true,
+  },
+  plugin_activation: {
+    quorum: 2,
+    threshold: 2 / 3,
+    windowMs: 72 * HOUR,
+    autoExecute: false,
+  },
+  model_rollout: {
+    quorum: 2,
+    threshold: 2 / 3,
+    windowMs: 48 * HOUR,
+    autoExecute: true,
+  },
+  user_invite: {
+    quorum: 2,
+    threshold: 1,
+    windowMs: 7 * 24 * HOUR,
+    autoExecute: true,
+  },
+  asc_reweight: {
+    quorum: 2,
+    threshold: 2 / 3,
+    windowMs: 72 * HOUR,
+    autoExecute: false,
+  },
+  risk_tier_change: {
+    quorum: 2,
+    threshold: 2 / 3,
+    windowMs: 72 * HOUR,
+    autoExecute: false,
+  },
+};
+
+/** One changed field, e.g. a runtime config key or a policy weight */
+export interface ChangeDiff {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface GovernanceProposal<P = any> {
+  id: string;
+  kind: ProposalKind;
+  description: string;
+  payload: P;
+  /** What the change targets (market symbol, plugin name, ...) */
+  subject?: string;
+  /** The change as voted on, against the state when it was proposed */
+  diff?: ChangeDiff[];
+  status: ProposalStatus;
+  votes: Vote[];
+  /** Quorum copied from the rule; named for existing clients */
+  requiredVotes: number;
+  threshold: number;
+  autoExecute: boolean;
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string;
+  decidedAt?: string;
+  deployedAt?: string;
+  deployedBy?: string;
+  deploymentStatus?: "success" | "failed" | "in_progress";
+  /** Executor return value once deployed */
+  result?: unknown;
+  /** State overwritten by the deploy, restored by a rollback */
+  snapshot?: unknown;
+  /** State the deploy left; a rollback requires it to be unchanged */
+  deployedState?: unknown;
+  rolledBackAt?: string;
+  rolledBackBy?: string;
+  /** Last execution error, failed precheck or apply */
+  error?: string;
+}
+
+export interface Voter {
+  id: string;
+  email?: string;
+}
+
+export interface ProposalExecutor<P = any> {
+  /** Checks the payload when the proposal is created; throw to refuse it */
+  validate?(payload: P): void;
+  /** Identifies the target so two open proposals cannot race on it */
+  subject?(payload: P): string;
+  /**
+   * Checked on every execution attempt; the error is rethrown as is and the
+   * proposal stays approved so it can be executed once the check passes
+   */
+  precheck?(payload: P, proposal: GovernanceProposal<P>): void | Promise<void>;
+  /** Makes the change; a failure marks the proposal failed */
+  apply(
+    payload: P,
+    proposal: GovernanceProposal<P>,
+  ): unknown | Promise<unknown>;
+  /** Field-level change against the current state */
+  diff?(payload: P): ChangeDiff[];
+  /** Captures the state apply is about to overwrite */
+  snapshot?(payload: P): unknown;
+  /** Puts a snapshot back, after a failed apply or on rollback */
+  restore?(
+    snapshot: any,
+    payload: P,
+    proposal: GovernanceProposal<P>,
+  ): void | Promise<void>;
+}
+
+export class ProposalNotFoundError extends Error {}
+export class GovernanceValidationError extends Error {}
+export class GovernanceConflictError extends Error {}
+export class VoterNotEligibleError extends Error {}
+export class ExecutionFailedError extends Error {}
+
+export interface Tally {
+  approve: number;
+  reject: number;
+  abstain: number;
+  cast: number;
+}
+
+export function tallyVotes(votes: Vote[]): Tally {
+  const t = { approve: 0, reject: 0, abstain: 0, cast: votes.length };
+  for (const v of votes) t[v.choice]++;
+  return t;
+}
+
+function passes(t: Tally, quorum: number, threshold: number) {
+  const decisive = t.approve + t.reject;
+  return (
+    t.cast >= quorum &&
+    t.approve > t.reject &&
+    t.approve >= threshold * decisive - 1e-9
+  );
+}
+
+const OPEN: ProposalStatus[] = ["pending", "voting"];
+
+// Why a proposal cannot be executed now, if it cannot
+function executionConflict(p: GovernanceProposal): string | undefined {
+  if (p.deploymentStatus === "in_progress") {
+    return "proposal is already being executed";
+  }
+  if (p.status !== "approved") {
+    return `only approved proposals can be executed (status ${p.status})`;
+  }
+  return undefined;
+}
+
+export function isOpen(p: Pick<GovernanceProposal, "status">) {
+  return OPEN.includes(p.status);
+}
+
+/**
+ * Status an open proposal should have given its votes, the eligible voters
+ * and the time. Closed proposals keep their status.
+ */
+export function decideStatus(
+  p: GovernanceProposal,
+  eligible: string[],
+  now: number,
+): ProposalStatus {
+  if (!isOpen(p)) return p.status;
+  const t = tallyVotes(p.votes);
+  if (passes(t, p.requiredVotes, p.threshold)) return "approved";
+
+  const voted = new Set(p.votes.map((v) => v.founderId));
+  const remaining = eligible.filter((id) => !voted.has(id)).length;
+  const best = {
+    ...t,
+    approve: t.approve + remaining,
+    cast: t.cast + remaining,
+  };
+  if (!passes(best, p.requiredVotes, p.threshold)) return "rejected";
+
+  if (now >= Date.parse(p.expiresAt)) return "expired";
+  return t.cast ? "voting" : "pending";
+}
+
+export function validateRule(rule: GovernanceRule) {
+  if (!Number.isInteger(rule.quorum) || rule.quorum < 1) {
+    throw new GovernanceValidationError("quorum must be a positive integer");
+  }
+  if (!(rule.threshold >= 0.5 && rule.threshold <= 1)) {
+    throw new GovernanceValidationError("threshold must be between 0.5 and 1");
+  }
+  if (!(rule.windowMs >= 60_000)) {
+    throw new GovernanceValidationError("window must be at least one minute");
+  }
+  if (typeof rule.autoExecute !== "boolean") {
+    throw new GovernanceValidationError("autoExecute must be a boolean");
+  }
+}
+
+export interface ProposeInput<P = any> {
+  id?: string;
+  kind: ProposalKind;
+  description: string;
+  payload: P;
+  createdBy: string;
+}
+
+export interface GovernanceEvent {
+  type:
+    | "proposed"
+    | "voted"
+    | "deployed"
+    | "failed"
+    | "rolled_back"
+    | "rollback_failed";
+  proposal: GovernanceProposal;
+  actor: string;
+  choice?: VoteChoice;
+}
+
+export interface GovernanceEngineOptions {
+  proposals: Repository<GovernanceProposal>;
+  /** Users allowed to vote */
+  voters: () => Voter[];
+  rules: () => Record<ProposalKind, GovernanceRule>;
+  now?: () => number;
+  /** Called after every state change a user or executor caused, e.g. for auditing */
+  onEvent?: (event: GovernanceEvent) => void;
+}
+
+export class GovernanceEngine {
+  private readonly executors = new Map<ProposalKind, ProposalExecutor>();
+  private readonly now: () => number;
+  private seq = 0;
+
+  constructor(private readonly options: GovernanceEngineOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  register<P>(kind: ProposalKind, executor: ProposalExecutor<P>) {
+    this.executors.set(kind, executor);
+  }
+
+  list(): GovernanceProposal[] {
+    return this.options.proposals.list().map((p) => this.refresh(p));
+  }
+
+  get(id: string): GovernanceProposal {
+    const p = this.options.proposals.get(id);
+    if (!p) throw new ProposalNotFoundError(`proposal ${id} not found`);
+    return this.refresh(p);
+  }
+
+  propose<P>(input: ProposeInput<P>): GovernanceProposal<P> {
+    if (!PROPOSAL_KINDS.includes(input.kind)) {
+      throw new GovernanceValidationError(
+        `unknown proposal kind ${input.kind}`,
+      );
+    }
+    const executor = this.executors.get(input.kind);
+    if (!executor) {
+      throw new GovernanceValidationError(`no executor for ${input.kind}`);
+    }
+    const description = String(input.description || "").trim();
+    if (!description) {
+      throw new GovernanceValidationError("description is required");
+    }
+    executor.validate?.(input.payload);
+
+    const id = input.id?.trim() || `GOV-${this.now()}-${++this.seq}`;
+    if (this.options.proposals.get(id)) {
+      throw new GovernanceConflictError(`proposal ${id} already exists`);
+    }
+    const subject = executor.subject?.(input.payload);
+    if (subject) {
+      const open = this.list().find(
+        (p) => p.kind === input.kind && p.subject === subject && isOpen(p),
+      );
+      if (open) {
+        throw new GovernanceConflictError(
+          `proposal ${open.id} for ${subject} is still open`,
+        );
+      }
+    }
+
+    const rule = this.options.rules()[input.kind];
+    const now = this.now();
+    const proposal = this.options.proposals.upsert({
+      id,
+      kind: input.kind,
+      description,
+      payload: input.payload,
+      subject,
+      diff: executor.diff?.(input.payload),
+      status: "pending",
+      votes: [],
+      requiredVotes: rule.quorum,
+      threshold: rule.threshold,
+      autoExecute: rule.autoExecute,
+      createdAt: new Date(now).toISOString(),
+      createdBy: input.createdBy,
+      expiresAt: new Date(now + rule.windowMs).toISOString(),
+    });
+    this.emit("proposed", proposal, input.createdBy);
+    return proposal;
+  }
+
+  /**
+   * Records the voter's choice. When the vote passes an autoExecute proposal
+   * it is executed straight away; an execution error is kept on the returned
+   * proposal rather than thrown, since the vote itself was recorded.
+   */
+  async vote(
+    id: string,
+    voter: Voter,
+    choice: VoteChoice,
+  ): Promise<GovernanceProposal> {
+    if (!["approve", "reject", "abstain"].includes(choice)) {
+      throw new GovernanceValidationError(
+        "choice must be approve, reject or abstain",
+      );
+    }
+    if (!this.eligible().includes(voter.id)) {
+      throw new VoterNotEligibleError("only founders may vote on proposals");
+    }
+    const current = this.get(id);
+    if (!isOpen(current)) {
+      throw new GovernanceConflictError(`proposal is ${current.status}`);
+    }
+
+    const vote: Vote = {
+      founderId: voter.id,
+      founderEmail: voter.email,
+      choice,
+      approve: choice === "approve",
+      votedAt: new Date(this.now()).toISOString(),
+    };
+    const stored = this.options.proposals.update(id, (p) => {
+      p.votes = p.votes.filter((v) => v.founderId !== voter.id).concat(vote);
+    })!;
+    const proposal = this.refresh(stored);
+    this.emit("voted", proposal, voter.email || voter.id, choice);
+
+    if (proposal.status === "approved" && proposal.autoExecute) {
+      try {
+        return await this.execute(id, "governance");
+      } catch {
+        return this.get(id);
+      }
+    }
+    return proposal;
+  }
+
+  async execute(id: string, actor: string): Promise<GovernanceProposal> {
+    const proposal = this.get(id);
+    const notExecutable = executionConflict(proposal);
+    if (notExecutable) throw new GovernanceConflictError(notExecutable);
+    const executor = this.executors.get(proposal.kind);
+    if (!executor) {
+      throw new GovernanceConflictError(`no executor for ${proposal.kind}`);
+    }
+
+    try {
+      await executor.precheck?.(proposal.payload, proposal);
+    } catch (e) {
+      this.options.proposals.update(id, (p) => {
+        p.error = e instanceof Error ? e.message : String(e);
+      });
+      throw e;
+    }
+
+    // Claimed inside the store update so a concurrent execute, which may have
+    // passed the checks above during precheck, cannot apply a second time and
+    // overwrite the snapshot with already changed state
+    let conflict: string | undefined;
+    let snapshot: unknown;
+    this.options.proposals.update(id, (p) => {
+      conflict = executionConflict(p);
+      if (conflict) return;
+      snapshot = executor.snapshot?.(proposal.payload);
+      p.deploymentStatus = "in_progress";
+      if (snapshot !== undefined) p.snapshot = snapshot;
+    });
+    if (conflict) throw new GovernanceConflictError(conflict);
+    try {
+      const result = await executor.apply(proposal.payload, proposal);
+      const deployedState = executor.snapshot?.(proposal.payload);
+      const deployed = this.options.proposals.update(id, (p) => {
+        p.status = "deployed";
+        p.deploymentStatus = "success";
+        p.deployedAt = new Date(this.now()).toISOString();
+        p.deployedBy = actor;
+        p.result = result;
+        if (deployedState !== undefined) p.deployedState = deployedState;
+        delete p.error;
+      })!;
+      this.emit("deployed", deployed, actor);
+      return deployed;
+    } catch (e) {
+      let message = e instanceof Error ? e.message : String(e);
+      if (snapshot !== undefined && executor.restore) {
+        try {
+          await executor.restore(snapshot, proposal.payload, proposal);
+        } catch (r) {
+          message += `; restoring the snapshot also failed: ${r instanceof Error ? r.message : r}`;
+        }
+      }
+      const failed = this.options.proposals.update(id, (p) => {
+        p.status = "failed";
+        p.deploymentStatus = "failed";
+        p.deployedBy = actor;
+        p.error = message;
+      })!;
+      this.emit("failed", failed, actor);
+      throw new ExecutionFailedError(message);
+    }
+  }
+
+  /** Restores the snapshot taken when a deployed proposal was executed */
+  async rollback(id: string, actor: string): Promise<GovernanceProposal> {
+    const proposal = this.get(id);
+    if (proposal.status !== "deployed") {
+      throw new GovernanceConflictError(
+        `only deployed proposals can be rolled back (status ${proposal.status})`,
+      );
+    }
+    const executor = this.executors.get(proposal.kind);
+    if (!executor?.restore || proposal.snapshot === undefined) {
+      throw new GovernanceConflictError(
+        `${proposal.kind} proposals cannot be rolled back`,
+      );
+    }
+    if (this.changedSinceDeploy(proposal)) {
+      throw new GovernanceConflictError(
+        "state changed since this proposal was deployed; roll back the later change first",
+      );
+    }
+    try {
+      await executor.restore(proposal.snapshot, proposal.payload, proposal);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const stored = this.options.proposals.update(id, (p) => {
+        p.error = `rollback failed: ${message}`;
+      })!;
+      this.emit("rollback_failed", stored, actor);
+      throw new ExecutionFailedError(message);
+    }
+    const rolledBack = this.options.proposals.update(id, (p) => {
+      p.status = "rolled_back";
+      p.rolledBackAt = new Date(this.now()).toISOString();
+      p.rolledBackBy = actor;
+      delete p.error;
+    })!;
+    this.emit("rolled_back", rolledBack, actor);
+    return rolledBack;
+  }
+
+  /** Whether a deployed proposal has what rollback needs */
+  canRollback(p: GovernanceProposal) {
+    return (
+      p.status === "deployed" &&
+      p.snapshot !== undefined &&
+      !!this.executors.get(p.kind)?.restore &&
+      !this.changedSinceDeploy(p)
+    );
+  }
+
+  private changedSinceDeploy(p: GovernanceProposal) {
+    const snapshot = this.executors.get(p.kind)?.snapshot;
+    if (!snapshot || p.deployedState === undefined) return false;
+    return (
+      JSON.stringify(snapshot(p.payload)) !== JSON.stringify(p.deployedState)
+    );
+  }
+
+  private emit(
+    type: GovernanceEvent["type"],
+    proposal: GovernanceProposal,
+    actor: string,
+    choice?: VoteChoice,
+  ) {
+    this.options.onEvent?.({ type, proposal, actor, choice });
+  }
+
+  private eligible() {
+    return this.options.voters().map((v) => v.id);
+  }
+
+  // Applies the lazily evaluated decision (expiry, early rejection) and
+  // stores it when it changed
+  private refresh(p: GovernanceProposal): GovernanceProposal {
+    const status = decideStatus(p, this.eligible(), this.now());
+    if (status === p.status) return p;
+    return this.options.proposals.update(p.id, (s) => {
+      s.status = status;
+      if (!isOpen(s)) s.decidedAt = new Date(this.now()).toISOString();
+    })!;
+  }
+}
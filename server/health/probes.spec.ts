@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  probeHistory,
+  readiness,
+  registerProbe,
+  runProbe,
+  unregisterProbe,
+} from "./probes";
+
+const ids: string[] = [];
+
+function custom(
+  id: string,
+  run: () => Promise<void>,
+  opts: { required?: boolean; skip?: string; timeoutMs?: number } = {},
+) {
+  ids.push(id);
+  registerProbe({
+    id,
+    name: id,
+    required: opts.required ?? true,
+    timeoutMs: opts.timeoutMs ?? 200,
+    skip: opts.skip,
+    check: { kind: "custom", run },
+  });
+}
+
+afterEach(() => {
+  ids.splice(0).forEach(unregisterProbe);
+});
+
+describe("probe registry", () => {
+  it("caches results until forced", async () => {
+    let calls = 0;
+    custom("cached", async () => {
+      calls++;
+    });
+    await runProbe("cached");
+    await runProbe("cached");
+    expect(calls).toBe(1);
+    await runProbe("cached", true);
+    expect(calls).toBe(2);
+  });
+
+  it("fails readiness only on required, non-skipped probes", async () => {
+    custom("db", async () => {});
+    custom(
+      "search",
+      async () => {
+        throw new Error("down");
+      },
+      { required: false },
+    );
+    custom("mail", async () => {}, { skip: "skipped by config" });
+    let verdict = await readiness(true);
+    expect(verdict.ok).toBe(true);
+    expect(verdict.degraded).toEqual(["search"]);
+
+    custom("slow", () => new Promise((r) => setTimeout(r, 1000)), {
+      timeoutMs: 20,
+    });
+    verdict = await readiness(true);
+    expect(verdict.ok).toBe(false);
+    expect(verdict.failing).toEqual(["slow"]);
+    expect(verdict.dependencies.find((d) => d.id === "slow")?.error).toMatch(
+      /timed out/,
+    );
+  });
+
+  it("flags a probe that keeps changing state as flapping", async () => {
+    let up = true;
+    custom("flaky", async () => {
+      if (!up) throw new Error("refused");
+    });
+    for (const state of [true, false, true, false, true]) {
+      up = state;
+      await runProbe("flaky", true);
+    }
+    const h = probeHistory("flaky");
+    expect(h.transitions).toBe(4);
+    expect(h.flapping).toBe(true);
+    expect(h.uptime).toBe(0.6);
+  });
+});
@@ -0,0 +1,307 @@
+import net from "net";
+import crypto from "crypto";
+
+// Dependency probe registry.
+//
+// Each external dependency registers a probe: a TCP connect (optionally with a
+// greeting or request/response exchange), an HTTP GET, or a custom async
+// function, always bounded by a timeout. Results are cached for a TTL so a
+// burst of readiness polls costs one round of checks, and every real check is
+// appended to a bounded per-probe history used to spot flapping dependencies.
+
+export type ProbeCheck =
+  | {
+      kind: "tcp";
+      host: string;
+      port: number;
+      /** Written after connecting, e.g. "PING\r\n" */
+      send?: string;
+      /** The first data received must match, e.g. /^\+PONG/ */
+      expect?: RegExp;
+    }
+  | {
+      kind: "http";
+      url: string;
+      headers?: Record<string, string>;
+      /** Which status codes count as healthy; defaults to 2xx/3xx */
+      okStatus?: (code: number) => boolean;
+    }
+  | {
+      kind: "custom";
+      run: (signal: AbortSignal) => Promise<{ code?: number } | void>;
+    };
+
+export interface ProbeDefinition {
+  id: string;
+  name: string;
+  /** Required dependencies decide the readiness verdict */
+  required: boolean;
+  timeoutMs: number;
+  /** Reason the probe is skipped by configuration, if it is */
+  skip?: string;
+  check: ProbeCheck;
+}
+
+export interface ProbeResult {
+  id: string;
+  name: string;
+  ok: boolean;
+  required: boolean;
+  skipped: boolean;
+  code: number;
+  error: string | null;
+  latency_ms: number;
+  checked_at: string;
+  timeout: number;
+  request_id: string;
+}
+
+export interface ProbeHistoryEntry {
+  checked_at: string;
+  ok: boolean;
+  code: number;
+  latency_ms: number;
+  error: string | null;
+}
+
+export interface ReadinessVerdict {
+  ok: boolean;
+  checked_at: string;
+  /** Required, non-skipped probes that are failing */
+  failing: string[];
+  /** Optional probes that are failing; reported but not blocking */
+  degraded: string[];
+  dependencies: ProbeResult[];
+}
+
+const HISTORY_LIMIT = 120;
+// State changes within the recorded history that mark a probe as flapping
+const FLAP_TRANSITIONS = 3;
+
+const probes = new Map<string, ProbeDefinition>();
+const cache = new Map<string, { at: number; result: ProbeResult }>();
+const running = new Map<string, Promise<ProbeResult>>();
+const history = new Map<string, ProbeHistoryEntry[]>();
+
+function ttlMs() {
+  const v = parseInt(process.env.HEALTH_PROBE_TTL_MS || "", 10);
+  return Number.isFinite(v) && v >= 0 ? v : 10_000;
+}
+
+export function registerProbe(def: ProbeDefinition) {
+  probes.set(def.id, def);
+  cache.delete(def.id);
+}
+
+export function unregisterProbe(id: string) {
+  probes.delete(id);
+  cache.delete(id);
+  history.delete(id);
+}
+
+export function listProbes(): ProbeDefinition[] {
+  return Array.from(probes.values());
+}
+
+function tcpCheck(
+  c: Extract<ProbeCheck, { kind: "tcp" }>,
+  signal: AbortSignal,
+): Promise<{ code: number }> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: c.host, port: c.port });
+    const fail = (err: Error) => {
+      socket.destroy();
+      reject(err);
+    };
+    signal.addEventListener("abort", () => fail(new Error("timeout")), {
+      once: true,
+    });
+    socket.once("error", fail);
+    socket.once("connect", () => {
+      if (!c.send && !c.expect) {
+        socket.end();
+        return resolve({ code: 0 });
+      }
+      if (c.send) socket.write(c.send);
+    });
+    socket.once("data", (buf) => {
+      const text = buf.toString("utf8");
+      socket.end();
+      if (c.expect && !c.expect.test(text)) {
+        reject(new Error(`unexpected reply: ${text.trim().slice(0, 80)}`));
+      } else {
+        resolve({ code: 0 });
+      }
+    });
+  });
+}
+
+async function httpCheck(
+  c: Extract<ProbeCheck, { kind: "http" }>,
+  signal: AbortSignal,
+) {
+  const r = await fetch(c.url, { headers: c.headers, signal });
+  // Drain the body so the connection can be reused
+  await r.arrayBuffer().catch(() => undefined);
+  const healthy = c.okStatus
+    ? c.okStatus(r.status)
+    : r.status >= 200 && r.status < 400;
+  if (!healthy) {
+    const err = new Error(`HTTP ${r.status}`) as Error & { code?: number };
+    err.code = r.status;
+    throw err;
+  }
+  return { code: r.status };
+}
+
+async function execute(def: ProbeDefinition): Promise<ProbeResult> {
+  const base = {
+    id: def.id,
+    name: def.name,
+    required: def.required,
+    timeout: def.timeoutMs,
+    request_id: `req_${def.id}_${crypto.randomBytes(4).toString("hex")}`,
+  };
+  if (def.skip) {
+    return {
+      ...base,
+      ok: false,
+      skipped: true,
+      code: 0,
+      error: def.skip,
+      latency_ms: 0,
+      checked_at: new Date().toISOString(),
+    };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), def.timeoutMs);
+  const started = Date.now();
+  let ok = false;
+  let code = 0;
+  let error: string | null = null;
+  try {
+    const c = def.check;
+    const check =
+      c.kind === "tcp"
+        ? tcpCheck(c, controller.signal)
+        : c.kind === "http"
+          ? httpCheck(c, controller.signal)
+          : (c.run(controller.signal) as Promise<
+              { code?: number } | undefined
+            >);
+    // Checks that ignore the signal are still bounded by the timeout
+    const timedOut = new Promise<never>((_, reject) =>
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(new Error("timeout")),
+        { once: true },
+      ),
+    );
+    const out = await Promise.race([check, timedOut]);
+    ok = true;
+    code = out?.code ?? 0;
+  } catch (err: any) {
+    code = typeof err?.code === "number" ? err.code : 0;
+    // Prefer system error codes (ECONNREFUSED, ENOTFOUND) over fetch's generic message
+    const sysCode = err?.cause?.code || (code ? undefined : err?.code);
+    error = controller.signal.aborted
+      ? `timed out after ${def.timeoutMs}ms`
+      : sysCode || err?.message || String(err);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const result: ProbeResult = {
+    ...base,
+    ok,
+    skipped: false,
+    code,
+    error,
+    latency_ms: Date.now() - started,
+    checked_at: new Date().toISOString(),
+  };
+  const h = history.get(def.id) || [];
+  h.push({
+    checked_at: result.checked_at,
+    ok,
+    code,
+    latency_ms: result.latency_ms,
+    error,
+  });
+  if (h.length > HISTORY_LIMIT) h.splice(0, h.length - HISTORY_LIMIT);
+  history.set(def.id, h);
+  return result;
+}
+
+/** Cached result for one probe; `force` bypasses the TTL */
+export async function runProbe(
+  id: string,
+  force = false,
+): Promise<ProbeResult | undefined> {
+  const def = probes.get(id);
+  if (!def) return undefined;
+  const hit = cache.get(id);
+  if (!force && hit && Date.now() - hit.at < ttlMs()) return hit.result;
+  // Concurrent callers share the check that is already in flight
+  const pending = running.get(id);
+  if (pending) return pending;
+  const p = execute(def)
+    .then((result) => {
+      cache.set(id, { at: Date.now(), result });
+      return result;
+    })
+    .finally(() => running.delete(id));
+  running.set(id, p);
+  return p;
+}
+
+export async function runAllProbes(force = false): Promise<ProbeResult[]> {
+  const results = await Promise.all(
+    listProbes().map((p) => runProbe(p.id, force)),
+  );
+  return results.filter((r): r is ProbeResult => !!r);
+}
+
+export async function readiness(force = false): Promise<ReadinessVerdict> {
+  const dependencies = await runAllProbes(force);
+  const failing = dependencies
+    .filter((d) => d.required && !d.skipped && !d.ok)
+    .map((d) => d.id);
+  const degraded = dependencies
+    .filter((d) => !d.required && !d.skipped && !d.ok)
+    .map((d) => d.id);
+  return {
+    ok: failing.length === 0,
+    checked_at: new Date().toISOString(),
+    failing,
+    degraded,
+    dependencies,
+  };
+}
+
+export function probeHistory(id: string, limit = HISTORY_LIMIT) {
+  const entries = history.get(id) || [];
+  let transitions = 0;
+  for (let i = 1; i < entries.length; i++) {
+    if (entries[i].ok !== entries[i - 1].ok) transitions++;
+  }
+  const okCount = entries.filter((e) => e.ok).length;
+  const latencies = entries.filter((e) => e.ok).map((e) => e.latency_ms);
+  return {
+    id,
+    samples: entries.length,
+    uptime: entries.length ? +(okCount / entries.length).toFixed(4) : null,
+    transitions,
+    flapping: transitions >= FLAP_TRANSITIONS,
+    avg_latency_ms: latencies.length
+      ? Math.round(latencies.reduce((s, v) => s + v, 0) / latencies.length)
+      : null,
+    last_change:
+      [...entries]
+        .reverse()
+        .find((e, i, arr) => i + 1 < arr.length && e.ok !== arr[i + 1].ok)
+        ?.checked_at ?? null,
+    entries: entries.slice(-Math.max(1, limit)),
+  };
+}
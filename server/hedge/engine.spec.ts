@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  hedgeEffectiveness,
+  planHedgeAdjustment,
+  type HedgePosition,
+} from "./engine";
+
+const hedge = (over: Partial<HedgePosition>): HedgePosition => ({
+  id: "h1",
+  amount: 1000,
+  timestamp: "2026-01-01T00:00:00.000Z",
+  type: "auto_hedge",
+  status: "active",
+  triggerPrice: 40000,
+  pnl: 0,
+  fees: 5,
+  ...over,
+});
+const now = Date.parse("2026-01-02T00:00:00Z");
+
+describe("auto-hedge engine", () => {
+  it("opens the shortfall and holds inside the band or cooldown", () => {
+    const hedges = [hedge({ amount: 20000, type: "manual_hedge" })];
+    const open = planHedgeAdjustment({
+      exposure: 100000,
+      percent: 0.3,
+      hedges,
+      now,
+    });
+    expect(open).toMatchObject({
+      action: "open",
+      amount: 10000,
+      target: 30000,
+    });
+
+    const band = planHedgeAdjustment({
+      exposure: 100000,
+      percent: 0.21,
+      hedges,
+      now,
+    });
+    expect(band.action).toBe("hold");
+    expect(band.reason).toMatch(/within band/);
+
+    const cooling = planHedgeAdjustment({
+      exposure: 100000,
+      percent: 0.3,
+      hedges,
+      now,
+      lastAdjustedAt: now - 60_000,
+    });
+    expect(cooling.reason).toMatch(/cooldown/);
+  });
+
+  it("trims auto hedges newest first and leaves manual hedges alone", () => {
+    const hedges = [
+      hedge({ id: "manual", amount: 10000, type: "manual_hedge" }),
+      hedge({ id: "old", amount: 4000 }),
+      hedge({ id: "new", amount: 3000, timestamp: "2026-01-01T12:00:00.000Z" }),
+    ];
+    const plan = planHedgeAdjustment({
+      exposure: 50000,
+      percent: 0.2,
+      hedges,
+      now,
+    });
+    expect(plan.action).toBe("trim");
+    expect(plan.trims).toEqual([
+      { id: "new", amount: 3000 },
+      { id: "old", amount: 4000 },
+    ]);
+    const onlyManual = planHedgeAdjustment({
+      exposure: 10000,
+      percent: 0.1,
+      hedges: [hedges[0]],
+      now,
+    });
+    expect(onlyManual.action).toBe("hold");
+  });
+
+  it("reports realized and unrealized hedge P&L", () => {
+    const report = hedgeEffectiveness(
+      [
+        hedge({
+          id: "a",
+          status: "closed",
+          closePrice: 36000,
+          pnl: 100,
+          fees: 5,
+        }),
+        hedge({ id: "b", amount: 2000, triggerPrice: 40000 }),
+      ],
+      20000,
+      0.25,
+      () => 38000,
+    );
+    expect(report.realized).toMatchObject({
+      count: 1,
+      pnl: 100,
+      net: 95,
+      wins: 1,
+    });
+    expect(report.unrealized.pnl).toBe(100);
+    expect(report.coverage).toBeCloseTo(0.4);
+    expect(report.dollarOffset).toBeCloseTo(0.95);
+  });
+});
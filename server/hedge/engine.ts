@@ -0,0 +1,231 @@
+// Auto-hedging engine behind /api/hedge/auto/run and /api/hedge/effectiveness.
+//
+// Each run compares a user's active hedged value with the target, which is
+// the effective hedge percent (the market recommendation when auto-adjust is
+// on, the user's own percent otherwise) times their crypto exposure. Gaps
+// inside the band (the larger of a minimum trade size and a share of the
+// target) are left alone, and after an adjustment the user is held for a
+// cooldown so a noisy target does not churn hedges. Shortfalls open a new
+// auto hedge; excess is trimmed from auto hedges only, newest first, so
+// manual and profit hedges are never touched by the engine.
+
+export interface AutoHedgeConfig {
+  /** Minimum time between two adjustments for one user */
+  cooldownMs: number;
+  /** Smallest hedge opened or trimmed, USDT */
+  minTradeUsd: number;
+  /** Gap tolerated before adjusting, as a share of the target */
+  bandPct: number;
+}
+
+export const DEFAULT_AUTO_HEDGE_CONFIG: AutoHedgeConfig = {
+  cooldownMs: 15 * 60_000,
+  minTradeUsd: 250,
+  bandPct: 0.05,
+};
+
+/** The subset of a hedge record the engine reasons about */
+export interface HedgePosition {
+  id: string;
+  amount: number;
+  timestamp: string;
+  type: "profit_hedge" | "manual_hedge" | "auto_hedge";
+  status: "active" | "closed" | "expired";
+  triggerPrice: number;
+  closePrice?: number;
+  pnl: number;
+  fees: number;
+}
+
+export interface HedgeTargetInput {
+  /** Crypto (non-USDT) value to protect, USDT */
+  exposure: number;
+  /** Effective hedge percent, 0-1 */
+  percent: number;
+  hedges: HedgePosition[];
+  /** Time of the user's last adjustment, if any */
+  lastAdjustedAt?: number;
+  now: number;
+}
+
+export interface HedgeAdjustment {
+  action: "open" | "trim" | "hold";
+  /** USDT to open or trim; zero on hold */
+  amount: number;
+  target: number;
+  current: number;
+  exposure: number;
+  percent: number;
+  reason: string;
+  /** Auto hedges to trim and by how much, newest first */
+  trims: Array<{ id: string; amount: number }>;
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export function planHedgeAdjustment(
+  input: HedgeTargetInput,
+  config: AutoHedgeConfig = DEFAULT_AUTO_HEDGE_CONFIG,
+): HedgeAdjustment {
+  const active = input.hedges.filter((h) => h.status === "active");
+  const current = active.reduce((s, h) => s + h.amount, 0);
+  const target = Math.max(0, input.exposure) * input.percent;
+  const base = {
+    target: round2(target),
+    current: round2(current),
+    exposure: round2(input.exposure),
+    percent: input.percent,
+  };
+  const hold = (reason: string): HedgeAdjustment => ({
+    action: "hold",
+    amount: 0,
+    ...base,
+    reason,
+    trims: [],
+  });
+
+  const gap = target - current;
+  const band = Math.max(config.minTradeUsd, target * config.bandPct);
+  if (Math.abs(gap) < band) {
+    return hold(`within band (gap ${round2(gap)} < ${round2(band)})`);
+  }
+  if (
+    input.lastAdjustedAt !== undefined &&
+    input.now - input.lastAdjustedAt < config.cooldownMs
+  ) {
+    const left = config.cooldownMs - (input.now - input.lastAdjustedAt);
+    return hold(`cooldown (${Math.ceil(left / 1000)}s left)`);
+  }
+
+  if (gap > 0) {
+    return {
+      action: "open",
+      amount: round2(gap),
+      ...base,
+      reason: `hedged ${base.current} below target ${base.target}`,
+      trims: [],
+    };
+  }
+
+  const trims: HedgeAdjustment["trims"] = [];
+  let remaining = -gap;
+  const auto = active
+    .filter((h) => h.type === "auto_hedge")
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  for (const h of auto) {
+    if (remaining <= 0) break;
+    const cut = Math.min(h.amount, remaining);
+    trims.push({ id: h.id, amount: round2(cut) });
+    remaining -= cut;
+  }
+  const amount = round2(trims.reduce((s, t) => s + t.amount, 0));
+  if (amount < config.minTradeUsd) {
+    return hold(
+      `hedged ${base.current} above target ${base.target} but no auto hedges to trim`,
+    );
+  }
+  return {
+    action: "trim",
+    amount,
+    ...base,
+    reason: `hedged ${base.current} above target ${base.target}`,
+    trims,
+  };
+}
+
+/** P&L of a short hedge of `amount` USDT opened at `entry`, marked at `price` */
+export function hedgePnl(amount: number, entry: number, price: number) {
+  if (!(entry > 0) || !(price > 0)) return 0;
+  return round2((amount * (entry - price)) / entry);
+}
+
+export interface HedgeEffectiveness {
+  exposure: number;
+  percent: number;
+  target: number;
+  hedged: number;
+  /** Hedged value over exposure */
+  hedgeRatio: number;
+  /** Hedged value over target */
+  coverage: number;
+  realized: {
+    count: number;
+    pnl: number;
+    fees: number;
+    net: number;
+    wins: number;
+    hitRate: number | null;
+  };
+  unrealized: { count: number; pnl: number };
+  /**
+   * Hedge P&L over the loss it offset on the hedged notional, for closed
+   * hedges with a recorded close price; 1 is a perfect offset, fees pull it
+   * below. Null when the underlying did not move.
+   */
+  dollarOffset: number | null;
+  byType: Record<string, { count: number; active: number; pnl: number }>;
+}
+
+export function hedgeEffectiveness<H extends HedgePosition>(
+  hedges: H[],
+  exposure: number,
+  percent: number,
+  markFor: (h: H) => number | undefined,
+): HedgeEffectiveness {
+  const active = hedges.filter((h) => h.status === "active");
+  const closed = hedges.filter((h) => h.status !== "active");
+  const hedged = active.reduce((s, h) => s + h.amount, 0);
+  const target = Math.max(0, exposure) * percent;
+
+  const realizedPnl = closed.reduce((s, h) => s + h.pnl, 0);
+  const fees = closed.reduce((s, h) => s + h.fees, 0);
+  const wins = closed.filter((h) => h.pnl > 0).length;
+
+  let offsetPnl = 0;
+  let underlyingLoss = 0;
+  for (const h of closed) {
+    if (!(h.closePrice && h.triggerPrice > 0)) continue;
+    offsetPnl += h.pnl - h.fees;
+    underlyingLoss -=
+      (h.amount * (h.closePrice - h.triggerPrice)) / h.triggerPrice;
+  }
+
+  const unrealized = active.reduce((s, h) => {
+    const mark = markFor(h);
+    return s + (mark ? hedgePnl(h.amount, h.triggerPrice, mark) : 0);
+  }, 0);
+
+  const byType: HedgeEffectiveness["byType"] = {};
+  for (const h of hedges) {
+    const t = (byType[h.type] ||= { count: 0, active: 0, pnl: 0 });
+    t.count++;
+    if (h.status === "active") t.active++;
+    t.pnl = round2(
+      t.pnl +
+        (h.status === "active"
+          ? hedgePnl(h.amount, h.triggerPrice, markFor(h) || h.triggerPrice)
+          : h.pnl),
+    );
+  }
+
+  return {
+    exposure: round2(exposure),
+    percent,
+    target: round2(target),
+    hedged: round2(hedged),
+    hedgeRatio: exposure > 0 ? hedged / exposure : 0,
+    coverage: target > 0 ? hedged / target : 0,
+    realized: {
+      count: closed.length,
+      pnl: round2(realizedPnl),
+      fees: round2(fees),
+      net: round2(realizedPnl - fees),
+      wins,
+      hitRate: closed.length ? wins / closed.length : null,
+    },
+    unrealized: { count: active.length, pnl: round2(unrealized) },
+    dollarOffset:
+      Math.abs(underlyingLoss) > 1e-9 ? offsetPnl / underlyingLoss : null,
+    byType,
+  };
+}
@@ -1,8 +1,18 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import type { Server } from "http";
+import type { Http2SecureServer } from "http2";
 import { handleDemo } from "./routes/demo";
-import { handleLogin, handleRefresh, handleLogout } from "./routes/auth";
+import { instrumentRequests, handleMetrics } from "./routes/metrics";
+import {
+  handleLogin,
+  handleRefresh,
+  handleLogout,
+  authenticate,
+  requireAuth,
+  requireRole,
+} from "./routes/auth";
 import {
   handleInviteUser,
   handleGetPendingUsers,
@@ -48,6 +58,11 @@ import {
   handleGetDatasets,
   handleGetSentimentPipelines,
   handleStartTrainingV1,
+  handleStartRollout,
+  handleGetRollout,
+  handleGetRolloutById,
+  handleReportRolloutMetrics,
+  handleAbortRollout,
 } from "./routes/models";
 import {
   handleGetEligibleMarkets,
@@ -61,6 +76,8 @@ import {
   handleRebalanceAll,
   handleGetRebalanceStatus,
   handleGetRebalanceHistory,
+  handleApproveRebalance,
+  handleRejectRebalance,
   handleGetPortfolioStats,
 } from "./routes/portfolio";
 import {
@@ -74,6 +91,9 @@ import {
   handleGetMarketConditions,
   handleUpdateMarketConditions,
   handleCloseHedge,
+  handleRunAutoHedge,
+  handleGetHedgeHistory,
+  handleGetHedgeEffectiveness,
   handleGetWalletSnapshot,
   handlePostWalletApiKeys,
   handleGetWalletApiKeysStatus,
@@ -83,6 +103,10 @@ import {
   handleCreateProposal,
   handleCastVote,
   handleDeployProposal,
+  handleGetProposal,
+  handleRollbackProposal,
+  handleGetGovernanceRules,
+  handleUpdateGovernanceRule,
   handleGetFeedbackSummary,
   handleSubmitFeedback,
   handleGetAllFeedback,
@@ -100,6 +124,12 @@ import {
   handleGetExecutionMetrics,
 } from "./routes/reports";
 import { handleGetUserTradesReport } from "./routes/reports.user-trades";
+import {
+  handleGenerateRegulatoryReport,
+  handleGetRegulatoryReportHistory,
+  handleDownloadRegulatoryReport,
+  handleVerifyRegulatoryReport,
+} from "./routes/reports.regulatory";
 import {
   handleGetUserProfile,
   handleUpdateUserProfile,
@@ -122,31 +152,64 @@ import {
   handleVetoTrade,
   handleGetTradeDetail,
 } from "./routes/trades";
+import { attachEventsWebSocket } from "./routes/events";
+import { StorageBusyError } from "./storage/journal";
+import {
+  requireApiKey,
+  handleListApiKeys,
+  handleCreateApiKey,
+  handleRevokeApiKey,
+  handleRotateApiKey,
+  handleGetApiKeyUsage,
+} from "./routes/api_keys";
 import {
   handleAskLLM,
+  handleAskLLMStream,
   handleLLMStatus,
   handleResetRateLimit,
+  handleListThreads,
+  handleCreateThread,
+  handleGetThread,
+  handleRenameThread,
+  handleDeleteThread,
+  handleExportThread,
 } from "./routes/llm";
 
+// Attach WebSocket upgrade handlers (live event feeds) to the HTTP server
+// that hosts the Express app.
+export function attachRealtime(server: Server | Http2SecureServer) {
+  attachEventsWebSocket(server);
+}
+
 export function createServer() {
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Backtest payloads carry full price/action series
+  app.use(express.json({ limit: "2mb" }));
   app.use(express.urlencoded({ extended: true }));
-
-  // Simple admin key check for sensitive model operations
-  function requireAdminKey(req: any, res: any, next: any) {
-    const key = req.get("X-API-Key");
-    if (key !== "aether-admin-key-2024") {
-      return res
-        .status(403)
-        .json({ status: "error", message: "Admin key required" });
-    }
-    next();
+  app.use(instrumentRequests);
+
+  // Authentication: resolve the Bearer token on every API call, require a
+  // session outside the public allowlist, and enforce roles per route group.
+  app.use("/api", authenticate, requireAuth);
+  const adminOnly = requireRole("admin", "founder");
+  for (const prefix of ["/api", "/api/v1"]) {
+    app.use(`${prefix}/admin`, adminOnly);
+    app.use(`${prefix}/governance`, adminOnly);
+    // Trading mode and status are shown to every signed-in user
+    app.use(`${prefix}/system`, (req, res, next) =>
+      req.method === "GET" && /^\/(status|mode)$/.test(req.path)
+        ? next()
+        : adminOnly(req, res, next),
+    );
   }
 
+  // Scoped API keys for sensitive model and system operations
+  const requireModelsKey = requireApiKey("models");
+  const requireSystemKey = requireApiKey("system");
+
   // Authentication routes
   app.post("/api/auth/login", handleLogin);
   app.post("/api/auth/refresh", handleRefresh);
@@ -165,18 +228,18 @@ export function createServer() {
   app.get("/api/founders/bootstrap-status", handleGetBootstrapStatus);
   app.post("/api/founders/bootstrap", handleCreateFounder);
   app.get("/api/founders", handleGetFounders);
-  app.delete("/api/founders/:founderId", handleDeleteFounder);
-  app.post("/api/founders/reset", handleResetFounders); // For testing only
-  app.get("/api/founders/debug", handleGetSystemDebug); // For debugging only
-
-  // User management routes
-  app.post("/api/users/invite", handleInviteUser);
-  app.get("/api/users/pending", handleGetPendingUsers);
-  app.post("/api/users/approve", handleApproveUser);
-  app.delete("/api/users/pending/:userId", handleRejectUser);
+  app.delete("/api/founders/:founderId", adminOnly, handleDeleteFounder);
+  app.post("/api/founders/reset", adminOnly, handleResetFounders); // For testing only
+  app.get("/api/founders/debug", adminOnly, handleGetSystemDebug); // For debugging only
+
+  // User management routes; only settings are the caller's own
+  app.post("/api/users/invite", adminOnly, handleInviteUser);
+  app.get("/api/users/pending", adminOnly, handleGetPendingUsers);
+  app.post("/api/users/approve", adminOnly, handleApproveUser);
+  app.delete("/api/users/pending/:userId", adminOnly, handleRejectUser);
   app.get("/api/users/settings", handleGetUserSettings);
   app.patch("/api/users/settings", handleUpdateUserSettings);
-  app.get("/api/users/stats", handleGetUserStats);
+  app.get("/api/users/stats", adminOnly, handleGetUserStats);
 
   // System control routes
   app.get("/api/system/status", handleGetSystemStatus);
@@ -187,21 +250,29 @@ export function createServer() {
   app.post("/api/admin/kill-switch", handleKillSwitch);
   app.get("/api/system/audit", handleGetAuditLog);
 
+  // Admin API key management
+  app.get("/api/admin/api-keys", handleListApiKeys);
+  app.post("/api/admin/api-keys", handleCreateApiKey);
+  app.get("/api/admin/api-keys/usage", handleGetApiKeyUsage);
+  app.post("/api/admin/api-keys/:keyId/rotate", handleRotateApiKey);
+  app.delete("/api/admin/api-keys/:keyId", handleRevokeApiKey);
+
   // Configuration routes
   app.get("/api/config/runtime", handleGetRuntimeConfig);
-  app.put("/api/config/runtime", handleUpdateRuntimeConfig);
-  app.post("/api/config/reload", handleReloadConfig);
+  // Runtime changes are proposals; see routes/config.ts
+  app.put("/api/config/runtime", adminOnly, handleUpdateRuntimeConfig);
+  app.post("/api/config/reload", adminOnly, handleReloadConfig);
   app.get("/api/config/effective", handleGetEffectiveConfig);
   app.get("/api/config", handleGetSystemConfig);
-  app.patch("/api/config", handleUpdateSystemConfig);
-  app.delete("/api/config", handleResetSystemConfig);
+  app.patch("/api/config", adminOnly, handleUpdateSystemConfig);
+  app.delete("/api/config", adminOnly, handleResetSystemConfig);
   app.get("/api/config/users", handleGetConfigUserSettings);
   app.post("/api/config/user", handleUpdateConfigUserSettings);
 
   // Models routes
-  app.post("/api/models/train", requireAdminKey, handleStartTraining);
+  app.post("/api/models/train", requireModelsKey, handleStartTraining);
   // v1 alias for compatibility with client
-  app.post("/api/v1/models/train", requireAdminKey, handleStartTrainingV1);
+  app.post("/api/v1/models/train", requireModelsKey, handleStartTrainingV1);
   app.get("/api/models/status/:jobId", handleGetTrainingStatus);
   app.get("/api/models/jobs", handleGetAllTrainingJobs);
   app.get(
@@ -212,17 +283,35 @@ export function createServer() {
     "/api/v1/models/jobs/stream",
     require("./routes/models").handleStreamTrainingJobs,
   );
-  app.delete("/api/models/train/:jobId", requireAdminKey, handleCancelTraining);
-  app.post("/api/models/deploy/:modelId", requireAdminKey, handleDeployModel);
+  app.delete(
+    "/api/models/train/:jobId",
+    requireModelsKey,
+    handleCancelTraining,
+  );
+  app.post("/api/models/deploy/:modelId", requireModelsKey, handleDeployModel);
   app.get("/api/models", handleGetAllModels);
   app.get(
     "/api/models/history",
     require("./routes/models").handleGetModelsHistory,
   );
-  app.post("/api/models/promote", requireAdminKey, handlePromoteModel);
-  app.post("/api/models/shadow/start", requireAdminKey, handleStartShadow);
-  app.post("/api/models/shadow/stop", requireAdminKey, handleStopShadow);
-  app.post("/api/models/rollback", requireAdminKey, handleRollbackModel);
+  app.post("/api/models/promote", requireModelsKey, handlePromoteModel);
+  app.post("/api/models/shadow/start", requireModelsKey, handleStartShadow);
+  app.post("/api/models/shadow/stop", requireModelsKey, handleStopShadow);
+  app.post("/api/models/rollback", requireModelsKey, handleRollbackModel);
+  // Staged (canary / linear / blue-green) rollouts
+  app.post("/api/models/rollout", requireModelsKey, handleStartRollout);
+  app.get("/api/models/rollout", handleGetRollout);
+  app.get("/api/models/rollout/:rolloutId", handleGetRolloutById);
+  app.post(
+    "/api/models/rollout/:rolloutId/metrics",
+    requireModelsKey,
+    handleReportRolloutMetrics,
+  );
+  app.post(
+    "/api/models/rollout/:rolloutId/abort",
+    requireModelsKey,
+    handleAbortRollout,
+  );
   app.get("/api/models/shadow", handleGetShadowTests);
   app.get("/api/models/curriculum", handleGetCurriculumStages);
   app.get("/api/models/datasets", handleGetDatasets);
@@ -237,7 +326,7 @@ export function createServer() {
     app.get("/api/admin/models/registry", handleAdminModelsRegistry);
     app.post(
       "/api/admin/models/retrain",
-      requireAdminKey,
+      requireModelsKey,
       handleAdminModelsRetrain,
     );
   }
@@ -250,11 +339,10 @@ export function createServer() {
     return res.redirect(308, target);
   });
   // Audit log endpoint
-  app.get("/api/models/audit", requireAdminKey, (_req, res) => {
+  app.get("/api/models/audit", requireModelsKey, (_req, res) => {
     try {
-      const { auditLog } = require("./routes/models");
-      const lim = 200;
-      res.json({ status: "success", data: auditLog.slice(0, lim) });
+      const { modelAuditLog } = require("./routes/models");
+      res.json({ status: "success", data: modelAuditLog(200) });
     } catch (e) {
       res
         .status(500)
@@ -283,14 +371,22 @@ export function createServer() {
 
   // Portfolio routes
   app.get("/api/admin/portfolio", handleGetPortfolioOverview);
+  app.get("/api/admin/portfolio/rebalance-history", handleGetRebalanceHistory);
+  app.get("/api/admin/portfolio/stats", handleGetPortfolioStats);
   app.get("/api/admin/portfolio/:userId", handleGetPortfolioDetails);
   app.post("/api/admin/portfolio/rebalance", handleRebalanceAll);
   app.get(
     "/api/admin/portfolio/rebalance/:rebalanceId",
     handleGetRebalanceStatus,
   );
-  app.get("/api/admin/portfolio/rebalance-history", handleGetRebalanceHistory);
-  app.get("/api/admin/portfolio/stats", handleGetPortfolioStats);
+  app.post(
+    "/api/admin/portfolio/rebalance/:rebalanceId/approve",
+    handleApproveRebalance,
+  );
+  app.post(
+    "/api/admin/portfolio/rebalance/:rebalanceId/reject",
+    handleRejectRebalance,
+  );
 
   // Portfolio optimizer routes
   {
@@ -305,9 +401,13 @@ export function createServer() {
   }
   // New unified portfolio optimize endpoint (v1 alias)
   {
-    const { handlePortfolioOptimize } = require("./routes/portfolio_optimize");
+    const {
+      handlePortfolioOptimize,
+      handlePortfolioFrontier,
+    } = require("./routes/portfolio_optimize");
     app.post("/api/portfolio/optimize", handlePortfolioOptimize);
     app.post("/api/v1/portfolio/optimize", handlePortfolioOptimize);
+    app.post("/api/portfolio/frontier", handlePortfolioFrontier);
   }
 
   // Hedge & Wallet routes
@@ -324,12 +424,29 @@ export function createServer() {
   app.get("/api/hedge/market-conditions", handleGetMarketConditions);
   app.post("/api/hedge/market-conditions", handleUpdateMarketConditions);
   app.post("/api/hedge/close/:hedgeId", handleCloseHedge);
+  app.post("/api/hedge/auto/run", handleRunAutoHedge);
+  app.get("/api/hedge/history", handleGetHedgeHistory);
+  app.get("/api/hedge/effectiveness", handleGetHedgeEffectiveness);
 
   // Governance routes
   app.get("/api/admin/proposals", handleGetProposals);
   app.post("/api/admin/proposals/:proposalId", handleCreateProposal);
   app.post("/api/admin/proposals/:proposalId/vote", handleCastVote);
   app.post("/api/admin/deploy/:proposalId", handleDeployProposal);
+  app.get("/api/governance/proposals", handleGetProposals);
+  app.post("/api/governance/proposals", handleCreateProposal);
+  app.get("/api/governance/proposals/:proposalId", handleGetProposal);
+  app.post("/api/governance/proposals/:proposalId/vote", handleCastVote);
+  app.post(
+    "/api/governance/proposals/:proposalId/execute",
+    handleDeployProposal,
+  );
+  app.post(
+    "/api/governance/proposals/:proposalId/rollback",
+    handleRollbackProposal,
+  );
+  app.get("/api/governance/rules", handleGetGovernanceRules);
+  app.patch("/api/governance/rules/:kind", handleUpdateGovernanceRule);
   app.get("/api/admin/feedback", handleGetFeedbackSummary);
   app.post("/api/feedback", handleSubmitFeedback);
   app.get("/api/admin/feedback/all", handleGetAllFeedback);
@@ -340,11 +457,19 @@ export function createServer() {
     handlePluginPropose,
     handlePluginVote,
     handlePluginApprove,
+    handlePluginDryRun,
+    handlePluginDeactivate,
+    handlePluginTelemetry,
+    restoreActivePlugins,
   } = require("./routes/plugins");
   app.get("/api/governance/plugins", handlePluginsList);
   app.post("/api/governance/plugins/propose", handlePluginPropose);
   app.post("/api/governance/plugins/:name/vote", handlePluginVote);
+  app.post("/api/governance/plugins/:name/dry-run", handlePluginDryRun);
   app.post("/api/governance/plugins/:name/approve", handlePluginApprove);
+  app.post("/api/governance/plugins/:name/deactivate", handlePluginDeactivate);
+  app.get("/api/governance/plugins/:name/telemetry", handlePluginTelemetry);
+  restoreActivePlugins();
 
   // Manipulation defense
   {
@@ -378,6 +503,13 @@ export function createServer() {
   app.get("/api/reports/execution", handleGetExecutionMetrics);
   app.get("/api/reports/trades", handleGetUserTradesReport);
 
+  // Signed regulatory report bundles (/api/v1 reaches these via the redirect)
+  app.post("/api/reports/generate", handleGenerateRegulatoryReport);
+  app.get("/api/reports/generate", handleGenerateRegulatoryReport);
+  app.get("/api/reports/history", handleGetRegulatoryReportHistory);
+  app.get("/api/reports/:reportId/download", handleDownloadRegulatoryReport);
+  app.post("/api/reports/:reportId/verify", handleVerifyRegulatoryReport);
+
   // Data retention admin
   {
     const {
@@ -388,10 +520,10 @@ export function createServer() {
     app.get("/api/admin/config/data-retention", handleGetDataRetention);
     app.patch(
       "/api/admin/config/data-retention",
-      requireAdminKey,
+      requireSystemKey,
       handlePatchDataRetention,
     );
-    app.post("/api/admin/data/purge", requireAdminKey, handlePostManualPurge);
+    app.post("/api/admin/data/purge", requireSystemKey, handlePostManualPurge);
     app.get(
       "/api/metrics/retention",
       require("./routes/retention").handleRetentionMetrics,
@@ -456,7 +588,7 @@ export function createServer() {
     handleHealthReady,
     handleHealthReadyDetails,
     handleHealthDependencies,
-    handleMetrics,
+    handleHealthDependencyHistory,
   } = require("./routes/health");
   app.get("/api/health/live", handleHealthLive);
   // Alias for system-scoped health path expected by client
@@ -466,10 +598,20 @@ export function createServer() {
   app.get("/api/system/health/ready", handleHealthReady);
   app.get("/api/health/ready/details", handleHealthReadyDetails);
   app.get("/api/health/dependencies", handleHealthDependencies);
+  app.get("/api/health/dependencies/history", handleHealthDependencyHistory);
+  // System-scoped aliases used by the Observability page
+  app.get("/api/system/health/ready/details", handleHealthReadyDetails);
+  app.get("/api/system/health/dependencies", handleHealthDependencies);
+  app.get(
+    "/api/system/health/dependencies/history",
+    handleHealthDependencyHistory,
+  );
   app.get(
     "/api/health/live/details",
     require("./routes/health").handleHealthLiveDetails,
   );
+  // Prometheus scrape endpoint (public, like the health probes)
+  app.get("/metrics", handleMetrics);
   app.get("/api/metrics", handleMetrics);
 
   // Risk config and live metrics
@@ -479,10 +621,12 @@ export function createServer() {
       handleGetLiveMetrics,
       handlePatchRiskConfig,
       handleGetRiskBreaches,
+      handleGetRiskMetrics,
     } = require("./routes/risk");
     app.get("/api/config/risk", handleGetRiskConfig);
-    app.patch("/api/config/risk", handlePatchRiskConfig);
+    app.patch("/api/config/risk", adminOnly, handlePatchRiskConfig);
     app.get("/api/metrics/live", handleGetLiveMetrics);
+    app.get("/api/risk/metrics", handleGetRiskMetrics);
     app.get("/api/risk/breaches", handleGetRiskBreaches);
     app.get("/risk/breaches", handleGetRiskBreaches);
   }
@@ -534,6 +678,15 @@ export function createServer() {
   app.post("/api/signals/ingest", handleSignalsIngest);
   app.get("/api/strategies/explain", handleStrategiesExplain);
   app.post("/api/strategies/stress-test", handleStrategiesStressTest);
+  // Market regime detection over the shared price series
+  {
+    const {
+      handleGetCurrentRegime,
+      handleGetRegimeHistory,
+    } = require("./routes/regime");
+    app.get("/api/strategies/regime/current", handleGetCurrentRegime);
+    app.get("/api/strategies/regime/history", handleGetRegimeHistory);
+  }
   // Trade decision explainability
   app.get("/api/explain", handleExplain);
   app.get("/api/v1/explain", handleExplain);
@@ -545,11 +698,34 @@ export function createServer() {
   app.post("/api/strategies/backtest", handlePostBacktest);
   app.post("/api/v1/backtest", handlePostBacktest);
 
-  // Federated learning status
-  app.get(
-    "/api/federated/status",
-    require("./routes/federated").handleFederatedStatus,
-  );
+  // Federated learning round coordinator
+  {
+    const {
+      handleFederatedStatus,
+      handleListFederatedRounds,
+      handleGetFederatedRound,
+      handleOpenFederatedRound,
+      handleSubmitFederatedUpdate,
+      handleAggregateFederatedRound,
+      handleListFederatedNodes,
+      handleRegisterFederatedNode,
+    } = require("./routes/federated");
+    app.get("/api/federated/status", handleFederatedStatus);
+    app.get("/api/federated/rounds", handleListFederatedRounds);
+    app.get("/api/federated/rounds/:round", handleGetFederatedRound);
+    app.post("/api/federated/rounds", adminOnly, handleOpenFederatedRound);
+    app.post(
+      "/api/federated/rounds/:round/updates",
+      handleSubmitFederatedUpdate,
+    );
+    app.post(
+      "/api/federated/rounds/:round/aggregate",
+      adminOnly,
+      handleAggregateFederatedRound,
+    );
+    app.get("/api/federated/nodes", handleListFederatedNodes);
+    app.post("/api/federated/nodes", adminOnly, handleRegisterFederatedNode);
+  }
 
   // Models explainability
   app.get("/api/models/explain/:modelId", (req, res) => {
@@ -597,7 +773,7 @@ export function createServer() {
   } = require("./routes/asc");
   app.get("/api/strategy/controller/status", handleASCStatus);
   app.get("/api/strategy/controller/history", handleASCHistory);
-  app.post("/api/strategy/controller/reweight", handleASCReweight);
+  app.post("/api/strategy/controller/reweight", adminOnly, handleASCReweight);
   app.post("/api/strategy/controller/policy/:name/activate", handleASCActivate);
   app.post(
     "/api/strategy/controller/policy/:name/deactivate",
@@ -619,16 +795,27 @@ export function createServer() {
   app.post("/api/trades/admin/veto", handleVetoTrade);
   const {
     handleTradeDecision,
+    handleGetTradeDecision,
     handleTradeExecute,
+    handleListRiskChecks,
   } = require("./routes/trades_decision");
   app.post("/api/trades/decision", handleTradeDecision);
+  app.get("/api/trades/decision/:decisionId", handleGetTradeDecision);
   app.post("/api/trades/execute", handleTradeExecute);
+  app.get("/api/trades/risk-checks", handleListRiskChecks);
 
   // LLM/AI Assistant routes
   app.post("/api/llm/ask", handleAskLLM);
   // v1 alias for compatibility with client
   app.post("/api/v1/llm/ask", handleAskLLM);
+  app.post("/api/llm/ask/stream", handleAskLLMStream);
   app.get("/api/llm/status", handleLLMStatus);
+  app.get("/api/llm/threads", handleListThreads);
+  app.post("/api/llm/threads", handleCreateThread);
+  app.get("/api/llm/threads/:threadId", handleGetThread);
+  app.patch("/api/llm/threads/:threadId", handleRenameThread);
+  app.delete("/api/llm/threads/:threadId", handleDeleteThread);
+  app.get("/api/llm/threads/:threadId/export", handleExportThread);
   app.delete("/api/llm/rate-limit/:userId", handleResetRateLimit);
 
   // Multi-agent LOB simulator
@@ -649,9 +836,25 @@ export function createServer() {
 
   // Scenario Lab generic simulator
   {
-    const { handleSimRun } = require("./routes/sim");
+    const {
+      handleSimRun,
+      handleSimMonteCarlo,
+      handleSimBatch,
+      handleListScenarios,
+      handleGetScenario,
+      handleCreateScenario,
+      handleUpdateScenario,
+      handleDeleteScenario,
+    } = require("./routes/sim");
     app.post("/api/sim/run", handleSimRun);
     app.post("/sim/run", handleSimRun);
+    app.post("/api/sim/montecarlo", handleSimMonteCarlo);
+    app.post("/api/sim/batch", handleSimBatch);
+    app.get("/api/sim/scenarios", handleListScenarios);
+    app.post("/api/sim/scenarios", handleCreateScenario);
+    app.get("/api/sim/scenarios/:id", handleGetScenario);
+    app.put("/api/sim/scenarios/:id", handleUpdateScenario);
+    app.delete("/api/sim/scenarios/:id", handleDeleteScenario);
   }
 
   // Example API routes
@@ -673,8 +876,14 @@ export function createServer() {
     app.get("/api/compliance/logs", handleGetComplianceLogs);
   }
   {
-    const { handleGetAuditLogs } = require("./routes/audit");
-    app.get("/api/audit/logs", handleGetAuditLogs);
+    const {
+      handleGetAuditLogs,
+      handleVerifyAuditLedger,
+      handleExportAuditLedger,
+    } = require("./routes/audit");
+    app.get("/api/audit/logs", adminOnly, handleGetAuditLogs);
+    app.get("/api/audit/verify", adminOnly, handleVerifyAuditLedger);
+    app.get("/api/audit/export", adminOnly, handleExportAuditLedger);
   }
 
   // Automation social ingest
@@ -704,6 +913,10 @@ export function createServer() {
 
   // Global error handler: ensure we always return JSON for unexpected errors
   app.use((err: any, _req: any, res: any, _next: any) => {
+    if (err instanceof StorageBusyError && !res.headersSent) {
+      res.setHeader("Retry-After", "1");
+      return res.status(503).json({ error: err.message });
+    }
     console.error("Unhandled server error:", err);
     if (res.headersSent) return;
     res.status(500).json({ error: "Internal server error" });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  historyWithinBudget,
+  threadToMarkdown,
+  titleFromQuestion,
+  type ConversationTurn,
+} from "./conversation";
+
+const turn = (n: number, chars: number): ConversationTurn => ({
+  id: `turn_${n}`,
+  question: `q${n}`,
+  answer: "x".repeat(chars),
+  citations: n === 1 ? ["trade:trade_001"] : [],
+  at: `2026-01-0${n}T00:00:00Z`,
+});
+
+describe("conversation threads", () => {
+  it("keeps the latest turns that fit the token budget, oldest first", () => {
+    const turns = [turn(1, 400), turn(2, 400), turn(3, 400)];
+    expect(estimateTokens("x".repeat(400))).toBe(100);
+    expect(historyWithinBudget(turns, 250).map((t) => t.question)).toEqual([
+      "q2",
+      "q3",
+    ]);
+    expect(historyWithinBudget(turns, 50)).toEqual([]);
+    expect(titleFromQuestion(`  why ${"so ".repeat(40)}`)).toHaveLength(60);
+  });
+
+  it("exports a thread as markdown with its sources", () => {
+    const md = threadToMarkdown({
+      id: "thread_1",
+      owner: "1",
+      title: "BTC fills",
+      createdAt: "2026-01-01T00:00:00Z",
+      updatedAt: "2026-01-02T00:00:00Z",
+      turns: [turn(1, 3), { ...turn(2, 2), cancelled: true }],
+    });
+    expect(md).toContain("# BTC fills\n");
+    expect(md).toContain(
+      "## q1\n\n_2026-01-01T00:00:00Z_\n\nxxx\n\nSources: trade:trade_001",
+    );
+    expect(md).toContain("stopped before the answer finished");
+  });
+});
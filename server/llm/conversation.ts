@@ -0,0 +1,81 @@
+// Conversation threads for the assistant.
+//
+// A thread keeps every question and answer so an investigation can be resumed
+// later. Follow-up questions send the most recent turns back to the provider,
+// newest first until the token budget is spent; token counts are estimated at
+// four characters per token, which is close enough for budgeting prompts.
+
+export interface ConversationTurn {
+  id: string;
+  question: string;
+  answer: string;
+  /** Citation ids of the documents the answer was given from */
+  citations: string[];
+  provider?: { name: string; model: string };
+  at: string;
+  /** The client stopped the stream; the answer is what was sent until then */
+  cancelled?: boolean;
+}
+
+export interface ConversationThread {
+  id: string;
+  /** User id of the analyst who owns the thread */
+  owner: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+}
+
+export interface PriorTurn {
+  question: string;
+  answer: string;
+}
+
+export const HISTORY_TOKEN_BUDGET = 2_000;
+/** Longer questions are refused so a thread's history can keep several turns */
+export const MAX_QUESTION_TOKENS = HISTORY_TOKEN_BUDGET / 4;
+const TITLE_CHARS = 60;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** The latest turns that fit the budget, oldest first */
+export function historyWithinBudget(
+  turns: ConversationTurn[],
+  budget = HISTORY_TOKEN_BUDGET,
+): PriorTurn[] {
+  const out: PriorTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const { question, answer } = turns[i];
+    used += estimateTokens(question) + estimateTokens(answer);
+    if (used > budget) break;
+    out.unshift({ question, answer });
+  }
+  return out;
+}
+
+export function titleFromQuestion(question: string): string {
+  const q = question.trim().replace(/\s+/g, " ");
+  return q.length > TITLE_CHARS ? `${q.slice(0, TITLE_CHARS - 1)}…` : q;
+}
+
+export function threadToMarkdown(thread: ConversationThread): string {
+  const lines = [
+    `# ${thread.title}`,
+    "",
+    `Thread ${thread.id}, started ${thread.createdAt}, last updated ${thread.updatedAt}.`,
+  ];
+  for (const turn of thread.turns) {
+    lines.push("", `## ${turn.question}`, "", `_${turn.at}_`, "", turn.answer);
+    if (turn.cancelled) {
+      lines.push("", "_(stopped before the answer finished)_");
+    }
+    if (turn.citations.length) {
+      lines.push("", `Sources: ${turn.citations.join(", ")}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  LLMProviderError,
+  LocalProvider,
+  OpenAICompatibleProvider,
+  createProvider,
+} from "./provider";
+
+const context = [
+  {
+    id: "trade:trade_001",
+    title: "BUY 0.5 BTC/USDT",
+    text: "Bought 0.5 BTC/USDT at 43250. Net P&L 837.88.",
+  },
+];
+
+describe("llm providers", () => {
+  it("answers locally with citations, or says nothing matched", async () => {
+    const local = new LocalProvider();
+    await expect(
+      local.complete({ question: "BTC trades?", context }),
+    ).resolves.toBe(
+      "Here is what our records show:\n- BUY 0.5 BTC/USDT: Bought 0.5 BTC/USDT at 43250. [trade:trade_001]",
+    );
+    await expect(
+      local.complete({ question: "weather?", context: [] }),
+    ).resolves.toMatch(/could not find anything/);
+    expect(createProvider({}).name).toBe("local");
+    expect(createProvider({ AETHER_LLM_BASE_URL: "http://llm" }).name).toBe(
+      "openai",
+    );
+  });
+
+  it("posts sources to an OpenAI-compatible endpoint", async () => {
+    const calls: Array<{ url: string; body: any; headers: any }> = [];
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: "http://llm/v1/",
+      model: "m",
+      apiKey: "k",
+      fetch: (async (url: string, init: RequestInit) => {
+        calls.push({
+          url,
+          body: JSON.parse(String(init.body)),
+          headers: init.headers,
+        });
+        return new Response(
+          JSON.stringify({
+            choices: [{ message: { content: "One buy [trade:trade_001]" } }],
+          }),
+        );
+      }) as typeof fetch,
+    });
+    await expect(
+      provider.complete({ question: "BTC trades?", context }),
+    ).resolves.toBe("One buy [trade:trade_001]");
+    expect(calls[0].url).toBe("http://llm/v1/chat/completions");
+    expect(calls[0].headers.Authorization).toBe("Bearer k");
+    expect(calls[0].body.messages[1].content).toContain(
+      "[trade:trade_001] BUY 0.5 BTC/USDT",
+    );
+
+    const failing = new OpenAICompatibleProvider({
+      baseUrl: "http://llm",
+      model: "m",
+      fetch: (async () => new Response("", { status: 503 })) as any,
+    });
+    await expect(
+      failing.complete({ question: "x", context }),
+    ).rejects.toBeInstanceOf(LLMProviderError);
+  });
+
+  it("streams tokens and stops when the signal aborts", async () => {
+    const local = new LocalProvider();
+    let streamed = "";
+    for await (const t of local.stream({ question: "BTC?", context })) {
+      streamed += t;
+    }
+    expect(streamed).toBe(await local.complete({ question: "BTC?", context }));
+
+    const controller = new AbortController();
+    const seen: string[] = [];
+    for await (const t of local.stream({
+      question: "BTC?",
+      context,
+      signal: controller.signal,
+    })) {
+      seen.push(t);
+      controller.abort();
+    }
+    expect(seen).toHaveLength(1);
+
+    const sse = [
+      'data: {"choices":[{"delta":{"content":"One "}}]}',
+      'data: {"choices":[{"delta":{"content":"buy"}}]}',
+      "data: [DONE]",
+      "",
+    ].join("\n");
+    const remote = new OpenAICompatibleProvider({
+      baseUrl: "http://llm",
+      model: "m",
+      fetch: (async (_url: string, init: RequestInit) => {
+        expect(JSON.parse(String(init.body)).stream).toBe(true);
+        return new Response(sse);
+      }) as any,
+    });
+    const tokens: string[] = [];
+    for await (const t of remote.stream({
+      question: "BTC?",
+      context,
+      history: [{ question: "hi", answer: "hello" }],
+    })) {
+      tokens.push(t);
+    }
+    expect(tokens).toEqual(["One ", "buy"]);
+  });
+
+  it("fails a stream that stalls and lets go of the caller's signal", async () => {
+    const chunk = 'data: {"choices":[{"delta":{"content":"One "}}]}\n';
+    const remote = new OpenAICompatibleProvider({
+      baseUrl: "http://llm",
+      model: "m",
+      timeoutMs: 50,
+      // Headers and one chunk arrive, then the body goes quiet
+      fetch: (async () =>
+        new Response(
+          new ReadableStream({
+            start: (c) => c.enqueue(new TextEncoder().encode(chunk)),
+          }),
+        )) as any,
+    });
+    const controller = new AbortController();
+    const unlink = vi.spyOn(controller.signal, "removeEventListener");
+    const tokens: string[] = [];
+    await expect(
+      (async () => {
+        for await (const t of remote.stream({
+          question: "BTC?",
+          context,
+          signal: controller.signal,
+        })) {
+          tokens.push(t);
+        }
+      })(),
+    ).rejects.toThrow(/timed out after 50ms/);
+    expect(tokens).toEqual(["One "]);
+    expect(unlink).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+});
@@ -0,0 +1,274 @@
+// LLM providers behind the assistant.
+//
+// A provider turns a question plus retrieved context into an answer that
+// cites the context by id in square brackets. The local provider is
+// extractive and deterministic (tests and deployments without a model
+// endpoint use it); the OpenAI-compatible provider posts to any
+// /chat/completions endpoint (OpenAI, vLLM, Ollama, LiteLLM and the like).
+// Both can stream the answer as it is produced; aborting the request's signal
+// stops the stream.
+
+export interface ContextDocument {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface CompletionRequest {
+  question: string;
+  context: ContextDocument[];
+  /** Earlier turns of the conversation, oldest first */
+  history?: Array<{ question: string; answer: string }>;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Answer text in order; concatenated it equals the complete() answer */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class LLMProviderError extends Error {}
+
+export const SYSTEM_PROMPT =
+  "You are the Aether trading assistant. Answer only from the numbered " +
+  "sources provided; when they do not cover the question, say so. Cite every " +
+  "fact with its source id in square brackets, e.g. [trade:trade_001]. Be " +
+  "concise and do not give financial advice.";
+
+export function renderSources(context: ContextDocument[]): string {
+  return context.map((d) => `[${d.id}] ${d.title}: ${d.text}`).join("\n");
+}
+
+function firstSentence(text: string, max = 220): string {
+  const s = text.split(/(?<=[.!?])\s/)[0];
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+export class LocalProvider implements LLMProvider {
+  readonly name = "local";
+  readonly model = "aether-extractive-v1";
+
+  async complete({ question, context }: CompletionRequest): Promise<string> {
+    if (context.length === 0) {
+      return `I could not find anything in our reports, audit log, compliance logs or trade history that answers "${question.trim()}".`;
+    }
+    const lines = context
+      .slice(0, 6)
+      .map((d) => `- ${d.title}: ${firstSentence(d.text)} [${d.id}]`);
+    return `Here is what our records show:\n${lines.join("\n")}`;
+  }
+
+  // Word by word, so clients render it the same way as a model's stream
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const answer = await this.complete(request);
+    for (const token of answer.match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) return;
+      yield token;
+    }
+  }
+}
+
+// Aborts a request when the caller's signal fires or the endpoint sends
+// nothing for `timeoutMs`; touch() re-arms the timer as data arrives and
+// release() drops both the timer and the listener on the caller's signal
+function watchdog(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+  const expire = () => {
+    timedOut = true;
+    abort();
+  };
+  signal?.addEventListener("abort", abort, { once: true });
+  let timer = setTimeout(expire, timeoutMs);
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut;
+    },
+    touch() {
+      clearTimeout(timer);
+      timer = setTimeout(expire, timeoutMs);
+    },
+    release() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    },
+  };
+}
+
+type Watchdog = ReturnType<typeof watchdog>;
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly model: string;
+
+  constructor(
+    private readonly options: {
+      baseUrl: string;
+      model: string;
+      apiKey?: string;
+      /** Longest wait for the response, or between chunks of a stream */
+      timeoutMs?: number;
+      fetch?: typeof fetch;
+    },
+  ) {
+    this.model = options.model;
+  }
+
+  private get timeoutMs() {
+    return this.options.timeoutMs ?? 30_000;
+  }
+
+  // A caller's own abort is not a provider failure
+  private failure(err: unknown, watch: Watchdog, signal?: AbortSignal) {
+    if (err instanceof LLMProviderError || signal?.aborted) return err;
+    return new LLMProviderError(
+      watch.timedOut
+        ? `Model endpoint timed out after ${this.timeoutMs}ms`
+        : `Model endpoint unreachable: ${(err as Error).message}`,
+    );
+  }
+
+  // Resolves once the endpoint has answered with headers; the caller owns
+  // the watchdog and releases it once the body has been read
+  private async post(
+    {
+      question,
+      context,
+      history = [],
+      maxTokens = 600,
+      signal,
+    }: CompletionRequest,
+    stream: boolean,
+    watch: Watchdog,
+  ): Promise<Response> {
+    const { baseUrl, apiKey } = this.options;
+    const doFetch = this.options.fetch || fetch;
+    try {
+      const res = await doFetch(
+        `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: this.model,
+            max_tokens: maxTokens,
+            temperature: 0.2,
+            stream,
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              ...history.flatMap((t) => [
+                { role: "user", content: t.question },
+                { role: "assistant", content: t.answer },
+              ]),
+              {
+                role: "user",
+                content: `Sources:\n${renderSources(context) || "(none)"}\n\nQuestion: ${question}`,
+              },
+            ],
+          }),
+          signal: watch.signal,
+        },
+      );
+      if (!res.ok) {
+        throw new LLMProviderError(`Model endpoint returned ${res.status}`);
+      }
+      return res;
+    } catch (err) {
+      throw this.failure(err, watch, signal);
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const watch = watchdog(this.timeoutMs, request.signal);
+    let body: any;
+    try {
+      body = await (await this.post(request, false, watch)).json();
+    } catch (err) {
+      throw this.failure(err, watch, request.signal);
+    } finally {
+      watch.release();
+    }
+    const answer = body?.choices?.[0]?.message?.content;
+    if (typeof answer !== "string" || !answer.trim()) {
+      throw new LLMProviderError("Model endpoint returned no answer");
+    }
+    return answer.trim();
+  }
+
+  // Reads the endpoint's server-sent events: `data: {chunk}` lines ending
+  // with `data: [DONE]`. The timeout restarts with every chunk, so a body
+  // that stalls part-way fails instead of hanging.
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const watch = watchdog(this.timeoutMs, request.signal);
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    // Ends the read too when the body does not follow the fetch signal
+    watch.signal.addEventListener("abort", () =>
+      reader?.cancel().catch(() => {}),
+    );
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      const res = await this.post(request, true, watch);
+      if (!res.body) {
+        throw new LLMProviderError("Model endpoint sent no stream");
+      }
+      reader = res.body.getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (watch.timedOut) throw this.failure(null, watch);
+        if (done) return;
+        watch.touch();
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const data = /^data:\s*(.*)$/.exec(line.trim())?.[1];
+          if (!data) continue;
+          if (data === "[DONE]") return;
+          let token: unknown;
+          try {
+            token = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          } catch {
+            continue;
+          }
+          if (typeof token === "string" && token) yield token;
+        }
+      }
+    } catch (err) {
+      throw this.failure(err, watch, request.signal);
+    } finally {
+      watch.release();
+      reader?.cancel().catch(() => {});
+    }
+  }
+}
+
+// AETHER_LLM_BASE_URL (or an OpenAI key) selects the HTTP provider; without
+// either the assistant answers locally
+export function createProvider(
+  env: Record<string, string | undefined> = process.env,
+): LLMProvider {
+  const apiKey = env.AETHER_LLM_API_KEY || env.OPENAI_API_KEY;
+  const baseUrl =
+    env.AETHER_LLM_BASE_URL || (apiKey ? "https://api.openai.com/v1" : "");
+  if (env.AETHER_LLM_PROVIDER === "local" || !baseUrl) {
+    return new LocalProvider();
+  }
+  const timeoutMs = parseInt(env.AETHER_LLM_TIMEOUT_MS || "", 10);
+  return new OpenAICompatibleProvider({
+    baseUrl,
+    apiKey,
+    model: env.AETHER_LLM_MODEL || "gpt-4o-mini",
+    timeoutMs:
+      Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+  });
+}
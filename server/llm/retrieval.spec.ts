@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { embed, VectorIndex, type IndexedDocument } from "./retrieval";
+
+const docs: IndexedDocument[] = [
+  {
+    id: "trade:trade_001",
+    source: "trade",
+    title: "BUY 0.5 BTC/USDT",
+    text: "Bought 0.5 BTC/USDT at 43250, net P&L 837.88, executed.",
+  },
+  {
+    id: "compliance:comp_1",
+    source: "compliance",
+    title: "LIMITS check failed",
+    text: "LIMITS violation detected on ETH_042_20240121 for ops@aether.local.",
+  },
+  {
+    id: "audit:audit_00000002",
+    source: "audit",
+    title: "SYSTEM_PAUSE by admin@example.com",
+    text: "System paused for maintenance.",
+  },
+];
+
+describe("vector index", () => {
+  it("embeds deterministically to unit length", () => {
+    const a = embed("BTC position risk");
+    expect(Array.from(a)).toEqual(Array.from(embed("BTC position risk")));
+    expect(a.reduce((s, x) => s + x * x, 0)).toBeCloseTo(1, 5);
+    expect(embed("the and of").every((x) => x === 0)).toBe(true);
+  });
+
+  it("ranks the matching record first and filters by source", () => {
+    const index = new VectorIndex();
+    index.replace(docs);
+    expect(index.search("why was the system paused?")[0].doc.id).toBe(
+      "audit:audit_00000002",
+    );
+    expect(index.search("BTC trades")[0].doc.id).toBe("trade:trade_001");
+    expect(
+      index
+        .search("limits violation BTC", { sources: ["trade", "audit"] })
+        .map((h) => h.doc.source),
+    ).not.toContain("compliance");
+    expect(index.search("completely unrelated words")).toEqual([]);
+    expect(index.stats()).toEqual({ trade: 1, compliance: 1, audit: 1 });
+  });
+});
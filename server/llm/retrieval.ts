@@ -0,0 +1,134 @@
+// Local document retrieval for the assistant.
+//
+// Documents are embedded with feature hashing: lower-cased word unigrams and
+// bigrams (stopwords dropped) are hashed into a fixed number of buckets with a
+// sublinear term weight, and the vector is L2-normalized so a dot product is
+// the cosine similarity. This needs no model download and is deterministic,
+// which keeps answers reproducible in tests. Embeddings are cached by text, so
+// rebuilding the index from mostly unchanged records is cheap.
+
+export const EMBEDDING_DIMS = 2048;
+
+export interface IndexedDocument {
+  /** Citation id, `<source>:<record id>` */
+  id: string;
+  /** Which store the record came from, e.g. "trade" or "audit" */
+  source: string;
+  title: string;
+  text: string;
+  at?: string;
+}
+
+export interface SearchHit {
+  doc: IndexedDocument;
+  score: number;
+}
+
+export interface SearchOptions {
+  k?: number;
+  /** Only consider documents from these sources */
+  sources?: string[];
+  minScore?: number;
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have how i in is it its me my of on " +
+    "or our show tell that the their there this to was we were what when where " +
+    "which who why will with you your about any did do does can could should"
+  ).split(" "),
+);
+
+// Compound tokens such as BTC/USDT or MODEL_ROLLBACK also yield their parts;
+// a trailing plural "s" is dropped so "trades" finds "trade"
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+(?:[./-][a-z0-9_]+)*/g) || [])
+    .flatMap((t) => (/[/_]/.test(t) ? [t, ...t.split(/[/_]/)] : [t]))
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map((t) => (t.length > 3 && /[^s]s$/.test(t) ? t.slice(0, -1) : t));
+}
+
+// 32-bit FNV-1a
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function embed(text: string, dims = EMBEDDING_DIMS): Float32Array {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  const add = (f: string) => counts.set(f, (counts.get(f) || 0) + 1);
+  tokens.forEach((t, i) => {
+    add(t);
+    if (i > 0) add(`${tokens[i - 1]} ${t}`);
+  });
+  const v = new Float32Array(dims);
+  for (const [feature, n] of counts) {
+    const h = fnv1a(feature);
+    // The top bit picks the sign so unrelated collisions tend to cancel out
+    v[h % dims] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(n));
+  }
+  let norm = 0;
+  for (const x of v) norm += x * x;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < dims; i++) v[i] /= norm;
+  return v;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+export class VectorIndex {
+  private docs: Array<{ doc: IndexedDocument; vector: Float32Array }> = [];
+  private cache = new Map<string, Float32Array>();
+
+  constructor(private readonly dims = EMBEDDING_DIMS) {}
+
+  /** Swaps in a new document set, reusing embeddings for unchanged text */
+  replace(docs: IndexedDocument[]) {
+    const cache = new Map<string, Float32Array>();
+    this.docs = docs.map((doc) => {
+      const key = `${doc.title}\n${doc.text}`;
+      const vector =
+        this.cache.get(key) || cache.get(key) || embed(key, this.dims);
+      cache.set(key, vector);
+      return { doc, vector };
+    });
+    this.cache = cache;
+  }
+
+  get size() {
+    return this.docs.length;
+  }
+
+  get(id: string): IndexedDocument | undefined {
+    return this.docs.find((d) => d.doc.id === id)?.doc;
+  }
+
+  /** Per-source document counts */
+  stats(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const { doc } of this.docs)
+      out[doc.source] = (out[doc.source] || 0) + 1;
+    return out;
+  }
+
+  /** Best matches first; ties keep index order */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const { k = 5, sources, minScore = 0.15 } = options;
+    const q = embed(query, this.dims);
+    return this.docs
+      .filter(({ doc }) => !sources || sources.includes(doc.source))
+      .map(({ doc, vector }) => ({ doc, score: dot(q, vector) }))
+      .filter((h) => h.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -1,5 +1,5 @@
 import path from "path";
-import { createServer } from "./index";
+import { createServer, attachRealtime } from "./index";
 import express from "express";
 import path from "path";
 
@@ -23,11 +23,12 @@ app.get("*", (req, res) => {
   res.sendFile(path.join(distPath, "index.html"));
 });
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
+attachRealtime(server);
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { generatePriceSeries, INTERVAL_MS, type Candle } from "../routes/tasks";
+import { detectRegimes } from "../routes/regime";
+import {
+  DEFAULT_LIMITS,
+  PluginCrashError,
+  PluginSandbox,
+  PluginTimeoutError,
+} from "./sandbox";
+import type { PluginBar, PluginSignal, PluginTelemetry } from "./types";
+
+// Plugin loading, dry runs and the set of active plugins.
+//
+// A proposal's module path ("strategies.plugins.my_bot:Plugin") names a file
+// under the plugins directory (AETHER_PLUGINS_DIR, default ./plugins) and an
+// optional export. Only files inside that directory can be loaded. The code
+// hash taken at dry-run time is what approval pins: if the file changes
+// afterwards the plugin must be dry-run again before it can be activated.
+
+export class PluginLoadError extends Error {}
+
+export interface PluginSource {
+  file: string;
+  source: string;
+  sha256: string;
+  exportName?: string;
+}
+
+export interface DryRunReport {
+  passed: boolean;
+  sha256: string;
+  symbol: string;
+  interval: string;
+  started_at: string;
+  duration_ms: number;
+  bars: number;
+  signals: number;
+  actions: number;
+  invalid_actions: number;
+  errors: number;
+  timeouts: number;
+  avg_call_ms: number;
+  max_call_ms: number;
+  heap_peak_bytes: number;
+  failure: string | null;
+  logs: string[];
+}
+
+const MAX_SOURCE_BYTES = 256 * 1024;
+/** A dry run fails once this share of hook calls has thrown */
+const DRY_RUN_ERROR_RATE = 0.05;
+
+export function pluginsDir() {
+  return path.resolve(process.env.AETHER_PLUGINS_DIR || "plugins");
+}
+
+function sha256(text: string) {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+export function resolvePluginModule(modulePath: string) {
+  const [spec, exportName] = String(modulePath || "")
+    .trim()
+    .split(":");
+  if (!spec || !/^[\w.\-/]+$/.test(spec)) {
+    throw new PluginLoadError(`invalid module path: ${modulePath}`);
+  }
+  const root = pluginsDir();
+  const bare = spec.replace(/\.(c?js)$/, "");
+  const segments = bare.split(/[./]/).filter(Boolean);
+  const candidates = [
+    path.join(root, ...segments) + ".js",
+    path.join(root, segments[segments.length - 1] + ".js"),
+  ];
+  for (const file of candidates) {
+    if (!file.startsWith(root + path.sep)) continue;
+    if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+      return { file, exportName: exportName || undefined };
+    }
+  }
+  throw new PluginLoadError(`module not found in plugins directory: ${spec}`);
+}
+
+export function loadPluginSource(modulePath: string): PluginSource {
+  const { file, exportName } = resolvePluginModule(modulePath);
+  const buf = fs.readFileSync(file);
+  if (buf.length > MAX_SOURCE_BYTES) {
+    throw new PluginLoadError(`module exceeds ${MAX_SOURCE_BYTES} bytes`);
+  }
+  const source = buf.toString("utf8");
+  return { file, source, sha256: sha256(source), exportName };
+}
+
+function toBar(symbol: string, interval: string, c: Candle): PluginBar {
+  return { symbol, interval, t: c.t, o: c.o, h: c.h, l: c.l, c: c.c, v: c.v };
+}
+
+// Historical bars for the shared series plus the regime change points
+// detected on it, replayed in time order.
+function replayFeed(symbol: string, interval: string, lookbackDays: number) {
+  const candles = generatePriceSeries(symbol, interval, lookbackDays);
+  const { events } = detectRegimes(candles, INTERVAL_MS[interval], symbol);
+  const signals = new Map<number, PluginSignal[]>();
+  for (const e of events) {
+    const t = Date.parse(e.ts);
+    const list = signals.get(t) || [];
+    list.push({
+      type: "regime_change",
+      symbol,
+      ts: e.ts,
+      payload: { from: e.from, to: e.to, confidence: e.confidence },
+    });
+    signals.set(t, list);
+  }
+  return { candles, signals };
+}
+
+/**
+ * Loads the plugin in a throwaway sandbox and feeds it historical bars and
+ * signals. Fails on load errors, any timeout, or an error rate above
+ * DRY_RUN_ERROR_RATE.
+ */
+export async function dryRunPlugin(
+  name: string,
+  modulePath: string,
+  opts: {
+    symbol?: string;
+    interval?: string;
+    lookbackDays?: number;
+    config?: Record<string, unknown>;
+  } = {},
+): Promise<DryRunReport> {
+  const symbol = String(opts.symbol || "BTC").toUpperCase();
+  const interval = INTERVAL_MS[opts.interval || ""]
+    ? String(opts.interval)
+    : "1h";
+  const lookbackDays = Math.max(
+    1,
+    Math.min(90, Number(opts.lookbackDays) || 14),
+  );
+  const startedAt = Date.now();
+  const src = loadPluginSource(modulePath);
+  const sandbox = new PluginSandbox(
+    name,
+    src.source,
+    src.sha256,
+    src.exportName,
+  );
+  const report: DryRunReport = {
+    passed: false,
+    sha256: src.sha256,
+    symbol,
+    interval,
+    started_at: new Date(startedAt).toISOString(),
+    duration_ms: 0,
+    bars: 0,
+    signals: 0,
+    actions: 0,
+    invalid_actions: 0,
+    errors: 0,
+    timeouts: 0,
+    avg_call_ms: 0,
+    max_call_ms: 0,
+    heap_peak_bytes: 0,
+    failure: null,
+    logs: [],
+  };
+
+  try {
+    await sandbox.start(opts.config || {});
+    const { candles, signals } = replayFeed(symbol, interval, lookbackDays);
+    for (const c of candles) {
+      for (const s of signals.get(c.t) || []) {
+        report.signals++;
+        await sandbox.call("onSignal", s).catch(rethrowFatal);
+      }
+      report.bars++;
+      await sandbox
+        .call("onBar", toBar(symbol, interval, c))
+        .catch(rethrowFatal);
+    }
+  } catch (e: any) {
+    report.failure = String(e?.message || e);
+  } finally {
+    await sandbox.stop();
+  }
+
+  const t = sandbox.telemetry;
+  const calls = Object.values(t.calls).reduce((a, b) => a + b, 0);
+  report.duration_ms = Date.now() - startedAt;
+  report.actions = t.actionsEmitted;
+  report.invalid_actions = sandbox.invalidActions;
+  report.errors = t.errors;
+  report.timeouts = t.timeouts;
+  report.avg_call_ms = t.avgCallMs;
+  report.max_call_ms = t.maxCallMs;
+  report.heap_peak_bytes = sandbox.heapPeakBytes;
+  report.logs = t.recentLogs.map((l) => l.message);
+  if (!report.failure && calls && t.errors / calls > DRY_RUN_ERROR_RATE) {
+    report.failure = `error rate ${((t.errors / calls) * 100).toFixed(1)}% (last: ${t.lastError})`;
+  }
+  report.passed = !report.failure;
+  return report;
+}
+
+// A thrown hook is counted in telemetry and the run continues; a timeout or a
+// crashed worker (e.g. out of memory) ends the run.
+function rethrowFatal(e: unknown) {
+  if (e instanceof PluginTimeoutError || e instanceof PluginCrashError) throw e;
+}
+
+// --- Active plugins --------------------------------------------------------
+
+const active = new Map<string, PluginSandbox>();
+const FEED_SYMBOL = "BTC";
+const FEED_INTERVAL = process.env.PLUGIN_FEED_INTERVAL || "5m";
+let feedTimer: NodeJS.Timeout | null = null;
+let lastBarT = 0;
+
+function ensureFeed() {
+  if (feedTimer) return;
+  const step = INTERVAL_MS[FEED_INTERVAL] || INTERVAL_MS["5m"];
+  // Poll well inside the bar length so a closed bar is delivered promptly
+  feedTimer = setInterval(
+    () => void deliverLatestBar(),
+    Math.min(step / 5, 60_000),
+  );
+  feedTimer.unref();
+}
+
+async function deliverLatestBar() {
+  const interval = INTERVAL_MS[FEED_INTERVAL] ? FEED_INTERVAL : "5m";
+  const series = generatePriceSeries(FEED_SYMBOL, interval, 1);
+  const last = series[series.length - 1];
+  if (!last || last.t <= lastBarT) return;
+  lastBarT = last.t;
+  const bar = toBar(FEED_SYMBOL, interval, last);
+  await Promise.all(
+    [...active.values()]
+      .filter((s) => s.running)
+      .map((s) => s.call("onBar", bar).catch(() => undefined)),
+  );
+}
+
+/** Broadcasts a signal to every running plugin */
+export async function publishPluginSignal(signal: PluginSignal) {
+  await Promise.all(
+    [...active.values()]
+      .filter((s) => s.running)
+      .map((s) => s.call("onSignal", signal).catch(() => undefined)),
+  );
+}
+
+/**
+ * Starts (or restarts) a plugin. When expectedSha256 is given the file on
+ * disk must still match it.
+ */
+export async function activatePlugin(
+  name: string,
+  modulePath: string,
+  expectedSha256?: string,
+  config: Record<string, unknown> = {},
+) {
+  const src = loadPluginSource(modulePath);
+  if (expectedSha256 && src.sha256 !== expectedSha256) {
+    throw new PluginLoadError("module changed since it was approved");
+  }
+  const previous = active.get(name);
+  const sandbox = new PluginSandbox(
+    name,
+    src.source,
+    src.sha256,
+    src.exportName,
+    DEFAULT_LIMITS,
+  );
+  if (previous) {
+    sandbox.telemetry.restarts = previous.telemetry.restarts + 1;
+    await previous.stop();
+  }
+  active.set(name, sandbox);
+  await sandbox.start(config);
+  ensureFeed();
+  return sandbox.telemetry;
+}
+
+export async function deactivatePlugin(name: string) {
+  const sandbox = active.get(name);
+  if (!sandbox) return false;
+  active.delete(name);
+  await sandbox.stop();
+  if (!active.size && feedTimer) {
+    clearInterval(feedTimer);
+    feedTimer = null;
+  }
+  return true;
+}
+
+export function getPluginTelemetry(name: string): PluginTelemetry | undefined {
+  return active.get(name)?.telemetry;
+}
+
+export function listPluginTelemetry(): PluginTelemetry[] {
+  return [...active.values()].map((s) => s.telemetry);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { PluginSandbox, PluginTimeoutError } from "./sandbox";
+
+function sandbox(source: string) {
+  return new PluginSandbox("test", source, "sha", undefined, {
+    callTimeoutMs: 200,
+    loadTimeoutMs: 500,
+    maxOldGenerationSizeMb: 32,
+    maxYoungGenerationSizeMb: 8,
+    stackSizeMb: 4,
+  });
+}
+
+const bar = {
+  symbol: "BTC",
+  interval: "1h",
+  t: 0,
+  o: 1,
+  h: 1,
+  l: 1,
+  c: 1,
+  v: 1,
+};
+
+describe("PluginSandbox", () => {
+  it("returns validated actions and keeps state between calls", async () => {
+    const s = sandbox(`module.exports = {
+      init(ctx) { ctx.state.n = 0; },
+      onBar(ctx, bar) {
+        ctx.state.n++;
+        ctx.emit({ kind: "target", symbol: bar.symbol, exposure: 5 });
+        return [{ kind: "order", symbol: bar.symbol, side: "buy", qty: ctx.state.n }, { bogus: true }];
+      },
+    };`);
+    await s.start();
+    await s.call("onBar", bar);
+    const actions = await s.call("onBar", bar);
+    expect(actions).toEqual([
+      { kind: "target", symbol: "BTC", exposure: 1, reason: undefined },
+      { kind: "order", symbol: "BTC", side: "buy", qty: 2, reason: undefined },
+    ]);
+    expect(s.invalidActions).toBe(2);
+    await s.stop();
+  });
+
+  it("exposes no host globals", async () => {
+    const s = sandbox(`module.exports = { onBar(ctx) {
+      ctx.log([typeof require, typeof process, typeof globalThis.fetch].join(","));
+      try { Function("return 1")(); } catch (e) { ctx.log("no-eval"); }
+    } };`);
+    await s.start();
+    await s.call("onBar", bar);
+    expect(s.telemetry.recentLogs.map((l) => l.message)).toEqual([
+      "undefined,undefined,undefined",
+      "no-eval",
+    ]);
+    await s.stop();
+  });
+
+  it("terminates a plugin that overruns its call budget", async () => {
+    const s = sandbox(`module.exports = { onBar() { while (true) {} } };`);
+    await s.start();
+    await expect(s.call("onBar", bar)).rejects.toBeInstanceOf(
+      PluginTimeoutError,
+    );
+    expect(s.telemetry.timeouts).toBe(1);
+    expect(s.running).toBe(false);
+  });
+});
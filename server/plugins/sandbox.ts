@@ -0,0 +1,384 @@
+import { Worker } from "worker_threads";
+import type {
+  PluginAction,
+  PluginHook,
+  PluginTelemetry,
+  SandboxLimits,
+} from "./types";
+
+// Isolated execution of one plugin.
+//
+// Each plugin gets its own worker thread with V8 heap and stack limits. Inside
+// the worker the module is evaluated in a fresh vm context with string code
+// generation disabled and no Node globals; only JSON strings cross between the
+// context and the worker, so the plugin never holds a reference to a host
+// object. Every hook call has a wall-clock budget enforced from this side: a
+// plugin that overruns it (busy loop, runaway recursion) has its worker
+// terminated.
+//
+// The worker is spawned from source (eval) so it needs no separate build
+// entry point alongside the bundled server.
+
+export const DEFAULT_LIMITS: SandboxLimits = {
+  callTimeoutMs: 250,
+  loadTimeoutMs: 1000,
+  maxOldGenerationSizeMb: 64,
+  maxYoungGenerationSizeMb: 16,
+  stackSizeMb: 4,
+};
+
+const WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+const v8 = require("v8");
+const { performance } = require("perf_hooks");
+
+const BOOTSTRAP = ${"`"}
+var module = { exports: {} };
+var exports = module.exports;
+var __aether = { plugin: null, ctx: null, out: [], logs: [] };
+function __aether_resolve(name, exportName) {
+  var m = module.exports;
+  var p = exportName ? m && m[exportName] : (m && m.default) || m;
+  if (typeof p === "function") p = new p();
+  if (!p || typeof p !== "object") throw new Error("plugin module must export an object or a class");
+  __aether.plugin = p;
+  __aether.ctx = Object.freeze({
+    name: name,
+    state: {},
+    emit: function (a) { __aether.out.push(a); },
+    log: function () {
+      __aether.logs.push(Array.prototype.map.call(arguments, function (x) {
+        return typeof x === "string" ? x : JSON.stringify(x);
+      }).join(" "));
+    },
+  });
+  return JSON.stringify(["init", "onBar", "onSignal", "teardown"].filter(function (h) {
+    return typeof p[h] === "function";
+  }));
+}
+async function __aether_call(hook, json) {
+  __aether.out = [];
+  __aether.logs = [];
+  var fn = __aether.plugin[hook];
+  var ret = typeof fn === "function"
+    ? await fn.call(__aether.plugin, __aether.ctx, json ? JSON.parse(json) : undefined)
+    : undefined;
+  if (ret) __aether.out = __aether.out.concat(Array.isArray(ret) ? ret : [ret]);
+  return JSON.stringify({ actions: __aether.out, logs: __aether.logs });
+}
+${"`"};
+
+const heap = () => v8.getHeapStatistics().used_heap_size;
+let call;
+try {
+  const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+  vm.runInContext(BOOTSTRAP, context);
+  vm.runInContext(workerData.source, context, {
+    filename: workerData.filename,
+    timeout: workerData.loadTimeoutMs,
+  });
+  const resolve = vm.runInContext("__aether_resolve", context);
+  const hooks = JSON.parse(resolve(workerData.name, workerData.exportName || ""));
+  call = vm.runInContext("__aether_call", context);
+  parentPort.postMessage({ type: "ready", hooks, heap: heap() });
+} catch (e) {
+  parentPort.postMessage({ type: "load_error", error: String((e && e.message) || e) });
+}
+
+parentPort.on("message", async (msg) => {
+  const t0 = performance.now();
+  try {
+    const out = await call(msg.hook, msg.payload === undefined ? "" : JSON.stringify(msg.payload));
+    parentPort.postMessage({ type: "result", id: msg.id, ok: true, out: String(out), ms: performance.now() - t0, heap: heap() });
+  } catch (e) {
+    parentPort.postMessage({ type: "result", id: msg.id, ok: false, error: String((e && e.message) || e), ms: performance.now() - t0, heap: heap() });
+  }
+});
+`;
+
+export class PluginTimeoutError extends Error {}
+export class PluginCrashError extends Error {}
+
+interface Pending {
+  resolve: (v: { actions: PluginAction[]; logs: string[] }) => void;
+  reject: (e: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const RECENT_LIMIT = 20;
+
+function sanitizeAction(a: any): PluginAction | null {
+  if (!a || typeof a !== "object" || typeof a.symbol !== "string") return null;
+  const reason =
+    typeof a.reason === "string" ? a.reason.slice(0, 200) : undefined;
+  if (a.kind === "target" && Number.isFinite(a.exposure)) {
+    return {
+      kind: "target",
+      symbol: a.symbol,
+      exposure: Math.max(-1, Math.min(1, a.exposure)),
+      reason,
+    };
+  }
+  if (
+    a.kind === "order" &&
+    (a.side === "buy" || a.side === "sell") &&
+    Number.isFinite(a.qty) &&
+    a.qty > 0
+  ) {
+    return {
+      kind: "order",
+      symbol: a.symbol,
+      side: a.side,
+      qty: a.qty,
+      reason,
+    };
+  }
+  return null;
+}
+
+export class PluginSandbox {
+  readonly telemetry: PluginTelemetry;
+  /** Actions a plugin returned that did not match the PluginAction shape */
+  invalidActions = 0;
+  heapPeakBytes = 0;
+  private worker: Worker | null = null;
+  private pending = new Map<number, Pending>();
+  private seq = 0;
+  private totalCallMs = 0;
+  private totalCalls = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly source: string,
+    readonly sha256: string,
+    private readonly exportName: string | undefined,
+    private readonly limits: SandboxLimits = DEFAULT_LIMITS,
+  ) {
+    this.telemetry = {
+      name,
+      state: "stopped",
+      sha256,
+      startedAt: new Date().toISOString(),
+      calls: { init: 0, onBar: 0, onSignal: 0, teardown: 0 },
+      errors: 0,
+      timeouts: 0,
+      restarts: 0,
+      avgCallMs: 0,
+      maxCallMs: 0,
+      actionsEmitted: 0,
+      heapUsedBytes: 0,
+      lastError: null,
+      lastErrorAt: null,
+      recentLogs: [],
+      recentActions: [],
+    };
+  }
+
+  get running() {
+    return this.telemetry.state === "running";
+  }
+
+  /** Spawns the worker, evaluates the module and runs init */
+  async start(config: Record<string, unknown> = {}) {
+    if (this.worker) {
+      this.telemetry.restarts++;
+      await this.kill();
+    }
+    this.telemetry.state = "loading";
+    this.telemetry.startedAt = new Date().toISOString();
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        name: this.name,
+        source: this.source,
+        filename: `plugin:${this.name}`,
+        exportName: this.exportName,
+        loadTimeoutMs: this.limits.loadTimeoutMs,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.limits.maxOldGenerationSizeMb,
+        maxYoungGenerationSizeMb: this.limits.maxYoungGenerationSizeMb,
+        stackSizeMb: this.limits.stackSizeMb,
+      },
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+    this.worker = worker;
+
+    const loaded = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.telemetry.timeouts++;
+        this.fail(
+          "timeout",
+          `module load exceeded ${this.limits.loadTimeoutMs}ms`,
+        );
+        reject(new PluginTimeoutError("plugin module load timed out"));
+      }, this.limits.loadTimeoutMs + 1000);
+      worker.once("message", (msg: any) => {
+        clearTimeout(timer);
+        if (msg?.type === "ready") {
+          this.observeHeap(msg.heap);
+          resolve();
+        } else {
+          const error = String(msg?.error || "plugin failed to load");
+          this.fail("error", error);
+          reject(new PluginCrashError(error));
+        }
+      });
+      worker.once("error", (err) => {
+        clearTimeout(timer);
+        this.fail("error", err.message);
+        reject(new PluginCrashError(err.message));
+      });
+    });
+    try {
+      await loaded;
+    } catch (e) {
+      await this.kill();
+      throw e;
+    }
+
+    worker.on("message", (msg: any) => this.onMessage(msg));
+    worker.on("error", (err) => this.crash(err.message));
+    worker.on("exit", (code) => {
+      if (this.worker === worker && this.telemetry.state !== "stopped") {
+        this.crash(`worker exited with code ${code}`);
+      }
+    });
+    this.telemetry.state = "running";
+    await this.call("init", config);
+  }
+
+  /** Runs one hook; resolves with the validated actions it produced */
+  call(hook: PluginHook, payload?: unknown): Promise<PluginAction[]> {
+    const worker = this.worker;
+    if (!worker || !this.running) {
+      return Promise.reject(
+        new PluginCrashError(`plugin ${this.name} is not running`),
+      );
+    }
+    const id = ++this.seq;
+    this.telemetry.calls[hook]++;
+    return new Promise<{ actions: PluginAction[]; logs: string[] }>(
+      (resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.pending.delete(id);
+          this.telemetry.timeouts++;
+          this.fail(
+            "timeout",
+            `${hook} exceeded ${this.limits.callTimeoutMs}ms`,
+          );
+          reject(
+            new PluginTimeoutError(
+              `${hook} exceeded ${this.limits.callTimeoutMs}ms`,
+            ),
+          );
+          void this.kill();
+        }, this.limits.callTimeoutMs);
+        this.pending.set(id, { resolve, reject, timer });
+        worker.postMessage({ id, hook, payload });
+      },
+    ).then(({ actions, logs }) => {
+      const now = new Date().toISOString();
+      for (const message of logs)
+        this.pushRecent(this.telemetry.recentLogs, {
+          ts: now,
+          message: String(message).slice(0, 500),
+        });
+      const valid: PluginAction[] = [];
+      for (const a of actions) {
+        const ok = sanitizeAction(a);
+        if (ok) valid.push(ok);
+        else this.invalidActions++;
+      }
+      this.telemetry.actionsEmitted += valid.length;
+      for (const a of valid)
+        this.pushRecent(this.telemetry.recentActions, { ...a, ts: now });
+      return valid;
+    });
+  }
+
+  /** Best-effort teardown, then the worker is terminated */
+  async stop() {
+    if (this.running) {
+      await this.call("teardown").catch(() => undefined);
+    }
+    this.telemetry.state = "stopped";
+    await this.kill();
+  }
+
+  private onMessage(msg: any) {
+    if (msg?.type !== "result") return;
+    const p = this.pending.get(msg.id);
+    if (!p) return;
+    this.pending.delete(msg.id);
+    clearTimeout(p.timer);
+    this.observeHeap(msg.heap);
+    this.totalCalls++;
+    this.totalCallMs += msg.ms;
+    this.telemetry.avgCallMs = +(this.totalCallMs / this.totalCalls).toFixed(3);
+    this.telemetry.maxCallMs = +Math.max(
+      this.telemetry.maxCallMs,
+      msg.ms,
+    ).toFixed(3);
+    if (msg.ok) {
+      let parsed: any = {};
+      try {
+        parsed = JSON.parse(msg.out);
+      } catch {
+        parsed = {};
+      }
+      p.resolve({
+        actions: Array.isArray(parsed.actions) ? parsed.actions : [],
+        logs: Array.isArray(parsed.logs) ? parsed.logs : [],
+      });
+    } else {
+      this.telemetry.errors++;
+      this.telemetry.lastError = String(msg.error);
+      this.telemetry.lastErrorAt = new Date().toISOString();
+      p.reject(new Error(String(msg.error)));
+    }
+  }
+
+  private observeHeap(bytes: unknown) {
+    if (typeof bytes !== "number") return;
+    this.telemetry.heapUsedBytes = bytes;
+    this.heapPeakBytes = Math.max(this.heapPeakBytes, bytes);
+  }
+
+  private pushRecent<T>(list: T[], item: T) {
+    list.push(item);
+    if (list.length > RECENT_LIMIT) list.splice(0, list.length - RECENT_LIMIT);
+  }
+
+  private fail(kind: "error" | "timeout", message: string) {
+    if (kind === "error") this.telemetry.errors++;
+    this.telemetry.lastError = message;
+    this.telemetry.lastErrorAt = new Date().toISOString();
+  }
+
+  private crash(message: string) {
+    this.fail("error", message);
+    this.telemetry.state = "crashed";
+    for (const [id, p] of this.pending) {
+      clearTimeout(p.timer);
+      p.reject(new PluginCrashError(message));
+      this.pending.delete(id);
+    }
+    this.worker = null;
+  }
+
+  private async kill() {
+    const w = this.worker;
+    this.worker = null;
+    if (this.telemetry.state !== "stopped") this.telemetry.state = "crashed";
+    for (const [id, p] of this.pending) {
+      clearTimeout(p.timer);
+      p.reject(new PluginCrashError(`plugin ${this.name} was stopped`));
+      this.pending.delete(id);
+    }
+    if (w) await w.terminate().catch(() => undefined);
+  }
+}
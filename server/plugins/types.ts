@@ -0,0 +1,109 @@
+// Contract between the plugin runtime and strategy plugin modules.
+//
+// Plugins are CommonJS files in the plugins directory. They run inside a
+// sandboxed worker with no access to require, process or the network; every
+// value they receive or return must be plain JSON.
+//
+//   module.exports = {
+//     init(ctx, config) { ctx.state.fast = []; },
+//     onBar(ctx, bar) { return { kind: "target", symbol: bar.symbol, exposure: 1 }; },
+//     onSignal(ctx, signal) { ctx.log("signal", signal.type); },
+//     teardown(ctx) {},
+//   };
+
+export interface PluginBar {
+  symbol: string;
+  interval: string;
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+export interface PluginSignal {
+  type: string;
+  symbol?: string;
+  ts: string;
+  payload?: Record<string, unknown>;
+}
+
+export type PluginAction =
+  | {
+      kind: "target";
+      symbol: string;
+      /** Fraction of allocated capital, -1..1 */
+      exposure: number;
+      reason?: string;
+    }
+  | {
+      kind: "order";
+      symbol: string;
+      side: "buy" | "sell";
+      qty: number;
+      reason?: string;
+    };
+
+export interface PluginContext {
+  readonly name: string;
+  /** Survives between calls for the life of the worker */
+  state: Record<string, unknown>;
+  emit(action: PluginAction): void;
+  log(...args: unknown[]): void;
+}
+
+export interface StrategyPlugin {
+  init?(
+    ctx: PluginContext,
+    config: Record<string, unknown>,
+  ): void | Promise<void>;
+  onBar?(
+    ctx: PluginContext,
+    bar: PluginBar,
+  ):
+    | void
+    | PluginAction
+    | PluginAction[]
+    | Promise<void | PluginAction | PluginAction[]>;
+  onSignal?(
+    ctx: PluginContext,
+    signal: PluginSignal,
+  ):
+    | void
+    | PluginAction
+    | PluginAction[]
+    | Promise<void | PluginAction | PluginAction[]>;
+  teardown?(ctx: PluginContext): void | Promise<void>;
+}
+
+export type PluginHook = "init" | "onBar" | "onSignal" | "teardown";
+
+export interface SandboxLimits {
+  /** Wall-clock budget per hook call; the worker is terminated past it */
+  callTimeoutMs: number;
+  /** Budget for evaluating the module source */
+  loadTimeoutMs: number;
+  maxOldGenerationSizeMb: number;
+  maxYoungGenerationSizeMb: number;
+  stackSizeMb: number;
+}
+
+export interface PluginTelemetry {
+  name: string;
+  state: "loading" | "running" | "stopped" | "crashed";
+  sha256: string;
+  startedAt: string;
+  calls: Record<PluginHook, number>;
+  errors: number;
+  timeouts: number;
+  restarts: number;
+  avgCallMs: number;
+  maxCallMs: number;
+  actionsEmitted: number;
+  heapUsedBytes: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  recentLogs: Array<{ ts: string; message: string }>;
+  recentActions: Array<PluginAction & { ts: string }>;
+}
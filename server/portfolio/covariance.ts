@@ -0,0 +1,124 @@
+import { zeros, type Matrix } from "./linalg";
+
+// Covariance inputs for the optimizer.
+//
+// Callers either send a covariance matrix directly or a return series per
+// asset. Sample covariance from a short series is noisy and often close to
+// singular, so series are shrunk towards a scaled identity with the
+// Ledoit-Wolf (2004) intensity, which is estimated from the data itself.
+
+export class CovarianceError extends Error {}
+
+export interface CovarianceEstimate {
+  matrix: Matrix;
+  /** Sample means per asset, per period */
+  means: number[];
+  /** Ledoit-Wolf intensity in [0, 1]; 0 when shrinkage was not applied */
+  shrinkage: number;
+  observations: number;
+}
+
+export function isSquareMatrix(m: unknown, n?: number): m is Matrix {
+  if (!Array.isArray(m) || m.length === 0) return false;
+  const size = n ?? m.length;
+  return (
+    m.length === size &&
+    m.every(
+      (row) =>
+        Array.isArray(row) &&
+        row.length === size &&
+        row.every((v) => typeof v === "number" && Number.isFinite(v)),
+    )
+  );
+}
+
+/** Symmetrises and checks the diagonal; throws CovarianceError otherwise */
+export function validateCovariance(m: unknown, n: number): Matrix {
+  if (!isSquareMatrix(m, n))
+    throw new CovarianceError("matrix must be square and match symbols length");
+  const out = m.map((row, i) => row.map((v, j) => (v + m[j][i]) / 2));
+  if (out.some((row, i) => !(row[i] >= 0)))
+    throw new CovarianceError("covariance diagonal must be non-negative");
+  return out;
+}
+
+/**
+ * Accepts rows of observations (T × n) or an object of per-symbol series and
+ * returns the T × n matrix aligned to `symbols`.
+ */
+export function alignReturns(raw: unknown, symbols: string[]): number[][] {
+  let rows: number[][];
+  if (Array.isArray(raw)) {
+    rows = raw as number[][];
+  } else if (raw && typeof raw === "object") {
+    const keyed = new Map(
+      Object.entries(raw).map(([k, v]) => [k.toUpperCase(), v]),
+    );
+    const series = symbols.map((s) => {
+      const v = keyed.get(s.toUpperCase());
+      if (!Array.isArray(v))
+        throw new CovarianceError(`returns missing for ${s}`);
+      return v;
+    });
+    const len = Math.min(...series.map((s) => s.length));
+    rows = Array.from({ length: len }, (_, t) =>
+      series.map((s) => s[s.length - len + t]),
+    );
+  } else {
+    throw new CovarianceError("returns must be an array or object");
+  }
+  const out = rows.map((r) => {
+    if (!Array.isArray(r) || r.length !== symbols.length)
+      throw new CovarianceError(
+        "each returns row must have one value per symbol",
+      );
+    return r.map((v) => {
+      const n = Number(v);
+      if (!Number.isFinite(n))
+        throw new CovarianceError("returns must be numbers");
+      return n;
+    });
+  });
+  if (out.length < 2)
+    throw new CovarianceError("at least 2 return observations required");
+  return out;
+}
+
+export function estimateCovariance(
+  returns: number[][],
+  shrink = true,
+): CovarianceEstimate {
+  const T = returns.length;
+  const n = returns[0].length;
+  const means = new Array(n).fill(0);
+  for (const r of returns) r.forEach((v, j) => (means[j] += v / T));
+  const X = returns.map((r) => r.map((v, j) => v - means[j]));
+
+  // Maximum-likelihood sample covariance, as in the Ledoit-Wolf derivation
+  const S = zeros(n);
+  for (const x of X)
+    for (let i = 0; i < n; i++)
+      for (let j = 0; j <= i; j++) S[i][j] += (x[i] * x[j]) / T;
+  for (let i = 0; i < n; i++) for (let j = 0; j < i; j++) S[j][i] = S[i][j];
+  if (!shrink) return { matrix: S, means, shrinkage: 0, observations: T };
+
+  const mu = S.reduce((s, row, i) => s + row[i], 0) / n;
+  // Squared Frobenius norms are divided by n throughout
+  let d2 = 0;
+  for (let i = 0; i < n; i++)
+    for (let j = 0; j < n; j++) d2 += (S[i][j] - (i === j ? mu : 0)) ** 2;
+  d2 /= n;
+  let b2 = 0;
+  for (const x of X) {
+    let s = 0;
+    for (let i = 0; i < n; i++)
+      for (let j = 0; j < n; j++) s += (x[i] * x[j] - S[i][j]) ** 2;
+    b2 += s / n;
+  }
+  b2 = Math.min(b2 / (T * T), d2);
+  const delta = d2 > 0 ? b2 / d2 : 1;
+  const matrix = S.map((row, i) =>
+    row.map((v, j) => delta * (i === j ? mu : 0) + (1 - delta) * v),
+  );
+  return { matrix, means, shrinkage: delta, observations: T };
+}
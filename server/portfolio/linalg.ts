@@ -0,0 +1,80 @@
+// Small dense linear algebra for the portfolio optimizer. Matrices are
+// row-major number[][]; sizes are a few hundred at most, so plain loops are
+// fast enough and keep the numbers easy to follow.
+
+export type Matrix = number[][];
+
+export function zeros(rows: number, cols = rows): Matrix {
+  return Array.from({ length: rows }, () => new Array(cols).fill(0));
+}
+
+export function matVec(A: Matrix, v: number[]): number[] {
+  return A.map((row) => row.reduce((s, a, j) => s + a * v[j], 0));
+}
+
+/** Aᵀv without forming Aᵀ */
+export function matTVec(A: Matrix, v: number[], cols: number): number[] {
+  const out = new Array(cols).fill(0);
+  A.forEach((row, i) => {
+    if (!v[i]) return;
+    for (let j = 0; j < cols; j++) out[j] += row[j] * v[i];
+  });
+  return out;
+}
+
+export function dot(a: number[], b: number[]) {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+export function quadForm(S: Matrix, w: number[]) {
+  return dot(w, matVec(S, w));
+}
+
+export function normInf(v: number[]) {
+  let m = 0;
+  for (const x of v) m = Math.max(m, Math.abs(x));
+  return m;
+}
+
+/**
+ * Cholesky factor L (lower) of a symmetric positive definite matrix. A tiny
+ * diagonal jitter is added when a pivot is not positive, which covers
+ * covariance matrices that are only semi-definite.
+ */
+export function cholesky(A: Matrix): Matrix {
+  const n = A.length;
+  const L = zeros(n);
+  const scale = Math.max(1e-300, ...A.map((r, i) => Math.abs(r[i])));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = A[i][j];
+      for (let k = 0; k < j; k++) s -= L[i][k] * L[j][k];
+      if (i === j) {
+        L[i][i] = Math.sqrt(s > scale * 1e-12 ? s : scale * 1e-12);
+      } else {
+        L[i][j] = s / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+/** Solves (L Lᵀ) x = b */
+export function cholSolve(L: Matrix, b: number[]): number[] {
+  const n = L.length;
+  const y = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let s = b[i];
+    for (let k = 0; k < i; k++) s -= L[i][k] * y[k];
+    y[i] = s / L[i][i];
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let s = y[i];
+    for (let k = i + 1; k < n; k++) s -= L[k][i] * x[k];
+    x[i] = s / L[i][i];
+  }
+  return x;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { estimateCovariance } from "./covariance";
+import {
+  efficientFrontier,
+  normalizeOptimizeInput,
+  optimize,
+  OptimizerInfeasibleError,
+} from "./optimizer";
+
+const symbols = ["A", "B", "C", "D"];
+const cov = [
+  [0.04, 0.006, 0.004, 0.002],
+  [0.006, 0.09, 0.01, 0.003],
+  [0.004, 0.01, 0.0225, 0.001],
+  [0.002, 0.003, 0.001, 0.01],
+];
+const mu = [0.08, 0.12, 0.06, 0.03];
+const run = (body: Record<string, unknown>) =>
+  optimize(normalizeOptimizeInput(body, symbols, cov));
+const sum = (w: number[]) => w.reduce((a, b) => a + b, 0);
+
+describe("portfolio optimizer", () => {
+  it("equalises risk contributions for risk parity", () => {
+    const r = run({ method: "risk-parity" });
+    for (const c of r.stats.riskContributions) expect(c).toBeCloseTo(0.25, 6);
+    expect(sum(r.weights)).toBeCloseTo(1, 9);
+  });
+
+  it("respects asset bounds and group caps", () => {
+    const r = run({
+      method: "markowitz",
+      expectedReturns: mu,
+      riskAversion: 1,
+      constraints: {
+        maxWeight: 0.45,
+        groups: [{ name: "AB", symbols: ["A", "B"], max: 0.5 }],
+      },
+    });
+    expect(sum(r.weights)).toBeCloseTo(1, 5);
+    for (const w of r.weights) expect(w).toBeLessThanOrEqual(0.45 + 1e-6);
+    expect(r.weights[0] + r.weights[1]).toBeLessThanOrEqual(0.5 + 1e-6);
+  });
+
+  it("limits turnover from current holdings", () => {
+    const current = [0.25, 0.25, 0.25, 0.25];
+    const free = run({ expectedReturns: mu, currentWeights: current });
+    const capped = run({
+      expectedReturns: mu,
+      currentWeights: current,
+      transactionCostBps: 10,
+      constraints: { maxTurnover: 0.1 },
+    });
+    expect(free.stats.turnover).toBeGreaterThan(0.1);
+    expect(capped.stats.turnover).toBeLessThanOrEqual(0.1 + 1e-5);
+    expect(capped.stats.transactionCost).toBeCloseTo(
+      capped.stats.turnover * 0.001,
+      6,
+    );
+  });
+
+  it("searches risk aversion to hit a target volatility", () => {
+    const r = run({ expectedReturns: mu, targetVolatility: 0.15 });
+    expect(r.stats.volatility).toBeCloseTo(0.15, 3);
+    const low = run({ expectedReturns: mu, targetVolatility: 0.01 });
+    expect(low.warnings.length).toBe(1);
+  });
+
+  it("rejects bounds that cannot sum to one", () => {
+    expect(() => run({ constraints: { maxWeight: 0.2 } })).toThrow(
+      OptimizerInfeasibleError,
+    );
+  });
+
+  it("traces a frontier with rising return and risk", () => {
+    const pts = efficientFrontier(
+      normalizeOptimizeInput({ expectedReturns: mu }, symbols, cov),
+      8,
+    );
+    for (let i = 1; i < pts.length; i++) {
+      expect(pts[i].expectedReturn).toBeGreaterThan(pts[i - 1].expectedReturn);
+      expect(pts[i].volatility).toBeGreaterThanOrEqual(
+        pts[i - 1].volatility - 1e-6,
+      );
+    }
+  });
+
+  it("shrinks a sample covariance towards a scaled identity", () => {
+    const rows = [
+      [0.01, 0.02, -0.01],
+      [-0.02, 0.01, 0.0],
+      [0.015, -0.01, 0.02],
+      [0.0, 0.005, -0.015],
+    ];
+    const est = estimateCovariance(rows);
+    expect(est.shrinkage).toBeGreaterThan(0);
+    expect(est.shrinkage).toBeLessThanOrEqual(1);
+    const raw = estimateCovariance(rows, false);
+    const trace = (m: number[][]) => m.reduce((s, r, i) => s + r[i], 0);
+    expect(trace(est.matrix)).toBeCloseTo(trace(raw.matrix), 12);
+  });
+});
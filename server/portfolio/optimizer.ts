@@ -0,0 +1,631 @@
+import {
+  cholesky,
+  cholSolve,
+  dot,
+  matTVec,
+  matVec,
+  normInf,
+  quadForm,
+  type Matrix,
+} from "./linalg";
+
+// Shared portfolio optimizer behind /optimizer/run, /portfolio/optimize and
+// /portfolio/frontier.
+//
+// Every method is written as a convex quadratic program over the weights,
+//   minimise ½ wᵀPw + qᵀw  subject to  l ≤ Aw ≤ u,
+// and solved with the ADMM scheme used by OSQP (Stellato et al., 2020). The
+// constraint rows carry the budget (weights sum to 1), per-asset bounds,
+// group caps and, when current holdings are given, turnover: auxiliary
+// variables t ≥ |w − w₀| make proportional transaction costs linear and a
+// turnover cap a single row. A quadratic turnover penalty adds τ‖w − w₀‖² to
+// the objective. Target volatility is met by searching the risk aversion.
+// Risk parity solves the equal-risk-contribution problem directly and, only
+// if that portfolio breaks a constraint, returns the feasible portfolio with
+// the smallest tracking variance to it.
+
+export const OPTIMIZE_METHODS = [
+  "markowitz",
+  "kelly",
+  "min-variance",
+  "risk-parity",
+] as const;
+export type OptimizeMethod = (typeof OPTIMIZE_METHODS)[number];
+
+export class OptimizerValidationError extends Error {}
+export class OptimizerInfeasibleError extends Error {}
+
+export interface AssetGroup {
+  name: string;
+  members: number[];
+  min?: number;
+  max?: number;
+}
+
+export interface OptimizeInput {
+  method: OptimizeMethod;
+  symbols: string[];
+  cov: Matrix;
+  mu: number[];
+  riskAversion: number;
+  minWeight: number[];
+  maxWeight: number[];
+  groups: AssetGroup[];
+  /** Current holdings as weights; turnover and costs are measured from here */
+  current?: number[];
+  /** Proportional cost per unit traded, per asset (0.001 = 10 bps) */
+  costs: number[];
+  /** Coefficient τ of the τ‖w − w₀‖² penalty */
+  turnoverPenalty: number;
+  /** Cap on Σ|w − w₀| */
+  maxTurnover?: number;
+  /** Annualisation is the caller's business: same units as √(wᵀΣw) */
+  targetVolatility?: number;
+}
+
+export interface PortfolioStats {
+  expectedReturn: number;
+  variance: number;
+  volatility: number;
+  /** Share of variance from each asset; sums to 1 */
+  riskContributions: number[];
+  turnover: number;
+  transactionCost: number;
+}
+
+export interface OptimizeResult {
+  method: OptimizeMethod;
+  weights: number[];
+  stats: PortfolioStats;
+  riskAversion: number;
+  solver: { iterations: number; converged: boolean };
+  /** Set when target volatility is below what the constraints allow */
+  warnings: string[];
+}
+
+export interface FrontierPoint {
+  expectedReturn: number;
+  volatility: number;
+  weights: number[];
+}
+
+// --- QP solver -------------------------------------------------------------
+
+export interface QP {
+  P: Matrix;
+  q: number[];
+  A: Matrix;
+  l: number[];
+  u: number[];
+}
+
+export interface QPResult {
+  x: number[];
+  iterations: number;
+  converged: boolean;
+  primalResidual: number;
+}
+
+const SIGMA = 1e-6;
+const ALPHA = 1.6;
+const EPS = 1e-7;
+const MAX_ITER = 20000;
+
+function projectBox(v: number, lo: number, hi: number) {
+  return v < lo ? lo : v > hi ? hi : v;
+}
+
+export function solveQP(qp: QP, maxIter = MAX_ITER): QPResult {
+  const n = qp.q.length;
+  const m = qp.A.length;
+  // Scale the objective so covariance-sized numbers do not stall ADMM
+  const scale = Math.max(1e-12, ...qp.P.map((r) => normInf(r)), normInf(qp.q));
+  const P = qp.P.map((r) => r.map((v) => v / scale));
+  const q = qp.q.map((v) => v / scale);
+  // Unit row norms, so a return floor (coefficients ~1e-3) converges as fast
+  // as the weight bounds; the solution x is unchanged by row scaling
+  const rowScale = qp.A.map((a) => 1 / Math.max(1e-12, normInf(a)));
+  const A = qp.A.map((a, i) => a.map((v) => v * rowScale[i]));
+  const l = qp.l.map((v, i) => v * rowScale[i]);
+  const u = qp.u.map((v, i) => v * rowScale[i]);
+  const isEq = l.map((lo, i) => u[i] - lo < 1e-12);
+
+  let rho = 0.1;
+  const rhoOf = (i: number) => (isEq[i] ? rho * 1e3 : rho);
+  const factor = () => {
+    const K = P.map((row, i) => row.map((v, j) => v + (i === j ? SIGMA : 0)));
+    for (let k = 0; k < m; k++) {
+      const r = rhoOf(k);
+      const a = A[k];
+      for (let i = 0; i < n; i++) {
+        if (!a[i]) continue;
+        for (let j = 0; j < n; j++) K[i][j] += r * a[i] * a[j];
+      }
+    }
+    return cholesky(K);
+  };
+  let L = factor();
+
+  let x = new Array(n).fill(0);
+  let z = new Array(m).fill(0);
+  let y = new Array(m).fill(0);
+  let iterations = 0;
+  let converged = false;
+  let rPrim = Infinity;
+
+  for (; iterations < maxIter; iterations++) {
+    const rhs = matTVec(
+      A,
+      z.map((zi, i) => rhoOf(i) * zi - y[i]),
+      n,
+    ).map((v, i) => v + SIGMA * x[i] - q[i]);
+    const xt = cholSolve(L, rhs);
+    const zt = matVec(A, xt);
+    const xNext = xt.map((v, i) => ALPHA * v + (1 - ALPHA) * x[i]);
+    const zRelax = zt.map((v, i) => ALPHA * v + (1 - ALPHA) * z[i]);
+    const zNext = zRelax.map((v, i) =>
+      projectBox(v + y[i] / rhoOf(i), l[i], u[i]),
+    );
+    y = y.map((v, i) => v + rhoOf(i) * (zRelax[i] - zNext[i]));
+    x = xNext;
+    z = zNext;
+
+    if (iterations % 10 !== 0) continue;
+    const Ax = matVec(A, x);
+    const Px = matVec(P, x);
+    const Aty = matTVec(A, y, n);
+    rPrim = normInf(Ax.map((v, i) => v - z[i]));
+    const rDual = normInf(Px.map((v, i) => v + q[i] + Aty[i]));
+    const primScale = Math.max(normInf(Ax), normInf(z));
+    const dualScale = Math.max(normInf(Px), normInf(Aty), normInf(q));
+    if (rPrim <= EPS + EPS * primScale && rDual <= EPS + EPS * dualScale) {
+      converged = true;
+      break;
+    }
+    // Rebalance the penalty when one residual lags far behind the other
+    if (iterations % 50 === 0 && iterations > 0) {
+      const ratio = Math.sqrt(
+        rPrim /
+          Math.max(1e-30, primScale) /
+          (rDual / Math.max(1e-30, dualScale) || 1e-30),
+      );
+      const next = projectBox(rho * ratio, 1e-6, 1e6);
+      if (next > rho * 5 || next < rho / 5) {
+        rho = next;
+        L = factor();
+      }
+    }
+  }
+  return { x, iterations, converged, primalResidual: rPrim };
+}
+
+// --- Problem assembly ------------------------------------------------------
+
+interface Objective {
+  P: Matrix;
+  q: number[];
+}
+
+/** Extra linear rows on the weights, e.g. a return floor for the frontier */
+interface ExtraRow {
+  a: number[];
+  l: number;
+  u: number;
+}
+
+function needsTurnoverVars(input: OptimizeInput) {
+  return (
+    !!input.current &&
+    (input.costs.some((c) => c > 0) || input.maxTurnover !== undefined)
+  );
+}
+
+function checkFeasible(input: OptimizeInput) {
+  const lo = input.minWeight.reduce((a, b) => a + b, 0);
+  const hi = input.maxWeight.reduce((a, b) => a + b, 0);
+  if (lo > 1 + 1e-9)
+    throw new OptimizerInfeasibleError("minimum weights sum to more than 1");
+  if (hi < 1 - 1e-9)
+    throw new OptimizerInfeasibleError("maximum weights sum to less than 1");
+  for (const g of input.groups) {
+    const gLo = g.members.reduce((s, i) => s + input.minWeight[i], 0);
+    const gHi = g.members.reduce((s, i) => s + input.maxWeight[i], 0);
+    if (g.max !== undefined && gLo > g.max + 1e-9)
+      throw new OptimizerInfeasibleError(
+        `group ${g.name}: minimum weights exceed its cap`,
+      );
+    if (g.min !== undefined && gHi < g.min - 1e-9)
+      throw new OptimizerInfeasibleError(
+        `group ${g.name}: maximum weights are below its floor`,
+      );
+  }
+}
+
+function solvePortfolio(
+  input: OptimizeInput,
+  obj: Objective,
+  extra: ExtraRow[] = [],
+) {
+  const n = input.symbols.length;
+  const withT = needsTurnoverVars(input);
+  const dim = withT ? 2 * n : n;
+  const w0 = input.current || new Array(n).fill(0);
+  const tau = input.current ? input.turnoverPenalty : 0;
+
+  const P: Matrix = Array.from({ length: dim }, (_, i) =>
+    Array.from({ length: dim }, (_, j) =>
+      i < n && j < n ? obj.P[i][j] + (i === j ? 2 * tau : 0) : 0,
+    ),
+  );
+  const q = Array.from({ length: dim }, (_, i) =>
+    i < n ? obj.q[i] - 2 * tau * w0[i] : input.costs[i - n],
+  );
+
+  const A: Matrix = [];
+  const l: number[] = [];
+  const u: number[] = [];
+  const row = (coef: (i: number) => number, lo: number, hi: number) => {
+    A.push(Array.from({ length: dim }, (_, i) => coef(i)));
+    l.push(lo);
+    u.push(hi);
+  };
+  row((i) => (i < n ? 1 : 0), 1, 1);
+  for (let k = 0; k < n; k++)
+    row((i) => (i === k ? 1 : 0), input.minWeight[k], input.maxWeight[k]);
+  for (const g of input.groups) {
+    const members = new Set(g.members);
+    row((i) => (members.has(i) ? 1 : 0), g.min ?? -Infinity, g.max ?? Infinity);
+  }
+  if (withT) {
+    for (let k = 0; k < n; k++) {
+      row((i) => (i === n + k ? 1 : i === k ? -1 : 0), -w0[k], Infinity);
+      row((i) => (i === n + k ? 1 : i === k ? 1 : 0), w0[k], Infinity);
+      // |w − w₀| ≤ 2 for weights in [-1, 1]; keeps free t bounded at zero cost
+      row((i) => (i === n + k ? 1 : 0), 0, 2);
+    }
+    if (input.maxTurnover !== undefined)
+      row((i) => (i >= n ? 1 : 0), -Infinity, input.maxTurnover);
+  }
+  for (const e of extra) row((i) => (i < n ? e.a[i] : 0), e.l, e.u);
+
+  const r = solveQP({ P, q, A, l, u });
+  if (!r.converged && r.primalResidual > 1e-4)
+    throw new OptimizerInfeasibleError(
+      "constraints cannot be met together (solver did not converge)",
+    );
+  const weights = r.x
+    .slice(0, n)
+    .map((v, i) => projectBox(v, input.minWeight[i], input.maxWeight[i]))
+    .map((v) => (Math.abs(v) < 1e-9 ? 0 : v));
+  return { weights, iterations: r.iterations, converged: r.converged };
+}
+
+// --- Methods ---------------------------------------------------------------
+
+export function portfolioStats(
+  input: Pick<OptimizeInput, "cov" | "mu" | "current" | "costs">,
+  w: number[],
+): PortfolioStats {
+  const Sw = matVec(input.cov, w);
+  const variance = Math.max(0, dot(w, Sw));
+  const w0 = input.current;
+  const trades = w0 ? w.map((v, i) => Math.abs(v - w0[i])) : w.map(() => 0);
+  return {
+    expectedReturn: dot(input.mu, w),
+    variance,
+    volatility: Math.sqrt(variance),
+    riskContributions: w.map((v, i) =>
+      variance > 0 ? (v * Sw[i]) / variance : 0,
+    ),
+    turnover: trades.reduce((a, b) => a + b, 0),
+    transactionCost: dot(trades, input.costs),
+  };
+}
+
+const meanVariance = (input: OptimizeInput, lambda: number): Objective => ({
+  P: input.cov.map((r) => r.map((v) => v * lambda)),
+  q: input.mu.map((v) => -v),
+});
+
+/**
+ * Equal risk contribution weights by cyclical coordinate descent on
+ * ½ yᵀΣy − Σ bᵢ ln yᵢ (Griveau-Billion, Richard and Roncalli, 2013); the
+ * minimiser normalised to sum 1 has equal contributions wᵢ(Σw)ᵢ.
+ */
+export function equalRiskContribution(cov: Matrix, maxIter = 10000): number[] {
+  const n = cov.length;
+  const b = 1 / n;
+  const y = cov.map((r, i) => 1 / Math.sqrt(Math.max(1e-16, r[i])));
+  for (let it = 0; it < maxIter; it++) {
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      const a = Math.max(1e-16, cov[i][i]);
+      let s = 0;
+      for (let j = 0; j < n; j++) if (j !== i) s += cov[i][j] * y[j];
+      const next = (-s + Math.sqrt(s * s + 4 * a * b)) / (2 * a);
+      change = Math.max(change, Math.abs(next - y[i]) / Math.max(1e-300, y[i]));
+      y[i] = next;
+    }
+    if (change < 1e-12) break;
+  }
+  const total = y.reduce((a, v) => a + v, 0);
+  return y.map((v) => v / total);
+}
+
+function violates(input: OptimizeInput, w: number[]) {
+  const tol = 1e-9;
+  if (
+    w.some(
+      (v, i) => v < input.minWeight[i] - tol || v > input.maxWeight[i] + tol,
+    )
+  )
+    return true;
+  for (const g of input.groups) {
+    const s = g.members.reduce((a, i) => a + w[i], 0);
+    if (
+      (g.max !== undefined && s > g.max + tol) ||
+      (g.min !== undefined && s < g.min - tol)
+    )
+      return true;
+  }
+  if (input.maxTurnover !== undefined && input.current) {
+    const t = w.reduce((a, v, i) => a + Math.abs(v - input.current![i]), 0);
+    if (t > input.maxTurnover + tol) return true;
+  }
+  return false;
+}
+
+function solveForLambda(input: OptimizeInput, lambda: number) {
+  return solvePortfolio(input, meanVariance(input, lambda));
+}
+
+export function optimize(input: OptimizeInput): OptimizeResult {
+  checkFeasible(input);
+  const warnings: string[] = [];
+  let lambda = input.riskAversion;
+  let solved: ReturnType<typeof solvePortfolio>;
+
+  if (input.method === "risk-parity") {
+    const erc = equalRiskContribution(input.cov);
+    const penalised =
+      input.current &&
+      (input.turnoverPenalty > 0 || input.costs.some((c) => c > 0));
+    if (!penalised && !violates(input, erc)) {
+      solved = { weights: erc, iterations: 0, converged: true };
+    } else {
+      // Closest feasible portfolio in tracking variance (w − erc)ᵀΣ(w − erc)
+      solved = solvePortfolio(input, {
+        P: input.cov,
+        q: matVec(input.cov, erc).map((v) => -v),
+      });
+    }
+  } else if (input.method === "min-variance") {
+    solved = solvePortfolio(input, { P: input.cov, q: input.mu.map(() => 0) });
+  } else if (input.targetVolatility !== undefined) {
+    // Volatility falls as risk aversion rises: find the smallest λ whose
+    // portfolio is within the target, i.e. the best return at that risk
+    const target = input.targetVolatility;
+    const vol = (s: ReturnType<typeof solvePortfolio>) =>
+      Math.sqrt(Math.max(0, quadForm(input.cov, s.weights)));
+    let lo = Math.log(1e-4);
+    let hi = Math.log(1e6);
+    const safest = solveForLambda(input, Math.exp(hi));
+    if (vol(safest) > target * (1 + 1e-6)) {
+      warnings.push(
+        `target volatility ${target} is below the minimum the constraints allow (${vol(safest).toPrecision(4)})`,
+      );
+      solved = safest;
+      lambda = Math.exp(hi);
+    } else {
+      solved = safest;
+      lambda = Math.exp(hi);
+      for (let i = 0; i < 40; i++) {
+        const mid = (lo + hi) / 2;
+        const s = solveForLambda(input, Math.exp(mid));
+        if (vol(s) <= target * (1 + 1e-6)) {
+          hi = mid;
+          solved = s;
+          lambda = Math.exp(mid);
+        } else {
+          lo = mid;
+        }
+        if (hi - lo < 1e-3) break;
+      }
+    }
+  } else {
+    solved = solveForLambda(input, lambda);
+  }
+
+  return {
+    method: input.method,
+    weights: solved.weights,
+    stats: portfolioStats(input, solved.weights),
+    riskAversion: lambda,
+    solver: { iterations: solved.iterations, converged: solved.converged },
+    warnings,
+  };
+}
+
+/**
+ * Minimum-variance portfolios for evenly spaced return targets between the
+ * minimum-variance portfolio and the highest-return feasible portfolio.
+ */
+export function efficientFrontier(
+  input: OptimizeInput,
+  points = 20,
+): FrontierPoint[] {
+  checkFeasible(input);
+  const count = Math.max(2, Math.min(100, Math.floor(points)));
+  const minVar = solvePortfolio(input, {
+    P: input.cov,
+    q: input.mu.map(() => 0),
+  });
+  // A vanishing variance term keeps the max-return problem strictly convex
+  const maxRet = solvePortfolio(input, meanVariance(input, 1e-6));
+  const rMin = dot(input.mu, minVar.weights);
+  const rMax = dot(input.mu, maxRet.weights);
+  const out: FrontierPoint[] = [];
+  for (let k = 0; k < count; k++) {
+    const target = rMin + ((rMax - rMin) * k) / (count - 1);
+    const w =
+      k === 0
+        ? minVar.weights
+        : solvePortfolio(input, { P: input.cov, q: input.mu.map(() => 0) }, [
+            { a: input.mu, l: target, u: Infinity },
+          ]).weights;
+    const s = portfolioStats(input, w);
+    out.push({
+      expectedReturn: s.expectedReturn,
+      volatility: s.volatility,
+      weights: w,
+    });
+  }
+  return out;
+}
+
+// --- Request parsing -------------------------------------------------------
+
+function bySymbol(
+  raw: unknown,
+  symbols: string[],
+  fallback: number,
+  name: string,
+): number[] {
+  if (raw === undefined || raw === null) return symbols.map(() => fallback);
+  if (typeof raw === "number") return symbols.map(() => raw);
+  if (Array.isArray(raw)) {
+    if (raw.length !== symbols.length)
+      throw new OptimizerValidationError(`${name} length must match symbols`);
+    return raw.map((v) => Number(v));
+  }
+  if (typeof raw === "object")
+    return symbols.map((s) =>
+      Number((raw as any)[s] ?? (raw as any)[s.toUpperCase()] ?? fallback),
+    );
+  throw new OptimizerValidationError(`${name} must be a number, array or map`);
+}
+
+function finite(v: number[], name: string) {
+  if (v.some((x) => !Number.isFinite(x)))
+    throw new OptimizerValidationError(`${name} must be numbers`);
+  return v;
+}
+
+function optionalNumber(v: unknown, name: string, min: number) {
+  if (v === undefined || v === null || v === "") return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < min)
+    throw new OptimizerValidationError(`${name} must be a number >= ${min}`);
+  return n;
+}
+
+/**
+ * Builds an OptimizeInput from a request body once the caller has resolved
+ * the symbols and covariance. Accepts the older `riskLimits.maxWeight` as a
+ * cap for every asset alongside the newer `constraints` object.
+ */
+export function normalizeOptimizeInput(
+  body: any,
+  symbols: string[],
+  cov: Matrix,
+  defaultMu?: number[],
+): OptimizeInput {
+  const b = body || {};
+  const raw = String(b.method || "markowitz")
+    .toLowerCase()
+    .replace("_", "-");
+  const method = (
+    raw === "mean-variance" ? "markowitz" : raw
+  ) as OptimizeMethod;
+  if (!OPTIMIZE_METHODS.includes(method))
+    throw new OptimizerValidationError(
+      `method must be one of ${OPTIMIZE_METHODS.join(", ")}`,
+    );
+  const mu = finite(
+    b.expectedReturns !== undefined && b.expectedReturns !== null
+      ? bySymbol(b.expectedReturns, symbols, 0, "expectedReturns")
+      : defaultMu || symbols.map(() => 0.01),
+    "expectedReturns",
+  );
+
+  const c = b.constraints || {};
+  const limits = b.riskLimits || {};
+  const globalMin =
+    optionalNumber(c.minWeight ?? limits.minWeight, "minWeight", -1) ?? 0;
+  const globalMax =
+    optionalNumber(c.maxWeight ?? limits.maxWeight, "maxWeight", 0) ?? 1;
+  const bounds = c.bounds && typeof c.bounds === "object" ? c.bounds : {};
+  const minWeight = finite(
+    symbols.map((s) => Number(bounds[s]?.min ?? globalMin)),
+    "bounds.min",
+  );
+  const maxWeight = finite(
+    symbols.map((s) => Math.min(1, Number(bounds[s]?.max ?? globalMax))),
+    "bounds.max",
+  );
+  if (minWeight.some((v, i) => v > maxWeight[i]))
+    throw new OptimizerValidationError("min weight above max weight");
+
+  const index = new Map(symbols.map((s, i) => [s.toUpperCase(), i]));
+  const groups: AssetGroup[] = (Array.isArray(c.groups) ? c.groups : []).map(
+    (g: any, k: number) => {
+      const name = String(g?.name || `group_${k + 1}`);
+      if (!Array.isArray(g?.symbols) || g.symbols.length === 0)
+        throw new OptimizerValidationError(`group ${name}: symbols required`);
+      const members = g.symbols.map((s: any) => {
+        const i = index.get(String(s).toUpperCase());
+        if (i === undefined)
+          throw new OptimizerValidationError(
+            `group ${name}: unknown symbol ${s}`,
+          );
+        return i;
+      });
+      return {
+        name,
+        members,
+        min: optionalNumber(g.min, `group ${name} min`, 0),
+        max: optionalNumber(g.max, `group ${name} max`, 0),
+      };
+    },
+  );
+
+  let current: number[] | undefined;
+  if (b.currentWeights !== undefined && b.currentWeights !== null) {
+    current = finite(
+      bySymbol(b.currentWeights, symbols, 0, "currentWeights"),
+      "currentWeights",
+    );
+  }
+  const costs = finite(
+    bySymbol(b.transactionCostBps, symbols, 0, "transactionCostBps"),
+    "transactionCostBps",
+  ).map((v) => {
+    if (v < 0)
+      throw new OptimizerValidationError("transactionCostBps must be >= 0");
+    return v / 1e4;
+  });
+
+  return {
+    method,
+    symbols,
+    cov,
+    mu,
+    riskAversion:
+      method === "kelly"
+        ? 1 / (optionalNumber(b.kellyFraction, "kellyFraction", 1e-3) ?? 1)
+        : (optionalNumber(b.riskAversion, "riskAversion", 1e-6) ?? 1),
+    minWeight,
+    maxWeight,
+    groups,
+    current,
+    costs,
+    turnoverPenalty:
+      optionalNumber(b.turnoverPenalty, "turnoverPenalty", 0) ?? 0,
+    maxTurnover: optionalNumber(c.maxTurnover, "maxTurnover", 0),
+    targetVolatility: optionalNumber(
+      b.targetVolatility,
+      "targetVolatility",
+      1e-9,
+    ),
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  executePlan,
+  marketSnapshot,
+  planPortfolio,
+  RebalanceExecutionError,
+  type PortfolioPosition,
+} from "./rebalance";
+
+const prices = { "BTC/USDT": 40000, "ETH/USDT": 2500, "SOL/USDT": 100 };
+const returns = {
+  "BTC/USDT": [0.02, -0.01, 0.03, 0.015, -0.008, 0.01],
+  "ETH/USDT": [0.015, 0.008, -0.012, 0.025, 0.002, -0.004],
+  "SOL/USDT": [0.042, -0.015, 0.028, -0.005, 0.035, 0.01],
+};
+const market = marketSnapshot(prices, returns);
+
+const portfolio = (
+  over: Partial<PortfolioPosition> = {},
+): PortfolioPosition => ({
+  id: "p1",
+  user_id: "u1",
+  mode: "live",
+  risk_tier: "conservative",
+  usdt_balance: 10000,
+  holdings: { "BTC/USDT": 2 },
+  last_updated: "2026-01-01T00:00:00.000Z",
+  ...over,
+});
+
+describe("rebalance planner", () => {
+  it("keeps the tier's cash reserve and lists sells before buys", () => {
+    const plan = planPortfolio(portfolio(), market);
+    expect(plan.status).toBe("planned");
+    const invested = Object.values(plan.target_weights).reduce(
+      (a, b) => a + b,
+      0,
+    );
+    expect(invested).toBeCloseTo(0.7, 4);
+    const sides = plan.orders.map((o) => o.side);
+    expect(sides.lastIndexOf("sell")).toBeLessThan(sides.indexOf("buy"));
+    expect(plan.est_fees).toBeGreaterThan(0);
+  });
+
+  it("skips a portfolio already at its targets", () => {
+    const first = planPortfolio(portfolio(), market);
+    const fill = executePlan(first, portfolio(), prices);
+    const again = planPortfolio(
+      portfolio({ holdings: fill.holdings, usdt_balance: fill.usdt_balance }),
+      market,
+    );
+    expect(again.status).toBe("skipped");
+    expect(again.orders).toHaveLength(0);
+  });
+
+  it("refuses to execute against a portfolio changed since planning", () => {
+    const plan = planPortfolio(portfolio(), market);
+    expect(() =>
+      executePlan(
+        plan,
+        portfolio({ last_updated: "2026-01-02T00:00:00.000Z" }),
+        prices,
+      ),
+    ).toThrow(RebalanceExecutionError);
+    expect(() => executePlan(plan, portfolio(), { "BTC/USDT": 40000 })).toThrow(
+      /no price/,
+    );
+  });
+});
@@ -0,0 +1,347 @@
+import { alignReturns, estimateCovariance } from "./covariance";
+import type { Matrix } from "./linalg";
+import { optimize } from "./optimizer";
+
+// Rebalance planner behind /api/admin/portfolio/rebalance.
+//
+// A global rebalance is planned once against a market snapshot (prices and
+// return series) and then executed per portfolio after approval. Planning
+// estimates one shrunk covariance for the tradable universe, picks target
+// weights for each portfolio with the shared optimizer (risk aversion, cash
+// reserve and weight cap come from the portfolio's risk tier), and diffs the
+// targets against holdings into an order list with fee and slippage
+// estimates. Execution re-checks each portfolio independently, so one stale
+// or underfunded portfolio fails on its own without blocking the rest.
+
+export type RiskTier = "conservative" | "moderate" | "aggressive";
+
+export interface TierProfile {
+  riskAversion: number;
+  /** Share of portfolio value kept in USDT */
+  cashReserve: number;
+  /** Cap on any single asset, as a share of the invested sleeve */
+  maxWeight: number;
+}
+
+export const TIER_PROFILES: Record<RiskTier, TierProfile> = {
+  conservative: { riskAversion: 8, cashReserve: 0.3, maxWeight: 0.35 },
+  moderate: { riskAversion: 4, cashReserve: 0.15, maxWeight: 0.5 },
+  aggressive: { riskAversion: 2, cashReserve: 0.05, maxWeight: 0.7 },
+};
+
+export class RebalanceValidationError extends Error {}
+export class RebalanceExecutionError extends Error {}
+
+export interface CostModel {
+  /** Exchange fee per trade, in bps of notional */
+  feeBps: number;
+  /** Half-spread paid on every trade, in bps of notional */
+  slippageBps: number;
+  /** Extra slippage per 1M USDT of notional, in bps */
+  impactBpsPerMillion: number;
+  /** Trades smaller than this (USDT) are not worth their costs */
+  minTradeValue: number;
+}
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  feeBps: 10,
+  slippageBps: 5,
+  impactBpsPerMillion: 25,
+  minTradeValue: 50,
+};
+
+/** What the planner needs from a portfolio record */
+export interface PortfolioPosition {
+  id: string;
+  user_id: string;
+  mode: string;
+  risk_tier: RiskTier;
+  usdt_balance: number;
+  /** Quantity held per market symbol, e.g. { "BTC/USDT": 0.5 } */
+  holdings: Record<string, number>;
+  last_updated: string;
+}
+
+export interface RebalanceOrder {
+  symbol: string;
+  side: "buy" | "sell";
+  quantity: number;
+  price: number;
+  notional: number;
+  est_fee: number;
+  est_slippage: number;
+}
+
+export type PortfolioPlanStatus = "planned" | "skipped" | "executed" | "failed";
+
+export interface PortfolioPlan {
+  portfolio_id: string;
+  user_id: string;
+  mode: string;
+  risk_tier: RiskTier;
+  status: PortfolioPlanStatus;
+  /** Why the portfolio was skipped or failed */
+  reason?: string;
+  /** last_updated of the portfolio the plan was computed from */
+  based_on: string;
+  value: number;
+  cash_before: number;
+  current_weights: Record<string, number>;
+  target_weights: Record<string, number>;
+  orders: RebalanceOrder[];
+  est_fees: number;
+  est_slippage: number;
+  /** Σ|target − current| over the universe, as weights */
+  turnover: number;
+  warnings: string[];
+  executed_at?: string;
+  /** Realised costs, set once executed */
+  fees?: number;
+  slippage?: number;
+}
+
+export interface MarketSnapshot {
+  symbols: string[];
+  prices: Record<string, number>;
+  cov: Matrix;
+  means: number[];
+  shrinkage: number;
+}
+
+const round = (v: number, dp: number) => Math.round(v * 10 ** dp) / 10 ** dp;
+
+/**
+ * Tradable universe: symbols with both a price and at least two returns.
+ * The covariance is shared by every portfolio in the run.
+ */
+export function marketSnapshot(
+  prices: Record<string, number>,
+  returns: Record<string, number[]>,
+): MarketSnapshot {
+  const symbols = Object.keys(prices)
+    .filter((s) => Array.isArray(returns[s]) && returns[s].length >= 2)
+    .sort();
+  if (symbols.length === 0)
+    throw new RebalanceValidationError(
+      "no symbol has both a price and at least 2 returns",
+    );
+  const est = estimateCovariance(alignReturns(returns, symbols));
+  return {
+    symbols,
+    prices,
+    cov: est.matrix,
+    means: est.means,
+    shrinkage: est.shrinkage,
+  };
+}
+
+export function tradeCosts(notional: number, costs: CostModel) {
+  const n = Math.abs(notional);
+  const slippageBps =
+    costs.slippageBps + (costs.impactBpsPerMillion * n) / 1_000_000;
+  return {
+    fee: (n * costs.feeBps) / 10_000,
+    slippage: (n * slippageBps) / 10_000,
+  };
+}
+
+function makeOrder(
+  symbol: string,
+  quantity: number,
+  price: number,
+  costs: CostModel,
+): RebalanceOrder {
+  const notional = Math.abs(quantity) * price;
+  const c = tradeCosts(notional, costs);
+  return {
+    symbol,
+    side: quantity > 0 ? "buy" : "sell",
+    quantity: round(Math.abs(quantity), 8),
+    price,
+    notional: round(notional, 2),
+    est_fee: round(c.fee, 2),
+    est_slippage: round(c.slippage, 2),
+  };
+}
+
+/** Target weights, holdings diff and orders for one portfolio */
+export function planPortfolio(
+  p: PortfolioPosition,
+  market: MarketSnapshot,
+  costs: CostModel = DEFAULT_COST_MODEL,
+): PortfolioPlan {
+  const tier = TIER_PROFILES[p.risk_tier] || TIER_PROFILES.moderate;
+  const warnings: string[] = [];
+  const heldValue = market.symbols.map(
+    (s) => (p.holdings[s] || 0) * market.prices[s],
+  );
+  // Holdings outside the universe are left alone and kept out of the value
+  for (const [s, qty] of Object.entries(p.holdings)) {
+    if (qty && !market.symbols.includes(s))
+      warnings.push(`${s} has no price or returns; left unchanged`);
+  }
+  const value = p.usdt_balance + heldValue.reduce((a, b) => a + b, 0);
+  const base: PortfolioPlan = {
+    portfolio_id: p.id,
+    user_id: p.user_id,
+    mode: p.mode,
+    risk_tier: p.risk_tier,
+    status: "planned",
+    based_on: p.last_updated,
+    value: round(value, 2),
+    cash_before: round(p.usdt_balance, 2),
+    current_weights: {},
+    target_weights: {},
+    orders: [],
+    est_fees: 0,
+    est_slippage: 0,
+    turnover: 0,
+    warnings,
+  };
+  if (!(value > 0)) return { ...base, status: "skipped", reason: "no value" };
+
+  const current = heldValue.map((v) => v / value);
+  const invested = 1 - tier.cashReserve;
+  const sleeve = current.reduce((a, b) => a + b, 0);
+  const cap = Math.max(tier.maxWeight, 1 / market.symbols.length);
+  const r = optimize({
+    method: "markowitz",
+    symbols: market.symbols,
+    cov: market.cov,
+    mu: market.means,
+    riskAversion: tier.riskAversion,
+    minWeight: market.symbols.map(() => 0),
+    maxWeight: market.symbols.map(() => cap),
+    groups: [],
+    // The optimizer works on the invested sleeve, which sums to 1
+    current: sleeve > 0 ? current.map((w) => w / sleeve) : undefined,
+    costs: market.symbols.map(() => (costs.feeBps + costs.slippageBps) / 1e4),
+    turnoverPenalty: 0,
+  });
+  const target = r.weights.map((w) => Math.max(0, w) * invested);
+  warnings.push(...r.warnings);
+
+  const trades = market.symbols.map((s, i) => ({
+    symbol: s,
+    value: (target[i] - current[i]) * value,
+  }));
+  const sells = trades
+    .filter((t) => t.value <= -costs.minTradeValue)
+    .map((t) =>
+      makeOrder(
+        t.symbol,
+        Math.max(
+          t.value / market.prices[t.symbol],
+          -(p.holdings[t.symbol] || 0),
+        ),
+        market.prices[t.symbol],
+        costs,
+      ),
+    );
+  let buys = trades
+    .filter((t) => t.value >= costs.minTradeValue)
+    .map((t) =>
+      makeOrder(
+        t.symbol,
+        t.value / market.prices[t.symbol],
+        market.prices[t.symbol],
+        costs,
+      ),
+    );
+
+  // Buys are funded by cash plus sale proceeds; scale them down if short
+  const cashAfterSells =
+    p.usdt_balance +
+    sells.reduce((s, o) => s + o.notional - o.est_fee - o.est_slippage, 0);
+  const buyCost = buys.reduce(
+    (s, o) => s + o.notional + o.est_fee + o.est_slippage,
+    0,
+  );
+  if (buyCost > cashAfterSells) {
+    const k = Math.max(0, cashAfterSells) / buyCost;
+    warnings.push(`buys scaled to ${(k * 100).toFixed(1)}% to fit cash`);
+    buys = buys
+      .map((o) => makeOrder(o.symbol, o.quantity * k, o.price, costs))
+      .filter((o) => o.notional >= costs.minTradeValue);
+  }
+
+  // Sells first so their proceeds fund the buys
+  const orders = [...sells, ...buys];
+  const weights = (w: number[]) =>
+    Object.fromEntries(market.symbols.map((s, i) => [s, round(w[i], 6)]));
+  return {
+    ...base,
+    status: orders.length ? "planned" : "skipped",
+    reason: orders.length ? undefined : "within tolerance",
+    current_weights: weights(current),
+    target_weights: weights(target),
+    orders,
+    est_fees: round(
+      orders.reduce((s, o) => s + o.est_fee, 0),
+      2,
+    ),
+    est_slippage: round(
+      orders.reduce((s, o) => s + o.est_slippage, 0),
+      2,
+    ),
+    turnover: round(
+      target.reduce((s, w, i) => s + Math.abs(w - current[i]), 0),
+      6,
+    ),
+  };
+}
+
+export interface ExecutionFill {
+  holdings: Record<string, number>;
+  usdt_balance: number;
+  fees: number;
+  slippage: number;
+}
+
+/**
+ * Simulated execution of an approved plan at `prices`. Throws a
+ * RebalanceExecutionError, leaving the portfolio untouched, when the
+ * portfolio changed since planning, a price is missing, or holdings or cash
+ * do not cover the orders.
+ */
+export function executePlan(
+  plan: PortfolioPlan,
+  p: PortfolioPosition,
+  prices: Record<string, number>,
+  costs: CostModel = DEFAULT_COST_MODEL,
+): ExecutionFill {
+  if (p.last_updated !== plan.based_on)
+    throw new RebalanceExecutionError("portfolio changed since plan");
+  const holdings = { ...p.holdings };
+  let cash = p.usdt_balance;
+  let fees = 0;
+  let slippage = 0;
+  for (const o of plan.orders) {
+    const price = prices[o.symbol];
+    if (!(typeof price === "number" && price > 0))
+      throw new RebalanceExecutionError(`no price for ${o.symbol}`);
+    const notional = o.quantity * price;
+    const c = tradeCosts(notional, costs);
+    if (o.side === "sell") {
+      if ((holdings[o.symbol] || 0) + 1e-9 < o.quantity)
+        throw new RebalanceExecutionError(`insufficient ${o.symbol} to sell`);
+      holdings[o.symbol] = round((holdings[o.symbol] || 0) - o.quantity, 8);
+      cash += notional - c.fee - c.slippage;
+    } else {
+      const cost = notional + c.fee + c.slippage;
+      if (cost > cash + 1e-6)
+        throw new RebalanceExecutionError("insufficient cash");
+      holdings[o.symbol] = round((holdings[o.symbol] || 0) + o.quantity, 8);
+      cash -= cost;
+    }
+    fees += c.fee;
+    slippage += c.slippage;
+  }
+  for (const [s, q] of Object.entries(holdings)) if (q <= 0) delete holdings[s];
+  return {
+    holdings,
+    usdt_balance: round(cash, 2),
+    fees: round(fees, 2),
+    slippage: round(slippage, 2),
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { runPreTradeChecks, type PreTradeContext } from "./pretrade";
+
+const context = (over: Partial<PreTradeContext> = {}): PreTradeContext => ({
+  killSwitch: false,
+  paused: false,
+  market: { status: "active", override: null },
+  referencePrice: 100,
+  positions: {},
+  equity: 100000,
+  drawdown: 0,
+  pnl: 0,
+  tier: { id: "moderate", maxDrawdown: 0.1, pnlWarning: -0.05 },
+  limits: {
+    maxOrderNotional: 50000,
+    maxPositionNotional: 100000,
+    maxConcentrationPct: 40,
+    riskLimitPct: 2.5,
+    stopLossPct: 1,
+    priceBandPct: 5,
+  },
+  ...over,
+});
+const codes = (r: ReturnType<typeof runPreTradeChecks>) =>
+  r.rejections.map((x) => x.code);
+
+describe("pre-trade checks", () => {
+  it("approves an order inside every limit and logs each check", () => {
+    const r = runPreTradeChecks(
+      { symbol: "BTC/USDT", side: "buy", size: 10 },
+      context(),
+    );
+    expect(r.approved).toBe(true);
+    expect(r.checks).toHaveLength(10);
+    expect(r.notional).toBe(1000);
+  });
+
+  it("reports every failing check, not just the first", () => {
+    const r = runPreTradeChecks(
+      { symbol: "BTC/USDT", side: "buy", size: 600, price: 110 },
+      context({
+        killSwitch: true,
+        market: { status: "active", override: "block" },
+      }),
+    );
+    expect(r.approved).toBe(false);
+    expect(codes(r)).toEqual([
+      "KILL_SWITCH",
+      "MARKET_BLOCKED",
+      "MAX_NOTIONAL",
+      "CONCENTRATION_LIMIT",
+      "PRICE_BAND",
+    ]);
+  });
+
+  it("lets reducing orders through a breached drawdown tier", () => {
+    const ctx = context({
+      drawdown: 0.12,
+      pnl: -0.12,
+      positions: { "BTC/USDT": 600 },
+    });
+    const add = runPreTradeChecks(
+      { symbol: "BTC/USDT", side: "buy", size: 10 },
+      ctx,
+    );
+    expect(codes(add)).toContain("DRAWDOWN_LIMIT");
+    expect(codes(add)).toContain("CONCENTRATION_LIMIT");
+    const reduce = runPreTradeChecks(
+      { symbol: "BTC/USDT", side: "sell", size: 100 },
+      ctx,
+    );
+    expect(reduce.approved).toBe(true);
+    expect(reduce.warnings.length).toBeGreaterThan(0);
+  });
+
+  it("blocks sizing without a reference price", () => {
+    const r = runPreTradeChecks(
+      { symbol: "NEW/USDT", side: "buy", size: 1 },
+      context({ referencePrice: undefined }),
+    );
+    expect(codes(r)).toEqual(["NO_REFERENCE_PRICE"]);
+    expect(r.notional).toBeNull();
+  });
+});
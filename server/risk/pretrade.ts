@@ -0,0 +1,325 @@
+// Pre-trade risk checks for /api/trades/decision and /api/trades/execute.
+//
+// Every order runs the full pipeline, even after a check has failed, so the
+// log shows each limit the order was measured against; only the sizing checks
+// are skipped when there is no reference price. A check either passes,
+// passes with a warning, or blocks; an order is approved only when nothing
+// blocks. Limits that cap exposure (position, concentration, drawdown) still
+// let through orders that reduce the existing position, so a breached book
+// can always be de-risked.
+
+export type PreTradeCheck =
+  | "kill_switch"
+  | "system_paused"
+  | "market_status"
+  | "reference_price"
+  | "max_notional"
+  | "risk_per_trade"
+  | "position_limit"
+  | "concentration"
+  | "drawdown_tier"
+  | "price_band";
+
+export type RejectionCode =
+  | "KILL_SWITCH"
+  | "SYSTEM_PAUSED"
+  | "MARKET_BLOCKED"
+  | "MARKET_UNAVAILABLE"
+  | "NO_REFERENCE_PRICE"
+  | "MAX_NOTIONAL"
+  | "RISK_PER_TRADE"
+  | "POSITION_LIMIT"
+  | "CONCENTRATION_LIMIT"
+  | "DRAWDOWN_LIMIT"
+  | "PRICE_BAND";
+
+export interface CheckResult {
+  check: PreTradeCheck;
+  passed: boolean;
+  severity: "info" | "warning" | "block";
+  code?: RejectionCode;
+  message: string;
+  value?: number;
+  limit?: number;
+}
+
+export interface PreTradeOrder {
+  symbol: string;
+  side: "buy" | "sell";
+  /** Base-asset quantity */
+  size: number;
+  /** Limit price; market orders are checked at the reference price */
+  price?: number;
+}
+
+export interface PreTradeLimits {
+  /** Largest single order, USDT notional */
+  maxOrderNotional: number;
+  /** Largest absolute position per symbol, USDT notional */
+  maxPositionNotional: number;
+  /** Largest position per symbol as a share of equity, percent */
+  maxConcentrationPct: number;
+  /** Loss at the stop as a share of equity, percent */
+  riskLimitPct: number;
+  stopLossPct: number;
+  /** Allowed distance of the order price from the reference, percent */
+  priceBandPct: number;
+}
+
+export interface PreTradeContext {
+  killSwitch: boolean;
+  paused: boolean;
+  pausedReason?: string;
+  market?: { status: string; override: "allow" | "block" | null } | null;
+  referencePrice?: number;
+  /** Signed base quantity held per symbol */
+  positions: Record<string, number>;
+  equity: number;
+  /** Current drawdown from peak equity, as a positive fraction */
+  drawdown: number;
+  /** PnL as a fraction of capital */
+  pnl: number;
+  tier: { id: string; maxDrawdown: number; pnlWarning: number };
+  limits: PreTradeLimits;
+}
+
+export interface PreTradeResult {
+  approved: boolean;
+  checks: CheckResult[];
+  rejections: { code: RejectionCode; message: string }[];
+  warnings: string[];
+  notional: number | null;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+const usd = (v: number) => `${v.toFixed(2)} USDT`;
+
+function pass(
+  check: PreTradeCheck,
+  message: string,
+  extra: Partial<CheckResult> = {},
+): CheckResult {
+  return { check, passed: true, severity: "info", message, ...extra };
+}
+
+function block(
+  check: PreTradeCheck,
+  code: RejectionCode,
+  message: string,
+  extra: Partial<CheckResult> = {},
+): CheckResult {
+  return { check, passed: false, severity: "block", code, message, ...extra };
+}
+
+export function runPreTradeChecks(
+  order: PreTradeOrder,
+  ctx: PreTradeContext,
+): PreTradeResult {
+  const checks: CheckResult[] = [];
+  const L = ctx.limits;
+
+  checks.push(
+    ctx.killSwitch
+      ? block("kill_switch", "KILL_SWITCH", "Kill switch is engaged")
+      : pass("kill_switch", "Kill switch off"),
+  );
+  checks.push(
+    ctx.paused
+      ? block(
+          "system_paused",
+          "SYSTEM_PAUSED",
+          `Trading is paused${ctx.pausedReason ? `: ${ctx.pausedReason}` : ""}`,
+        )
+      : pass("system_paused", "Trading active"),
+  );
+
+  const m = ctx.market;
+  if (!m) {
+    checks.push(
+      block(
+        "market_status",
+        "MARKET_UNAVAILABLE",
+        `${order.symbol} is not an eligible market`,
+      ),
+    );
+  } else if (m.override === "block") {
+    checks.push(
+      block(
+        "market_status",
+        "MARKET_BLOCKED",
+        `${order.symbol} is blocked by governance override`,
+      ),
+    );
+  } else if (m.status === "delisted" || m.status === "inactive") {
+    checks.push(
+      block(
+        "market_status",
+        "MARKET_UNAVAILABLE",
+        `${order.symbol} is ${m.status}`,
+      ),
+    );
+  } else {
+    checks.push(
+      pass(
+        "market_status",
+        `${order.symbol} is ${m.status}`,
+        m.status === "monitoring" ? { severity: "warning" } : {},
+      ),
+    );
+  }
+
+  // Everything below sizes the order, which needs a price
+  const ref = ctx.referencePrice;
+  if (!(typeof ref === "number" && ref > 0)) {
+    checks.push(
+      block(
+        "reference_price",
+        "NO_REFERENCE_PRICE",
+        `No reference price for ${order.symbol}; exposure limits cannot be evaluated`,
+      ),
+    );
+    return summarize(checks, null);
+  }
+  checks.push(
+    pass("reference_price", `Reference price ${ref}`, { value: ref }),
+  );
+
+  const price = order.price ?? ref;
+  const notional = order.size * price;
+  checks.push(
+    notional > L.maxOrderNotional
+      ? block(
+          "max_notional",
+          "MAX_NOTIONAL",
+          `Order notional ${usd(notional)} exceeds ${usd(L.maxOrderNotional)}`,
+          { value: notional, limit: L.maxOrderNotional },
+        )
+      : pass("max_notional", `Order notional ${usd(notional)}`, {
+          value: notional,
+          limit: L.maxOrderNotional,
+        }),
+  );
+
+  const equity = Math.max(0, ctx.equity);
+  const atRisk = (notional * L.stopLossPct) / 100;
+  const riskBudget = (equity * L.riskLimitPct) / 100;
+  checks.push(
+    atRisk > riskBudget
+      ? block(
+          "risk_per_trade",
+          "RISK_PER_TRADE",
+          `Loss at ${L.stopLossPct}% stop is ${usd(atRisk)}, above ${L.riskLimitPct}% of equity (${usd(riskBudget)})`,
+          { value: atRisk, limit: riskBudget },
+        )
+      : pass("risk_per_trade", `Loss at stop ${usd(atRisk)}`, {
+          value: atRisk,
+          limit: riskBudget,
+        }),
+  );
+
+  const held = ctx.positions[order.symbol] || 0;
+  const after = held + (order.side === "buy" ? order.size : -order.size);
+  const reducing = Math.abs(after) <= Math.abs(held) && after * held >= 0;
+  const exposure = Math.abs(after) * ref;
+  const exposureCheck = (
+    check: PreTradeCheck,
+    code: RejectionCode,
+    value: number,
+    limit: number,
+    text: string,
+  ) =>
+    value <= limit
+      ? pass(check, text, { value, limit })
+      : reducing
+        ? pass(check, `${text}; over limit but reducing`, {
+            value,
+            limit,
+            severity: "warning",
+          })
+        : block(check, code, `${text} exceeds limit`, { value, limit });
+  checks.push(
+    exposureCheck(
+      "position_limit",
+      "POSITION_LIMIT",
+      exposure,
+      L.maxPositionNotional,
+      `Position after trade ${usd(exposure)}`,
+    ),
+  );
+  const share = equity > 0 ? exposure / equity : Infinity;
+  checks.push(
+    exposureCheck(
+      "concentration",
+      "CONCENTRATION_LIMIT",
+      share,
+      L.maxConcentrationPct / 100,
+      `${order.symbol} at ${Number.isFinite(share) ? pct(share) : "∞"} of equity`,
+    ),
+  );
+
+  const t = ctx.tier;
+  if (ctx.drawdown >= t.maxDrawdown) {
+    checks.push(
+      reducing
+        ? pass(
+            "drawdown_tier",
+            `Drawdown ${pct(ctx.drawdown)} at ${t.id} limit; reducing orders only`,
+            { value: ctx.drawdown, limit: t.maxDrawdown, severity: "warning" },
+          )
+        : block(
+            "drawdown_tier",
+            "DRAWDOWN_LIMIT",
+            `Drawdown ${pct(ctx.drawdown)} breaches ${t.id} limit ${pct(t.maxDrawdown)}`,
+            { value: ctx.drawdown, limit: t.maxDrawdown },
+          ),
+    );
+  } else {
+    checks.push(
+      pass(
+        "drawdown_tier",
+        ctx.pnl <= t.pnlWarning
+          ? `PnL ${pct(ctx.pnl)} below ${t.id} warning ${pct(t.pnlWarning)}`
+          : `Drawdown ${pct(ctx.drawdown)} within ${t.id} limit`,
+        {
+          value: ctx.drawdown,
+          limit: t.maxDrawdown,
+          severity: ctx.pnl <= t.pnlWarning ? "warning" : "info",
+        },
+      ),
+    );
+  }
+
+  const deviation = Math.abs(price - ref) / ref;
+  checks.push(
+    deviation * 100 > L.priceBandPct
+      ? block(
+          "price_band",
+          "PRICE_BAND",
+          `Price ${price} is ${pct(deviation)} from reference ${ref}`,
+          { value: deviation, limit: L.priceBandPct / 100 },
+        )
+      : pass("price_band", `Price within ${pct(deviation)} of reference`, {
+          value: deviation,
+          limit: L.priceBandPct / 100,
+        }),
+  );
+
+  return summarize(checks, notional);
+}
+
+function summarize(
+  checks: CheckResult[],
+  notional: number | null,
+): PreTradeResult {
+  return {
+    approved: checks.every((c) => c.passed),
+    checks,
+    rejections: checks
+      .filter((c) => !c.passed)
+      .map((c) => ({ code: c.code!, message: c.message })),
+    warnings: checks
+      .filter((c) => c.passed && c.severity === "warning")
+      .map((c) => c.message),
+    notional,
+  };
+}
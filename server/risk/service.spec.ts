@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { RiskService, type RiskBreach, type RiskPosition } from "./service";
+
+const positions: RiskPosition[] = [
+  {
+    symbol: "BTC/USDT",
+    amount: 0.25,
+    entry_price: 42800,
+    current_price: 43250,
+    fee_cost: 10,
+    slippage_cost: 5,
+  },
+  {
+    symbol: "ETH/USDT",
+    amount: 1.5,
+    entry_price: 2720,
+    current_price: 2680,
+    fee_cost: 4,
+    slippage_cost: 2,
+  },
+];
+const tiers = [
+  { id: "moderate", maxDrawdown: 0.1, pnlWarning: -0.05 },
+  { id: "tight", maxDrawdown: 0.0001, pnlWarning: -0.0001 },
+];
+
+function service(
+  over: { capital?: number; tier?: string; now?: () => number } = {},
+) {
+  const breaches: RiskBreach[] = [];
+  const svc = new RiskService({
+    positions: () => positions,
+    config: () => ({
+      capital: over.capital ?? 100000,
+      tiers,
+      defaultTier: over.tier ?? "moderate",
+    }),
+    onBreach: (b) => breaches.push(b),
+    seed: 7,
+    historySize: 480,
+    now: over.now ?? (() => Date.parse("2026-03-01T12:00:00Z")),
+  });
+  return { svc, breaches };
+}
+
+describe("risk service", () => {
+  it("backfills a deterministic equity curve from the positions", () => {
+    const a = service().svc.series(90);
+    const b = service().svc.series(90);
+    expect(a).toHaveLength(90);
+    expect(a).toEqual(b);
+    expect(a[a.length - 1].t).toBe("2026-03-01T12:00:00.000Z");
+    for (const p of a) expect(p.dd).toBeLessThanOrEqual(0);
+  });
+
+  it("reports VaR, exposure and beta for the open book", () => {
+    const s = service().svc.snapshot();
+    expect(s.exposures.map((e) => e.symbol)).toEqual(["BTC/USDT", "ETH/USDT"]);
+    expect(s.grossExposure).toBeGreaterThan(10000);
+    expect(s.var.historical["99"]).toBeGreaterThanOrEqual(
+      s.var.historical["95"],
+    );
+    expect(s.cvar.parametric["95"]).toBeGreaterThan(s.var.parametric["95"]);
+    expect(s.var.parametric["95"]).toBeGreaterThan(0);
+    // Simulated ETH moves with beta 1.1 to BTC
+    expect(s.exposures[1].beta).toBeGreaterThan(0.8);
+    expect(s.exposures[1].beta).toBeLessThan(1.4);
+    expect(s.beta).toBeGreaterThan(0);
+  });
+
+  it("emits a breach once per crossing of the tier limits", () => {
+    let now = Date.parse("2026-03-01T12:00:00Z");
+    const { svc, breaches } = service({
+      capital: 1000,
+      tier: "tight",
+      now: () => now,
+    });
+    svc.snapshot();
+    expect(breaches).toHaveLength(0);
+    now += 240 * 60_000;
+    svc.snapshot();
+    const metrics = new Set(breaches.map((b) => b.metric));
+    expect(metrics.size).toBeGreaterThan(0);
+    expect(breaches.length).toBeLessThan(240);
+    expect(svc.breaches()[0]).toEqual(breaches[breaches.length - 1]);
+  });
+});
@@ -0,0 +1,468 @@
+import { seededRandom } from "../backtest/engine";
+
+// Live risk service behind /api/metrics/live, /api/risk/metrics and the
+// portfolio gauges on /metrics.
+//
+// Open positions are marked to market once per step against a simulated
+// price feed: BTC follows a random walk and every other symbol moves with
+// its own beta to BTC plus idiosyncratic noise, so correlations and betas in
+// the output are meaningful. The service advances lazily to the current time
+// whenever it is read, keeping a bounded equity curve and per-symbol return
+// history. VaR and CVaR are one-hour figures: the historical method revalues
+// today's exposures over every overlapping hour in the history, the
+// parametric one fits a normal to those same hourly P&Ls. Crossing the
+// active tier's drawdown limit or P&L warning emits one breach event; the
+// tier has to recover before the same breach fires again.
+
+export const BENCHMARK = "BTC/USDT";
+
+export interface RiskPosition {
+  symbol: string;
+  amount: number;
+  entry_price: number;
+  current_price?: number;
+  fee_cost: number;
+  slippage_cost: number;
+}
+
+export interface RiskTierLimits {
+  id: string;
+  label?: string;
+  maxDrawdown: number;
+  pnlWarning: number;
+}
+
+export interface RiskLimitsConfig {
+  capital: number;
+  tiers: RiskTierLimits[];
+  defaultTier: string;
+}
+
+export interface EquityPoint {
+  t: string;
+  equity: number;
+  /** Cumulative P&L as a fraction of capital */
+  pnl: number;
+  /** Decline from the high-water mark; zero or negative */
+  dd: number;
+}
+
+export interface RiskBreach {
+  id: string;
+  timestamp: string;
+  tier: string;
+  metric: "max_drawdown" | "pnl_warning";
+  value: number;
+  threshold: number;
+  severity: "warning" | "critical";
+  message: string;
+}
+
+export interface AssetExposure {
+  symbol: string;
+  amount: number;
+  mark: number;
+  notional: number;
+  /** Notional as a share of equity */
+  weight: number;
+  unrealizedPnl: number;
+  beta: number;
+}
+
+export interface RiskSnapshot {
+  asOf: string;
+  capital: number;
+  equity: number;
+  pnl: number;
+  pnlPct: number;
+  drawdown: number;
+  maxDrawdown: number;
+  peak: number;
+  tier: RiskTierLimits;
+  volatility: { window: number; perStep: number; annualized: number };
+  horizonMinutes: number;
+  var: Record<"historical" | "parametric", Record<"95" | "99", number>>;
+  cvar: Record<"historical" | "parametric", Record<"95" | "99", number>>;
+  exposures: AssetExposure[];
+  grossExposure: number;
+  netExposure: number;
+  /** Beta of the portfolio return to BTC */
+  beta: number;
+}
+
+export interface RiskServiceOptions {
+  positions: () => RiskPosition[];
+  config: () => RiskLimitsConfig;
+  onBreach?: (breach: RiskBreach) => void;
+  seed?: number;
+  stepMs?: number;
+  /** Steps of history kept (and backfilled on start) */
+  historySize?: number;
+  /** Steps in the rolling volatility window */
+  volWindow?: number;
+  /** Steps in the VaR horizon */
+  horizonSteps?: number;
+  now?: () => number;
+}
+
+// Per-step (one minute) volatility of the simulated feed
+const BENCHMARK_VOL = 0.0009;
+const IDIOSYNCRATIC_VOL = 0.0006;
+const BETAS: Record<string, number> = {
+  "ETH/USDT": 1.1,
+  "SOL/USDT": 1.4,
+  "ADA/USDT": 1.3,
+};
+const DEFAULT_BETA = 1.2;
+const MINUTES_PER_YEAR = 365 * 24 * 60;
+// Standard normal quantile and density at the VaR levels
+const Z = { "95": 1.6448536, "99": 2.3263479 };
+const PHI = { "95": 0.1031356, "99": 0.0266521 };
+const BREACH_LOG_SIZE = 100;
+
+function gaussian(rand: () => number) {
+  const u = 1 - rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+function mean(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function stdev(xs: number[]) {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+function covariance(a: number[], b: number[]) {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const x = a.slice(-n);
+  const y = b.slice(-n);
+  const mx = mean(x);
+  const my = mean(y);
+  let s = 0;
+  for (let i = 0; i < n; i++) s += (x[i] - mx) * (y[i] - my);
+  return s / (n - 1);
+}
+
+/** Loss at `level` and mean loss beyond it, from P&L samples */
+function historicalTail(pnls: number[], level: number) {
+  if (!pnls.length) return { var: 0, cvar: 0 };
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const k = Math.max(1, Math.floor(sorted.length * (1 - level)));
+  const tail = sorted.slice(0, k);
+  return { var: Math.max(0, -sorted[k - 1]), cvar: Math.max(0, -mean(tail)) };
+}
+
+const round = (v: number, dp = 2) => Math.round(v * 10 ** dp) / 10 ** dp;
+
+export class RiskService {
+  private rand: () => number;
+  private stepMs: number;
+  private historySize: number;
+  private volWindow: number;
+  private horizonSteps: number;
+  private now: () => number;
+  private marks = new Map<string, number>();
+  private returns = new Map<string, number[]>();
+  private curve: EquityPoint[] = [];
+  private peak = 0;
+  private lastT = 0;
+  private breachLog: RiskBreach[] = [];
+  private breached = new Set<string>();
+  private breachSeq = 0;
+
+  constructor(private options: RiskServiceOptions) {
+    this.rand = seededRandom(options.seed ?? Date.now());
+    this.stepMs = options.stepMs ?? 60_000;
+    this.historySize = options.historySize ?? 1440;
+    this.volWindow = options.volWindow ?? 60;
+    this.horizonSteps = options.horizonSteps ?? 60;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Advances the feed to the current time; backfills history on first use */
+  refresh() {
+    const now = this.now();
+    if (!this.lastT) {
+      this.lastT = now - this.historySize * this.stepMs;
+      this.trackSymbols();
+      this.record(this.lastT);
+      for (let i = 0; i < this.historySize; i++) this.step(false);
+      return;
+    }
+    this.trackSymbols();
+    const due = Math.floor((now - this.lastT) / this.stepMs);
+    if (due <= 0) return;
+    // After a long idle only the last window is simulated
+    if (due > this.historySize) {
+      this.lastT = now - this.historySize * this.stepMs;
+    }
+    for (let i = 0; i < Math.min(due, this.historySize); i++) this.step(true);
+  }
+
+  series(points: number): EquityPoint[] {
+    this.refresh();
+    return this.curve.slice(-points);
+  }
+
+  breaches(limit = 50): RiskBreach[] {
+    this.refresh();
+    return this.breachLog.slice(0, limit);
+  }
+
+  /** Current marks, for pre-trade checks */
+  currentMarks(): Record<string, number> {
+    this.refresh();
+    return Object.fromEntries(this.marks);
+  }
+
+  snapshot(): RiskSnapshot {
+    this.refresh();
+    const cfg = this.options.config();
+    const last = this.curve[this.curve.length - 1];
+    const equity = last.equity;
+    const tier = this.activeTier(cfg);
+
+    const exposures = this.aggregate().map(({ symbol, amount, cost }) => {
+      const mark = this.marks.get(symbol)!;
+      const notional = amount * mark;
+      return {
+        symbol,
+        amount,
+        mark: round(mark, 6),
+        notional: round(notional),
+        weight: equity > 0 ? round(notional / equity, 6) : 0,
+        unrealizedPnl: round(notional - cost),
+        beta: round(this.beta(this.returns.get(symbol) || []), 4),
+      };
+    });
+
+    // Equity step returns for the rolling volatility
+    const eq = this.curve.slice(-(this.volWindow + 1)).map((p) => p.equity);
+    const stepReturns = eq.slice(1).map((v, i) => v / eq[i] - 1);
+    const perStep = stdev(stepReturns);
+
+    // Hourly P&L of today's exposures over every overlapping hour of history
+    const hourly = this.horizonPnls(exposures);
+    const mu = mean(hourly);
+    const sigma = stdev(hourly);
+    const tail = (lvl: "95" | "99") =>
+      historicalTail(hourly, Number(lvl) / 100);
+    const h95 = tail("95");
+    const h99 = tail("99");
+    const parametricVar = (lvl: "95" | "99") =>
+      Math.max(0, Z[lvl] * sigma - mu);
+    const parametricCvar = (lvl: "95" | "99") =>
+      Math.max(0, (sigma * PHI[lvl]) / (1 - Number(lvl) / 100) - mu);
+
+    // Portfolio return per step = Σ notional_i r_i / equity
+    const n = Math.min(
+      ...exposures.map((e) => (this.returns.get(e.symbol) || []).length),
+      this.historySize,
+    );
+    const portfolioReturns = Array.from(
+      { length: exposures.length ? n : 0 },
+      (_, k) =>
+        exposures.reduce((s, e) => {
+          const r = this.returns.get(e.symbol)!;
+          return s + (e.notional * r[r.length - n + k]) / (equity || 1);
+        }, 0),
+    );
+
+    return {
+      asOf: last.t,
+      capital: cfg.capital,
+      equity: round(equity),
+      pnl: round(equity - cfg.capital),
+      pnlPct: round(last.pnl, 6),
+      drawdown: round(last.dd, 6),
+      maxDrawdown: round(Math.min(0, ...this.curve.map((p) => p.dd)), 6),
+      peak: round(this.peak),
+      tier,
+      volatility: {
+        window: stepReturns.length,
+        perStep: round(perStep, 8),
+        annualized: round(
+          perStep * Math.sqrt((MINUTES_PER_YEAR * 60_000) / this.stepMs),
+          6,
+        ),
+      },
+      horizonMinutes: (this.horizonSteps * this.stepMs) / 60_000,
+      var: {
+        historical: { "95": round(h95.var), "99": round(h99.var) },
+        parametric: {
+          "95": round(parametricVar("95")),
+          "99": round(parametricVar("99")),
+        },
+      },
+      cvar: {
+        historical: { "95": round(h95.cvar), "99": round(h99.cvar) },
+        parametric: {
+          "95": round(parametricCvar("95")),
+          "99": round(parametricCvar("99")),
+        },
+      },
+      exposures,
+      grossExposure: round(
+        exposures.reduce((s, e) => s + Math.abs(e.notional), 0),
+      ),
+      netExposure: round(exposures.reduce((s, e) => s + e.notional, 0)),
+      beta: round(this.beta(portfolioReturns), 4),
+    };
+  }
+
+  private activeTier(cfg: RiskLimitsConfig) {
+    return cfg.tiers.find((t) => t.id === cfg.defaultTier) || cfg.tiers[0];
+  }
+
+  /** Net amount and cost basis (entry value plus fees) per symbol */
+  private aggregate() {
+    const out = new Map<
+      string,
+      { symbol: string; amount: number; cost: number }
+    >();
+    for (const p of this.options.positions()) {
+      const a = out.get(p.symbol) || { symbol: p.symbol, amount: 0, cost: 0 };
+      a.amount += p.amount;
+      a.cost += p.amount * p.entry_price + p.fee_cost + p.slippage_cost;
+      out.set(p.symbol, a);
+    }
+    return [...out.values()];
+  }
+
+  private beta(r: number[]) {
+    const b = this.returns.get(BENCHMARK) || [];
+    const v = covariance(b, b);
+    return v > 0 ? covariance(r, b) / v : 0;
+  }
+
+  private horizonPnls(exposures: AssetExposure[]) {
+    const H = this.horizonSteps;
+    const series = exposures.map((e) => ({
+      notional: e.notional,
+      r: this.returns.get(e.symbol) || [],
+    }));
+    const n = Math.min(...series.map((s) => s.r.length), this.historySize);
+    if (!series.length || n < H) return [];
+    const out: number[] = [];
+    for (let end = H; end <= n; end++) {
+      let pnl = 0;
+      for (const s of series) {
+        const r = s.r.slice(s.r.length - n + end - H, s.r.length - n + end);
+        pnl += s.notional * (r.reduce((g, x) => g * (1 + x), 1) - 1);
+      }
+      out.push(pnl);
+    }
+    return out;
+  }
+
+  // Starts marks for new symbols at the position's price and backfills their
+  // returns from the benchmark history so betas are available at once
+  private trackSymbols() {
+    const bench = this.returns.get(BENCHMARK) || [];
+    if (!this.marks.has(BENCHMARK)) {
+      const btc = this.options.positions().find((p) => p.symbol === BENCHMARK);
+      this.marks.set(
+        BENCHMARK,
+        btc?.current_price ?? btc?.entry_price ?? 43000,
+      );
+      this.returns.set(BENCHMARK, []);
+    }
+    for (const p of this.options.positions()) {
+      if (this.marks.has(p.symbol)) continue;
+      const beta = BETAS[p.symbol] ?? DEFAULT_BETA;
+      this.marks.set(p.symbol, p.current_price ?? p.entry_price);
+      this.returns.set(
+        p.symbol,
+        bench.map((b) => beta * b + IDIOSYNCRATIC_VOL * gaussian(this.rand)),
+      );
+    }
+  }
+
+  private step(live: boolean) {
+    this.trackSymbols();
+    const rb = BENCHMARK_VOL * gaussian(this.rand);
+    for (const [symbol, mark] of this.marks) {
+      const r =
+        symbol === BENCHMARK
+          ? rb
+          : (BETAS[symbol] ?? DEFAULT_BETA) * rb +
+            IDIOSYNCRATIC_VOL * gaussian(this.rand);
+      this.marks.set(symbol, mark * (1 + r));
+      const hist = this.returns.get(symbol)!;
+      hist.push(r);
+      if (hist.length > this.historySize) hist.shift();
+    }
+    this.lastT += this.stepMs;
+    this.record(this.lastT);
+    if (live) this.checkBreaches();
+  }
+
+  private record(t: number) {
+    const cfg = this.options.config();
+    const equity =
+      cfg.capital +
+      this.aggregate().reduce(
+        (s, a) => s + a.amount * this.marks.get(a.symbol)! - a.cost,
+        0,
+      );
+    if (!this.curve.length) this.peak = equity;
+    this.peak = Math.max(this.peak, equity);
+    this.curve.push({
+      t: new Date(t).toISOString(),
+      equity,
+      pnl: equity / cfg.capital - 1,
+      dd: equity / this.peak - 1,
+    });
+    if (this.curve.length > this.historySize + 1) this.curve.shift();
+  }
+
+  private checkBreaches() {
+    const cfg = this.options.config();
+    const tier = this.activeTier(cfg);
+    const p = this.curve[this.curve.length - 1];
+    const checks = [
+      {
+        metric: "max_drawdown" as const,
+        hit: p.dd <= -tier.maxDrawdown,
+        value: p.dd,
+        threshold: -tier.maxDrawdown,
+        severity: "critical" as const,
+        message: `Drawdown ${(Math.abs(p.dd) * 100).toFixed(2)}% exceeds ${tier.id} limit ${(tier.maxDrawdown * 100).toFixed(1)}%`,
+      },
+      {
+        metric: "pnl_warning" as const,
+        hit: p.pnl <= tier.pnlWarning,
+        value: p.pnl,
+        threshold: tier.pnlWarning,
+        severity: "warning" as const,
+        message: `P&L ${(p.pnl * 100).toFixed(2)}% below ${tier.id} warning ${(tier.pnlWarning * 100).toFixed(1)}%`,
+      },
+    ];
+    for (const c of checks) {
+      const key = `${tier.id}:${c.metric}`;
+      if (!c.hit) {
+        this.breached.delete(key);
+        continue;
+      }
+      if (this.breached.has(key)) continue;
+      this.breached.add(key);
+      const breach: RiskBreach = {
+        id: `risk_${c.metric}_${++this.breachSeq}_${Date.parse(p.t)}`,
+        timestamp: p.t,
+        tier: tier.id,
+        metric: c.metric,
+        value: round(c.value, 6),
+        threshold: c.threshold,
+        severity: c.severity,
+        message: c.message,
+      };
+      this.breachLog.unshift(breach);
+      this.breachLog.length = Math.min(this.breachLog.length, BREACH_LOG_SIZE);
+      this.options.onBreach?.(breach);
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import type { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import { recordAudit } from "./audit";
+
+export type ApiKeyScope = "models" | "system" | "governance" | "automation";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "models",
+  "system",
+  "governance",
+  "automation",
+];
+
+interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string; // first characters of the key, safe to display
+  hash: string; // sha256 of the full key; the plaintext is never stored
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  createdBy: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  useCount: number;
+  revokedAt?: string;
+  revokedBy?: string;
+  rotatedFrom?: string;
+}
+
+interface ApiKeyUsageEntry {
+  id: string;
+  timestamp: string;
+  keyId: string | null;
+  keyPrefix: string | null;
+  scope: ApiKeyScope;
+  method: string;
+  path: string;
+  ip: string;
+  success: boolean;
+  reason?: string;
+}
+
+const apiKeys: ApiKeyRecord[] = [];
+let usageLog: ApiKeyUsageEntry[] = [];
+const USAGE_LOG_LIMIT = 1000;
+
+function hashKey(key: string) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function generateKey() {
+  const prefix = `aek_${crypto.randomBytes(4).toString("hex")}`;
+  return { key: `${prefix}_${crypto.randomBytes(24).toString("hex")}`, prefix };
+}
+
+function publicView(k: ApiKeyRecord) {
+  const { hash, ...rest } = k;
+  return {
+    ...rest,
+    status: keyStatus(k),
+  };
+}
+
+function keyStatus(k: ApiKeyRecord): "active" | "revoked" | "expired" {
+  if (k.revokedAt) return "revoked";
+  if (k.expiresAt && new Date(k.expiresAt).getTime() <= Date.now())
+    return "expired";
+  return "active";
+}
+
+function actorOf(req: Request) {
+  return req.user?.email || "unknown";
+}
+
+function clientIp(req: Request) {
+  return (
+    (req.headers["x-forwarded-for"] as string) ||
+    req.socket?.remoteAddress ||
+    "local"
+  );
+}
+
+function recordUsage(entry: Omit<ApiKeyUsageEntry, "id" | "timestamp">) {
+  usageLog.unshift({
+    id: `keyuse_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    ...entry,
+  });
+  if (usageLog.length > USAGE_LOG_LIMIT)
+    usageLog = usageLog.slice(0, USAGE_LOG_LIMIT);
+}
+
+function parseScopes(raw: unknown): ApiKeyScope[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const scopes = Array.from(new Set(raw.map((s) => String(s))));
+  if (!scopes.every((s) => API_KEY_SCOPES.includes(s as ApiKeyScope)))
+    return null;
+  return scopes as ApiKeyScope[];
+}
+
+function parseExpiry(body: any): string | undefined | null {
+  if (body?.expiresAt) {
+    const t = new Date(body.expiresAt).getTime();
+    if (!Number.isFinite(t) || t <= Date.now()) return null;
+    return new Date(t).toISOString();
+  }
+  if (body?.expiresInDays !== undefined && body?.expiresInDays !== null) {
+    const d = Number(body.expiresInDays);
+    if (!Number.isFinite(d) || d <= 0 || d > 3650) return null;
+    return new Date(Date.now() + d * 86400_000).toISOString();
+  }
+  return undefined;
+}
+
+function issueKey(
+  fields: Pick<ApiKeyRecord, "name" | "scopes" | "createdBy"> &
+    Partial<Pick<ApiKeyRecord, "expiresAt" | "rotatedFrom">>,
+  plaintext?: string,
+) {
+  const generated = plaintext
+    ? { key: plaintext, prefix: plaintext.slice(0, 8) }
+    : generateKey();
+  const record: ApiKeyRecord = {
+    id: `key_${crypto.randomBytes(6).toString("hex")}`,
+    prefix: generated.prefix,
+    hash: hashKey(generated.key),
+    createdAt: new Date().toISOString(),
+    useCount: 0,
+    ...fields,
+  };
+  apiKeys.unshift(record);
+  return { record, key: generated.key };
+}
+
+// A deployment can still inject one bootstrap key through SYSTEM_API_KEY; it
+// is stored hashed like any other key and can be revoked from the UI.
+if (process.env.SYSTEM_API_KEY) {
+  issueKey(
+    {
+      name: "bootstrap (SYSTEM_API_KEY)",
+      scopes: [...API_KEY_SCOPES],
+      createdBy: "environment",
+    },
+    process.env.SYSTEM_API_KEY,
+  );
+}
+
+export type ApiKeyCheck =
+  | { ok: true; key: ApiKeyRecord }
+  | { ok: false; status: 401 | 403; reason: string };
+
+// Validates the X-API-Key header for a scope, updating last-used tracking and
+// writing a usage audit entry whether or not the key is accepted.
+export function verifyApiKey(req: Request, scope: ApiKeyScope): ApiKeyCheck {
+  const raw = req.headers["x-api-key"];
+  const presented = Array.isArray(raw) ? raw[0] : raw;
+  const base = {
+    scope,
+    method: req.method,
+    path: req.originalUrl || req.url,
+    ip: clientIp(req),
+  };
+  if (!presented) {
+    recordUsage({
+      ...base,
+      keyId: null,
+      keyPrefix: null,
+      success: false,
+      reason: "missing",
+    });
+    return { ok: false, status: 401, reason: "API key required" };
+  }
+  const hash = hashKey(String(presented));
+  const key = apiKeys.find((k) =>
+    crypto.timingSafeEqual(Buffer.from(k.hash), Buffer.from(hash)),
+  );
+  let failure: string | null = null;
+  if (!key) failure = "unknown";
+  else if (keyStatus(key) !== "active") failure = keyStatus(key);
+  else if (!key.scopes.includes(scope)) failure = "scope";
+  recordUsage({
+    ...base,
+    keyId: key?.id ?? null,
+    keyPrefix: key?.prefix ?? null,
+    success: !failure,
+    reason: failure ?? undefined,
+  });
+  if (failure === "unknown" || failure === "revoked" || failure === "expired")
+    return { ok: false, status: 401, reason: `API key ${failure}` };
+  if (failure === "scope")
+    return {
+      ok: false,
+      status: 403,
+      reason: `API key lacks '${scope}' scope`,
+    };
+  key!.lastUsedAt = new Date().toISOString();
+  key!.lastUsedIp = base.ip;
+  key!.useCount += 1;
+  return { ok: true, key: key! };
+}
+
+export function requireApiKey(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const check = verifyApiKey(req, scope);
+    if (check.ok === false) {
+      return res
+        .status(check.status)
+        .json({ status: "error", message: check.reason });
+    }
+    next();
+  };
+}
+
+export function handleListApiKeys(_req: Request, res: Response) {
+  res.json({ status: "success", data: apiKeys.map(publicView) });
+}
+
+export function handleCreateApiKey(req: Request, res: Response) {
+  const { name } = req.body || {};
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return res
+      .status(400)
+      .json({ status: "error", message: "name is required" });
+  }
+  const scopes = parseScopes(req.body?.scopes);
+  if (!scopes) {
+    return res.status(400).json({
+      status: "error",
+      message: `scopes must be a non-empty subset of: ${API_KEY_SCOPES.join(", ")}`,
+    });
+  }
+  const expiresAt = parseExpiry(req.body);
+  if (expiresAt === null) {
+    return res.status(400).json({ status: "error", message: "Invalid expiry" });
+  }
+  const { record, key } = issueKey({
+    name: name.trim(),
+    scopes,
+    createdBy: actorOf(req),
+    expiresAt,
+  });
+  recordAudit(
+    {
+      action: "API_KEY_CREATE",
+      actor: actorOf(req),
+      target: record.id,
+      details: `Created API key ${record.prefix} (${record.name}) scopes=${scopes.join(",")}`,
+    },
+    req,
+  );
+  // The plaintext key is returned only on create and rotate
+  res
+    .status(201)
+    .json({ status: "success", data: { ...publicView(record), key } });
+}
+
+export function handleRevokeApiKey(req: Request, res: Response) {
+  const record = apiKeys.find((k) => k.id === req.params.keyId);
+  if (!record) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "API key not found" });
+  }
+  if (record.revokedAt) {
+    return res
+      .status(409)
+      .json({ status: "error", message: "API key already revoked" });
+  }
+  record.revokedAt = new Date().toISOString();
+  record.revokedBy = actorOf(req);
+  recordAudit(
+    {
+      action: "API_KEY_REVOKE",
+      actor: actorOf(req),
+      target: record.id,
+      details: `Revoked API key ${record.prefix} (${record.name})`,
+    },
+    req,
+  );
+  res.json({ status: "success", data: publicView(record) });
+}
+
+export function handleRotateApiKey(req: Request, res: Response) {
+  const record = apiKeys.find((k) => k.id === req.params.keyId);
+  if (!record) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "API key not found" });
+  }
+  if (keyStatus(record) === "revoked") {
+    return res
+      .status(409)
+      .json({ status: "error", message: "Cannot rotate a revoked key" });
+  }
+  const expiresAt = parseExpiry(req.body);
+  if (expiresAt === null) {
+    return res.status(400).json({ status: "error", message: "Invalid expiry" });
+  }
+  const { record: next, key } = issueKey({
+    name: record.name,
+    scopes: [...record.scopes],
+    createdBy: actorOf(req),
+    expiresAt: expiresAt ?? record.expiresAt,
+    rotatedFrom: record.id,
+  });
+  record.revokedAt = new Date().toISOString();
+  record.revokedBy = actorOf(req);
+  recordAudit(
+    {
+      action: "API_KEY_ROTATE",
+      actor: actorOf(req),
+      target: record.id,
+      before: record.prefix,
+      after: next.prefix,
+      details: `Rotated API key ${record.prefix} -> ${next.prefix} (${record.name})`,
+    },
+    req,
+  );
+  res.json({ status: "success", data: { ...publicView(next), key } });
+}
+
+export function handleGetApiKeyUsage(req: Request, res: Response) {
+  const { keyId } = req.query as Record<string, string>;
+  const limit = Math.max(
+    1,
+    Math.min(parseInt(String(req.query.limit)) || 100, 500),
+  );
+  const items = keyId ? usageLog.filter((u) => u.keyId === keyId) : usageLog;
+  res.json({ status: "success", data: items.slice(0, limit) });
+}
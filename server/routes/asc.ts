@@ -1,4 +1,6 @@
 import type { Request, Response } from "express";
+import { createProposal, governanceErrorStatus, registerProposalExecutor } from "./governance";
+import { GovernanceValidationError } from "../governance/engine";
 
 let policies = [
   { name: 'momentum', enabled: true, weight: 0.5, kpis: { sharpe: 1.8, win_rate: 0.62 } },
@@ -20,30 +22,81 @@ const demoKPIs: Record<string, Record<string, any>> = {
   }
 };
 
+export function listPolicies() {
+  return policies.map(p => ({ ...p, kpis: { ...p.kpis } }));
+}
+
 export function handleASCStatus(_req: Request, res: Response) {
   res.json({ status: 'success', data: { weights: Object.fromEntries(policies.map(p=>[p.name,p.weight])), policies, exploration, kpis: demoKPIs, rl, degraded: false } });
 }
 
+// Clamp to [-1, 1], fill unnamed policies with their current weight and
+// renormalize to L1=1; null when the L1 norm is zero
+function normalizeWeights(weights: Record<string, unknown>): Record<string, number> | null {
+  const clamped: Record<string, number> = {};
+  let l1 = 0;
+  for (const p of policies) {
+    const v = typeof weights[p.name] === 'number' ? Math.max(-1, Math.min(1, weights[p.name] as number)) : p.weight;
+    clamped[p.name] = v;
+    l1 += Math.abs(v);
+  }
+  if (l1 === 0) return null;
+  return Object.fromEntries(Object.entries(clamped).map(([name, v]) => [name, v / l1]));
+}
+
+function setWeights(weights: Record<string, number>) {
+  policies = policies.map(p => typeof weights[p.name] === 'number' ? { ...p, weight: weights[p.name] } : p);
+}
+
+// Weights steer live allocation, so a reweight is proposed and applied once
+// founders approve the asc_reweight proposal
 export function handleASCReweight(req: Request, res: Response) {
   const { weights } = req.body || {};
-  if (weights && typeof weights === 'object') {
-    // Clamp, enforce non-zero L1, renormalize to L1=1
-    const clamped: Record<string, number> = {};
-    let l1 = 0;
-    for (const p of policies) {
-      const v = typeof weights[p.name] === 'number' ? Math.max(-1, Math.min(1, weights[p.name])) : p.weight;
-      clamped[p.name] = v;
-      l1 += Math.abs(v);
-    }
-    if (l1 === 0) {
-      return res.status(400).json({ status: 'error', message: 'Weights L1 norm must be > 0' });
+  try {
+    const proposal = createProposal<{ weights: Record<string, number> }>({
+      kind: 'asc_reweight',
+      description: `Reweight strategy policies: ${Object.keys(weights || {}).join(', ')}`,
+      payload: { weights },
+      createdBy: req.user?.email || 'unknown'
+    });
+    res.status(202).json({ status: 'success', message: 'Reweight proposed; it is applied once founders approve', data: { proposal } });
+  } catch (e) {
+    const code = governanceErrorStatus(e);
+    if (code === 500) console.error('ASC reweight proposal error:', e);
+    res.status(code).json({ status: 'error', message: code === 500 ? 'Failed to propose reweight' : (e as Error).message });
+  }
+}
+
+// Reweights voted through governance (asc_reweight proposals); the diff is
+// taken against the normalized weights so voters see what will be stored
+registerProposalExecutor<{ weights: Record<string, number> }>('asc_reweight', {
+  validate: (payload) => {
+    const weights = payload?.weights;
+    if (!weights || typeof weights !== 'object' || Array.isArray(weights) || Object.keys(weights).length === 0) {
+      throw new GovernanceValidationError('payload.weights must map policy names to weights');
     }
-    for (const p of policies) {
-      policies = policies.map(x => x.name === p.name ? { ...x, weight: clamped[p.name]/l1 } : x);
+    const unknown = Object.keys(weights).filter(name => !policies.some(p => p.name === name));
+    if (unknown.length) throw new GovernanceValidationError(`Unknown policies: ${unknown.join(', ')}`);
+    if (Object.values(weights).some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+      throw new GovernanceValidationError('weights must be numbers');
     }
+    if (!normalizeWeights(weights)) throw new GovernanceValidationError('Weights L1 norm must be > 0');
+  },
+  diff: ({ weights }) => {
+    const next = normalizeWeights(weights) || {};
+    return policies
+      .filter(p => Math.abs(next[p.name] - p.weight) > 1e-9)
+      .map(p => ({ path: p.name, before: p.weight, after: next[p.name] }));
+  },
+  snapshot: () => Object.fromEntries(policies.map(p => [p.name, p.weight])),
+  restore: (snapshot: Record<string, number>) => setWeights(snapshot),
+  apply: ({ weights }) => {
+    const next = normalizeWeights(weights);
+    if (!next) throw new GovernanceValidationError('Weights L1 norm must be > 0');
+    setWeights(next);
+    return { weights: next };
   }
-  res.json({ status: 'success', message: 'reweighted', data: { policies }, persistence_skipped: false });
-}
+});
 
 export function handleASCActivate(req: Request, res: Response) {
   const { name } = req.params as { name: string };
@@ -1,66 +1,145 @@
 import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { createRepository } from "../storage/repository";
+import {
+  AuditLedger,
+  chainEntries,
+  type AuditEntry,
+  type AuditInput,
+} from "../audit/ledger";
 
-interface AuditLogEntry {
-  id: string;
-  timestamp: string;
-  action: string;
-  actor: string;
-  details: string;
-  success: boolean;
-}
-
-// Simple in-memory audit history (public view)
-let publicAudit: AuditLogEntry[] = [];
+// The one audit ledger for admin actions (see ../audit/ledger.ts). Route
+// modules write through recordAudit(); nothing else appends or edits entries.
 
-function ensureSeed() {
-  if (publicAudit.length) return;
+function seedEntries(): AuditEntry[] {
   const now = Date.now();
-  publicAudit = [
+  const at = (msAgo: number) => new Date(now - msAgo).toISOString();
+  return chainEntries([
     {
-      id: `audit_${now - 300_000}`,
-      timestamp: new Date(now - 300_000).toISOString(),
-      action: "LOGIN",
+      at: at(259_200_000),
+      action: "SYSTEM_RESUME",
       actor: "admin@example.com",
-      details: "Admin session established",
-      success: true,
+      details: "System resumed after maintenance",
     },
     {
-      id: `audit_${now - 240_000}`,
-      timestamp: new Date(now - 240_000).toISOString(),
+      at: at(172_800_000),
+      action: "SYSTEM_PAUSE",
+      actor: "admin@example.com",
+      details: "System paused for maintenance",
+    },
+    {
+      at: at(86_400_000),
       action: "MODE_CHANGE",
       actor: "admin@example.com",
-      details: "Trading mode changed from Simulation to Live",
-      success: true,
+      before: "simulation",
+      after: "live",
+      details: "Changed trading mode from Simulation to Live",
     },
     {
-      id: `audit_${now - 200_000}`,
-      timestamp: new Date(now - 200_000).toISOString(),
-      action: "SYSTEM_PAUSE",
-      actor: "ops@example.com",
-      details: "System paused for scheduled maintenance",
-      success: true,
+      at: at(300_000),
+      action: "LOGIN",
+      actor: "admin@example.com",
+      details: "Admin session established",
     },
     {
-      id: `audit_${now - 120_000}`,
-      timestamp: new Date(now - 120_000).toISOString(),
+      at: at(120_000),
       action: "MODEL_ROLLBACK",
       actor: "risk@example.com",
+      before: "v1.7",
+      after: "v1.6",
       details: "Rolled back model v1.7 to v1.6 after anomaly detection",
-      success: true,
     },
-    {
-      id: `audit_${now - 60_000}`,
-      timestamp: new Date(now - 60_000).toISOString(),
-      action: "SYSTEM_RESUME",
-      actor: "ops@example.com",
-      details: "System resumed after maintenance",
-      success: true,
-    },
-  ];
+  ]);
+}
+
+const ledger = new AuditLedger({
+  entries: createRepository<AuditEntry>("audit_ledger", {
+    key: (e) => e.id,
+    seed: seedEntries,
+  }),
+});
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Correlates the ledger entries one request writes */
+      auditRequestId?: string;
+    }
+  }
+}
+
+// One id per request, so every entry a request writes can be correlated
+function requestIdOf(req: Request): string {
+  if (!req.auditRequestId) {
+    const header = req.headers["x-request-id"];
+    req.auditRequestId =
+      (typeof header === "string" && header) || `req_${randomUUID()}`;
+  }
+  return req.auditRequestId;
+}
+
+/**
+ * Appends an admin action to the ledger. For a request the actor is always the
+ * signed-in user, and a differing `actor` is kept only as `meta.claimedActor`;
+ * work with no request behind it (timers, governance) records the given actor.
+ */
+export function recordAudit(
+  entry: Omit<AuditInput, "actor" | "requestId"> & { actor?: string },
+  req?: Request,
+): AuditEntry {
+  const { actor: named, ...rest } = entry;
+  const actor = req ? req.user?.email || "unknown" : named || "system";
+  return ledger.append({
+    ...rest,
+    actor,
+    meta:
+      named && named !== actor
+        ? { ...rest.meta, claimedActor: named }
+        : rest.meta,
+    requestId: req ? requestIdOf(req) : undefined,
+  });
+}
+
+export function listAuditEntries(query: Parameters<AuditLedger["list"]>[0]) {
+  return ledger.list(query);
+}
+
+// Entries as served; `timestamp` keeps older clients of the audit endpoints working
+export function auditView(entry: AuditEntry) {
+  return { ...entry, timestamp: entry.at };
+}
+
+export function handleGetAuditLogs(req: Request, res: Response) {
+  const q = req.query as Record<string, string | undefined>;
+  const limit = Math.min(Math.max(parseInt(q.limit || "", 10) || 50, 1), 500);
+  const entries = ledger.list({
+    action: q.action,
+    actor: q.actor,
+    target: q.target,
+    success: q.success ? q.success === "true" : undefined,
+    since: q.since,
+    limit,
+  });
+  res.json({ status: "success", data: entries.map(auditView) });
+}
+
+// Walks the chain and reports the first broken link, if any
+export function handleVerifyAuditLedger(_req: Request, res: Response) {
+  res.json({ status: "success", data: ledger.verify() });
 }
 
-export function handleGetAuditLogs(_req: Request, res: Response) {
-  ensureSeed();
-  const limit = 50;
-  res.json({ status: "success", data: publicAudit.slice(0, limit) });
+export function handleExportAuditLedger(req: Request, res: Response) {
+  recordAudit(
+    { action: "AUDIT_EXPORT", details: "Ledger exported as JSONL" },
+    req,
+  );
+  const { headHash, count } = ledger.verify();
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.setHeader(
+    "Content-Disposition",
+    'attachment; filename="audit_ledger.jsonl"',
+  );
+  res.setHeader("X-Audit-Head-Hash", headHash);
+  res.setHeader("X-Audit-Count", String(count));
+  res.send(`${ledger.toJSONL()}\n`);
 }
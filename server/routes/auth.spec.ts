@@ -0,0 +1,145 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  vi,
+} from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  authenticate,
+  handleLogin,
+  handleLogout,
+  handleMe,
+  handleRefresh,
+  requireAuth,
+  requireRole,
+} from "./auth";
+
+// Mounted the way server/index.ts mounts the auth routes and guards
+function app() {
+  const a = express();
+  a.use(express.json());
+  a.use("/api", authenticate, requireAuth);
+  a.post("/api/auth/login", handleLogin);
+  a.post("/api/auth/refresh", handleRefresh);
+  a.post("/api/auth/logout", handleLogout);
+  a.get("/api/auth/me", handleMe);
+  a.get("/api/admin/ping", requireRole("admin", "founder"), (_req, res) =>
+    res.json({ ok: true }),
+  );
+  return a;
+}
+
+let server: Server;
+let base: string;
+
+function call(path: string, init: { token?: string; body?: unknown } = {}) {
+  return fetch(`${base}${path}`, {
+    method: init.body === undefined ? "GET" : "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
+
+async function login(email: string, password: string) {
+  const res = await call("/api/auth/login", { body: { email, password } });
+  expect(res.status).toBe(200);
+  return (await res.json()) as { access_token: string; refresh_token: string };
+}
+
+beforeAll(async () => {
+  server = app().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("auth", () => {
+  it("accepts signed tokens and rejects tampered or expired ones", async () => {
+    const { access_token } = await login("user@projectaether.com", "user123");
+    const me = await call("/api/auth/me", { token: access_token });
+    expect(me.status).toBe(200);
+    expect(await me.json()).toMatchObject({ id: "2", role: "user" });
+
+    // Claiming another role invalidates the signature
+    const [head, body, sig] = access_token.split(".");
+    const claims = JSON.parse(Buffer.from(body, "base64").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: "admin" }))
+      .toString("base64")
+      .replace(/=+$/, "");
+    expect(
+      (await call("/api/auth/me", { token: `${head}.${forged}.${sig}` }))
+        .status,
+    ).toBe(401);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * 3600_000);
+    expect((await call("/api/auth/me", { token: access_token })).status).toBe(
+      401,
+    );
+  });
+
+  it("rotates refresh tokens and revokes the session on logout", async () => {
+    // Refresh is refused while the user store (Supabase) is unconfigured
+    vi.stubEnv("SUPABASE_URL", "http://supabase.test");
+    vi.stubEnv("SUPABASE_KEY", "key");
+    const first = await login("user@projectaether.com", "user123");
+    const refreshed = await call("/api/auth/refresh", {
+      body: { refresh_token: first.refresh_token },
+    });
+    expect(refreshed.status).toBe(200);
+    const second = await refreshed.json();
+    // A refresh token is single-use
+    expect(
+      (
+        await call("/api/auth/refresh", {
+          body: { refresh_token: first.refresh_token },
+        })
+      ).status,
+    ).toBe(401);
+
+    const logout = await call("/api/auth/logout", {
+      token: second.access_token,
+      body: {},
+    });
+    expect(logout.status).toBe(200);
+    for (const token of [first.access_token, second.access_token]) {
+      expect((await call("/api/auth/me", { token })).status).toBe(401);
+    }
+    expect(
+      (
+        await call("/api/auth/refresh", {
+          body: { refresh_token: second.refresh_token },
+        })
+      ).status,
+    ).toBe(401);
+  });
+
+  it("enforces roles on guarded routes", async () => {
+    expect((await call("/api/admin/ping")).status).toBe(401);
+    const user = await login("user@projectaether.com", "user123");
+    const denied = await call("/api/admin/ping", { token: user.access_token });
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).detail).toMatch(/admin or founder/);
+    const admin = await login("admin@projectaether.com", "admin123");
+    expect(
+      (await call("/api/admin/ping", { token: admin.access_token })).status,
+    ).toBe(200);
+  });
+});
@@ -1,4 +1,7 @@
 import { RequestHandler } from "express";
+import crypto from "crypto";
+
+export type Role = 'admin' | 'user' | 'founder';
 
 export interface LoginRequest {
   email: string;
@@ -15,7 +18,7 @@ export interface AuthResponse extends TokenPair {
   user: {
     id: string;
     email: string;
-    role: 'admin' | 'user' | 'founder';
+    role: Role;
   };
 }
 
@@ -28,10 +31,48 @@ export const mockUsers = [
   { id: '1', email: 'admin@projectaether.com', password: 'admin123', role: 'admin' as const },
   { id: '2', email: 'user@projectaether.com', password: 'user123', role: 'user' as const },
   { id: '3', email: 'founder@projectaether.com', password: 'founder123', role: 'founder' as const },
+  { id: '4', email: 'cofounder@projectaether.com', password: 'cofounder123', role: 'founder' as const },
 ];
 
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: Role;
+  sessionId: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+interface AccessClaims {
+  sub: string;
+  role: Role;
+  sid: string;
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+interface RefreshRecord { userId: string; sessionId: string; expiresAt: number }
+
+// Access tokens are HS256 JWTs signed with JWT_SECRET; refresh tokens are
+// opaque, single-use and bound to a session so logout can revoke both.
+const ACCESS_TTL_SECONDS = Number(process.env.JWT_ACCESS_TTL_SECONDS) || 3600;
+const REFRESH_TTL_SECONDS = Number(process.env.JWT_REFRESH_TTL_SECONDS) || 7 * 24 * 3600;
+let jwtSecret = process.env.JWT_SECRET || '';
+if (!jwtSecret) {
+  jwtSecret = crypto.randomBytes(32).toString('hex');
+  console.warn('JWT_SECRET not set; using an ephemeral secret (tokens will not survive a restart)');
+}
+
 // In-memory refresh token store (rotation)
-const refreshStore = new Map<string, string>(); // refresh -> userId
+const refreshStore = new Map<string, RefreshRecord>(); // refresh -> session
+const revokedSessions = new Map<string, number>(); // sessionId -> revoked until (epoch ms)
 
 // Login failure buckets (per ip+email) with lockout
 type FailRecord = { count: number; locked_until?: number };
@@ -53,14 +94,70 @@ function startCleanupLoop() {
     for (const [k, v] of failBuckets.entries()) {
       if (v.locked_until && v.locked_until < now) { failBuckets.delete(k); }
     }
+    for (const [k, v] of refreshStore.entries()) if (v.expiresAt < now) refreshStore.delete(k);
+    for (const [k, until] of revokedSessions.entries()) if (until < now) revokedSessions.delete(k);
   }, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref?.();
 }
 startCleanupLoop();
 
-function create_access_token(userId: string) { return `access_${userId}_${Date.now()}`; }
-function create_refresh_token(userId: string) { return `refresh_${userId}_${Date.now()}_${Math.random().toString(36).slice(2,8)}`; }
-function decode_token(token: string) {
-  if (!token.startsWith('access_')) return null; const parts = token.split('_'); return { userId: parts[1] };
+function base64url(input: Buffer | string) {
+  return Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function sign(data: string) {
+  return base64url(crypto.createHmac('sha256', jwtSecret).update(data).digest());
+}
+
+function create_session_id() { return `sess_${crypto.randomBytes(12).toString('hex')}`; }
+
+function create_access_token(userId: string, sessionId: string) {
+  const user = mockUsers.find(u => u.id === userId);
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessClaims = { sub: userId, role: user?.role || 'user', sid: sessionId, jti: crypto.randomBytes(8).toString('hex'), iat: now, exp: now + ACCESS_TTL_SECONDS };
+  const head = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64url(JSON.stringify(claims));
+  return `${head}.${body}.${sign(`${head}.${body}`)}`;
+}
+
+function create_refresh_token(userId: string, sessionId: string) {
+  const token = `rt_${crypto.randomBytes(32).toString('hex')}`;
+  refreshStore.set(token, { userId, sessionId, expiresAt: Date.now() + REFRESH_TTL_SECONDS * 1000 });
+  return token;
+}
+
+function decode_token(token: string): AccessClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [head, body, sig] = parts;
+  const expected = sign(`${head}.${body}`);
+  if (sig.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) return null;
+  try {
+    const header = JSON.parse(Buffer.from(head, 'base64').toString('utf8'));
+    if (header.alg !== 'HS256') return null;
+    const claims = JSON.parse(Buffer.from(body, 'base64').toString('utf8')) as AccessClaims;
+    if (!claims.sub || !claims.sid || typeof claims.exp !== 'number') return null;
+    if (claims.exp * 1000 <= Date.now()) return null;
+    if (revokedSessions.has(claims.sid)) return null;
+    return claims;
+  } catch { return null; }
+}
+
+function revokeSession(sessionId: string) {
+  revokedSessions.set(sessionId, Date.now() + ACCESS_TTL_SECONDS * 1000);
+  for (const [token, rec] of refreshStore.entries()) {
+    if (rec.sessionId === sessionId) refreshStore.delete(token);
+  }
+}
+
+function issueTokenPair(userId: string, sessionId = create_session_id()): TokenPair {
+  return { access_token: create_access_token(userId, sessionId), refresh_token: create_refresh_token(userId, sessionId) };
+}
+
+function bearerToken(req: { headers: Record<string, any> }) {
+  const auth = req.headers['authorization'] || '';
+  const header = Array.isArray(auth) ? auth[0] : String(auth);
+  return header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
 }
 
 function supabaseDegraded() { return !process.env.SUPABASE_URL || !process.env.SUPABASE_KEY; }
@@ -83,9 +180,7 @@ export const handleLogin: RequestHandler = (req, res) => {
     // Allow test tokens in dev
     if (testTokensEnabled() && password === 'test') {
       const u = mockUsers[0];
-      const access_token = create_access_token(u.id);
-      const refresh_token = create_refresh_token(u.id); refreshStore.set(refresh_token, u.id);
-      return res.json({ access_token, refresh_token, user: { id: u.id, email: u.email, role: u.role } });
+      return res.json({ ...issueTokenPair(u.id), user: { id: u.id, email: u.email, role: u.role } });
     }
 
     const user = mockUsers.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
@@ -97,11 +192,8 @@ export const handleLogin: RequestHandler = (req, res) => {
 
     failBuckets.delete(key);
 
-    const access_token = create_access_token(user.id);
-    const refresh_token = create_refresh_token(user.id); refreshStore.set(refresh_token, user.id);
     const response: AuthResponse = {
-      access_token,
-      refresh_token,
+      ...issueTokenPair(user.id),
       user: { id: user.id, email: user.email, role: user.role }
     };
     res.json(response);
@@ -116,19 +208,19 @@ export const handleRefresh: RequestHandler = (req, res) => {
     const { refresh_token } = req.body as RefreshRequest;
     if (!refresh_token) return res.status(400).json({ status:'error', code:400, detail:'Missing refresh token' });
 
-    const uid = refreshStore.get(refresh_token);
-    if (!uid) return res.status(401).json({ status:'error', code:401, detail:'Invalid refresh token' });
-
-    // Rotate token
-    refreshStore.delete(refresh_token);
+    const rec = refreshStore.get(refresh_token);
+    if (!rec || rec.expiresAt < Date.now() || revokedSessions.has(rec.sessionId)) {
+      if (rec) refreshStore.delete(refresh_token);
+      return res.status(401).json({ status:'error', code:401, detail:'Invalid refresh token' });
+    }
 
     if (supabaseDegraded()) {
       return res.status(503).json({ status:'error', code:503, detail:'Supabase degraded', details:{ supabase_degraded: true } });
     }
 
-    const access_token = create_access_token(uid);
-    const new_refresh = create_refresh_token(uid); refreshStore.set(new_refresh, uid);
-    const pair: TokenPair = { access_token, refresh_token: new_refresh };
+    // Rotate token within the same session
+    refreshStore.delete(refresh_token);
+    const pair: TokenPair = issueTokenPair(rec.userId, rec.sessionId);
     res.json(pair);
   } catch (error) {
     console.error('Refresh error:', error);
@@ -137,39 +229,82 @@ export const handleRefresh: RequestHandler = (req, res) => {
 };
 
 export const handleLogout: RequestHandler = (req, res) => {
-  const auth = req.headers['authorization'] || '';
-  const token = Array.isArray(auth) ? auth[0] : auth;
-  // Best-effort: nothing to invalidate in mock
+  const { refresh_token } = (req.body || {}) as Partial<RefreshRequest>;
+  const claims = decode_token(bearerToken(req));
+  const rec = refresh_token ? refreshStore.get(refresh_token) : undefined;
+  const sessionId = claims?.sid || rec?.sessionId;
+  if (sessionId) revokeSession(sessionId);
+  else if (refresh_token) refreshStore.delete(refresh_token);
   res.json({ status:'success', detail:'Logged out' });
 };
 
 export const handleMe: RequestHandler = (req, res) => {
   try {
-    const auth = req.headers['authorization'] || '';
-    const token = Array.isArray(auth) ? auth[0] : auth;
-    let accessToken = '';
-    if (token && token.toLowerCase().startsWith('bearer ')) accessToken = token.slice(7);
-
-    // Support test tokens in dev
-    if (testTokensEnabled() && accessToken === 'TEST_ACCESS') {
-      const u = mockUsers[0];
-      return res.json({ id: u.id, email: u.email, role: u.role, access_token: 'TEST_ACCESS' });
-    }
-
-    let user = mockUsers[0];
-    const decoded = accessToken ? decode_token(accessToken) : null;
-    if (decoded) {
-      const found = mockUsers.find(u => u.id === decoded.userId);
-      if (found) user = found;
-    }
+    const user = req.user || resolveUser(bearerToken(req));
+    if (!user) return res.status(401).json({ status:'error', code:401, detail:'Not authenticated' });
     // Normalize founder to admin
     const role = user.role === 'founder' ? 'admin' : user.role;
-    res.json({ id: user.id, email: user.email, role, access_token: accessToken || create_access_token(user.id) });
+    res.json({ id: user.id, email: user.email, role, access_token: bearerToken(req) });
   } catch (e) {
     res.status(500).json({ status:'error', code:500, detail:'Failed to resolve user' });
   }
 };
 
+export function resolveUser(accessToken: string): AuthUser | null {
+  if (!accessToken) return null;
+  // Support test tokens in dev
+  if (testTokensEnabled() && accessToken === 'TEST_ACCESS') {
+    const u = mockUsers[0];
+    return u ? { id: u.id, email: u.email, role: u.role, sessionId: 'test' } : null;
+  }
+  const claims = decode_token(accessToken);
+  if (!claims) return null;
+  const found = mockUsers.find(u => u.id === claims.sub);
+  if (!found) return null;
+  return { id: found.id, email: found.email, role: found.role, sessionId: claims.sid };
+}
+
+// Populates req.user from a Bearer token. A missing token passes through
+// (requireAuth decides), but a token that is present and invalid is a 401.
+export const authenticate: RequestHandler = (req, res, next) => {
+  const token = bearerToken(req);
+  if (!token) return next();
+  const user = resolveUser(token);
+  if (!user) return res.status(401).json({ status:'error', code:401, detail:'Invalid or expired token' });
+  req.user = user;
+  next();
+};
+
+// Paths (relative to /api, with any /v1 prefix removed) reachable without a session
+const PUBLIC_API_PATHS: RegExp[] = [
+  /^\/auth\/(login|refresh|logout|reset\/request|reset\/confirm)$/,
+  /^\/founders\/bootstrap-status$/,
+  /^\/(system\/)?health(\/|$)/,
+  /^\/metrics$/,
+  /^\/ping$/,
+  /^\/openapi\.json$/,
+];
+
+export function isPublicApiPath(path: string) {
+  const p = path.replace(/^\/v1(?=\/)/, '');
+  return PUBLIC_API_PATHS.some(rx => rx.test(p));
+}
+
+// Mounted on /api: every non-public route needs an authenticated caller.
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.method === 'OPTIONS' || req.user || isPublicApiPath(req.path)) return next();
+  res.status(401).json({ status:'error', code:401, detail:'Authentication required' });
+};
+
+export function requireRole(...roles: Role[]): RequestHandler {
+  return (req, res, next) => {
+    if (req.method === 'OPTIONS' || isPublicApiPath(req.baseUrl.replace(/^\/api/, '') + req.path)) return next();
+    if (!req.user) return res.status(401).json({ status:'error', code:401, detail:'Authentication required' });
+    if (!roles.includes(req.user.role)) return res.status(403).json({ status:'error', code:403, detail:`Requires role: ${roles.join(' or ')}` });
+    next();
+  };
+}
+
 // Password reset stubs (delegate to supabase in real impl)
 export const handleResetRequest: RequestHandler = (req, res) => {
   const { email } = req.body || {};
@@ -72,7 +72,11 @@ function sampleCompliance(): ComplianceLog[] {
   return out;
 }
 
+export function listComplianceLogs(): ComplianceLog[] {
+  return sampleCompliance();
+}
+
 export function handleGetComplianceLogs(_req: Request, res: Response) {
-  const items = sampleCompliance();
+  const items = listComplianceLogs();
   res.json({ status: "success", data: items });
 }
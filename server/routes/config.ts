@@ -1,4 +1,7 @@
 import { Request, Response } from 'express';
+import { createProposal, governanceErrorStatus, registerProposalExecutor } from './governance';
+import { GovernanceValidationError } from '../governance/engine';
+import { recordAudit } from './audit';
 
 // Mock configuration data - in production this would be from database/config files
 interface RuntimeConfig {
@@ -16,11 +19,15 @@ interface UserSettings {
   };
 }
 
-// In-memory storage (replace with actual persistence in production)
-let runtimeConfig: RuntimeConfig = {
+// Defaults restored by a reload
+const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
   'trading.max_position_size': 100000,
   'trading.risk_limit_percent': 2.5,
   'trading.stop_loss_percent': 1.0,
+  // Pre-trade limits (see server/risk/pretrade.ts)
+  'trading.max_order_notional': 50000,
+  'trading.max_concentration_percent': 40,
+  'trading.price_band_percent': 5,
   'api.rate_limit_per_minute': 1000,
   'system.maintenance_mode': false,
   'logging.level': 'info',
@@ -31,6 +38,9 @@ let runtimeConfig: RuntimeConfig = {
   'dvc.registry_url': ''
 };
 
+// In-memory storage (replace with actual persistence in production)
+let runtimeConfig: RuntimeConfig = { ...DEFAULT_RUNTIME_CONFIG };
+
 let systemConfig: SystemConfig = {
   database: {
     host: 'localhost',
@@ -147,6 +157,44 @@ function filterSensitiveKeys(config: any): any {
   return filtered;
 }
 
+/** Current runtime values, for modules that enforce them */
+export function getRuntimeConfig(): Readonly<RuntimeConfig> {
+  return runtimeConfig;
+}
+
+// Runtime changes voted through governance (config_change proposals)
+registerProposalExecutor<{ changes: RuntimeConfig }>('config_change', {
+  validate: (payload) => {
+    const changes = payload?.changes;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw new GovernanceValidationError('payload.changes must be an object of runtime config keys');
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new GovernanceValidationError('payload.changes must change at least one key');
+    }
+    const unknownKeys = Object.keys(changes).filter((key) => !(key in DEFAULT_RUNTIME_CONFIG));
+    if (unknownKeys.length) {
+      throw new GovernanceValidationError(`Unknown configuration keys: ${unknownKeys.join(', ')}`);
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      if (typeof value !== typeof DEFAULT_RUNTIME_CONFIG[key]) {
+        throw new GovernanceValidationError(`${key} must be a ${typeof DEFAULT_RUNTIME_CONFIG[key]}`);
+      }
+    }
+  },
+  diff: ({ changes }) =>
+    Object.entries(changes).map(([key, value]) => ({ path: key, before: runtimeConfig[key], after: value })),
+  snapshot: ({ changes }) => Object.fromEntries(Object.keys(changes).map((key) => [key, runtimeConfig[key]])),
+  restore: (snapshot: RuntimeConfig) => {
+    runtimeConfig = { ...runtimeConfig, ...snapshot };
+  },
+  apply: ({ changes }, proposal) => {
+    runtimeConfig = { ...runtimeConfig, ...changes };
+    console.log(`Runtime config updated by proposal ${proposal.id}:`, changes);
+    return { applied: filterSensitiveKeys(changes) };
+  }
+});
+
 // Get runtime configuration (non-sensitive keys only)
 export function handleGetRuntimeConfig(_req: Request, res: Response) {
   const filteredConfig = filterSensitiveKeys(runtimeConfig);
@@ -157,9 +205,34 @@ export function handleGetRuntimeConfig(_req: Request, res: Response) {
   });
 }
 
-// Update runtime configuration
+// Runtime values gate pre-trade limits, so a change is only proposed here;
+// it is applied once founders approve the config_change proposal
+function proposeRuntimeChanges(req: Request, res: Response, changes: RuntimeConfig, description: string) {
+  try {
+    const proposal = createProposal<{ changes: RuntimeConfig }>({
+      kind: 'config_change',
+      description,
+      payload: { changes },
+      createdBy: req.user?.email || 'unknown'
+    });
+    return res.status(202).json({
+      status: 'success',
+      message: 'Configuration change proposed; it is applied once founders approve',
+      data: { proposal }
+    });
+  } catch (error) {
+    const code = governanceErrorStatus(error);
+    if (code === 500) console.error('Runtime config proposal error:', error);
+    return res.status(code).json({
+      status: 'error',
+      message: code === 500 ? 'Failed to propose configuration change' : (error as Error).message
+    });
+  }
+}
+
+// Propose a runtime configuration update (changed keys only)
 export function handleUpdateRuntimeConfig(req: Request, res: Response) {
-  const { config, actor } = req.body;
+  const { config } = req.body || {};
 
   if (!config || typeof config !== 'object') {
     return res.status(400).json({
@@ -186,18 +259,10 @@ export function handleUpdateRuntimeConfig(req: Request, res: Response) {
     });
   }
 
-  // Update configuration
-  for (const [key, value] of Object.entries(config)) {
-    runtimeConfig[key] = value;
-  }
-
-  console.log(`Runtime config updated by ${actor || 'Unknown'}:`, config);
-
-  res.json({
-    status: 'success',
-    message: 'Runtime configuration updated successfully',
-    data: filterSensitiveKeys(runtimeConfig)
-  });
+  const changes: RuntimeConfig = Object.fromEntries(
+    Object.entries(config as RuntimeConfig).filter(([key, value]) => runtimeConfig[key] !== value)
+  );
+  return proposeRuntimeChanges(req, res, changes, `Update runtime config: ${Object.keys(changes).join(', ')}`);
 }
 
 // Get system configuration
@@ -236,9 +301,17 @@ export function handleUpdateSystemConfig(req: Request, res: Response) {
     return result;
   }
 
+  const before = filterSensitiveKeys(systemConfig);
   systemConfig = deepMerge(systemConfig, config);
 
   console.log(`System config updated by ${actor || 'Unknown'}:`, config);
+  recordAudit({
+    action: 'SYSTEM_CONFIG_UPDATE',
+    target: 'system_config',
+    before,
+    after: filterSensitiveKeys(systemConfig),
+    meta: { claimedActor: actor }
+  }, req);
 
   res.json({
     status: 'success',
@@ -306,6 +379,7 @@ export function handleResetSystemConfig(req: Request, res: Response) {
   };
 
   console.log(`System config reset to defaults by ${actor || 'Unknown'}`);
+  recordAudit({ action: 'SYSTEM_CONFIG_RESET', target: 'system_config', after: filterSensitiveKeys(systemConfig), meta: { claimedActor: actor } }, req);
 
   res.json({
     status: 'success',
@@ -322,38 +396,19 @@ export function handleGetUserSettings(_req: Request, res: Response) {
   });
 }
 
-// Reload configuration
+// Reload configuration: propose restoring the defaults of every changed key
 export function handleReloadConfig(req: Request, res: Response) {
-  const { actor } = req.body;
-
-  // Simulate configuration reload - in production this would reload from files/database
-  try {
-    // Reset to fresh values
-    runtimeConfig = {
-      'trading.max_position_size': 100000,
-      'trading.risk_limit_percent': 2.5,
-      'trading.stop_loss_percent': 1.0,
-      'api.rate_limit_per_minute': 1000,
-      'system.maintenance_mode': false,
-      'logging.level': 'info',
-      'monitoring.alert_threshold': 95,
-      'cache.ttl_seconds': 300
-    };
-
-    console.log(`Configuration reloaded by ${actor || 'Unknown'}`);
-
-    res.json({
+  const changes: RuntimeConfig = Object.fromEntries(
+    Object.entries(DEFAULT_RUNTIME_CONFIG).filter(([key, value]) => runtimeConfig[key] !== value)
+  );
+  if (Object.keys(changes).length === 0) {
+    return res.json({
       status: 'success',
-      message: 'Configuration reloaded successfully',
+      message: 'Configuration already matches the defaults',
       data: filterSensitiveKeys(runtimeConfig)
     });
-  } catch (error) {
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to reload configuration',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
   }
+  return proposeRuntimeChanges(req, res, changes, `Reload runtime config defaults: ${Object.keys(changes).join(', ')}`);
 }
 
 // Get effective configuration (runtime + derived data)
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { handleLogin, handleLogout } from "./auth";
+
+vi.stubEnv("EVENTS_WS_HEARTBEAT_MS", "50");
+const { attachEventsWebSocket, publishTradeEvent } = await import("./events");
+
+const servers: http.Server[] = [];
+
+async function startServer() {
+  const server = http.createServer();
+  attachEventsWebSocket(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  servers.push(server);
+  return (server.address() as AddressInfo).port;
+}
+
+// Runs an auth handler outside Express and resolves with its JSON body
+function callAuth(handler: typeof handleLogin, req: object) {
+  return new Promise<any>((resolve) => {
+    const res = { status: () => res, setHeader: () => {}, json: resolve };
+    handler(
+      { headers: {}, body: {}, ip: "127.0.0.1", ...req } as any,
+      res as any,
+      () => {},
+    );
+  });
+}
+
+// Resolves with the first message matching `match`
+function nextMessage(ws: WebSocket, match: (msg: any) => boolean) {
+  return new Promise<any>((resolve, reject) => {
+    ws.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      if (match(msg)) resolve(msg);
+    });
+    ws.on("error", reject);
+  });
+}
+
+beforeAll(() => {
+  process.env.ENABLE_TEST_TOKENS = "true";
+});
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map((s) => new Promise((r) => s.close(r))),
+  );
+});
+
+describe("events feed", () => {
+  it("pushes a published trade to connected sockets", async () => {
+    const port = await startServer();
+    const ws = new WebSocket(
+      `ws://127.0.0.1:${port}/api/v1/events/trades?symbol=SOL`,
+      ["bearer", "TEST_ACCESS"],
+    );
+    await nextMessage(ws, (m) => m.type === "subscribed");
+
+    const arrived = nextMessage(ws, (m) => m.type === "trade");
+    publishTradeEvent({ symbol: "ETH/USDT", side: "BUY", size: 1, price: 2 });
+    const trade = publishTradeEvent({
+      symbol: "SOL/USDT",
+      side: "SELL",
+      size: 0.25,
+      price: 101.5,
+      pnl_usd: 3.2,
+    });
+    const msg = await arrived;
+    expect(msg.cursor).toBe(trade.id);
+    expect(msg.payload).toMatchObject({
+      id: trade.id,
+      symbol: "SOL/USDT",
+      side: "SELL",
+      size: 0.25,
+      pnl_usd: 3.2,
+    });
+    ws.terminate();
+  });
+
+  it("rejects upgrades without a valid access token", async () => {
+    const port = await startServer();
+    for (const protocols of [undefined, ["bearer", "not-a-token"]]) {
+      const ws = new WebSocket(
+        `ws://127.0.0.1:${port}/api/v1/events/balances`,
+        protocols,
+      );
+      await expect(
+        new Promise((resolve, reject) => {
+          ws.on("open", resolve);
+          ws.on("error", reject);
+        }),
+      ).rejects.toThrow(/401/);
+    }
+  });
+
+  it("closes sockets whose session was revoked", async () => {
+    const port = await startServer();
+    const { access_token } = await callAuth(handleLogin, {
+      body: { email: "user@projectaether.com", password: "user123" },
+    });
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/api/v1/events/trades`, [
+      "bearer",
+      access_token,
+    ]);
+    await nextMessage(ws, (m) => m.type === "subscribed");
+    const closed = new Promise<number>((resolve) =>
+      ws.on("close", (code) => resolve(code)),
+    );
+    await callAuth(handleLogout, {
+      headers: { authorization: `Bearer ${access_token}` },
+    });
+    expect(await closed).toBe(4401);
+  });
+});
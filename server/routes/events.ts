@@ -1,4 +1,10 @@
 import type { Request, Response } from "express";
+import type { IncomingMessage, Server } from "http";
+import type { Http2SecureServer } from "http2";
+import type { Duplex } from "stream";
+import { EventEmitter } from "events";
+import { WebSocketServer, WebSocket } from "ws";
+import { resolveUser } from "./auth";
 
 let trades = Array.from({ length: 125 }).map((_, i) => ({
   id: `trade_${i + 1}`,
@@ -28,7 +34,7 @@ let balances = Array.from({ length: 60 }).map((_, i) => ({
 
 // Alerts model and seed data
 export type AlertSeverity = "info" | "warning" | "error" | "critical";
-interface AlertItem {
+export interface AlertItem {
   id: string;
   timestamp: string;
   severity: AlertSeverity;
@@ -58,6 +64,14 @@ let alerts: AlertItem[] = Array.from({ length: 40 }).map((_, i) => ({
   },
 }));
 
+export type TradeEvent = (typeof trades)[number];
+type BalanceEvent = (typeof balances)[number];
+
+// Snapshot of the trade log for server-side consumers (e.g. report generation)
+export function listTradeEvents(): TradeEvent[] {
+  return trades.map((t) => ({ ...t }));
+}
+
 let tradesVersion = Date.now();
 let balancesVersion = Date.now();
 let alertsVersion = Date.now();
@@ -178,6 +192,15 @@ export function handleEventsAlertsStream(req: Request, res: Response) {
     res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
   } catch {}
 
+  const send = (item: AlertItem) => {
+    try {
+      res.write(`event: alert\n`);
+      res.write(`data: ${JSON.stringify(item)}\n\n`);
+    } catch {}
+  };
+  // Alerts raised by server modules (e.g. risk breaches)
+  feed.on("alerts", send);
+
   // Periodically emit a new alert
   const interval = setInterval(() => {
     const idx = Math.floor(Math.random() * SEVERITIES.length);
@@ -207,16 +230,388 @@ export function handleEventsAlertsStream(req: Request, res: Response) {
     };
     alerts.unshift(item);
     alertsVersion = Date.now();
-    try {
-      res.write(`event: alert\n`);
-      res.write(`data: ${JSON.stringify(item)}\n\n`);
-    } catch {}
+    send(item);
   }, 3000);
 
   req.on("close", () => {
     clearInterval(interval);
+    feed.off("alerts", send);
     try {
       res.end();
     } catch {}
   });
 }
+
+// Live trade/balance feed over WebSocket.
+// Clients connect to /api/v1/events/{trades,balances} (or the unversioned
+// path), optionally with ?symbol=&status=&cursor= in the query string, and
+// receive `{ type: "trade" | "balance", payload, cursor }` envelopes whose
+// payload has the same shape as the REST items. A `subscribe` message can
+// change filters and resume from the last seen cursor after a reconnect.
+type FeedChannel = "trades" | "balances";
+
+interface FeedFilters {
+  symbol?: string;
+  status?: string;
+}
+
+interface FeedClient {
+  ws: WebSocket;
+  channel: FeedChannel;
+  filters: FeedFilters;
+  alive: boolean;
+  /** Access token the socket was opened with, re-checked every heartbeat */
+  token: string;
+}
+
+const FEED_PATHS: Record<string, FeedChannel> = {
+  "/api/events/trades": "trades",
+  "/api/v1/events/trades": "trades",
+  "/api/events/balances": "balances",
+  "/api/v1/events/balances": "balances",
+};
+const HEARTBEAT_MS = Number(process.env.EVENTS_WS_HEARTBEAT_MS) || 15_000;
+const REPLAY_LIMIT = 100;
+const SIM_INTERVAL_MS = Number(process.env.EVENTS_WS_SIM_INTERVAL_MS) || 4000;
+
+// Simulated fills land in the same trade log that reports, risk and the
+// assistant read, so they are only generated for demos that opt in
+function simulationEnabled() {
+  return String(process.env.EVENTS_WS_SIMULATE || "").toLowerCase() === "true";
+}
+
+const feed = new EventEmitter();
+feed.setMaxListeners(0);
+const feedClients = new Set<FeedClient>();
+const attachedServers = new WeakSet<Server | Http2SecureServer>();
+let tradeSeq = trades.length;
+let balanceSeq = balances.length;
+let simTimer: NodeJS.Timeout | null = null;
+
+export function publishTradeEvent(
+  input: Partial<TradeEvent> &
+    Pick<TradeEvent, "symbol" | "side" | "size" | "price">,
+): TradeEvent {
+  const id = `trade_${++tradeSeq}`;
+  const item: TradeEvent = {
+    id,
+    decision_id: input.decision_id || `dec_${tradeSeq}`,
+    timestamp: input.timestamp || new Date().toISOString(),
+    symbol: input.symbol,
+    side: input.side,
+    size: input.size,
+    price: input.price,
+    pnl_usd: input.pnl_usd ?? 0,
+    status: input.status || "filled",
+    executor: input.executor || "system",
+    request_id: input.request_id || `req_${tradeSeq}`,
+    hmac_verified: input.hmac_verified ?? true,
+  };
+  trades.unshift(item);
+  tradesVersion = Date.now();
+  feed.emit("trades", item);
+  return item;
+}
+
+export function publishBalanceEvent(
+  input: Partial<BalanceEvent> &
+    Pick<BalanceEvent, "account" | "symbol" | "delta" | "reason">,
+): BalanceEvent {
+  const id = `bal_${++balanceSeq}`;
+  const item: BalanceEvent = {
+    id,
+    timestamp: input.timestamp || new Date().toISOString(),
+    account: input.account,
+    symbol: input.symbol,
+    delta: input.delta,
+    reason: input.reason,
+    request_id: input.request_id || `bal_req_${balanceSeq}`,
+    hmac_verified: input.hmac_verified ?? true,
+  };
+  balances.unshift(item);
+  balancesVersion = Date.now();
+  feed.emit("balances", item);
+  return item;
+}
+
+// Records an alert and pushes it to every open alerts stream
+export function publishAlert(
+  input: Omit<AlertItem, "id" | "timestamp"> & {
+    id?: string;
+    timestamp?: string;
+  },
+): AlertItem {
+  const item: AlertItem = {
+    ...input,
+    id: input.id || `alert_${Date.now()}_${alerts.length}`,
+    timestamp: input.timestamp || new Date().toISOString(),
+  };
+  alerts.unshift(item);
+  alertsVersion = Date.now();
+  feed.emit("alerts", item);
+  return item;
+}
+
+function matchesFeedFilters(
+  item: { symbol: string; status?: string },
+  filters: FeedFilters,
+) {
+  if (filters.symbol && !item.symbol.includes(filters.symbol)) return false;
+  if (
+    filters.status &&
+    item.status !== undefined &&
+    item.status !== filters.status
+  )
+    return false;
+  return true;
+}
+
+function parseFeedFilters(raw: Record<string, unknown> | undefined) {
+  const filters: FeedFilters = {};
+  if (!raw) return filters;
+  if (typeof raw.symbol === "string" && raw.symbol.trim())
+    filters.symbol = raw.symbol.trim().toUpperCase();
+  if (typeof raw.status === "string" && raw.status.trim())
+    filters.status = raw.status.trim();
+  return filters;
+}
+
+function sendFeed(client: FeedClient, message: Record<string, unknown>) {
+  if (client.ws.readyState !== WebSocket.OPEN) return;
+  try {
+    client.ws.send(JSON.stringify(message));
+  } catch {}
+}
+
+function sendFeedItem(client: FeedClient, item: TradeEvent | BalanceEvent) {
+  sendFeed(client, {
+    type: client.channel === "trades" ? "trade" : "balance",
+    payload: item,
+    cursor: item.id,
+  });
+}
+
+function feedSource(channel: FeedChannel): Array<TradeEvent | BalanceEvent> {
+  return channel === "trades" ? trades : balances;
+}
+
+// Replays everything newer than `cursor` (oldest first). Both stores are kept
+// newest-first, so the events after the cursor are the ones before its index.
+function replayFromCursor(client: FeedClient, cursor: string) {
+  const source = feedSource(client.channel);
+  const idx = source.findIndex((i) => i.id === cursor);
+  if (idx < 0) {
+    sendFeed(client, { type: "resync", reason: "unknown_cursor", cursor });
+    return;
+  }
+  const missed = source
+    .slice(0, idx)
+    .filter((i) => matchesFeedFilters(i, client.filters))
+    .reverse();
+  const truncated = missed.length > REPLAY_LIMIT;
+  for (const item of missed.slice(-REPLAY_LIMIT)) sendFeedItem(client, item);
+  sendFeed(client, {
+    type: "replay_complete",
+    count: missed.length,
+    truncated,
+  });
+}
+
+function subscribeFeed(
+  client: FeedClient,
+  filters: FeedFilters,
+  cursor?: string,
+) {
+  client.filters = filters;
+  const latest = feedSource(client.channel).find((i) =>
+    matchesFeedFilters(i, filters),
+  );
+  sendFeed(client, {
+    type: "subscribed",
+    channel: client.channel,
+    filters,
+    cursor: latest?.id ?? null,
+    heartbeat_ms: HEARTBEAT_MS,
+  });
+  if (cursor) replayFromCursor(client, cursor);
+}
+
+function handleFeedMessage(client: FeedClient, raw: string) {
+  let msg: any;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    sendFeed(client, { type: "error", message: "Invalid JSON message" });
+    return;
+  }
+  switch (msg?.type) {
+    case "subscribe":
+      subscribeFeed(
+        client,
+        parseFeedFilters(msg.filters),
+        typeof msg.cursor === "string" ? msg.cursor : undefined,
+      );
+      break;
+    case "ping":
+      sendFeed(client, { type: "pong", ts: new Date().toISOString() });
+      break;
+    default:
+      sendFeed(client, {
+        type: "error",
+        message: `Unsupported message type: ${String(msg?.type)}`,
+      });
+  }
+}
+
+// Simulated market activity so connected desks see fills arrive; only runs
+// with EVENTS_WS_SIMULATE=true and while at least one feed client is connected.
+function simulateFeedTick() {
+  const symbol = ["BTC/USDT", "ETH/USDT", "SOL/USDT"][
+    Math.floor(Math.random() * 3)
+  ];
+  const trade = publishTradeEvent({
+    symbol,
+    side: Math.random() > 0.5 ? "BUY" : "SELL",
+    size: +(Math.random() * 0.5 + 0.1).toFixed(3),
+    price: +(30000 + Math.random() * 5000).toFixed(2),
+    pnl_usd: +((Math.random() - 0.5) * 200).toFixed(2),
+    status: Math.random() > 0.2 ? "filled" : "pending",
+  });
+  if (trade.status === "filled") {
+    publishBalanceEvent({
+      account: `acct_${Math.floor(Math.random() * 3) + 1}`,
+      symbol: "USDT",
+      delta:
+        +(trade.side === "BUY" ? -1 : 1) *
+        +(trade.size * trade.price).toFixed(2),
+      reason: "trade_fill",
+      request_id: trade.request_id,
+    });
+  }
+}
+
+function updateFeedSimulation() {
+  if (feedClients.size > 0 && !simTimer && simulationEnabled()) {
+    simTimer = setInterval(simulateFeedTick, SIM_INTERVAL_MS);
+    simTimer.unref?.();
+  } else if (feedClients.size === 0 && simTimer) {
+    clearInterval(simTimer);
+    simTimer = null;
+  }
+}
+
+function onFeedConnection(
+  ws: WebSocket,
+  channel: FeedChannel,
+  params: URLSearchParams,
+  token: string,
+) {
+  const client: FeedClient = { ws, channel, filters: {}, alive: true, token };
+  feedClients.add(client);
+  const listener = (item: TradeEvent | BalanceEvent) => {
+    if (matchesFeedFilters(item, client.filters)) sendFeedItem(client, item);
+  };
+  feed.on(channel, listener);
+  ws.on("pong", () => {
+    client.alive = true;
+  });
+  ws.on("message", (data) => {
+    client.alive = true;
+    handleFeedMessage(client, data.toString());
+  });
+  ws.on("close", () => {
+    feed.off(channel, listener);
+    feedClients.delete(client);
+    updateFeedSimulation();
+  });
+  ws.on("error", () => {});
+
+  subscribeFeed(
+    client,
+    parseFeedFilters({
+      symbol: params.get("symbol") ?? undefined,
+      status: params.get("status") ?? undefined,
+    }),
+    params.get("cursor") || undefined,
+  );
+  updateFeedSimulation();
+}
+
+// Upgrades bypass the Express middleware, so the access token is checked
+// here. Browsers cannot set headers on a WebSocket: they send the token as a
+// `bearer, <token>` subprotocol pair (or ?access_token=); other clients may
+// use an Authorization header.
+function upgradeToken(req: IncomingMessage, params: URLSearchParams) {
+  const protocols = String(req.headers["sec-websocket-protocol"] || "")
+    .split(",")
+    .map((p) => p.trim());
+  const i = protocols.indexOf("bearer");
+  if (i >= 0 && protocols[i + 1]) return protocols[i + 1];
+  const auth = String(req.headers.authorization || "");
+  if (auth.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return params.get("access_token") || "";
+}
+
+function rejectUpgrade(socket: Duplex) {
+  socket.write(
+    "HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n",
+  );
+  socket.destroy();
+}
+
+export function attachEventsWebSocket(server: Server | Http2SecureServer) {
+  if (attachedServers.has(server)) return;
+  attachedServers.add(server);
+  // Only ever echo the "bearer" marker, never the token that follows it
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) =>
+      protocols.has("bearer") ? "bearer" : false,
+  });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname, searchParams } = new URL(
+      req.url || "/",
+      "http://localhost",
+    );
+    const channel = FEED_PATHS[pathname];
+    // Leave unrelated upgrades (e.g. the Vite HMR socket) to other handlers
+    if (!channel) return;
+    const token = upgradeToken(req, searchParams);
+    if (!resolveUser(token)) {
+      rejectUpgrade(socket);
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) =>
+      onFeedConnection(ws, channel, searchParams, token),
+    );
+  });
+
+  // Drop clients that stop answering pings; JSON heartbeats let browser
+  // clients (which cannot see ping frames) detect a stalled connection.
+  // Sockets whose session was revoked or expired are closed with 4401.
+  const heartbeat = setInterval(() => {
+    const ts = new Date().toISOString();
+    for (const client of feedClients) {
+      if (!client.alive) {
+        client.ws.terminate();
+        continue;
+      }
+      if (!resolveUser(client.token)) {
+        client.ws.close(4401, "session expired or revoked");
+        continue;
+      }
+      client.alive = false;
+      try {
+        client.ws.ping();
+      } catch {}
+      sendFeed(client, { type: "heartbeat", ts });
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref?.();
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
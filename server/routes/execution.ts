@@ -1,130 +1,47 @@
 import type { Request, Response } from "express";
 
-interface OBPoint {
-  t?: string;
-  time?: string;
-  price: number;
-  volume?: number;
-  size?: number;
-}
-
-function parseOrderBook(
-  arr: any[],
-): { t: string; price: number; volume: number }[] {
-  const out: { t: string; price: number; volume: number }[] = [];
-  for (const r of arr || []) {
-    const price = Number(r && (r.price ?? r.p));
-    const volume = Number(r && (r.volume ?? r.size ?? r.v));
-    const t = String((r && (r.t || r.time)) || new Date().toISOString());
-    if (Number.isFinite(price) && price > 0) {
-      out.push({
-        t,
-        price,
-        volume: Number.isFinite(volume) && volume > 0 ? volume : 1,
-      });
-    }
-  }
-  return out;
-}
+import { OrderBookError, parseSnapshots } from "../execution/book";
+import {
+  EXECUTION_METHODS,
+  ExecutionValidationError,
+  normalizeExecutionParams,
+  simulateExecution,
+} from "../execution/simulator";
 
+// POST /execution/simulate
+// Body: { method, side, quantity, slices, orderBook, ...algorithm params,
+//         impact?, synthesis?, compare? }
+// `compare` (true or a list of methods) re-runs the same order with each
+// method on the same books and adds a summary row per method.
 export function handleExecutionSimulate(req: Request, res: Response) {
   try {
-    const {
-      method = "TWAP",
-      side = "buy",
-      quantity,
-      slices = 10,
-      orderBook,
-    } = req.body || {};
-    const qty = Number(quantity);
-    const nSlices = Math.max(1, Math.min(1000, Number(slices) || 10));
-    if (!Number.isFinite(qty) || qty <= 0)
-      return res
-        .status(422)
-        .json({ status: "error", message: "quantity must be > 0" });
-    const ob = parseOrderBook(Array.isArray(orderBook) ? orderBook : []);
-    if (ob.length === 0)
-      return res
-        .status(422)
-        .json({
-          status: "error",
-          message: "orderBook array required (price, volume, t)",
-        });
-
-    const isBuy = String(side).toLowerCase() !== "sell";
-    const m = String(method).toUpperCase();
-
-    // Determine allocation per slice
-    const points = ob.slice(0, Math.max(nSlices, ob.length));
-    let alloc: number[] = [];
-
-    if (m === "VWAP") {
-      const volSum = points.reduce((s, p) => s + (p.volume || 1), 0) || 1;
-      alloc = points.map((p) => (qty * (p.volume || 1)) / volSum);
-    } else if (m === "MARKET") {
-      alloc = [qty];
-    } else {
-      // TWAP default
-      const base = Math.floor((qty / nSlices) * 1e8) / 1e8;
-      alloc = Array.from(
-        { length: Math.min(nSlices, points.length) },
-        () => base,
-      );
-      // distribute remainder to first slice
-      const sum = alloc.reduce((a, b) => a + b, 0);
-      if (qty - sum > 0) alloc[0] += qty - sum;
-    }
+    const body = req.body || {};
+    const params = normalizeExecutionParams(body);
+    const snapshots = parseSnapshots(
+      Array.isArray(body.orderBook) ? body.orderBook : [],
+      body.synthesis || {},
+    );
+    const data: any = simulateExecution(params, snapshots);
 
-    const execRows: Array<{
-      t: string;
-      qty: number;
-      price: number;
-      cost: number;
-      cumCost: number;
-    }> = [];
-    let cum = 0;
-    let i = 0;
-    for (const a of alloc) {
-      const p =
-        points[Math.min(i, points.length - 1)] || points[points.length - 1];
-      const px = p.price;
-      const cost = (isBuy ? 1 : -1) * a * px;
-      cum += cost;
-      execRows.push({ t: p.t, qty: a, price: px, cost, cumCost: cum });
-      i++;
-      if (m === "MARKET") break;
+    if (body.compare) {
+      const methods = Array.isArray(body.compare)
+        ? body.compare.map((m: unknown) => String(m).toUpperCase())
+        : EXECUTION_METHODS;
+      data.comparison = methods
+        .filter((m: string) => (EXECUTION_METHODS as string[]).includes(m))
+        .map((m: string) => {
+          const r =
+            m === params.method
+              ? data
+              : simulateExecution({ ...params, method: m as any }, snapshots);
+          return { method: m, ...r.summary };
+        });
     }
-
-    const totalQty = execRows.reduce((s, r) => s + r.qty, 0) * (isBuy ? 1 : -1);
-    const totalCost = execRows.reduce((s, r) => s + r.cost, 0);
-    const avgPx =
-      Math.abs(totalQty) > 0 ? Math.abs(totalCost) / Math.abs(totalQty) : 0;
-    const benchPx = ob.reduce((s, p) => s + p.price, 0) / ob.length;
-    const slippageBps =
-      benchPx > 0
-        ? ((isBuy ? avgPx - benchPx : benchPx - avgPx) / benchPx) * 10000
-        : 0;
-
-    const chart = execRows.map((r) => ({ t: r.t, cumCost: r.cumCost }));
-
-    return res.json({
-      status: "success",
-      data: {
-        method: m,
-        side: isBuy ? "buy" : "sell",
-        quantity: qty,
-        summary: {
-          totalQty,
-          totalCost,
-          avgPrice: avgPx,
-          benchmarkPrice: benchPx,
-          slippageBps,
-        },
-        perSlice: execRows,
-        chart,
-      },
-    });
+    return res.json({ status: "success", data });
   } catch (e: any) {
+    if (e instanceof ExecutionValidationError || e instanceof OrderBookError) {
+      return res.status(422).json({ status: "error", message: e.message });
+    }
     return res
       .status(500)
       .json({ status: "error", message: e?.message || "Simulation failed" });
@@ -170,11 +87,9 @@ export function handleExecutionLatency(req: Request, res: Response) {
       },
     });
   } catch (e: any) {
-    return res
-      .status(500)
-      .json({
-        status: "error",
-        message: e?.message || "Failed to compute latency",
-      });
+    return res.status(500).json({
+      status: "error",
+      message: e?.message || "Failed to compute latency",
+    });
   }
 }
@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Request, Response } from "express";
+import {
+  handleAggregateFederatedRound,
+  handleGetFederatedRound,
+  handleOpenFederatedRound,
+  handleRegisterFederatedNode,
+  handleSubmitFederatedUpdate,
+} from "./federated";
+
+// Runs a handler outside Express and returns what it sent
+function call(
+  handler: (req: Request, res: Response) => unknown,
+  req: { params?: Record<string, string>; body?: unknown },
+) {
+  const sent = { status: 200, body: undefined as any };
+  const res = {
+    status: (code: number) => ((sent.status = code), res),
+    json: (body: unknown) => ((sent.body = body), res),
+  };
+  handler({ params: {}, body: {}, ...req } as Request, res as any);
+  return sent;
+}
+
+function register(id: string, epsilonBudget: number) {
+  return call(handleRegisterFederatedNode, {
+    body: { id, dataCount: 100, epsilonBudget },
+  });
+}
+
+function openRound() {
+  const opened = call(handleOpenFederatedRound, {
+    body: { minParticipants: 2, epsilon: 0.5 },
+  });
+  expect(opened.status).toBe(201);
+  return String(opened.body.data.round);
+}
+
+function submit(round: string, nodeId: string, update: object) {
+  return call(handleSubmitFederatedUpdate, {
+    params: { round },
+    body: { nodeId, ...update },
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("federated rounds", () => {
+  it("averages updates by sample count and refuses exhausted budgets", () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    register("spec_a", 0.5);
+    register("spec_b", 8);
+
+    const round = openRound();
+    submit(round, "spec_a", { dataCount: 100, accuracy: 0.9, loss: 0.2 });
+    submit(round, "spec_b", { dataCount: 300, accuracy: 0.5, loss: 0.6 });
+    expect(
+      call(handleAggregateFederatedRound, { params: { round } }).status,
+    ).toBe(202);
+    vi.runAllTimers();
+
+    const closed = call(handleGetFederatedRound, { params: { round } }).body
+      .data;
+    expect(closed).toMatchObject({
+      status: "closed",
+      accuracy: 0.6,
+      loss: 0.5,
+      lineage: { contrib_count: 2, contributors: ["spec_a", "spec_b"] },
+    });
+
+    // spec_a spent its whole budget on the first round
+    const next = openRound();
+    const refused = submit(next, "spec_a", {
+      dataCount: 100,
+      accuracy: 0.9,
+      loss: 0.2,
+    });
+    expect(refused.status).toBe(403);
+    expect(refused.body.privacy.remaining.epsilon).toBe(0);
+    expect(
+      submit(next, "spec_b", { dataCount: 300, accuracy: 0.5, loss: 0.6 })
+        .status,
+    ).toBe(200);
+  });
+});
@@ -1,62 +1,592 @@
 import { Request, Response } from "express";
+import { createRepository } from "../storage/repository";
+import { retryWhenBusy } from "../storage/journal";
 
-export function handleFederatedStatus(_req: Request, res: Response) {
+// Federated round coordinator (simulation)
+//
+// Registered nodes train locally and submit metric updates for the open
+// round. A round moves open -> collecting (first update) -> aggregating ->
+// closed; aggregation is a FedAvg-style average weighted by each node's sample
+// count. Every accepted update charges the round's (epsilon, delta) to the
+// submitting node under basic sequential composition, and a node whose
+// cumulative spend would exceed its budget is refused.
+
+type RoundStatus = "open" | "collecting" | "aggregating" | "closed";
+
+interface FederatedNode {
+  id: string;
+  status: "online" | "offline";
+  dataCount: number;
+  registeredAt: string;
+  lastUpdate: string;
+  privacy: {
+    epsilonBudget: number;
+    deltaBudget: number;
+    epsilonSpent: number;
+    deltaSpent: number;
+  };
+}
+
+interface RoundUpdate {
+  nodeId: string;
+  dataCount: number;
+  accuracy: number;
+  loss: number;
+  submittedAt: string;
+}
+
+interface FederatedRound {
+  round: number;
+  status: RoundStatus;
+  minParticipants: number;
+  expectedParticipants: number;
+  epsilon: number; // privacy cost charged per participating node
+  delta: number;
+  startTime: string;
+  endTime?: string;
+  updates: RoundUpdate[];
+  accuracy?: number;
+  loss?: number;
+  lineage: {
+    dataset_hash?: string;
+    parent_version: string | null;
+    contrib_count: number;
+    contributors: string[];
+    aggregation: "FedAvg";
+  };
+}
+
+const DEFAULT_EPSILON_BUDGET = 8;
+const DEFAULT_DELTA_BUDGET = 1e-5;
+const DEFAULT_ROUND_EPSILON = 0.5;
+const DEFAULT_ROUND_DELTA = 1e-7;
+const AGGREGATION_DELAY_MS = 1500;
+const SEED_NODES = 5;
+const SEED_ROUNDS = 6;
+
+// Budget comparisons tolerate float drift from repeated additions
+const BUDGET_TOLERANCE = 1e-9;
+
+function round4(x: number) {
+  return +x.toFixed(4);
+}
+
+function datasetHash(round: number, contributors: string[]) {
+  let h = 2166136261;
+  for (const c of `${round}:${contributors.join(",")}`) {
+    h = Math.imul(h ^ c.charCodeAt(0), 16777619);
+  }
+  return `ds_${(h >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+// Weighted by sample count, as in FedAvg
+function fedAvg(updates: RoundUpdate[]) {
+  const total = updates.reduce((s, u) => s + u.dataCount, 0) || 1;
+  return {
+    accuracy: round4(
+      updates.reduce((s, u) => s + u.accuracy * u.dataCount, 0) / total,
+    ),
+    loss: round4(updates.reduce((s, u) => s + u.loss * u.dataCount, 0) / total),
+  };
+}
+
+// Closed history shared by both seeds so node spend matches the rounds
+function seedHistory() {
   const now = Date.now();
-  const currentRound = 7;
-  const totalRounds = 10;
-  const rounds = Array.from({ length: 7 }).map((_, i) => {
-    const r = i + 1;
-    const done = r < currentRound;
-    const inProg = r === currentRound;
-    const progress = done
-      ? 100
-      : inProg
-        ? Math.round(((now / 1000) % 60) * (100 / 60))
-        : 0;
-    return {
+  const nodes: FederatedNode[] = Array.from({ length: SEED_NODES }).map(
+    (_, i) => ({
+      id: `node_${i + 1}`,
+      status: "online",
+      dataCount: 1200 + i * 200,
+      registeredAt: new Date(now - 30 * 86400000).toISOString(),
+      lastUpdate: new Date(now - (i + 1) * 90000).toISOString(),
+      privacy: {
+        epsilonBudget: DEFAULT_EPSILON_BUDGET,
+        deltaBudget: DEFAULT_DELTA_BUDGET,
+        epsilonSpent: 0,
+        deltaSpent: 0,
+      },
+    }),
+  );
+  const rounds: FederatedRound[] = [];
+  for (let r = 1; r <= SEED_ROUNDS; r++) {
+    const start = now - (SEED_ROUNDS - r + 1) * 3600000;
+    const updates = nodes.map((n, j) => ({
+      nodeId: n.id,
+      dataCount: n.dataCount + r * 10,
+      accuracy: round4(0.8 + r * 0.01 + j * 0.002),
+      loss: round4(0.45 - r * 0.02 + j * 0.003),
+      submittedAt: new Date(start + (j + 1) * 60000).toISOString(),
+    }));
+    for (const n of nodes) {
+      n.privacy.epsilonSpent = round4(
+        n.privacy.epsilonSpent + DEFAULT_ROUND_EPSILON,
+      );
+      n.privacy.deltaSpent += DEFAULT_ROUND_DELTA;
+    }
+    const contributors = updates.map((u) => u.nodeId);
+    rounds.push({
       round: r,
-      totalRounds,
-      progress,
-      accuracy: +(0.8 + r * 0.01).toFixed(4),
-      loss: +(0.45 - r * 0.02).toFixed(4),
-      startTime: new Date(now - (currentRound - r) * 3600000).toISOString(),
-      endTime: done
-        ? new Date(now - (currentRound - r - 1) * 3600000).toISOString()
-        : undefined,
-      epsilon: +(1.0 + r * 0.05).toFixed(2),
-      delta: 1e-6,
+      status: "closed",
+      minParticipants: 3,
+      expectedParticipants: nodes.length,
+      epsilon: DEFAULT_ROUND_EPSILON,
+      delta: DEFAULT_ROUND_DELTA,
+      startTime: new Date(start).toISOString(),
+      endTime: new Date(start + 50 * 60000).toISOString(),
+      updates,
+      ...fedAvg(updates),
       lineage: {
-        dataset_hash: `ds_${r.toString().padStart(3, "0")}`,
-        contrib_count: 5 + r,
+        dataset_hash: datasetHash(r, contributors),
+        parent_version: r > 1 ? String(r - 1) : null,
+        contrib_count: contributors.length,
+        contributors,
         aggregation: "FedAvg",
       },
-      nodes: Array.from({ length: 5 }).map((__, j) => ({
-        id: `node_${j + 1}`,
-        status: Math.random() > 0.1 ? "online" : "offline",
-        dataCount: 1000 + j * 250 + r * 10,
-        lastUpdate: new Date(now - (j + 1) * 60000).toISOString(),
-        epsilon: +(1.0 + r * 0.05 + j * 0.01).toFixed(2),
-        delta: 1e-6,
-      })),
-    };
-  });
+    });
+  }
+  return { nodes, rounds };
+}
+
+let seeded: ReturnType<typeof seedHistory> | null = null;
+const seed = () => (seeded ||= seedHistory());
+
+const nodesRepo = createRepository<FederatedNode>("federated_nodes", {
+  seed: () => seed().nodes,
+  migrations: [
+    {
+      version: 1,
+      description: "baseline: privacy budget and spend",
+      up: (n) => ({
+        ...n,
+        privacy: {
+          epsilonBudget: DEFAULT_EPSILON_BUDGET,
+          deltaBudget: DEFAULT_DELTA_BUDGET,
+          epsilonSpent: 0,
+          deltaSpent: 0,
+          ...n.privacy,
+        },
+      }),
+    },
+  ],
+});
 
-  const payload = {
-    status: "running",
-    currentRound,
+const roundsRepo = createRepository<FederatedRound>("federated_rounds", {
+  key: (r) => String(r.round),
+  seed: () => seed().rounds,
+  migrations: [
+    {
+      version: 1,
+      description: "baseline: updates list",
+      up: (r) => ({ updates: [], ...r }),
+    },
+  ],
+});
+
+function listRounds() {
+  return roundsRepo.list().sort((a, b) => a.round - b.round);
+}
+
+function activeRound() {
+  return listRounds().find((r) => r.status !== "closed");
+}
+
+function remainingBudget(n: FederatedNode) {
+  return {
+    epsilon: round4(n.privacy.epsilonBudget - n.privacy.epsilonSpent),
+    delta: n.privacy.deltaBudget - n.privacy.deltaSpent,
+  };
+}
+
+function canAfford(n: FederatedNode, epsilon: number, delta: number) {
+  const left = remainingBudget(n);
+  return (
+    left.epsilon >= epsilon * (1 - BUDGET_TOLERANCE) &&
+    left.delta >= delta * (1 - BUDGET_TOLERANCE)
+  );
+}
+
+function nodeView(n: FederatedNode) {
+  const left = remainingBudget(n);
+  return {
+    id: n.id,
+    status: n.status,
+    dataCount: n.dataCount,
+    lastUpdate: n.lastUpdate,
+    registeredAt: n.registeredAt,
+    // Cumulative spend, as charted by the UI
+    epsilon: n.privacy.epsilonSpent,
+    delta: n.privacy.deltaSpent,
+    budget: {
+      epsilon: n.privacy.epsilonBudget,
+      delta: n.privacy.deltaBudget,
+      remainingEpsilon: left.epsilon,
+      remainingDelta: left.delta,
+      exhausted: !canAfford(n, DEFAULT_ROUND_EPSILON, DEFAULT_ROUND_DELTA),
+    },
+  };
+}
+
+function roundView(r: FederatedRound, totalRounds: number) {
+  const submitted = r.updates.length;
+  const progress =
+    r.status === "closed"
+      ? 100
+      : r.status === "aggregating"
+        ? 95
+        : Math.min(
+            90,
+            Math.round((submitted / Math.max(1, r.expectedParticipants)) * 90),
+          );
+  const nodes = new Map(nodesRepo.list().map((n) => [n.id, n]));
+  return {
+    round: r.round,
+    status: r.status,
     totalRounds,
-    globalModel: { version: "1.2.3", accuracy: 0.87, loss: 0.31 },
-    privacy: { epsilon: 1.65, delta: 1e-6 },
-    rounds,
-    nodes: Array.from({ length: 5 }).map((_, i) => ({
-      id: `node_${i + 1}`,
-      status: Math.random() > 0.1 ? "online" : "offline",
-      dataCount: 1200 + i * 200,
-      lastUpdate: new Date(now - (i + 1) * 90000).toISOString(),
-      epsilon: 1.5 + i * 0.02,
-      delta: 1e-6,
-    })),
+    progress,
+    accuracy: r.accuracy,
+    loss: r.loss,
+    startTime: r.startTime,
+    endTime: r.endTime,
+    epsilon: r.epsilon,
+    delta: r.delta,
+    minParticipants: r.minParticipants,
+    expectedParticipants: r.expectedParticipants,
+    lineage: r.lineage,
+    nodes: r.updates.map((u) => {
+      const n = nodes.get(u.nodeId);
+      return {
+        id: u.nodeId,
+        status: n?.status || "offline",
+        dataCount: u.dataCount,
+        lastUpdate: u.submittedAt,
+        epsilon: n?.privacy.epsilonSpent,
+        delta: n?.privacy.deltaSpent,
+        accuracy: u.accuracy,
+        loss: u.loss,
+      };
+    }),
   };
+}
+
+function aggregateRound(roundNo: number) {
+  roundsRepo.update(String(roundNo), (r) => {
+    r.status = "aggregating";
+  });
+  const close = () => {
+    const closed = roundsRepo.update(String(roundNo), (r) => {
+      if (r.status !== "aggregating") return;
+      const contributors = r.updates.map((u) => u.nodeId);
+      Object.assign(r, fedAvg(r.updates));
+      r.status = "closed";
+      r.endTime = new Date().toISOString();
+      r.lineage = {
+        ...r.lineage,
+        dataset_hash: datasetHash(r.round, contributors),
+        contrib_count: contributors.length,
+        contributors,
+      };
+    });
+    if (closed) {
+      console.log(
+        `Federated round ${roundNo} aggregated from ${closed.updates.length} node(s): accuracy ${closed.accuracy}`,
+      );
+    }
+  };
+  setTimeout(() => retryWhenBusy(close), AGGREGATION_DELAY_MS);
+}
+
+function statusPayload() {
+  const rounds = listRounds();
+  const lastClosed = [...rounds].reverse().find((r) => r.status === "closed");
+  const active = rounds.find((r) => r.status !== "closed");
+  const nodes = nodesRepo.list().map(nodeView);
+  return {
+    status: active ? "running" : "idle",
+    currentRound: active?.round ?? lastClosed?.round ?? 0,
+    totalRounds: rounds.length,
+    globalModel: lastClosed
+      ? {
+          version: String(lastClosed.round),
+          accuracy: lastClosed.accuracy,
+          loss: lastClosed.loss,
+        }
+      : undefined,
+    privacy: {
+      epsilon: nodes.reduce((m, n) => Math.max(m, n.epsilon), 0),
+      delta: nodes.reduce((m, n) => Math.max(m, n.delta), 0),
+    },
+    rounds: rounds.map((r) => roundView(r, rounds.length)),
+    nodes,
+  };
+}
+
+// GET /federated/status
+export function handleFederatedStatus(_req: Request, res: Response) {
+  res.json({ status: "success", data: statusPayload() });
+}
+
+// GET /federated/rounds - round history, oldest first
+export function handleListFederatedRounds(_req: Request, res: Response) {
+  const rounds = listRounds();
+  res.json({
+    status: "success",
+    data: rounds.map((r) => roundView(r, rounds.length)),
+  });
+}
+
+// GET /federated/rounds/:round - a round with its raw node updates
+export function handleGetFederatedRound(req: Request, res: Response) {
+  const r = roundsRepo.get(String(parseInt(req.params.round, 10)));
+  if (!r) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Round not found" });
+  }
+  res.json({
+    status: "success",
+    data: { ...roundView(r, roundsRepo.count()), updates: r.updates },
+  });
+}
+
+// POST /federated/rounds - open the next round
+export function handleOpenFederatedRound(req: Request, res: Response) {
+  const {
+    minParticipants = 3,
+    epsilon = DEFAULT_ROUND_EPSILON,
+    delta = DEFAULT_ROUND_DELTA,
+  } = req.body || {};
+
+  if (!Number.isInteger(minParticipants) || minParticipants < 1) {
+    return res.status(400).json({
+      status: "error",
+      message: "minParticipants must be a positive integer",
+    });
+  }
+  if (!(epsilon > 0) || !(delta >= 0 && delta < 1)) {
+    return res.status(400).json({
+      status: "error",
+      message: "epsilon must be > 0 and delta in [0, 1)",
+    });
+  }
+
+  const active = activeRound();
+  if (active) {
+    return res.status(409).json({
+      status: "error",
+      message: `Round ${active.round} is still ${active.status}`,
+    });
+  }
+
+  // Only nodes that can pay for this round are expected to take part
+  const eligible = nodesRepo
+    .list()
+    .filter((n) => n.status === "online" && canAfford(n, epsilon, delta));
+  if (eligible.length < minParticipants) {
+    return res.status(409).json({
+      status: "error",
+      message: `Only ${eligible.length} online node(s) have privacy budget left; ${minParticipants} required`,
+    });
+  }
+
+  const rounds = listRounds();
+  const last = rounds[rounds.length - 1];
+  const round: FederatedRound = {
+    round: (last?.round || 0) + 1,
+    status: "open",
+    minParticipants,
+    expectedParticipants: eligible.length,
+    epsilon,
+    delta,
+    startTime: new Date().toISOString(),
+    updates: [],
+    lineage: {
+      parent_version: last ? String(last.round) : null,
+      contrib_count: 0,
+      contributors: [],
+      aggregation: "FedAvg",
+    },
+  };
+  roundsRepo.upsert(round);
+
+  console.log(
+    `Federated round ${round.round} opened for ${eligible.length} node(s)`,
+  );
+  res.status(201).json({
+    status: "success",
+    data: roundView(round, rounds.length + 1),
+  });
+}
+
+// POST /federated/rounds/:round/updates - a node submits its local result
+export function handleSubmitFederatedUpdate(req: Request, res: Response) {
+  const roundNo = parseInt(req.params.round, 10);
+  const { nodeId, dataCount, accuracy, loss } = req.body || {};
+
+  if (
+    !nodeId ||
+    !(Number.isFinite(dataCount) && dataCount > 0) ||
+    !Number.isFinite(accuracy) ||
+    !Number.isFinite(loss)
+  ) {
+    return res.status(400).json({
+      status: "error",
+      message: "nodeId, dataCount (> 0), accuracy and loss are required",
+    });
+  }
+
+  const round = roundsRepo.get(String(roundNo));
+  if (!round) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Round not found" });
+  }
+  if (round.status !== "open" && round.status !== "collecting") {
+    return res.status(409).json({
+      status: "error",
+      message: `Round ${roundNo} is ${round.status}`,
+    });
+  }
+
+  const node = nodesRepo.get(nodeId);
+  if (!node) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Node not registered" });
+  }
+  if (round.updates.some((u) => u.nodeId === nodeId)) {
+    return res.status(409).json({
+      status: "error",
+      message: `Node ${nodeId} already submitted to round ${roundNo}`,
+    });
+  }
+  if (!canAfford(node, round.epsilon, round.delta)) {
+    const left = remainingBudget(node);
+    return res.status(403).json({
+      status: "error",
+      message: `Privacy budget exhausted for ${nodeId}`,
+      privacy: {
+        required: { epsilon: round.epsilon, delta: round.delta },
+        remaining: left,
+      },
+    });
+  }
+
+  const now = new Date().toISOString();
+  nodesRepo.update(nodeId, (n) => {
+    n.privacy.epsilonSpent = round4(n.privacy.epsilonSpent + round.epsilon);
+    n.privacy.deltaSpent += round.delta;
+    n.lastUpdate = now;
+    n.status = "online";
+  });
+  const updated = roundsRepo.update(String(roundNo), (r) => {
+    r.updates.push({ nodeId, dataCount, accuracy, loss, submittedAt: now });
+    r.status = "collecting";
+  })!;
+
+  // Everyone expected has reported: aggregate without waiting
+  if (updated.updates.length >= updated.expectedParticipants) {
+    aggregateRound(roundNo);
+  }
+
+  res.json({
+    status: "success",
+    data: {
+      round: roundNo,
+      accepted: true,
+      submitted: updated.updates.length,
+      expected: updated.expectedParticipants,
+      node: nodeView(nodesRepo.get(nodeId)!),
+    },
+  });
+}
+
+// POST /federated/rounds/:round/aggregate - close collection early
+export function handleAggregateFederatedRound(req: Request, res: Response) {
+  const roundNo = parseInt(req.params.round, 10);
+  const round = roundsRepo.get(String(roundNo));
+  if (!round) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Round not found" });
+  }
+  if (round.status !== "open" && round.status !== "collecting") {
+    return res.status(409).json({
+      status: "error",
+      message: `Round ${roundNo} is ${round.status}`,
+    });
+  }
+  if (round.updates.length < round.minParticipants) {
+    return res.status(409).json({
+      status: "error",
+      message: `Round ${roundNo} has ${round.updates.length} of ${round.minParticipants} required updates`,
+    });
+  }
+
+  aggregateRound(roundNo);
+  res.status(202).json({
+    status: "success",
+    data: roundView(roundsRepo.get(String(roundNo))!, roundsRepo.count()),
+  });
+}
+
+// GET /federated/nodes
+export function handleListFederatedNodes(_req: Request, res: Response) {
+  res.json({ status: "success", data: nodesRepo.list().map(nodeView) });
+}
+
+// POST /federated/nodes - register a node or update its availability
+export function handleRegisterFederatedNode(req: Request, res: Response) {
+  const {
+    id,
+    dataCount,
+    status = "online",
+    epsilonBudget,
+    deltaBudget,
+  } = req.body || {};
+
+  if (!id || typeof id !== "string") {
+    return res
+      .status(400)
+      .json({ status: "error", message: "Node id is required" });
+  }
+  if (status !== "online" && status !== "offline") {
+    return res
+      .status(400)
+      .json({ status: "error", message: "status must be online or offline" });
+  }
+
+  const now = new Date().toISOString();
+  const existing = nodesRepo.get(id);
+  const node: FederatedNode = existing
+    ? { ...existing, status, lastUpdate: now }
+    : {
+        id,
+        status,
+        dataCount: 0,
+        registeredAt: now,
+        lastUpdate: now,
+        privacy: {
+          epsilonBudget: DEFAULT_EPSILON_BUDGET,
+          deltaBudget: DEFAULT_DELTA_BUDGET,
+          epsilonSpent: 0,
+          deltaSpent: 0,
+        },
+      };
+  if (Number.isFinite(dataCount) && dataCount >= 0) node.dataCount = dataCount;
+  // Budgets can be raised but never set below what was already spent
+  if (Number.isFinite(epsilonBudget)) {
+    node.privacy.epsilonBudget = Math.max(
+      epsilonBudget,
+      node.privacy.epsilonSpent,
+    );
+  }
+  if (Number.isFinite(deltaBudget)) {
+    node.privacy.deltaBudget = Math.max(deltaBudget, node.privacy.deltaSpent);
+  }
+  nodesRepo.upsert(node);
 
-  res.json({ status: "success", data: payload });
+  res
+    .status(existing ? 200 : 201)
+    .json({ status: "success", data: nodeView(node) });
 }
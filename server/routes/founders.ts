@@ -95,23 +95,9 @@ export const handleCreateFounder: RequestHandler = (req, res) => {
     }
 
     // Verify caller identity (must match payload user_id and email) and caller must be admin
-    const auth = (req.headers['authorization'] as string) || '';
-    const bearer = Array.isArray(auth) ? auth[0] : auth;
-    let callerEmail: string | null = null;
-    let callerId: string | null = null;
-    let callerRole: string | null = null;
-    try {
-      if (bearer && bearer.toLowerCase().startsWith('bearer ')) {
-        const token = bearer.slice(7);
-        const parts = token.split('_');
-        const tokenUserId = parts[1];
-        const { mockUsers } = require('./auth');
-        const u = mockUsers.find((x: any) => x.id === tokenUserId);
-        callerEmail = u?.email || null;
-        callerId = u?.id || null;
-        callerRole = u?.role || null;
-      }
-    } catch {}
+    const callerEmail: string | null = req.user?.email || null;
+    const callerId: string | null = req.user?.id || null;
+    const callerRole: string | null = req.user?.role || null;
 
     if (!callerId || !callerEmail) {
       return res.status(401).json({ status: 'error', code: 401, detail: 'Unauthorized' });
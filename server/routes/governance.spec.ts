@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { authenticate, handleLogin, requireAuth, requireRole } from "./auth";
+import {
+  handleGetRuntimeConfig,
+  handleReloadConfig,
+  handleUpdateRuntimeConfig,
+} from "./config";
+import { handleGetRiskConfig, handlePatchRiskConfig } from "./risk";
+import { handleASCReweight } from "./asc";
+import { handleStrategyOverride } from "./markets";
+
+// Mounted with the guards server/index.ts puts on these routes
+function app() {
+  const adminOnly = requireRole("admin", "founder");
+  const a = express();
+  a.use(express.json());
+  a.post("/api/auth/login", handleLogin);
+  a.use("/api", authenticate, requireAuth);
+  a.use("/api/admin", adminOnly);
+  a.get("/api/config/runtime", handleGetRuntimeConfig);
+  a.put("/api/config/runtime", adminOnly, handleUpdateRuntimeConfig);
+  a.post("/api/config/reload", adminOnly, handleReloadConfig);
+  a.get("/api/config/risk", handleGetRiskConfig);
+  a.patch("/api/config/risk", adminOnly, handlePatchRiskConfig);
+  a.post("/api/strategy/controller/reweight", adminOnly, handleASCReweight);
+  a.post("/api/admin/strategy-override", handleStrategyOverride);
+  return a;
+}
+
+let server: Server;
+let base: string;
+const tokens: Record<string, string> = {};
+
+async function login(email: string, password: string) {
+  const res = await fetch(`${base}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  });
+  return (await res.json()).access_token as string;
+}
+
+function call(as: string, method: string, path: string, body?: unknown) {
+  return fetch(`${base}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${tokens[as]}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  server = app().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  tokens.user = await login("user@projectaether.com", "user123");
+  tokens.admin = await login("admin@projectaether.com", "admin123");
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("governed write routes", () => {
+  const writes: Array<[string, string, unknown]> = [
+    [
+      "PUT",
+      "/api/config/runtime",
+      { config: { "trading.max_position_size": 999999999 } },
+    ],
+    ["POST", "/api/config/reload", {}],
+    ["PATCH", "/api/config/risk", { capital: 1 }],
+    ["POST", "/api/strategy/controller/reweight", { weights: { momentum: 1 } }],
+    [
+      "POST",
+      "/api/admin/strategy-override",
+      { symbol: "BTC/USDT", action: "block", reason: "maintenance window" },
+    ],
+  ];
+
+  it("refuses changes from a plain user", async () => {
+    for (const [method, path, body] of writes) {
+      const res = await call("user", method, path, body);
+      expect(res.status, `${method} ${path}`).toBe(403);
+    }
+    const runtime = await (
+      await call("user", "GET", "/api/config/runtime")
+    ).json();
+    expect(runtime.data["trading.max_position_size"]).toBe(100000);
+    const risk = await (await call("user", "GET", "/api/config/risk")).json();
+    expect(risk.data.capital).toBe(100000);
+  });
+
+  it("turns an admin change into a proposal instead of applying it", async () => {
+    const res = await call("admin", "PUT", "/api/config/runtime", {
+      config: { "trading.max_position_size": 250000, "logging.level": "info" },
+    });
+    expect(res.status).toBe(202);
+    const { proposal } = (await res.json()).data;
+    expect(proposal).toMatchObject({
+      kind: "config_change",
+      status: "pending",
+      payload: { changes: { "trading.max_position_size": 250000 } },
+    });
+
+    const risk = await call("admin", "PATCH", "/api/config/risk", {
+      capital: 5000,
+    });
+    expect(risk.status).toBe(202);
+    const reweight = await call(
+      "admin",
+      "POST",
+      "/api/strategy/controller/reweight",
+      { weights: { momentum: 0.9 } },
+    );
+    expect(reweight.status).toBe(202);
+
+    const runtime = await (
+      await call("admin", "GET", "/api/config/runtime")
+    ).json();
+    expect(runtime.data["trading.max_position_size"]).toBe(100000);
+    const config = await (
+      await call("admin", "GET", "/api/config/risk")
+    ).json();
+    expect(config.data.capital).toBe(100000);
+  });
+});
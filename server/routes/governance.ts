@@ -1,22 +1,33 @@
 import { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import { mockUsers } from './auth';
+import {
+  DEFAULT_GOVERNANCE_RULES,
+  ExecutionFailedError,
+  GovernanceConflictError,
+  GovernanceEngine,
+  GovernanceEvent,
+  GovernanceProposal,
+  GovernanceRule,
+  GovernanceValidationError,
+  PROPOSAL_KINDS,
+  ProposalExecutor,
+  ProposalKind,
+  ProposalNotFoundError,
+  ProposeInput,
+  VoteChoice,
+  VoterNotEligibleError,
+  tallyVotes,
+  validateRule
+} from '../governance/engine';
+import { recordAudit } from './audit';
 
 // Types
-interface Proposal {
-  id: string;
-  description: string;
-  status: 'pending' | 'voting' | 'approved' | 'rejected' | 'deployed';
-  votes: Vote[];
-  requiredVotes: number;
-  createdAt: string;
-  createdBy: string;
-  deployedAt?: string;
-  deploymentStatus?: 'success' | 'failed' | 'in_progress';
-}
+export type Proposal = GovernanceProposal;
+export type { Vote } from '../governance/engine';
 
-interface Vote {
-  founderId: string;
-  approve: boolean;
-  votedAt: string;
+interface StoredRule extends GovernanceRule {
+  kind: ProposalKind;
 }
 
 interface FeedbackEntry {
@@ -37,279 +48,353 @@ interface FeedbackSummary {
   recentEntries: FeedbackEntry[];
 }
 
-// Mock data stores (in production, use database)
-let proposals: Proposal[] = [
-  {
-    id: 'PROP-001',
-    description: 'Increase BTC allocation to 40%',
-    status: 'voting',
-    votes: [
-      { founderId: 'founder1', approve: true, votedAt: '2024-01-20T10:30:00Z' },
-      { founderId: 'founder2', approve: true, votedAt: '2024-01-20T11:15:00Z' }
-    ],
-    requiredVotes: 3,
-    createdAt: '2024-01-20T09:00:00Z',
-    createdBy: 'admin@example.com'
-  },
-  {
-    id: 'PROP-002',
-    description: 'Add AVAX to portfolio',
-    status: 'approved',
-    votes: [
-      { founderId: 'founder1', approve: true, votedAt: '2024-01-19T14:30:00Z' },
-      { founderId: 'founder2', approve: true, votedAt: '2024-01-19T15:15:00Z' },
-      { founderId: 'founder3', approve: true, votedAt: '2024-01-19T16:00:00Z' }
-    ],
-    requiredVotes: 3,
-    createdAt: '2024-01-19T13:00:00Z',
-    createdBy: 'admin@example.com'
-  },
-  {
-    id: 'PROP-003',
-    description: 'Implement new risk model',
-    status: 'pending',
-    votes: [
-      { founderId: 'founder1', approve: true, votedAt: '2024-01-21T09:30:00Z' }
-    ],
-    requiredVotes: 3,
-    createdAt: '2024-01-21T08:00:00Z',
-    createdBy: 'admin@example.com'
-  }
-];
-
-let feedbackEntries: FeedbackEntry[] = [
-  {
-    id: 'feedback_1',
-    comment: 'The new trading algorithm is performing better than expected',
-    submittedBy: 'user@example.com',
-    submittedAt: '2024-01-21T10:30:00Z',
-    status: 'reviewed',
-    reviewedBy: 'admin@example.com',
-    reviewedAt: '2024-01-21T11:00:00Z'
-  },
-  {
-    id: 'feedback_2',
-    comment: 'Suggest adding more defensive positions during high volatility',
-    submittedBy: 'trader@example.com',
-    submittedAt: '2024-01-21T14:15:00Z',
-    status: 'high_priority'
-  },
-  {
-    id: 'feedback_3',
-    comment: 'Risk management could be improved for smaller cap coins',
-    submittedBy: 'analyst@example.com',
-    submittedAt: '2024-01-21T16:45:00Z',
-    status: 'pending'
-  }
-];
+const HOUR = 3_600_000;
+const hoursFromNow = (h: number) => new Date(Date.now() + h * HOUR).toISOString();
+
+// Persistent stores (backend selected by AETHER_STORAGE)
+const proposalsRepo = createRepository<Proposal>('governance_proposals', {
+  seed: () => [
+    {
+      id: 'PROP-001',
+      kind: 'asc_reweight',
+      description: 'Shift strategy controller weight toward momentum',
+      payload: { weights: { momentum: 0.6, mean_reversion: 0.3, breakout: 0.1 } },
+      diff: [
+        { path: 'momentum', before: 0.5, after: 0.6 },
+        { path: 'breakout', before: 0.2, after: 0.1 }
+      ],
+      status: 'voting',
+      votes: [
+        { founderId: '3', founderEmail: 'founder@projectaether.com', choice: 'approve', approve: true, votedAt: hoursFromNow(-2) }
+      ],
+      requiredVotes: 2,
+      threshold: 2 / 3,
+      autoExecute: false,
+      createdAt: hoursFromNow(-3),
+      createdBy: 'admin@projectaether.com',
+      expiresAt: hoursFromNow(69)
+    },
+    {
+      id: 'PROP-002',
+      kind: 'config_change',
+      description: 'Tighten the pre-trade price band to 3%',
+      payload: { changes: { 'trading.price_band_percent': 3 } },
+      diff: [{ path: 'trading.price_band_percent', before: 5, after: 3 }],
+      status: 'approved',
+      votes: [
+        { founderId: '4', founderEmail: 'cofounder@projectaether.com', choice: 'approve', approve: true, votedAt: hoursFromNow(-20) },
+        { founderId: '3', founderEmail: 'founder@projectaether.com', choice: 'approve', approve: true, votedAt: hoursFromNow(-19) }
+      ],
+      requiredVotes: 2,
+      threshold: 2 / 3,
+      autoExecute: false,
+      createdAt: hoursFromNow(-24),
+      createdBy: 'admin@projectaether.com',
+      expiresAt: hoursFromNow(48),
+      decidedAt: hoursFromNow(-19)
+    },
+    {
+      id: 'PROP-003',
+      kind: 'risk_tier_change',
+      description: 'Lower the moderate tier drawdown limit to 8%',
+      payload: { tiers: { moderate: { maxDrawdown: 0.08 } } },
+      diff: [{ path: 'moderate.maxDrawdown', before: 0.1, after: 0.08 }],
+      status: 'pending',
+      votes: [],
+      requiredVotes: 2,
+      threshold: 2 / 3,
+      autoExecute: false,
+      createdAt: hoursFromNow(-1),
+      createdBy: 'admin@projectaether.com',
+      expiresAt: hoursFromNow(71)
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: default votes list and required vote count',
+      up: (p) => ({ votes: [], requiredVotes: 3, ...p })
+    },
+    {
+      version: 2,
+      description: 'typed proposals: kind, payload, threshold, voting window and vote choice',
+      up: (p) => ({
+        kind: 'config_change',
+        payload: { changes: {} },
+        threshold: DEFAULT_GOVERNANCE_RULES.config_change.threshold,
+        autoExecute: false,
+        expiresAt: new Date(Date.parse(p.createdAt) + DEFAULT_GOVERNANCE_RULES.config_change.windowMs).toISOString(),
+        ...p,
+        votes: (p.votes || []).map((v: any) => ({ choice: v.approve ? 'approve' : 'reject', ...v }))
+      })
+    },
+    {
+      version: 3,
+      description: 'executable payloads: diff recorded when proposed',
+      up: (p) => ({ diff: [], ...p })
+    }
+  ]
+});
+
+// Quorum, threshold and window per proposal kind, editable by admins
+const rulesRepo = createRepository<StoredRule>('governance_rules', {
+  key: (r) => r.kind,
+  seed: () => PROPOSAL_KINDS.map((kind) => ({ kind, ...DEFAULT_GOVERNANCE_RULES[kind] })),
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: rule fields default to the kind\'s defaults',
+      up: (r) => ({ ...DEFAULT_GOVERNANCE_RULES[r.kind as ProposalKind], ...r })
+    }
+  ]
+});
+
+function currentRules() {
+  const rules = { ...DEFAULT_GOVERNANCE_RULES };
+  for (const { kind, ...rule } of rulesRepo.list()) rules[kind] = rule;
+  return rules;
+}
+
+// Every proposal transition goes to the audit ledger; a deploy records the
+// snapshot it overwrote as `before`, a rollback the state it put back as `after`
+function auditProposal({ type, proposal, actor, choice }: GovernanceEvent) {
+  const deployed = type === 'deployed';
+  const rolledBack = type === 'rolled_back';
+  recordAudit({
+    action: `proposal:${type}`,
+    actor,
+    target: proposal.id,
+    before: deployed ? proposal.snapshot : rolledBack ? proposal.result : undefined,
+    after: deployed ? proposal.result : rolledBack ? proposal.snapshot : undefined,
+    details: proposal.error || proposal.description,
+    success: type !== 'failed' && type !== 'rollback_failed',
+    meta: { kind: proposal.kind, status: proposal.status, choice, diff: type === 'proposed' ? proposal.diff : undefined }
+  });
+}
+
+const governance = new GovernanceEngine({
+  proposals: proposalsRepo,
+  // Founders each hold one vote; admins can propose but not vote
+  voters: () => mockUsers.filter((u) => u.role === 'founder').map((u) => ({ id: u.id, email: u.email })),
+  rules: currentRules,
+  onEvent: auditProposal
+});
+
+// Owning modules register how their kind is validated and applied, so this
+// module never needs to import them
+export function registerProposalExecutor<P>(kind: ProposalKind, executor: ProposalExecutor<P>) {
+  governance.register(kind, executor);
+}
+
+export function createProposal<P>(input: ProposeInput<P>): Proposal {
+  return governance.propose(input);
+}
+
+export function getProposal(id: string): Proposal {
+  return governance.get(id);
+}
+
+export function castProposalVote(id: string, voter: { id: string; email?: string }, choice: VoteChoice) {
+  return governance.vote(id, voter, choice);
+}
+
+export function executeProposal(id: string, actor: string) {
+  return governance.execute(id, actor);
+}
+
+// Latest proposal of a kind for a subject, e.g. the activation vote of a plugin
+export function findProposal(kind: ProposalKind, subject: string): Proposal | undefined {
+  return governance.list().filter((p) => p.kind === kind && p.subject === subject).pop();
+}
+
+export function governanceErrorStatus(error: unknown) {
+  if (error instanceof ProposalNotFoundError) return 404;
+  if (error instanceof VoterNotEligibleError) return 403;
+  if (error instanceof GovernanceConflictError) return 409;
+  if (error instanceof GovernanceValidationError) return 400;
+  if (error instanceof ExecutionFailedError) return 422;
+  return 500;
+}
+
+function sendError(res: Response, context: string, error: unknown) {
+  const code = governanceErrorStatus(error);
+  if (code === 500) console.error(`${context} error:`, error);
+  res.status(code).json({
+    status: 'error',
+    error: code === 500 ? 'Internal server error' : (error as Error).message
+  });
+}
+
+function withTally(proposal: Proposal) {
+  const t = tallyVotes(proposal.votes);
+  return {
+    ...proposal,
+    voteCount: t.cast,
+    approvalCount: t.approve,
+    rejectCount: t.reject,
+    abstainCount: t.abstain,
+    canDeploy: proposal.status === 'approved',
+    canRollback: governance.canRollback(proposal)
+  };
+}
 
-// Get all proposals
-export function handleGetProposals(_req: Request, res: Response) {
+function voteChoice(body: any): VoteChoice | undefined {
+  if (['approve', 'reject', 'abstain'].includes(body?.choice)) return body.choice;
+  if (typeof body?.approve === 'boolean') return body.approve ? 'approve' : 'reject';
+  return undefined;
+}
+
+const feedbackRepo = createRepository<FeedbackEntry>('governance_feedback', {
+  seed: () => [
+    {
+      id: 'feedback_1',
+      comment: 'The new trading algorithm is performing better than expected',
+      submittedBy: 'user@example.com',
+      submittedAt: '2024-01-21T10:30:00Z',
+      status: 'reviewed',
+      reviewedBy: 'admin@example.com',
+      reviewedAt: '2024-01-21T11:00:00Z'
+    },
+    {
+      id: 'feedback_2',
+      comment: 'Suggest adding more defensive positions during high volatility',
+      submittedBy: 'trader@example.com',
+      submittedAt: '2024-01-21T14:15:00Z',
+      status: 'high_priority'
+    },
+    {
+      id: 'feedback_3',
+      comment: 'Risk management could be improved for smaller cap coins',
+      submittedBy: 'analyst@example.com',
+      submittedAt: '2024-01-21T16:45:00Z',
+      status: 'pending'
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: default review status',
+      up: (f) => ({ status: 'pending', ...f })
+    }
+  ]
+});
+
+// Proposals with their votes, for server-side consumers (e.g. regulatory reports)
+export function listProposals(): Proposal[] {
+  return governance.list();
+}
+
+// Get all proposals, optionally filtered by kind and status
+export function handleGetProposals(req: Request, res: Response) {
   try {
-    // Add vote counts and status calculations
-    const enrichedProposals = proposals.map(proposal => ({
-      ...proposal,
-      voteCount: proposal.votes.length,
-      approvalCount: proposal.votes.filter(v => v.approve).length,
-      canDeploy: proposal.status === 'approved' && proposal.votes.filter(v => v.approve).length >= proposal.requiredVotes
-    }));
+    const { kind, status } = req.query;
+    const proposals = governance.list()
+      .filter((p) => !kind || p.kind === kind)
+      .filter((p) => !status || p.status === status)
+      .map(withTally);
 
     res.json({
       status: 'success',
-      data: enrichedProposals
+      data: proposals
     });
   } catch (error) {
-    console.error('Get proposals error:', error);
-    res.status(500).json({
-      status: 'error',
-      error: 'Internal server error'
-    });
+    sendError(res, 'Get proposals', error);
   }
 }
 
-// Create new proposal
+export function handleGetProposal(req: Request, res: Response) {
+  try {
+    res.json({ status: 'success', data: withTally(governance.get(req.params.proposalId)) });
+  } catch (error) {
+    sendError(res, 'Get proposal', error);
+  }
+}
+
+// Create new proposal with a typed payload for its kind; the legacy route
+// passes the id in the path and defaults to a config change
 export function handleCreateProposal(req: Request, res: Response) {
   try {
-    const { proposalId, description } = req.body;
-    const actor = 'admin@example.com'; // In production, get from auth context
+    const { kind = 'config_change', description, payload } = req.body || {};
+    const proposalId = req.params.proposalId ?? req.body?.proposalId ?? req.body?.id;
+    const actor = req.user?.email || 'unknown';
 
-    // Validation
-    if (!proposalId || !proposalId.trim()) {
+    if (req.params.proposalId !== undefined && !String(proposalId).trim()) {
       return res.status(400).json({
         status: 'error',
         error: 'Proposal ID is required'
       });
     }
 
-    if (!description || !description.trim()) {
+    if (!description || !String(description).trim()) {
       return res.status(400).json({
         status: 'error',
         error: 'Proposal description is required'
       });
     }
 
-    // Check for duplicate ID
-    const existingProposal = proposals.find(p => p.id === proposalId);
-    if (existingProposal) {
-      return res.status(409).json({
-        status: 'error',
-        error: 'Proposal ID already exists'
-      });
-    }
-
-    // Create new proposal
-    const newProposal: Proposal = {
-      id: proposalId,
-      description: description.trim(),
-      status: 'pending',
-      votes: [],
-      requiredVotes: 3, // Default required votes
-      createdAt: new Date().toISOString(),
+    const proposal = governance.propose({
+      id: proposalId ? String(proposalId) : undefined,
+      kind,
+      description: String(description),
+      payload,
       createdBy: actor
-    };
-
-    proposals.push(newProposal);
+    });
 
-    console.log(`Proposal created: ${proposalId} by ${actor}`);
+    console.log(`Proposal created: ${proposal.id} (${proposal.kind}) by ${actor}`);
 
     res.status(201).json({
       status: 'success',
       message: 'Proposal created successfully',
-      data: newProposal
+      data: withTally(proposal)
     });
   } catch (error) {
-    console.error('Create proposal error:', error);
-    res.status(500).json({
-      status: 'error',
-      error: 'Internal server error'
-    });
+    sendError(res, 'Create proposal', error);
   }
 }
 
-// Cast vote on proposal
-export function handleCastVote(req: Request, res: Response) {
+// Cast vote on proposal as the signed-in founder
+export async function handleCastVote(req: Request, res: Response) {
   try {
     const { proposalId } = req.params;
-    const { founderId, approve } = req.body;
+    const choice = voteChoice(req.body);
 
-    // Validation
-    if (!founderId || !founderId.trim()) {
-      return res.status(400).json({
-        status: 'error',
-        error: 'Founder ID is required'
-      });
-    }
-
-    if (typeof approve !== 'boolean') {
-      return res.status(400).json({
-        status: 'error',
-        error: 'Approve field must be true or false'
-      });
-    }
-
-    // Find proposal
-    const proposal = proposals.find(p => p.id === proposalId);
-    if (!proposal) {
-      return res.status(404).json({
-        status: 'error',
-        error: 'Proposal not found'
-      });
+    if (!req.user) {
+      return res.status(401).json({ status: 'error', error: 'Authentication required' });
     }
 
-    // Check if proposal is in voting status
-    if (proposal.status !== 'voting' && proposal.status !== 'pending') {
+    if (!choice) {
       return res.status(400).json({
         status: 'error',
-        error: 'Proposal is not open for voting'
+        error: 'Vote must be approve, reject or abstain'
       });
     }
 
-    // Check if founder has already voted
-    const existingVoteIndex = proposal.votes.findIndex(v => v.founderId === founderId);
-    if (existingVoteIndex !== -1) {
-      // Update existing vote
-      proposal.votes[existingVoteIndex] = {
-        founderId,
-        approve,
-        votedAt: new Date().toISOString()
-      };
-    } else {
-      // Add new vote
-      proposal.votes.push({
-        founderId,
-        approve,
-        votedAt: new Date().toISOString()
-      });
-    }
+    const proposal = await governance.vote(proposalId, { id: req.user.id, email: req.user.email }, choice);
+    const t = tallyVotes(proposal.votes);
 
-    // Update proposal status based on votes
-    const approvalCount = proposal.votes.filter(v => v.approve).length;
-    const totalVotes = proposal.votes.length;
-
-    if (approvalCount >= proposal.requiredVotes) {
-      proposal.status = 'approved';
-    } else if (totalVotes >= proposal.requiredVotes && approvalCount < proposal.requiredVotes) {
-      proposal.status = 'rejected';
-    } else {
-      proposal.status = 'voting';
-    }
-
-    console.log(`Vote cast on ${proposalId} by ${founderId}: ${approve ? 'approve' : 'reject'}`);
+    console.log(`Vote cast on ${proposalId} by ${req.user.email}: ${choice}`);
 
     res.json({
       status: 'success',
       message: 'Vote cast successfully',
       data: {
-        proposal,
-        voteCount: totalVotes,
-        approvalCount,
+        proposal: withTally(proposal),
+        voteCount: t.cast,
+        approvalCount: t.approve,
         newStatus: proposal.status
       }
     });
   } catch (error) {
-    console.error('Cast vote error:', error);
-    res.status(500).json({
-      status: 'error',
-      error: 'Internal server error'
-    });
+    sendError(res, 'Cast vote', error);
   }
 }
 
-// Deploy approved proposal
-export function handleDeployProposal(req: Request, res: Response) {
+// Execute (deploy) an approved proposal
+export async function handleDeployProposal(req: Request, res: Response) {
+  const { proposalId } = req.params;
+  const actor = req.user?.email || 'unknown';
   try {
-    const { proposalId } = req.params;
-    const actor = 'admin@example.com'; // In production, get from auth context
-
-    // Find proposal
-    const proposal = proposals.find(p => p.id === proposalId);
-    if (!proposal) {
-      return res.status(404).json({
-        status: 'error',
-        error: 'Proposal not found'
-      });
-    }
-
-    // Check if proposal is approved
-    if (proposal.status !== 'approved') {
-      return res.status(400).json({
-        status: 'error',
-        error: 'Only approved proposals can be deployed'
-      });
-    }
-
-    // Check if already deployed
-    if (proposal.status === 'deployed') {
-      return res.status(400).json({
-        status: 'error',
-        error: 'Proposal is already deployed'
-      });
-    }
-
-    // Update proposal status
-    proposal.status = 'deployed';
-    proposal.deployedAt = new Date().toISOString();
-    proposal.deploymentStatus = 'success'; // In production, this would be determined by actual deployment
+    const proposal = await governance.execute(proposalId, actor);
 
     console.log(`Proposal deployed: ${proposalId} by ${actor}`);
 
@@ -319,21 +404,68 @@ export function handleDeployProposal(req: Request, res: Response) {
       data: {
         proposalId,
         deployedAt: proposal.deployedAt,
-        deploymentStatus: proposal.deploymentStatus
+        deploymentStatus: proposal.deploymentStatus,
+        result: proposal.result,
+        proposal: withTally(proposal)
       }
     });
   } catch (error) {
-    console.error('Deploy proposal error:', error);
-    res.status(500).json({
-      status: 'error',
-      error: 'Internal server error'
+    sendError(res, 'Deploy proposal', error);
+  }
+}
+
+// Put back the state a deployed proposal overwrote
+export async function handleRollbackProposal(req: Request, res: Response) {
+  const { proposalId } = req.params;
+  const actor = req.user?.email || 'unknown';
+  try {
+    const proposal = await governance.rollback(proposalId, actor);
+
+    console.log(`Proposal rolled back: ${proposalId} by ${actor}`);
+
+    res.json({
+      status: 'success',
+      message: 'Proposal rolled back successfully',
+      data: withTally(proposal)
     });
+  } catch (error) {
+    sendError(res, 'Rollback proposal', error);
+  }
+}
+
+export function handleGetGovernanceRules(_req: Request, res: Response) {
+  res.json({ status: 'success', data: currentRules() });
+}
+
+// PATCH /api/governance/rules/:kind; applies to proposals created afterwards
+export function handleUpdateGovernanceRule(req: Request, res: Response) {
+  try {
+    const kind = req.params.kind as ProposalKind;
+    if (!PROPOSAL_KINDS.includes(kind)) {
+      return res.status(404).json({ status: 'error', error: `Unknown proposal kind ${kind}` });
+    }
+    const body = req.body || {};
+    const rule: GovernanceRule = { ...currentRules()[kind] };
+    for (const field of ['quorum', 'threshold', 'windowMs', 'autoExecute'] as const) {
+      if (body[field] !== undefined) (rule as any)[field] = body[field];
+    }
+    validateRule(rule);
+    const before = currentRules()[kind];
+    rulesRepo.upsert({ kind, ...rule });
+    recordAudit({ action: 'GOVERNANCE_RULE_UPDATE', target: kind, before, after: rule }, req);
+
+    console.log(`Governance rule for ${kind} updated by ${req.user?.email || 'unknown'}:`, rule);
+
+    res.json({ status: 'success', data: rule });
+  } catch (error) {
+    sendError(res, 'Update governance rule', error);
   }
 }
 
 // Get feedback summary
 export function handleGetFeedbackSummary(_req: Request, res: Response) {
   try {
+    const feedbackEntries = feedbackRepo.list();
     const summary: FeedbackSummary = {
       totalSubmissions: feedbackEntries.length,
       reviewed: feedbackEntries.filter(f => f.status === 'reviewed').length,
@@ -387,7 +519,7 @@ export function handleSubmitFeedback(req: Request, res: Response) {
       status: 'pending'
     };
 
-    feedbackEntries.push(newFeedback);
+    feedbackRepo.upsert(newFeedback);
 
     console.log(`Feedback submitted by ${actor}: ${comment.substring(0, 50)}...`);
 
@@ -410,7 +542,7 @@ export function handleGetAllFeedback(req: Request, res: Response) {
   try {
     const { status, limit = '20', offset = '0' } = req.query;
 
-    let filteredFeedback = [...feedbackEntries];
+    let filteredFeedback = feedbackRepo.list();
 
     // Apply status filter
     if (status && typeof status === 'string' && status !== 'all') {
@@ -1,4 +1,94 @@
 import type { Request, Response } from "express";
+import { listProbes, probeHistory, readiness, registerProbe, runAllProbes } from "../health/probes";
+
+// Configured dependencies. A dependency with no connection settings is skipped,
+// as is any id listed in HEALTH_SKIP; HEALTH_REQUIRED picks the ones that
+// decide readiness (default: supabase, binance, redis).
+const skipList = new Set((process.env.HEALTH_SKIP || "").split(",").map((s) => s.trim().toLowerCase()).filter(Boolean));
+const requiredList = new Set((process.env.HEALTH_REQUIRED || "supabase,binance,redis").split(",").map((s) => s.trim().toLowerCase()).filter(Boolean));
+
+function skipReason(id: string, configured: boolean, setting: string) {
+  if (skipList.has(id)) return "skipped by config";
+  return configured ? undefined : `not configured (${setting})`;
+}
+
+function withPath(base: string | undefined, path: string) {
+  return base ? base.replace(/\/+$/, "") + path : "";
+}
+
+function hostPort(url: string | undefined, fallbackPort: number) {
+  try {
+    const u = new URL(url || "");
+    return { host: u.hostname, port: parseInt(u.port, 10) || fallbackPort };
+  } catch {
+    return { host: "", port: fallbackPort };
+  }
+}
+
+const supabaseUrl = withPath(process.env.SUPABASE_URL, "/auth/v1/health");
+registerProbe({
+  id: "supabase",
+  name: "Supabase",
+  required: requiredList.has("supabase"),
+  timeoutMs: 2000,
+  skip: skipReason("supabase", !!supabaseUrl, "SUPABASE_URL"),
+  check: { kind: "http", url: supabaseUrl, headers: process.env.SUPABASE_KEY ? { apikey: process.env.SUPABASE_KEY } : undefined },
+});
+
+const binanceBase = process.env.BINANCE_API_URL || (process.env.BINANCE_API_KEY ? "https://api.binance.com" : "");
+registerProbe({
+  id: "binance",
+  name: "Binance",
+  required: requiredList.has("binance"),
+  timeoutMs: 2000,
+  skip: skipReason("binance", !!binanceBase, "BINANCE_API_URL or BINANCE_API_KEY"),
+  check: { kind: "http", url: withPath(binanceBase, "/api/v3/ping") },
+});
+
+const redis = hostPort(process.env.REDIS_URL, 6379);
+registerProbe({
+  id: "redis",
+  name: "Redis",
+  required: requiredList.has("redis"),
+  timeoutMs: 1500,
+  skip: skipReason("redis", !!redis.host, "REDIS_URL"),
+  // NOAUTH still proves the server is up and answering
+  check: { kind: "tcp", ...redis, send: "PING\r\n", expect: /^(\+PONG|-NOAUTH)/ },
+});
+
+const weaviateUrl = withPath(process.env.WEAVIATE_URL, "/v1/.well-known/ready");
+registerProbe({
+  id: "weaviate",
+  name: "Weaviate",
+  required: requiredList.has("weaviate"),
+  timeoutMs: 2500,
+  skip: skipReason("weaviate", !!weaviateUrl, "WEAVIATE_URL"),
+  check: { kind: "http", url: weaviateUrl },
+});
+
+const n8nUrl = withPath(process.env.N8N_URL, "/healthz");
+registerProbe({
+  id: "n8n",
+  name: "n8n",
+  required: requiredList.has("n8n"),
+  timeoutMs: 2000,
+  skip: skipReason("n8n", !!n8nUrl, "N8N_URL"),
+  check: { kind: "http", url: n8nUrl },
+});
+
+registerProbe({
+  id: "smtp",
+  name: "SMTP",
+  required: requiredList.has("smtp"),
+  timeoutMs: 3000,
+  skip: skipReason("smtp", !!process.env.SMTP_HOST, "SMTP_HOST"),
+  check: { kind: "tcp", host: process.env.SMTP_HOST || "", port: parseInt(process.env.SMTP_PORT || "", 10) || 587, expect: /^220/ },
+});
+
+function historySummary(id: string) {
+  const { uptime, transitions, flapping, avg_latency_ms, last_change } = probeHistory(id, 1);
+  return { uptime, transitions, flapping, avg_latency_ms, last_change };
+}
 
 export function handleHealthLive(_req: Request, res: Response) {
   const start = Date.now();
@@ -7,41 +97,36 @@ export function handleHealthLive(_req: Request, res: Response) {
   res.status(200).json({ status: "ok", ready: true, latency });
 }
 
-export function handleHealthReady(_req: Request, res: Response) {
-  res.status(200).json({ ready: true, dependencies: { supabase: true, binance: true, redis: true } });
+export async function handleHealthReady(req: Request, res: Response) {
+  const verdict = await readiness(req.query.refresh === "1");
+  // 503 lets load balancers and orchestrators act on the verdict directly
+  res.status(verdict.ok ? 200 : 503).json({ ...verdict, ready: verdict.ok });
 }
 
-export function handleHealthReadyDetails(_req: Request, res: Response) {
-  const now = new Date().toISOString();
+export async function handleHealthReadyDetails(req: Request, res: Response) {
+  const verdict = await readiness(req.query.refresh === "1");
   res.status(200).json({
-    ok: true,
-    checked_at: now,
-    dependencies: [
-      { name: "Supabase", ok: true, code: 200, checked_at: now, timeout: 2000, skipped: false },
-      { name: "Binance", ok: true, code: 200, checked_at: now, timeout: 2000, skipped: false },
-      { name: "Redis", ok: true, code: 200, checked_at: now, timeout: 1500, skipped: false },
-      { name: "Weaviate", ok: true, code: 200, checked_at: now, timeout: 2500, skipped: true },
-      { name: "n8n", ok: true, code: 200, checked_at: now, timeout: 2000, skipped: true },
-      { name: "SMTP", ok: true, code: 200, checked_at: now, timeout: 3000, skipped: true }
-    ],
+    ...verdict,
+    ready: verdict.ok,
+    dependencies: verdict.dependencies.map((d) => ({ ...d, ...historySummary(d.id) })),
   });
 }
 
-export function handleHealthDependencies(_req: Request, res: Response) {
-  const now = new Date().toISOString();
-  res.status(200).json([
-    { id: "supabase", ok: true, error: null, code: 200, checked_at: now, timeout: 2000, skipped: false, request_id: "req_supabase_1" },
-    { id: "binance", ok: true, error: null, code: 200, checked_at: now, timeout: 2000, skipped: false, request_id: "req_binance_1" },
-    { id: "redis", ok: true, error: null, code: 200, checked_at: now, timeout: 1500, skipped: false, request_id: "req_redis_1" },
-    { id: "weaviate", ok: false, error: "skipped by config", code: 0, checked_at: now, timeout: 0, skipped: true, request_id: "req_weaviate_1" },
-    { id: "n8n", ok: false, error: "skipped by config", code: 0, checked_at: now, timeout: 0, skipped: true, request_id: "req_n8n_1" },
-    { id: "smtp", ok: false, error: "skipped by config", code: 0, checked_at: now, timeout: 0, skipped: true, request_id: "req_smtp_1" },
-  ]);
-}
-
-export function handleMetrics(_req: Request, res: Response) {
-  res.setHeader("Content-Type", "text/plain");
-  res.status(200).send(`# HELP aether_requests_total Total number of HTTP requests\n# TYPE aether_requests_total counter\naether_requests_total{route="/api"} 1024\n# HELP aether_latency_ms Request latency in ms\n# TYPE aether_latency_ms summary\naether_latency_ms{quantile=\"0.5\"} 12\naether_latency_ms{quantile=\"0.9\"} 35\naether_latency_ms{quantile=\"0.99\"} 75\naether_latency_ms_sum 51234\naether_latency_ms_count 4096\n`);
+// Keyed by dependency id, one row per registered probe
+export async function handleHealthDependencies(req: Request, res: Response) {
+  const results = await runAllProbes(req.query.refresh === "1");
+  res.status(200).json(Object.fromEntries(results.map((d) => [d.id, { ...d, ...historySummary(d.id) }])));
+}
+
+// GET /health/dependencies/history?id=redis&limit=50
+export function handleHealthDependencyHistory(req: Request, res: Response) {
+  const id = req.query.id ? String(req.query.id) : undefined;
+  const limit = Math.max(1, Math.min(500, parseInt(String(req.query.limit || "60"), 10) || 60));
+  const ids = listProbes().map((p) => p.id).filter((p) => !id || p === id);
+  if (id && ids.length === 0) {
+    return res.status(404).json({ status: "error", message: `Unknown dependency: ${id}` });
+  }
+  res.json({ status: "success", data: { probes: ids.map((p) => probeHistory(p, limit)) } });
 }
 
 export function handleHealthLiveDetails(_req: Request, res: Response) {
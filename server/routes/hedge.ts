@@ -1,16 +1,40 @@
 import { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import { DEFAULT_AUTO_HEDGE_CONFIG, HedgeAdjustment, hedgeEffectiveness, hedgePnl, planHedgeAdjustment } from '../hedge/engine';
+import { getRiskMarks } from './risk';
 
 // Types
-interface HedgeRecord {
+export interface HedgeRecord {
   id: string;
   userId: string;
   amount: number; // USDT amount
   timestamp: string;
   type: 'profit_hedge' | 'manual_hedge' | 'auto_hedge';
+  symbol: string; // market the hedge is priced against
   triggerPrice: number;
   status: 'active' | 'closed' | 'expired';
-  pnl: number;
+  pnl: number; // realized once closed
   fees: number;
+  closePrice?: number;
+  closedAt?: string;
+}
+
+// One entry per hedge opened, trimmed or closed, by the engine or by hand
+interface HedgeAdjustmentLog {
+  id: string;
+  userId: string;
+  timestamp: string;
+  action: 'open' | 'trim' | 'close';
+  source: 'auto' | 'manual';
+  amount: number;
+  target: number | null;
+  current: number | null;
+  exposure: number | null;
+  percent: number | null;
+  price: number;
+  pnl: number;
+  reason: string;
+  hedgeIds: string[];
 }
 
 interface Balance {
@@ -45,42 +69,75 @@ interface MarketConditions {
   lastUpdated: string;
 }
 
-// Mock data - in production this would come from database
-const hedgeRecords: HedgeRecord[] = [
-  {
-    id: 'hedge_001',
-    userId: 'user_001',
-    amount: 15000.00,
-    timestamp: new Date(Date.now() - 86400000 * 2).toISOString(),
-    type: 'profit_hedge',
-    triggerPrice: 43200.00,
-    status: 'active',
-    pnl: 1250.50,
-    fees: 75.00
-  },
-  {
-    id: 'hedge_002',
-    userId: 'user_001',
-    amount: 6250.00,
-    timestamp: new Date(Date.now() - 86400000 * 5).toISOString(),
-    type: 'auto_hedge',
-    triggerPrice: 2580.00,
-    status: 'active',
-    pnl: 420.80,
-    fees: 31.25
-  },
-  {
-    id: 'hedge_003',
-    userId: 'user_001',
-    amount: 8500.00,
-    timestamp: new Date(Date.now() - 86400000 * 7).toISOString(),
-    type: 'manual_hedge',
-    triggerPrice: 42800.00,
-    status: 'closed',
-    pnl: -85.20,
-    fees: 42.50
-  }
-];
+// Hedge positions and per-user settings are persisted (backend selected by AETHER_STORAGE)
+const hedgeRepo = createRepository<HedgeRecord>('hedge_records', {
+  seed: () => [
+    {
+      id: 'hedge_001',
+      userId: 'user_001',
+      amount: 15000.00,
+      timestamp: new Date(Date.now() - 86400000 * 2).toISOString(),
+      type: 'profit_hedge',
+      symbol: 'BTC/USDT',
+      triggerPrice: 43200.00,
+      status: 'active',
+      pnl: 1250.50,
+      fees: 75.00
+    },
+    {
+      id: 'hedge_002',
+      userId: 'user_001',
+      amount: 6250.00,
+      timestamp: new Date(Date.now() - 86400000 * 5).toISOString(),
+      type: 'auto_hedge',
+      symbol: 'ETH/USDT',
+      triggerPrice: 2580.00,
+      status: 'active',
+      pnl: 420.80,
+      fees: 31.25
+    },
+    {
+      id: 'hedge_003',
+      userId: 'user_001',
+      amount: 8500.00,
+      timestamp: new Date(Date.now() - 86400000 * 7).toISOString(),
+      type: 'manual_hedge',
+      symbol: 'BTC/USDT',
+      triggerPrice: 42800.00,
+      status: 'closed',
+      pnl: -85.20,
+      fees: 42.50
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: hedge fees and P&L default to zero',
+      up: (h) => ({ pnl: 0, fees: 0, ...h })
+    },
+    {
+      version: 2,
+      description: 'hedges record the market they are priced against',
+      up: (h) => ({ symbol: 'BTC/USDT', ...h })
+    }
+  ]
+});
+
+const hedgeAdjustmentsRepo = createRepository<HedgeAdjustmentLog>('hedge_adjustments', {
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: manual adjustments without a target band',
+      up: (l) => ({ source: 'manual', target: null, current: null, exposure: null, percent: null, ...l })
+    }
+  ]
+});
+
+const HEDGE_FEE_RATE = 0.005; // 0.5% of notional on open
+const AUTO_HEDGE_SYMBOL = 'BTC/USDT'; // auto hedges cover the whole book through BTC
+const AUTO_HEDGE_INTERVAL_MS = Number(process.env.AUTO_HEDGE_INTERVAL_MS) || 60_000;
+let hedgeSeq = 0;
+let autoHedgeTimer: NodeJS.Timeout | null = null;
 
 const balances: Balance[] = [
   {
@@ -113,15 +170,25 @@ const balances: Balance[] = [
   }
 ];
 
-let userHedgeSettings: UserHedgeSettings[] = [
-  {
-    userId: 'user_001',
-    hedgePercent: 0.25,
-    autoAdjust: true,
-    lastUpdated: new Date(Date.now() - 86400000).toISOString(),
-    updatedBy: 'user_001'
-  }
-];
+const hedgeSettingsRepo = createRepository<UserHedgeSettings>('hedge_settings', {
+  key: (s) => s.userId,
+  seed: () => [
+    {
+      userId: 'user_001',
+      hedgePercent: 0.25,
+      autoAdjust: true,
+      lastUpdated: new Date(Date.now() - 86400000).toISOString(),
+      updatedBy: 'user_001'
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: auto-adjust defaults to on',
+      up: (s) => ({ autoAdjust: true, ...s })
+    }
+  ]
+});
 
 const marketConditions: MarketConditions = {
   volatility: 0.045,
@@ -130,6 +197,133 @@ const marketConditions: MarketConditions = {
   lastUpdated: new Date().toISOString()
 };
 
+export function listHedges(): HedgeRecord[] {
+  return hedgeRepo.list();
+}
+
+// Live marks from the risk service; a hedge without one keeps its trigger price
+function markPrice(symbol: string): number | undefined {
+  return getRiskMarks()[symbol];
+}
+
+// Crypto value the hedges protect (everything but USDT)
+function hedgeableExposure() {
+  return balances.filter(b => b.asset !== 'USDT').reduce((sum, b) => sum + b.valueUsd, 0);
+}
+
+function effectiveHedgePercent(settings: UserHedgeSettings) {
+  return settings.autoAdjust ? marketConditions.recommendedHedgePercent : settings.hedgePercent;
+}
+
+function logAdjustment(entry: Omit<HedgeAdjustmentLog, 'id' | 'timestamp'>) {
+  return hedgeAdjustmentsRepo.upsert({ id: `hadj_${Date.now()}_${++hedgeSeq}`, timestamp: new Date().toISOString(), ...entry });
+}
+
+// Closes (part of) an active hedge at the current mark and books the realized P&L.
+// A partial close keeps the rest open and records the closed slice as its own record.
+function closeHedgeAmount(hedge: HedgeRecord, amount: number) {
+  const price = markPrice(hedge.symbol) ?? hedge.triggerPrice;
+  const closedAt = new Date().toISOString();
+  if (amount >= hedge.amount - 0.005) {
+    const pnl = hedgePnl(hedge.amount, hedge.triggerPrice, price);
+    const closed = hedgeRepo.update(hedge.id, (h) => {
+      h.status = 'closed';
+      h.pnl = pnl;
+      h.closePrice = price;
+      h.closedAt = closedAt;
+    })!;
+    return { record: closed, pnl, price };
+  }
+  const share = amount / hedge.amount;
+  const pnl = hedgePnl(amount, hedge.triggerPrice, price);
+  const slice: HedgeRecord = {
+    ...hedge,
+    id: `${hedge.id}_t${++hedgeSeq}`,
+    amount,
+    status: 'closed',
+    pnl,
+    fees: +(hedge.fees * share).toFixed(2),
+    closePrice: price,
+    closedAt
+  };
+  hedgeRepo.upsert(slice);
+  hedgeRepo.update(hedge.id, (h) => {
+    h.amount = +(h.amount - amount).toFixed(2);
+    h.fees = +(h.fees - slice.fees).toFixed(2);
+  });
+  return { record: slice, pnl, price };
+}
+
+function openHedge(userId: string, amount: number, type: HedgeRecord['type'], symbol: string) {
+  const hedge: HedgeRecord = {
+    id: `hedge_${Date.now()}_${++hedgeSeq}`,
+    userId,
+    amount,
+    timestamp: new Date().toISOString(),
+    type,
+    symbol,
+    triggerPrice: markPrice(symbol) ?? 0,
+    status: 'active',
+    pnl: 0,
+    fees: +(amount * HEDGE_FEE_RATE).toFixed(2)
+  };
+  return hedgeRepo.upsert(hedge);
+}
+
+/** Plans (and unless dryRun, applies) the auto-hedge adjustment for one user */
+export function runAutoHedge(userId: string, dryRun = false): HedgeAdjustment | null {
+  const settings = hedgeSettingsRepo.get(userId);
+  if (!settings) return null;
+  const hedges = hedgeRepo.list().filter(h => h.userId === userId);
+  const last = hedgeAdjustmentsRepo.list().filter(l => l.userId === userId && l.source === 'auto').pop();
+  const plan = planHedgeAdjustment({
+    exposure: hedgeableExposure(),
+    percent: effectiveHedgePercent(settings),
+    hedges,
+    lastAdjustedAt: last ? Date.parse(last.timestamp) : undefined,
+    now: Date.now()
+  }, DEFAULT_AUTO_HEDGE_CONFIG);
+  if (dryRun || plan.action === 'hold') return plan;
+
+  const context = { target: plan.target, current: plan.current, exposure: plan.exposure, percent: plan.percent, reason: plan.reason };
+  if (plan.action === 'open') {
+    const hedge = openHedge(userId, plan.amount, 'auto_hedge', AUTO_HEDGE_SYMBOL);
+    logAdjustment({ userId, action: 'open', source: 'auto', amount: plan.amount, price: hedge.triggerPrice, pnl: 0, hedgeIds: [hedge.id], ...context });
+    console.log(`Auto hedge opened: ${hedge.id} for ${plan.amount} USDT (${plan.reason})`);
+  } else {
+    let pnl = 0;
+    let price = 0;
+    const ids: string[] = [];
+    for (const t of plan.trims) {
+      const hedge = hedgeRepo.get(t.id);
+      if (!hedge || hedge.status !== 'active') continue;
+      const closed = closeHedgeAmount(hedge, t.amount);
+      pnl += closed.pnl;
+      price = closed.price;
+      ids.push(closed.record.id);
+    }
+    logAdjustment({ userId, action: 'trim', source: 'auto', amount: plan.amount, price, pnl: +pnl.toFixed(2), hedgeIds: ids, ...context });
+    console.log(`Auto hedge trimmed ${plan.amount} USDT for ${userId} (${plan.reason})`);
+  }
+  return plan;
+}
+
+// Every user with hedge settings is checked each interval; the engine's band and cooldown keep it quiet
+function startAutoHedgeLoop() {
+  if (autoHedgeTimer) return;
+  autoHedgeTimer = setInterval(() => {
+    for (const s of hedgeSettingsRepo.list()) {
+      try {
+        runAutoHedge(s.userId);
+      } catch (e) {
+        console.error(`Auto hedge failed for ${s.userId}:`, e);
+      }
+    }
+  }, AUTO_HEDGE_INTERVAL_MS);
+  autoHedgeTimer.unref?.();
+}
+startAutoHedgeLoop();
+
 // GET /wallet/hedges - Get hedge records with pagination and summary
 export function handleGetWalletHedges(req: Request, res: Response) {
   const {
@@ -139,7 +333,10 @@ export function handleGetWalletHedges(req: Request, res: Response) {
     status = 'all'
   } = req.query;
 
-  let filteredHedges = hedgeRecords.filter(hedge => hedge.userId === userId);
+  // Newest first
+  let filteredHedges = hedgeRepo.list()
+    .filter(hedge => hedge.userId === userId)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
 
   // Apply status filter
   if (status && status !== 'all') {
@@ -213,7 +410,7 @@ export function handleGetWalletWithdrawable(req: Request, res: Response) {
   const lockedValue = balances.reduce((sum, b) => sum + (b.locked / b.total) * b.valueUsd, 0);
   
   // Get active hedged value
-  const hedgedValue = hedgeRecords
+  const hedgedValue = hedgeRepo.list()
     .filter(h => h.status === 'active')
     .reduce((sum, h) => sum + h.amount, 0);
 
@@ -265,20 +462,9 @@ export function handlePostHedge(req: Request, res: Response) {
     });
   }
 
-  // Create new hedge record
-  const newHedge: HedgeRecord = {
-    id: `hedge_${Date.now()}`,
-    userId,
-    amount,
-    timestamp: new Date().toISOString(),
-    type: type as 'profit_hedge' | 'manual_hedge' | 'auto_hedge',
-    triggerPrice: 43500.00, // Current BTC price simulation
-    status: 'active',
-    pnl: 0,
-    fees: amount * 0.005 // 0.5% fee
-  };
-
-  hedgeRecords.unshift(newHedge);
+  // Create new hedge record, priced at the current BTC mark
+  const newHedge = openHedge(userId, amount, type as HedgeRecord['type'], AUTO_HEDGE_SYMBOL);
+  logAdjustment({ userId, action: 'open', source: 'manual', amount, target: null, current: null, exposure: null, percent: null, price: newHedge.triggerPrice, pnl: 0, reason: `${newHedge.type} requested`, hedgeIds: [newHedge.id] });
 
   // Update USDT balance
   const usdtBalance = balances.find(b => b.asset === 'USDT');
@@ -306,7 +492,7 @@ export function handlePostHedge(req: Request, res: Response) {
 export function handleGetHedgePercent(req: Request, res: Response) {
   const userId = req.query.userId as string || 'user_001'; // In production, get from auth
 
-  const userSettings = userHedgeSettings.find(s => s.userId === userId);
+  const userSettings = hedgeSettingsRepo.get(userId);
   
   if (!userSettings) {
     // Return default settings
@@ -362,7 +548,7 @@ export function handlePatchHedgePercent(req: Request, res: Response) {
   }
 
   // Find or create user settings
-  let userSettings = userHedgeSettings.find(s => s.userId === userId);
+  let userSettings = hedgeSettingsRepo.get(userId);
   
   if (!userSettings) {
     userSettings = {
@@ -372,7 +558,7 @@ export function handlePatchHedgePercent(req: Request, res: Response) {
       lastUpdated: new Date().toISOString(),
       updatedBy: userId
     };
-    userHedgeSettings.push(userSettings);
+    hedgeSettingsRepo.upsert(userSettings);
   } else {
     // Update existing settings
     if (hedgePercent !== undefined) {
@@ -383,6 +569,7 @@ export function handlePatchHedgePercent(req: Request, res: Response) {
     }
     userSettings.lastUpdated = new Date().toISOString();
     userSettings.updatedBy = userId;
+    hedgeSettingsRepo.upsert(userSettings);
   }
 
   console.log(`Hedge settings updated for ${userId}:`, userSettings);
@@ -487,7 +674,7 @@ export function handleGetWalletSnapshot(req: Request, res: Response) {
   const driftTolerance = 5.0; // 5% tolerance
 
   // Get hedged amount
-  const hedged = hedgeRecords
+  const hedged = hedgeRepo.list()
     .filter(h => h.status === 'active' && h.userId === userId)
     .reduce((sum, h) => sum + h.amount, 0);
 
@@ -529,9 +716,9 @@ export function handleCloseHedge(req: Request, res: Response) {
   const { hedgeId } = req.params;
   const { userId = 'user_001' } = req.body; // In production, get from auth
 
-  const hedge = hedgeRecords.find(h => h.id === hedgeId && h.userId === userId);
+  const hedge = hedgeRepo.get(hedgeId);
 
-  if (!hedge) {
+  if (!hedge || hedge.userId !== userId) {
     return res.status(404).json({
       status: 'error',
       message: 'Hedge position not found'
@@ -545,18 +732,55 @@ export function handleCloseHedge(req: Request, res: Response) {
     });
   }
 
-  // Close the hedge
-  hedge.status = 'closed';
+  // Close the hedge at the current mark and book the realized P&L
+  const { record, pnl, price } = closeHedgeAmount(hedge, hedge.amount);
+  logAdjustment({ userId, action: 'close', source: 'manual', amount: record.amount, target: null, current: null, exposure: null, percent: null, price, pnl, reason: 'closed by user', hedgeIds: [record.id] });
 
-  // Simulate final P&L calculation
-  const marketMovement = (Math.random() - 0.5) * 0.1; // ±5% movement
-  hedge.pnl = hedge.amount * marketMovement;
-
-  console.log(`Hedge closed: ${hedgeId} with P&L: ${hedge.pnl}`);
+  console.log(`Hedge closed: ${hedgeId} with P&L: ${pnl}`);
 
   res.json({
     status: 'success',
     message: 'Hedge position closed successfully',
-    data: hedge
+    data: record
+  });
+}
+
+// POST /hedge/auto/run - Run the auto-hedge engine now (dryRun previews without acting)
+export function handleRunAutoHedge(req: Request, res: Response) {
+  const { userId = 'user_001', dryRun = false } = req.body || {}; // In production, get from auth
+  const plan = runAutoHedge(String(userId), dryRun === true);
+  if (!plan) {
+    return res.status(404).json({ status: 'error', message: 'No hedge settings for user' });
+  }
+  res.json({ status: 'success', data: { ...plan, dryRun: dryRun === true, config: DEFAULT_AUTO_HEDGE_CONFIG } });
+}
+
+// GET /hedge/history - Hedge opens, trims and closes, newest first
+export function handleGetHedgeHistory(req: Request, res: Response) {
+  const userId = req.query.userId as string || 'user_001'; // In production, get from auth
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 50, 1), 500);
+  const source = req.query.source as string | undefined;
+  const items = hedgeAdjustmentsRepo.list()
+    .filter(l => l.userId === userId && (!source || l.source === source))
+    .reverse();
+  res.json({ status: 'success', data: { items: items.slice(0, limit), total: items.length } });
+}
+
+// GET /hedge/effectiveness - Coverage against target and realized/unrealized hedge P&L
+export function handleGetHedgeEffectiveness(req: Request, res: Response) {
+  const userId = req.query.userId as string || 'user_001'; // In production, get from auth
+  const settings = hedgeSettingsRepo.get(userId);
+  const percent = settings ? effectiveHedgePercent(settings) : marketConditions.recommendedHedgePercent;
+  const hedges = hedgeRepo.list().filter(h => h.userId === userId);
+  const report = hedgeEffectiveness(hedges, hedgeableExposure(), percent, (h) => markPrice(h.symbol));
+  const lastAuto = hedgeAdjustmentsRepo.list().filter(l => l.userId === userId && l.source === 'auto').pop() || null;
+  res.json({
+    status: 'success',
+    data: {
+      ...report,
+      autoAdjust: settings?.autoAdjust ?? true,
+      lastAutoAdjustment: lastAuto,
+      config: DEFAULT_AUTO_HEDGE_CONFIG
+    }
   });
 }
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { authenticate, handleLogin, requireAuth } from "./auth";
+import { handleAskLLM } from "./llm";
+
+// Mounted with the guards server/index.ts puts on these routes
+function app() {
+  const a = express();
+  a.use(express.json());
+  a.post("/api/auth/login", handleLogin);
+  a.use("/api", authenticate, requireAuth);
+  a.post("/api/llm/ask", handleAskLLM);
+  return a;
+}
+
+let server: Server;
+let base: string;
+const tokens: Record<string, string> = {};
+
+async function login(email: string, password: string) {
+  const res = await fetch(`${base}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  });
+  return (await res.json()).access_token as string;
+}
+
+function ask(as: string, body: unknown) {
+  return fetch(`${base}/api/llm/ask`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${tokens[as]}`,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  server = app().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  tokens.user = await login("user@projectaether.com", "user123");
+  tokens.admin = await login("admin@projectaether.com", "admin123");
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("llm ask", () => {
+  it("cites the audit ledger for admins only", async () => {
+    const question = "Who paused the system for maintenance?";
+    const citations = async (as: string) => {
+      const res = await ask(as, { question });
+      expect(res.status).toBe(200);
+      const { data } = await res.json();
+      return (data.context.documents as [string, string][]).map(([, id]) => id);
+    };
+    expect(
+      (await citations("admin")).some((id) => id.startsWith("audit:")),
+    ).toBe(true);
+    const forUser = await citations("user");
+    expect(forUser.filter((id) => /^(audit|compliance):/.test(id))).toEqual([]);
+  });
+
+  it("keeps excluded context out of retrieval", async () => {
+    const cited = async (include?: object) => {
+      const res = await ask("user", {
+        question: "What is the market sentiment today?",
+        include,
+      });
+      const { data } = await res.json();
+      return (data.context.documents as [string, string][]).map(([, id]) => id);
+    };
+    expect((await cited()).some((id) => id.startsWith("sentiment:"))).toBe(
+      true,
+    );
+    const without = await cited({ sentiment: false });
+    expect(without.filter((id) => id.startsWith("sentiment:"))).toEqual([]);
+  });
+
+  it("refuses questions over the length cap before answering", async () => {
+    const res = await ask("user", { question: "x".repeat(2001) });
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toMatch(/too long/);
+    expect((await ask("user", { question: "x".repeat(2000) })).status).toBe(
+      200,
+    );
+  });
+});
@@ -1,4 +1,15 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { createProvider, LocalProvider, type CompletionRequest, type LLMProvider } from '../llm/provider';
+import { estimateTokens, historyWithinBudget, MAX_QUESTION_TOKENS, threadToMarkdown, titleFromQuestion, type ConversationThread, type ConversationTurn } from '../llm/conversation';
+import { createRepository } from '../storage/repository';
+import { VectorIndex, type IndexedDocument } from '../llm/retrieval';
+import { getReportSnapshots } from './reports';
+import { listAuditEntries } from './audit';
+import { listComplianceLogs } from './compliance';
+import { listAllTrades, type Trade as TradeRecord } from './trades';
+import { listPolicies } from './asc';
+import { regimeTimeline } from './regime';
 
 // Types
 interface LLMQuestion {
@@ -9,6 +20,8 @@ interface LLMQuestion {
     sentiment?: boolean;
     regime?: boolean;
   };
+  // Continue this thread; a new thread is started when omitted
+  threadId?: string;
 }
 
 interface Trade {
@@ -32,93 +45,176 @@ interface LLMResponse {
   answer: string;
   context: LLMContext;
   warnings?: string[];
+  // True when a data source could not be indexed and context may be incomplete
   supabase_degraded?: boolean;
+  provider: { name: string; model: string };
+  thread: { id: string; title: string };
+  turnId: string;
 }
 
-// Mock data for demonstration
-const mockTrades: Trade[] = [
-  {
-    id: 'trade_001',
-    symbol: 'BTC/USDT',
-    action: 'buy',
-    amount: 0.5,
-    price: 43250.00,
-    timestamp: new Date(Date.now() - 3600000).toISOString()
-  },
-  {
-    id: 'trade_002',
-    symbol: 'ETH/USDT',
-    action: 'sell',
-    amount: 2.1,
-    price: 2680.50,
-    timestamp: new Date(Date.now() - 7200000).toISOString()
-  },
-  {
-    id: 'trade_003',
-    symbol: 'BTC/USDT',
-    action: 'buy',
-    amount: 0.25,
-    price: 43100.00,
-    timestamp: new Date(Date.now() - 10800000).toISOString()
-  },
-  {
-    id: 'trade_004',
-    symbol: 'ADA/USDT',
-    action: 'sell',
-    amount: 1000,
-    price: 0.48,
-    timestamp: new Date(Date.now() - 14400000).toISOString()
-  },
-  {
-    id: 'trade_005',
-    symbol: 'ETH/USDT',
-    action: 'buy',
-    amount: 1.5,
-    price: 2650.25,
-    timestamp: new Date(Date.now() - 18000000).toISOString()
-  }
-];
+// Retrieval-augmented answering: reports, the audit ledger, compliance logs
+// and trade history are flattened into documents and indexed locally (see
+// ../llm/retrieval.ts); each question retrieves the closest documents and the
+// provider answers from them, citing document ids. The index is rebuilt at
+// most every INDEX_TTL_MS so answers follow the data without re-embedding on
+// every request.
+
+const INDEX_TTL_MS = 30_000;
+const TOP_K = 6;
+// Hits scoring below this share of the best hit are dropped as noise
+const RELATIVE_CUTOFF = 0.35;
+const SNIPPET_CHARS = 240;
+// The audit ledger and compliance logs are only read by admins and founders
+// through REST, so only their questions retrieve from them
+const PRIVILEGED_SOURCES = ['audit', 'compliance'];
+const PRIVILEGED_ROLES = ['admin', 'founder'];
+
+const provider: LLMProvider = createProvider();
+const fallbackProvider = new LocalProvider();
+const index = new VectorIndex();
+let indexedAt = 0;
+let degradedSources: string[] = [];
+// Derived context, rebuilt with the index so it matches the indexed reports
+let snapshot = { strategy: '', regime: '', sentiment: '' };
+
+const n = (x: number, dp = 2) => x.toFixed(dp);
+const pct = (x: number) => `${x >= 0 ? '+' : ''}${n(x)}%`;
+
+function reportDocuments(): { docs: IndexedDocument[]; sentiment: string } {
+  const { daily, weekly, perAsset } = getReportSnapshots();
+  const day = daily.lastUpdated.slice(0, 10);
+  const docs: IndexedDocument[] = [
+    {
+      id: `report:daily:${day}`, source: 'report', at: daily.lastUpdated,
+      title: `Daily performance report ${day}`,
+      text: `Total return ${n(daily.totalReturn)} USD (${pct(daily.totalReturnPercent)}) across ${daily.activePortfolios} active portfolios, average performance ${pct(daily.avgPerformance)}. Top performer ${daily.topPerformer.asset} ${pct(daily.topPerformer.performance)}, bottom performer ${daily.bottomPerformer.asset} ${pct(daily.bottomPerformer.performance)}. Volatility ${n(daily.riskMetrics.volatility)}%, Sharpe ratio ${n(daily.riskMetrics.sharpeRatio)}, max drawdown ${n(daily.riskMetrics.maxDrawdown)}%.`
+    },
+    {
+      id: `report:weekly:${day}`, source: 'report', at: weekly.lastUpdated,
+      title: `Weekly performance report ${day}`,
+      text: `Weekly return ${pct(weekly.weeklyReturnPercent)} (${n(weekly.weeklyReturn)} USD), win rate ${n(weekly.winRate * 100, 1)}%, ${weekly.totalTrades} trades, Sharpe ratio ${n(weekly.sharpeRatio)}, max drawdown ${n(weekly.maxDrawdown)}%. Asset returns: ${weekly.weeklyAssetData.map(a => `${a.asset} ${pct(a.returns)}`).join(', ')}.`
+    },
+    ...perAsset.assets.map(a => ({
+      id: `report:asset:${a.symbol}:${day}`, source: 'report', at: perAsset.lastUpdated,
+      title: `${a.name} (${a.symbol}) asset report ${day}`,
+      text: `${a.symbol} price ${n(a.currentPrice)}, daily change ${pct(a.dailyChange)}, weekly ${pct(a.weeklyChange)}, monthly ${pct(a.monthlyChange)}. Allocation ${a.allocation}%, volatility ${n(a.volatility)}%, Sharpe ratio ${n(a.sharpeRatio)}, max drawdown ${n(a.maxDrawdown)}%, ${a.trades} trades.`
+    }))
+  ];
+  // Market tone: allocation-weighted daily change across the book
+  const weighted = perAsset.assets.reduce((s, a) => s + a.dailyChange * a.allocation, 0) / 100;
+  const tone = weighted > 1 ? 'Bullish' : weighted < -1 ? 'Bearish' : 'Neutral';
+  const sentiment = `${tone} (allocation-weighted daily change ${pct(weighted)})`;
+  docs.push({
+    id: `report:per-asset:${day}`, source: 'report', at: perAsset.lastUpdated,
+    title: `Per-asset summary ${day}`,
+    text: `Top performer ${perAsset.summary.topPerformer.symbol} ${pct(perAsset.summary.topPerformer.return)}, bottom performer ${perAsset.summary.bottomPerformer.symbol} ${pct(perAsset.summary.bottomPerformer.return)}, average volatility ${n(perAsset.summary.avgVolatility)}%.`
+  }, {
+    // Its own source, so questions that leave sentiment out never retrieve it
+    id: `sentiment:${day}`, source: 'sentiment', at: perAsset.lastUpdated,
+    title: `Market sentiment ${day}`,
+    text: `Market sentiment ${sentiment}.`
+  });
+  return { docs, sentiment };
+}
+
+function auditDocuments(): IndexedDocument[] {
+  return listAuditEntries({ limit: 500 }).map(e => ({
+    id: `audit:${e.id}`, source: 'audit', at: e.at,
+    title: `${e.action} by ${e.actor}${e.success ? '' : ' (failed)'}`,
+    text: [
+      e.details && e.details.replace(/\.?$/, '.'),
+      e.target && `Target ${e.target}.`,
+      (e.before !== undefined || e.after !== undefined) && `Changed from ${JSON.stringify(e.before ?? null)} to ${JSON.stringify(e.after ?? null)}.`,
+      `Recorded ${e.at}.`
+    ].filter(Boolean).join(' ')
+  }));
+}
+
+function complianceDocuments(): IndexedDocument[] {
+  return listComplianceLogs().map(c => ({
+    id: `compliance:${c.id}`, source: 'compliance', at: c.timestamp,
+    title: `${c.rule.toUpperCase()} compliance check ${c.status === 'pass' ? 'passed' : 'failed'}`,
+    text: `${c.message} on trade ${c.tradeId} for ${c.user}; severity ${c.severity}, checked ${c.timestamp}.`
+  }));
+}
+
+function tradeDocuments(): IndexedDocument[] {
+  return listAllTrades().map(t => ({
+    id: `trade:${t.id}`, source: 'trade', at: t.timestamp,
+    title: `${t.action.toUpperCase()} ${t.amount} ${t.symbol}`,
+    text: `${t.action === 'buy' ? 'Bought' : 'Sold'} ${t.amount} ${t.symbol} at ${t.price} on ${t.timestamp}, ${t.status}. P&L ${n(t.pnl)}, net P&L ${n(t.net_pnl)}, fees ${n(t.fee_cost)}, slippage ${n(t.slippage_cost)}. Trade ref ${t.trade_id}.`
+  }));
+}
+
+function strategyDocument(): { doc: IndexedDocument; summary: string } {
+  const policies = listPolicies();
+  const active = policies.filter(p => p.enabled);
+  const summary = active.map(p => `${p.name} ${n(p.weight * 100, 0)}%`).join(', ') +
+    (active.length < policies.length ? ` (disabled: ${policies.filter(p => !p.enabled).map(p => p.name).join(', ')})` : '');
+  return {
+    summary,
+    doc: {
+      id: 'strategy:asc-weights', source: 'strategy',
+      title: 'Adaptive strategy controller weights',
+      text: `Strategy policy weights: ${policies.map(p => `${p.name} ${n(p.weight * 100, 0)}% ${p.enabled ? 'enabled' : 'disabled'}, Sharpe ${p.kpis.sharpe}, win rate ${n(p.kpis.win_rate * 100, 0)}%`).join('; ')}.`
+    }
+  };
+}
+
+function regimeDocument(): { doc: IndexedDocument; summary: string } | null {
+  const t = regimeTimeline({ symbol: 'BTC' });
+  const seg = t.segments[t.segments.length - 1];
+  if (!seg) return null;
+  const confidence = n((t.latest?.confidence ?? seg.confidence) * 100, 0);
+  return {
+    summary: `${seg.label} (${t.symbol}, ${confidence}% confidence)`,
+    doc: {
+      id: `regime:${seg.id}`, source: 'regime', at: seg.start,
+      title: `Market regime ${seg.label} for ${t.symbol}`,
+      text: `${t.symbol} market regime is ${seg.label} since ${seg.start} with ${confidence}% confidence; realized volatility ${n(seg.features.realizedVol * 100, 1)}%, drawdown ${n(seg.features.drawdown * 100, 1)}%.`
+    }
+  };
+}
+
+// Rebuilds the index from every source; a failing source is left out and
+// reported rather than failing the question
+function refreshIndex(force = false) {
+  if (!force && Date.now() - indexedAt < INDEX_TTL_MS) return;
+  const docs: IndexedDocument[] = [];
+  const failed: string[] = [];
+  const next = { strategy: '', regime: '', sentiment: '' };
+  const collect = (source: string, build: () => void) => {
+    try { build(); } catch (err) {
+      console.error(`LLM index: ${source} unavailable:`, err);
+      failed.push(source);
+    }
+  };
+  collect('reports', () => { const r = reportDocuments(); docs.push(...r.docs); next.sentiment = r.sentiment; });
+  collect('audit log', () => docs.push(...auditDocuments()));
+  collect('compliance logs', () => docs.push(...complianceDocuments()));
+  collect('trade history', () => docs.push(...tradeDocuments()));
+  collect('strategy', () => { const s = strategyDocument(); docs.push(s.doc); next.strategy = s.summary; });
+  collect('regime', () => { const r = regimeDocument(); if (r) { docs.push(r.doc); next.regime = r.summary; } });
+  index.replace(docs);
+  indexedAt = Date.now();
+  degradedSources = failed;
+  snapshot = next;
+}
+
+function toContextTrade(t: TradeRecord): Trade {
+  return { id: t.id, symbol: t.symbol, action: t.action, amount: t.amount, price: t.price, timestamp: t.timestamp };
+}
 
-const mockDocuments: [string, string][] = [
-  ["Market analysis shows increased volatility in crypto markets with Bitcoin testing resistance at $43,000 level...", "doc_ma_001"],
-  ["Trading strategy recommendation: Consider DCA approach during current market consolidation phase...", "doc_ts_002"],
-  ["Risk management protocol activated: Portfolio exposure reduced by 15% due to elevated VIX levels...", "doc_rm_003"],
-  ["Sentiment analysis indicates bearish sentiment in social media with fear & greed index at 25...", "doc_sa_004"]
-];
+function snippet(doc: IndexedDocument): string {
+  const s = `${doc.title}: ${doc.text}`;
+  return s.length > SNIPPET_CHARS ? `${s.slice(0, SNIPPET_CHARS - 1)}…` : s;
+}
 
 // Rate limiting tracking (in production, use Redis or similar)
 const rateLimits = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_MAX = 10; // Max requests per user per hour
 const RATE_LIMIT_WINDOW = 3600000; // 1 hour in milliseconds
 
-// Simulate OpenAI API responses based on question content
-function generateMockAnswer(question: string): string {
-  const lowerQuestion = question.toLowerCase();
-  
-  if (lowerQuestion.includes('portfolio') || lowerQuestion.includes('position')) {
-    return `Based on your current portfolio analysis, you have active positions in BTC, ETH, and ADA. Your portfolio is currently balanced with 60% in major cryptocurrencies and 40% in altcoins. Recent trades show a focus on Bitcoin accumulation during the dip. Consider maintaining current allocation while monitoring support levels.`;
-  }
-  
-  if (lowerQuestion.includes('market') || lowerQuestion.includes('price')) {
-    return `Current market conditions show consolidation with Bitcoin testing the $43,000 resistance level. Market sentiment is cautiously bearish with the fear & greed index at 25. Technical indicators suggest potential for either breakout above $44,000 or retest of $41,000 support. Volume patterns indicate institutional accumulation.`;
-  }
-  
-  if (lowerQuestion.includes('strategy') || lowerQuestion.includes('trading')) {
-    return `Your current trading strategy is focused on momentum-based entries with risk management protocols. The system recommends a DCA approach during consolidation phases. Recent performance shows 12% gains over the past month with a 0.8 Sharpe ratio. Consider reducing position sizes if volatility exceeds 15% daily.`;
-  }
-  
-  if (lowerQuestion.includes('risk') || lowerQuestion.includes('hedge')) {
-    return `Risk management analysis shows your current exposure is within acceptable parameters. Portfolio beta is 1.2 relative to BTC. Hedge ratio is at 25% USDT allocation. Consider increasing hedge positions if market uncertainty persists. Stop-loss levels are appropriately set at 8% below entry points.`;
-  }
-  
-  if (lowerQuestion.includes('sentiment') || lowerQuestion.includes('news')) {
-    return `Current market sentiment analysis from social media and news sources indicates mixed signals. Fear & greed index at 25 suggests oversold conditions. Key developments include institutional adoption news and regulatory clarity. On-chain metrics show accumulation by long-term holders.`;
-  }
-  
-  // Default response
-  return `I've analyzed your question using the latest market data and your trading history. Based on current conditions and your portfolio context, I recommend monitoring key support and resistance levels while maintaining your current risk management protocols. Your recent trading performance has been solid with consistent gains. Please let me know if you'd like me to elaborate on any specific aspect.`;
-}
-
 // Check rate limit for user
 function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number } {
   const now = Date.now();
@@ -139,104 +235,348 @@ function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number
 }
 
 // POST /llm/ask - Ask LLM a question
-export function handleAskLLM(req: Request, res: Response) {
-  const { question, include } = req.body as LLMQuestion;
-  const userId = req.query.userId as string || 'user_001'; // In production, get from auth
-  
+// Conversation threads persist per user so an investigation can be resumed
+const threads = createRepository<ConversationThread>('llm_threads');
+
+function ownerOf(req: Request): string {
+  return req.user?.id || 'anonymous';
+}
+
+// Other users' threads read as missing rather than forbidden
+function findThread(req: Request, threadId: string): ConversationThread | undefined {
+  const thread = threads.get(threadId);
+  return thread && thread.owner === ownerOf(req) ? thread : undefined;
+}
+
+function newThread(owner: string, title: string): ConversationThread {
+  const now = new Date().toISOString();
+  return { id: `thread_${crypto.randomBytes(6).toString('hex')}`, owner, title, createdAt: now, updatedAt: now, turns: [] };
+}
+
+function threadSummary(t: ConversationThread) {
+  const { turns, owner: _owner, ...rest } = t;
+  return { ...rest, turnCount: turns.length, lastQuestion: turns[turns.length - 1]?.question };
+}
+
+interface PreparedAnswer {
+  userId: string;
+  thread: ConversationThread;
+  context: LLMContext;
+  request: CompletionRequest;
+  warnings: string[];
+}
+
+// Validates the question, applies the rate limit and assembles the context
+// and prior turns. Sends the error response itself and returns null when the
+// question cannot be answered.
+function prepareAnswer(req: Request, res: Response): PreparedAnswer | null {
+  const { question, include, threadId } = (req.body || {}) as LLMQuestion;
+  const userId = req.user?.id || req.query.userId as string || 'user_001';
+
   // Input validation
   if (!question || typeof question !== 'string') {
-    return res.status(400).json({
+    res.status(400).json({
       status: 'error',
       message: 'Question is required and must be a string'
     });
+    return null;
   }
-  
-  if (question.length === 0) {
-    return res.status(400).json({
+
+  if (question.trim().length === 0) {
+    res.status(400).json({
       status: 'error',
       message: 'Question cannot be empty'
     });
+    return null;
   }
-  
-  if (question.length > 500) {
-    return res.status(413).json({
+
+  if (estimateTokens(question) > MAX_QUESTION_TOKENS) {
+    res.status(400).json({
       status: 'error',
-      message: 'Question too long (max 500 characters)'
+      message: `Question is too long (max ${MAX_QUESTION_TOKENS * 4} characters)`
     });
+    return null;
   }
-  
+
+  const thread = threadId ? findThread(req, threadId) : newThread(ownerOf(req), titleFromQuestion(question));
+  if (!thread) {
+    res.status(404).json({ status: 'error', message: 'Thread not found' });
+    return null;
+  }
+
   // Check rate limiting
   const rateCheck = checkRateLimit(userId);
   if (!rateCheck.allowed) {
     const resetIn = Math.ceil((rateCheck.resetTime! - Date.now()) / 60000); // Minutes
-    return res.status(429).json({
+    res.status(429).json({
       status: 'error',
       message: `Rate limit exceeded. Try again in ${resetIn} minutes.`,
       resetTime: rateCheck.resetTime
     });
+    return null;
   }
-  
-  // Simulate processing delay
-  setTimeout(() => {
+
+  const wantTrades = include?.trades !== false;
+  const wantRegime = include?.regime !== false;
+  const wantSentiment = include?.sentiment !== false;
+  const wantSignals = include?.signals !== false;
+
+  refreshIndex();
+  // Excluded context is kept out of retrieval too, not just out of the panel
+  const sources = ['report'];
+  if (PRIVILEGED_ROLES.includes(req.user?.role || '')) sources.push(...PRIVILEGED_SOURCES);
+  if (wantTrades) sources.push('trade');
+  if (wantSignals) sources.push('strategy');
+  if (wantRegime) sources.push('regime');
+  if (wantSentiment) sources.push('sentiment');
+  const search = (q: string) => {
+    const ranked = index.search(q, { k: TOP_K, sources });
+    return ranked.filter(h => h.score >= ranked[0].score * RELATIVE_CUTOFF);
+  };
+  const hits = search(question);
+  // Follow-ups such as "and for ETH?" keep the previous question's documents
+  const previous = thread.turns[thread.turns.length - 1];
+  if (previous) {
+    for (const h of search(previous.question)) {
+      if (hits.length >= TOP_K) break;
+      if (!hits.some(x => x.doc.id === h.doc.id)) hits.push(h);
+    }
+  }
+
+  const tradeIds = new Set(hits.filter(h => h.doc.source === 'trade').map(h => h.doc.id.slice('trade:'.length)));
+  const cited = listAllTrades().filter(t => tradeIds.has(t.id)).map(toContextTrade);
+  const context: LLMContext = {
+    trades: !wantTrades ? [] : cited.length ? cited : listAllTrades()
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, 5)
+      .map(toContextTrade),
+    strategy: wantSignals ? snapshot.strategy || 'Strategy context unavailable' : 'Strategy context omitted',
+    regime: wantRegime ? snapshot.regime || 'Regime context unavailable' : 'Regime context omitted',
+    sentiment: wantSentiment ? snapshot.sentiment || 'Sentiment context unavailable' : 'Sentiment context omitted',
+    documents: hits.map(h => [snippet(h.doc), h.doc.id])
+  };
+
+  console.log(`LLM question from ${userId} in ${thread.id}: "${question.substring(0, 50)}..."`);
+
+  return {
+    userId,
+    thread,
+    context,
+    request: { question, context: hits.map(h => h.doc), history: historyWithinBudget(thread.turns) },
+    warnings: degradedSources.map(s => `Partial context: ${s} unavailable`)
+  };
+}
+
+function recordTurn(prepared: PreparedAnswer, answer: string, used: LLMProvider, cancelled = false): ConversationTurn {
+  const at = new Date().toISOString();
+  const turn: ConversationTurn = {
+    id: `turn_${crypto.randomBytes(6).toString('hex')}`,
+    question: prepared.request.question,
+    answer,
+    citations: prepared.context.documents.map(([, id]) => id),
+    provider: { name: used.name, model: used.model },
+    at,
+    ...(cancelled ? { cancelled: true } : {})
+  };
+  // Re-read so turns recorded concurrently in the same thread are kept
+  const stored = threads.get(prepared.thread.id) || prepared.thread;
+  prepared.thread = threads.upsert({ ...stored, updatedAt: at, turns: [...stored.turns, turn] });
+  return turn;
+}
+
+function fallbackWarning(err: unknown) {
+  console.error('LLM provider failed, answering locally:', err);
+  return `${(err as Error).message}; answered from local retrieval`;
+}
+
+// POST /llm/ask - Ask LLM a question
+export async function handleAskLLM(req: Request, res: Response) {
+  const prepared = prepareAnswer(req, res);
+  if (!prepared) return;
+  const { context, request, warnings } = prepared;
+
+  try {
+    let used = provider;
+    let answer: string;
+    try {
+      answer = await provider.complete(request);
+    } catch (err) {
+      if (provider === fallbackProvider) throw err;
+      warnings.push(fallbackWarning(err));
+      used = fallbackProvider;
+      answer = await fallbackProvider.complete(request);
+    }
+    const turn = recordTurn(prepared, answer, used);
+
+    const response: LLMResponse = {
+      answer,
+      context,
+      warnings,
+      supabase_degraded: degradedSources.length > 0,
+      provider: { name: used.name, model: used.model },
+      thread: { id: prepared.thread.id, title: prepared.thread.title },
+      turnId: turn.id
+    };
+
+    res.json({
+      status: 'success',
+      data: response,
+      answer: response.answer,
+      message: response.answer,
+      content: response.answer
+    });
+
+  } catch (error) {
+    console.error('LLM request failed:', error);
+    res.status(502).json({
+      status: 'error',
+      message: 'LLM request failed. Please try again.'
+    });
+  }
+}
+
+// POST /llm/ask/stream - Same question as /llm/ask, answered as server-sent
+// events: `context` (thread, context and warnings), a `token` per chunk of the
+// answer, then `done` with the stored turn, or `error`. Closing the connection
+// cancels the answer; what was streamed so far is kept as a cancelled turn.
+export async function handleAskLLMStream(req: Request, res: Response) {
+  const prepared = prepareAnswer(req, res);
+  if (!prepared) return;
+  const { context, request, warnings } = prepared;
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send('context', {
+    thread: { id: prepared.thread.id, title: prepared.thread.title },
+    context,
+    warnings,
+    supabase_degraded: degradedSources.length > 0
+  });
+
+  let used = provider;
+  let answer = '';
+  const run = async (p: LLMProvider) => {
+    for await (const text of p.stream({ ...request, signal: controller.signal })) {
+      if (controller.signal.aborted) break;
+      answer += text;
+      send('token', { text });
+    }
+  };
+
+  try {
     try {
-      // In production, this would:
-      // 1. Query Weaviate for relevant documents
-      // 2. Gather user's recent trades and strategy context
-      // 3. Call OpenAI API with context and question
-      // 4. Return structured response
-      
-      // Mock context gathering with include controls
-      const wantTrades = include?.trades !== false;
-      const wantRegime = include?.regime !== false;
-      const wantSentiment = include?.sentiment !== false;
-      const wantSignals = include?.signals !== false;
-
-      const context: LLMContext = {
-        trades: wantTrades ? mockTrades.slice(0, 5) : [],
-        strategy: wantSignals ? 'Momentum DCA Strategy v2.1' : 'Strategy context omitted',
-        regime: wantRegime ? 'Consolidation Phase' : 'Regime context omitted',
-        sentiment: wantSentiment ? 'Cautiously Bearish' : 'Sentiment context omitted',
-        documents: mockDocuments
-      };
-
-      // Simulate degradation and warnings
-      const supabaseDegraded = Math.random() < 0.05;
-      const weaviateFailed = Math.random() < 0.05;
-      const warnings: string[] = [];
-      if (supabaseDegraded) warnings.push('Partial context: Supabase data unavailable');
-      if (weaviateFailed) warnings.push('Vector search degraded: Weaviate timeout, used fallback retriever');
-
-      // Generate mock answer
-      let answer = generateMockAnswer(question);
-      if (weaviateFailed) {
-        answer += '\n\nNote: Some document sources were unavailable; fallback context used.';
-      }
-
-      const response: LLMResponse = {
-        answer,
-        context,
-        warnings,
-        supabase_degraded: supabaseDegraded
-      };
-      
-      console.log(`LLM question from ${userId}: "${question.substring(0, 50)}..."`);
-      
-      res.json({
-        status: 'success',
-        data: response,
-        answer: response.answer,
-        message: response.answer,
-        content: response.answer
-      });
-      
-    } catch (error) {
-      console.error('LLM request failed:', error);
-      res.status(502).json({
-        status: 'error',
-        message: 'LLM request failed. Please try again.'
-      });
+      await run(provider);
+    } catch (err) {
+      // Only fall back before anything was sent; a half answer cannot be redone
+      if (controller.signal.aborted || answer || provider === fallbackProvider) throw err;
+      const warning = fallbackWarning(err);
+      warnings.push(warning);
+      send('warning', { message: warning });
+      used = fallbackProvider;
+      await run(fallbackProvider);
+    }
+    if (controller.signal.aborted) {
+      recordTurn(prepared, answer, used, true);
+      return;
+    }
+    const turn = recordTurn(prepared, answer, used);
+    send('done', {
+      turn,
+      thread: { id: prepared.thread.id, title: prepared.thread.title },
+      provider: { name: used.name, model: used.model },
+      warnings
+    });
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) {
+      recordTurn(prepared, answer, used, true);
+      return;
     }
-  }, 1000 + Math.random() * 2000); // 1-3 second delay to simulate processing
+    console.error('LLM stream failed:', error);
+    send('error', { message: 'LLM request failed. Please try again.' });
+    res.end();
+  }
+}
+
+// GET /llm/threads - The caller's threads, most recently active first
+export function handleListThreads(req: Request, res: Response) {
+  const owner = ownerOf(req);
+  const items = threads.list()
+    .filter(t => t.owner === owner)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(threadSummary);
+  res.json({ status: 'success', data: items });
+}
+
+function parseTitle(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value.trim().slice(0, 120);
+}
+
+// POST /llm/threads - Start an empty thread
+export function handleCreateThread(req: Request, res: Response) {
+  const title = req.body?.title === undefined ? 'New conversation' : parseTitle(req.body.title);
+  if (!title) {
+    return res.status(400).json({ status: 'error', message: 'Title must be a non-empty string' });
+  }
+  const thread = threads.upsert(newThread(ownerOf(req), title));
+  res.status(201).json({ status: 'success', data: thread });
+}
+
+// GET /llm/threads/:threadId - A thread with all of its turns
+export function handleGetThread(req: Request, res: Response) {
+  const thread = findThread(req, req.params.threadId);
+  if (!thread) return res.status(404).json({ status: 'error', message: 'Thread not found' });
+  res.json({ status: 'success', data: thread });
+}
+
+// PATCH /llm/threads/:threadId - Rename
+export function handleRenameThread(req: Request, res: Response) {
+  const thread = findThread(req, req.params.threadId);
+  if (!thread) return res.status(404).json({ status: 'error', message: 'Thread not found' });
+  const title = parseTitle(req.body?.title);
+  if (!title) {
+    return res.status(400).json({ status: 'error', message: 'Title must be a non-empty string' });
+  }
+  const updated = threads.update(thread.id, t => ({ ...t, title, updatedAt: new Date().toISOString() }));
+  res.json({ status: 'success', data: updated && threadSummary(updated) });
+}
+
+// DELETE /llm/threads/:threadId
+export function handleDeleteThread(req: Request, res: Response) {
+  const thread = findThread(req, req.params.threadId);
+  if (!thread) return res.status(404).json({ status: 'error', message: 'Thread not found' });
+  threads.remove(thread.id);
+  res.json({ status: 'success', message: `Thread ${thread.id} deleted` });
+}
+
+// GET /llm/threads/:threadId/export?format=markdown|json - Download a thread
+export function handleExportThread(req: Request, res: Response) {
+  const thread = findThread(req, req.params.threadId);
+  if (!thread) return res.status(404).json({ status: 'error', message: 'Thread not found' });
+  const format = String(req.query.format || 'markdown').toLowerCase();
+  if (format !== 'markdown' && format !== 'json') {
+    return res.status(400).json({ status: 'error', message: 'format must be markdown or json' });
+  }
+  const { owner: _owner, ...exported } = thread;
+  res.setHeader('Content-Disposition', `attachment; filename="${thread.id}.${format === 'json' ? 'json' : 'md'}"`);
+  if (format === 'json') {
+    res.setHeader('Content-Type', 'application/json');
+    return res.send(JSON.stringify(exported, null, 2));
+  }
+  res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+  res.send(threadToMarkdown(thread));
 }
 
 // GET /llm/status - Get LLM service status (for debugging)
@@ -245,7 +585,14 @@ export function handleLLMStatus(_req: Request, res: Response) {
     status: 'success',
     data: {
       service: 'active',
-      model: 'gpt-4-turbo',
+      provider: provider.name,
+      model: provider.model,
+      index: {
+        documents: index.size,
+        sources: index.stats(),
+        refreshedAt: indexedAt ? new Date(indexedAt).toISOString() : null,
+        degraded: degradedSources
+      },
       rateLimits: {
         maxPerHour: RATE_LIMIT_MAX,
         windowMs: RATE_LIMIT_WINDOW
@@ -254,7 +601,9 @@ export function handleLLMStatus(_req: Request, res: Response) {
         'Question answering',
         'Context retrieval',
         'Document search',
-        'Trading analysis'
+        'Trading analysis',
+        'Streaming answers',
+        'Conversation threads'
       ]
     }
   });
@@ -1,4 +1,6 @@
 import { Request, Response } from 'express';
+import { createProposal, governanceErrorStatus, registerProposalExecutor } from './governance';
+import { GovernanceConflictError } from '../governance/engine';
 
 // Types matching the specification
 interface MarketItem {
@@ -229,6 +231,12 @@ const mockMarkets: MarketItem[] = [
 const DEFAULT_PAGE_LIMIT = 25;
 const MAX_PAGE_LIMIT = 100;
 
+/** Market entry for a symbol (case-insensitive), for pre-trade checks */
+export function findMarket(symbol: string): Readonly<MarketItem> | undefined {
+  const sym = String(symbol).trim().toUpperCase();
+  return mockMarkets.find(m => m.symbol.toUpperCase() === sym);
+}
+
 // Get eligible markets with filtering and pagination
 export function handleGetEligibleMarkets(req: Request, res: Response) {
   const {
@@ -430,7 +438,34 @@ export function handleExportMarkets(req: Request, res: Response) {
   });
 }
 
-// Admin: apply governance strategy override (allow/block) for a symbol
+interface OverridePayload {
+  symbol: string;
+  action: 'allow' | 'block';
+  reason: string;
+}
+
+// Overrides are only set by a passed market_override proposal
+registerProposalExecutor<OverridePayload>('market_override', {
+  subject: ({ symbol }) => symbol,
+  precheck: ({ symbol }) => {
+    if (!findMarket(symbol)) throw new GovernanceConflictError(`${symbol} is no longer listed`);
+  },
+  diff: ({ symbol, action }) => [{ path: `${symbol}.override`, before: findMarket(symbol)?.override ?? null, after: action }],
+  snapshot: ({ symbol }) => ({ override: findMarket(symbol)?.override ?? null }),
+  restore: (snapshot: Pick<MarketItem, 'override'>, { symbol }) => {
+    const market = mockMarkets.find(m => m.symbol.toUpperCase() === symbol);
+    if (market) market.override = snapshot.override;
+  },
+  apply: ({ symbol, action, reason }, proposal) => {
+    const market = mockMarkets.find(m => m.symbol.toUpperCase() === symbol)!;
+    market.override = action;
+    console.log(`Strategy override ${action} on ${symbol} applied by proposal ${proposal.id}: ${reason}`);
+    return { symbol, override: action };
+  }
+});
+
+// Admin: propose a governance strategy override (allow/block) for a symbol;
+// it is applied once founders approve the proposal
 export function handleStrategyOverride(req: Request, res: Response) {
   try {
     const { symbol, action, reason } = req.body || {};
@@ -448,19 +483,36 @@ export function handleStrategyOverride(req: Request, res: Response) {
       return res.status(400).json({ status: 'error', detail: 'reason must be at least 10 characters' });
     }
 
-    const idx = mockMarkets.findIndex(m => m.symbol.toUpperCase() === sym);
-    if (idx === -1) {
+    if (!findMarket(sym)) {
       return res.status(404).json({ status: 'error', detail: 'symbol not found' });
     }
 
-    // Simulate governance approval by immediately setting override; real system would queue proposal
-    mockMarkets[idx].override = action;
-    const audit_entry_id = `audit_${Date.now()}`;
+    let proposal;
+    try {
+      proposal = createProposal<OverridePayload>({
+        kind: 'market_override',
+        description: `${action === 'block' ? 'Block' : 'Allow'} ${sym}: ${reason.trim()}`,
+        payload: { symbol: sym, action, reason: reason.trim() },
+        createdBy: req.user?.email || 'unknown'
+      });
+    } catch (e) {
+      const code = governanceErrorStatus(e);
+      if (code === 500) throw e;
+      return res.status(code).json({ status: 'error', detail: (e as Error).message });
+    }
 
-    return res.status(201).json({
+    return res.status(202).json({
       status: 'success',
-      message: 'Override applied',
-      data: { symbol: sym, override: action, reason: reason.trim(), audit_entry_id }
+      message: 'Override proposed',
+      data: {
+        symbol: sym,
+        override: action,
+        reason: reason.trim(),
+        proposal_id: proposal.id,
+        proposal_status: proposal.status,
+        required_votes: proposal.requiredVotes,
+        expires_at: proposal.expiresAt
+      }
     });
   } catch (e) {
     return res.status(500).json({ status: 'error', detail: 'internal error' });
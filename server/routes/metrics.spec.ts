@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { instrumentRequests, renderMetrics } from "./metrics";
+
+// Instrumented like server/index.ts, with one route behind a mounted router
+function app() {
+  const a = express();
+  a.use(instrumentRequests);
+  const models = express.Router();
+  models.get("/:modelId", (req, res) => res.json({ id: req.params.modelId }));
+  a.use("/api/models", models);
+  a.get("/api/health", (_req, res) => res.json({ ok: true }));
+  return a;
+}
+
+let server: Server;
+let base: string;
+
+function requestCount(labels: string) {
+  const line = renderMetrics()
+    .split("\n")
+    .find((l) => l.startsWith(`aether_http_requests_total{${labels}} `));
+  return line ? Number(line.split(" ").pop()) : 0;
+}
+
+beforeAll(async () => {
+  server = app().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("request metrics", () => {
+  it("labels requests by route pattern, not raw URL", async () => {
+    for (const id of ["m1", "m2", "m3"]) {
+      expect((await fetch(`${base}/api/models/${id}`)).status).toBe(200);
+    }
+    await fetch(`${base}/api/health`);
+
+    expect(
+      requestCount('method="GET",route="/api/models/:modelId",status="200"'),
+    ).toBe(3);
+    expect(requestCount('method="GET",route="/api/health",status="200"')).toBe(
+      1,
+    );
+    expect(renderMetrics()).not.toMatch(/route="\/api\/models\/m\d"/);
+  });
+
+  it("pools requests no route handled under one label", async () => {
+    for (const path of ["/nope", "/api/missing/1", "/api/missing/2"]) {
+      expect((await fetch(`${base}${path}`)).status).toBe(404);
+    }
+
+    expect(requestCount('method="GET",route="unmatched",status="404"')).toBe(3);
+    expect(renderMetrics()).not.toMatch(/route="\/(nope|api\/missing)/);
+    expect(renderMetrics()).toMatch(
+      /aether_http_request_duration_seconds_count\{method="GET",route="unmatched"\} 3/,
+    );
+  });
+});
@@ -0,0 +1,318 @@
+import type { Request, RequestHandler, Response } from "express";
+import { listOpenPositions } from "./trades";
+import { listHedges } from "./hedge";
+import { listTrainingJobs } from "./models";
+import { getSystemState } from "./system";
+import { getRiskSnapshot } from "./risk";
+
+// Prometheus metrics
+//
+// instrumentRequests records every HTTP request once its response is done,
+// labelled by the matched route pattern (e.g. /api/models/:modelId) rather
+// than the raw URL so label cardinality stays bounded. Domain gauges are read
+// from their owning modules at scrape time, so they are never stale.
+
+type Labels = Record<string, string>;
+
+// Seconds; roughly the default Prometheus client buckets
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const requestCounts = new Map<string, { labels: Labels; value: number }>();
+const latency = new Map<
+  string,
+  { labels: Labels; buckets: number[]; sum: number; count: number }
+>();
+const inFlight = new Map<string, number>();
+const startedAt = Date.now();
+
+function labelKey(labels: Labels) {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}=${labels[k]}`)
+    .join(",");
+}
+
+function escapeLabel(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const parts = Object.entries(labels).map(
+    ([k, v]) => `${k}="${escapeLabel(v)}"`,
+  );
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+// Route pattern for a finished request; anything no route handled is pooled
+function routeLabel(req: Request) {
+  if (!req.route?.path) return "unmatched";
+  const path = Array.isArray(req.route.path)
+    ? req.route.path.join("|")
+    : String(req.route.path);
+  return `${req.baseUrl || ""}${path}`;
+}
+
+export const instrumentRequests: RequestHandler = (req, res, next) => {
+  const start = process.hrtime.bigint();
+  const method = req.method;
+  inFlight.set(method, (inFlight.get(method) || 0) + 1);
+
+  let recorded = false;
+  const record = () => {
+    if (recorded) return;
+    recorded = true;
+    inFlight.set(method, Math.max(0, (inFlight.get(method) || 1) - 1));
+
+    const route = routeLabel(req);
+    // A response that never finished (client went away) has no real status
+    const status = res.writableFinished ? String(res.statusCode) : "aborted";
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+    const counterLabels = { method, route, status };
+    const ck = labelKey(counterLabels);
+    const counter = requestCounts.get(ck) || {
+      labels: counterLabels,
+      value: 0,
+    };
+    counter.value += 1;
+    requestCounts.set(ck, counter);
+
+    const histLabels = { method, route };
+    const hk = labelKey(histLabels);
+    const hist = latency.get(hk) || {
+      labels: histLabels,
+      buckets: LATENCY_BUCKETS.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    LATENCY_BUCKETS.forEach((le, i) => {
+      if (seconds <= le) hist.buckets[i] += 1;
+    });
+    hist.sum += seconds;
+    hist.count += 1;
+    latency.set(hk, hist);
+  };
+  res.once("finish", record);
+  res.once("close", record);
+  next();
+};
+
+interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+interface Family {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: () => Array<Sample & { suffix?: string }>;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string, known: string[]) {
+  const counts: Record<string, number> = Object.fromEntries(
+    known.map((k) => [k, 0]),
+  );
+  for (const item of items) counts[key(item)] = (counts[key(item)] || 0) + 1;
+  return counts;
+}
+
+const TRAINING_STATUSES = [
+  "pending",
+  "data_prep",
+  "forecasting",
+  "rl_training",
+  "backtesting",
+  "validation",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+const families: Family[] = [
+  {
+    name: "aether_http_requests_total",
+    help: "HTTP requests by method, route pattern and status code",
+    type: "counter",
+    samples: () =>
+      Array.from(requestCounts.values()).map((c) => ({
+        labels: c.labels,
+        value: c.value,
+      })),
+  },
+  {
+    name: "aether_http_request_duration_seconds",
+    help: "HTTP request latency by method and route pattern",
+    type: "histogram",
+    samples: () =>
+      Array.from(latency.values()).flatMap((h) => [
+        ...LATENCY_BUCKETS.map((le, i) => ({
+          suffix: "_bucket",
+          labels: { ...h.labels, le: String(le) },
+          value: h.buckets[i],
+        })),
+        {
+          suffix: "_bucket",
+          labels: { ...h.labels, le: "+Inf" },
+          value: h.count,
+        },
+        { suffix: "_sum", labels: h.labels, value: +h.sum.toFixed(6) },
+        { suffix: "_count", labels: h.labels, value: h.count },
+      ]),
+  },
+  {
+    name: "aether_http_requests_in_flight",
+    help: "HTTP requests currently being served",
+    type: "gauge",
+    samples: () =>
+      Array.from(inFlight.entries()).map(([method, value]) => ({
+        labels: { method },
+        value,
+      })),
+  },
+  {
+    name: "aether_open_positions",
+    help: "Open trading positions",
+    type: "gauge",
+    samples: () => [{ value: listOpenPositions().length }],
+  },
+  {
+    name: "aether_open_positions_net_pnl",
+    help: "Net P&L across open positions (USD)",
+    type: "gauge",
+    samples: () => [
+      {
+        value: +listOpenPositions()
+          .reduce((s, p) => s + p.net_pnl, 0)
+          .toFixed(2),
+      },
+    ],
+  },
+  {
+    name: "aether_portfolio_equity_usd",
+    help: "Account equity with open positions marked to market (USD)",
+    type: "gauge",
+    samples: () => [{ value: getRiskSnapshot().equity }],
+  },
+  {
+    name: "aether_portfolio_pnl_usd",
+    help: "Cumulative P&L against account capital (USD)",
+    type: "gauge",
+    samples: () => [{ value: getRiskSnapshot().pnl }],
+  },
+  {
+    name: "aether_portfolio_drawdown",
+    help: "Decline of equity from its high-water mark (negative fraction)",
+    type: "gauge",
+    samples: () => [{ value: getRiskSnapshot().drawdown }],
+  },
+  {
+    name: "aether_portfolio_volatility_annualized",
+    help: "Annualized rolling volatility of equity returns",
+    type: "gauge",
+    samples: () => [{ value: getRiskSnapshot().volatility.annualized }],
+  },
+  {
+    name: "aether_portfolio_var_usd",
+    help: "One-hour value at risk of the open book by method and confidence (USD)",
+    type: "gauge",
+    samples: () => {
+      const snap = getRiskSnapshot();
+      return (["historical", "parametric"] as const).flatMap((method) =>
+        (["95", "99"] as const).map((confidence) => ({
+          labels: { method, confidence },
+          value: snap.var[method][confidence],
+        })),
+      );
+    },
+  },
+  {
+    name: "aether_portfolio_beta_btc",
+    help: "Beta of portfolio returns to BTC",
+    type: "gauge",
+    samples: () => [{ value: getRiskSnapshot().beta }],
+  },
+  {
+    name: "aether_hedges_active",
+    help: "Active hedge positions",
+    type: "gauge",
+    samples: () => [
+      { value: listHedges().filter((h) => h.status === "active").length },
+    ],
+  },
+  {
+    name: "aether_hedges_active_amount_usdt",
+    help: "Notional of active hedge positions (USDT)",
+    type: "gauge",
+    samples: () => [
+      {
+        value: +listHedges()
+          .filter((h) => h.status === "active")
+          .reduce((s, h) => s + h.amount, 0)
+          .toFixed(2),
+      },
+    ],
+  },
+  {
+    name: "aether_training_jobs",
+    help: "Model training jobs by status",
+    type: "gauge",
+    samples: () =>
+      Object.entries(
+        countBy(listTrainingJobs(), (j) => j.status, TRAINING_STATUSES),
+      ).map(([status, value]) => ({ labels: { status }, value })),
+  },
+  {
+    name: "aether_kill_switch_enabled",
+    help: "1 while the emergency kill switch is engaged",
+    type: "gauge",
+    samples: () => [{ value: getSystemState().killSwitchEnabled ? 1 : 0 }],
+  },
+  {
+    name: "aether_system_paused",
+    help: "1 while trading is paused",
+    type: "gauge",
+    samples: () => [{ value: getSystemState().isPaused ? 1 : 0 }],
+  },
+  {
+    name: "aether_process_uptime_seconds",
+    help: "Seconds since the server process started",
+    type: "gauge",
+    samples: () => [{ value: Math.round((Date.now() - startedAt) / 1000) }],
+  },
+  {
+    name: "aether_process_resident_memory_bytes",
+    help: "Resident set size of the server process",
+    type: "gauge",
+    samples: () => [{ value: process.memoryUsage().rss }],
+  },
+];
+
+export function renderMetrics() {
+  const lines: string[] = [];
+  for (const f of families) {
+    let samples: ReturnType<Family["samples"]>;
+    try {
+      samples = f.samples();
+    } catch (err) {
+      // One broken collector must not take the whole scrape down
+      console.error(`Metric ${f.name} failed to collect:`, err);
+      continue;
+    }
+    lines.push(`# HELP ${f.name} ${f.help}`, `# TYPE ${f.name} ${f.type}`);
+    for (const s of samples) {
+      lines.push(
+        `${f.name}${s.suffix || ""}${formatLabels(s.labels || {})} ${s.value}`,
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// GET /metrics and /api/metrics - Prometheus text exposition format
+export function handleMetrics(_req: Request, res: Response) {
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.status(200).send(renderMetrics());
+}
@@ -1,7 +1,12 @@
 import type { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import { retryWhenBusy } from '../storage/journal';
+import { createProposal, executeProposal, getProposal, governanceErrorStatus, registerProposalExecutor } from './governance';
+import { GovernanceConflictError, GovernanceValidationError } from '../governance/engine';
+import { recordAudit, listAuditEntries } from './audit';
 
 // Enhanced Types for AI Training Workflow
-interface TrainingJob {
+export interface TrainingJob {
   jobId: string;
   modelType: 'forecast' | 'rl_agent' | 'sentiment' | 'ensemble';
   coins: string[];
@@ -222,6 +227,40 @@ interface DatasetInfo {
   };
 }
 
+interface ModelRollout {
+  rolloutId: string;
+  modelId: string;
+  baselineModelId?: string; // production model being replaced; restored on halt
+  mode: 'canary' | 'linear' | 'blue_green';
+  status: 'running' | 'completed' | 'halted' | 'aborted';
+  stages: number[]; // traffic share per stage (0-1), ending at full traffic
+  stageIndex: number;
+  traffic: number;
+  stageIntervalSec: number;
+  stageStartedAt: string;
+  nextStageAt?: string;
+  thresholds: {
+    minSharpe: number;
+    maxDrawdown: number; // positive fraction, e.g. 0.2 = 20%
+  };
+  metrics?: {
+    sharpe: number;
+    drawdown: number;
+    source: 'reported' | 'sampled';
+    at: string;
+  };
+  startedAt: string;
+  endedAt?: string;
+  haltReason?: string;
+  createdBy: string;
+  history: Array<{
+    at: string;
+    event: 'started' | 'stage' | 'completed' | 'halted' | 'aborted';
+    traffic: number;
+    detail?: string;
+  }>;
+}
+
 interface SentimentPipeline {
   id: string;
   type: 'twitter' | 'rss';
@@ -242,273 +281,312 @@ interface SentimentPipeline {
   };
 }
 
-// In-memory storage (replace with actual persistence in production)
-let trainingJobs: TrainingJob[] = [
-  {
-    jobId: 'job_001',
-    modelType: 'rl_agent',
-    coins: ['BTC', 'ETH'],
-    lookbackDays: 30,
-    interval: '1h',
-    algorithm: 'PPO',
-    architecture: { 
-      layers: [256, 128, 64], 
-      learning_rate: 0.0003,
-      attention: true,
-      dropout: 0.3 
-    },
-    tuneFlag: true,
-    callbackUrl: 'https://webhook.example.com/training',
-    environmentConfig: {
-      reward_weights: { profit: 0.7, drawdown: 0.2, duration: 0.1 },
-      action_space: 'continuous',
-      observation_window: 24
-    },
-    riskProfile: 'moderate',
-    datasetVersion: 'v2.1.0',
-    curriculumLevel: 'volatile',
+// Training jobs and the model registry are persisted (backend selected by AETHER_STORAGE)
+const trainingJobsRepo = createRepository<TrainingJob>('model_training_jobs', {
+  key: (j) => j.jobId,
+  seed: () => [
+    {
+      jobId: 'job_001',
+      modelType: 'rl_agent',
+      coins: ['BTC', 'ETH'],
+      lookbackDays: 30,
+      interval: '1h',
+      algorithm: 'PPO',
+      architecture: { 
+        layers: [256, 128, 64], 
+        learning_rate: 0.0003,
+        attention: true,
+        dropout: 0.3 
+      },
+      tuneFlag: true,
+      callbackUrl: 'https://webhook.example.com/training',
+      environmentConfig: {
+        reward_weights: { profit: 0.7, drawdown: 0.2, duration: 0.1 },
+        action_space: 'continuous',
+        observation_window: 24
+      },
+      riskProfile: 'moderate',
+      datasetVersion: 'v2.1.0',
+      curriculumLevel: 'volatile',
     
-    status: 'rl_training',
-    currentStage: 'RL Policy Search - Epoch 45/100',
-    progress: 65,
-    startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      status: 'rl_training',
+      currentStage: 'RL Policy Search - Epoch 45/100',
+      progress: 65,
+      startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
     
-    stages: {
-      dataPrep: { status: 'completed', progress: 100, duration: 15 },
-      forecasting: { status: 'completed', progress: 100, duration: 30 },
-      rlTraining: { status: 'running', progress: 65, duration: 85 },
-      backtesting: { status: 'pending', progress: 0 },
-      validation: { status: 'pending', progress: 0 }
-    },
+      stages: {
+        dataPrep: { status: 'completed', progress: 100, duration: 15 },
+        forecasting: { status: 'completed', progress: 100, duration: 30 },
+        rlTraining: { status: 'running', progress: 65, duration: 85 },
+        backtesting: { status: 'pending', progress: 0 },
+        validation: { status: 'pending', progress: 0 }
+      },
     
-    logs: [
-      { timestamp: new Date(Date.now() - 120 * 60 * 1000).toISOString(), stage: 'Data Prep', message: 'Market data preprocessing completed with sentiment signals', level: 'info' },
-      { timestamp: new Date(Date.now() - 90 * 60 * 1000).toISOString(), stage: 'Forecasting', message: 'LSTM price prediction model achieved 74% accuracy', level: 'info' },
-      { timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'PPO agent started learning from TradingEnv', level: 'info' },
-      { timestamp: new Date(Date.now() - 30 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'Episode 1000: Avg reward 1.85, Win rate 68%', level: 'info' },
-      { timestamp: new Date(Date.now() - 10 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'Curriculum criteria met - advancing to volatile level', level: 'info' }
-    ],
+      logs: [
+        { timestamp: new Date(Date.now() - 120 * 60 * 1000).toISOString(), stage: 'Data Prep', message: 'Market data preprocessing completed with sentiment signals', level: 'info' },
+        { timestamp: new Date(Date.now() - 90 * 60 * 1000).toISOString(), stage: 'Forecasting', message: 'LSTM price prediction model achieved 74% accuracy', level: 'info' },
+        { timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'PPO agent started learning from TradingEnv', level: 'info' },
+        { timestamp: new Date(Date.now() - 30 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'Episode 1000: Avg reward 1.85, Win rate 68%', level: 'info' },
+        { timestamp: new Date(Date.now() - 10 * 60 * 1000).toISOString(), stage: 'RL Training', message: 'Curriculum criteria met - advancing to volatile level', level: 'info' }
+      ],
     
-    metrics: {
-      sharpeRatio: 1.85,
-      maxDrawdown: -0.12,
-      winRate: 0.68,
-      totalReward: 1250.5,
-      volatility: 0.15,
-      profitFactor: 2.1,
-      sortino: 2.3
-    },
+      metrics: {
+        sharpeRatio: 1.85,
+        maxDrawdown: -0.12,
+        winRate: 0.68,
+        totalReward: 1250.5,
+        volatility: 0.15,
+        profitFactor: 2.1,
+        sortino: 2.3
+      },
     
-    experiment: {
-      mlflowRunId: 'run_abc123def456',
-      dvcHash: 'a1b2c3d4e5f6',
-      datasetVersion: 'v2.1.0',
-      checksum: 'sha256:def789...',
-      hyperparameters: {
-        learning_rate: 0.0003,
-        batch_size: 256,
-        gamma: 0.99,
-        lambda: 0.95
-      }
-    },
+      experiment: {
+        mlflowRunId: 'run_abc123def456',
+        dvcHash: 'a1b2c3d4e5f6',
+        datasetVersion: 'v2.1.0',
+        checksum: 'sha256:def789...',
+        hyperparameters: {
+          learning_rate: 0.0003,
+          batch_size: 256,
+          gamma: 0.99,
+          lambda: 0.95
+        }
+      },
     
-    curriculum: {
-      level: 'volatile',
-      stage: 2,
-      criteria: {
-        winRatio: 0.68,
-        targetWinRatio: 0.65,
-        minTrades: 100,
-        maxDrawdown: 0.15,
-        passed: true
+      curriculum: {
+        level: 'volatile',
+        stage: 2,
+        criteria: {
+          winRatio: 0.68,
+          targetWinRatio: 0.65,
+          minTrades: 100,
+          maxDrawdown: 0.15,
+          passed: true
+        },
+        scheduler: {
+          currentDataset: 'volatile_market_2023',
+          progressionThreshold: 0.65,
+          nextLevel: 'multi_asset'
+        }
       },
-      scheduler: {
-        currentDataset: 'volatile_market_2023',
-        progressionThreshold: 0.65,
-        nextLevel: 'multi_asset'
+    
+      rlConfig: {
+        environment: 'TradingEnv-v2',
+        algorithm: 'PPO',
+        rewardWeights: {
+          profit: 0.7,
+          drawdown: 0.2,
+          duration: 0.1,
+          winRate: 0.0
+        },
+        policyUpdateFreq: 2048,
+        experienceBufferSize: 1000000
       }
     },
-    
-    rlConfig: {
-      environment: 'TradingEnv-v2',
-      algorithm: 'PPO',
-      rewardWeights: {
-        profit: 0.7,
-        drawdown: 0.2,
-        duration: 0.1,
-        winRate: 0.0
-      },
-      policyUpdateFreq: 2048,
-      experienceBufferSize: 1000000
-    }
-  },
   
-  {
-    jobId: 'job_002',
-    modelType: 'sentiment',
-    coins: ['BTC', 'ETH', 'ADA'],
-    lookbackDays: 14,
-    interval: '4h',
-    algorithm: 'FinBERT',
-    architecture: { 
-      model_name: 'ProsusAI/finbert',
-      fine_tune_layers: 3,
-      max_length: 512 
-    },
-    tuneFlag: false,
-    riskProfile: 'conservative',
-    datasetVersion: 'v1.5.2',
-    curriculumLevel: 'simple',
+    {
+      jobId: 'job_002',
+      modelType: 'sentiment',
+      coins: ['BTC', 'ETH', 'ADA'],
+      lookbackDays: 14,
+      interval: '4h',
+      algorithm: 'FinBERT',
+      architecture: { 
+        model_name: 'ProsusAI/finbert',
+        fine_tune_layers: 3,
+        max_length: 512 
+      },
+      tuneFlag: false,
+      riskProfile: 'conservative',
+      datasetVersion: 'v1.5.2',
+      curriculumLevel: 'simple',
     
-    status: 'completed',
-    currentStage: 'Validation Complete',
-    progress: 100,
-    startTime: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-    endTime: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(),
+      status: 'completed',
+      currentStage: 'Validation Complete',
+      progress: 100,
+      startTime: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
+      endTime: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(),
     
-    stages: {
-      dataPrep: { status: 'completed', progress: 100, duration: 20 },
-      forecasting: { status: 'skipped', progress: 0 },
-      rlTraining: { status: 'completed', progress: 100, duration: 120 },
-      backtesting: { status: 'completed', progress: 100, duration: 15 },
-      validation: { status: 'completed', progress: 100, duration: 10 }
-    },
+      stages: {
+        dataPrep: { status: 'completed', progress: 100, duration: 20 },
+        forecasting: { status: 'skipped', progress: 0 },
+        rlTraining: { status: 'completed', progress: 100, duration: 120 },
+        backtesting: { status: 'completed', progress: 100, duration: 15 },
+        validation: { status: 'completed', progress: 100, duration: 10 }
+      },
     
-    logs: [
-      { timestamp: new Date(Date.now() - 180 * 60 * 1000).toISOString(), stage: 'Data Prep', message: 'Financial PhraseBank dataset loaded and preprocessed', level: 'info' },
-      { timestamp: new Date(Date.now() - 150 * 60 * 1000).toISOString(), stage: 'Training', message: 'FinBERT fine-tuning started with 3 layers', level: 'info' },
-      { timestamp: new Date(Date.now() - 90 * 60 * 1000).toISOString(), stage: 'Training', message: 'Validation accuracy: 91.2%', level: 'info' },
-      { timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(), stage: 'Validation', message: 'Model checksum verified and MLflow logged', level: 'info' }
-    ],
+      logs: [
+        { timestamp: new Date(Date.now() - 180 * 60 * 1000).toISOString(), stage: 'Data Prep', message: 'Financial PhraseBank dataset loaded and preprocessed', level: 'info' },
+        { timestamp: new Date(Date.now() - 150 * 60 * 1000).toISOString(), stage: 'Training', message: 'FinBERT fine-tuning started with 3 layers', level: 'info' },
+        { timestamp: new Date(Date.now() - 90 * 60 * 1000).toISOString(), stage: 'Training', message: 'Validation accuracy: 91.2%', level: 'info' },
+        { timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(), stage: 'Validation', message: 'Model checksum verified and MLflow logged', level: 'info' }
+      ],
     
-    metrics: {
-      sharpeRatio: 2.1,
-      maxDrawdown: -0.08,
-      winRate: 0.72,
-      volatility: 0.12
-    },
+      metrics: {
+        sharpeRatio: 2.1,
+        maxDrawdown: -0.08,
+        winRate: 0.72,
+        volatility: 0.12
+      },
     
-    experiment: {
-      mlflowRunId: 'run_def456ghi789',
-      dvcHash: 'e5f6g7h8i9j0',
-      datasetVersion: 'v1.5.2',
-      checksum: 'sha256:abc123...'
-    },
+      experiment: {
+        mlflowRunId: 'run_def456ghi789',
+        dvcHash: 'e5f6g7h8i9j0',
+        datasetVersion: 'v1.5.2',
+        checksum: 'sha256:abc123...'
+      },
     
-    modelId: 'model_sent_001'
-  }
-];
-
-let models: Model[] = [
-  {
-    modelId: 'model_001',
-    name: 'BTC-ETH RL Agent v2.1',
-    version: '2.1.0',
-    type: 'rl_agent',
-    status: 'deployed',
-    accuracy: 0.74,
+      modelId: 'model_sent_001'
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: job logs and stage map',
+      up: (j) => ({ logs: [], stages: {}, ...j })
+    }
+  ]
+});
+
+const modelsRepo = createRepository<Model>('models', {
+  key: (m) => m.modelId,
+  seed: () => [
+    {
+      modelId: 'model_001',
+      name: 'BTC-ETH RL Agent v2.1',
+      version: '2.1.0',
+      type: 'rl_agent',
+      status: 'deployed',
+      accuracy: 0.74,
     
-    performance: {
-      sharpeRatio: 2.3,
-      maxDrawdown: -0.09,
-      winRate: 0.71,
-      profitFactor: 1.85,
-      sortino: 3.1,
-      calmar: 2.8,
-      volatility: 0.14,
-      beta: 0.65,
-      alpha: 0.08,
-      informationRatio: 1.45
-    },
+      performance: {
+        sharpeRatio: 2.3,
+        maxDrawdown: -0.09,
+        winRate: 0.71,
+        profitFactor: 1.85,
+        sortino: 3.1,
+        calmar: 2.8,
+        volatility: 0.14,
+        beta: 0.65,
+        alpha: 0.08,
+        informationRatio: 1.45
+      },
     
-    algorithmInfo: {
-      name: 'PPO',
-      architecture: { layers: [256, 128, 64], learning_rate: 0.0003 },
-      hyperparameters: { batch_size: 256, gamma: 0.99, lambda: 0.95 },
-      curriculum: {
-        completedLevels: ['simple', 'volatile'],
-        finalLevel: 'volatile'
-      }
-    },
+      algorithmInfo: {
+        name: 'PPO',
+        architecture: { layers: [256, 128, 64], learning_rate: 0.0003 },
+        hyperparameters: { batch_size: 256, gamma: 0.99, lambda: 0.95 },
+        curriculum: {
+          completedLevels: ['simple', 'volatile'],
+          finalLevel: 'volatile'
+        }
+      },
     
-    deployedAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-    createdAt: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(),
-    createdBy: 'admin@example.com',
+      deployedAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+      createdAt: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(),
+      createdBy: 'admin@example.com',
     
-    experiment: {
-      mlflowRunId: 'run_xyz789abc123',
-      dvcHash: 'i9j0k1l2m3n4',
-      datasetVersion: 'v2.0.0',
-      checksum: 'sha256:xyz789...',
-      reproductionCommand: 'python scripts/cli.py train --model models/rl_agent_v2.1 --data datasets/btc_eth_v2.0.csv'
-    },
+      experiment: {
+        mlflowRunId: 'run_xyz789abc123',
+        dvcHash: 'i9j0k1l2m3n4',
+        datasetVersion: 'v2.0.0',
+        checksum: 'sha256:xyz789...',
+        reproductionCommand: 'python scripts/cli.py train --model models/rl_agent_v2.1 --data datasets/btc_eth_v2.0.csv'
+      },
     
-    riskProfile: {
-      leverage: 2.0,
-      positionLimits: {
-        maxPosition: 0.3,
-        maxExposure: 0.8,
-        maxCorrelation: 0.7
+      riskProfile: {
+        leverage: 2.0,
+        positionLimits: {
+          maxPosition: 0.3,
+          maxExposure: 0.8,
+          maxCorrelation: 0.7
+        },
+        stopLoss: 0.05,
+        takeProfit: 0.15,
+        riskBudget: 0.02
       },
-      stopLoss: 0.05,
-      takeProfit: 0.15,
-      riskBudget: 0.02
-    },
     
-    explainability: {
-      availableExplanations: ['SHAP', 'Feature Importance', 'Action Attribution'],
-      featureImportance: [
-        { feature: 'price_momentum', importance: 0.23 },
-        { feature: 'volume_profile', importance: 0.18 },
-        { feature: 'sentiment_score', importance: 0.15 },
-        { feature: 'rsi', importance: 0.12 }
-      ]
-    }
-  },
+      explainability: {
+        availableExplanations: ['SHAP', 'Feature Importance', 'Action Attribution'],
+        featureImportance: [
+          { feature: 'price_momentum', importance: 0.23 },
+          { feature: 'volume_profile', importance: 0.18 },
+          { feature: 'sentiment_score', importance: 0.15 },
+          { feature: 'rsi', importance: 0.12 }
+        ]
+      }
+    },
   
-  {
-    modelId: 'model_002',
-    name: 'Multi-Asset Sentiment v1.3',
-    version: '1.3.0',
-    type: 'sentiment',
-    status: 'shadow',
-    accuracy: 0.91,
+    {
+      modelId: 'model_002',
+      name: 'Multi-Asset Sentiment v1.3',
+      version: '1.3.0',
+      type: 'sentiment',
+      status: 'shadow',
+      accuracy: 0.91,
     
-    performance: {
-      sharpeRatio: 1.85,
-      maxDrawdown: -0.06,
-      winRate: 0.78,
-      profitFactor: 2.45,
-      sortino: 2.8,
-      calmar: 3.2,
-      volatility: 0.09,
-      beta: 0.32,
-      alpha: 0.12,
-      informationRatio: 1.88
-    },
+      performance: {
+        sharpeRatio: 1.85,
+        maxDrawdown: -0.06,
+        winRate: 0.78,
+        profitFactor: 2.45,
+        sortino: 2.8,
+        calmar: 3.2,
+        volatility: 0.09,
+        beta: 0.32,
+        alpha: 0.12,
+        informationRatio: 1.88
+      },
     
-    algorithmInfo: {
-      name: 'FinBERT',
-      architecture: { model_name: 'ProsusAI/finbert', fine_tune_layers: 3 },
-      hyperparameters: { learning_rate: 2e-5, batch_size: 16, epochs: 5 }
-    },
+      algorithmInfo: {
+        name: 'FinBERT',
+        architecture: { model_name: 'ProsusAI/finbert', fine_tune_layers: 3 },
+        hyperparameters: { learning_rate: 2e-5, batch_size: 16, epochs: 5 }
+      },
     
-    shadowStart: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
-    createdAt: new Date(Date.now() - 72 * 60 * 60 * 1000).toISOString(),
-    createdBy: 'researcher@example.com',
+      shadowStart: new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString(),
+      createdAt: new Date(Date.now() - 72 * 60 * 60 * 1000).toISOString(),
+      createdBy: 'researcher@example.com',
     
-    experiment: {
-      mlflowRunId: 'run_sentiment_456',
-      dvcHash: 'o5p6q7r8s9t0',
-      datasetVersion: 'v1.5.2',
-      checksum: 'sha256:sentiment789...'
-    },
+      experiment: {
+        mlflowRunId: 'run_sentiment_456',
+        dvcHash: 'o5p6q7r8s9t0',
+        datasetVersion: 'v1.5.2',
+        checksum: 'sha256:sentiment789...'
+      },
     
-    explainability: {
-      availableExplanations: ['Attention Weights', 'Token Importance', 'Sentiment Attribution']
+      explainability: {
+        availableExplanations: ['Attention Weights', 'Token Importance', 'Sentiment Attribution']
+      }
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: explainability block',
+      up: (m) => ({ explainability: { availableExplanations: [] }, ...m })
+    }
+  ]
+});
+
+// Snapshot of the registry for routes outside this module (e.g. explainability)
+export function __getModels(): Model[] {
+  return modelsRepo.list();
+}
+
+export function listTrainingJobs(): TrainingJob[] {
+  return trainingJobsRepo.list();
+}
+
+function archiveDeployedModels() {
+  for (const m of modelsRepo.list()) {
+    if (m.status === 'deployed') {
+      modelsRepo.update(m.modelId, (stored) => {
+        stored.status = 'archived';
+      });
     }
   }
-];
+}
 
 let curriculumStages: CurriculumStage[] = [
   {
@@ -627,8 +705,44 @@ let datasets: DatasetInfo[] = [
   }
 ];
 
-// Simple in-memory audit log for admin visibility
-export const auditLog: any[] = [];
+// Model operations are written to the shared audit ledger; the model audit
+// view maps them back to the event shape the admin pages render
+interface ModelAuditEvent {
+  type: string;
+  /** Who acted when no request is given; a request records its signed-in user */
+  actor?: string;
+  [field: string]: unknown;
+}
+
+function auditModel({ type, actor, ...fields }: ModelAuditEvent, req?: Request) {
+  const target = fields.modelId ?? fields.jobId ?? fields.rolloutId ?? fields.from;
+  recordAudit({
+    action: type,
+    actor,
+    target: target === undefined ? undefined : String(target),
+    before: fields.from,
+    after: fields.to,
+    meta: fields
+  }, req);
+}
+
+export function modelAuditLog(limit = 200) {
+  return listAuditEntries({})
+    .filter((e) => e.action.startsWith('model:') || e.action.startsWith('train:'))
+    .slice(0, limit)
+    .map((e) => ({ ...e.meta, type: e.action, at: e.at, actor: e.actor, id: e.id, hash: e.hash, requestId: e.requestId }));
+}
+
+const rolloutsRepo = createRepository<ModelRollout>('model_rollouts', {
+  key: (r) => r.rolloutId,
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: rollout history list',
+      up: (r) => ({ history: [], ...r })
+    }
+  ]
+});
 
 let sentimentPipelines: SentimentPipeline[] = [
   {
@@ -672,7 +786,7 @@ let sentimentPipelines: SentimentPipeline[] = [
 // Models history for catalog view
 export function handleGetModelsHistory(req: Request, res: Response) {
   const { status, type, limit = 50, offset = 0, search } = req.query as any;
-  let list = [...models];
+  let list = modelsRepo.list();
   if (status) list = list.filter(m => m.status === status);
   if (type) list = list.filter(m => m.type === type);
   if (search && typeof search === 'string' && search.trim()) {
@@ -735,7 +849,7 @@ export function handleStartTraining(req: Request, res: Response) {
   }
 
   // Check if a training job is already running (sequential gating)
-  const runningJobs = trainingJobs.filter(job => 
+  const runningJobs = trainingJobsRepo.list().filter(job => 
     ['pending', 'data_prep', 'forecasting', 'rl_training', 'backtesting', 'validation'].includes(job.status)
   );
 
@@ -752,7 +866,7 @@ export function handleStartTraining(req: Request, res: Response) {
     const parsedEnvironmentConfig = typeof environmentConfig === 'string' ? JSON.parse(environmentConfig) : environmentConfig;
 
     const jobId = `job_${Date.now()}`;
-    auditLog.unshift({ type: 'train:start', jobId, modelType, coins, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+    auditModel({ type: 'train:start', jobId, modelType, coins }, req);
     const newJob: TrainingJob = {
       jobId,
       modelType,
@@ -831,7 +945,7 @@ export function handleStartTraining(req: Request, res: Response) {
       }
     }
 
-    trainingJobs.unshift(newJob);
+    trainingJobsRepo.upsert(newJob);
 
     // Simulate training workflow progression
     setTimeout(() => simulateTrainingProgress(jobId), 2000);
@@ -901,13 +1015,21 @@ export function handleStartTrainingV1(req: Request, res: Response) {
   }
 }
 
+// Applies one simulated pipeline step to the stored job unless it was cancelled
+function advanceJob(jobId: string, step: (job: TrainingJob) => void, delay: number) {
+  setTimeout(() => retryWhenBusy(() => {
+    trainingJobsRepo.update(jobId, (job) => {
+      if (job.status !== 'cancelled') step(job);
+    });
+  }), delay);
+}
+
 function simulateTrainingProgress(jobId: string) {
-  const job = trainingJobs.find(j => j.jobId === jobId);
+  const job = trainingJobsRepo.get(jobId);
   if (!job) return;
 
   // Stage 1: Data Preparation
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.status = 'data_prep';
     job.currentStage = 'Data gathering & preprocessing';
     job.progress = 15;
@@ -922,8 +1044,7 @@ function simulateTrainingProgress(jobId: string) {
   }, 2000);
 
   // Complete data prep
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.progress = 25;
     job.stages.dataPrep.status = 'completed';
     job.stages.dataPrep.progress = 100;
@@ -938,8 +1059,7 @@ function simulateTrainingProgress(jobId: string) {
 
   // Stage 2: Forecasting (if not sentiment model)
   if (job.modelType !== 'sentiment') {
-    setTimeout(() => {
-      if (job.status === 'cancelled') return;
+    advanceJob(jobId, (job) => {
       job.status = 'forecasting';
       job.currentStage = 'Training price prediction baseline';
       job.progress = 35;
@@ -953,8 +1073,7 @@ function simulateTrainingProgress(jobId: string) {
       });
     }, 10000);
 
-    setTimeout(() => {
-      if (job.status === 'cancelled') return;
+    advanceJob(jobId, (job) => {
       job.progress = 45;
       job.stages.forecasting.status = 'completed';
       job.stages.forecasting.progress = 100;
@@ -969,8 +1088,7 @@ function simulateTrainingProgress(jobId: string) {
   }
 
   // Stage 3: RL Training or Main Training
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     if (job.modelType === 'rl_agent') {
       job.status = 'rl_training';
       job.currentStage = 'RL policy search in TradingEnv';
@@ -1007,8 +1125,7 @@ function simulateTrainingProgress(jobId: string) {
   ];
 
   trainingUpdates.forEach(update => {
-    setTimeout(() => {
-      if (job.status === 'cancelled') return;
+    advanceJob(jobId, (job) => {
       job.progress = update.progress;
       job.stages.rlTraining.progress = update.progress;
       job.logs.push({
@@ -1032,8 +1149,7 @@ function simulateTrainingProgress(jobId: string) {
   });
 
   // Complete training stage
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.progress = 88;
     job.stages.rlTraining.status = 'completed';
     job.stages.rlTraining.progress = 100;
@@ -1047,8 +1163,7 @@ function simulateTrainingProgress(jobId: string) {
   }, 50000);
 
   // Stage 4: Backtesting
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.status = 'backtesting';
     job.currentStage = 'Simulation backtesting';
     job.progress = 92;
@@ -1062,8 +1177,7 @@ function simulateTrainingProgress(jobId: string) {
     });
   }, 52000);
 
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.progress = 96;
     job.stages.backtesting.status = 'completed';
     job.stages.backtesting.progress = 100;
@@ -1077,8 +1191,7 @@ function simulateTrainingProgress(jobId: string) {
   }, 58000);
 
   // Stage 5: Validation
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.status = 'validation';
     job.currentStage = 'Model validation and artifact generation';
     job.progress = 98;
@@ -1093,8 +1206,7 @@ function simulateTrainingProgress(jobId: string) {
   }, 60000);
 
   // Complete job
-  setTimeout(() => {
-    if (job.status === 'cancelled') return;
+  advanceJob(jobId, (job) => {
     job.status = 'completed';
     job.currentStage = 'Training completed successfully';
     job.progress = 100;
@@ -1165,7 +1277,7 @@ function simulateTrainingProgress(jobId: string) {
       }
     };
 
-    models.unshift(newModel);
+    modelsRepo.upsert(newModel);
 
     job.logs.push({
       timestamp: new Date().toISOString(),
@@ -1188,7 +1300,7 @@ function simulateTrainingProgress(jobId: string) {
 export function handleGetTrainingStatus(req: Request, res: Response) {
   const { jobId } = req.params;
 
-  const job = trainingJobs.find(j => j.jobId === jobId);
+  const job = trainingJobsRepo.get(jobId);
   if (!job) {
     return res.status(404).json({
       status: 'error',
@@ -1206,7 +1318,7 @@ export function handleGetTrainingStatus(req: Request, res: Response) {
 export function handleGetAllTrainingJobs(req: Request, res: Response) {
   const { status, modelType, limit = 50, offset = 0 } = req.query;
   
-  let filteredJobs = [...trainingJobs];
+  let filteredJobs = trainingJobsRepo.list();
   
   if (status) {
     filteredJobs = filteredJobs.filter(job => job.status === status);
@@ -1242,7 +1354,9 @@ export function handleStreamTrainingJobs(req: Request, res: Response) {
   (res as any).flushHeaders?.();
 
   const send = () => {
-    const payload = JSON.stringify({ type: 'jobs_snapshot', jobs: trainingJobs, ts: Date.now() });
+    const jobs = trainingJobsRepo.list()
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+    const payload = JSON.stringify({ type: 'jobs_snapshot', jobs, ts: Date.now() });
     res.write(`data: ${payload}\n\n`);
   };
 
@@ -1258,10 +1372,10 @@ export function handleStreamTrainingJobs(req: Request, res: Response) {
 
 // Cancel training job
 export function handleCancelTraining(req: Request, res: Response) {
-  auditLog.unshift({ type: 'train:cancel:attempt', jobId: req.params.jobId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'train:cancel:attempt', jobId: req.params.jobId }, req);
   const { jobId } = req.params;
 
-  const job = trainingJobs.find(j => j.jobId === jobId);
+  const job = trainingJobsRepo.get(jobId);
   if (!job) {
     return res.status(404).json({
       status: 'error',
@@ -1285,6 +1399,7 @@ export function handleCancelTraining(req: Request, res: Response) {
     message: 'Training job cancelled by user request',
     level: 'info'
   });
+  trainingJobsRepo.upsert(job);
 
   console.log(`Training job cancelled: ${jobId}`);
 
@@ -1295,59 +1410,17 @@ export function handleCancelTraining(req: Request, res: Response) {
   });
 }
 
-// Deploy model with enhanced checks
+// Deploy model once founders approve it (see governModelAction)
 export function handleDeployModel(req: Request, res: Response) {
-  auditLog.unshift({ type: 'model:deploy:attempt', modelId: req.params.modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
-  const { modelId } = req.params;
-  const { founderApproval = false } = req.body;
-
-  const model = models.find(m => m.modelId === modelId);
-  if (!model) {
-    return res.status(404).json({
-      status: 'error',
-      message: 'Model not found'
-    });
-  }
-
-  if (model.status === 'deployed') {
-    return res.status(400).json({
-      status: 'error',
-      message: 'Model is already deployed'
-    });
-  }
-
-  if (!founderApproval) {
-    return res.status(400).json({
-      status: 'error',
-      message: 'Founder approval is required for model deployment'
-    });
-  }
-
-  // Archive previous deployed models
-  models.forEach(m => {
-    if (m.status === 'deployed') {
-      m.status = 'archived';
-    }
-  });
-
-  model.status = 'deployed';
-  model.deployedAt = new Date().toISOString();
-
-  console.log(`Model deployed: ${modelId} with founder approval`);
-  auditLog.unshift({ type: 'model:deployed', modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
-
-  res.json({
-    status: 'success',
-    message: 'Model deployed successfully',
-    data: model
-  });
+  auditModel({ type: 'model:deploy:attempt', modelId: req.params.modelId }, req);
+  return governModelAction(req, res, { modelId: req.params.modelId, action: 'deploy' });
 }
 
 // Get all models with enhanced filtering
 export function handleGetAllModels(req: Request, res: Response) {
   const { status, type, limit = 50, offset = 0 } = req.query;
   
-  let filteredModels = [...models];
+  let filteredModels = modelsRepo.list();
   
   if (status) {
     filteredModels = filteredModels.filter(model => model.status === status);
@@ -1403,52 +1476,40 @@ export function handleGetSentimentPipelines(_req: Request, res: Response) {
 
 // Model registry actions
 
-// Promote model with founder approval
+// Promote model once founders approve it (see governModelAction)
 export function handlePromoteModel(req: Request, res: Response) {
-  auditLog.unshift({ type: 'model:promote:attempt', modelId: req.body?.modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
-  const { modelId, founderApproval } = req.body;
-
-  if (!founderApproval) {
+  auditModel({ type: 'model:promote:attempt', modelId: req.body?.modelId }, req);
+  const { modelId } = req.body || {};
+  if (!modelId) {
     return res.status(400).json({
       status: 'error',
-      message: 'Founder approval is required for model promotion'
-    });
-  }
-
-  const model = models.find(m => m.modelId === modelId);
-  if (!model) {
-    return res.status(404).json({
-      status: 'error',
-      message: 'Model not found'
+      message: 'modelId is required'
     });
   }
+  return governModelAction(req, res, { modelId: String(modelId), action: 'promote' });
+}
 
-  // Archive current deployed model
-  models.forEach(m => {
-    if (m.status === 'deployed') {
-      m.status = 'archived';
-    }
-  });
+// Archives the production model and deploys `modelId`; run by the
+// model_rollout executor for promote and deploy proposals
+function deployModel(modelId: string, action: 'promote' | 'deploy', proposalId: string) {
+  const model = modelsRepo.get(modelId)!;
+  archiveDeployedModels();
 
   model.status = 'deployed';
   model.deployedAt = new Date().toISOString();
+  modelsRepo.upsert(model);
 
-  console.log(`Model promoted: ${modelId} with founder approval`);
-  auditLog.unshift({ type: 'model:promoted', modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
-
-  res.json({
-    status: 'success',
-    message: 'Model promoted to production successfully',
-    data: model
-  });
+  console.log(`Model ${action === 'promote' ? 'promoted' : 'deployed'}: ${modelId} by proposal ${proposalId}`);
+  auditModel({ type: action === 'promote' ? 'model:promoted' : 'model:deployed', modelId, proposalId, actor: 'governance' });
+  return model;
 }
 
 // Start shadow testing
 export function handleStartShadow(req: Request, res: Response) {
-  auditLog.unshift({ type: 'model:shadow:start:attempt', modelId: req.body?.modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:shadow:start:attempt', modelId: req.body?.modelId }, req);
   const { modelId } = req.body;
 
-  const model = models.find(m => m.modelId === modelId);
+  const model = modelsRepo.get(modelId);
   if (!model) {
     return res.status(404).json({
       status: 'error',
@@ -1465,9 +1526,10 @@ export function handleStartShadow(req: Request, res: Response) {
 
   model.status = 'shadow';
   model.shadowStart = new Date().toISOString();
+  modelsRepo.upsert(model);
 
   console.log(`Shadow testing started: ${modelId}`);
-  auditLog.unshift({ type: 'model:shadow:started', modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:shadow:started', modelId }, req);
 
   res.json({
     status: 'success',
@@ -1478,10 +1540,10 @@ export function handleStartShadow(req: Request, res: Response) {
 
 // Stop shadow testing
 export function handleStopShadow(req: Request, res: Response) {
-  auditLog.unshift({ type: 'model:shadow:stop:attempt', modelId: req.body?.modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:shadow:stop:attempt', modelId: req.body?.modelId }, req);
   const { modelId } = req.body;
 
-  const model = models.find(m => m.modelId === modelId);
+  const model = modelsRepo.get(modelId);
   if (!model) {
     return res.status(404).json({
       status: 'error',
@@ -1498,9 +1560,10 @@ export function handleStopShadow(req: Request, res: Response) {
 
   model.status = 'trained';
   model.shadowEnd = new Date().toISOString();
+  modelsRepo.upsert(model);
 
   console.log(`Shadow testing stopped: ${modelId}`);
-  auditLog.unshift({ type: 'model:shadow:stopped', modelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:shadow:stopped', modelId }, req);
 
   res.json({
     status: 'success',
@@ -1511,7 +1574,7 @@ export function handleStopShadow(req: Request, res: Response) {
 
 // Rollback model
 export function handleRollbackModel(req: Request, res: Response) {
-  auditLog.unshift({ type: 'model:rollback:attempt', from: req.body?.fromModelId, to: req.body?.toModelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:rollback:attempt', from: req.body?.fromModelId, to: req.body?.toModelId }, req);
   const { fromModelId, toModelId, founderApproval } = req.body;
 
   if (!founderApproval) {
@@ -1521,34 +1584,520 @@ export function handleRollbackModel(req: Request, res: Response) {
     });
   }
 
-  const fromModel = models.find(m => m.modelId === fromModelId);
-  const toModel = models.find(m => m.modelId === toModelId);
-
-  if (!fromModel || !toModel) {
+  const result = rollbackModel(fromModelId, toModelId, (req as any).user?.id || 'admin');
+  if (!result) {
     return res.status(404).json({
       status: 'error',
       message: 'Model not found'
     });
   }
 
-  // Perform rollback
+  res.json({
+    status: 'success',
+    message: 'Model rollback completed successfully',
+    data: result
+  });
+}
+
+// Archives `fromModelId` and puts `toModelId` back into production. Shared by
+// the rollback endpoint and the rollout controller's automatic halt.
+function rollbackModel(fromModelId: string, toModelId: string, actor: string) {
+  const fromModel = modelsRepo.get(fromModelId);
+  const toModel = modelsRepo.get(toModelId);
+  if (!fromModel || !toModel) return null;
+
   fromModel.status = 'archived';
   toModel.status = 'deployed';
   toModel.deployedAt = new Date().toISOString();
+  modelsRepo.upsert(fromModel);
+  modelsRepo.upsert(toModel);
 
   console.log(`Model rollback: ${fromModelId} -> ${toModelId}`);
-  auditLog.unshift({ type: 'model:rolled_back', from: fromModelId, to: toModelId, at: new Date().toISOString(), actor: (req as any).user?.id || 'admin' });
+  auditModel({ type: 'model:rolled_back', from: fromModelId, to: toModelId, actor });
+  return { fromModel, toModel };
+}
+
+// Staged rollouts
+//
+// A rollout moves a candidate model into production through a series of
+// traffic stages instead of a single promote. The candidate runs as a shadow
+// model next to the current production model; every stageIntervalSec the
+// controller checks its shadow metrics against the rollout thresholds and
+// either advances to the next stage or halts and rolls back. Reaching the last
+// stage (full traffic) promotes the candidate.
+
+const ROLLOUT_DEFAULT_INTERVAL_SEC = 300;
+const ROLLOUT_DEFAULT_THRESHOLDS = { minSharpe: 0.8, maxDrawdown: 0.2 };
+const rolloutTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function roundShare(x: number) {
+  return Math.round(x * 100) / 100;
+}
+
+// Traffic plan per mode; every plan ends at full traffic
+function rolloutStages(mode: ModelRollout['mode'], cap: number, steps: number): number[] {
+  if (mode === 'blue_green') {
+    // Green validates on zero traffic, then takes over in one switch
+    return [0, 1];
+  }
+  if (mode === 'linear') {
+    return Array.from({ length: steps }, (_, i) =>
+      roundShare(cap + ((1 - cap) * i) / Math.max(1, steps - 1))
+    );
+  }
+  // Canary: hold at the cap, then ramp through 25% and 50%
+  return [cap, ...[0.25, 0.5, 1].filter(t => t > cap)];
+}
+
+function sampleShadowMetrics(model: Model): NonNullable<ModelRollout['metrics']> {
+  // Mock shadow evaluation: the model's backtest figures with live noise
+  return {
+    sharpe: +(model.performance.sharpeRatio * (0.75 + Math.random() * 0.4)).toFixed(3),
+    drawdown: +(Math.abs(model.performance.maxDrawdown) * (0.9 + Math.random() * 0.4)).toFixed(4),
+    source: 'sampled',
+    at: new Date().toISOString()
+  };
+}
+
+function rolloutBreach(rollout: ModelRollout): string | null {
+  const m = rollout.metrics;
+  if (!m) return null;
+  if (m.sharpe < rollout.thresholds.minSharpe) {
+    return `Shadow Sharpe ${m.sharpe} below minimum ${rollout.thresholds.minSharpe}`;
+  }
+  if (m.drawdown > rollout.thresholds.maxDrawdown) {
+    return `Shadow drawdown ${m.drawdown} above maximum ${rollout.thresholds.maxDrawdown}`;
+  }
+  return null;
+}
+
+function scheduleRollout(rollout: ModelRollout) {
+  const existing = rolloutTimers.get(rollout.rolloutId);
+  if (existing) clearTimeout(existing);
+  if (rollout.status !== 'running' || !rollout.nextStageAt) return;
+  const delay = Math.max(0, new Date(rollout.nextStageAt).getTime() - Date.now());
+  const timer = setTimeout(() => retryWhenBusy(() => advanceRollout(rollout.rolloutId)), delay);
+  (timer as any).unref?.();
+  rolloutTimers.set(rollout.rolloutId, timer);
+}
+
+// Every process sharing the store schedules every running rollout, so a
+// rollout only moves through an atomic update from the state the caller
+// decided on (`seen`). Returns null, changing nothing, when another process
+// has already moved it.
+function transitionRollout(seen: ModelRollout, change: (rollout: ModelRollout) => void) {
+  let moved = false;
+  const stored = rolloutsRepo.update(seen.rolloutId, (r) => {
+    if (r.status !== 'running' || r.stageIndex !== seen.stageIndex || r.nextStageAt !== seen.nextStageAt) return;
+    r.metrics = seen.metrics;
+    change(r);
+    moved = true;
+  });
+  return moved ? stored! : null;
+}
+
+// Returns false when the rollout had already moved on (see transitionRollout)
+function endRollout(
+  rollout: ModelRollout,
+  status: 'halted' | 'aborted',
+  reason: string,
+  actor: string
+) {
+  const now = new Date().toISOString();
+  const ended = transitionRollout(rollout, (r) => {
+    r.status = status;
+    r.haltReason = reason;
+    r.traffic = 0;
+    r.endedAt = now;
+    r.nextStageAt = undefined;
+    r.history.push({ at: now, event: status, traffic: 0, detail: reason });
+  });
+  if (!ended) return false;
+  scheduleRollout(ended);
+
+  // The rollout is already ended, so these writes wait out a busy store
+  retryWhenBusy(() => {
+    if (rollout.baselineModelId) {
+      rollbackModel(rollout.modelId, rollout.baselineModelId, actor);
+    } else {
+      modelsRepo.update(rollout.modelId, (m) => {
+        m.status = 'trained';
+        m.shadowEnd = now;
+      });
+    }
+  });
+
+  console.log(`Rollout ${status}: ${rollout.rolloutId} (${rollout.modelId}) - ${reason}`);
+  retryWhenBusy(() => auditModel({ type: `model:rollout:${status}`, rolloutId: rollout.rolloutId, modelId: rollout.modelId, reason, actor }));
+  return true;
+}
+
+function completeRollout(rollout: ModelRollout) {
+  const now = new Date().toISOString();
+  const completed = transitionRollout(rollout, (r) => {
+    r.status = 'completed';
+    r.traffic = 1;
+    r.endedAt = now;
+    r.nextStageAt = undefined;
+    r.history.push({ at: now, event: 'completed', traffic: 1 });
+  });
+  if (!completed) return;
+
+  retryWhenBusy(() => {
+    archiveDeployedModels();
+    modelsRepo.update(rollout.modelId, (m) => {
+      m.status = 'deployed';
+      m.deployedAt = now;
+      m.shadowEnd = now;
+    });
+  });
+
+  console.log(`Rollout completed: ${rollout.rolloutId} -> ${rollout.modelId} deployed`);
+  retryWhenBusy(() => auditModel({ type: 'model:rollout:completed', rolloutId: rollout.rolloutId, modelId: rollout.modelId, actor: 'rollout-controller' }));
+}
+
+// Scheduled stage gate: evaluate shadow metrics, then halt, advance or finish
+function advanceRollout(rolloutId: string) {
+  rolloutTimers.delete(rolloutId);
+  const rollout = rolloutsRepo.get(rolloutId);
+  if (!rollout || rollout.status !== 'running') return;
+  // Another process sharing the store may already have advanced this stage
+  if (rollout.nextStageAt && new Date(rollout.nextStageAt).getTime() > Date.now()) {
+    return scheduleRollout(rollout);
+  }
+
+  const model = modelsRepo.get(rollout.modelId);
+  if (!model) {
+    return endRollout(rollout, 'halted', 'Candidate model no longer exists', 'rollout-controller');
+  }
+
+  // Metrics reported during this stage take precedence over sampling
+  const reported = rollout.metrics?.source === 'reported'
+    && rollout.metrics.at >= rollout.stageStartedAt;
+  if (!reported) rollout.metrics = sampleShadowMetrics(model);
+
+  const breach = rolloutBreach(rollout);
+  if (breach) return endRollout(rollout, 'halted', breach, 'rollout-controller');
+
+  if (rollout.stageIndex >= rollout.stages.length - 1) return completeRollout(rollout);
+
+  const now = new Date();
+  const advanced = transitionRollout(rollout, (r) => {
+    r.stageIndex += 1;
+    r.traffic = r.stages[r.stageIndex];
+    r.stageStartedAt = now.toISOString();
+    r.nextStageAt = new Date(now.getTime() + r.stageIntervalSec * 1000).toISOString();
+    r.history.push({ at: r.stageStartedAt, event: 'stage', traffic: r.traffic });
+  });
+  if (!advanced) return;
+  scheduleRollout(advanced);
+
+  console.log(`Rollout ${rolloutId}: stage ${advanced.stageIndex + 1}/${advanced.stages.length} at ${Math.round(advanced.traffic * 100)}% traffic`);
+  retryWhenBusy(() => auditModel({ type: 'model:rollout:stage', rolloutId, modelId: advanced.modelId, traffic: advanced.traffic, actor: 'rollout-controller' }));
+}
+
+// Pick up rollouts that were running when the process stopped; processes
+// sharing the store race through transitionRollout, so each stage moves once
+for (const rollout of rolloutsRepo.list()) scheduleRollout(rollout);
+
+interface RolloutOptions {
+  mode: ModelRollout['mode'];
+  cap?: number;
+  steps: number;
+  stageIntervalSec: number;
+  thresholds: { minSharpe?: number; maxDrawdown?: number };
+}
+
+function startRollout(modelId: string, options: RolloutOptions, actor: string, proposalId: string) {
+  const { mode, cap, steps, stageIntervalSec, thresholds } = options;
+  const model = modelsRepo.get(modelId)!;
+  const baseline = modelsRepo.find(m => m.status === 'deployed');
+  const stages = rolloutStages(mode, roundShare(cap ?? (mode === 'linear' ? 1 / steps : 0.1)), steps);
+  const now = new Date();
+  const rollout: ModelRollout = {
+    rolloutId: `rollout_${now.getTime()}`,
+    modelId,
+    baselineModelId: baseline?.modelId,
+    mode,
+    status: 'running',
+    stages,
+    stageIndex: 0,
+    traffic: stages[0],
+    stageIntervalSec,
+    stageStartedAt: now.toISOString(),
+    nextStageAt: new Date(now.getTime() + stageIntervalSec * 1000).toISOString(),
+    thresholds: {
+      minSharpe: Number(thresholds.minSharpe ?? ROLLOUT_DEFAULT_THRESHOLDS.minSharpe),
+      maxDrawdown: Math.abs(Number(thresholds.maxDrawdown ?? ROLLOUT_DEFAULT_THRESHOLDS.maxDrawdown))
+    },
+    startedAt: now.toISOString(),
+    createdBy: actor,
+    history: [{ at: now.toISOString(), event: 'started', traffic: stages[0] }]
+  };
+
+  model.status = 'shadow';
+  model.shadowStart = now.toISOString();
+  model.shadowEnd = undefined;
+  modelsRepo.upsert(model);
+  rolloutsRepo.upsert(rollout);
+  scheduleRollout(rollout);
+
+  console.log(`Rollout started: ${rollout.rolloutId} ${mode} for ${modelId} (${stages.map(t => `${Math.round(t * 100)}%`).join(' -> ')})`);
+  auditModel({ type: 'model:rollout:started', rolloutId: rollout.rolloutId, modelId, mode, stages, proposalId, actor });
+  return rollout;
+}
+
+// Start a staged rollout once founders approve it (see governModelAction)
+export function handleStartRollout(req: Request, res: Response) {
+  const actor = (req as any).user?.email || 'admin';
+  const {
+    modelId,
+    mode = 'canary',
+    cap,
+    steps = 4,
+    stageIntervalSec = ROLLOUT_DEFAULT_INTERVAL_SEC,
+    thresholds = {}
+  } = req.body || {};
+  auditModel({ type: 'model:rollout:attempt', modelId, mode }, req);
+
+  const fieldErrors: Record<string, string> = {};
+  if (!modelId) fieldErrors.modelId = 'Required';
+  if (!['canary', 'linear', 'blue_green'].includes(mode)) fieldErrors.mode = 'Must be canary, linear or blue_green';
+  if (cap !== undefined && !(typeof cap === 'number' && cap > 0 && cap <= 1)) fieldErrors.cap = 'Must be a fraction in (0, 1]';
+  if (!(Number.isInteger(steps) && steps >= 2 && steps <= 10)) fieldErrors.steps = 'Must be an integer between 2 and 10';
+  if (!(typeof stageIntervalSec === 'number' && stageIntervalSec >= 5 && stageIntervalSec <= 86400)) fieldErrors.stageIntervalSec = 'Must be between 5 and 86400 seconds';
+  if (Object.keys(fieldErrors).length > 0) {
+    return res.status(422).json({ status: 'error', message: 'Validation failed', fields: fieldErrors });
+  }
+
+  return governModelAction(req, res, {
+    modelId,
+    action: 'rollout',
+    rollout: { mode, cap, steps, stageIntervalSec, thresholds: { minSharpe: thresholds.minSharpe, maxDrawdown: thresholds.maxDrawdown } }
+  });
+}
+
+// Model changes that need founder approval, decided by a model_rollout proposal
+interface ModelRolloutPayload {
+  modelId: string;
+  action: 'promote' | 'deploy' | 'rollout';
+  rollout?: RolloutOptions;
+}
+
+// Why the action cannot run now; checked when proposed and again on execution
+function modelActionBlocker({ modelId, action }: ModelRolloutPayload): { code: number; message: string } | null {
+  const model = modelsRepo.get(modelId);
+  if (!model) return { code: 404, message: 'Model not found' };
+  if (action !== 'rollout') {
+    return model.status === 'deployed' ? { code: 400, message: 'Model is already deployed' } : null;
+  }
+  if (model.status === 'deployed' || model.status === 'training') {
+    return { code: 400, message: `Cannot roll out a model with status: ${model.status}` };
+  }
+  const active = rolloutsRepo.find(r => r.status === 'running');
+  if (active) return { code: 409, message: `Rollout ${active.rolloutId} for ${active.modelId} is still running` };
+  return null;
+}
+
+registerProposalExecutor<ModelRolloutPayload>('model_rollout', {
+  subject: ({ modelId }) => modelId,
+  validate: (payload) => {
+    if (!payload?.modelId || !['promote', 'deploy', 'rollout'].includes(payload.action)) {
+      throw new GovernanceValidationError('payload needs a modelId and an action of promote, deploy or rollout');
+    }
+    if (payload.action === 'rollout' && !payload.rollout) {
+      throw new GovernanceValidationError('rollout proposals need rollout options');
+    }
+  },
+  precheck: (payload) => {
+    const blocker = modelActionBlocker(payload);
+    if (blocker) throw new GovernanceConflictError(blocker.message);
+  },
+  apply: (payload, proposal) =>
+    payload.action === 'rollout'
+      ? startRollout(payload.modelId, payload.rollout!, proposal.createdBy, proposal.id)
+      : deployModel(payload.modelId, payload.action, proposal.id)
+});
+
+const ACTION_DONE: Record<ModelRolloutPayload['action'], string> = {
+  promote: 'Model promoted to production successfully',
+  deploy: 'Model deployed successfully',
+  rollout: 'Rollout started successfully'
+};
+
+// Without a proposalId the request opens a model_rollout proposal (202) that
+// runs once founders approve it; with the id of an approved proposal covering
+// the same action it executes that proposal now
+async function governModelAction(req: Request, res: Response, payload: ModelRolloutPayload) {
+  const actor = (req as any).user?.email || 'admin';
+  const { proposalId } = req.body || {};
+  const blocker = modelActionBlocker(payload);
+  if (blocker) {
+    return res.status(blocker.code).json({ status: 'error', message: blocker.message });
+  }
+
+  try {
+    if (proposalId) {
+      const proposal = getProposal(String(proposalId));
+      if (proposal.kind !== 'model_rollout' || proposal.payload.modelId !== payload.modelId || proposal.payload.action !== payload.action) {
+        return res.status(400).json({
+          status: 'error',
+          message: `Proposal ${proposal.id} does not cover ${payload.action} of ${payload.modelId}`
+        });
+      }
+      const done = await executeProposal(proposal.id, actor);
+      return res.status(payload.action === 'rollout' ? 201 : 200).json({
+        status: 'success',
+        message: ACTION_DONE[payload.action],
+        data: done.result,
+        proposalId: done.id
+      });
+    }
+
+    const proposal = createProposal<ModelRolloutPayload>({
+      kind: 'model_rollout',
+      description: `${payload.action === 'rollout' ? `Roll out (${payload.rollout!.mode})` : payload.action === 'promote' ? 'Promote' : 'Deploy'} model ${payload.modelId}`,
+      payload,
+      createdBy: actor
+    });
+    auditModel({ type: `model:${payload.action}:proposed`, modelId: payload.modelId, proposalId: proposal.id }, req);
+
+    return res.status(202).json({
+      status: 'success',
+      message: `Founder approval required: proposal ${proposal.id} is open for votes`,
+      data: { proposal }
+    });
+  } catch (e) {
+    const code = governanceErrorStatus(e);
+    if (code === 500) throw e;
+    return res.status(code).json({ status: 'error', message: (e as Error).message });
+  }
+}
+
+// Inspect the running rollout (or the latest one) and its current stage
+export function handleGetRollout(req: Request, res: Response) {
+  const { modelId } = req.query as Record<string, string>;
+  const rollouts = rolloutsRepo.list()
+    .filter(r => !modelId || r.modelId === modelId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  const rollout = rollouts.find(r => r.status === 'running') || rollouts[0];
+
+  if (!rollout) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'No rollout found'
+    });
+  }
 
   res.json({
     status: 'success',
-    message: 'Model rollback completed successfully',
-    data: { fromModel, toModel }
+    data: rollout,
+    metadata: { total: rollouts.length }
+  });
+}
+
+export function handleGetRolloutById(req: Request, res: Response) {
+  const rollout = rolloutsRepo.get(req.params.rolloutId);
+  if (!rollout) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'Rollout not found'
+    });
+  }
+
+  res.json({
+    status: 'success',
+    data: rollout
+  });
+}
+
+// Shadow metrics feed for a running rollout; a breach halts it immediately
+export function handleReportRolloutMetrics(req: Request, res: Response) {
+  const { sharpe, drawdown } = req.body || {};
+  if (typeof sharpe !== 'number' || typeof drawdown !== 'number') {
+    return res.status(422).json({
+      status: 'error',
+      message: 'Validation failed',
+      fields: {
+        ...(typeof sharpe !== 'number' ? { sharpe: 'Must be a number' } : {}),
+        ...(typeof drawdown !== 'number' ? { drawdown: 'Must be a number' } : {})
+      }
+    });
+  }
+
+  const rollout = rolloutsRepo.get(req.params.rolloutId);
+  if (!rollout) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'Rollout not found'
+    });
+  }
+
+  if (rollout.status !== 'running') {
+    return res.status(400).json({
+      status: 'error',
+      message: `Rollout is ${rollout.status}`
+    });
+  }
+
+  rollout.metrics = {
+    sharpe,
+    drawdown: Math.abs(drawdown),
+    source: 'reported',
+    at: new Date().toISOString()
+  };
+  const breach = rolloutBreach(rollout);
+  const recorded = breach
+    ? endRollout(rollout, 'halted', breach, 'rollout-controller')
+    : !!transitionRollout(rollout, () => {});
+  if (!recorded) {
+    return res.status(409).json({
+      status: 'error',
+      message: 'Rollout moved on while the metrics were reported; retry'
+    });
+  }
+
+  res.json({
+    status: 'success',
+    data: rolloutsRepo.get(rollout.rolloutId)
+  });
+}
+
+// Manually stop a running rollout and restore the baseline model
+export function handleAbortRollout(req: Request, res: Response) {
+  const rollout = rolloutsRepo.get(req.params.rolloutId);
+  if (!rollout) {
+    return res.status(404).json({
+      status: 'error',
+      message: 'Rollout not found'
+    });
+  }
+
+  if (rollout.status !== 'running') {
+    return res.status(400).json({
+      status: 'error',
+      message: `Rollout is ${rollout.status}`
+    });
+  }
+
+  const reason = (req.body?.reason as string) || 'Aborted by operator';
+  if (!endRollout(rollout, 'aborted', reason, (req as any).user?.id || 'admin')) {
+    return res.status(409).json({
+      status: 'error',
+      message: 'Rollout moved on while it was being aborted; retry'
+    });
+  }
+
+  res.json({
+    status: 'success',
+    message: 'Rollout aborted and baseline model restored',
+    data: rolloutsRepo.get(rollout.rolloutId)
   });
 }
 
 // Get shadow tests (mock implementation)
 export function handleGetShadowTests(_req: Request, res: Response) {
-  const shadowTests = models
+  const shadowTests = modelsRepo.list()
     .filter(m => m.status === 'shadow' || m.shadowStart)
     .map(m => ({
       id: `shadow_${m.modelId}`,
@@ -1572,8 +2121,9 @@ export function handleGetShadowTests(_req: Request, res: Response) {
 // Admin registry: expose models, available policies, last checkpoint
 export function handleAdminModelsRegistry(_req: Request, res: Response) {
   try {
+    const models = modelsRepo.list();
     const lastModelTs = models.reduce((max, m) => Math.max(max, new Date(m.createdAt).getTime()), 0);
-    const lastJobTs = trainingJobs.reduce((max, j) => Math.max(max, new Date(j.endTime || j.startTime).getTime()), 0);
+    const lastJobTs = trainingJobsRepo.list().reduce((max, j) => Math.max(max, new Date(j.endTime || j.startTime).getTime()), 0);
     const lastCheckpoint = new Date(Math.max(0, lastModelTs, lastJobTs)).toISOString();
     const policies = [
       'PPO', 'Recurrent PPO', 'SAC', 'TD3', 'A2C', 'DDPG',
@@ -1,4 +1,16 @@
 import type { Request, Response } from "express";
+import {
+  alignReturns,
+  CovarianceError,
+  estimateCovariance,
+  validateCovariance,
+} from "../portfolio/covariance";
+import {
+  normalizeOptimizeInput,
+  optimize,
+  OptimizerInfeasibleError,
+  OptimizerValidationError,
+} from "../portfolio/optimizer";
 
 // In-memory store for last uploaded covariance matrix
 let lastCovariance: {
@@ -6,177 +18,144 @@ let lastCovariance: {
   symbols: string[];
   matrix: number[][];
   uploadedAt: string;
+  /** Present when the matrix was estimated from uploaded returns */
+  means?: number[];
+  shrinkage?: number;
+  observations?: number;
 } | null = null;
 
-function isSquareMatrix(m: number[][]): boolean {
-  if (!Array.isArray(m) || m.length === 0) return false;
-  const n = m.length;
-  return m.every((row) => Array.isArray(row) && row.length === n && row.every((v) => typeof v === "number" && Number.isFinite(v)));
-}
-
-function identity(n: number): number[][] {
-  return Array.from({ length: n }, (_, i) =>
-    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
-  );
-}
+export class CovarianceNotFoundError extends Error {}
 
-function cloneMatrix(a: number[][]): number[][] {
-  return a.map((row) => row.slice());
-}
-
-// Robust matrix inversion with small ridge regularization for near-singular matrices
-function invertMatrix(a: number[][], ridge = 1e-8): number[][] {
-  const n = a.length;
-  const A = cloneMatrix(a);
-  for (let i = 0; i < n; i++) A[i][i] += ridge; // ridge
-  const I = identity(n);
-  // Augment A | I
-  for (let i = 0; i < n; i++) A[i] = [...A[i], ...I[i]];
-  // Gaussian elimination
-  for (let col = 0; col < n; col++) {
-    // Find pivot
-    let pivot = col;
-    for (let r = col + 1; r < n; r++) {
-      if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
-    }
-    if (Math.abs(A[pivot][col]) < 1e-15) throw new Error("Matrix is singular");
-    // Swap
-    if (pivot !== col) {
-      const tmp = A[col];
-      A[col] = A[pivot];
-      A[pivot] = tmp;
-    }
-    // Normalize row
-    const div = A[col][col];
-    for (let c = 0; c < 2 * n; c++) A[col][c] /= div;
-    // Eliminate other rows
-    for (let r = 0; r < n; r++) {
-      if (r === col) continue;
-      const factor = A[r][col];
-      for (let c = 0; c < 2 * n; c++) A[r][c] -= factor * A[col][c];
-    }
-  }
-  // Extract right half as inverse
-  const inv: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
-  for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) inv[i][j] = A[i][j + n];
-  return inv;
+export interface ResolvedCovariance {
+  symbols: string[];
+  matrix: number[][];
+  means?: number[];
+  shrinkage?: number;
+  observations?: number;
 }
 
-function matVecMul(A: number[][], v: number[]): number[] {
-  return A.map((row) => row.reduce((sum, aij, j) => sum + aij * v[j], 0));
+function shrinkRequested(v: unknown) {
+  return v === undefined || v === null
+    ? true
+    : !["none", "false", "off"].includes(String(v).toLowerCase());
 }
 
-function projectNonNegative(w: number[]): number[] {
-  const clipped = w.map((x) => (x > 0 ? x : 0));
-  const s = clipped.reduce((a, b) => a + b, 0);
-  if (s <= 0) {
-    const n = clipped.length;
-    return Array.from({ length: n }, () => 1 / n);
+/**
+ * Covariance for a request: `symbols` with either `matrix` or `returns`
+ * (shrunk with Ledoit-Wolf unless `shrinkage: "none"`), or the `covarianceId`
+ * of the last upload.
+ */
+export function resolveCovariance(body: any): ResolvedCovariance {
+  const { symbols, matrix, returns, covarianceId, shrinkage } = body || {};
+  if (Array.isArray(symbols) && (matrix || returns)) {
+    if (!symbols.every((s) => typeof s === "string" && s.trim().length > 0))
+      throw new CovarianceError("symbols must be non-empty strings");
+    const syms = symbols.map((s: string) => s.toUpperCase());
+    if (matrix)
+      return { symbols: syms, matrix: validateCovariance(matrix, syms.length) };
+    const est = estimateCovariance(
+      alignReturns(returns, syms),
+      shrinkRequested(shrinkage),
+    );
+    return { symbols: syms, ...est };
   }
-  return clipped.map((x) => x / s);
-}
-
-function normalizeToOne(w: number[]): number[] {
-  const s = w.reduce((a, b) => a + b, 0);
-  if (!Number.isFinite(s) || Math.abs(s) < 1e-12) {
-    const n = w.length;
-    return Array.from({ length: n }, () => 1 / n);
+  if (covarianceId) {
+    if (!lastCovariance || lastCovariance.id !== covarianceId)
+      throw new CovarianceNotFoundError("covariance not found");
+    return lastCovariance;
   }
-  return w.map((x) => x / s);
-}
-
-function kellyAlloc(mu: number[], cov: number[][]): number[] {
-  const inv = invertMatrix(cov);
-  const w = matVecMul(inv, mu);
-  return projectNonNegative(w);
+  throw new CovarianceError("valid covariance symbols/matrix required");
 }
 
-function markowitzAlloc(mu: number[], cov: number[][], riskAversion = 1): number[] {
-  const inv = invertMatrix(cov);
-  const scaledMu = mu.map((m) => m / Math.max(1e-8, riskAversion));
-  const raw = matVecMul(inv, scaledMu);
-  const nn = projectNonNegative(raw);
-  return normalizeToOne(nn);
+/** Maps optimizer and covariance errors onto the route's status codes */
+export function optimizerErrorStatus(e: unknown) {
+  if (e instanceof CovarianceNotFoundError) return 404;
+  if (
+    e instanceof CovarianceError ||
+    e instanceof OptimizerValidationError ||
+    e instanceof OptimizerInfeasibleError
+  )
+    return 422;
+  return 500;
 }
 
 export function handleUploadCovariance(req: Request, res: Response) {
   try {
-    const { symbols, matrix } = req.body || {};
-    if (!Array.isArray(symbols) || !Array.isArray(matrix)) {
-      return res.status(422).json({ status: "error", message: "symbols (string[]) and matrix (number[][]) required" });
-    }
-    if (!symbols.every((s) => typeof s === "string" && s.trim().length > 0)) {
-      return res.status(422).json({ status: "error", message: "symbols must be non-empty strings" });
-    }
-    if (!isSquareMatrix(matrix) || matrix.length !== symbols.length) {
-      return res.status(422).json({ status: "error", message: "matrix must be square and match symbols length" });
+    const { symbols, matrix, returns } = req.body || {};
+    if (!Array.isArray(symbols) || (!Array.isArray(matrix) && !returns)) {
+      return res.status(422).json({
+        status: "error",
+        message:
+          "symbols (string[]) and matrix (number[][]) or returns required",
+      });
     }
+    const resolved = resolveCovariance(req.body);
     const id = `cov_${Date.now()}`;
-    lastCovariance = { id, symbols: symbols.map((s) => s.toUpperCase()), matrix, uploadedAt: new Date().toISOString() };
-    return res.json({ status: "success", id, symbols: lastCovariance.symbols, size: matrix.length });
+    lastCovariance = { id, ...resolved, uploadedAt: new Date().toISOString() };
+    return res.json({
+      status: "success",
+      id,
+      symbols: lastCovariance.symbols,
+      size: lastCovariance.matrix.length,
+      shrinkage: lastCovariance.shrinkage,
+    });
   } catch (e: any) {
-    return res.status(500).json({ status: "error", message: e?.message || "Upload failed" });
+    const code = optimizerErrorStatus(e);
+    return res
+      .status(code)
+      .json({ status: "error", message: e?.message || "Upload failed" });
   }
 }
 
 export function handleRunOptimizer(req: Request, res: Response) {
   try {
-    const { method, expectedReturns, covarianceId, symbols, matrix, riskAversion } = req.body || {};
-    let covSymbols: string[] = symbols;
-    let cov: number[][] = matrix;
-    if ((!covSymbols || !cov) && covarianceId) {
-      if (!lastCovariance || lastCovariance.id !== covarianceId) {
-        return res.status(404).json({ status: "error", message: "covariance not found" });
-      }
-      covSymbols = lastCovariance.symbols;
-      cov = lastCovariance.matrix;
+    const body = req.body || {};
+    const cov = resolveCovariance(body);
+    const m = String(body.method || "markowitz").toLowerCase();
+    if (m !== "kelly" && m !== "markowitz") {
+      return res.status(422).json({
+        status: "error",
+        message: "method must be kelly or markowitz",
+      });
     }
-    if (!Array.isArray(covSymbols) || !isSquareMatrix(cov) || cov.length !== covSymbols.length) {
-      return res.status(422).json({ status: "error", message: "valid covariance symbols/matrix required" });
-    }
-    // expectedReturns can be array aligned with symbols, or a map
-    let mu: number[] = [];
-    if (Array.isArray(expectedReturns)) {
-      if (expectedReturns.length !== covSymbols.length)
-        return res.status(422).json({ status: "error", message: "expectedReturns length must match symbols" });
-      mu = expectedReturns.map((v: any) => Number(v));
-    } else if (expectedReturns && typeof expectedReturns === "object") {
-      mu = covSymbols.map((s) => Number((expectedReturns as any)[s] ?? (expectedReturns as any)[s.toUpperCase()] ?? 0));
-    } else {
-      // default equal expected return
-      mu = Array.from({ length: covSymbols.length }, () => 0.01);
-    }
-    if (mu.some((v) => !Number.isFinite(v))) {
-      return res.status(422).json({ status: "error", message: "expectedReturns must be numbers" });
-    }
-    const m = String(method || "markowitz").toLowerCase();
-    let weights: number[];
-    if (m === "kelly") weights = kellyAlloc(mu, cov);
-    else weights = markowitzAlloc(mu, cov, Number(riskAversion) || 1);
-
-    const result = covSymbols.map((sym, i) => ({ symbol: sym, weight: weights[i] }));
+    const input = normalizeOptimizeInput(
+      { ...body, method: m },
+      cov.symbols,
+      cov.matrix,
+      cov.means,
+    );
+    const r = optimize(input);
+    const result = cov.symbols.map((sym, i) => ({
+      symbol: sym,
+      weight: r.weights[i],
+    }));
     const response = {
       status: "success",
       method: m,
-      riskAversion: Number(riskAversion) || 1,
-      symbols: covSymbols,
+      riskAversion: r.riskAversion,
+      symbols: cov.symbols,
       allocations: result,
-      stats: {
-        expectedReturn: mu.reduce((sum, r, i) => sum + r * weights[i], 0),
-        variance: weights.reduce((acc, wi, i) => acc + wi * cov[i].reduce((s, cij, j) => s + cij * weights[j], 0), 0),
-      },
+      stats: r.stats,
+      solver: r.solver,
     };
     return res.json(response);
   } catch (e: any) {
-    return res.status(500).json({ status: "error", message: e?.message || "Optimization failed" });
+    const code = optimizerErrorStatus(e);
+    return res
+      .status(code)
+      .json({ status: "error", message: e?.message || "Optimization failed" });
   }
 }
 
 export function handleGetLastOptimization(_req: Request, res: Response) {
   if (!lastCovariance) return res.json({ status: "success", data: null });
-  return res.json({ status: "success", data: { covarianceId: lastCovariance.id, symbols: lastCovariance.symbols, uploadedAt: lastCovariance.uploadedAt } });
-}
-
-export function __getLastCovariance() {
-  return lastCovariance;
+  return res.json({
+    status: "success",
+    data: {
+      covarianceId: lastCovariance.id,
+      symbols: lastCovariance.symbols,
+      uploadedAt: lastCovariance.uploadedAt,
+      shrinkage: lastCovariance.shrinkage,
+    },
+  });
 }
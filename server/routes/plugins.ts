@@ -1,36 +1,209 @@
 import type { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import {
+  activatePlugin,
+  deactivatePlugin,
+  dryRunPlugin,
+  getPluginTelemetry,
+  loadPluginSource,
+  PluginLoadError,
+  type DryRunReport,
+} from '../plugins/runtime';
+import { castProposalVote, createProposal, executeProposal, getProposal, governanceErrorStatus, registerProposalExecutor } from './governance';
+import { GovernanceConflictError, tallyVotes, type VoteChoice } from '../governance/engine';
+import { recordAudit } from './audit';
 
-let proposals: any[] = [];
+interface PluginProposal {
+  name: string;
+  module: string;
+  description: string;
+  proposer: string;
+  submitted_at: string;
+  status: 'pending' | 'approved' | 'activated' | 'rejected' | 'deactivated' | 'failed';
+  /** Tally of the activation proposal; filled in when the record is read */
+  votes: { for: number; against: number; abstain: number };
+  /** plugin_activation governance proposal deciding this activation */
+  proposal_id?: string;
+  dry_run?: DryRunReport;
+  code_sha256?: string;
+  activated_at?: string;
+  activation_error?: string;
+}
+
+const proposalsRepo = createRepository<PluginProposal>('plugin_proposals', {
+  key: (p) => p.name,
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: pending status and an empty tally',
+      up: (p) => ({ status: 'pending', votes: { for: 0, against: 0, abstain: 0 }, ...p })
+    }
+  ]
+});
+
+function listNewestFirst() {
+  return proposalsRepo.list().sort((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+}
+
+function activationProposal(p: PluginProposal) {
+  if (!p.proposal_id) return undefined;
+  try { return getProposal(p.proposal_id); } catch { return undefined; }
+}
+
+// Votes and the pending/approved/rejected state come from the governance proposal
+function withGovernance(p: PluginProposal) {
+  const g = activationProposal(p);
+  if (!g) return p;
+  const t = tallyVotes(g.votes);
+  let status = p.status;
+  if (status === 'pending' && g.status === 'approved') status = 'approved';
+  if (status === 'pending' && (g.status === 'rejected' || g.status === 'expired')) status = 'rejected';
+  return {
+    ...p,
+    status,
+    votes: { for: t.approve, against: t.reject, abstain: t.abstain },
+    governance: { id: g.id, status: g.status, requiredVotes: g.requiredVotes, threshold: g.threshold, expiresAt: g.expiresAt, error: g.error || null }
+  };
+}
+
+function proposeActivation(name: string, description: string, actor: string) {
+  return createProposal({ kind: 'plugin_activation', description: `Activate plugin ${name}: ${description}`, payload: { name }, createdBy: actor });
+}
+
+// Activation runs through the governance executor once founders approve
+registerProposalExecutor<{ name: string }>('plugin_activation', {
+  subject: ({ name }) => name,
+  precheck: ({ name }) => {
+    const p = proposalsRepo.get(name);
+    if (!p) throw new GovernanceConflictError(`plugin ${name} not found`);
+    if (!p.dry_run?.passed) throw new GovernanceConflictError('a passing dry run is required before activation');
+    if (loadPluginSource(p.module).sha256 !== p.dry_run.sha256) throw new GovernanceConflictError('module changed since its dry run; run it again');
+  },
+  apply: async ({ name }) => {
+    const p = proposalsRepo.get(name)!;
+    try {
+      await activatePlugin(name, p.module, p.dry_run!.sha256);
+    } catch (e: any) {
+      proposalsRepo.update(name, (pr) => { pr.status = 'failed'; pr.activation_error = String(e?.message || e); });
+      throw new Error(`activation failed: ${e?.message || e}`);
+    }
+    proposalsRepo.update(name, (pr) => {
+      pr.status = 'activated';
+      pr.code_sha256 = p.dry_run!.sha256;
+      pr.activated_at = new Date().toISOString();
+      delete pr.activation_error;
+    });
+    return { name, code_sha256: p.dry_run!.sha256 };
+  }
+});
+
+function sendGovernanceError(res: Response, e: unknown) {
+  if (e instanceof PluginLoadError) return res.status(422).json({ status:'error', detail: e.message });
+  const code = governanceErrorStatus(e);
+  if (code === 500) throw e;
+  res.status(code).json({ status:'error', detail: (e as Error).message });
+}
 
 export function handlePluginsList(_req: Request, res: Response) {
-  res.json({ status:'success', data: proposals });
+  const data = listNewestFirst().map((p) => ({ ...withGovernance(p), telemetry: getPluginTelemetry(p.name) || null }));
+  res.json({ status:'success', data });
 }
 
+// A name can be proposed again once its previous activation was rejected,
+// failed or deactivated
 export function handlePluginPropose(req: Request, res: Response) {
   const { name, module, description } = req.body || {};
   if (!name || !module || !description) return res.status(400).json({ status:'error', detail:'missing fields' });
-  if (proposals.find(p=>p.name===name)) return res.status(409).json({ status:'error', detail:'duplicate name' });
-  const p = { name, module, description, proposer: 'admin@example.com', submitted_at: new Date().toISOString(), status:'pending', votes:{ for:0, against:0, abstain:0 } };
-  proposals.unshift(p);
-  res.status(201).json({ status:'success', data:p });
+  const existing = proposalsRepo.get(name);
+  if (existing && !['rejected', 'failed', 'deactivated'].includes(withGovernance(existing).status)) return res.status(409).json({ status:'error', detail:'duplicate name' });
+  const proposer = req.user?.email || 'unknown';
+  let proposal_id: string;
+  try {
+    proposal_id = proposeActivation(name, description, proposer).id;
+  } catch (e) {
+    return sendGovernanceError(res, e);
+  }
+  const p: PluginProposal = { name, module, description, proposer, submitted_at: new Date().toISOString(), status:'pending', votes:{ for:0, against:0, abstain:0 }, proposal_id };
+  proposalsRepo.upsert(p);
+  res.status(201).json({ status:'success', data: withGovernance(p) });
 }
 
-export function handlePluginVote(req: Request, res: Response) {
+// One vote per founder, recorded on the activation proposal
+export async function handlePluginVote(req: Request, res: Response) {
   const { name } = req.params as { name: string };
   const { choice } = req.body || {};
-  const p = proposals.find(pr=>pr.name===name);
+  const p = proposalsRepo.get(name);
   if (!p) return res.status(404).json({ status:'error', detail:'not found' });
   if (!['approve','reject','abstain'].includes(choice)) return res.status(400).json({ status:'error', detail:'invalid choice' });
-  if (choice==='approve') p.votes.for++; else if (choice==='reject') p.votes.against++; else p.votes.abstain++;
-  res.json({ status:'success', data:p });
+  if (!req.user) return res.status(401).json({ status:'error', detail:'authentication required' });
+  if (!p.proposal_id) return res.status(409).json({ status:'error', detail:'plugin has no open activation proposal' });
+  try {
+    await castProposalVote(p.proposal_id, { id: req.user.id, email: req.user.email }, choice as VoteChoice);
+  } catch (e) {
+    return sendGovernanceError(res, e);
+  }
+  res.json({ status:'success', data: withGovernance(proposalsRepo.get(name)!) });
 }
 
-export function handlePluginApprove(req: Request, res: Response) {
+// POST /governance/plugins/:name/dry-run — replays historical bars through the
+// plugin in a throwaway sandbox and stores the report on the proposal
+export async function handlePluginDryRun(req: Request, res: Response) {
   const { name } = req.params as { name: string };
-  const p = proposals.find(pr=>pr.name===name);
+  const p = proposalsRepo.get(name);
   if (!p) return res.status(404).json({ status:'error', detail:'not found' });
-  const majority = p.votes.for >= 2; // mock quorum
-  if (!majority) return res.status(400).json({ status:'error', detail:'supermajority not reached' });
-  p.status = 'activated';
-  res.json({ status:'success', data:p, audit_entry_id: `audit_${Date.now()}` });
+  const { symbol, interval, lookback_days, config } = req.body || {};
+  try {
+    const report = await dryRunPlugin(name, p.module, { symbol, interval, lookbackDays: lookback_days, config });
+    const data = proposalsRepo.update(name, (pr) => { pr.dry_run = report; });
+    res.json({ status:'success', data: report, proposal: data });
+  } catch (e) {
+    if (e instanceof PluginLoadError) return res.status(422).json({ status:'error', detail: e.message });
+    throw e;
+  }
+}
+
+// Executes the passed activation proposal; the executor re-checks the dry run
+export async function handlePluginApprove(req: Request, res: Response) {
+  const { name } = req.params as { name: string };
+  const p = proposalsRepo.get(name);
+  if (!p) return res.status(404).json({ status:'error', detail:'not found' });
+  if (!p.proposal_id) return res.status(409).json({ status:'error', detail:'plugin has no activation proposal' });
+  let proposal;
+  try {
+    proposal = await executeProposal(p.proposal_id, req.user?.email || 'unknown');
+  } catch (e) {
+    return sendGovernanceError(res, e);
+  }
+  const data = withGovernance(proposalsRepo.get(name)!);
+  res.json({ status:'success', data: { ...data, telemetry: getPluginTelemetry(name) || null }, proposal_id: proposal.id });
+}
+
+export async function handlePluginDeactivate(req: Request, res: Response) {
+  const { name } = req.params as { name: string };
+  const existing = proposalsRepo.get(name);
+  if (!existing) return res.status(404).json({ status:'error', detail:'not found' });
+  await deactivatePlugin(name);
+  const data = proposalsRepo.update(name, (pr) => { pr.status = 'deactivated'; });
+  recordAudit({ action:'PLUGIN_DEACTIVATE', target: name, before:{ status: existing.status }, after:{ status:'deactivated' } }, req);
+  res.json({ status:'success', data });
+}
+
+export function handlePluginTelemetry(req: Request, res: Response) {
+  const { name } = req.params as { name: string };
+  const p = proposalsRepo.get(name);
+  if (!p) return res.status(404).json({ status:'error', detail:'not found' });
+  res.json({ status:'success', data: { name, status: p.status, code_sha256: p.code_sha256 || null, dry_run: p.dry_run || null, telemetry: getPluginTelemetry(name) || null } });
+}
+
+// Plugins left activated by a previous process are started again, provided
+// their module still matches the approved hash
+export async function restoreActivePlugins() {
+  for (const p of proposalsRepo.list().filter((pr) => pr.status === 'activated')) {
+    try {
+      await activatePlugin(p.name, p.module, p.code_sha256);
+    } catch (e: any) {
+      proposalsRepo.update(p.name, (pr) => { pr.status = 'failed'; pr.activation_error = String(e?.message || e); });
+      console.warn(`[plugins] could not restore ${p.name}: ${e?.message || e}`);
+    }
+  }
 }
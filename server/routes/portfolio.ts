@@ -1,16 +1,40 @@
 import { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import { CovarianceError } from '../portfolio/covariance';
+import { OptimizerInfeasibleError } from '../portfolio/optimizer';
+import {
+  executePlan,
+  marketSnapshot,
+  planPortfolio,
+  PortfolioPlan,
+  RebalanceExecutionError,
+  RebalanceValidationError,
+  RiskTier
+} from '../portfolio/rebalance';
 
 // Types matching the specification
 interface PortfolioRecord {
   id: string;
   user_id: string;
   mode: 'live' | 'demo' | 'paper';
+  risk_tier: RiskTier;
   total_balance: number;
   usdt_balance: number;
   hedged_balance: number;
+  /** Quantity held per market symbol, e.g. { 'BTC/USDT': 0.5 } */
+  holdings: Record<string, number>;
   last_updated: string;
 }
 
+type RebalanceStatus =
+  | 'preview'
+  | 'pending_approval'
+  | 'in_progress'
+  | 'completed'
+  | 'partially_completed'
+  | 'failed'
+  | 'rejected';
+
 interface RebalanceEvent {
   id: string;
   timestamp: string;
@@ -18,20 +42,55 @@ interface RebalanceEvent {
   reason: string;
   portfoliosAffected: number;
   totalValueRebalanced: number;
-  status: 'completed' | 'failed' | 'in_progress';
+  status: RebalanceStatus;
   duration: number; // in milliseconds
+  // Present on planned rebalances; older events only carry the summary above
+  dry_run?: boolean;
+  prices?: Record<string, number>;
+  plans?: PortfolioPlan[];
+  ordersCount?: number;
+  estimatedFees?: number;
+  estimatedSlippage?: number;
+  covarianceShrinkage?: number;
+  decidedBy?: string;
+  decidedAt?: string;
+  rejectionReason?: string;
 }
 
 const DEFAULT_PAGE_LIMIT = 20;
 const MAX_PAGE_LIMIT = 100;
 const DEFAULT_PAGE_OFFSET = 0;
 
+// Reference prices and per-tier mixes used to express the seeded balances as holdings
+const SEED_PRICES: Record<string, number> = {
+  'BTC/USDT': 43500,
+  'ETH/USDT': 2650,
+  'SOL/USDT': 98.5,
+  'ADA/USDT': 0.48
+};
+
+const SEED_MIX: Record<RiskTier, Record<string, number>> = {
+  conservative: { 'BTC/USDT': 0.6, 'ETH/USDT': 0.3, 'SOL/USDT': 0.1 },
+  moderate: { 'BTC/USDT': 0.45, 'ETH/USDT': 0.3, 'SOL/USDT': 0.15, 'ADA/USDT': 0.1 },
+  aggressive: { 'BTC/USDT': 0.25, 'ETH/USDT': 0.25, 'SOL/USDT': 0.3, 'ADA/USDT': 0.2 }
+};
+
+function seedHoldings(value: number, tier: RiskTier) {
+  return Object.fromEntries(
+    Object.entries(SEED_MIX[tier]).map(([symbol, w]) => [
+      symbol,
+      Math.round((value * w / SEED_PRICES[symbol]) * 1e8) / 1e8
+    ])
+  );
+}
+
 // Mock portfolio data matching the specification
-const portfolios: PortfolioRecord[] = [
+const seedPortfolios: Omit<PortfolioRecord, 'holdings'>[] = [
   {
     id: 'port_001',
     user_id: 'user_001',
     mode: 'live',
+    risk_tier: 'moderate',
     total_balance: 125000.50,
     usdt_balance: 15000.25,
     hedged_balance: 110000.25,
@@ -41,6 +100,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_002',
     user_id: 'user_002', 
     mode: 'live',
+    risk_tier: 'aggressive',
     total_balance: 89750.75,
     usdt_balance: 8975.08,
     hedged_balance: 80775.67,
@@ -50,6 +110,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_003',
     user_id: 'user_003',
     mode: 'demo',
+    risk_tier: 'moderate',
     total_balance: 256750.80,
     usdt_balance: 25675.08,
     hedged_balance: 231075.72,
@@ -59,6 +120,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_004',
     user_id: 'user_004',
     mode: 'live',
+    risk_tier: 'conservative',
     total_balance: 45200.15,
     usdt_balance: 4520.02,
     hedged_balance: 40680.13,
@@ -68,6 +130,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_005',
     user_id: 'user_005',
     mode: 'paper',
+    risk_tier: 'moderate',
     total_balance: 178920.45,
     usdt_balance: 17892.05,
     hedged_balance: 161028.40,
@@ -77,6 +140,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_006',
     user_id: 'user_006',
     mode: 'live',
+    risk_tier: 'aggressive',
     total_balance: 67890.30,
     usdt_balance: 6789.03,
     hedged_balance: 61101.27,
@@ -86,6 +150,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_007',
     user_id: 'user_007',
     mode: 'demo',
+    risk_tier: 'conservative',
     total_balance: 234567.89,
     usdt_balance: 23456.79,
     hedged_balance: 211111.10,
@@ -95,6 +160,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_008',
     user_id: 'user_008',
     mode: 'live',
+    risk_tier: 'moderate',
     total_balance: 98765.43,
     usdt_balance: 9876.54,
     hedged_balance: 88888.89,
@@ -104,6 +170,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_009',
     user_id: 'user_009',
     mode: 'live',
+    risk_tier: 'aggressive',
     total_balance: 156789.12,
     usdt_balance: 15678.91,
     hedged_balance: 141110.21,
@@ -113,6 +180,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_010',
     user_id: 'user_010',
     mode: 'paper',
+    risk_tier: 'conservative',
     total_balance: 87543.21,
     usdt_balance: 8754.32,
     hedged_balance: 78788.89,
@@ -122,6 +190,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_011',
     user_id: 'user_011',
     mode: 'live',
+    risk_tier: 'moderate',
     total_balance: 143210.98,
     usdt_balance: 14321.10,
     hedged_balance: 128889.88,
@@ -131,6 +200,7 @@ const portfolios: PortfolioRecord[] = [
     id: 'port_012',
     user_id: 'user_012',
     mode: 'demo',
+    risk_tier: 'aggressive',
     total_balance: 76543.21,
     usdt_balance: 7654.32,
     hedged_balance: 68888.89,
@@ -138,38 +208,71 @@ const portfolios: PortfolioRecord[] = [
   }
 ];
 
-const rebalanceHistory: RebalanceEvent[] = [
-  {
-    id: 'rebal_global_001',
-    timestamp: new Date(Date.now() - 86400000 * 1).toISOString(),
-    triggeredBy: 'admin@example.com',
-    reason: 'Market volatility adjustment',
-    portfoliosAffected: 8,
-    totalValueRebalanced: 1245000.75,
-    status: 'completed',
-    duration: 45000
-  },
-  {
-    id: 'rebal_global_002',
-    timestamp: new Date(Date.now() - 86400000 * 7).toISOString(),
-    triggeredBy: 'system@automated',
-    reason: 'Scheduled weekly rebalance',
-    portfoliosAffected: 12,
-    totalValueRebalanced: 1867543.25,
-    status: 'completed',
-    duration: 62000
-  },
-  {
-    id: 'rebal_global_003',
-    timestamp: new Date(Date.now() - 86400000 * 14).toISOString(),
-    triggeredBy: 'admin@example.com',
-    reason: 'Risk threshold breach',
-    portfoliosAffected: 5,
-    totalValueRebalanced: 567890.50,
-    status: 'failed',
-    duration: 15000
-  }
-];
+// Portfolios and rebalance runs are persisted (backend selected by AETHER_STORAGE)
+const portfoliosRepo = createRepository<PortfolioRecord>('portfolios', {
+  seed: () => seedPortfolios.map(p => ({ ...p, holdings: seedHoldings(p.hedged_balance, p.risk_tier) })),
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: moderate risk tier and no holdings',
+      up: (p) => ({ risk_tier: 'moderate', holdings: {}, ...p })
+    }
+  ]
+});
+
+const rebalancesRepo = createRepository<RebalanceEvent>('portfolio_rebalances', {
+  seed: () => [
+    {
+      id: 'rebal_global_001',
+      timestamp: new Date(Date.now() - 86400000 * 1).toISOString(),
+      triggeredBy: 'admin@example.com',
+      reason: 'Market volatility adjustment',
+      portfoliosAffected: 8,
+      totalValueRebalanced: 1245000.75,
+      status: 'completed',
+      duration: 45000
+    },
+    {
+      id: 'rebal_global_002',
+      timestamp: new Date(Date.now() - 86400000 * 7).toISOString(),
+      triggeredBy: 'system@automated',
+      reason: 'Scheduled weekly rebalance',
+      portfoliosAffected: 12,
+      totalValueRebalanced: 1867543.25,
+      status: 'completed',
+      duration: 62000
+    },
+    {
+      id: 'rebal_global_003',
+      timestamp: new Date(Date.now() - 86400000 * 14).toISOString(),
+      triggeredBy: 'admin@example.com',
+      reason: 'Risk threshold breach',
+      portfoliosAffected: 5,
+      totalValueRebalanced: 567890.50,
+      status: 'failed',
+      duration: 15000
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: summary-only events were live runs',
+      up: (e) => ({ dry_run: false, ...e })
+    }
+  ]
+});
+
+// Newest first
+function rebalanceHistory() {
+  return rebalancesRepo.list().sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+function isPriceMap(v: unknown): v is Record<string, number> {
+  return !!v && typeof v === 'object' && !Array.isArray(v) &&
+    Object.values(v).every(p => typeof p === 'number' && p > 0);
+}
 
 // Get portfolio overview with pagination
 export function handleGetPortfolioOverview(req: Request, res: Response) {
@@ -184,6 +287,7 @@ export function handleGetPortfolioOverview(req: Request, res: Response) {
     const offsetNum = Math.max(parseInt(offset as string, 10) || DEFAULT_PAGE_OFFSET, 0);
 
     // Apply pagination
+    const portfolios = portfoliosRepo.list();
     const total = portfolios.length;
     const paginatedPortfolios = portfolios.slice(offsetNum, offsetNum + limitNum);
     
@@ -210,7 +314,7 @@ export function handleGetPortfolioDetails(req: Request, res: Response) {
   try {
     const { userId } = req.params;
 
-    const portfolio = portfolios.find(p => p.user_id === userId);
+    const portfolio = portfoliosRepo.find(p => p.user_id === userId);
     if (!portfolio) {
       return res.status(404).json({
         status: 'error',
@@ -289,53 +393,66 @@ export function handleRebalanceAll(req: Request, res: Response) {
       }
     }
 
-    // Count active portfolios (live and demo modes)
-    const activePortfolios = portfolios.filter(p => p.mode === 'live' || p.mode === 'demo');
-    const rebalancedCount = activePortfolios.length;
+    const dryRun = req.body.dry_run === true || req.body.dry_run === 'true';
+    const userIds = Array.isArray(req.body.target_user_ids) ? req.body.target_user_ids.map(String) : null;
+    const portfolioIds = Array.isArray(req.body.portfolio_ids) ? req.body.portfolio_ids.map(String) : null;
+
+    // Active portfolios (live and demo modes), optionally narrowed to a selection
+    const activePortfolios = portfoliosRepo.list().filter(p =>
+      (p.mode === 'live' || p.mode === 'demo') &&
+      (!userIds || userIds.includes(p.user_id)) &&
+      (!portfolioIds || portfolioIds.includes(p.id))
+    );
+    if (activePortfolios.length === 0) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'No active portfolios match the request'
+      });
+    }
 
-    // Simulate rebalance process
-    const rebalanceId = `rebal_${Date.now()}`;
+    // Plan every portfolio against one market snapshot
     const startTime = Date.now();
+    const market = marketSnapshot(prices, returns);
+    const plans = activePortfolios.map(p => planPortfolio(p, market));
+    const planned = plans.filter(p => p.status === 'planned');
+    const orders = planned.flatMap(p => p.orders);
 
-    // Create rebalance event
     const rebalanceEvent: RebalanceEvent = {
-      id: rebalanceId,
+      id: `rebal_${Date.now()}`,
       timestamp: new Date().toISOString(),
       triggeredBy: actor || 'Unknown',
-      reason: 'Manual global rebalance',
-      portfoliosAffected: rebalancedCount,
-      totalValueRebalanced: activePortfolios.reduce((sum, p) => sum + p.total_balance, 0),
-      status: 'in_progress',
-      duration: 0
+      reason: req.body.reason || (dryRun ? 'Rebalance preview' : 'Manual global rebalance'),
+      portfoliosAffected: planned.length,
+      totalValueRebalanced: round2(orders.reduce((sum, o) => sum + o.notional, 0)),
+      // Previews are kept for inspection but can never be executed
+      status: dryRun ? 'preview' : 'pending_approval',
+      duration: Date.now() - startTime,
+      dry_run: dryRun,
+      prices,
+      plans,
+      ordersCount: orders.length,
+      estimatedFees: round2(planned.reduce((sum, p) => sum + p.est_fees, 0)),
+      estimatedSlippage: round2(planned.reduce((sum, p) => sum + p.est_slippage, 0)),
+      covarianceShrinkage: market.shrinkage
     };
+    rebalancesRepo.upsert(rebalanceEvent);
 
-    // Add to history
-    rebalanceHistory.unshift(rebalanceEvent);
-
-    // Simulate processing time and completion
-    setTimeout(() => {
-      const event = rebalanceHistory.find(r => r.id === rebalanceId);
-      if (event) {
-        event.status = 'completed';
-        event.duration = Date.now() - startTime;
-        
-        // Update last_updated timestamps for rebalanced portfolios
-        activePortfolios.forEach(portfolio => {
-          portfolio.last_updated = new Date().toISOString();
-        });
-      }
-    }, Math.random() * 5000 + 2000); // 2-7 second simulation
-
-    console.log(`Global rebalance started: ${rebalanceId} by ${actor || 'Unknown'}`);
-    console.log('Portfolios to rebalance:', rebalancedCount);
-    console.log('Prices:', Object.keys(prices).length, 'assets');
-    console.log('Returns:', Object.keys(returns).length, 'assets');
+    console.log(`Global rebalance ${dryRun ? 'previewed' : 'planned'}: ${rebalanceEvent.id} by ${actor || 'Unknown'}`);
+    console.log('Portfolios with orders:', planned.length, 'of', plans.length);
 
-    // Response matching specification
+    // `rebalanced` is kept from the original response shape
     res.json({
-      rebalanced: rebalancedCount
+      status: 'success',
+      rebalanced: planned.length,
+      data: rebalanceEvent
     });
   } catch (error) {
+    if (error instanceof RebalanceValidationError || error instanceof CovarianceError) {
+      return res.status(400).json({ status: 'error', message: error.message });
+    }
+    if (error instanceof OptimizerInfeasibleError) {
+      return res.status(422).json({ status: 'error', message: error.message });
+    }
     console.error('Rebalance all error:', error);
     res.status(500).json({
       status: 'error',
@@ -349,7 +466,7 @@ export function handleGetRebalanceStatus(req: Request, res: Response) {
   try {
     const { rebalanceId } = req.params;
 
-    const rebalanceEvent = rebalanceHistory.find(r => r.id === rebalanceId);
+    const rebalanceEvent = rebalancesRepo.get(rebalanceId);
     if (!rebalanceEvent) {
       return res.status(404).json({
         status: 'error',
@@ -370,12 +487,138 @@ export function handleGetRebalanceStatus(req: Request, res: Response) {
   }
 }
 
+// Approve a planned rebalance and execute it portfolio by portfolio
+export function handleApproveRebalance(req: Request, res: Response) {
+  try {
+    const { rebalanceId } = req.params;
+    const { actor, prices } = req.body || {};
+
+    const rebalanceEvent = rebalancesRepo.get(rebalanceId);
+    if (!rebalanceEvent) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Rebalance event not found'
+      });
+    }
+    if (rebalanceEvent.status !== 'pending_approval') {
+      return res.status(409).json({
+        status: 'error',
+        message: `Rebalance is ${rebalanceEvent.status}; only pending_approval rebalances can be approved`
+      });
+    }
+    if (prices !== undefined && !isPriceMap(prices)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Prices must be an object with positive symbol-price pairs'
+      });
+    }
+
+    // Orders fill at the approval prices when given, else at the planning prices
+    const execPrices = prices || rebalanceEvent.prices || {};
+    const startTime = Date.now();
+    const plans = (rebalanceEvent.plans || []).map((plan): PortfolioPlan => {
+      if (plan.status !== 'planned') return plan;
+      const portfolio = portfoliosRepo.get(plan.portfolio_id);
+      if (!portfolio) return { ...plan, status: 'failed', reason: 'portfolio not found' };
+      try {
+        const fill = executePlan(plan, portfolio, execPrices);
+        const executedAt = new Date().toISOString();
+        portfoliosRepo.update(portfolio.id, p => {
+          p.holdings = fill.holdings;
+          p.usdt_balance = fill.usdt_balance;
+          p.total_balance = round2(p.total_balance - fill.fees - fill.slippage);
+          p.hedged_balance = round2(p.total_balance - p.usdt_balance);
+          p.last_updated = executedAt;
+        });
+        return {
+          ...plan,
+          status: 'executed',
+          executed_at: executedAt,
+          fees: fill.fees,
+          slippage: fill.slippage
+        };
+      } catch (error) {
+        // One portfolio failing leaves the others to execute
+        if (error instanceof RebalanceExecutionError) {
+          return { ...plan, status: 'failed', reason: error.message };
+        }
+        throw error;
+      }
+    });
+
+    const executed = plans.filter(p => p.status === 'executed').length;
+    const failed = plans.filter(p => p.status === 'failed').length;
+    const updated = rebalancesRepo.update(rebalanceId, e => {
+      e.plans = plans;
+      e.status = failed === 0 ? 'completed' : executed === 0 ? 'failed' : 'partially_completed';
+      e.portfoliosAffected = executed;
+      e.decidedBy = actor || 'Unknown';
+      e.decidedAt = new Date().toISOString();
+      e.duration = Date.now() - startTime;
+    });
+
+    console.log(`Rebalance ${rebalanceId} approved by ${actor || 'Unknown'}: ${executed} executed, ${failed} failed`);
+
+    res.json({
+      status: 'success',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Approve rebalance error:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Internal server error'
+    });
+  }
+}
+
+// Reject a planned rebalance; nothing is executed
+export function handleRejectRebalance(req: Request, res: Response) {
+  try {
+    const { rebalanceId } = req.params;
+    const { actor, reason } = req.body || {};
+
+    const rebalanceEvent = rebalancesRepo.get(rebalanceId);
+    if (!rebalanceEvent) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Rebalance event not found'
+      });
+    }
+    if (rebalanceEvent.status !== 'pending_approval') {
+      return res.status(409).json({
+        status: 'error',
+        message: `Rebalance is ${rebalanceEvent.status}; only pending_approval rebalances can be rejected`
+      });
+    }
+
+    const updated = rebalancesRepo.update(rebalanceId, e => {
+      e.status = 'rejected';
+      e.portfoliosAffected = 0;
+      e.decidedBy = actor || 'Unknown';
+      e.decidedAt = new Date().toISOString();
+      e.rejectionReason = reason ? String(reason) : undefined;
+    });
+
+    res.json({
+      status: 'success',
+      data: updated
+    });
+  } catch (error) {
+    console.error('Reject rebalance error:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Internal server error'
+    });
+  }
+}
+
 // Get rebalance history
 export function handleGetRebalanceHistory(_req: Request, res: Response) {
   try {
     res.json({
       status: 'success',
-      data: rebalanceHistory.slice(0, 10) // Last 10 events
+      data: rebalanceHistory().slice(0, 10) // Last 10 events
     });
   } catch (error) {
     console.error('Get rebalance history error:', error);
@@ -389,6 +632,7 @@ export function handleGetRebalanceHistory(_req: Request, res: Response) {
 // Get portfolio statistics
 export function handleGetPortfolioStats(_req: Request, res: Response) {
   try {
+    const portfolios = portfoliosRepo.list();
     const totalValue = portfolios.reduce((sum, p) => sum + p.total_balance, 0);
     const totalUsdtBalance = portfolios.reduce((sum, p) => sum + p.usdt_balance, 0);
     const totalHedgedBalance = portfolios.reduce((sum, p) => sum + p.hedged_balance, 0);
@@ -414,7 +658,7 @@ export function handleGetPortfolioStats(_req: Request, res: Response) {
         totalHedgedBalance,
         modeDistribution,
         needsRebalancing,
-        lastGlobalRebalance: rebalanceHistory[0]?.timestamp || null
+        lastGlobalRebalance: rebalanceHistory().find(r => r.status === 'completed' || r.status === 'partially_completed')?.timestamp || null
       }
     });
   } catch (error) {
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { classifyFeatures, detectRegimes } from "./regime";
+import type { Candle } from "./tasks";
+
+const HOUR = 3_600_000;
+
+// Hourly closes from per-bar drifts, with a small fixed wobble as noise
+function series(drifts: number[]): Candle[] {
+  let price = 100;
+  return drifts.map((drift, i) => {
+    price *= 1 + drift;
+    const c = price * (1 + 0.002 * Math.sin(i * 1.7));
+    return { t: i * HOUR, o: c, h: c, l: c, c, v: 1 };
+  });
+}
+
+describe("regime detection", () => {
+  it("finds a range, an uptrend and a crash on a fixed series", () => {
+    const candles = series([
+      ...Array(100).fill(0),
+      ...Array(100).fill(0.004),
+      ...Array(8).fill(-0.05),
+    ]);
+    const { segments, events, latest } = detectRegimes(candles, HOUR);
+    expect(segments.map((s) => s.label)).toEqual([
+      "Ranging",
+      "Trending Up",
+      "Crisis",
+    ]);
+    expect(events.map((e) => e.label)).toEqual([
+      "Ranging → Trending Up",
+      "Trending Up → Crisis",
+    ]);
+    // A change is dated from the bar its run began, before confirmation
+    expect(Date.parse(segments[1].start)).toBeLessThan(130 * HOUR);
+    expect(latest).toMatchObject({ regime: "crisis" });
+  });
+
+  it("ranks crisis over volatility over trend", () => {
+    const calm = { realizedVol: 0.5, trendSlope: 0, trendStrength: 0 };
+    expect(
+      classifyFeatures({ ...calm, drawdown: 0.15, realizedVol: 2 }, 0.5),
+    ).toMatchObject({ key: "crisis" });
+    expect(
+      classifyFeatures(
+        { ...calm, drawdown: 0.01, realizedVol: 1, trendStrength: 5 },
+        0.5,
+      ),
+    ).toMatchObject({ key: "volatile" });
+    expect(
+      classifyFeatures({ ...calm, drawdown: 0.01, trendStrength: -4 }, 0.5),
+    ).toMatchObject({ key: "trending_down" });
+    expect(classifyFeatures({ ...calm, drawdown: 0 }, 0.5)).toMatchObject({
+      key: "ranging",
+    });
+  });
+});
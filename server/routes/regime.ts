@@ -0,0 +1,339 @@
+import type { Request, Response } from "express";
+import { generatePriceSeries, INTERVAL_MS, type Candle } from "./tasks";
+
+// Market regime detection
+//
+// Classifies every bar of the shared price series (the one served by
+// /api/data/price-series) from a trailing window of closes:
+//   - crisis:   deep drawdown, or a smaller one with stressed volatility
+//   - volatile: realized volatility well above the series' own median
+//   - trending: log-price slope that is large relative to its noise
+//   - ranging:  none of the above
+// A new regime must hold for CONFIRM_BARS bars before it replaces the current
+// one, which keeps single noisy bars from producing change points. Results are
+// cached briefly so all users read the same timeline.
+
+export type Regime = "trending" | "ranging" | "volatile" | "crisis";
+
+export interface RegimeFeatures {
+  realizedVol: number; // annualized
+  trendSlope: number; // log-price change per day
+  trendStrength: number; // slope over the window relative to its noise
+  drawdown: number; // from the window peak, 0-1
+}
+
+export interface RegimeSegment {
+  id: string;
+  regime: Regime;
+  label: string;
+  start: string;
+  end: string;
+  confidence: number;
+  features: RegimeFeatures;
+  events: Array<{ ts: string; label: string }>;
+}
+
+export interface RegimeChangeEvent {
+  ts: string;
+  from: string;
+  to: string;
+  label: string;
+  confidence: number;
+}
+
+const CRISIS_DRAWDOWN = 0.12;
+const STRESS_DRAWDOWN = 0.06;
+const VOLATILE_RATIO = 1.6;
+const TREND_STRENGTH = 2.5;
+const CONFIRM_BARS = 3;
+const CACHE_TTL_MS = 60_000;
+
+const LABELS: Record<string, string> = {
+  trending_up: "Trending Up",
+  trending_down: "Trending Down",
+  ranging: "Ranging",
+  volatile: "Volatile",
+  crisis: "Crisis",
+};
+
+function round(x: number, dp = 4) {
+  return +x.toFixed(dp);
+}
+
+// Maps how far a value sits past its threshold to a 0.5-0.99 confidence
+function confidenceFromMargin(margin: number) {
+  return round(Math.min(0.99, 0.5 + 0.5 * Math.tanh(Math.max(0, margin))), 3);
+}
+
+function windowFeatures(
+  closes: number[],
+  barsPerDay: number,
+  barsPerYear: number,
+): RegimeFeatures {
+  const logs = closes.map(Math.log);
+  const rets = logs.slice(1).map((v, i) => v - logs[i]);
+  const mean = rets.reduce((s, r) => s + r, 0) / Math.max(1, rets.length);
+  const variance =
+    rets.reduce((s, r) => s + (r - mean) ** 2, 0) /
+    Math.max(1, rets.length - 1);
+  const barVol = Math.sqrt(variance);
+
+  // OLS slope of log price against bar index
+  const n = logs.length;
+  const xMean = (n - 1) / 2;
+  const yMean = logs.reduce((s, v) => s + v, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (i - xMean) * (logs[i] - yMean);
+    den += (i - xMean) ** 2;
+  }
+  const slope = den ? num / den : 0;
+
+  const peak = Math.max(...closes);
+  const last = closes[closes.length - 1];
+  return {
+    realizedVol: round(barVol * Math.sqrt(barsPerYear)),
+    trendSlope: round(slope * barsPerDay, 5),
+    trendStrength: round(barVol ? (slope * n) / (barVol * Math.sqrt(n)) : 0, 3),
+    drawdown: round(peak > 0 ? (peak - last) / peak : 0),
+  };
+}
+
+export function classifyFeatures(f: RegimeFeatures, medianVol: number) {
+  const volRatio = medianVol > 0 ? f.realizedVol / medianVol : 1;
+  if (
+    f.drawdown >= CRISIS_DRAWDOWN ||
+    (f.drawdown >= STRESS_DRAWDOWN && volRatio >= 2)
+  ) {
+    const margin =
+      f.drawdown >= CRISIS_DRAWDOWN
+        ? f.drawdown / CRISIS_DRAWDOWN - 1
+        : Math.min(f.drawdown / STRESS_DRAWDOWN - 1, volRatio / 2 - 1);
+    return {
+      regime: "crisis" as Regime,
+      key: "crisis",
+      confidence: confidenceFromMargin(margin * 4 + 0.3),
+    };
+  }
+  if (volRatio >= VOLATILE_RATIO) {
+    return {
+      regime: "volatile" as Regime,
+      key: "volatile",
+      confidence: confidenceFromMargin(
+        (volRatio / VOLATILE_RATIO - 1) * 4 + 0.3,
+      ),
+    };
+  }
+  if (Math.abs(f.trendStrength) >= TREND_STRENGTH) {
+    return {
+      regime: "trending" as Regime,
+      key: f.trendStrength > 0 ? "trending_up" : "trending_down",
+      confidence: confidenceFromMargin(
+        (Math.abs(f.trendStrength) / TREND_STRENGTH - 1) * 2 + 0.3,
+      ),
+    };
+  }
+  // Ranging is more certain the further every signal is from its threshold
+  const nearest = Math.min(
+    1 - Math.abs(f.trendStrength) / TREND_STRENGTH,
+    1 - volRatio / VOLATILE_RATIO,
+    1 - f.drawdown / STRESS_DRAWDOWN,
+  );
+  return {
+    regime: "ranging" as Regime,
+    key: "ranging",
+    confidence: confidenceFromMargin(nearest * 2),
+  };
+}
+
+export function detectRegimes(
+  candles: Candle[],
+  intervalMs: number,
+  symbol = "BTC",
+) {
+  const barsPerDay = 86_400_000 / intervalMs;
+  const barsPerYear = barsPerDay * 365;
+  const window = Math.max(12, Math.min(60, Math.round(barsPerDay)));
+  const closes = candles.map((c) => c.c);
+
+  const features: RegimeFeatures[] = [];
+  for (let i = window; i < candles.length; i++) {
+    features.push(
+      windowFeatures(closes.slice(i - window, i + 1), barsPerDay, barsPerYear),
+    );
+  }
+  const vols = features.map((f) => f.realizedVol).sort((a, b) => a - b);
+  const medianVol = vols.length ? vols[Math.floor(vols.length / 2)] : 0;
+
+  type OpenSegment = RegimeSegment & {
+    key: string;
+    confSum: number;
+    bars: number;
+  };
+  const segments: OpenSegment[] = [];
+  const events: RegimeChangeEvent[] = [];
+  let current: OpenSegment | null = null;
+  let pending: { key: string; from: number; count: number } | null = null;
+
+  const open = (
+    key: string,
+    regime: Regime,
+    at: number,
+    f: RegimeFeatures,
+  ): OpenSegment => ({
+    id: `${symbol}_${candles[at].t}`,
+    regime,
+    key,
+    label: LABELS[key],
+    start: new Date(candles[at].t).toISOString(),
+    end: new Date(candles[at].t + intervalMs).toISOString(),
+    confidence: 0,
+    features: f,
+    events: [],
+    confSum: 0,
+    bars: 0,
+  });
+
+  for (let j = 0; j < features.length; j++) {
+    const at = j + window;
+    const f = features[j];
+    const c = classifyFeatures(f, medianVol);
+
+    if (!current) {
+      current = open(c.key, c.regime, at, f);
+    } else if (c.key !== current.key) {
+      pending =
+        pending && pending.key === c.key
+          ? { ...pending, count: pending.count + 1 }
+          : { key: c.key, from: at, count: 1 };
+      if (pending.count >= CONFIRM_BARS) {
+        // The new regime starts where its run began, not where it was confirmed
+        current.end = new Date(candles[pending.from].t).toISOString();
+        segments.push(current);
+        const next = open(c.key, c.regime, pending.from, f);
+        const event: RegimeChangeEvent = {
+          ts: next.start,
+          from: current.label,
+          to: next.label,
+          label: `${current.label} → ${next.label}`,
+          confidence: c.confidence,
+        };
+        events.push(event);
+        next.events.push({ ts: event.ts, label: event.label });
+        current = next;
+        pending = null;
+      }
+    } else {
+      pending = null;
+    }
+
+    current.end = new Date(candles[at].t + intervalMs).toISOString();
+    current.features = f;
+    current.confSum += c.confidence;
+    current.bars += 1;
+  }
+  if (current) segments.push(current);
+
+  const latest = features.length
+    ? {
+        features: features[features.length - 1],
+        ...classifyFeatures(features[features.length - 1], medianVol),
+      }
+    : null;
+
+  return {
+    segments: segments.map(
+      ({ key: _key, confSum, bars, ...s }): RegimeSegment => ({
+        ...s,
+        confidence: round(bars ? confSum / bars : 0.5, 3),
+      }),
+    ),
+    events,
+    latest,
+    medianVol,
+    window,
+  };
+}
+
+const cache = new Map<
+  string,
+  { at: number; result: ReturnType<typeof detectRegimes> }
+>();
+
+// Query fields: symbol (or coin), interval, lookback in days
+export function regimeTimeline(q: Record<string, string | undefined>) {
+  const symbol = String(q.symbol || q.coin || "BTC")
+    .toUpperCase()
+    .replace(/[-/].*$/, "");
+  const interval = q.interval && INTERVAL_MS[q.interval] ? q.interval : "1h";
+  const lookback = Math.max(
+    2,
+    Math.min(90, parseInt(q.lookback || "", 10) || 14),
+  );
+  const key = `${symbol}|${interval}|${lookback}`;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) {
+    return { symbol, interval, lookback, ...hit.result };
+  }
+  const candles = generatePriceSeries(symbol, interval, lookback);
+  const result = detectRegimes(candles, INTERVAL_MS[interval], symbol);
+  cache.set(key, { at: Date.now(), result });
+  return { symbol, interval, lookback, ...result };
+}
+
+// GET /strategies/regime/current
+export function handleGetCurrentRegime(req: Request, res: Response) {
+  try {
+    const t = regimeTimeline(req.query as Record<string, string>);
+    const seg = t.segments[t.segments.length - 1];
+    if (!seg || !t.latest) {
+      return res
+        .status(503)
+        .json({ status: "error", message: "Not enough price history" });
+    }
+    res.json({
+      status: "success",
+      data: {
+        ...seg,
+        symbol: t.symbol,
+        interval: t.interval,
+        since: seg.start,
+        // Latest bar's own reading; the segment carries its average
+        confidence: t.latest.confidence,
+        segmentConfidence: seg.confidence,
+        features: t.latest.features,
+        events: t.events.slice(-5),
+      },
+    });
+  } catch (err) {
+    console.error("Regime detection failed:", err);
+    res
+      .status(500)
+      .json({ status: "error", message: "Regime detection failed" });
+  }
+}
+
+// GET /strategies/regime/history - segments oldest first, plus change points
+export function handleGetRegimeHistory(req: Request, res: Response) {
+  try {
+    const t = regimeTimeline(req.query as Record<string, string>);
+    res.json({
+      status: "success",
+      data: {
+        symbol: t.symbol,
+        interval: t.interval,
+        lookbackDays: t.lookback,
+        windowBars: t.window,
+        medianVol: t.medianVol,
+        segments: t.segments,
+        events: t.events,
+      },
+    });
+  } catch (err) {
+    console.error("Regime history failed:", err);
+    res
+      .status(500)
+      .json({ status: "error", message: "Regime detection failed" });
+  }
+}
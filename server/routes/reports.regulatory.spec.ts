@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  handleDownloadRegulatoryReport,
+  handleGenerateRegulatoryReport,
+  handleVerifyRegulatoryReport,
+} from "./reports.regulatory";
+
+function app() {
+  const a = express();
+  a.use(express.json({ limit: "2mb" }));
+  a.post("/api/reports/generate", handleGenerateRegulatoryReport);
+  a.get("/api/reports/:reportId/download", handleDownloadRegulatoryReport);
+  a.post("/api/reports/:reportId/verify", handleVerifyRegulatoryReport);
+  return a;
+}
+
+let server: Server;
+let base: string;
+
+function post(path: string, body: unknown) {
+  return fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function verify(id: string, body: unknown) {
+  const res = await post(`/api/reports/${id}/verify`, body);
+  expect(res.status).toBe(200);
+  return (await res.json()).data;
+}
+
+beforeAll(async () => {
+  server = app().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("regulatory reports", () => {
+  it("verifies the served bytes and rejects a tampered copy", async () => {
+    const res = await post("/api/reports/generate", { format: "json" });
+    expect(res.status).toBe(200);
+    const id = res.headers.get("X-Report-Id")!;
+    const content = await res.text();
+    expect(JSON.parse(content).manifest.report_id).toBe(id);
+
+    const download = await fetch(`${base}/api/reports/${id}/download`);
+    expect(await download.text()).toBe(content);
+
+    expect(await verify(id, { content })).toMatchObject({
+      verified: true,
+      contentMatches: true,
+      storedIntact: true,
+      signatureValid: true,
+    });
+    expect(
+      await verify(id, { sha256: res.headers.get("X-Report-SHA256") }),
+    ).toMatchObject({ verified: true });
+
+    const tampered = content.replace(
+      /"generated_by": "[^"]*"/,
+      '"generated_by": "someone-else"',
+    );
+    expect(tampered).not.toBe(content);
+    expect(await verify(id, { content: tampered })).toMatchObject({
+      verified: false,
+      contentMatches: false,
+      storedIntact: true,
+    });
+  });
+});
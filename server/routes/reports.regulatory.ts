@@ -0,0 +1,317 @@
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import { createRepository } from "../storage/repository";
+import { listTradeEvents } from "./events";
+import { listComplianceLogs } from "./compliance";
+import { listProposals } from "./governance";
+
+// Regulatory report bundles
+//
+// A report assembles the selected sections (trade log, compliance checks,
+// governance proposals and votes) into one CSV or JSON document. The exact
+// bytes served are stored with their SHA-256 and an HMAC signature over
+// (id, hash, generator, timestamp), so a copy held by an auditor can later be
+// checked against the original with the verify endpoint.
+
+type ReportFormat = "csv" | "json";
+
+interface ReportFilters {
+  trades: boolean;
+  compliance: boolean;
+  governance: boolean;
+}
+
+interface RegulatoryReport {
+  id: string;
+  format: ReportFormat;
+  filters: ReportFilters;
+  generatedAt: string;
+  generatedBy: string;
+  generatorRole?: string;
+  counts: { trades: number; compliance: number; governance: number };
+  filename: string;
+  sha256: string;
+  signature: string;
+  signatureAlg: "HMAC-SHA256";
+  content: string;
+}
+
+let signingKey = process.env.REPORT_SIGNING_KEY || "";
+if (!signingKey) {
+  signingKey = crypto.randomBytes(32).toString("hex");
+  console.warn(
+    "REPORT_SIGNING_KEY not set; using an ephemeral key (report signatures will not verify after a restart)",
+  );
+}
+
+const reportsRepo = createRepository<RegulatoryReport>("regulatory_reports", {
+  migrations: [
+    {
+      version: 1,
+      description: "baseline: signature algorithm",
+      up: (r) => ({ signatureAlg: "HMAC-SHA256", ...r }),
+    },
+  ],
+});
+
+function sha256(content: string) {
+  return crypto.createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+function sign(
+  r: Pick<RegulatoryReport, "id" | "sha256" | "generatedBy" | "generatedAt">,
+) {
+  return crypto
+    .createHmac("sha256", signingKey)
+    .update([r.id, r.sha256, r.generatedBy, r.generatedAt].join("\n"))
+    .digest("hex");
+}
+
+function safeEqual(a: string, b: string) {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+function parseFlag(v: unknown, fallback = true) {
+  if (v === undefined || v === null || v === "") return fallback;
+  if (typeof v === "boolean") return v;
+  return String(v).toLowerCase() === "true" || String(v) === "1";
+}
+
+function csvCell(v: unknown) {
+  if (v === undefined || v === null) return "";
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvSection(title: string, rows: object[]) {
+  const records = rows as Record<string, unknown>[];
+  const cols = Array.from(new Set(records.flatMap((r) => Object.keys(r))));
+  const lines = [`# section: ${title} (${rows.length} rows)`];
+  if (cols.length) lines.push(cols.join(","));
+  for (const r of records) lines.push(cols.map((c) => csvCell(r[c])).join(","));
+  return lines.join("\n");
+}
+
+function collectSections(filters: ReportFilters) {
+  const trades = filters.trades ? listTradeEvents() : [];
+  const compliance = filters.compliance ? listComplianceLogs() : [];
+  const proposals = filters.governance ? listProposals() : [];
+  // One row per vote so the CSV stays flat; proposals without votes keep a row
+  const governance = proposals.flatMap((p): Record<string, unknown>[] => {
+    const base = {
+      proposal_id: p.id,
+      description: p.description,
+      status: p.status,
+      required_votes: p.requiredVotes,
+      created_at: p.createdAt,
+      created_by: p.createdBy,
+      deployed_at: p.deployedAt,
+    };
+    return p.votes.length
+      ? p.votes.map((v) => ({
+          ...base,
+          founder_id: v.founderId,
+          approve: v.approve,
+          voted_at: v.votedAt,
+        }))
+      : [{ ...base, founder_id: "", approve: "", voted_at: "" }];
+  });
+  return { trades, compliance, proposals, governance };
+}
+
+function render(
+  format: ReportFormat,
+  manifest: Record<string, unknown>,
+  sections: ReturnType<typeof collectSections>,
+  filters: ReportFilters,
+) {
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        manifest,
+        ...(filters.trades ? { trades: sections.trades } : {}),
+        ...(filters.compliance ? { compliance: sections.compliance } : {}),
+        ...(filters.governance ? { governance: sections.proposals } : {}),
+      },
+      null,
+      2,
+    );
+  }
+  const parts = Object.entries(manifest).map(
+    ([k, v]) => `# ${k}: ${typeof v === "object" ? JSON.stringify(v) : v}`,
+  );
+  if (filters.trades) parts.push(csvSection("trades", sections.trades));
+  if (filters.compliance)
+    parts.push(csvSection("compliance", sections.compliance));
+  if (filters.governance)
+    parts.push(csvSection("governance", sections.governance));
+  return parts.join("\n") + "\n";
+}
+
+function historyItem(r: RegulatoryReport) {
+  const { content: _content, ...meta } = r;
+  return {
+    ...meta,
+    timestamp: r.generatedAt,
+    operatorId: r.generatedBy,
+    status: "success",
+    size: Buffer.byteLength(r.content, "utf8"),
+  };
+}
+
+function sendReport(res: Response, r: RegulatoryReport) {
+  res.setHeader(
+    "Content-Type",
+    r.format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${r.filename}"`);
+  res.setHeader("X-Report-Id", r.id);
+  res.setHeader("X-Report-SHA256", r.sha256);
+  res.setHeader("X-Report-Signature", r.signature);
+  res.setHeader(
+    "Access-Control-Expose-Headers",
+    "Content-Disposition, X-Report-Id, X-Report-SHA256, X-Report-Signature",
+  );
+  res.send(r.content);
+}
+
+// POST /reports/generate { format, filters } (GET with query params also accepted)
+export function handleGenerateRegulatoryReport(req: Request, res: Response) {
+  const src: any = req.method === "GET" ? req.query : req.body || {};
+  const format = String(src.format || "csv").toLowerCase();
+  if (format !== "csv" && format !== "json") {
+    return res
+      .status(400)
+      .json({ status: "error", message: "format must be csv or json" });
+  }
+  const raw = req.method === "GET" ? src : src.filters || {};
+  const filters: ReportFilters = {
+    trades: parseFlag(raw.trades),
+    compliance: parseFlag(raw.compliance),
+    governance: parseFlag(raw.governance),
+  };
+  if (!filters.trades && !filters.compliance && !filters.governance) {
+    return res
+      .status(400)
+      .json({ status: "error", message: "Select at least one section" });
+  }
+
+  try {
+    const generatedAt = new Date().toISOString();
+    const id = `rpt_${Date.now()}_${crypto.randomBytes(3).toString("hex")}`;
+    const generatedBy = req.user?.email || "anonymous";
+    const sections = collectSections(filters);
+    const counts = {
+      trades: sections.trades.length,
+      compliance: sections.compliance.length,
+      governance: sections.proposals.length,
+    };
+    const content = render(
+      format,
+      {
+        report_id: id,
+        generated_at: generatedAt,
+        generated_by: generatedBy,
+        generator: "aether-regulatory-report/1",
+        sections: Object.keys(filters).filter(
+          (k) => filters[k as keyof ReportFilters],
+        ),
+        counts,
+      },
+      sections,
+      filters,
+    );
+    const digest = sha256(content);
+    const report: RegulatoryReport = {
+      id,
+      format,
+      filters,
+      generatedAt,
+      generatedBy,
+      generatorRole: req.user?.role,
+      counts,
+      filename: `regulatory-report-${generatedAt.replace(/[:.]/g, "-")}.${format}`,
+      sha256: digest,
+      signature: sign({ id, sha256: digest, generatedBy, generatedAt }),
+      signatureAlg: "HMAC-SHA256",
+      content,
+    };
+    reportsRepo.upsert(report);
+
+    console.log(
+      `Regulatory report generated: ${id} (${format}) by ${generatedBy}`,
+    );
+    sendReport(res, report);
+  } catch (err) {
+    console.error("Regulatory report generation failed:", err);
+    res
+      .status(500)
+      .json({ status: "error", message: "Failed to generate report" });
+  }
+}
+
+// GET /reports/history
+export function handleGetRegulatoryReportHistory(req: Request, res: Response) {
+  const limit = Math.max(
+    1,
+    Math.min(200, parseInt(String(req.query.limit || "50"), 10) || 50),
+  );
+  const all = reportsRepo
+    .list()
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  res.json({
+    status: "success",
+    data: { records: all.slice(0, limit).map(historyItem), total: all.length },
+  });
+}
+
+// GET /reports/:reportId/download - the stored bytes, unchanged
+export function handleDownloadRegulatoryReport(req: Request, res: Response) {
+  const report = reportsRepo.get(req.params.reportId);
+  if (!report) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Report not found" });
+  }
+  sendReport(res, report);
+}
+
+// POST /reports/:reportId/verify { content } or { sha256 }
+export function handleVerifyRegulatoryReport(req: Request, res: Response) {
+  const report = reportsRepo.get(req.params.reportId);
+  if (!report) {
+    return res
+      .status(404)
+      .json({ status: "error", message: "Report not found" });
+  }
+  const { content, sha256: claimed } = req.body || {};
+  if (typeof content !== "string" && typeof claimed !== "string") {
+    return res.status(400).json({
+      status: "error",
+      message: "Provide the report content or its sha256",
+    });
+  }
+
+  const presented =
+    typeof content === "string" ? sha256(content) : claimed.toLowerCase();
+  const storedIntact = sha256(report.content) === report.sha256;
+  const signatureValid = safeEqual(sign(report), report.signature);
+  const matches = safeEqual(presented, report.sha256);
+
+  res.json({
+    status: "success",
+    data: {
+      reportId: report.id,
+      verified: matches && storedIntact && signatureValid,
+      contentMatches: matches,
+      storedIntact,
+      signatureValid,
+      sha256: report.sha256,
+      presentedSha256: presented,
+      generatedBy: report.generatedBy,
+      generatedAt: report.generatedAt,
+    },
+  });
+}
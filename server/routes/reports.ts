@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import crypto from 'crypto';
+import { getBacktestRun } from './strategies';
+import { dailyRows } from '../backtest/engine';
 
 // Types
 interface DailyReport {
@@ -239,6 +241,15 @@ function generatePerAssetReport(): PerAssetReport {
   };
 }
 
+// Current daily, weekly and per-asset reports, for consumers outside these routes
+export function getReportSnapshots() {
+  return {
+    daily: generateDailyReport(),
+    weekly: generateWeeklyReport(),
+    perAsset: generatePerAssetReport()
+  };
+}
+
 // Mock notifications store
 let notifications: Notification[] = [
   {
@@ -539,9 +550,6 @@ export function handleGetBacktestReport(req: Request, res: Response) {
   try {
     const { format = 'json', path: reportPath } = req.query as any;
 
-    const hasBacktest = Math.random() > 0.2;
-    if (!hasBacktest) return res.status(404).json({ status: 'error', error: 'No backtest report available. Please run a backtest first.' });
-
     const allowed = new Set(['json','trades','daily','pdf']);
     if (!allowed.has(String(format))) return res.status(400).json({ status:'error', error:'Invalid format' });
 
@@ -551,21 +559,17 @@ export function handleGetBacktestReport(req: Request, res: Response) {
       }
     }
 
+    const run = getBacktestRun(reportPath);
+    if (!run) return res.status(404).json({ status: 'error', error: 'No backtest report available. Please run a backtest first.' });
+    const result = run.result;
+
+    // Artifacts are rendered from the stored result only, so repeated downloads are byte-identical
     const checksum = (buf: Buffer) => crypto.createHash('sha256').update(buf).digest('hex');
+    res.setHeader('X-Backtest-Id', run.id);
+    res.setHeader('Access-Control-Expose-Headers', 'X-Checksum-SHA256, X-Backtest-Id, Content-Disposition');
 
     if (format === 'json') {
-      const payload = {
-        equityCurve: Array.from({ length: 180 }, (_, i) => ({ t: i, equity: 100000 + Math.round((i*250) + (Math.random()-0.5)*1500) })),
-        sharpe: +(1.8 + Math.random()*0.8).toFixed(2),
-        sortino: +(2.2 + Math.random()*0.8).toFixed(2),
-        maxDrawdown: +(Math.random()*-0.2).toFixed(3),
-        profitFactor: +(1.4 + Math.random()*0.8).toFixed(2),
-        expectancy: +(Math.random()*50 - 10).toFixed(2),
-        totals: { fees: +(Math.random()*1500).toFixed(2), slippage: +(Math.random()*800).toFixed(2) },
-        factorAttribution: [ { factor:'momentum', contribution: +(Math.random()*0.5).toFixed(3) }, { factor:'mean_reversion', contribution: +(Math.random()*0.3).toFixed(3) } ],
-        hypotheticalTrades: Math.random()>0.5 ? { count: Math.floor(Math.random()*200), avgPnl: +(Math.random()*30-5).toFixed(2) } : undefined
-      };
-      const buf = Buffer.from(JSON.stringify({ status:'success', data: payload }));
+      const buf = Buffer.from(JSON.stringify({ status:'success', data: { id: run.id, reportPath: run.reportPath, ...result } }));
       res.setHeader('Content-Type','application/json');
       res.setHeader('X-Checksum-SHA256', checksum(buf));
       return res.send(buf);
@@ -573,11 +577,12 @@ export function handleGetBacktestReport(req: Request, res: Response) {
 
     if (format === 'trades' || format === 'daily') {
       const headers = format === 'trades' ? ['id','date','symbol','side','qty','price','pnl','fees','slippage'] : ['date','equity','return','drawdown'];
-      const rows = Array.from({ length: 100 }, (_, i) => headers.map((_, j) => j===0 ? (format==='trades'?`t${i+1}`: new Date(Date.now()- (99-i)*86400000).toISOString().split('T')[0]) : (Math.random()*1000).toFixed(2)).join(','));
+      const records: Record<string, unknown>[] = format === 'trades' ? result.trades as any[] : dailyRows(result);
+      const rows = records.map(r => headers.map(h => String(r[h] ?? '')).join(','));
       const csv = [headers.join(',')].concat(rows).join('\n');
       const buf = Buffer.from(csv);
       res.setHeader('Content-Type','text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="backtest-${format}.csv"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${run.id}-${format}.csv"`);
       res.setHeader('X-Checksum-SHA256', checksum(buf));
       return res.send(buf);
     }
@@ -1,4 +1,13 @@
 import type { Request, Response } from "express";
+import { RiskService } from "../risk/service";
+import { publishAlert } from "./events";
+import { listOpenPositions } from "./trades";
+import {
+  createProposal,
+  governanceErrorStatus,
+  registerProposalExecutor,
+} from "./governance";
+import { GovernanceValidationError } from "../governance/engine";
 
 // Risk config (mock)
 let RISK_CONFIG = {
@@ -18,118 +27,265 @@ let RISK_CONFIG = {
     },
   ],
   defaultTier: "moderate",
+  /** Account capital in USDT; drawdown and per-trade risk are measured against it */
+  capital: 100000,
 };
 
+/** Current tiers, for modules that size risk against them */
+export function getRiskConfig() {
+  return RISK_CONFIG;
+}
+
 export function handleGetRiskConfig(_req: Request, res: Response) {
   res.json({ status: "success", data: RISK_CONFIG });
 }
 
+// Tiers and capital size every risk check, so a patch only proposes the
+// change; it is applied once founders approve the risk_tier_change proposal.
+// Only values that differ from the current config go into the proposal.
 export function handlePatchRiskConfig(req: Request, res: Response) {
+  const body = req.body || {};
+  const change: RiskTierChange = {};
+  if (
+    typeof body.defaultTier === "string" &&
+    body.defaultTier !== RISK_CONFIG.defaultTier
+  ) {
+    change.defaultTier = body.defaultTier;
+  }
+  if (body.capital !== undefined) {
+    const capital = Number(body.capital);
+    if (capital !== RISK_CONFIG.capital) change.capital = capital;
+  }
+  if (Array.isArray(body.tiers)) {
+    for (const t of body.tiers) {
+      const id = String(t?.id);
+      const current = RISK_CONFIG.tiers.find((c) => c.id === id);
+      const limits: TierLimits = {};
+      for (const key of TIER_LIMITS) {
+        if (t?.[key] === undefined) continue;
+        const value = Number(t[key]);
+        if (value !== current?.[key]) limits[key] = value;
+      }
+      if (!current || Object.keys(limits).length) {
+        change.tiers = { ...change.tiers, [id]: limits };
+      }
+    }
+  }
   try {
-    const body = req.body || {};
-    if (body.defaultTier && typeof body.defaultTier === "string") {
-      RISK_CONFIG.defaultTier = body.defaultTier;
+    const proposal = createProposal<RiskTierChange>({
+      kind: "risk_tier_change",
+      description: `Update risk config: ${describeRiskChange(change)}`,
+      payload: change,
+      createdBy: req.user?.email || "unknown",
+    });
+    return res.status(202).json({
+      status: "success",
+      message:
+        "Risk config change proposed; it is applied once founders approve",
+      data: { proposal },
+    });
+  } catch (e) {
+    const code = governanceErrorStatus(e);
+    if (code === 500) console.error("Risk config proposal error:", e);
+    return res.status(code).json({
+      status: "error",
+      message:
+        code === 500 ? "Failed to propose risk change" : (e as Error).message,
+    });
+  }
+}
+
+type TierLimits = { maxDrawdown?: number; pnlWarning?: number };
+
+interface RiskTierChange {
+  defaultTier?: string;
+  /** Account capital in USDT */
+  capital?: number;
+  /** Limits to change, keyed by tier id */
+  tiers?: Record<string, TierLimits>;
+}
+
+const TIER_LIMITS = ["maxDrawdown", "pnlWarning"] as const;
+
+function describeRiskChange(change: RiskTierChange) {
+  const parts = [
+    ...(change.defaultTier !== undefined
+      ? [`default tier ${change.defaultTier}`]
+      : []),
+    ...(change.capital !== undefined ? [`capital ${change.capital}`] : []),
+    ...tierChanges(change).map(({ id, key, value }) => `${id}.${key} ${value}`),
+  ];
+  return parts.join(", ") || "no changes";
+}
+
+function tierChanges(change: RiskTierChange) {
+  return Object.entries(change.tiers || {}).flatMap(([id, limits]) =>
+    TIER_LIMITS.filter((k) => limits[k] !== undefined).map((k) => ({
+      id,
+      key: k,
+      value: limits[k] as number,
+    })),
+  );
+}
+
+// Tier changes voted through governance (risk_tier_change proposals)
+registerProposalExecutor<RiskTierChange>("risk_tier_change", {
+  validate: (payload) => {
+    const change = payload || {};
+    if (
+      change.defaultTier !== undefined &&
+      !RISK_CONFIG.tiers.some((t) => t.id === change.defaultTier)
+    ) {
+      throw new GovernanceValidationError(
+        `Unknown tier: ${change.defaultTier}`,
+      );
     }
-    if (Array.isArray(body.tiers)) {
-      const tiers = body.tiers.map((t: any) => ({
-        id: String(t.id),
-        label: String(t.label || t.id),
-        maxDrawdown: Math.max(0, Number(t.maxDrawdown) || 0),
-        pnlWarning: Number(t.pnlWarning) || 0,
-      }));
-      if (tiers.length > 0) RISK_CONFIG.tiers = tiers;
+    const unknown = Object.keys(change.tiers || {}).filter(
+      (id) => !RISK_CONFIG.tiers.some((t) => t.id === id),
+    );
+    if (unknown.length) {
+      throw new GovernanceValidationError(
+        `Unknown tiers: ${unknown.join(", ")}`,
+      );
     }
-    return res.json({ status: "success", data: RISK_CONFIG });
-  } catch (e: any) {
-    return res
-      .status(400)
-      .json({ status: "error", message: e?.message || "invalid payload" });
-  }
+    const limits = tierChanges(change);
+    for (const { id, key, value } of limits) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new GovernanceValidationError(`${id}.${key} must be a number`);
+      }
+      if (key === "maxDrawdown" && !(value > 0 && value <= 1)) {
+        throw new GovernanceValidationError(
+          `${id}.maxDrawdown must be in (0, 1]`,
+        );
+      }
+      if (key === "pnlWarning" && !(value <= 0 && value >= -1)) {
+        throw new GovernanceValidationError(
+          `${id}.pnlWarning must be in [-1, 0]`,
+        );
+      }
+    }
+    if (
+      change.capital !== undefined &&
+      !(typeof change.capital === "number" && change.capital > 0)
+    ) {
+      throw new GovernanceValidationError("capital must be a positive number");
+    }
+    if (
+      change.defaultTier === undefined &&
+      change.capital === undefined &&
+      limits.length === 0
+    ) {
+      throw new GovernanceValidationError(
+        "payload must change defaultTier, capital or at least one tier limit",
+      );
+    }
+  },
+  diff: (change) => [
+    ...(change.defaultTier !== undefined
+      ? [
+          {
+            path: "defaultTier",
+            before: RISK_CONFIG.defaultTier,
+            after: change.defaultTier,
+          },
+        ]
+      : []),
+    ...(change.capital !== undefined
+      ? [
+          {
+            path: "capital",
+            before: RISK_CONFIG.capital,
+            after: change.capital,
+          },
+        ]
+      : []),
+    ...tierChanges(change).map(({ id, key, value }) => ({
+      path: `${id}.${key}`,
+      before: RISK_CONFIG.tiers.find((t) => t.id === id)?.[key],
+      after: value,
+    })),
+  ],
+  snapshot: () => ({
+    defaultTier: RISK_CONFIG.defaultTier,
+    capital: RISK_CONFIG.capital,
+    tiers: RISK_CONFIG.tiers.map((t) => ({ ...t })),
+  }),
+  restore: (
+    snapshot: Pick<typeof RISK_CONFIG, "defaultTier" | "capital" | "tiers">,
+  ) => {
+    RISK_CONFIG = { ...RISK_CONFIG, ...snapshot };
+  },
+  // Only the validated limits are applied; other payload keys are ignored
+  apply: (change) => {
+    const tiers = RISK_CONFIG.tiers.map((t) => ({ ...t }));
+    for (const { id, key, value } of tierChanges(change)) {
+      const tier = tiers.find((t) => t.id === id);
+      if (tier) tier[key] = value;
+    }
+    RISK_CONFIG = {
+      ...RISK_CONFIG,
+      defaultTier: change.defaultTier ?? RISK_CONFIG.defaultTier,
+      capital: change.capital ?? RISK_CONFIG.capital,
+      tiers,
+    };
+    return {
+      defaultTier: RISK_CONFIG.defaultTier,
+      capital: RISK_CONFIG.capital,
+      tiers,
+    };
+  },
+});
+
+// Live risk state, marked against open positions (see ../risk/service.ts)
+const riskService = new RiskService({
+  positions: listOpenPositions,
+  config: () => RISK_CONFIG,
+  seed: Number(process.env.AETHER_RISK_SEED) || undefined,
+  onBreach: (b) =>
+    publishAlert({
+      id: b.id,
+      timestamp: b.timestamp,
+      severity: b.severity,
+      source: "risk",
+      event: "live_metrics_breach",
+      message: b.message,
+      details: {
+        metric: b.metric,
+        value: b.value,
+        threshold: b.threshold,
+        tier: b.tier,
+      },
+    }),
+});
+
+/** Equity, drawdown and marks for modules that size risk (e.g. pre-trade checks) */
+export function getRiskSnapshot() {
+  return riskService.snapshot();
 }
 
-// Generate synthetic live metrics (PnL and drawdown time series)
+export function getRiskMarks() {
+  return riskService.currentMarks();
+}
+
+// PnL and drawdown time series from the equity curve
 export function handleGetLiveMetrics(req: Request, res: Response) {
   const points = Math.max(
     30,
     Math.min(360, parseInt(String((req.query as any).points)) || 90),
   );
-  const now = Date.now();
-  const stepMs = 60_000; // 1 min
-  let equity = 1;
-  let peak = 1;
-  const data: Array<{ t: string; pnl: number; dd: number }> = [];
-  for (let i = points - 1; i >= 0; i--) {
-    // Mean-reverting noise with slight drift
-    const noise = (Math.random() - 0.5) * 0.003;
-    const drift = 0.0002;
-    const ret = drift + noise;
-    equity *= 1 + ret;
-    if (equity > peak) peak = equity;
-    const pnl = equity - 1; // cumulative return
-    const dd = equity / peak - 1; // negative when below peak
-    const ts = new Date(now - i * stepMs).toISOString();
-    data.push({ t: ts, pnl, dd });
-  }
+  const data = riskService.series(points);
   res.json({ status: "success", data });
 }
 
-export function handleGetRiskBreaches(_req: Request, res: Response) {
-  // Synthesize a few current risk breaches based on config thresholds
-  const items = [] as Array<{
-    id: string;
-    message: string;
-    timestamp: string;
-    severity: "low" | "medium" | "high" | "critical" | string;
-    metric: string;
-    value: number;
-    threshold: number;
-  }>;
-  const now = Date.now();
-
-  // Example: drawdown breach
-  const tier =
-    RISK_CONFIG.tiers.find((t) => t.id === RISK_CONFIG.defaultTier) ||
-    RISK_CONFIG.tiers[0];
-  const dd = -0.06 - Math.random() * 0.03;
-  if (dd < -tier.maxDrawdown) {
-    items.push({
-      id: `risk_dd_${now}`,
-      message: `Max drawdown ${Math.abs(dd * 100).toFixed(2)}% exceeds limit ${Math.abs(tier.maxDrawdown * 100).toFixed(1)}%`,
-      timestamp: new Date(now - 20_000).toISOString(),
-      severity: "high",
-      metric: "max_drawdown",
-      value: dd,
-      threshold: -tier.maxDrawdown,
-    });
-  }
-
-  // Example: Sharpe warning
-  const sharpe = 0.4 + Math.random() * 0.4;
-  if (sharpe < 0.5) {
-    items.push({
-      id: `risk_sharpe_${now - 10_000}`,
-      message: `Sharpe ${sharpe.toFixed(2)} below recommended 0.50`,
-      timestamp: new Date(now - 10_000).toISOString(),
-      severity: sharpe < 0.3 ? "critical" : "warning",
-      metric: "sharpe_ratio",
-      value: sharpe,
-      threshold: 0.5,
-    });
-  }
-
-  // Example: Hedge ratio outside band
-  const hedge = 0.07 + Math.random() * 0.9;
-  if (hedge < 0.1 || hedge > 0.8) {
-    items.push({
-      id: `risk_hedge_${now - 5_000}`,
-      message: `Hedge ratio ${(hedge * 100).toFixed(1)}% outside [10%, 80%] band`,
-      timestamp: new Date(now - 5_000).toISOString(),
-      severity: "warning",
-      metric: "hedge_ratio",
-      value: hedge,
-      threshold: hedge < 0.1 ? 0.1 : 0.8,
-    });
-  }
+// VaR/CVaR, volatility, exposure and beta for the open book
+export function handleGetRiskMetrics(_req: Request, res: Response) {
+  res.json({ status: "success", data: riskService.snapshot() });
+}
 
-  res.json({ status: "success", breaches: items });
+export function handleGetRiskBreaches(req: Request, res: Response) {
+  const limit = Math.max(
+    1,
+    Math.min(100, parseInt(String((req.query as any).limit)) || 50),
+  );
+  res.json({ status: "success", breaches: riskService.breaches(limit) });
 }
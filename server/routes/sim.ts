@@ -1,79 +1,263 @@
 import type { Request, Response } from "express";
+import { createRepository } from "../storage/repository";
+import { getRiskConfig } from "./risk";
+import {
+  MAX_PATHS,
+  monteCarlo,
+  normalizeScenario,
+  type Scenario,
+  ScenarioValidationError,
+  simulatePath,
+  stepsFor,
+  type PathOptions,
+} from "../sim/scenario";
 
+export type SavedScenario = Scenario & {
+  id: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const PRESETS: Array<Omit<SavedScenario, "created_at" | "updated_at">> = [
+  {
+    id: "flash_crash",
+    name: "Flash Crash",
+    price_jump_pct: -20,
+    vol_spike_pct: 80,
+    spread_widen_bps: 150,
+    liquidity_drain_pct: 70,
+    duration_min: 20,
+  },
+  {
+    id: "volatility_spike",
+    name: "Volatility Spike",
+    price_jump_pct: 0,
+    vol_spike_pct: 120,
+    spread_widen_bps: 40,
+    liquidity_drain_pct: 20,
+    duration_min: 60,
+  },
+  {
+    id: "liquidity_drain",
+    name: "Liquidity Drain",
+    price_jump_pct: -5,
+    vol_spike_pct: 30,
+    spread_widen_bps: 80,
+    liquidity_drain_pct: 80,
+    duration_min: 45,
+  },
+];
+
+const scenariosRepo = createRepository<SavedScenario>("sim_scenarios", {
+  seed: () => {
+    const now = new Date(0).toISOString();
+    return PRESETS.map((p) => ({ ...p, created_at: now, updated_at: now }));
+  },
+  migrations: [
+    {
+      version: 1,
+      description: "baseline: updated_at defaults to created_at",
+      up: (s) => ({ updated_at: s.created_at, ...s }),
+    },
+  ],
+});
+
+const DEFAULT_CAPITAL = 1000;
+const DEFAULT_PATHS = 500;
+const MAX_BATCH = 10;
+
+class NotFoundError extends Error {}
+
+function pathOptions(body: any): PathOptions {
+  const risk = getRiskConfig();
+  const seed = Number.isFinite(Number(body.seed))
+    ? Math.floor(Number(body.seed))
+    : Math.floor(Math.random() * 2 ** 31);
+  const capital = Number(body.capital ?? DEFAULT_CAPITAL);
+  if (!(capital > 0))
+    throw new ScenarioValidationError("capital must be positive");
+  return {
+    seed,
+    capital,
+    tiers: risk.tiers,
+    defaultTier: String(body.tier || risk.defaultTier),
+  };
+}
+
+/** An inline scenario, or the saved one named by `scenario_id` */
+function resolveScenario(ref: any): Scenario {
+  const id = typeof ref === "string" ? ref : ref?.scenario_id;
+  if (id !== undefined) {
+    const saved = scenariosRepo.get(String(id));
+    if (!saved) throw new NotFoundError(`scenario ${id} not found`);
+    return normalizeScenario(saved);
+  }
+  return normalizeScenario(ref);
+}
+
+function pathCount(v: unknown) {
+  const n = Math.floor(Number(v ?? DEFAULT_PATHS));
+  if (!Number.isFinite(n) || n < 1 || n > MAX_PATHS)
+    throw new ScenarioValidationError(`paths must be within [1, ${MAX_PATHS}]`);
+  return n;
+}
+
+function fail(res: Response, e: any, fallback: string) {
+  if (e instanceof ScenarioValidationError)
+    return res.status(400).json({ status: "error", message: e.message });
+  if (e instanceof NotFoundError)
+    return res.status(404).json({ status: "error", message: e.message });
+  return res
+    .status(500)
+    .json({ status: "error", message: e?.message || fallback });
+}
+
+// POST /sim/run
+// Body: { scenario | scenario_id, seed?, capital?, tier? }
+// One seeded path; the same seed always gives the same curve and actions.
 export function handleSimRun(req: Request, res: Response) {
   try {
     const body = (req.body || {}) as any;
-    const scenario = body.scenario || {};
-    const name = String(scenario.name || "Scenario");
-    const priceJump = Number(scenario.price_jump_pct ?? 0);
-    const volSpike = Number(scenario.vol_spike_pct ?? 0);
-    const spreadWidenBps = Number(scenario.spread_widen_bps ?? 0);
-    const liqDrain = Number(scenario.liquidity_drain_pct ?? 0);
-    const durationMin = Math.max(
-      5,
-      Math.min(480, Number(scenario.duration_min ?? 30)),
+    const scenario = resolveScenario(
+      body.scenario_id !== undefined ? body : body.scenario || {},
     );
-
-    // Synthesize PnL curve influenced by scenario parameters
-    const steps = Math.max(
-      30,
-      Math.min(600, Math.round((durationMin || 30) * 2)),
-    );
-    const pnl: Array<{ t: number; pnl: number }> = [];
-    let equity = 0;
-    let peak = 0;
-    let maxDD = 0;
-    const baseVol =
-      0.002 + volSpike * 0.01 + liqDrain * 0.003 + spreadWidenBps / 100000;
-    const drift = priceJump * 0.5 - liqDrain * 0.2;
-    for (let i = 0; i < steps; i++) {
-      const noise = (Math.random() - 0.5) * baseVol * 2;
-      const ret = drift / steps + noise - (spreadWidenBps / 10000) * 0.0005;
-      equity += ret;
-      if (equity > peak) peak = equity;
-      const dd = peak ? equity / peak - 1 : 0;
-      if (dd < maxDD) maxDD = dd;
-      pnl.push({ t: i, pnl: equity * 1000 }); // scale to monetary units
-    }
-
-    const actions = [
-      { t: 0, action: "rebalance", detail: "Reduce risk at start" },
-      {
-        t: Math.round(steps * 0.4),
-        action: "hedge_increase",
-        detail: "Increase hedge due to volatility",
-      },
-      {
-        t: Math.round(steps * 0.8),
-        action: "hedge_reduce",
-        detail: "Reduce hedge as conditions stabilize",
-      },
-    ];
-
+    const o = pathOptions(body);
+    const r = simulatePath(scenario, o);
     const data = {
-      scenario: {
-        name,
-        price_jump_pct: priceJump,
-        vol_spike_pct: volSpike,
-        spread_widen_bps: spreadWidenBps,
-        liquidity_drain_pct: liqDrain,
-        duration_min: durationMin,
-      },
-      pnl,
-      actions,
+      scenario,
+      seed: o.seed,
+      pnl: r.pnl,
+      actions: r.actions,
       metrics: {
-        max_drawdown: maxDD,
-        volatility: baseVol,
-        duration_steps: steps,
+        max_drawdown: r.max_drawdown,
+        volatility: r.volatility,
+        duration_steps: stepsFor(scenario),
       },
-      final_pnl: pnl[pnl.length - 1]?.pnl ?? 0,
+      final_pnl: r.final_pnl,
     };
-
-    // Return completed result synchronously for simplicity
     return res.json({ status: "success", id: `${Date.now()}`, data });
   } catch (e: any) {
-    return res
-      .status(500)
-      .json({ status: "error", message: e?.message || "Simulation failed" });
+    return fail(res, e, "Simulation failed");
   }
 }
+
+// POST /sim/montecarlo
+// Body: { scenario | scenario_id, paths?, seed?, capital?, tier? }
+export function handleSimMonteCarlo(req: Request, res: Response) {
+  try {
+    const body = (req.body || {}) as any;
+    const scenario = resolveScenario(
+      body.scenario_id !== undefined ? body : body.scenario || {},
+    );
+    const result = monteCarlo(
+      scenario,
+      pathOptions(body),
+      pathCount(body.paths),
+    );
+    return res.json({ status: "success", data: { scenario, ...result } });
+  } catch (e: any) {
+    return fail(res, e, "Monte Carlo failed");
+  }
+}
+
+// POST /sim/batch
+// Body: { scenarios: [scenario | scenario_id | { scenario_id }], paths?, seed? }
+// Every scenario is run from the same seed, so differences between them come
+// from the scenarios rather than from different random draws.
+export function handleSimBatch(req: Request, res: Response) {
+  try {
+    const body = (req.body || {}) as any;
+    const list = body.scenarios;
+    if (!Array.isArray(list) || list.length === 0)
+      throw new ScenarioValidationError("scenarios array required");
+    if (list.length > MAX_BATCH)
+      throw new ScenarioValidationError(
+        `at most ${MAX_BATCH} scenarios per batch`,
+      );
+    const scenarios = list.map(resolveScenario);
+    const o = pathOptions(body);
+    const paths = pathCount(body.paths);
+    const results = scenarios.map((scenario) => ({
+      scenario,
+      ...monteCarlo(scenario, o, paths),
+    }));
+    return res.json({
+      status: "success",
+      data: { seed: o.seed, paths, results },
+    });
+  } catch (e: any) {
+    return fail(res, e, "Batch failed");
+  }
+}
+
+// Scenario library
+
+export function handleListScenarios(_req: Request, res: Response) {
+  res.json({ status: "success", data: scenariosRepo.list() });
+}
+
+export function handleGetScenario(req: Request, res: Response) {
+  const s = scenariosRepo.get(String(req.params.id));
+  if (!s)
+    return res.status(404).json({ status: "error", message: "not found" });
+  res.json({ status: "success", data: s });
+}
+
+export function handleCreateScenario(req: Request, res: Response) {
+  try {
+    const body = (req.body || {}) as any;
+    if (!body.name || typeof body.name !== "string")
+      throw new ScenarioValidationError("name required");
+    const scenario = normalizeScenario(body);
+    if (scenariosRepo.find((s) => s.name === scenario.name))
+      return res
+        .status(409)
+        .json({ status: "error", message: "duplicate name" });
+    const now = new Date().toISOString();
+    const saved: SavedScenario = {
+      ...scenario,
+      id: `scn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      description: body.description ? String(body.description) : undefined,
+      created_at: now,
+      updated_at: now,
+    };
+    scenariosRepo.upsert(saved);
+    res.status(201).json({ status: "success", data: saved });
+  } catch (e: any) {
+    return fail(res, e, "Save failed");
+  }
+}
+
+export function handleUpdateScenario(req: Request, res: Response) {
+  try {
+    const id = String(req.params.id);
+    const existing = scenariosRepo.get(id);
+    if (!existing)
+      return res.status(404).json({ status: "error", message: "not found" });
+    const body = (req.body || {}) as any;
+    const scenario = normalizeScenario({ ...existing, ...body });
+    if (scenariosRepo.find((s) => s.name === scenario.name && s.id !== id))
+      return res
+        .status(409)
+        .json({ status: "error", message: "duplicate name" });
+    const saved = scenariosRepo.update(id, (s) => ({
+      ...s,
+      ...scenario,
+      description:
+        body.description !== undefined
+          ? String(body.description)
+          : s.description,
+      updated_at: new Date().toISOString(),
+    }));
+    res.json({ status: "success", data: saved });
+  } catch (e: any) {
+    return fail(res, e, "Save failed");
+  }
+}
+
+export function handleDeleteScenario(req: Request, res: Response) {
+  if (!scenariosRepo.remove(String(req.params.id)))
+    return res.status(404).json({ status: "error", message: "not found" });
+  res.json({ status: "success", data: { id: req.params.id } });
+}
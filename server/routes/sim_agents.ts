@@ -1,4 +1,9 @@
 import { Request, Response } from "express";
+import {
+  MatchingEngine,
+  type OrderRequest,
+  type SubmitResult,
+} from "../execution/matching";
 
 export type AgentProfile = {
   type: "market_maker" | "arbitrage_bot" | "momentum_trader" | "spoofer";
@@ -18,6 +23,22 @@ export type AgentsRunMetrics = {
   avg_spread_bps: number;
   spread_vol_bps: number; // volatility of spread
   midprice_drift_bps: number;
+  mid_vol_bps: number; // per-step volatility of the mid
+  trades: number;
+  volume: number;
+  cancel_ratio: number; // cancels per order submitted
+  one_sided_pct: number; // share of steps with an empty side of the book
+};
+
+export type AgentStats = {
+  id: string;
+  type: AgentProfile["type"];
+  pnl: number;
+  inventory: number;
+  fills: number;
+  volume: number;
+  orders: number;
+  cancels: number;
 };
 
 export type AgentsRunResult = {
@@ -25,8 +46,14 @@ export type AgentsRunResult = {
   started_at: string;
   completed_at: string;
   status: "completed";
-  pnl: Array<{ agent: string; pnl: number }>;
-  spread_over_time: Array<{ t: number; spread_bps: number }>; // impact on spreads
+  pnl: Array<{ agent: string; pnl: number }>; // per agent type
+  agents: AgentStats[];
+  spread_over_time: Array<{
+    t: number;
+    spread_bps: number;
+    mid: number;
+    depth: number; // resting size within 5 levels of the touch, both sides
+  }>;
   metrics: AgentsRunMetrics;
   cfg: AgentsConfig;
 };
@@ -55,68 +82,288 @@ function rand(seed: number) {
   };
 }
 
-function simulateAgents(cfg: AgentsConfig): AgentsRunResult {
+const AGENT_TYPES: AgentProfile["type"][] = [
+  "market_maker",
+  "arbitrage_bot",
+  "momentum_trader",
+  "spoofer",
+];
+
+function normalizeConfig(body: Partial<AgentsConfig>, base: AgentsConfig) {
+  return {
+    profiles: (body.profiles || base.profiles).map((p: any) => ({
+      type: (AGENT_TYPES.includes(p.type)
+        ? p.type
+        : "market_maker") as AgentProfile["type"],
+      count: Math.max(0, Math.min(50, Math.floor(Number(p.count)) || 0)),
+      aggression: Math.max(0, Math.min(1, Number(p.aggression) || 0)),
+      capital: Math.max(0, Math.min(10, Number(p.capital) || 0)),
+    })),
+    seed: typeof body.seed === "number" ? body.seed : base.seed,
+    steps: typeof body.steps === "number" ? body.steps : base.steps,
+  };
+}
+
+// Discrete-event market simulation
+//
+// Agents act at exponentially distributed times (rate grows with aggression)
+// and trade only through the MatchingEngine, so spreads, depth, inventories
+// and PnL all come from what actually happens on the book:
+//   - market_maker: requotes around the mid, widening with low aggression and
+//     skewing by inventory and by the visible book imbalance
+//   - arbitrage_bot: sees a reference price from another venue, takes quotes
+//     that are mispriced against it and hedges the fill there
+//   - momentum_trader: trades mid momentum plus book pressure with market
+//     orders, and exits when the signal turns against its position
+//   - spoofer: layers large orders behind the touch on one side, trades on the
+//     other side once the book has leaned, then cancels the layers
+// Every random draw comes from the seeded xorshift generator.
+
+const TICK = 0.01;
+const START_PRICE = 100;
+const REF_VOL = 0.0005; // reference price volatility per step
+const DEPTH_LEVELS = 5;
+const MAKER_LEVELS = 3;
+const MAKER_REF_WEIGHT = 0.5;
+
+/** Expected actions per step: from one every ten steps up to one per step */
+const eventRate = (a: { aggression: number }) => 0.1 + 0.9 * a.aggression;
+
+type Agent = AgentStats & {
+  aggression: number;
+  lot: number;
+  maxInventory: number;
+  cash: number;
+  nextAt: number;
+  lookback: number;
+  spoof?: { phase: 0 | 1; dir: 1 | -1; ids: number[]; mid: number };
+};
+
+export function simulateAgents(cfg: AgentsConfig): AgentsRunResult {
   const seed = cfg.seed ?? Math.floor(Math.random() * 1e9);
   const rnd = rand(seed);
   const steps = Math.max(50, Math.min(2000, cfg.steps ?? 200));
   const started = new Date();
+  const book = new MatchingEngine();
+  const expo = (rate: number) => -Math.log(1 - rnd() * 0.9999) / rate;
+  const gauss = () =>
+    Math.sqrt(-2 * Math.log(1 - rnd() * 0.9999)) *
+    Math.cos(2 * Math.PI * rnd());
 
-  // Baseline spread and dynamics
-  let spread = 10 + rnd() * 10; // bps
-  const spreadSeries: Array<{ t: number; spread_bps: number }> = [];
-  const pnlMap = new Map<string, number>();
-
-  const weights: Record<AgentProfile["type"], number> = {
-    market_maker: 0.0,
-    arbitrage_bot: 0.0,
-    momentum_trader: 0.0,
-    spoofer: 0.0,
-  } as any;
-  cfg.profiles.forEach((p) => {
-    weights[p.type] =
-      (weights[p.type] || 0) + p.count * p.aggression * p.capital;
-  });
-
-  for (let i = 0; i < steps; i++) {
-    // Market makers tighten spreads with capacity, spoofers widen, momentum widen in high aggression, arbs tighten when opportunity is high
-    const makerTighten = (weights.market_maker || 0) * (0.2 + 0.3 * rnd());
-    const arbTighten = (weights.arbitrage_bot || 0) * (0.1 + 0.2 * rnd());
-    const momWiden = (weights.momentum_trader || 0) * (0.15 + 0.25 * rnd());
-    const spfWiden = (weights.spoofer || 0) * (0.3 + 0.4 * rnd());
-    const d =
-      -makerTighten - arbTighten + momWiden + spfWiden + (rnd() - 0.5) * 2; // noise
-    spread = Math.max(2, spread + d);
-    spreadSeries.push({ t: i, spread_bps: spread });
+  const agents: Agent[] = [];
+  for (const p of cfg.profiles) {
+    for (let i = 0; i < p.count; i++) {
+      const lot = Math.max(
+        1,
+        Math.round(p.capital * 10 * (0.5 + p.aggression)),
+      );
+      agents.push({
+        id: `${p.type}_${i + 1}`,
+        type: p.type,
+        aggression: p.aggression,
+        lot,
+        maxInventory: lot * 10,
+        cash: 0,
+        inventory: 0,
+        pnl: 0,
+        fills: 0,
+        volume: 0,
+        orders: 0,
+        cancels: 0,
+        nextAt: 0,
+        lookback: Math.max(3, Math.round(20 * (1.2 - p.aggression))),
+      });
+    }
   }
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  agents.forEach((a) => (a.nextAt = expo(eventRate(a))));
 
-  // PnL by agent category: makers earn spread capture; arbs gain small; momentum depends on trend; spoofers random + penalty
-  const sumWeight = Object.values(weights).reduce((a, b) => a + b, 0) || 1;
-  const baseVol = Math.sqrt(
-    spreadSeries.reduce(
-      (s, p) => s + Math.pow(p.spread_bps - spreadSeries[0].spread_bps, 2),
-      0,
-    ) / spreadSeries.length,
-  );
+  let ref = START_PRICE / TICK; // ticks, float
+  let lastTrade: number | undefined;
+  book.onTrade = (t) => {
+    const buyer = byId.get(t.aggressor === "buy" ? t.taker : t.maker)!;
+    const seller = byId.get(t.aggressor === "buy" ? t.maker : t.taker)!;
+    const notional = t.price * TICK * t.qty;
+    buyer.cash -= notional;
+    buyer.inventory += t.qty;
+    seller.cash += notional;
+    seller.inventory -= t.qty;
+    for (const a of [buyer, seller]) {
+      a.fills++;
+      a.volume += t.qty;
+    }
+    lastTrade = t.price;
+  };
 
-  (Object.keys(weights) as AgentProfile["type"][]).forEach((type) => {
-    const w = weights[type] / sumWeight;
-    let pnl = 0;
-    switch (type) {
-      case "market_maker":
-        pnl = w * 1000 * (1 + 10 / (1 + baseVol));
+  const midTicks = () => {
+    const bid = book.bestBid();
+    const ask = book.bestAsk();
+    if (bid !== undefined && ask !== undefined) return (bid + ask) / 2;
+    return lastTrade ?? ref;
+  };
+  const imbalance = () => {
+    const d = book.depth(DEPTH_LEVELS);
+    return d.bid + d.ask > 0 ? (d.bid - d.ask) / (d.bid + d.ask) : 0;
+  };
+  const submit = (a: Agent, req: Omit<OrderRequest, "owner">) => {
+    a.orders++;
+    return book.submit({ ...req, owner: a.id });
+  };
+  const cancelAll = (a: Agent) => {
+    a.cancels += book.cancelAll(a.id);
+  };
+  const mids: number[] = [];
+
+  const act = (a: Agent) => {
+    const mid = midTicks();
+    switch (a.type) {
+      case "market_maker": {
+        cancelAll(a);
+        const half = Math.max(1, Math.round(5 * (1.5 - a.aggression)));
+        // Makers also watch the reference venue, so the book cannot drift
+        // far from it for long
+        const fair = mid + MAKER_REF_WEIGHT * (ref - mid);
+        const center =
+          fair + imbalance() * half - (a.inventory / a.maxInventory) * half * 2;
+        const bid = Math.floor(center - half);
+        const ask = Math.max(bid + 1, Math.ceil(center + half));
+        // A small ladder: one lot at the quote and at each of the next levels
+        for (let k = 0; k < MAKER_LEVELS; k++) {
+          if (a.inventory < a.maxInventory)
+            submit(a, { side: "buy", price: bid - k, qty: a.lot });
+          if (a.inventory > -a.maxInventory)
+            submit(a, { side: "sell", price: ask + k, qty: a.lot });
+        }
         break;
-      case "arbitrage_bot":
-        pnl = w * 600 * (1 + 0.2 * Math.random());
+      }
+      case "arbitrage_bot": {
+        const edge = Math.max(1, Math.round(6 * (1.2 - a.aggression)));
+        const ask = book.bestAsk();
+        const bid = book.bestBid();
+        let r: SubmitResult | undefined;
+        if (ask !== undefined && ask < ref - edge) {
+          r = submit(a, {
+            side: "buy",
+            price: Math.floor(ref - edge),
+            qty: a.lot,
+            ioc: true,
+          });
+        } else if (bid !== undefined && bid > ref + edge) {
+          r = submit(a, {
+            side: "sell",
+            price: Math.ceil(ref + edge),
+            qty: a.lot,
+            ioc: true,
+          });
+        }
+        // Offset the position on the reference venue at its price
+        if (r && a.inventory !== 0) {
+          a.cash += a.inventory * ref * TICK;
+          a.inventory = 0;
+        }
         break;
-      case "momentum_trader":
-        pnl = w * (rnd() > 0.4 ? 800 : -400) * (1 + baseVol / 20);
+      }
+      case "momentum_trader": {
+        const past = mids[Math.max(0, mids.length - a.lookback)];
+        if (past === undefined) break;
+        const signal = ((mid - past) / past) * 1e4 + imbalance() * 5;
+        const threshold = 5 * (1.2 - a.aggression);
+        if (signal > threshold && a.inventory < a.maxInventory) {
+          submit(a, { side: "buy", qty: a.lot });
+        } else if (signal < -threshold && a.inventory > -a.maxInventory) {
+          submit(a, { side: "sell", qty: a.lot });
+        } else if (
+          a.inventory !== 0 &&
+          Math.sign(signal) !== Math.sign(a.inventory)
+        ) {
+          submit(a, {
+            side: a.inventory > 0 ? "sell" : "buy",
+            qty: Math.min(a.lot, Math.abs(a.inventory)),
+          });
+        }
         break;
-      case "spoofer":
-        pnl = w * (rnd() > 0.7 ? 300 : -500);
+      }
+      case "spoofer": {
+        const s = a.spoof;
+        if (!s || s.phase === 0) {
+          // Drop the last genuine quote and work off anything the layers
+          // picked up before spoofing again
+          cancelAll(a);
+          if (Math.abs(a.inventory) >= a.lot) {
+            submit(a, {
+              side: a.inventory > 0 ? "sell" : "buy",
+              qty: a.lot,
+            });
+          }
+          const dir: 1 | -1 = rnd() < 0.5 ? 1 : -1; // 1 = fake bids, sell for real
+          const touch = dir === 1 ? book.bestBid() : book.bestAsk();
+          const anchor = touch ?? Math.round(mid);
+          const ids: number[] = [];
+          for (let k = 1; k <= 2; k++) {
+            const r = submit(a, {
+              side: dir === 1 ? "buy" : "sell",
+              price: anchor - dir * k,
+              qty: a.lot * 5,
+            });
+            if (r.resting) ids.push(r.orderId);
+          }
+          a.spoof = { phase: 1, dir, ids, mid };
+        } else {
+          // Trade the genuine side (hit the book if it has leaned our way,
+          // otherwise join the far touch), then pull the layers
+          const moved = s.dir * (mid - s.mid) > 0;
+          const side = s.dir === 1 ? "sell" : "buy";
+          const touch = s.dir === 1 ? book.bestAsk() : book.bestBid();
+          if (moved || touch === undefined) submit(a, { side, qty: a.lot });
+          else submit(a, { side, price: touch, qty: a.lot });
+          for (const id of s.ids) if (book.cancel(id)) a.cancels++;
+          a.spoof = { ...s, phase: 0, ids: [] };
+        }
         break;
+      }
+    }
+  };
+
+  const spreadSeries: AgentsRunResult["spread_over_time"] = [];
+  let lastSpread = 0;
+  let oneSided = 0;
+  for (let t = 0; t < steps; t++) {
+    ref *= Math.exp(REF_VOL * gauss());
+    const events: Array<{ at: number; agent: Agent }> = [];
+    for (const a of agents) {
+      while (a.nextAt < t + 1) {
+        events.push({ at: a.nextAt, agent: a });
+        a.nextAt += expo(eventRate(a));
+      }
     }
-    pnlMap.set(type, (pnlMap.get(type) || 0) + pnl);
-  });
+    events.sort((x, y) => x.at - y.at);
+    for (const e of events) act(e.agent);
+
+    const bid = book.bestBid();
+    const ask = book.bestAsk();
+    const mid = midTicks();
+    mids.push(mid);
+    if (bid !== undefined && ask !== undefined) {
+      lastSpread = ((ask - bid) / mid) * 1e4;
+    } else {
+      oneSided++;
+    }
+    const d = book.depth(DEPTH_LEVELS);
+    spreadSeries.push({
+      t,
+      spread_bps: lastSpread,
+      mid: +(mid * TICK).toFixed(4),
+      depth: d.bid + d.ask,
+    });
+  }
+
+  // Mark every position to the final mid
+  const finalMid = midTicks() * TICK;
+  const pnlByType = new Map<string, number>();
+  for (const a of agents) {
+    a.pnl = a.cash + a.inventory * finalMid;
+    pnlByType.set(a.type, (pnlByType.get(a.type) || 0) + a.pnl);
+  }
 
   const avgSpread =
     spreadSeries.reduce((s, p) => s + p.spread_bps, 0) / spreadSeries.length;
@@ -126,25 +373,62 @@ function simulateAgents(cfg: AgentsConfig): AgentsRunResult {
       0,
     ) / spreadSeries.length,
   );
-  const stability = Math.max(0, Math.min(1, 1 - spreadVol / 50));
-  const drift =
-    spreadSeries[spreadSeries.length - 1].spread_bps -
-    spreadSeries[0].spread_bps;
+  const rets = mids.slice(1).map((m, i) => ((m - mids[i]) / mids[i]) * 1e4);
+  const midVol = rets.length
+    ? Math.sqrt(rets.reduce((s, r) => s + r * r, 0) / rets.length)
+    : 0;
+  const oneSidedShare = oneSided / steps;
+  // Tight, steady spreads, a calm mid and a two-sided book all score high
+  const stability = Math.max(
+    0,
+    Math.min(
+      1,
+      (1 - oneSidedShare) /
+        (1 + spreadVol / Math.max(avgSpread, 1e-9)) /
+        (1 + midVol / 25),
+    ),
+  );
+  const orders = agents.reduce((s, a) => s + a.orders, 0);
+  const round = (x: number) => +x.toFixed(4);
 
   const res: AgentsRunResult = {
     id: `${Date.now()}_${Math.round(Math.random() * 1e6)}`,
     started_at: started.toISOString(),
     completed_at: new Date().toISOString(),
     status: "completed",
-    pnl: Array.from(pnlMap.entries()).map(([agent, pnl]) => ({ agent, pnl })),
+    pnl: AGENT_TYPES.filter((type) => pnlByType.has(type)).map((agent) => ({
+      agent,
+      pnl: round(pnlByType.get(agent)!),
+    })),
+    agents: agents.map(
+      ({ id, type, pnl, inventory, fills, volume, orders, cancels }) => ({
+        id,
+        type,
+        pnl: round(pnl),
+        inventory,
+        fills,
+        volume,
+        orders,
+        cancels,
+      }),
+    ),
     spread_over_time: spreadSeries,
     metrics: {
       stability_index: stability,
       avg_spread_bps: avgSpread,
       spread_vol_bps: spreadVol,
-      midprice_drift_bps: drift,
+      midprice_drift_bps: mids.length
+        ? ((mids[mids.length - 1] - mids[0]) / mids[0]) * 1e4
+        : 0,
+      mid_vol_bps: midVol,
+      trades: book.trades.length,
+      volume: book.trades.reduce((s, t) => s + t.qty, 0),
+      cancel_ratio: orders
+        ? agents.reduce((s, a) => s + a.cancels, 0) / orders
+        : 0,
+      one_sided_pct: oneSidedShare,
     },
-    cfg,
+    cfg: { ...cfg, seed, steps },
   };
 
   history.unshift(res);
@@ -160,35 +444,25 @@ export function handleSaveAgentsConfig(req: Request, res: Response) {
   try {
     const body = req.body as Partial<AgentsConfig>;
     if (body && Array.isArray(body.profiles)) {
-      currentConfig = {
-        profiles: body.profiles.map((p: any) => ({
-          type: (p.type || "market_maker") as AgentProfile["type"],
-          count: Math.max(0, Math.min(50, Number(p.count) || 0)),
-          aggression: Math.max(0, Math.min(1, Number(p.aggression) || 0)),
-          capital: Math.max(0, Math.min(10, Number(p.capital) || 0)),
-        })),
-        seed: typeof body.seed === "number" ? body.seed : currentConfig.seed,
-        steps:
-          typeof body.steps === "number" ? body.steps : currentConfig.steps,
-      };
+      currentConfig = normalizeConfig(body, currentConfig);
       return res.json({ status: "success", data: currentConfig });
     }
     return res
       .status(400)
       .json({ status: "error", message: "Invalid profiles" });
   } catch (e: any) {
-    return res
-      .status(500)
-      .json({
-        status: "error",
-        message: e?.message || "Failed to save config",
-      });
+    return res.status(500).json({
+      status: "error",
+      message: e?.message || "Failed to save config",
+    });
   }
 }
 
 export function handleRunAgentsSim(req: Request, res: Response) {
   try {
-    const cfg = (req.body?.config as AgentsConfig) || currentConfig;
+    const cfg = req.body?.config
+      ? normalizeConfig(req.body.config, currentConfig)
+      : currentConfig;
     const result = simulateAgents(cfg);
     return res.json({ status: "success", data: result, id: result.id });
   } catch (e: any) {
@@ -1,4 +1,13 @@
 import type { Request, Response } from "express";
+import crypto from "crypto";
+import { createRepository } from "../storage/repository";
+import {
+  BacktestTimeoutError,
+  BacktestValidationError,
+  normalizeBacktestConfig,
+  runBacktest,
+  type BacktestResult,
+} from "../backtest/engine";
 
 let strategyFlags = [
   { name: 'mean_reversion', weight: 0.3, enabled: true, last_run: new Date().toISOString() },
@@ -83,15 +92,63 @@ export function handleStrategiesStressTest(_req: Request, res: Response) {
   ]});
 }
 
+// Backtest runs are persisted (backend selected by AETHER_STORAGE) and served
+// as artifacts by /reports/backtest under their report_path
+export interface BacktestRun {
+  id: string;
+  reportPath: string;
+  createdAt: string;
+  createdBy: string;
+  durationMs: number;
+  result: BacktestResult;
+}
+
+const backtestRunsRepo = createRepository<BacktestRun>('backtest_runs', {
+  migrations: [
+    { version: 1, description: 'baseline: report path', up: (r) => ({ reportPath: `backtests/${r.id}`, ...r }) }
+  ]
+});
+
+const BACKTEST_TIME_BUDGET_MS = parseInt(process.env.BACKTEST_TIMEOUT_MS || '', 10) || 20_000;
+
+// 'reports/latest' (or no path) is the most recent run
+export function getBacktestRun(reportPath?: string): BacktestRun | undefined {
+  if (!reportPath || reportPath === 'reports/latest') {
+    return backtestRunsRepo.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  }
+  return backtestRunsRepo.find((r) => r.reportPath === reportPath);
+}
+
 export function handlePostBacktest(req: Request, res: Response){
+  let config;
+  try {
+    config = normalizeBacktestConfig((req.body||{}).config);
+  } catch (e) {
+    if (e instanceof BacktestValidationError) return res.status(422).json({ status:'error', error: e.message });
+    throw e;
+  }
   try{
-    const { config } = (req.body||{}) as any;
-    // Validate minimal payload
-    if (config && typeof config !== 'object') return res.status(422).json({ status:'error', error:'invalid config' });
-    const jobId = `bt_${Date.now()}`;
-    const report_path = 'reports/latest';
-    return res.status(202).json({ status:'accepted', jobId, report_path: `/api/reports/backtest?format=json&path=${encodeURIComponent(report_path)}` });
+    const started = Date.now();
+    const result = runBacktest(config, { deadline: started + BACKTEST_TIME_BUDGET_MS });
+    const id = `bt_${started}_${crypto.randomBytes(3).toString('hex')}`;
+    const run: BacktestRun = {
+      id,
+      reportPath: `backtests/${id}`,
+      createdAt: new Date().toISOString(),
+      createdBy: req.user?.email || 'anonymous',
+      durationMs: Date.now() - started,
+      result,
+    };
+    backtestRunsRepo.upsert(run);
+    return res.status(201).json({
+      status:'completed',
+      jobId: id,
+      report_path: `/api/reports/backtest?format=json&path=${encodeURIComponent(run.reportPath)}`,
+      summary: { bars: result.bars, finalEquity: result.finalEquity, returnPct: result.returnPct, sharpe: result.sharpe, maxDrawdown: result.maxDrawdown, trades: result.totals.trades },
+    });
   }catch(e){
-    return res.status(500).json({ status:'error', error:'failed to start backtest' });
+    if (e instanceof BacktestTimeoutError) return res.status(504).json({ status:'error', error: e.message });
+    console.error('Backtest failed:', e);
+    return res.status(500).json({ status:'error', error:'failed to run backtest' });
   }
 }
@@ -1,20 +1,40 @@
 import type { Request, Response } from 'express';
+import { createRepository } from '../storage/repository';
+import { recordAudit } from './audit';
 
-// In-memory mock queue to simulate pending strategies
-let pending = Array.from({ length: 47 }).map((_, i) => ({
-  strategy_id: `strat_${i + 1}`,
-  name: [
-    'Momentum','Mean Reversion','Breakout','Carry','Arbitrage','Trend Following','Volatility Target','Pairs Trading',
-    'Grid Bot','Scalper','Swing','News Sentiment','Mean Variance','Risk Parity','Stat Arb','Liquidity Maker'
-  ][i % 16] + ` ${Math.floor(i/16)+1}`,
-  submitter: { id: `u_${(i % 7) + 1}`, name: `User ${(i % 7) + 1}`, role: i % 3 === 0 ? 'admin' : 'user' },
-  metrics: {
-    sharpe: +(Math.random() * 3).toFixed(2),
-    win_rate: +(50 + Math.random() * 50).toFixed(1),
-    avg_return: +(Math.random() * 0.05).toFixed(3)
-  },
-  submitted_at: new Date(Date.now() - i * 3600_000).toISOString()
-}));
+interface PendingStrategy {
+  strategy_id: string;
+  name: string;
+  submitter: { id: string; name: string; role: string };
+  metrics: { sharpe: number; win_rate: number; avg_return: number };
+  submitted_at: string;
+}
+
+// Review queue of pending strategies (backend selected by AETHER_STORAGE)
+const pendingRepo = createRepository<PendingStrategy>('strategy_review_pending', {
+  key: (p) => p.strategy_id,
+  seed: () => Array.from({ length: 47 }).map((_, i) => ({
+    strategy_id: `strat_${i + 1}`,
+    name: [
+      'Momentum','Mean Reversion','Breakout','Carry','Arbitrage','Trend Following','Volatility Target','Pairs Trading',
+      'Grid Bot','Scalper','Swing','News Sentiment','Mean Variance','Risk Parity','Stat Arb','Liquidity Maker'
+    ][i % 16] + ` ${Math.floor(i/16)+1}`,
+    submitter: { id: `u_${(i % 7) + 1}`, name: `User ${(i % 7) + 1}`, role: i % 3 === 0 ? 'admin' : 'user' },
+    metrics: {
+      sharpe: +(Math.random() * 3).toFixed(2),
+      win_rate: +(50 + Math.random() * 50).toFixed(1),
+      avg_return: +(Math.random() * 0.05).toFixed(3)
+    },
+    submitted_at: new Date(Date.now() - i * 3600_000).toISOString()
+  })),
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: submitter role defaults to user',
+      up: (p) => ({ ...p, submitter: { role: 'user', ...p.submitter } })
+    }
+  ]
+});
 
 function isSupabaseDegraded() {
   const url = process.env.SUPABASE_URL;
@@ -44,7 +64,7 @@ export function handlePendingStrategies(req: Request, res: Response) {
   // Simulated degraded mode if Supabase creds are missing
   const degraded = isSupabaseDegraded();
 
-  let items = pending.filter(p => {
+  let items = pendingRepo.list().filter(p => {
     if (search && !p.name.toLowerCase().includes(search)) return false;
     if (submitter && !(`${p.submitter.id} ${p.submitter.name}`.toLowerCase().includes(submitter))) return false;
     if (minSharpe !== undefined && Number(p.metrics.sharpe) < minSharpe) return false;
@@ -77,19 +97,19 @@ export function handlePendingStrategies(req: Request, res: Response) {
 
 export function handleApproveStrategy(req: Request, res: Response) {
   const { strategyId } = req.params as { strategyId: string };
-  const requestId = (req.headers['x-request-id'] as string) || `req_${Date.now()}`;
-  const idx = pending.findIndex((p) => p.strategy_id === strategyId);
-  if (idx === -1) return res.status(404).json({ status: 'error', detail: 'not found' });
+  const removed = pendingRepo.get(strategyId);
+  if (!removed) return res.status(404).json({ status: 'error', detail: 'not found' });
 
   const degraded = isSupabaseDegraded();
-  const removed = pending.splice(idx, 1)[0];
+  pendingRepo.remove(strategyId);
+  const entry = recordAudit({ action: 'STRATEGY_APPROVE', target: strategyId, details: `Approved strategy ${strategyId}` }, req);
   const payload = {
     status: 'success',
     data: {
       approved: true,
-      audit_entry_id: `audit_${Date.now()}`,
+      audit_entry_id: entry.id,
       strategy: removed,
-      request_id: requestId,
+      request_id: entry.requestId,
       persistence_skipped: degraded,
     },
     warning: degraded ? 'Supabase unavailable: approval persisted in-memory; deferred durable persistence' : undefined,
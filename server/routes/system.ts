@@ -1,4 +1,6 @@
 import { Request, Response } from 'express';
+import { verifyApiKey } from './api_keys';
+import { auditView, listAuditEntries, recordAudit } from './audit';
 
 // System state management
 interface SystemState {
@@ -22,11 +24,14 @@ let systemState: SystemState = {
   killSwitchEnabled: false
 };
 
-// API Key validation middleware
-function validateApiKey(req: Request): boolean {
-  const apiKey = req.headers['x-api-key'];
-  const expectedKey = process.env.SYSTEM_API_KEY || 'aether-admin-key-2024';
-  return apiKey === expectedKey;
+// API key validation (requires a managed key with the 'system' scope)
+function validateApiKey(req: Request, res: Response): boolean {
+  const check = verifyApiKey(req, 'system');
+  if (check.ok === false) {
+    sendErrorResponse(res, check.status, check.reason);
+    return false;
+  }
+  return true;
 }
 
 // Error response helper
@@ -39,9 +44,7 @@ function sendErrorResponse(res: Response, status: number, message: string) {
 
 // Get current system status
 export function handleGetSystemStatus(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   res.json({
     status: 'success',
@@ -51,9 +54,7 @@ export function handleGetSystemStatus(req: Request, res: Response) {
 
 // Pause system
 export function handlePauseSystem(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   const { actor, reason } = req.body;
 
@@ -71,13 +72,14 @@ export function handlePauseSystem(req: Request, res: Response) {
 
   console.log(`System paused by ${systemState.pausedBy}: ${systemState.pausedReason}`);
 
-  // Add audit log entry
-  addAuditLogEntry({
+  recordAudit({
     action: 'SYSTEM_PAUSE',
-    actor: systemState.pausedBy,
+    target: 'system',
+    before: { paused: false },
+    after: { paused: true },
     details: `System paused: ${systemState.pausedReason}`,
-    success: true
-  });
+    meta: { claimedActor: actor }
+  }, req);
 
   res.json({
     status: 'success',
@@ -88,9 +90,7 @@ export function handlePauseSystem(req: Request, res: Response) {
 
 // Resume system
 export function handleResumeSystem(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   const { actor, reason } = req.body;
 
@@ -119,13 +119,14 @@ export function handleResumeSystem(req: Request, res: Response) {
 
   console.log(`System resumed by ${systemState.changedBy}${reason ? `: ${reason}` : ''}`);
 
-  // Add audit log entry
-  addAuditLogEntry({
+  recordAudit({
     action: 'SYSTEM_RESUME',
-    actor: systemState.changedBy,
+    target: 'system',
+    before: { paused: true },
+    after: { paused: false },
     details: `System resumed: ${reason || 'No reason provided'}`,
-    success: true
-  });
+    meta: { claimedActor: actor }
+  }, req);
 
   res.json({
     status: 'success',
@@ -136,9 +137,7 @@ export function handleResumeSystem(req: Request, res: Response) {
 
 // Get current trading mode
 export function handleGetTradingMode(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   res.json({
     status: 'success',
@@ -152,9 +151,7 @@ export function handleGetTradingMode(req: Request, res: Response) {
 
 // Set trading mode
 export function handleSetTradingMode(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   const { mode, actor, reason } = req.body;
 
@@ -187,13 +184,14 @@ export function handleSetTradingMode(req: Request, res: Response) {
 
   console.log(`Trading mode changed from ${previousMode} to ${mode} by ${systemState.changedBy}`);
 
-  // Add audit log entry
-  addAuditLogEntry({
+  recordAudit({
     action: 'MODE_CHANGE',
-    actor: systemState.changedBy,
+    target: 'trading.mode',
+    before: previousMode,
+    after: mode,
     details: `Trading mode changed from ${previousMode} to ${mode}${reason ? `: ${reason}` : ''}`,
-    success: true
-  });
+    meta: { claimedActor: actor }
+  }, req);
 
   res.json({
     status: 'success',
@@ -202,62 +200,9 @@ export function handleSetTradingMode(req: Request, res: Response) {
   });
 }
 
-// In-memory audit log
-interface AuditLogEntry {
-  id: string;
-  timestamp: string;
-  action: string;
-  actor: string;
-  details: string;
-  success: boolean;
-}
-
-let auditLog: AuditLogEntry[] = [
-  {
-    id: 'audit_1',
-    timestamp: new Date(Date.now() - 86400000).toISOString(),
-    action: 'MODE_CHANGE',
-    actor: 'admin@example.com',
-    details: 'Changed trading mode from Simulation to Live',
-    success: true
-  },
-  {
-    id: 'audit_2',
-    timestamp: new Date(Date.now() - 172800000).toISOString(),
-    action: 'SYSTEM_PAUSE',
-    actor: 'admin@example.com',
-    details: 'System paused for maintenance',
-    success: true
-  },
-  {
-    id: 'audit_3',
-    timestamp: new Date(Date.now() - 259200000).toISOString(),
-    action: 'SYSTEM_RESUME',
-    actor: 'admin@example.com',
-    details: 'System resumed after maintenance',
-    success: true
-  }
-];
-
-// Helper function to add audit log entries
-function addAuditLogEntry(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>) {
-  const newEntry: AuditLogEntry = {
-    id: `audit_${Date.now()}`,
-    timestamp: new Date().toISOString(),
-    ...entry
-  };
-  auditLog.unshift(newEntry); // Add to beginning
-  // Keep only last 100 entries
-  if (auditLog.length > 100) {
-    auditLog = auditLog.slice(0, 100);
-  }
-}
-
 // Emergency kill switch
 export function handleKillSwitch(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   const { enabled, actor, reason } = req.body;
 
@@ -284,6 +229,7 @@ export function handleKillSwitch(req: Request, res: Response) {
     });
   }
 
+  const wasEnabled = systemState.killSwitchEnabled;
   systemState.killSwitchEnabled = enabled;
 
   if (enabled) {
@@ -306,13 +252,14 @@ export function handleKillSwitch(req: Request, res: Response) {
 
   console.log(`Kill switch ${enabled ? 'enabled' : 'disabled'} by ${actor || 'Unknown'}`);
 
-  // Add audit log entry
-  addAuditLogEntry({
+  recordAudit({
     action: 'KILL_SWITCH',
-    actor: actor || 'Unknown',
+    target: 'system',
+    before: { killSwitch: wasEnabled },
+    after: { killSwitch: enabled },
     details: `Kill switch ${enabled ? 'enabled' : 'disabled'}${reason ? `: ${reason}` : ''}`,
-    success: true
-  });
+    meta: { claimedActor: actor }
+  }, req);
 
   res.json({
     status: 'success',
@@ -325,15 +272,19 @@ export function getSystemState() { return systemState; }
 
 // Get system audit log
 export function handleGetAuditLog(req: Request, res: Response) {
-  if (!validateApiKey(req)) {
-    return sendErrorResponse(res, 401, 'API key required');
-  }
+  if (!validateApiKey(req, res)) return;
 
   const limit = parseInt(req.query.limit as string) || 50;
-  const limitedLog = auditLog.slice(0, Math.min(limit, 100));
+  const { action, actor, success } = req.query as Record<string, string | undefined>;
+  const entries = listAuditEntries({
+    action,
+    actor,
+    success: success === undefined || success === '' ? undefined : success === 'true',
+    limit: Math.min(limit, 100)
+  });
 
   res.json({
     status: 'success',
-    data: limitedLog
+    data: entries.map(auditView)
   });
 }
@@ -40,10 +40,79 @@ export function handleGlobalDataRefresh(_req: Request, res: Response) {
   res.json({ status:'triggered' });
 }
 
+export interface Candle { t: number; o: number; h: number; l: number; c: number; v: number; }
+
+export const INTERVAL_MS: Record<string, number> = {
+  '5m': 300_000, '15m': 900_000, '1h': 3_600_000, '4h': 14_400_000, '1d': 86_400_000
+};
+const BASE_PRICE: Record<string, number> = { BTC: 43000, ETH: 2600, SOL: 100, ADA: 0.5 };
+
+// Latent market states behind the synthetic series (hourly drift/vol of log returns)
+const LATENT_STATES = [
+  { weight: 0.27, drift: 0.0012, vol: 0.006 },  // steady uptrend
+  { weight: 0.2, drift: -0.001, vol: 0.007 },   // steady downtrend
+  { weight: 0.3, drift: 0, vol: 0.004 },        // quiet range
+  { weight: 0.15, drift: 0, vol: 0.016 },       // turbulent
+  { weight: 0.08, drift: -0.006, vol: 0.02 }    // sell-off
+];
+const LATENT_BLOCK_MS = 36 * 3_600_000;
+const MAX_BARS = 5000;
+
+// Uniform [0, 1) from a string key (FNV-1a + xorshift finaliser)
+function unitHash(key: string) {
+  let h = 2166136261;
+  for (let i = 0; i < key.length; i++) h = Math.imul(h ^ key.charCodeAt(i), 16777619);
+  h ^= h >>> 13; h = Math.imul(h, 0x5bd1e995); h ^= h >>> 15;
+  return (h >>> 0) / 4294967296;
+}
+
+function gaussian(key: string) {
+  const u = Math.max(unitHash(`${key}:a`), 1e-12);
+  const v = unitHash(`${key}:b`);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function latentState(symbol: string, t: number) {
+  let u = unitHash(`${symbol}:state:${Math.floor(t / LATENT_BLOCK_MS)}`);
+  for (const s of LATENT_STATES) {
+    if (u < s.weight) return s;
+    u -= s.weight;
+  }
+  return LATENT_STATES[0];
+}
+
+// Deterministic synthetic OHLCV. Each bar is derived from a hash of
+// (symbol, bar time), so every caller sees the same series for a window.
+export function generatePriceSeries(coin: string, interval: string, lookbackDays: number): Candle[] {
+  const symbol = String(coin || 'BTC').toUpperCase().replace(/[-/].*$/, '');
+  const step = INTERVAL_MS[interval] || INTERVAL_MS['1h'];
+  const scale = step / 3_600_000;
+  const days = Math.max(1, Math.min(365, Number(lookbackDays) || 7));
+  const count = Math.min(MAX_BARS, Math.floor((days * 86_400_000) / step));
+  const end = Math.floor(Date.now() / step) * step;
+  let price = (BASE_PRICE[symbol] || 100) * (0.9 + 0.2 * unitHash(`${symbol}:anchor:${end - count * step}`));
+  const out: Candle[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const t = end - i * step;
+    const state = latentState(symbol, t);
+    const vol = state.vol * Math.sqrt(scale);
+    const r = state.drift * scale + vol * gaussian(`${symbol}:${t}`);
+    const o = price;
+    const c = o * Math.exp(r);
+    const h = Math.max(o, c) * (1 + Math.abs(gaussian(`${symbol}:${t}:h`)) * vol * 0.5);
+    const l = Math.min(o, c) * (1 - Math.abs(gaussian(`${symbol}:${t}:l`)) * vol * 0.5);
+    const v = 1000 * scale * (1 + (3 * state.vol) / 0.006 * unitHash(`${symbol}:${t}:v`));
+    const round = (x: number) => +x.toPrecision(8);
+    out.push({ t, o: round(o), h: round(h), l: round(l), c: round(c), v: Math.round(v) });
+    price = c;
+  }
+  return out;
+}
+
 export function handleDataPriceSeries(req: Request, res: Response) {
   const { coin = 'BTC', interval = '1h', lookback = '7' } = req.query as Record<string,string>;
   const id = `task_${Date.now()}`; tasks.set(id, { status: 'PENDING' });
-  setTimeout(()=>{ tasks.set(id, { status:'SUCCESS', result: { symbol: coin, interval, ohlcv: [{ t: Date.now(), o:1,h:2,l:0.5,c:1.5,v:1000 }] } }); }, 1500);
+  setTimeout(()=>{ tasks.set(id, { status:'SUCCESS', result: { symbol: coin, interval, ohlcv: generatePriceSeries(coin, interval, Number(lookback)) } }); }, 1500);
   res.json({ status:'queued', message: id });
 }
 
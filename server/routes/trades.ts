@@ -205,6 +205,7 @@ export const handleGetRecentTrades: RequestHandler = (req, res) => {
 };
 
 export function listAllTrades(): Trade[] { return [...mockTrades]; }
+export function listOpenPositions(): Position[] { return [...mockPositions]; }
 
 export const handleGetOpenPositions: RequestHandler = (req, res) => {
   try {
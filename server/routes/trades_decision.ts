@@ -1,17 +1,151 @@
 import type { Request, Response } from 'express';
+import { publishTradeEvent } from './events';
+import { createRepository } from '../storage/repository';
+import { getSystemState } from './system';
+import { findMarket } from './markets';
+import { getRuntimeConfig } from './config';
+import { getRiskMarks, getRiskSnapshot } from './risk';
+import { listOpenPositions } from './trades';
+import { PreTradeContext, PreTradeOrder, PreTradeResult, runPreTradeChecks } from '../risk/pretrade';
 
-let lastDecision: any | null = null;
+interface TradeDecision {
+  decision_id: string;
+  symbol: string;
+  size: number;
+  recommended: 'buy' | 'sell';
+  confidence: number;
+  rationale: string;
+  indicators: { rsi: number; macd: number; atr: number; updated_at: string };
+  context: any;
+  reference_price: number | null;
+  /** Pre-trade checks for the recommended side and size */
+  risk: PreTradeResult;
+  status: 'open' | 'executed';
+  created_at: string;
+  expires_at: string;
+  execution_id?: string;
+}
+
+// One entry per pipeline run, approved or not
+interface RiskCheckLog {
+  id: string;
+  decision_id: string;
+  stage: 'decision' | 'execute';
+  symbol: string;
+  side: 'buy' | 'sell';
+  size: number;
+  price: number | null;
+  approved: boolean;
+  rejections: PreTradeResult['rejections'];
+  checks: PreTradeResult['checks'];
+  timestamp: string;
+}
+
+const DECISION_TTL_MS = 5 * 60_000;
+let seq = 0;
+
+// Decisions are kept per id so several can be open at once (backend selected by AETHER_STORAGE)
+const decisionsRepo = createRepository<TradeDecision>('trade_decisions', {
+  key: (d) => d.decision_id,
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: open decisions without a reference price',
+      up: (d) => ({ status: 'open', reference_price: null, ...d })
+    }
+  ]
+});
+
+const riskChecksRepo = createRepository<RiskCheckLog>('pretrade_checks', {
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: checks logged at decision time',
+      up: (l) => ({ stage: 'decision', rejections: [], ...l })
+    }
+  ]
+});
+
+function configNumber(key: string, fallback: number) {
+  const v = Number(getRuntimeConfig()[key]);
+  return Number.isFinite(v) ? v : fallback;
+}
+
+function heldPositions() {
+  const positions: Record<string, number> = {};
+  for (const p of listOpenPositions()) {
+    positions[p.symbol] = (positions[p.symbol] || 0) + p.amount;
+  }
+  return { positions, marks: getRiskMarks() };
+}
+
+// Gathers limits and state from the system, markets, config and risk routes
+function preTradeContext(symbol: string, referencePrice?: number | null): PreTradeContext {
+  const system = getSystemState();
+  const snapshot = getRiskSnapshot();
+  const { positions, marks } = heldPositions();
+  const maintenance = getRuntimeConfig()['system.maintenance_mode'] === true;
+  return {
+    killSwitch: system.killSwitchEnabled,
+    paused: system.isPaused || maintenance,
+    pausedReason: system.isPaused ? system.pausedReason : maintenance ? 'maintenance mode' : undefined,
+    market: findMarket(symbol) || null,
+    referencePrice: referencePrice ?? marks[symbol],
+    positions,
+    equity: snapshot.equity,
+    drawdown: -snapshot.drawdown,
+    pnl: snapshot.pnlPct,
+    tier: snapshot.tier,
+    limits: {
+      maxOrderNotional: configNumber('trading.max_order_notional', 50000),
+      maxPositionNotional: configNumber('trading.max_position_size', 100000),
+      maxConcentrationPct: configNumber('trading.max_concentration_percent', 40),
+      riskLimitPct: configNumber('trading.risk_limit_percent', 2.5),
+      stopLossPct: configNumber('trading.stop_loss_percent', 1),
+      priceBandPct: configNumber('trading.price_band_percent', 5)
+    }
+  };
+}
+
+function checkOrder(decision_id: string, stage: RiskCheckLog['stage'], order: PreTradeOrder, referencePrice?: number | null) {
+  const result = runPreTradeChecks(order, preTradeContext(order.symbol, referencePrice));
+  riskChecksRepo.upsert({
+    id: `chk_${Date.now()}_${++seq}`,
+    decision_id,
+    stage,
+    symbol: order.symbol,
+    side: order.side,
+    size: order.size,
+    price: order.price ?? null,
+    approved: result.approved,
+    rejections: result.rejections,
+    checks: result.checks,
+    timestamp: new Date().toISOString()
+  });
+  if (!result.approved) {
+    console.warn(`Pre-trade ${stage} ${decision_id} rejected: ${result.rejections.map((r) => r.code).join(', ')}`);
+  }
+  return result;
+}
+
+const positivePrice = (v: unknown) => (typeof v === 'number' && v > 0 ? v : undefined);
 
 export function handleTradeDecision(req: Request, res: Response) {
-  const { symbol, size, side, include } = req.body || {};
+  const { symbol, size, side, include, price } = req.body || {};
   if (!symbol || typeof size !== 'number' || size <= 0) {
     return res.status(400).json({ status: 'error', detail: 'invalid inputs' });
   }
-  const decision_id = `dec_${Date.now()}`;
-  const recommended = side || (Math.random() > 0.5 ? 'buy' : 'sell');
-  lastDecision = {
+  if (price !== undefined && !positivePrice(price)) {
+    return res.status(400).json({ status: 'error', detail: 'price must be a positive number' });
+  }
+  const sym = String(symbol).trim().toUpperCase();
+  const decision_id = `dec_${Date.now()}_${++seq}`;
+  const recommended: 'buy' | 'sell' = side === 'buy' || side === 'sell' ? side : (Math.random() > 0.5 ? 'buy' : 'sell');
+  const reference_price = positivePrice(price) ?? heldPositions().marks[sym] ?? null;
+  const now = Date.now();
+  const decision: TradeDecision = {
     decision_id,
-    symbol,
+    symbol: sym,
     size,
     recommended,
     confidence: +(Math.random()*0.5 + 0.5).toFixed(2),
@@ -20,22 +154,91 @@ export function handleTradeDecision(req: Request, res: Response) {
       rsi: +(30 + Math.random()*40).toFixed(2),
       macd: +(Math.random()*2 - 1).toFixed(3),
       atr: +(Math.random()*500).toFixed(2),
-      updated_at: new Date().toISOString()
+      updated_at: new Date(now).toISOString()
     },
-    context: include || {}
+    context: include || {},
+    reference_price,
+    risk: checkOrder(decision_id, 'decision', { symbol: sym, side: recommended, size }, reference_price),
+    status: 'open',
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + DECISION_TTL_MS).toISOString()
   };
-  res.json({ status: 'success', data: lastDecision });
+  decisionsRepo.upsert(decision);
+  res.json({ status: 'success', data: decision });
+}
+
+export function handleGetTradeDecision(req: Request, res: Response) {
+  const decision = decisionsRepo.get(req.params.decisionId);
+  if (!decision) return res.status(404).json({ status: 'error', detail: 'decision not found' });
+  res.json({ status: 'success', data: decision });
 }
 
 export function handleTradeExecute(req: Request, res: Response) {
-  const { decision_id, symbol, side, size, price, slippage } = req.body || {};
+  const body = req.body || {};
+  const { decision_id, symbol, price } = body;
+  const side = String(body.side ?? body.action ?? '').toLowerCase();
+  const size = body.size ?? body.amount;
   if (!decision_id || !symbol || !side || typeof size !== 'number') {
     return res.status(400).json({ status: 'error', detail: 'missing fields' });
   }
-  if (!lastDecision || lastDecision.decision_id !== decision_id) {
+  if (!['buy', 'sell', 'flat'].includes(side) || size <= 0) {
+    return res.status(400).json({ status: 'error', detail: 'side must be buy, sell or flat and size positive' });
+  }
+  if (price !== undefined && !positivePrice(price)) {
+    return res.status(400).json({ status: 'error', detail: 'price must be a positive number' });
+  }
+  const decision = decisionsRepo.get(String(decision_id));
+  if (!decision) {
     return res.status(409).json({ status: 'error', detail: 'stale or unknown decision' });
   }
-  const execution_id = `exec_${Date.now()}`;
-  const fillPrice = price || +(30000 + Math.random()*5000).toFixed(2);
-  res.json({ status: 'success', data: { execution_id, fill_price: fillPrice, status: 'accepted' } });
+  if (decision.status !== 'open') {
+    return res.status(409).json({ status: 'error', detail: `decision already ${decision.status}` });
+  }
+  if (Date.parse(decision.expires_at) < Date.now()) {
+    return res.status(409).json({ status: 'error', detail: 'decision expired' });
+  }
+  const sym = String(symbol).trim().toUpperCase();
+  if (sym !== decision.symbol) {
+    return res.status(409).json({ status: 'error', detail: `decision is for ${decision.symbol}` });
+  }
+
+  // Flat closes whatever is held in the symbol
+  let order: PreTradeOrder;
+  if (side === 'flat') {
+    const held = heldPositions().positions[sym] || 0;
+    if (!held) return res.status(400).json({ status: 'error', detail: `no ${sym} position to flatten` });
+    order = { symbol: sym, side: held > 0 ? 'sell' : 'buy', size: Math.abs(held), price: positivePrice(price) };
+  } else {
+    order = { symbol: sym, side: side as 'buy' | 'sell', size, price: positivePrice(price) };
+  }
+
+  const risk = checkOrder(decision.decision_id, 'execute', order, decision.reference_price);
+  if (!risk.approved) {
+    return res.status(422).json({
+      status: 'error',
+      detail: `pre-trade checks failed: ${risk.rejections.map((r) => r.message).join('; ')}`,
+      rejections: risk.rejections,
+      checks: risk.checks
+    });
+  }
+
+  const execution_id = `exec_${Date.now()}_${seq}`;
+  const fillPrice = order.price ?? decision.reference_price!;
+  decisionsRepo.update(decision.decision_id, (d) => {
+    d.status = 'executed';
+    d.execution_id = execution_id;
+  });
+  publishTradeEvent({ decision_id: decision.decision_id, symbol: sym, side: order.side.toUpperCase(), size: order.size, price: fillPrice, status: 'filled', executor: 'admin', request_id: execution_id });
+  res.json({ status: 'success', data: { execution_id, fill_price: fillPrice, status: 'accepted', side: order.side, size: order.size, warnings: risk.warnings, checks: risk.checks } });
+}
+
+// GET /api/trades/risk-checks?decision_id=&limit=
+export function handleListRiskChecks(req: Request, res: Response) {
+  const decisionId = req.query.decision_id ? String(req.query.decision_id) : null;
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 50, 1), 500);
+  const items = riskChecksRepo.list()
+    .filter((l) => !decisionId || l.decision_id === decisionId)
+    .reverse()
+    .slice(0, limit);
+  res.json({ status: 'success', data: items });
 }
@@ -1,10 +1,13 @@
 import { RequestHandler } from "express";
+import { createRepository } from "../storage/repository";
+import { createProposal, governanceErrorStatus, registerProposalExecutor } from "./governance";
+import { GovernanceConflictError, GovernanceValidationError, tallyVotes } from "../governance/engine";
+import { recordAudit } from "./audit";
 
 // Types
 export interface InviteUserRequest {
   email: string;
   role: 'user' | 'admin';
-  founderApprovals: string[];
 }
 
 export interface ApproveUserRequest {
@@ -30,44 +33,85 @@ export interface PendingUser {
   founderApprovals: string[];
 }
 
-// Mock data store
-let mockPendingUsers: PendingUser[] = [
-  {
-    id: 'user1',
-    email: 'john.doe@example.com',
-    requestedRole: 'user',
-    approvalsReceived: 2,
-    approvalsNeeded: 3,
-    invitedAt: '2024-01-20T10:30:00Z',
-    founderApprovals: ['founder1', 'founder2']
+// Persistent stores (backend selected by AETHER_STORAGE)
+const pendingUsersRepo = createRepository<PendingUser>('users_pending', {
+  seed: () => [
+    {
+      id: 'user1',
+      email: 'john.doe@example.com',
+      requestedRole: 'user',
+      approvalsReceived: 2,
+      approvalsNeeded: 3,
+      invitedAt: '2024-01-20T10:30:00Z',
+      founderApprovals: ['founder1', 'founder2']
+    },
+    {
+      id: 'user2',
+      email: 'jane.admin@example.com',
+      requestedRole: 'admin',
+      approvalsReceived: 4,
+      approvalsNeeded: 5,
+      invitedAt: '2024-01-19T14:15:00Z',
+      founderApprovals: ['founder1', 'founder2', 'founder3', 'founder4']
+    },
+    {
+      id: 'user3',
+      email: 'mike.trader@example.com',
+      requestedRole: 'user',
+      approvalsReceived: 1,
+      approvalsNeeded: 3,
+      invitedAt: '2024-01-21T09:45:00Z',
+      founderApprovals: ['founder1']
+    }
+  ],
+  migrations: [
+    {
+      version: 1,
+      description: 'baseline: founder approvals list',
+      up: (u) => ({ founderApprovals: [], ...u })
+    }
+  ]
+});
+
+const userSettingsRepo = createRepository<{ userId: string; settings: UserSettingsRequest }>('user_settings', {
+  key: (s) => s.userId
+});
+
+// Invitations are created by a passed user_invite proposal; the founders who
+// voted for it are recorded as its approvals
+registerProposalExecutor<InviteUserRequest>('user_invite', {
+  subject: ({ email }) => email.toLowerCase(),
+  validate: (payload) => {
+    if (!payload?.email || !payload.email.includes('@')) {
+      throw new GovernanceValidationError('Valid email address is required');
+    }
+    if (!['user', 'admin'].includes(payload.role)) {
+      throw new GovernanceValidationError('Role must be either user or admin');
+    }
   },
-  {
-    id: 'user2',
-    email: 'jane.admin@example.com',
-    requestedRole: 'admin',
-    approvalsReceived: 4,
-    approvalsNeeded: 5,
-    invitedAt: '2024-01-19T14:15:00Z',
-    founderApprovals: ['founder1', 'founder2', 'founder3', 'founder4']
+  precheck: ({ email }) => {
+    if (pendingUsersRepo.find(u => u.email === email)) {
+      throw new GovernanceConflictError('User with this email already has a pending invitation');
+    }
   },
-  {
-    id: 'user3',
-    email: 'mike.trader@example.com',
-    requestedRole: 'user',
-    approvalsReceived: 1,
-    approvalsNeeded: 3,
-    invitedAt: '2024-01-21T09:45:00Z',
-    founderApprovals: ['founder1']
+  apply: ({ email, role }, proposal) => {
+    const approvals = proposal.votes.filter(v => v.approve).map(v => v.founderEmail || v.founderId);
+    return pendingUsersRepo.upsert({
+      id: `user_${Date.now()}`,
+      email,
+      requestedRole: role,
+      approvalsReceived: tallyVotes(proposal.votes).approve,
+      approvalsNeeded: proposal.requiredVotes,
+      invitedAt: new Date().toISOString(),
+      founderApprovals: approvals
+    });
   }
-];
-
-// Mock user settings store
-const mockUserSettings = new Map<string, UserSettingsRequest>();
+});
 
-// Invite User
+// Invite User: opens a user_invite proposal for founders to vote on
 export const handleInviteUser: RequestHandler = (req, res) => {
   try {
-    const { email, role, founderApprovals } = req.body as InviteUserRequest;
+    const { email, role } = req.body as InviteUserRequest;
 
     // Validation
     if (!email || !email.includes('@')) {
@@ -84,17 +128,8 @@ export const handleInviteUser: RequestHandler = (req, res) => {
       });
     }
 
-    const requiredApprovals = role === 'admin' ? 5 : 3;
-    const approvalsList: string[] = Array.isArray(founderApprovals) ? founderApprovals.filter(Boolean) : [];
-    if (approvalsList.length < requiredApprovals) {
-      return res.status(400).json({
-        status: 'error',
-        error: `${requiredApprovals} founder approvals required for ${role} role`
-      });
-    }
-
     // Check if user already exists
-    const existingUser = mockPendingUsers.find(u => u.email === email);
+    const existingUser = pendingUsersRepo.find(u => u.email === email);
     if (existingUser) {
       return res.status(409).json({
         status: 'error',
@@ -102,25 +137,23 @@ export const handleInviteUser: RequestHandler = (req, res) => {
       });
     }
 
-    // Create new pending user
-    const newUser: PendingUser = {
-      id: `user_${Date.now()}`,
-      email,
-      requestedRole: role,
-      approvalsReceived: approvalsList.length,
-      approvalsNeeded: role === 'admin' ? 5 : 3,
-      invitedAt: new Date().toISOString(),
-      founderApprovals: approvalsList
-    };
-
-    mockPendingUsers.push(newUser);
+    const proposal = createProposal<InviteUserRequest>({
+      kind: 'user_invite',
+      description: `Invite ${email} as ${role}`,
+      payload: { email, role },
+      createdBy: req.user?.email || 'unknown'
+    });
 
-    res.status(201).json({
+    res.status(202).json({
       status: 'success',
-      message: 'Invitation sent successfully',
-      data: newUser
+      message: 'Invitation proposed; it is sent once founders approve',
+      data: { proposal }
     });
   } catch (error) {
+    const code = governanceErrorStatus(error);
+    if (code !== 500) {
+      return res.status(code).json({ status: 'error', error: (error as Error).message });
+    }
     console.error('Invite user error:', error);
     res.status(500).json({
       status: 'error',
@@ -134,7 +167,7 @@ export const handleGetPendingUsers: RequestHandler = (req, res) => {
   try {
     const { limit = '10', offset = '0', search = '' } = req.query;
     
-    let filteredUsers = mockPendingUsers;
+    let filteredUsers = pendingUsersRepo.list();
     
     // Apply search filter
     if (search) {
@@ -178,15 +211,13 @@ export const handleApproveUser: RequestHandler = (req, res) => {
       });
     }
 
-    const userIndex = mockPendingUsers.findIndex(u => u.id === userId);
-    if (userIndex === -1) {
+    const user = pendingUsersRepo.get(userId);
+    if (!user) {
       return res.status(404).json({
         error: 'Pending user not found'
       });
     }
 
-    const user = mockPendingUsers[userIndex];
-
     // Check if user has sufficient approvals
     if (user.approvalsReceived < user.approvalsNeeded) {
       return res.status(400).json({
@@ -195,7 +226,13 @@ export const handleApproveUser: RequestHandler = (req, res) => {
     }
 
     // Remove from pending list (in real app, move to active users)
-    mockPendingUsers.splice(userIndex, 1);
+    pendingUsersRepo.remove(userId);
+    const entry = recordAudit({
+      action: 'USER_APPROVE',
+      target: user.email,
+      after: { role: assignedRole || user.requestedRole },
+      details: `Approved ${user.email} after ${user.approvalsReceived} founder approvals`
+    }, req);
 
     res.json({
       status: 'success',
@@ -205,7 +242,7 @@ export const handleApproveUser: RequestHandler = (req, res) => {
         email: user.email,
         role: assignedRole || user.requestedRole,
         approvedAt: new Date().toISOString(),
-        audit_id: `AUD-${Date.now()}`
+        audit_id: entry.id
       }
     });
   } catch (error) {
@@ -227,15 +264,14 @@ export const handleRejectUser: RequestHandler = (req, res) => {
       });
     }
 
-    const userIndex = mockPendingUsers.findIndex(u => u.id === userId);
-    if (userIndex === -1) {
+    const user = pendingUsersRepo.get(userId);
+    if (!user) {
       return res.status(404).json({
         error: 'Pending user not found'
       });
     }
 
-    const user = mockPendingUsers[userIndex];
-    mockPendingUsers.splice(userIndex, 1);
+    pendingUsersRepo.remove(userId);
 
     res.json({
       status: 'success',
@@ -260,7 +296,7 @@ export const handleGetUserSettings: RequestHandler = (req, res) => {
     // In a real app, get from authenticated user context
     const userId = 'current_user'; // Mock user ID
     
-    const settings = mockUserSettings.get(userId) || {
+    const settings = userSettingsRepo.get(userId)?.settings || {
       stopLossMultiplier: 0.2,
       takeProfitMultiplier: 2.0,
       newsAnalysisEnabled: true,
@@ -314,7 +350,7 @@ export const handleUpdateUserSettings: RequestHandler = (req, res) => {
     const userId = 'current_user'; // Mock user ID
     
     // Save settings
-    mockUserSettings.set(userId, settings);
+    userSettingsRepo.upsert({ userId, settings });
 
     res.json({
       status: 'success',
@@ -332,10 +368,11 @@ export const handleUpdateUserSettings: RequestHandler = (req, res) => {
 // Get User Statistics (for admin dashboard)
 export const handleGetUserStats: RequestHandler = (req, res) => {
   try {
+    const pendingUsers = pendingUsersRepo.list();
     const stats = {
-      totalPending: mockPendingUsers.length,
-      needingApproval: mockPendingUsers.filter(u => u.approvalsReceived >= u.approvalsNeeded).length,
-      totalInvitations: mockPendingUsers.length + 25, // Mock approved users
+      totalPending: pendingUsers.length,
+      needingApproval: pendingUsers.filter(u => u.approvalsReceived >= u.approvalsNeeded).length,
+      totalInvitations: pendingUsers.length + 25, // Mock approved users
       approvalRate: 0.85,
       averageApprovalTime: '2.3 days'
     };
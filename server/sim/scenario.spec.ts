@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  monteCarlo,
+  normalizeScenario,
+  ScenarioValidationError,
+  simulatePath,
+  type PathOptions,
+} from "./scenario";
+
+const options: PathOptions = {
+  seed: 11,
+  capital: 1000,
+  tiers: [
+    { id: "tight", label: "Tight", maxDrawdown: 0.02, pnlWarning: -0.01 },
+    { id: "loose", label: "Loose", maxDrawdown: 0.5, pnlWarning: -0.4 },
+  ],
+  defaultTier: "loose",
+};
+
+describe("scenario model", () => {
+  it("replays the same path for the same seed", () => {
+    const s = normalizeScenario({ name: "x", vol_spike_pct: 50 });
+    const a = simulatePath(s, options);
+    const b = simulatePath(s, options);
+    expect(a.pnl).toEqual(b.pnl);
+    expect(simulatePath(s, { ...options, seed: 12 }).pnl).not.toEqual(a.pnl);
+  });
+
+  it("hedges when PnL crosses the default tier's warning", () => {
+    const s = normalizeScenario({ name: "crash", price_jump_pct: -50 });
+    const r = simulatePath(s, options);
+    expect(r.actions[0]?.action).toBe("hedge_increase");
+  });
+
+  it("orders the bands and reports tail loss beyond VaR", () => {
+    const s = normalizeScenario({ name: "vol", vol_spike_pct: 100 });
+    const r = monteCarlo(s, options, 400);
+    for (const b of r.bands) {
+      expect(b.p5).toBeLessThanOrEqual(b.p50);
+      expect(b.p50).toBeLessThanOrEqual(b.p95);
+    }
+    expect(r.cvar["95"]).toBeGreaterThanOrEqual(r.var["95"]);
+    expect(r.var["99"]).toBeGreaterThanOrEqual(r.var["95"]);
+    const [tight, loose] = r.tier_breach;
+    expect(tight.breach_prob).toBeGreaterThan(loose.breach_prob);
+    expect(monteCarlo(s, options, 400)).toEqual(r);
+  });
+
+  it("rejects out-of-range shocks", () => {
+    expect(() => normalizeScenario({ liquidity_drain_pct: 150 })).toThrow(
+      ScenarioValidationError,
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import { seededRandom } from "../backtest/engine";
+
+// Stress scenario model for the Scenario Lab.
+//
+// A scenario describes a shock (price jump, volatility spike, spread widening,
+// liquidity drain) over a window of minutes. One path is a seeded random walk
+// of portfolio returns through that window: the jump is spread over the first
+// few steps, volatility scales with the vol spike and the liquidity drain, and
+// every step pays half the widened spread on its turnover. The portfolio
+// responds with the default risk tier: it hedges half the exposure once PnL
+// falls below the tier's pnlWarning, cuts to a fifth once the drawdown reaches
+// maxDrawdown and lifts the hedge again after recovering. Monte Carlo runs many such paths
+// from one seed and summarises the distribution.
+
+export interface Scenario {
+  name: string;
+  price_jump_pct: number;
+  vol_spike_pct: number;
+  spread_widen_bps: number;
+  liquidity_drain_pct: number;
+  duration_min: number;
+}
+
+export interface RiskTier {
+  id: string;
+  label: string;
+  maxDrawdown: number;
+  pnlWarning: number;
+}
+
+export interface PathOptions {
+  seed: number;
+  /** Monetary value of the portfolio; PnL is reported in these units */
+  capital: number;
+  tiers: RiskTier[];
+  defaultTier: string;
+}
+
+export interface PathAction {
+  t: number;
+  action: "hedge_increase" | "de_risk" | "hedge_reduce";
+  detail: string;
+}
+
+export interface PathResult {
+  pnl: Array<{ t: number; pnl: number }>;
+  actions: PathAction[];
+  /** Worst peak-to-trough fall of equity, as a negative fraction */
+  max_drawdown: number;
+  /** Per-step volatility of returns */
+  volatility: number;
+  final_pnl: number;
+}
+
+export interface MonteCarloResult {
+  seed: number;
+  paths: number;
+  steps: number;
+  bands: Array<{
+    t: number;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+  }>;
+  final_pnl: { mean: number; p5: number; p50: number; p95: number };
+  /** Losses as positive amounts of capital */
+  var: { "95": number; "99": number };
+  cvar: { "95": number; "99": number };
+  max_drawdown: { p50: number; p95: number };
+  /** Share of paths whose drawdown reached the tier's limit */
+  tier_breach: Array<{
+    tier: string;
+    label: string;
+    max_drawdown: number;
+    breach_prob: number;
+    warning_prob: number;
+  }>;
+}
+
+export class ScenarioValidationError extends Error {}
+
+const LIMITS: Record<keyof Omit<Scenario, "name">, [number, number]> = {
+  price_jump_pct: [-100, 100],
+  vol_spike_pct: [0, 1000],
+  spread_widen_bps: [0, 10000],
+  liquidity_drain_pct: [0, 100],
+  duration_min: [5, 480],
+};
+
+const DEFAULTS: Omit<Scenario, "name"> = {
+  price_jump_pct: 0,
+  vol_spike_pct: 0,
+  spread_widen_bps: 0,
+  liquidity_drain_pct: 0,
+  duration_min: 30,
+};
+
+export const MAX_PATHS = 5000;
+export const MAX_BAND_POINTS = 200;
+
+const BASE_VOL = 0.002; // per step, before the shock
+const TURNOVER = 0.05; // share of exposure traded per step
+const HEDGED = 0.5;
+const DE_RISKED = 0.2;
+
+export function normalizeScenario(raw: any): Scenario {
+  if (!raw || typeof raw !== "object")
+    throw new ScenarioValidationError("scenario object required");
+  const out: any = { name: String(raw.name || "Scenario").slice(0, 80) };
+  for (const [k, [lo, hi]] of Object.entries(LIMITS)) {
+    const v = raw[k] ?? (DEFAULTS as any)[k];
+    const n = Number(v);
+    if (!Number.isFinite(n))
+      throw new ScenarioValidationError(`${k} must be a number`);
+    if (n < lo || n > hi)
+      throw new ScenarioValidationError(`${k} must be within [${lo}, ${hi}]`);
+    out[k] = n;
+  }
+  return out;
+}
+
+export function stepsFor(s: Scenario) {
+  return Math.max(30, Math.min(600, Math.round(s.duration_min * 2)));
+}
+
+function gaussian(rand: () => number) {
+  const u = 1 - rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+function defaultTier(o: Pick<PathOptions, "tiers" | "defaultTier">) {
+  return o.tiers.find((t) => t.id === o.defaultTier) || o.tiers[0];
+}
+
+/** Runs one path; `rand` lets Monte Carlo share a generator across paths */
+export function simulatePath(
+  s: Scenario,
+  o: PathOptions,
+  rand: () => number = seededRandom(o.seed),
+): PathResult {
+  const steps = stepsFor(s);
+  const shockSteps = Math.max(1, Math.round(steps * 0.05));
+  const vol =
+    BASE_VOL * (1 + s.vol_spike_pct / 100) * (1 + s.liquidity_drain_pct / 200);
+  const halfSpread = s.spread_widen_bps / 2 / 1e4;
+  // Thin books make every trade cost more than the quoted spread
+  const tradeCost = halfSpread * (1 + s.liquidity_drain_pct / 100);
+  const tier = defaultTier(o);
+
+  const pnl: PathResult["pnl"] = [];
+  const actions: PathAction[] = [];
+  let equity = 1;
+  let peak = 1;
+  let maxDD = 0;
+  let exposure = 1;
+  let sumSq = 0;
+  const rebalance = (to: number) => {
+    equity = Math.max(0, equity - Math.abs(exposure - to) * tradeCost);
+    exposure = to;
+  };
+
+  for (let i = 0; i < steps; i++) {
+    const jump = i < shockSteps ? s.price_jump_pct / 100 / shockSteps : 0;
+    const ret = exposure * (jump + vol * gaussian(rand));
+    sumSq += ret * ret;
+    equity *= 1 + ret;
+    equity = Math.max(0, equity - exposure * TURNOVER * tradeCost);
+    if (equity > peak) peak = equity;
+    const dd = equity / peak - 1;
+    if (dd < maxDD) maxDD = dd;
+
+    if (tier) {
+      const loss = equity - 1;
+      if (exposure > DE_RISKED && dd <= -tier.maxDrawdown) {
+        rebalance(DE_RISKED);
+        actions.push({
+          t: i,
+          action: "de_risk",
+          detail: `Drawdown ${(dd * 100).toFixed(1)}% reached the ${tier.label} limit`,
+        });
+      } else if (exposure === 1 && loss <= tier.pnlWarning) {
+        rebalance(HEDGED);
+        actions.push({
+          t: i,
+          action: "hedge_increase",
+          detail: `PnL ${(loss * 100).toFixed(1)}% below the ${tier.label} warning`,
+        });
+      } else if (exposure < 1 && loss > tier.pnlWarning / 2) {
+        rebalance(1);
+        actions.push({
+          t: i,
+          action: "hedge_reduce",
+          detail: "Recovered above half the warning level",
+        });
+      }
+    }
+    pnl.push({ t: i, pnl: (equity - 1) * o.capital });
+  }
+
+  return {
+    pnl,
+    actions,
+    max_drawdown: maxDD,
+    volatility: Math.sqrt(sumSq / steps),
+    final_pnl: pnl[pnl.length - 1]?.pnl ?? 0,
+  };
+}
+
+/** Linear-interpolated percentile of an ascending array */
+function percentile(sorted: ArrayLike<number>, p: number) {
+  if (!sorted.length) return 0;
+  const x = (sorted.length - 1) * p;
+  const lo = Math.floor(x);
+  const hi = Math.ceil(x);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (x - lo);
+}
+
+function tail(sorted: Float64Array, level: number) {
+  // Losses are the left tail of final PnL
+  const cut = percentile(sorted, 1 - level);
+  let sum = 0;
+  let n = 0;
+  for (const v of sorted) {
+    if (v > cut) break;
+    sum += v;
+    n++;
+  }
+  return { var: Math.max(0, -cut), cvar: Math.max(0, n ? -sum / n : -cut) };
+}
+
+export function monteCarlo(
+  s: Scenario,
+  o: PathOptions,
+  paths: number,
+): MonteCarloResult {
+  const n = Math.max(1, Math.min(MAX_PATHS, Math.floor(paths)));
+  const steps = stepsFor(s);
+  const rand = seededRandom(o.seed);
+  const stride = Math.max(1, Math.ceil(steps / MAX_BAND_POINTS));
+  const sampled: number[] = [];
+  for (let t = 0; t < steps; t += stride) sampled.push(t);
+  if (sampled[sampled.length - 1] !== steps - 1) sampled.push(steps - 1);
+
+  // columns[j][k]: PnL of path k at sampled step j
+  const columns = sampled.map(() => new Float64Array(n));
+  const finals = new Float64Array(n);
+  const drawdowns = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const r = simulatePath(s, o, rand);
+    sampled.forEach((t, j) => (columns[j][k] = r.pnl[t].pnl));
+    finals[k] = r.final_pnl;
+    drawdowns[k] = r.max_drawdown;
+  }
+
+  const bands = sampled.map((t, j) => {
+    const c = columns[j].sort();
+    return {
+      t,
+      p5: percentile(c, 0.05),
+      p25: percentile(c, 0.25),
+      p50: percentile(c, 0.5),
+      p75: percentile(c, 0.75),
+      p95: percentile(c, 0.95),
+    };
+  });
+  finals.sort();
+  drawdowns.sort(); // most negative first
+  const t95 = tail(finals, 0.95);
+  const t99 = tail(finals, 0.99);
+  const share = (pred: (i: number) => boolean) => {
+    let c = 0;
+    for (let i = 0; i < n; i++) if (pred(i)) c++;
+    return c / n;
+  };
+
+  return {
+    seed: o.seed,
+    paths: n,
+    steps,
+    bands,
+    final_pnl: {
+      mean: finals.reduce((a, b) => a + b, 0) / n,
+      p5: percentile(finals, 0.05),
+      p50: percentile(finals, 0.5),
+      p95: percentile(finals, 0.95),
+    },
+    var: { "95": t95.var, "99": t99.var },
+    cvar: { "95": t95.cvar, "99": t99.cvar },
+    max_drawdown: {
+      p50: percentile(drawdowns, 0.5),
+      p95: percentile(drawdowns, 0.05),
+    },
+    tier_breach: o.tiers.map((tier) => ({
+      tier: tier.id,
+      label: tier.label,
+      max_drawdown: tier.maxDrawdown,
+      breach_prob: share((i) => drawdowns[i] <= -tier.maxDrawdown),
+      warning_prob: share((i) => finals[i] / o.capital <= tier.pnlWarning),
+    })),
+  };
+}
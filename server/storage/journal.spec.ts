@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JournalRepository, StorageBusyError, retryWhenBusy } from "./journal";
+import { MemoryRepository, type Migration } from "./repository";
+
+interface Item {
+  id: string;
+  value: number;
+  label?: string;
+}
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "aether-journal-"));
+  file = path.join(dir, "items.jsonl");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("JournalRepository", () => {
+  it("seeds an empty journal and survives reopening", () => {
+    const a = new JournalRepository<Item>(file, "items", {
+      seed: () => [{ id: "a", value: 1 }],
+    });
+    a.upsert({ id: "b", value: 2 });
+    a.update("a", (i) => {
+      i.value = 10;
+    });
+
+    const reopened = new JournalRepository<Item>(file, "items", {
+      seed: () => [{ id: "ignored", value: 0 }],
+    });
+    expect(reopened.list()).toEqual([
+      { id: "a", value: 10 },
+      { id: "b", value: 2 },
+    ]);
+  });
+
+  it("sees writes made through another instance of the same file", () => {
+    const a = new JournalRepository<Item>(file, "items");
+    const b = new JournalRepository<Item>(file, "items");
+    a.upsert({ id: "x", value: 1 });
+    expect(b.get("x")).toEqual({ id: "x", value: 1 });
+    b.remove("x");
+    expect(a.get("x")).toBeUndefined();
+  });
+
+  it("migrates records written at an older schema version", () => {
+    new JournalRepository<Item>(file, "items").upsert({ id: "a", value: 1 });
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        description: "add label",
+        up: (r) => ({ ...r, label: `item-${r.id}` }),
+      },
+    ];
+    const repo = new JournalRepository<Item>(file, "items", { migrations });
+    expect(repo.get("a")).toEqual({ id: "a", value: 1, label: "item-a" });
+    const meta = JSON.parse(fs.readFileSync(file, "utf8").split("\n")[0]);
+    expect(meta).toMatchObject({ op: "meta", schemaVersion: 1 });
+  });
+
+  it("compacts a journal dominated by overwrites", () => {
+    const repo = new JournalRepository<Item>(file, "items");
+    for (let i = 0; i < 600; i++) repo.upsert({ id: "hot", value: i });
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(lines.length).toBeLessThan(600);
+    expect(repo.get("hot")?.value).toBe(599);
+  });
+
+  it("fails fast while another writer holds the lock", () => {
+    const repo = new JournalRepository<Item>(file, "items");
+    const lock = `${file}.lock`;
+    fs.writeFileSync(lock, "");
+    expect(() => repo.upsert({ id: "a", value: 1 })).toThrow(StorageBusyError);
+    expect(repo.get("a")).toBeUndefined();
+
+    // A lock abandoned by a crashed process is broken once stale
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+    repo.upsert({ id: "a", value: 1 });
+    expect(repo.get("a")).toEqual({ id: "a", value: 1 });
+    expect(fs.existsSync(lock)).toBe(false);
+  });
+
+  it("retries timer-driven writes until the lock is released", () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    try {
+      const repo = new JournalRepository<Item>(file, "items");
+      const lock = `${file}.lock`;
+      fs.writeFileSync(lock, "");
+      retryWhenBusy(() => repo.upsert({ id: "a", value: 1 }));
+      vi.advanceTimersByTime(1_000);
+      expect(repo.get("a")).toBeUndefined();
+
+      fs.unlinkSync(lock);
+      vi.advanceTimersByTime(5_000);
+      expect(repo.get("a")).toEqual({ id: "a", value: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("MemoryRepository", () => {
+  it("hands out copies so changes need an explicit write", () => {
+    const repo = new MemoryRepository<Item>({
+      seed: () => [{ id: "a", value: 1 }],
+    });
+    const item = repo.get("a")!;
+    item.value = 5;
+    expect(repo.get("a")?.value).toBe(1);
+    repo.upsert(item);
+    expect(repo.get("a")?.value).toBe(5);
+  });
+});
@@ -0,0 +1,332 @@
+import fs from "fs";
+import path from "path";
+import type { Repository, RepositoryOptions } from "./repository";
+import { applyMigrations, clone, schemaVersion } from "./repository";
+
+// File-backed repository: one append-only JSONL journal per collection.
+//
+// The first line is a meta header; every later line is a `put` (full record,
+// tagged with the writer's schema version) or a `del`. Each process keeps the
+// replayed state in memory and tails the file before every read, so writes
+// from other processes become visible without a restart. Writes and
+// compaction take an exclusive lock file, and compaction swaps the journal via
+// rename, which readers detect through the inode change. Locks are only held
+// for one synchronous write, so a lock held by another process is reported
+// as a StorageBusyError rather than waited for: requests answer 503 and
+// timer-driven writes go through retryWhenBusy().
+
+type JournalEntry =
+  | { op: "meta"; collection: string; schemaVersion: number; at: string }
+  | { op: "put"; id: string; v: number; record: any; at: string }
+  | { op: "del"; id: string; at: string };
+
+const COMPACT_MIN_ENTRIES = 500;
+const LOCK_STALE_MS = 30_000;
+const BUSY_RETRY_MS = 200;
+const BUSY_RETRY_MAX_MS = 5_000;
+
+/** Another process holds the collection's write lock */
+export class StorageBusyError extends Error {
+  constructor(readonly collection: string) {
+    super(`storage: ${collection} is locked by another writer, retry shortly`);
+    this.name = "StorageBusyError";
+  }
+}
+
+/**
+ * Runs a write that no request is waiting on (a timer callback), retrying it
+ * with backoff while the lock is busy instead of throwing out of the timer.
+ * Stale locks are broken, so the retries end. The write should be safe to
+ * repeat, e.g. an update() that checks the state it expects.
+ */
+export function retryWhenBusy(write: () => void, attempt = 0): void {
+  try {
+    write();
+  } catch (e) {
+    if (!(e instanceof StorageBusyError)) throw e;
+    const delay = Math.min(BUSY_RETRY_MS * 2 ** attempt, BUSY_RETRY_MAX_MS);
+    setTimeout(() => retryWhenBusy(write, attempt + 1), delay);
+  }
+}
+
+export class JournalRepository<T> implements Repository<T> {
+  private records = new Map<string, T>();
+  private keyOf: (item: T) => string;
+  private readonly version: number;
+  private readonly lockFile: string;
+  private inode = -1;
+  private offset = 0;
+  private partial = "";
+  private entries = 0;
+  private fileVersion = 0;
+  private migrated = false;
+
+  constructor(
+    private readonly file: string,
+    private readonly collection: string,
+    private readonly options: RepositoryOptions<T> = {},
+  ) {
+    this.keyOf = options.key || ((item: any) => String(item.id));
+    this.version = schemaVersion(options.migrations);
+    this.lockFile = `${file}.lock`;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    if (!fs.existsSync(file)) {
+      // A busy lock means another process is creating the journal
+      this.lockedOrSkip(() => {
+        if (fs.existsSync(file)) return;
+        const seed = options.seed?.() || [];
+        this.writeSnapshot(seed.map((r) => [this.keyOf(r), r]));
+      });
+    }
+    this.reload();
+    // Rewrite the journal once at the current schema so migrations run once
+    if (this.migrated || this.fileVersion < this.version) this.compact();
+  }
+
+  list(): T[] {
+    this.sync();
+    return Array.from(this.records.values(), clone);
+  }
+
+  get(id: string): T | undefined {
+    this.sync();
+    return clone(this.records.get(id));
+  }
+
+  find(predicate: (item: T) => boolean): T | undefined {
+    return this.list().find(predicate);
+  }
+
+  upsert(item: T): T {
+    const id = this.keyOf(item);
+    this.withLock(() => {
+      this.sync();
+      this.append({
+        op: "put",
+        id,
+        v: this.version,
+        record: item,
+        at: new Date().toISOString(),
+      });
+    });
+    this.afterWrite();
+    return clone(item);
+  }
+
+  update(id: string, mutate: (item: T) => T | void): T | undefined {
+    let result: T | undefined;
+    this.withLock(() => {
+      this.sync();
+      const current = clone(this.records.get(id));
+      if (current === undefined) return;
+      result = (mutate(current) as T) || current;
+      this.append({
+        op: "put",
+        id,
+        v: this.version,
+        record: result,
+        at: new Date().toISOString(),
+      });
+    });
+    if (result !== undefined) this.afterWrite();
+    return clone(result);
+  }
+
+  insert(build: (last: T | undefined) => T): T {
+    let result!: T;
+    this.withLock(() => {
+      this.sync();
+      let last: T | undefined;
+      for (const item of this.records.values()) last = item;
+      result = build(clone(last));
+      this.append({
+        op: "put",
+        id: this.keyOf(result),
+        v: this.version,
+        record: result,
+        at: new Date().toISOString(),
+      });
+    });
+    this.afterWrite();
+    return clone(result);
+  }
+
+  remove(id: string): boolean {
+    let removed = false;
+    this.withLock(() => {
+      this.sync();
+      if (!this.records.has(id)) return;
+      this.append({ op: "del", id, at: new Date().toISOString() });
+      removed = true;
+    });
+    if (removed) this.afterWrite();
+    return removed;
+  }
+
+  count(): number {
+    this.sync();
+    return this.records.size;
+  }
+
+  private append(entry: JournalEntry) {
+    fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+    this.sync();
+  }
+
+  private afterWrite() {
+    if (
+      this.entries > COMPACT_MIN_ENTRIES &&
+      this.entries > 4 * this.records.size
+    )
+      this.compact();
+  }
+
+  private apply(entry: JournalEntry) {
+    this.entries += 1;
+    if (entry.op === "meta") {
+      this.fileVersion = entry.schemaVersion || 0;
+    } else if (entry.op === "put") {
+      const v = typeof entry.v === "number" ? entry.v : this.fileVersion;
+      let record = entry.record;
+      if (v < this.version) {
+        record = applyMigrations(record, v, this.options.migrations);
+        this.migrated = true;
+      }
+      // Re-inserting keeps insertion order stable for existing ids
+      this.records.set(entry.id, record);
+    } else if (entry.op === "del") {
+      this.records.delete(entry.id);
+    }
+  }
+
+  private consume(text: string) {
+    const lines = (this.partial + text).split("\n");
+    this.partial = lines.pop() || "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line));
+      } catch {
+        console.warn(
+          `storage: skipping corrupt journal line in ${this.collection}`,
+        );
+      }
+    }
+  }
+
+  private reload() {
+    this.records.clear();
+    this.offset = 0;
+    this.partial = "";
+    this.entries = 0;
+    this.fileVersion = 0;
+    this.migrated = false;
+    this.sync();
+  }
+
+  // Reads whatever was appended since the last call (by any process)
+  private sync() {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.file);
+    } catch {
+      return;
+    }
+    if (stat.ino !== this.inode || stat.size < this.offset) {
+      this.inode = stat.ino;
+      this.records.clear();
+      this.offset = 0;
+      this.partial = "";
+      this.entries = 0;
+    }
+    if (stat.size === this.offset) return;
+    const fd = fs.openSync(this.file, "r");
+    try {
+      const buf = Buffer.alloc(stat.size - this.offset);
+      const read = fs.readSync(fd, buf, 0, buf.length, this.offset);
+      this.offset += read;
+      this.consume(buf.subarray(0, read).toString("utf8"));
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  // Skipped while another process writes; a later write compacts instead
+  private compact() {
+    const done = this.lockedOrSkip(() => {
+      this.sync();
+      this.writeSnapshot(Array.from(this.records.entries()));
+    });
+    if (done) this.reload();
+  }
+
+  private writeSnapshot(pairs: Array<[string, T]>) {
+    const at = new Date().toISOString();
+    const lines: JournalEntry[] = [
+      {
+        op: "meta",
+        collection: this.collection,
+        schemaVersion: this.version,
+        at,
+      },
+      ...pairs.map(
+        ([id, record]): JournalEntry => ({
+          op: "put",
+          id,
+          v: this.version,
+          record,
+          at,
+        }),
+      ),
+    ];
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(
+      tmp,
+      lines.map((l) => JSON.stringify(l)).join("\n") + "\n",
+    );
+    fs.renameSync(tmp, this.file);
+  }
+
+  private withLock(fn: () => void) {
+    const fd = this.tryLock() ?? this.tryLock(true);
+    if (fd === null) throw new StorageBusyError(this.collection);
+    try {
+      fn();
+    } finally {
+      fs.closeSync(fd);
+      try {
+        fs.unlinkSync(this.lockFile);
+      } catch {}
+    }
+  }
+
+  private lockedOrSkip(fn: () => void): boolean {
+    try {
+      this.withLock(fn);
+      return true;
+    } catch (e) {
+      if (e instanceof StorageBusyError) return false;
+      throw e;
+    }
+  }
+
+  // A lock left behind by a crashed process is removed once it is stale
+  private tryLock(breakStale = false): number | null {
+    if (breakStale) {
+      try {
+        const age = Date.now() - fs.statSync(this.lockFile).mtimeMs;
+        if (age <= LOCK_STALE_MS) return null;
+        fs.unlinkSync(this.lockFile);
+      } catch (e: any) {
+        if (e?.code !== "ENOENT") return null;
+      }
+    }
+    try {
+      return fs.openSync(this.lockFile, "wx");
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+      return null;
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import path from "path";
+import { JournalRepository } from "./journal";
+
+// Repository abstraction behind the route stores.
+//
+// Handlers read and write entities through a Repository instead of mutating
+// module-level arrays. Records handed out are copies: a change is only kept
+// once it is written back with upsert()/update(). The backend is picked by
+// AETHER_STORAGE:
+//   - "memory" (default): process-local, seeded on start, lost on restart
+//   - "journal": append-only JSONL file per collection under AETHER_DATA_DIR
+//     (default ./data), shared by every process pointing at the directory
+
+export interface Repository<T> {
+  /** All records in insertion order */
+  list(): T[];
+  get(id: string): T | undefined;
+  find(predicate: (item: T) => boolean): T | undefined;
+  /** Insert or replace a record; new records are appended */
+  upsert(item: T): T;
+  /** Load, mutate and write back a record; returns the stored copy */
+  update(id: string, mutate: (item: T) => T | void): T | undefined;
+  /**
+   * Append a record built from the last one in insertion order; reading the
+   * last record and writing the new one happen as one step
+   */
+  insert(build: (last: T | undefined) => T): T;
+  remove(id: string): boolean;
+  count(): number;
+}
+
+export interface Migration {
+  /** Schema version the record has after this migration runs */
+  version: number;
+  description: string;
+  up: (record: any) => any;
+}
+
+export interface RepositoryOptions<T> {
+  /** Primary key accessor; defaults to `item.id` */
+  key?: (item: T) => string;
+  /** Initial records for an empty store, already at the latest schema */
+  seed?: () => T[];
+  /** Ordered schema migrations; the last version is the current schema */
+  migrations?: Migration[];
+}
+
+export type StorageBackend = "memory" | "journal";
+
+export function storageBackend(): StorageBackend {
+  const v = String(process.env.AETHER_STORAGE || "memory").toLowerCase();
+  return v === "journal" || v === "file" ? "journal" : "memory";
+}
+
+export function storageDir(): string {
+  return path.resolve(process.env.AETHER_DATA_DIR || "data");
+}
+
+export function schemaVersion(migrations?: Migration[]): number {
+  return migrations && migrations.length
+    ? Math.max(...migrations.map((m) => m.version))
+    : 0;
+}
+
+export function applyMigrations(
+  record: any,
+  fromVersion: number,
+  migrations: Migration[] = [],
+) {
+  let out = record;
+  for (const m of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (m.version > fromVersion) out = m.up(out);
+  }
+  return out;
+}
+
+export function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+export class MemoryRepository<T> implements Repository<T> {
+  protected records = new Map<string, T>();
+  protected keyOf: (item: T) => string;
+
+  constructor(options: RepositoryOptions<T> = {}) {
+    this.keyOf = options.key || ((item: any) => String(item.id));
+    for (const item of options.seed?.() || []) {
+      this.records.set(this.keyOf(item), clone(item));
+    }
+  }
+
+  list(): T[] {
+    return Array.from(this.records.values(), clone);
+  }
+
+  get(id: string): T | undefined {
+    return clone(this.records.get(id));
+  }
+
+  find(predicate: (item: T) => boolean): T | undefined {
+    return this.list().find(predicate);
+  }
+
+  upsert(item: T): T {
+    this.records.set(this.keyOf(item), clone(item));
+    return clone(item);
+  }
+
+  update(id: string, mutate: (item: T) => T | void): T | undefined {
+    const current = this.get(id);
+    if (current === undefined) return undefined;
+    const next = (mutate(current) as T) || current;
+    return this.upsert(next);
+  }
+
+  insert(build: (last: T | undefined) => T): T {
+    let last: T | undefined;
+    for (const item of this.records.values()) last = item;
+    return this.upsert(build(clone(last)));
+  }
+
+  remove(id: string): boolean {
+    return this.records.delete(id);
+  }
+
+  count(): number {
+    return this.records.size;
+  }
+}
+
+const registry = new Map<string, Repository<any>>();
+
+// Returns the repository for a collection, creating it on first use with the
+// backend selected by AETHER_STORAGE.
+export function createRepository<T>(
+  collection: string,
+  options: RepositoryOptions<T> = {},
+): Repository<T> {
+  const existing = registry.get(collection);
+  if (existing) return existing as Repository<T>;
+  const repo: Repository<T> =
+    storageBackend() === "journal"
+      ? new JournalRepository<T>(
+          path.join(storageDir(), `${collection}.jsonl`),
+          collection,
+          options,
+        )
+      : new MemoryRepository<T>(options);
+  registry.set(collection, repo);
+  return repo;
+}
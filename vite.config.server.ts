@@ -33,6 +33,7 @@ export default defineConfig({
         // External dependencies that should not be bundled
         "express",
         "cors",
+        "ws",
       ],
       output: {
         format: "es",